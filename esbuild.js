@@ -77,6 +77,27 @@ function copyWebviewAssets() {
 		fs.copyFileSync(historyViewCssSource, path.join(webviewDir, 'historyView.css'));
 		console.log('[assets] Copied historyView.css');
 	}
+
+	// Copy collectionRunner.css
+	const collectionRunnerCssSource = path.join(__dirname, 'src', 'webview', 'collectionRunner.css');
+	if (fs.existsSync(collectionRunnerCssSource)) {
+		fs.copyFileSync(collectionRunnerCssSource, path.join(webviewDir, 'collectionRunner.css'));
+		console.log('[assets] Copied collectionRunner.css');
+	}
+
+	// Copy webSocket.css
+	const webSocketCssSource = path.join(__dirname, 'src', 'webview', 'webSocket.css');
+	if (fs.existsSync(webSocketCssSource)) {
+		fs.copyFileSync(webSocketCssSource, path.join(webviewDir, 'webSocket.css'));
+		console.log('[assets] Copied webSocket.css');
+	}
+
+	// Copy grpc.css
+	const grpcCssSource = path.join(__dirname, 'src', 'webview', 'grpc.css');
+	if (fs.existsSync(grpcCssSource)) {
+		fs.copyFileSync(grpcCssSource, path.join(webviewDir, 'grpc.css'));
+		console.log('[assets] Copied grpc.css');
+	}
 }
 
 /**
@@ -120,11 +141,34 @@ async function main() {
 			esbuildProblemMatcherPlugin,
 		],
 	});
+
+	// Standalone CLI runner - vscode is deliberately not external so an
+	// accidental import of the vscode module fails the build
+	const cliCtx = await esbuild.context({
+		entryPoints: [
+			'src/cli/index.ts'
+		],
+		bundle: true,
+		format: 'cjs',
+		minify: production,
+		sourcemap: !production,
+		sourcesContent: false,
+		platform: 'node',
+		outfile: 'dist/cli.js',
+		banner: { js: '#!/usr/bin/env node' },
+		logLevel: 'silent',
+		plugins: [
+			esbuildProblemMatcherPlugin,
+		],
+	});
+
 	if (watch) {
-		await ctx.watch();
+		await Promise.all([ctx.watch(), cliCtx.watch()]);
 	} else {
 		await ctx.rebuild();
+		await cliCtx.rebuild();
 		await ctx.dispose();
+		await cliCtx.dispose();
 	}
 }
 
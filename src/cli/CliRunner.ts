@@ -0,0 +1,374 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { parseArgs } from 'util';
+import { Collection, AuthConfig, REDACTED_MARKER } from '../models/Collection';
+import { Environment } from '../models/Environment';
+import { HttpClient, HttpClientLogger } from '../http/HttpClient';
+import { OAuth2TokenProvider } from '../http/OAuth2';
+import { CookieJar } from '../http/CookieJar';
+import { CollectionRunner, RunSummary } from '../runner/CollectionRunner';
+import { IterationRow, getIterationDataFormat, parseIterationData } from '../runner/IterationData';
+import { resolveVariables, mergeVariables } from '../parser/VariableResolver';
+import { parseDotEnv } from '../parser/DotEnvParser';
+import { CollectionReport, toJUnitXml, toJsonReport, describeFailures, describeSkipped, hasUnreachedRequests } from './Reporters';
+
+const DEFAULT_COLLECTIONS_PATH = path.join('.endpoint', 'collections');
+
+export const EXIT_PASSED = 0;
+export const EXIT_FAILED = 1;
+export const EXIT_USAGE = 2;
+
+export const USAGE = `Usage: endpoint-cli [collections...] [options]
+
+Runs Endpoint collections (default: ${DEFAULT_COLLECTIONS_PATH}) without VS Code.
+Arguments can be collection JSON files or folders containing them.
+WebSocket and gRPC requests are skipped and don't affect the exit code.
+
+Options:
+  -e, --env <file>       Environment variables (Endpoint environment JSON, a flat JSON object, or .env format)
+      --dotenv <file>    .env file to load (default: ./.env when present)
+  -d, --data <file>      CSV or JSON data file - runs each collection once per row
+      --junit <file>     Write a JUnit XML report
+      --json <file>      Write a JSON report
+      --timeout <ms>     Request timeout in milliseconds
+  -k, --insecure         Skip TLS certificate verification
+  -v, --verbose          Log HTTP traffic to stderr
+  -h, --help             Show this help
+
+Exit codes: 0 all requests passed, 1 a request failed, 2 invalid arguments or input files.`;
+
+export interface CliOptions {
+    collections: string[];
+    env?: string;
+    dotenv?: string;
+    data?: string;
+    junit?: string;
+    json?: string;
+    timeout?: number;
+    insecure: boolean;
+    verbose: boolean;
+    help: boolean;
+}
+
+/**
+ * Where the CLI writes progress - console by default, replaceable in tests
+ */
+export interface CliOutput {
+    log(message: string): void;
+    error(message: string): void;
+}
+
+/**
+ * Parse command line arguments (without the node executable and script path)
+ */
+export function parseCliArgs(argv: string[]): CliOptions {
+    const { values, positionals } = parseArgs({
+        args: argv,
+        allowPositionals: true,
+        options: {
+            env: { type: 'string', short: 'e' },
+            dotenv: { type: 'string' },
+            data: { type: 'string', short: 'd' },
+            junit: { type: 'string' },
+            json: { type: 'string' },
+            timeout: { type: 'string' },
+            insecure: { type: 'boolean', short: 'k', default: false },
+            verbose: { type: 'boolean', short: 'v', default: false },
+            help: { type: 'boolean', short: 'h', default: false },
+        },
+    });
+
+    let timeout: number | undefined;
+    if (values.timeout !== undefined) {
+        timeout = Number(values.timeout);
+        if (!Number.isInteger(timeout) || timeout <= 0) {
+            throw new Error(`Invalid --timeout value: ${values.timeout}`);
+        }
+    }
+
+    return {
+        collections: positionals.length > 0 ? positionals : [DEFAULT_COLLECTIONS_PATH],
+        env: values.env,
+        dotenv: values.dotenv,
+        data: values.data,
+        junit: values.junit,
+        json: values.json,
+        timeout,
+        insecure: values.insecure === true,
+        verbose: values.verbose === true,
+        help: values.help === true,
+    };
+}
+
+/**
+ * Load collections from JSON files or folders of JSON files (as written by saveToRepo)
+ */
+export async function loadCollections(paths: string[]): Promise<{ collection: Collection; file: string }[]> {
+    const files: string[] = [];
+    for (const p of paths) {
+        const stat = await fs.stat(p).catch(() => undefined);
+        if (!stat) {
+            throw new Error(`Collection path not found: ${p}`);
+        }
+        if (stat.isDirectory()) {
+            const entries = await fs.readdir(p, { withFileTypes: true });
+            files.push(...entries
+                .filter(e => e.isFile() && e.name.endsWith('.json'))
+                .map(e => path.join(p, e.name))
+                .sort());
+        } else {
+            files.push(p);
+        }
+    }
+
+    if (files.length === 0) {
+        throw new Error(`No collection files found in ${paths.join(', ')}`);
+    }
+
+    const collections: { collection: Collection; file: string }[] = [];
+    for (const file of files) {
+        let collection: Collection;
+        try {
+            collection = JSON.parse(await fs.readFile(file, 'utf8')) as Collection;
+        } catch (error) {
+            const message = error instanceof Error ? error.message : String(error);
+            throw new Error(`Failed to load collection ${file}: ${message}`);
+        }
+        if (!collection || !Array.isArray(collection.requests)) {
+            throw new Error(`${file} is not an Endpoint collection`);
+        }
+
+        collection.storageType = 'repo';
+        collection.repoFilePath = path.basename(file);
+        collections.push({ collection, file });
+    }
+
+    return collections;
+}
+
+/**
+ * Parse environment variables from an Endpoint environment ({ variables: [...] }),
+ * a flat JSON object of name/value pairs, or .env formatted text
+ */
+export function parseEnvironment(content: string): Record<string, string> {
+    let data: unknown;
+    try {
+        data = JSON.parse(content);
+    } catch {
+        return parseDotEnv(content);
+    }
+
+    if (data === null || typeof data !== 'object' || Array.isArray(data)) {
+        throw new Error('Environment file must contain a JSON object');
+    }
+
+    const environment = data as Partial<Environment>;
+    if (Array.isArray(environment.variables)) {
+        const variables: Record<string, string> = {};
+        for (const v of environment.variables) {
+            if (v.enabled !== false && v.name) {
+                variables[v.name] = String(v.value ?? '');
+            }
+        }
+        return variables;
+    }
+
+    const variables: Record<string, string> = {};
+    for (const [name, value] of Object.entries(data)) {
+        variables[name] = typeof value === 'string' ? value : JSON.stringify(value);
+    }
+    return variables;
+}
+
+/**
+ * Names of requests (or the collection) whose auth secrets were redacted by saveToRepo
+ */
+export function findRedactedAuth(collection: Collection): string[] {
+    const isRedacted = (auth: AuthConfig | undefined) => !!auth && (
+        auth.password === REDACTED_MARKER ||
+        auth.token === REDACTED_MARKER ||
+        auth.apiKeyValue === REDACTED_MARKER ||
+        auth.clientSecret === REDACTED_MARKER ||
+        auth.refreshToken === REDACTED_MARKER ||
+        auth.awsSecretAccessKey === REDACTED_MARKER ||
+        auth.awsSessionToken === REDACTED_MARKER
+    );
+
+    const names: string[] = [];
+    if (isRedacted(collection.defaultAuth)) {
+        names.push(`${collection.name} (collection auth)`);
+    }
+    for (const request of collection.requests) {
+        if (isRedacted(request.auth)) {
+            names.push(request.name);
+        }
+    }
+    return names;
+}
+
+/**
+ * Run the CLI and return the process exit code
+ */
+export async function runCli(argv: string[], output: CliOutput = console): Promise<number> {
+    let options: CliOptions;
+    let collections: { collection: Collection; file: string }[];
+    let environment: Record<string, string> = {};
+    let dotEnv: Record<string, string> = {};
+    let iterationData: IterationRow[] | undefined;
+
+    try {
+        options = parseCliArgs(argv);
+        if (options.help) {
+            output.log(USAGE);
+            return EXIT_PASSED;
+        }
+
+        collections = await loadCollections(options.collections);
+
+        if (options.env) {
+            environment = parseEnvironment(await readInputFile(options.env, 'environment'));
+        }
+
+        const dotEnvPath = options.dotenv ?? '.env';
+        const dotEnvContent = await fs.readFile(dotEnvPath, 'utf8').catch(() => undefined);
+        if (dotEnvContent !== undefined) {
+            dotEnv = parseDotEnv(dotEnvContent);
+        } else if (options.dotenv) {
+            throw new Error(`.env file not found: ${options.dotenv}`);
+        }
+
+        if (options.data) {
+            const format = getIterationDataFormat(options.data);
+            if (!format) {
+                throw new Error('Data file must be a .csv or .json file');
+            }
+            iterationData = parseIterationData(await readInputFile(options.data, 'data'), format);
+        }
+    } catch (error) {
+        output.error(error instanceof Error ? error.message : String(error));
+        output.error('Run with --help for usage.');
+        return EXIT_USAGE;
+    }
+
+    const httpClient = new HttpClient(
+        {
+            ...(options.timeout !== undefined ? { timeout: options.timeout } : {}),
+            ...(options.insecure ? { rejectUnauthorized: false } : {}),
+            // Cookies carry over between the requests of a run, like a login session
+            cookieJar: new CookieJar(),
+        },
+        options.verbose ? createConsoleLogger(output) : undefined
+    );
+
+    // Tokens are cached in memory for the duration of the run
+    const oauth2 = new OAuth2TokenProvider(httpClient);
+
+    const reports: CollectionReport[] = [];
+    for (const { collection, file } of collections) {
+        const redacted = findRedactedAuth(collection);
+        if (redacted.length > 0) {
+            output.error(`Warning: ${collection.name} has redacted auth secrets (${redacted.join(', ')}). ` +
+                'Use {{VARIABLE}} or {{$env:VARIABLE}} placeholders so the CLI can supply them.');
+        }
+
+        // Same precedence as the extension: .env < collection variables < environment < data row
+        const variables = mergeVariables(dotEnv, collection.variables || {}, environment);
+        const runner = new CollectionRunner(httpClient, async (text, row) => resolveVariables(text, { ...variables, ...row }), oauth2);
+
+        output.log(`\n${collection.name}`);
+        const summary = await runner.run(collection, {
+            iterationData,
+            callbacks: {
+                onIterationStarted: (iteration, row) => {
+                    if (row) {
+                        output.log(`  Iteration ${iteration + 1}`);
+                    }
+                },
+                onRequestCompleted: result => {
+                    const indent = iterationData ? '    ' : '  ';
+                    const status = result.statusCode !== undefined ? ` ${result.statusCode}` : '';
+                    const time = result.time !== undefined ? ` (${result.time} ms)` : '';
+                    if (result.status === 'passed') {
+                        output.log(`${indent}✓ ${result.method} ${result.name}${status}${time}`);
+                    } else {
+                        output.log(`${indent}✗ ${result.method} ${result.name}${status}${time}`);
+                        for (const detail of describeFailures(result)) {
+                            output.log(`${indent}    ${detail}`);
+                        }
+                    }
+                },
+            },
+        });
+
+        reports.push({ name: collection.name, file, summary });
+    }
+
+    const totals = reports.reduce(
+        (acc, { summary }) => addTotals(acc, summary),
+        { total: 0, passed: 0, failed: 0, skipped: 0, duration: 0 }
+    );
+    output.log(`\n${totals.total} requests: ${totals.passed} passed, ${totals.failed} failed` +
+        (totals.skipped > 0 ? `, ${totals.skipped} skipped` : '') + ` (${totals.duration} ms)`);
+    const skipped = describeSkipped(reports);
+    if (skipped.length > 0) {
+        output.log('Skipped:');
+        for (const line of skipped) {
+            output.log(`  ${line}`);
+        }
+    }
+
+    try {
+        if (options.junit) {
+            await writeReport(options.junit, toJUnitXml(reports));
+            output.log(`JUnit report written to ${options.junit}`);
+        }
+        if (options.json) {
+            await writeReport(options.json, JSON.stringify(toJsonReport(reports), null, 2));
+            output.log(`JSON report written to ${options.json}`);
+        }
+    } catch (error) {
+        output.error(`Failed to write report: ${error instanceof Error ? error.message : String(error)}`);
+        return EXIT_USAGE;
+    }
+
+    return totals.failed > 0 || hasUnreachedRequests(reports) ? EXIT_FAILED : EXIT_PASSED;
+}
+
+async function readInputFile(file: string, description: string): Promise<string> {
+    try {
+        return (await fs.readFile(file, 'utf8')).replace(/^\uFEFF/, '');
+    } catch {
+        throw new Error(`Could not read ${description} file: ${file}`);
+    }
+}
+
+async function writeReport(file: string, content: string): Promise<void> {
+    await fs.mkdir(path.dirname(path.resolve(file)), { recursive: true });
+    await fs.writeFile(file, content, 'utf8');
+}
+
+function addTotals(
+    acc: Pick<RunSummary, 'total' | 'passed' | 'failed' | 'skipped' | 'duration'>,
+    summary: RunSummary
+): Pick<RunSummary, 'total' | 'passed' | 'failed' | 'skipped' | 'duration'> {
+    return {
+        total: acc.total + summary.total,
+        passed: acc.passed + summary.passed,
+        failed: acc.failed + summary.failed,
+        skipped: acc.skipped + summary.skipped,
+        duration: acc.duration + summary.duration,
+    };
+}
+
+function createConsoleLogger(output: CliOutput): HttpClientLogger {
+    const write = (level: string) => (message: string, data?: unknown) => {
+        output.error(`[${level}] ${message}${data !== undefined ? ' ' + JSON.stringify(data) : ''}`);
+    };
+    return {
+        trace: write('trace'),
+        debug: write('debug'),
+        info: write('info'),
+        warn: write('warn'),
+        error: write('error'),
+    };
+}
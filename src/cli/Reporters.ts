@@ -0,0 +1,156 @@
+import { RunSummary, RunnerRequestResult } from '../runner/CollectionRunner';
+
+/**
+ * Results of running one collection file
+ */
+export interface CollectionReport {
+    name: string;
+    file?: string;
+    summary: RunSummary;
+}
+
+/**
+ * Build a JUnit XML report - one <testsuite> per collection, one <testcase> per request
+ * (and per iteration for data-driven runs).
+ */
+export function toJUnitXml(reports: CollectionReport[], timestamp: Date = new Date()): string {
+    const totals = sumReports(reports);
+    const lines: string[] = [
+        '<?xml version="1.0" encoding="UTF-8"?>',
+        `<testsuites name="Endpoint" tests="${totals.total}" failures="${totals.failures}" errors="${totals.errors}" skipped="${totals.skipped}" time="${seconds(totals.duration)}">`,
+    ];
+
+    for (const report of reports) {
+        const { summary } = report;
+        const errors = summary.results.filter(isError).length;
+        lines.push(
+            `  <testsuite name="${escapeXml(report.name)}" tests="${summary.total}" failures="${summary.failed - errors}" errors="${errors}" skipped="${summary.skipped}" time="${seconds(summary.duration)}" timestamp="${timestamp.toISOString()}"${report.file ? ` file="${escapeXml(report.file)}"` : ''}>`
+        );
+
+        const iterated = summary.iterations.length > 1 || summary.iterations.some(i => i.variables);
+        for (const result of summary.results) {
+            const name = iterated ? `${result.name} [iteration ${result.iteration + 1}]` : result.name;
+            const open = `    <testcase classname="${escapeXml(report.name)}" name="${escapeXml(name)}" time="${seconds(result.time || 0)}"`;
+
+            if (result.status === 'passed') {
+                lines.push(`${open} />`);
+                continue;
+            }
+
+            lines.push(`${open}>`);
+            if (result.status === 'skipped') {
+                lines.push(`      <skipped message="${escapeXml(result.error ?? 'Run stopped')}" />`);
+            } else if (isError(result)) {
+                lines.push(`      <error message="${escapeXml(result.error!)}" />`);
+            } else {
+                const details = describeFailures(result);
+                lines.push(`      <failure message="${escapeXml(details[0])}">${escapeXml(details.join('\n'))}</failure>`);
+            }
+            lines.push('    </testcase>');
+        }
+
+        lines.push('  </testsuite>');
+    }
+
+    lines.push('</testsuites>');
+    return lines.join('\n') + '\n';
+}
+
+/**
+ * Build a JSON report with totals and the full per-request results
+ */
+export function toJsonReport(reports: CollectionReport[], timestamp: Date = new Date()): object {
+    const totals = sumReports(reports);
+    return {
+        timestamp: timestamp.toISOString(),
+        total: totals.total,
+        passed: totals.passed,
+        failed: totals.failures + totals.errors,
+        skipped: totals.skipped,
+        duration: totals.duration,
+        collections: reports.map(report => ({
+            name: report.name,
+            file: report.file,
+            ...report.summary,
+        })),
+    };
+}
+
+/**
+ * Human-readable reasons a request failed (first entry is the headline)
+ */
+export function describeFailures(result: RunnerRequestResult): string[] {
+    if (result.error) {
+        return [result.error];
+    }
+
+    const failedAssertions = (result.assertionResults || []).filter(a => !a.passed);
+    if (failedAssertions.length > 0) {
+        return failedAssertions.map(a => {
+            const actual = a.actual !== undefined ? ` (actual: ${a.actual})` : '';
+            const reason = a.message ? ` - ${a.message}` : '';
+            return `${a.description}${actual}${reason}`;
+        });
+    }
+
+    return [`Status ${result.statusCode} ${result.statusText || ''}`.trim()];
+}
+
+/**
+ * Skipped requests of each collection with the reason, listed once across iterations
+ */
+export function describeSkipped(reports: CollectionReport[]): string[] {
+    const lines = new Set<string>();
+    for (const report of reports) {
+        for (const result of report.summary.results) {
+            if (result.status === 'skipped') {
+                lines.add(`${report.name}: ${result.method} ${result.name} - ${result.error ?? 'Run stopped'}`);
+            }
+        }
+    }
+    return [...lines];
+}
+
+/**
+ * Skipped requests the run didn't reach - unlike unsupported (WebSocket, gRPC) requests
+ * they count as not passed
+ */
+export function hasUnreachedRequests(reports: CollectionReport[]): boolean {
+    return reports.some(({ summary }) => summary.results.some(r => r.status === 'skipped' && r.skipReason !== 'unsupported'));
+}
+
+/**
+ * A request that never got a response (network error, pre-request failure)
+ */
+function isError(result: RunnerRequestResult): boolean {
+    return result.status === 'failed' && result.error !== undefined;
+}
+
+function sumReports(reports: CollectionReport[]) {
+    let total = 0, passed = 0, failures = 0, errors = 0, skipped = 0, duration = 0;
+    for (const { summary } of reports) {
+        const summaryErrors = summary.results.filter(isError).length;
+        total += summary.total;
+        passed += summary.passed;
+        failures += summary.failed - summaryErrors;
+        errors += summaryErrors;
+        skipped += summary.skipped;
+        duration += summary.duration;
+    }
+    return { total, passed, failures, errors, skipped, duration };
+}
+
+function seconds(ms: number): string {
+    return (ms / 1000).toFixed(3);
+}
+
+function escapeXml(text: string): string {
+    return text
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/'/g, '&apos;')
+        // Strip characters that are not allowed in XML 1.0
+        .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '');
+}
@@ -0,0 +1,12 @@
+import { runCli } from './CliRunner';
+
+/**
+ * Entry point for the standalone runner (bundled to dist/cli.js).
+ * Must not import the vscode module, directly or indirectly.
+ */
+runCli(process.argv.slice(2)).then(code => {
+    process.exitCode = code;
+}, error => {
+    console.error(error instanceof Error ? error.message : error);
+    process.exitCode = 2;
+});
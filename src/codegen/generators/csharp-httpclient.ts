@@ -1,4 +1,6 @@
-import { LanguageGenerator, ResolvedRequest, VARIABLE_PATTERN } from '../types';
+import { MultipartField } from '../../models/Collection';
+import { guessContentType } from '../../http/Multipart';
+import { getBinaryFile, getMultipartFields, LanguageGenerator, ResolvedRequest, VARIABLE_PATTERN } from '../types';
 
 export class CSharpHttpClientGenerator implements LanguageGenerator {
     id = 'csharp-httpclient';
@@ -6,7 +8,12 @@ export class CSharpHttpClientGenerator implements LanguageGenerator {
 
     generate(request: ResolvedRequest): string {
         const lines: string[] = [];
+        const multipartFields = getMultipartFields(request);
+        const binaryFile = getBinaryFile(request);
         lines.push('using System.Net.Http;');
+        if (multipartFields?.some(f => f.contentType) || binaryFile) {
+            lines.push('using System.Net.Http.Headers;');
+        }
         lines.push('using System.Text;');
         lines.push('');
         lines.push('using var client = new HttpClient();');
@@ -27,7 +34,12 @@ export class CSharpHttpClientGenerator implements LanguageGenerator {
         }
 
         // Add body
-        if (hasBody) {
+        if (multipartFields) {
+            lines.push(...this.formatMultipart(multipartFields));
+        } else if (binaryFile) {
+            lines.push(`request.Content = new StreamContent(File.OpenRead(${this.formatString(binaryFile)}));`);
+            lines.push(`request.Content.Headers.ContentType = MediaTypeHeaderValue.Parse(${this.formatString(this.getContentType(request))});`);
+        } else if (hasBody) {
             const contentType = this.getContentType(request);
             lines.push(`request.Content = new StringContent(${this.formatString(request.body!.content)}, Encoding.UTF8, "${contentType}");`);
         }
@@ -40,6 +52,32 @@ export class CSharpHttpClientGenerator implements LanguageGenerator {
         return lines.join('\n');
     }
 
+    /**
+     * MultipartFormDataContent sets the Content-Type with the boundary itself
+     */
+    private formatMultipart(fields: MultipartField[]): string[] {
+        const lines: string[] = ['var content = new MultipartFormDataContent();'];
+        fields.forEach((field, index) => {
+            const part = `part${index}`;
+            if (field.type === 'file') {
+                const file = this.formatString(field.value);
+                lines.push(`var ${part} = new StreamContent(File.OpenRead(${file}));`);
+                if (field.contentType) {
+                    lines.push(`${part}.Headers.ContentType = MediaTypeHeaderValue.Parse(${this.formatString(field.contentType)});`);
+                }
+                lines.push(`content.Add(${part}, ${this.formatString(field.key)}, Path.GetFileName(${file}));`);
+            } else if (field.contentType) {
+                lines.push(`var ${part} = new StringContent(${this.formatString(field.value)});`);
+                lines.push(`${part}.Headers.ContentType = MediaTypeHeaderValue.Parse(${this.formatString(field.contentType)});`);
+                lines.push(`content.Add(${part}, ${this.formatString(field.key)});`);
+            } else {
+                lines.push(`content.Add(new StringContent(${this.formatString(field.value)}), ${this.formatString(field.key)});`);
+            }
+        });
+        lines.push('request.Content = content;');
+        return lines;
+    }
+
     /**
      * Format a string, using string concatenation with Environment.GetEnvironmentVariable for {{VAR}} patterns.
      */
@@ -108,6 +146,8 @@ export class CSharpHttpClientGenerator implements LanguageGenerator {
                 return 'application/xml';
             case 'form':
                 return 'application/x-www-form-urlencoded';
+            case 'binary':
+                return guessContentType(request.body.content.trim());
             default:
                 return 'text/plain';
         }
@@ -1,4 +1,4 @@
-import { LanguageGenerator, ResolvedRequest, VARIABLE_PATTERN } from '../types';
+import { getBinaryFile, getMultipartFields, getRequestHeaders, LanguageGenerator, ResolvedRequest, VARIABLE_PATTERN } from '../types';
 
 export class CurlGenerator implements LanguageGenerator {
     id = 'curl';
@@ -16,12 +16,27 @@ export class CurlGenerator implements LanguageGenerator {
         parts.push(this.formatString(request.url));
 
         // Headers
-        for (const header of request.headers) {
+        for (const header of getRequestHeaders(request)) {
             parts.push(`-H ${this.formatString(`${header.name}: ${header.value}`)}`);
         }
 
-        // Body
-        if (request.body && request.body.content) {
+        // Body - --form-string keeps curl from reading text values starting with @ or < as files
+        const multipartFields = getMultipartFields(request);
+        const binaryFile = getBinaryFile(request);
+        if (multipartFields) {
+            for (const field of multipartFields) {
+                const type = field.contentType ? `;type=${field.contentType}` : '';
+                if (field.type === 'file') {
+                    parts.push(`-F ${this.formatString(`${field.key}=@${field.value}${type}`)}`);
+                } else if (type) {
+                    parts.push(`-F ${this.formatString(`${field.key}=${field.value}${type}`)}`);
+                } else {
+                    parts.push(`--form-string ${this.formatString(`${field.key}=${field.value}`)}`);
+                }
+            }
+        } else if (binaryFile) {
+            parts.push(`--data-binary ${this.formatString(`@${binaryFile}`)}`);
+        } else if (request.body && request.body.content) {
             parts.push(`-d ${this.formatString(request.body.content)}`);
         }
 
@@ -1,4 +1,6 @@
-import { LanguageGenerator, ResolvedRequest, VARIABLE_PATTERN } from '../types';
+import { MultipartField } from '../../models/Collection';
+import { guessContentType } from '../../http/Multipart';
+import { getBinaryFile, getFileName, getMultipartFields, getRequestHeaders, LanguageGenerator, ResolvedRequest, VARIABLE_PATTERN } from '../types';
 
 export class GoNetHttpGenerator implements LanguageGenerator {
     id = 'go-nethttp';
@@ -6,28 +8,45 @@ export class GoNetHttpGenerator implements LanguageGenerator {
 
     generate(request: ResolvedRequest): string {
         const lines: string[] = [];
-        const needsOs = this.hasVariablesInRequest(request);
+        const multipartFields = getMultipartFields(request);
+        const binaryFile = getBinaryFile(request);
+        const hasFiles = !!multipartFields?.some(f => f.type === 'file') || !!binaryFile;
+        const needsOs = this.hasVariablesInRequest(request) || hasFiles;
+        const hasBody = request.body && request.body.content;
+
+        const imports = ['fmt', 'io', 'net/http'];
+        if (needsOs) {
+            imports.push('os');
+        }
+        if (multipartFields) {
+            imports.push('bytes', 'mime/multipart');
+            if (hasFiles) {
+                imports.push('net/textproto');
+            }
+        } else if (hasBody && !binaryFile) {
+            imports.push('strings');
+        }
 
         lines.push('package main');
         lines.push('');
         lines.push('import (');
-        lines.push('\t"fmt"');
-        lines.push('\t"io"');
-        lines.push('\t"net/http"');
-        if (needsOs) {
-            lines.push('\t"os"');
-        }
-        if (request.body && request.body.content) {
-            lines.push('\t"strings"');
+        for (const name of imports.sort()) {
+            lines.push(`\t"${name}"`);
         }
         lines.push(')');
         lines.push('');
         lines.push('func main() {');
 
-        const hasBody = request.body && request.body.content;
-
         // Create body reader if needed
-        if (hasBody) {
+        if (multipartFields) {
+            lines.push(...this.formatMultipart(multipartFields));
+        } else if (binaryFile) {
+            lines.push(`\tbody, err := os.Open(${this.formatString(binaryFile)})`);
+            lines.push('\tif err != nil {');
+            lines.push('\t\tpanic(err)');
+            lines.push('\t}');
+            lines.push('\tdefer body.Close()');
+        } else if (hasBody) {
             lines.push(`\tbody := strings.NewReader(${this.formatString(request.body!.content)})`);
         }
 
@@ -39,9 +58,12 @@ export class GoNetHttpGenerator implements LanguageGenerator {
         lines.push('\t}');
 
         // Add headers
-        for (const header of request.headers) {
+        for (const header of getRequestHeaders(request)) {
             lines.push(`\treq.Header.Set("${this.escapeGo(header.name)}", ${this.formatString(header.value)})`);
         }
+        if (multipartFields) {
+            lines.push('\treq.Header.Set("Content-Type", writer.FormDataContentType())');
+        }
 
         lines.push('');
         lines.push('\tclient := &http.Client{}');
@@ -61,6 +83,45 @@ export class GoNetHttpGenerator implements LanguageGenerator {
         return lines.join('\n');
     }
 
+    /**
+     * Write the fields with a multipart.Writer; file parts get the Content-Type Endpoint would send
+     */
+    private formatMultipart(fields: MultipartField[]): string[] {
+        const lines: string[] = [
+            '\tbody := &bytes.Buffer{}',
+            '\twriter := multipart.NewWriter(body)',
+        ];
+        fields.forEach((field, index) => {
+            if (field.type === 'file') {
+                const disposition = `form-data; name="${this.escapeQuoted(field.key)}"; filename="${this.escapeQuoted(getFileName(field.value))}"`;
+                lines.push(`\tfile${index}, err := os.Open(${this.formatString(field.value)})`);
+                lines.push('\tif err != nil {');
+                lines.push('\t\tpanic(err)');
+                lines.push('\t}');
+                lines.push(`\tdefer file${index}.Close()`);
+                lines.push(`\theader${index} := make(textproto.MIMEHeader)`);
+                lines.push(`\theader${index}.Set("Content-Disposition", ${this.formatString(disposition)})`);
+                lines.push(`\theader${index}.Set("Content-Type", ${this.formatString(field.contentType || guessContentType(field.value))})`);
+                lines.push(`\tpart${index}, err := writer.CreatePart(header${index})`);
+                lines.push('\tif err != nil {');
+                lines.push('\t\tpanic(err)');
+                lines.push('\t}');
+                lines.push(`\tif _, err := io.Copy(part${index}, file${index}); err != nil {`);
+                lines.push('\t\tpanic(err)');
+                lines.push('\t}');
+            } else {
+                lines.push(`\twriter.WriteField(${this.formatString(field.key)}, ${this.formatString(field.value)})`);
+            }
+        });
+        lines.push('\twriter.Close()');
+        lines.push('');
+        return lines;
+    }
+
+    private escapeQuoted(value: string): string {
+        return value.replace(/"/g, '%22').replace(/\r/g, '%0D').replace(/\n/g, '%0A');
+    }
+
     /**
      * Check if any part of the request contains unresolved variables
      */
@@ -1,11 +1,13 @@
-import { LanguageGenerator, ResolvedRequest, VARIABLE_PATTERN } from '../types';
+import { MultipartField } from '../../models/Collection';
+import { getBinaryFile, getFileName, getMultipartFields, getRequestHeaders, LanguageGenerator, ResolvedRequest, VARIABLE_PATTERN } from '../types';
 
 export class JavaScriptFetchGenerator implements LanguageGenerator {
     id = 'javascript-fetch';
     name = 'JavaScript (fetch)';
 
     generate(request: ResolvedRequest): string {
-        const hasHeaders = request.headers.length > 0;
+        const headers = getRequestHeaders(request);
+        const hasHeaders = headers.length > 0;
         const hasBody = request.body && request.body.content;
         const needsOptions = request.method !== 'GET' || hasHeaders || hasBody;
 
@@ -14,20 +16,34 @@ export class JavaScriptFetchGenerator implements LanguageGenerator {
         }
 
         const lines: string[] = [];
+        const multipartFields = getMultipartFields(request);
+        const binaryFile = getBinaryFile(request);
+        if (multipartFields) {
+            lines.push(...this.formatFormData(multipartFields));
+        } else if (binaryFile) {
+            lines.push(`import { openAsBlob } from 'node:fs';`);
+            lines.push('');
+        }
+
         lines.push(`fetch(${this.formatString(request.url)}, {`);
         lines.push(`  method: '${request.method}',`);
 
         if (hasHeaders) {
             lines.push('  headers: {');
-            for (let i = 0; i < request.headers.length; i++) {
-                const header = request.headers[i];
-                const comma = i < request.headers.length - 1 ? ',' : '';
+            for (let i = 0; i < headers.length; i++) {
+                const header = headers[i];
+                const comma = i < headers.length - 1 ? ',' : '';
                 lines.push(`    '${this.escapeJs(header.name)}': ${this.formatString(header.value)}${comma}`);
             }
             lines.push('  },');
         }
 
-        if (hasBody) {
+        if (multipartFields) {
+            // fetch sets the multipart Content-Type with the boundary
+            lines.push('  body: formData,');
+        } else if (binaryFile) {
+            lines.push(`  body: await openAsBlob(${this.formatString(binaryFile)}),`);
+        } else if (hasBody) {
             const bodyStr = this.formatBody(request.body!.content, request.body!.type);
             lines.push(`  body: ${bodyStr},`);
         }
@@ -72,6 +88,32 @@ export class JavaScriptFetchGenerator implements LanguageGenerator {
             .replace(/\r/g, '\\r');
     }
 
+    /**
+     * Build a FormData for a multipart body; files are read with Node's fs.openAsBlob
+     */
+    private formatFormData(fields: MultipartField[]): string[] {
+        const lines: string[] = [];
+        if (fields.some(f => f.type === 'file')) {
+            lines.push(`import { openAsBlob } from 'node:fs';`);
+            lines.push('');
+        }
+        lines.push('const formData = new FormData();');
+        for (const field of fields) {
+            const key = this.formatString(field.key);
+            if (field.type === 'file') {
+                const options = field.contentType ? `, { type: ${this.formatString(field.contentType)} }` : '';
+                const fileName = this.formatString(getFileName(field.value));
+                lines.push(`formData.append(${key}, await openAsBlob(${this.formatString(field.value)}${options}), ${fileName});`);
+            } else if (field.contentType) {
+                lines.push(`formData.append(${key}, new Blob([${this.formatString(field.value)}], { type: ${this.formatString(field.contentType)} }));`);
+            } else {
+                lines.push(`formData.append(${key}, ${this.formatString(field.value)});`);
+            }
+        }
+        lines.push('');
+        return lines;
+    }
+
     private formatBody(content: string, type: string): string {
         const hasVars = VARIABLE_PATTERN.test(content);
         VARIABLE_PATTERN.lastIndex = 0;
@@ -1,4 +1,4 @@
-import { LanguageGenerator, ResolvedRequest, VARIABLE_PATTERN } from '../types';
+import { getBinaryFile, getMultipartFields, getRequestHeaders, LanguageGenerator, ResolvedRequest, VARIABLE_PATTERN } from '../types';
 
 export class PhpCurlGenerator implements LanguageGenerator {
     id = 'php-curl';
@@ -21,17 +21,33 @@ export class PhpCurlGenerator implements LanguageGenerator {
         }
 
         // Set headers
-        if (request.headers.length > 0) {
+        const headers = getRequestHeaders(request);
+        if (headers.length > 0) {
             lines.push('');
             lines.push('curl_setopt($ch, CURLOPT_HTTPHEADER, [');
-            for (const header of request.headers) {
+            for (const header of headers) {
                 lines.push(`    ${this.formatString(`${header.name}: ${header.value}`)},`);
             }
             lines.push(']);');
         }
 
-        // Set body
-        if (request.body && request.body.content) {
+        // Set body - an array makes cURL send multipart/form-data
+        const multipartFields = getMultipartFields(request);
+        const binaryFile = getBinaryFile(request);
+        if (multipartFields) {
+            lines.push('');
+            lines.push('curl_setopt($ch, CURLOPT_POSTFIELDS, [');
+            for (const field of multipartFields) {
+                const value = field.type === 'file'
+                    ? `new CURLFile(${this.formatString(field.value)}${field.contentType ? `, ${this.formatString(field.contentType)}` : ''})`
+                    : this.formatString(field.value);
+                lines.push(`    ${this.formatString(field.key)} => ${value},`);
+            }
+            lines.push(']);');
+        } else if (binaryFile) {
+            lines.push('');
+            lines.push(`curl_setopt($ch, CURLOPT_POSTFIELDS, file_get_contents(${this.formatString(binaryFile)}));`);
+        } else if (request.body && request.body.content) {
             lines.push('');
             lines.push(`curl_setopt($ch, CURLOPT_POSTFIELDS, ${this.formatString(request.body.content)});`);
         }
@@ -1,4 +1,5 @@
-import { LanguageGenerator, ResolvedRequest, VARIABLE_PATTERN } from '../types';
+import { MultipartField } from '../../models/Collection';
+import { getBinaryFile, getFileName, getMultipartFields, getRequestHeaders, LanguageGenerator, ResolvedRequest, VARIABLE_PATTERN } from '../types';
 
 export class PythonRequestsGenerator implements LanguageGenerator {
     id = 'python-requests';
@@ -15,13 +16,16 @@ export class PythonRequestsGenerator implements LanguageGenerator {
         lines.push('');
 
         const methodLower = request.method.toLowerCase();
-        const hasHeaders = request.headers.length > 0;
-        const hasBody = request.body && request.body.content;
+        const headers = getRequestHeaders(request);
+        const hasHeaders = headers.length > 0;
+        const multipartFields = getMultipartFields(request);
+        const binaryFile = getBinaryFile(request);
+        const hasBody = request.body && request.body.content && !multipartFields && !binaryFile;
 
         // Build headers dict
         if (hasHeaders) {
             lines.push('headers = {');
-            for (const header of request.headers) {
+            for (const header of headers) {
                 lines.push(`    '${this.escapePy(header.name)}': ${this.formatString(header.value)},`);
             }
             lines.push('}');
@@ -49,11 +53,25 @@ export class PythonRequestsGenerator implements LanguageGenerator {
             }
         }
 
+        if (multipartFields) {
+            lines.push(...this.formatMultipart(multipartFields));
+        } else if (binaryFile) {
+            // requests streams file objects instead of reading them into memory
+            lines.push(`data = open(${this.formatString(binaryFile)}, 'rb')`);
+            lines.push('');
+        }
+
         // Build request call
         const args: string[] = [this.formatString(request.url)];
         if (hasHeaders) {
             args.push('headers=headers');
         }
+        if (multipartFields) {
+            // requests sets the multipart Content-Type with the boundary
+            args.push('data=data', 'files=files');
+        } else if (binaryFile) {
+            args.push('data=data');
+        }
         if (hasBody) {
             const bodyHasVars = VARIABLE_PATTERN.test(request.body!.content);
             VARIABLE_PATTERN.lastIndex = 0;
@@ -76,6 +94,28 @@ export class PythonRequestsGenerator implements LanguageGenerator {
         return lines.join('\n');
     }
 
+    /**
+     * Lists of (name, value) tuples, so repeated field names are kept
+     */
+    private formatMultipart(fields: MultipartField[]): string[] {
+        const lines: string[] = ['data = ['];
+        for (const field of fields.filter(f => f.type === 'text')) {
+            lines.push(`    (${this.formatString(field.key)}, ${this.formatString(field.value)}),`);
+        }
+        lines.push(']');
+        lines.push('files = [');
+        for (const field of fields.filter(f => f.type === 'file')) {
+            const file = `open(${this.formatString(field.value)}, 'rb')`;
+            const value = field.contentType
+                ? `(${this.formatString(getFileName(field.value))}, ${file}, ${this.formatString(field.contentType)})`
+                : file;
+            lines.push(`    (${this.formatString(field.key)}, ${value}),`);
+        }
+        lines.push(']');
+        lines.push('');
+        return lines;
+    }
+
     /**
      * Check if any part of the request contains unresolved variables
      */
@@ -1,4 +1,7 @@
-import { HttpMethod } from '../models/Collection';
+import { HttpMethod, MultipartField, RequestBody } from '../models/Collection';
+import { guessContentType, parseMultipartFields, resolveMultipartFields } from '../http/Multipart';
+import { formatGraphQLPayload, resolveGraphQLBody } from '../http/GraphQL';
+import { encodeFormBody, TextResolver } from '../http/RequestBuilder';
 
 /**
  * A header with resolved values
@@ -16,7 +19,8 @@ export interface ResolvedRequest {
     url: string;
     headers: ResolvedHeader[];
     body?: {
-        type: 'json' | 'form' | 'text' | 'xml';
+        type: 'json' | 'form' | 'multipart' | 'text' | 'xml' | 'binary';
+        /** Multipart bodies hold their fields as a JSON array, binary bodies the path of the file */
         content: string;
     };
 }
@@ -38,6 +42,97 @@ export interface LanguageGenerator {
  */
 export const VARIABLE_PATTERN = /\{\{([^}]+)\}\}/g;
 
+/**
+ * Enabled fields of a multipart body, undefined for other bodies
+ */
+export function getMultipartFields(request: ResolvedRequest): MultipartField[] | undefined {
+    return request.body?.type === 'multipart'
+        ? parseMultipartFields(request.body.content).filter(f => f.enabled && f.key)
+        : undefined;
+}
+
+/**
+ * The body generated code sends. GraphQL bodies become the JSON payload they are
+ * posted as; other bodies are passed on unchanged.
+ */
+export function toResolvedBody(type: RequestBody['type'], content: string): NonNullable<ResolvedRequest['body']> {
+    if (type === 'graphql') {
+        return { type: 'json', content: formatGraphQLPayload(content) };
+    }
+    return { type: type as NonNullable<ResolvedRequest['body']>['type'], content };
+}
+
+/** Content-Type written for a body type when the request doesn't set one */
+const BODY_CONTENT_TYPES: Partial<Record<RequestBody['type'], string>> = {
+    json: 'application/json',
+    xml: 'application/xml',
+    form: 'application/x-www-form-urlencoded',
+    text: 'text/plain',
+    graphql: 'application/json',
+};
+
+/**
+ * Add a request's body to the request code is generated for - with variables resolved
+ * when a resolver is given and form fields URL-encoded. Adds the Content-Type the body
+ * type implies unless a header sets one; GraphQL queries are always posted.
+ */
+export async function applyRequestBody(request: ResolvedRequest, body: RequestBody | undefined, resolve?: TextResolver): Promise<void> {
+    if (!body || body.type === 'none' || !body.content) {
+        return;
+    }
+
+    let content = body.content;
+    if (body.type === 'form') {
+        content = await encodeFormBody(content, resolve ?? (async text => text));
+    } else if (resolve && body.type === 'multipart') {
+        content = await resolveMultipartFields(content, resolve);
+    } else if (resolve && body.type === 'graphql') {
+        content = await resolveGraphQLBody(content, resolve);
+    } else if (resolve) {
+        content = await resolve(content);
+    }
+
+    const contentType = BODY_CONTENT_TYPES[body.type];
+    if (contentType && !request.headers.some(h => h.name.toLowerCase() === 'content-type')) {
+        request.headers.push({ name: 'Content-Type', value: contentType });
+    }
+
+    request.body = toResolvedBody(body.type, content);
+    if (body.type === 'graphql') {
+        request.method = 'POST';
+    }
+}
+
+/**
+ * Path of the file sent as a binary body, undefined for other bodies
+ */
+export function getBinaryFile(request: ResolvedRequest): string | undefined {
+    return request.body?.type === 'binary' && request.body.content.trim() ? request.body.content.trim() : undefined;
+}
+
+/**
+ * File name of a multipart file field - the last segment of its path, on any OS
+ */
+export function getFileName(file: string): string {
+    return file.split(/[\\/]/).pop() || file;
+}
+
+/**
+ * Headers to write into the generated code. For multipart bodies the HTTP library
+ * sets Content-Type itself, since it has to carry the boundary; binary bodies get
+ * the Content-Type Endpoint would send for the file.
+ */
+export function getRequestHeaders(request: ResolvedRequest): ResolvedHeader[] {
+    const hasContentType = request.headers.some(h => h.name.toLowerCase() === 'content-type');
+    const binaryFile = getBinaryFile(request);
+    if (binaryFile && !hasContentType) {
+        return [...request.headers, { name: 'Content-Type', value: guessContentType(binaryFile) }];
+    }
+    return request.body?.type === 'multipart'
+        ? request.headers.filter(h => h.name.toLowerCase() !== 'content-type')
+        : request.headers;
+}
+
 /**
  * Check if a string contains unresolved variables
  */
@@ -1,6 +1,6 @@
 import * as vscode from 'vscode';
-import { Request, Collection } from '../models/Collection';
-import { getGenerators, ResolvedRequest, ResolvedHeader } from '../codegen';
+import { Request, Collection, RequestBody } from '../models/Collection';
+import { applyRequestBody, getGenerators, ResolvedRequest, ResolvedHeader } from '../codegen';
 import { VariableService } from '../storage/VariableService';
 import { StorageService } from '../storage/StorageService';
 import { getLogger } from '../logger';
@@ -109,33 +109,9 @@ async function buildResolvedRequest(
         headers,
     };
 
-    // Add body if present
-    if (request.body && request.body.type !== 'none' && request.body.content) {
-        let content = request.body.content;
-        if (resolveVariables) {
-            content = await variableService.resolveText(content, collectionId);
-        }
-
-        // Add Content-Type header if not present
-        const hasContentType = headers.some(h => h.name.toLowerCase() === 'content-type');
-        if (!hasContentType) {
-            const contentTypeMap: Record<string, string> = {
-                json: 'application/json',
-                xml: 'application/xml',
-                form: 'application/x-www-form-urlencoded',
-                text: 'text/plain',
-            };
-            const contentType = contentTypeMap[request.body.type];
-            if (contentType) {
-                headers.push({ name: 'Content-Type', value: contentType });
-            }
-        }
-
-        result.body = {
-            type: request.body.type as 'json' | 'form' | 'text' | 'xml',
-            content,
-        };
-    }
+    await applyRequestBody(result, request.body, resolveVariables
+        ? text => variableService.resolveText(text, collectionId)
+        : undefined);
 
     logger.debug(`Built resolved request: ${result.method} ${result.url}`);
     return result;
@@ -353,33 +329,9 @@ export async function handleWebviewCopyAsCode(
             headers,
         };
 
-        // Add body if present
-        if (requestData.body && requestData.body.type !== 'none' && requestData.body.content) {
-            let content = requestData.body.content;
-            if (resolveChoice.resolve) {
-                content = await variableService.resolveText(content, collectionId);
-            }
-
-            // Add Content-Type header if not present
-            const hasContentType = headers.some(h => h.name.toLowerCase() === 'content-type');
-            if (!hasContentType) {
-                const contentTypeMap: Record<string, string> = {
-                    json: 'application/json',
-                    xml: 'application/xml',
-                    form: 'application/x-www-form-urlencoded',
-                    text: 'text/plain',
-                };
-                const contentType = contentTypeMap[requestData.body.type];
-                if (contentType) {
-                    headers.push({ name: 'Content-Type', value: contentType });
-                }
-            }
-
-            resolvedRequest.body = {
-                type: requestData.body.type as 'json' | 'form' | 'text' | 'xml',
-                content,
-            };
-        }
+        await applyRequestBody(resolvedRequest, requestData.body as RequestBody, resolveChoice.resolve
+            ? text => variableService.resolveText(text, collectionId)
+            : undefined);
 
         // Generate code
         const code = selectedLanguage.generator.generate(resolvedRequest);
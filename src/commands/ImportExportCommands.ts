@@ -1,8 +1,12 @@
 import * as vscode from 'vscode';
 import { StorageService } from '../storage/StorageService';
 import { parseHttpFile, serializeToHttpFile, parsedRequestToRequest, ParsedRequest } from '../parser/HttpParser';
-import { createCollection, Collection, Request } from '../models/Collection';
+import { parsePostmanCollection, serializeToPostmanCollection } from '../parser/PostmanParser';
+import { parseOpenApiDocument, serializeToOpenApiDocument } from '../parser/OpenApiParser';
+import { getHarDomains, harToRequests, parseHarLog, serializeToHar } from '../parser/HarParser';
+import { createCollection, isHttpRequest, AuthConfig, Collection, Request } from '../models/Collection';
 import { Environment, createEnvironment, createVariable } from '../models/Environment';
+import { HistoryItem } from '../models/HistoryItem';
 
 /**
  * Extract all variable names from a text string (matches {{VARIABLE_NAME}})
@@ -45,27 +49,28 @@ function extractVariablesFromRequests(requests: Request[]): Set<string> {
 
         // Check auth config
         if (request.auth) {
-            if (request.auth.token) {
-                extractVariableNames(request.auth.token).forEach(v => variables.add(v));
-            }
-            if (request.auth.username) {
-                extractVariableNames(request.auth.username).forEach(v => variables.add(v));
-            }
-            if (request.auth.password) {
-                extractVariableNames(request.auth.password).forEach(v => variables.add(v));
-            }
-            if (request.auth.apiKeyValue) {
-                extractVariableNames(request.auth.apiKeyValue).forEach(v => variables.add(v));
-            }
-            if (request.auth.apiKeyName) {
-                extractVariableNames(request.auth.apiKeyName).forEach(v => variables.add(v));
-            }
+            extractVariablesFromAuth(request.auth).forEach(v => variables.add(v));
         }
     }
 
     return variables;
 }
 
+/**
+ * Extract all variable names from an auth config
+ */
+function extractVariablesFromAuth(auth: AuthConfig): Set<string> {
+    const variables = new Set<string>();
+    for (const value of [auth.token, auth.username, auth.password, auth.apiKeyValue, auth.apiKeyName,
+        auth.authUrl, auth.tokenUrl, auth.clientId, auth.clientSecret, auth.scope, auth.audience, auth.refreshToken,
+        auth.awsAccessKeyId, auth.awsSecretAccessKey, auth.awsSessionToken, auth.awsRegion, auth.awsService]) {
+        if (value) {
+            extractVariableNames(value).forEach(v => variables.add(v));
+        }
+    }
+    return variables;
+}
+
 /**
  * Get all variable names defined across all environments
  */
@@ -85,13 +90,17 @@ function getDefinedVariables(environments: Environment[]): Set<string> {
 interface ImportSummary {
     collectionName: string;
     requestCount: number;
-    createdEnvironmentName?: string;
+    createdEnvironmentNames: string[];
     environmentVariables: string[];
+    /** Variables stored on the collection itself */
+    collectionVariables: string[];
     placeholderVariables: string[];
     usedVariables: string[];
     definedInEnvironments: string[];
     hasActiveEnvironment: boolean;
     activeEnvironmentName?: string;
+    /** What the source file had that could not be imported */
+    warnings: string[];
 }
 
 /**
@@ -105,9 +114,13 @@ async function showImportSummary(summary: ImportSummary): Promise<void> {
     lines.push(`✅ **Imported ${summary.requestCount} request(s)**`);
     lines.push('');
 
+    const createdEnvironmentName = summary.createdEnvironmentNames[0];
+    const environmentsLabel = summary.createdEnvironmentNames.length > 1 ? 'environments' : 'environment';
+    const environmentList = summary.createdEnvironmentNames.map(name => `"${name}"`).join(', ');
+
     // Environment created section
-    if (summary.createdEnvironmentName) {
-        lines.push(`✅ **Created environment:** "${summary.createdEnvironmentName}"`);
+    if (createdEnvironmentName) {
+        lines.push(`✅ **Created ${environmentsLabel}:** ${environmentList}`);
         lines.push('');
 
         if (summary.environmentVariables.length > 0) {
@@ -127,6 +140,20 @@ async function showImportSummary(summary: ImportSummary): Promise<void> {
         }
     }
 
+    if (summary.collectionVariables.length > 0) {
+        lines.push(`### Collection variables: ${summary.collectionVariables.length}`);
+        lines.push('');
+        summary.collectionVariables.forEach(v => lines.push(`- \`${v}\``));
+        lines.push('');
+    }
+
+    if (summary.warnings.length > 0) {
+        lines.push(`## ⚠️ Not Imported: ${summary.warnings.length}`);
+        lines.push('');
+        summary.warnings.forEach(w => lines.push(`- ${w}`));
+        lines.push('');
+    }
+
     // Variables section
     if (summary.usedVariables.length > 0 && summary.definedInEnvironments.length > 0) {
         lines.push('## Additional Variables');
@@ -144,15 +171,15 @@ async function showImportSummary(summary: ImportSummary): Promise<void> {
 
     if (summary.hasActiveEnvironment) {
         lines.push(`✅ **Active environment:** "${summary.activeEnvironmentName}"`);
-        if (summary.createdEnvironmentName && summary.activeEnvironmentName !== summary.createdEnvironmentName) {
+        if (createdEnvironmentName && summary.activeEnvironmentName !== createdEnvironmentName) {
             lines.push('');
-            lines.push(`> 💡 Consider activating "${summary.createdEnvironmentName}" to use the imported variables`);
+            lines.push(`> 💡 Consider activating "${createdEnvironmentName}" to use the imported variables`);
         }
     } else {
         lines.push('⚠️ **No active environment selected**');
         lines.push('');
-        if (summary.createdEnvironmentName) {
-            lines.push(`> 💡 Activate "${summary.createdEnvironmentName}" to use the imported variables`);
+        if (createdEnvironmentName) {
+            lines.push(`> 💡 Activate "${createdEnvironmentName}" to use the imported variables`);
         } else {
             lines.push('> 💡 Select an environment to resolve variables at runtime');
         }
@@ -165,11 +192,11 @@ async function showImportSummary(summary: ImportSummary): Promise<void> {
         lines.push('');
 
         let step = 1;
-        if (summary.placeholderVariables.length > 0 && summary.createdEnvironmentName) {
+        if (summary.placeholderVariables.length > 0 && createdEnvironmentName) {
             lines.push(`### ${step}. Set values for placeholder variables`);
             lines.push('');
             lines.push(`1. Open the **Environments** view in the sidebar`);
-            lines.push(`2. Edit the "${summary.createdEnvironmentName}" environment`);
+            lines.push(`2. Edit the ${environmentList} ${environmentsLabel}`);
             lines.push('3. Set values for:');
             lines.push('');
             summary.placeholderVariables.forEach(v => lines.push(`   - \`${v}\``));
@@ -177,10 +204,10 @@ async function showImportSummary(summary: ImportSummary): Promise<void> {
             step++;
         }
 
-        if (!summary.hasActiveEnvironment && summary.createdEnvironmentName) {
+        if (!summary.hasActiveEnvironment && createdEnvironmentName) {
             lines.push(`### ${step}. Activate the environment`);
             lines.push('');
-            lines.push(`1. Right-click "${summary.createdEnvironmentName}" in the sidebar`);
+            lines.push(`1. Right-click "${createdEnvironmentName}" in the sidebar`);
             lines.push('2. Select **"Set as Active"**');
             lines.push('');
         } else if (!summary.hasActiveEnvironment) {
@@ -222,22 +249,23 @@ function transformVariablesForExport(text: string): string {
 }
 
 /**
- * Import a .http file and create a new collection from it
+ * Import a .http file or a Postman collection and create a new collection from it
  */
 export async function importHttpFile(
     context: vscode.ExtensionContext,
     storageService: StorageService
 ): Promise<void> {
-    // Open file picker for .http files
+    // Open file picker for .http files and Postman exports
     const fileUris = await vscode.window.showOpenDialog({
         canSelectFiles: true,
         canSelectFolders: false,
         canSelectMany: false,
         filters: {
             'HTTP Files': ['http', 'rest'],
+            'Postman Collections': ['json'],
             'All Files': ['*']
         },
-        title: vscode.l10n.t('Import HTTP File')
+        title: vscode.l10n.t('Import HTTP File or Postman Collection')
     });
 
     if (!fileUris || fileUris.length === 0) {
@@ -245,12 +273,34 @@ export async function importHttpFile(
     }
 
     const fileUri = fileUris[0];
+    const isPostman = /\.json$/i.test(fileUri.path);
 
     try {
         // Read the file content
         const fileContent = await vscode.workspace.fs.readFile(fileUri);
         const content = Buffer.from(fileContent).toString('utf-8');
 
+        if (isPostman) {
+            const postman = parsePostmanCollection(content);
+            if (postman.requests.length === 0) {
+                vscode.window.showWarningMessage(vscode.l10n.t('No requests found in the file.'));
+                return;
+            }
+
+            const collectionName = await promptCollectionName(postman.name);
+            if (!collectionName) {
+                return;
+            }
+
+            // Postman variables belong to the collection, so they don't go into an environment
+            const collection = createCollection(collectionName, postman.description);
+            collection.requests = postman.requests;
+            collection.variables = postman.variables;
+            collection.defaultAuth = postman.defaultAuth;
+            await completeImport(storageService, collection, {}, postman.warnings);
+            return;
+        }
+
         // Parse the .http file
         const parsed = parseHttpFile(content);
 
@@ -263,24 +313,13 @@ export async function importHttpFile(
         const fileName = fileUri.path.split('/').pop() || 'Imported Collection';
         const baseName = fileName.replace(/\.(http|rest)$/i, '');
 
-        // Prompt for collection name
-        const collectionName = await vscode.window.showInputBox({
-            prompt: vscode.l10n.t('Enter name for the new collection'),
-            value: baseName,
-            validateInput: (value) => {
-                if (!value || value.trim() === '') {
-                    return vscode.l10n.t('Collection name is required');
-                }
-                return undefined;
-            }
-        });
-
+        const collectionName = await promptCollectionName(baseName);
         if (!collectionName) {
             return;
         }
 
         // Create collection
-        const collection = createCollection(collectionName.trim());
+        const collection = createCollection(collectionName);
 
         // Convert parsed requests to Request objects
         for (const parsedRequest of parsed.requests) {
@@ -288,123 +327,325 @@ export async function importHttpFile(
             collection.requests.push(request);
         }
 
-        // Save the collection
-        await storageService.saveCollection(collection);
+        // File-level variables from @varName = value syntax go into a new environment
+        await completeImport(storageService, collection, parsed.variables, []);
 
-        // Analyze variables used in requests
-        const usedVariables = extractVariablesFromRequests(collection.requests);
-        const environments = await storageService.getEnvironments();
-        const envDefinedVars = getDefinedVariables(environments);
-        const activeEnv = await storageService.getActiveEnvironment();
+    } catch (error) {
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        vscode.window.showErrorMessage(isPostman
+            ? vscode.l10n.t('Failed to import Postman collection: {0}', message)
+            : vscode.l10n.t('Failed to import HTTP file: {0}', message));
+    }
+}
 
-        // Determine which variables need to be created:
-        // 1. File-level variables from @varName = value syntax
-        // 2. Missing variables used in requests but not defined anywhere
-        const fileVariables = parsed.variables; // { name: value }
-        const fileVarNames = new Set(Object.keys(fileVariables));
+/**
+ * Import an OpenAPI 3.x or Swagger 2.0 document and create a new collection with a request per operation
+ */
+export async function importOpenApiDocument(
+    context: vscode.ExtensionContext,
+    storageService: StorageService
+): Promise<void> {
+    const fileUris = await vscode.window.showOpenDialog({
+        canSelectFiles: true,
+        canSelectFolders: false,
+        canSelectMany: false,
+        filters: {
+            'OpenAPI Documents': ['yaml', 'yml', 'json'],
+            'All Files': ['*']
+        },
+        title: vscode.l10n.t('Import OpenAPI Document')
+    });
+
+    if (!fileUris || fileUris.length === 0) {
+        return;
+    }
+
+    try {
+        const fileContent = await vscode.workspace.fs.readFile(fileUris[0]);
+        const api = parseOpenApiDocument(Buffer.from(fileContent).toString('utf-8'));
 
-        const definedInEnvironments: string[] = [];
-        const missingVariables: string[] = [];
+        if (api.requests.length === 0) {
+            vscode.window.showWarningMessage(vscode.l10n.t('No operations found in the document.'));
+            return;
+        }
+
+        const collectionName = await promptCollectionName(api.name);
+        if (!collectionName) {
+            return;
+        }
+
+        const collection = createCollection(collectionName, api.description);
+        collection.requests = api.requests;
+        collection.defaultAuth = api.defaultAuth;
+
+        // Requests are on {{baseUrl}}: one server sets it in the environment, several get an environment each
+        const [server, ...otherServers] = api.servers;
+        const variables = otherServers.length === 0 && server ? { baseUrl: server.url, ...api.variables } : api.variables;
+        const variants = otherServers.length > 0
+            ? api.servers.map(s => ({ name: `${collectionName} (${s.name})`, variables: { baseUrl: s.url } }))
+            : [];
+        await completeImport(storageService, collection, variables, api.warnings, variants);
+
+    } catch (error) {
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        vscode.window.showErrorMessage(vscode.l10n.t('Failed to import OpenAPI document: {0}', message));
+    }
+}
 
-        for (const varName of usedVariables) {
-            if (fileVarNames.has(varName)) {
-                // Defined in file-level variables - will be added to environment
-            } else if (envDefinedVars.has(varName)) {
-                definedInEnvironments.push(varName);
-            } else {
-                missingVariables.push(varName);
+/**
+ * Import the API calls of a HAR file saved from browser DevTools into a new collection,
+ * keeping the domains the user picks
+ */
+export async function importHarFile(
+    context: vscode.ExtensionContext,
+    storageService: StorageService
+): Promise<void> {
+    const fileUris = await vscode.window.showOpenDialog({
+        canSelectFiles: true,
+        canSelectFolders: false,
+        canSelectMany: false,
+        filters: {
+            'HAR Files': ['har', 'json'],
+            'All Files': ['*']
+        },
+        title: vscode.l10n.t('Import HAR File')
+    });
+
+    if (!fileUris || fileUris.length === 0) {
+        return;
+    }
+
+    try {
+        const fileContent = await vscode.workspace.fs.readFile(fileUris[0]);
+        const log = parseHarLog(Buffer.from(fileContent).toString('utf-8'));
+
+        const domains = getHarDomains(log);
+        if (domains.length === 0) {
+            vscode.window.showWarningMessage(vscode.l10n.t('No requests found in the file.'));
+            return;
+        }
+
+        // A capture holds calls to analytics and CDNs too - the busiest domain is usually the app's API
+        let selectedDomains = domains.map(d => d.domain);
+        if (domains.length > 1) {
+            const picked = await vscode.window.showQuickPick(
+                domains.map((d, index) => ({
+                    label: d.domain,
+                    description: vscode.l10n.t('{0} request(s)', d.count),
+                    picked: index === 0
+                })),
+                {
+                    canPickMany: true,
+                    placeHolder: vscode.l10n.t('Select the domains to import requests from')
+                }
+            );
+            if (!picked || picked.length === 0) {
+                return;
             }
+            selectedDomains = picked.map(p => p.label);
         }
 
-        // Create an environment if there are file-level variables or missing variables
-        let createdEnvironment: Environment | undefined;
-        const allVarsToCreate = [...Object.entries(fileVariables)];
+        const har = harToRequests(log, { domains: selectedDomains });
+        if (har.requests.length === 0) {
+            vscode.window.showWarningMessage(vscode.l10n.t('No requests found in the file.'));
+            return;
+        }
 
-        // Add missing variables with placeholder values
-        for (const varName of missingVariables) {
-            allVarsToCreate.push([varName, '']);
+        const fileName = fileUris[0].path.split('/').pop() || 'Imported Collection';
+        const collectionName = await promptCollectionName(fileName.replace(/\.(har|json)$/i, ''));
+        if (!collectionName) {
+            return;
         }
 
-        if (allVarsToCreate.length > 0) {
-            createdEnvironment = createEnvironment(collectionName.trim());
-            for (const [name, value] of allVarsToCreate) {
-                createdEnvironment.variables.push(createVariable(name, value));
+        const collection = createCollection(collectionName);
+        collection.requests = har.requests;
+        await completeImport(storageService, collection, {}, har.warnings);
+
+    } catch (error) {
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        vscode.window.showErrorMessage(vscode.l10n.t('Failed to import HAR file: {0}', message));
+    }
+}
+
+/**
+ * Prompt for the name of an imported collection
+ */
+async function promptCollectionName(defaultName: string): Promise<string | undefined> {
+    const collectionName = await vscode.window.showInputBox({
+        prompt: vscode.l10n.t('Enter name for the new collection'),
+        value: defaultName,
+        validateInput: (value) => {
+            if (!value || value.trim() === '') {
+                return vscode.l10n.t('Collection name is required');
             }
-            await storageService.saveEnvironment(createdEnvironment);
-            vscode.commands.executeCommand('endpoint.refreshEnvironments');
+            return undefined;
+        }
+    });
+    return collectionName?.trim() || undefined;
+}
+
+/**
+ * An environment to create for an import, such as one per server of an OpenAPI document
+ */
+interface EnvironmentVariant {
+    name: string;
+    variables: Record<string, string>;
+}
+
+/**
+ * Save an imported collection, create an environment for its variables and report the result.
+ * With variants, each gets an environment holding the file variables plus its own.
+ */
+async function completeImport(
+    storageService: StorageService,
+    collection: Collection,
+    fileVariables: Record<string, string>,
+    warnings: string[],
+    variants: EnvironmentVariant[] = []
+): Promise<void> {
+    const collectionName = collection.name;
+
+    // Save the collection
+    await storageService.saveCollection(collection);
+
+    // Analyze variables used in requests
+    const usedVariables = extractVariablesFromRequests(collection.requests);
+    if (collection.defaultAuth) {
+        extractVariablesFromAuth(collection.defaultAuth).forEach(v => usedVariables.add(v));
+    }
+    const environments = await storageService.getEnvironments();
+    const envDefinedVars = getDefinedVariables(environments);
+    const activeEnv = await storageService.getActiveEnvironment();
+
+    // Determine which variables need to be created:
+    // 1. File-level variables
+    // 2. Missing variables used in requests but not defined anywhere
+    const fileVarNames = new Set([...Object.keys(fileVariables), ...variants.flatMap(v => Object.keys(v.variables))]);
+    const collectionVarNames = new Set(Object.keys(collection.variables || {}));
+
+    const definedInEnvironments: string[] = [];
+    const missingVariables: string[] = [];
+
+    for (const varName of usedVariables) {
+        if (fileVarNames.has(varName) || collectionVarNames.has(varName)) {
+            // Defined in file-level variables or on the collection
+        } else if (envDefinedVars.has(varName)) {
+            definedInEnvironments.push(varName);
+        } else {
+            missingVariables.push(varName);
         }
+    }
 
-        const summary: ImportSummary = {
-            collectionName: collectionName,
-            requestCount: collection.requests.length,
-            createdEnvironmentName: createdEnvironment?.name,
-            environmentVariables: Object.keys(fileVariables).sort(),
-            placeholderVariables: missingVariables.sort(),
-            usedVariables: Array.from(usedVariables).sort(),
-            definedInEnvironments: definedInEnvironments.sort(),
-            hasActiveEnvironment: !!activeEnv,
-            activeEnvironmentName: activeEnv?.name,
-        };
+    // Create an environment if there are file-level variables or missing variables
+    const createdEnvironments: Environment[] = [];
+    const allVarsToCreate = [...Object.entries(fileVariables)];
 
-        // Refresh collections view
-        vscode.commands.executeCommand('endpoint.refreshCollections');
+    // Add missing variables with placeholder values
+    for (const varName of missingVariables) {
+        allVarsToCreate.push([varName, '']);
+    }
 
-        // Show appropriate message based on results
-        const envCreatedMsg = createdEnvironment
+    const environmentsToCreate = variants.length > 0 ? variants : [{ name: collectionName, variables: {} }];
+    if (allVarsToCreate.length > 0 || variants.length > 0) {
+        for (const variant of environmentsToCreate) {
+            const environment = createEnvironment(variant.name);
+            for (const [name, value] of [...Object.entries(variant.variables), ...allVarsToCreate]) {
+                environment.variables.push(createVariable(name, value));
+            }
+            await storageService.saveEnvironment(environment);
+            createdEnvironments.push(environment);
+        }
+        vscode.commands.executeCommand('endpoint.refreshEnvironments');
+    }
+    const createdEnvironment = createdEnvironments[0];
+
+    const summary: ImportSummary = {
+        collectionName: collectionName,
+        requestCount: collection.requests.length,
+        createdEnvironmentNames: createdEnvironments.map(e => e.name),
+        environmentVariables: [...fileVarNames].sort(),
+        collectionVariables: Array.from(collectionVarNames).sort(),
+        placeholderVariables: missingVariables.sort(),
+        usedVariables: Array.from(usedVariables).sort(),
+        definedInEnvironments: definedInEnvironments.sort(),
+        hasActiveEnvironment: !!activeEnv,
+        activeEnvironmentName: activeEnv?.name,
+        warnings,
+    };
+
+    // Refresh collections view
+    vscode.commands.executeCommand('endpoint.refreshCollections');
+
+    // Show appropriate message based on results
+    const envCreatedMsg = createdEnvironments.length > 1
+        ? vscode.l10n.t(' {0} environments created.', createdEnvironments.length)
+        : createdEnvironment
             ? vscode.l10n.t(' Environment "{0}" created.', createdEnvironment.name)
             : '';
 
-        if (missingVariables.length > 0) {
-            const action = await vscode.window.showWarningMessage(
-                vscode.l10n.t(
-                    'Imported {0} request(s) into "{1}".{2} {3} variable(s) need values.',
+    if (missingVariables.length > 0) {
+        const action = await vscode.window.showWarningMessage(
+            vscode.l10n.t(
+                'Imported {0} request(s) into "{1}".{2} {3} variable(s) need values.',
+                collection.requests.length,
+                collectionName,
+                envCreatedMsg,
+                missingVariables.length
+            ),
+            vscode.l10n.t('View Details'),
+            vscode.l10n.t('Edit Environment')
+        );
+
+        if (action === vscode.l10n.t('View Details')) {
+            await showImportSummary(summary);
+        } else if (action === vscode.l10n.t('Edit Environment')) {
+            vscode.commands.executeCommand('endpoint.environments.focus');
+        }
+    } else if (createdEnvironment) {
+        const action = await vscode.window.showInformationMessage(
+            createdEnvironments.length > 1
+                ? vscode.l10n.t(
+                    'Imported {0} request(s) into "{1}". {2} environments created with {3} variable(s) each.',
                     collection.requests.length,
                     collectionName,
-                    envCreatedMsg,
-                    missingVariables.length
-                ),
-                vscode.l10n.t('View Details'),
-                vscode.l10n.t('Edit Environment')
-            );
-
-            if (action === vscode.l10n.t('View Details')) {
-                await showImportSummary(summary);
-            } else if (action === vscode.l10n.t('Edit Environment')) {
-                vscode.commands.executeCommand('endpoint.environments.focus');
-            }
-        } else if (createdEnvironment) {
-            const action = await vscode.window.showInformationMessage(
-                vscode.l10n.t(
+                    createdEnvironments.length,
+                    createdEnvironment.variables.length
+                )
+                : vscode.l10n.t(
                     'Imported {0} request(s) into "{1}". Environment "{2}" created with {3} variable(s).',
                     collection.requests.length,
                     collectionName,
                     createdEnvironment.name,
                     createdEnvironment.variables.length
                 ),
-                vscode.l10n.t('View Details'),
-                vscode.l10n.t('Activate Environment')
-            );
+            vscode.l10n.t('View Details'),
+            vscode.l10n.t('Activate Environment')
+        );
 
-            if (action === vscode.l10n.t('View Details')) {
-                await showImportSummary(summary);
-            } else if (action === vscode.l10n.t('Activate Environment')) {
-                await storageService.setActiveEnvironmentId(createdEnvironment.id);
-                vscode.commands.executeCommand('endpoint.refreshEnvironments');
-            }
-        } else {
-            const action = await vscode.window.showInformationMessage(
-                vscode.l10n.t('Imported {0} request(s) into collection "{1}"', collection.requests.length, collectionName),
-                vscode.l10n.t('View Details')
-            );
+        if (action === vscode.l10n.t('View Details')) {
+            await showImportSummary(summary);
+        } else if (action === vscode.l10n.t('Activate Environment')) {
+            await storageService.setActiveEnvironmentId(createdEnvironment.id);
+            vscode.commands.executeCommand('endpoint.refreshEnvironments');
+        }
+    } else if (warnings.length > 0) {
+        const action = await vscode.window.showWarningMessage(
+            vscode.l10n.t('Imported {0} request(s) into collection "{1}". {2} item(s) could not be imported.', collection.requests.length, collectionName, warnings.length),
+            vscode.l10n.t('View Details')
+        );
 
-            if (action === vscode.l10n.t('View Details')) {
-                await showImportSummary(summary);
-            }
+        if (action === vscode.l10n.t('View Details')) {
+            await showImportSummary(summary);
         }
+    } else {
+        const action = await vscode.window.showInformationMessage(
+            vscode.l10n.t('Imported {0} request(s) into collection "{1}"', collection.requests.length, collectionName),
+            vscode.l10n.t('View Details')
+        );
 
-    } catch (error) {
-        const message = error instanceof Error ? error.message : 'Unknown error';
-        vscode.window.showErrorMessage(vscode.l10n.t('Failed to import HTTP file: {0}', message));
+        if (action === vscode.l10n.t('View Details')) {
+            await showImportSummary(summary);
+        }
     }
 }
 
@@ -457,6 +698,140 @@ export async function exportCollectionToHttpFile(
     }
 }
 
+/**
+ * Export a single collection as a Postman Collection v2.1 file
+ */
+export async function exportCollectionToPostman(
+    collectionId: string,
+    storageService: StorageService
+): Promise<void> {
+    const collection = await storageService.getCollectionAsync(collectionId);
+    if (!collection) {
+        vscode.window.showErrorMessage(vscode.l10n.t('Collection not found.'));
+        return;
+    }
+
+    const httpRequests = collection.requests.filter(isHttpRequest);
+    if (httpRequests.length === 0) {
+        vscode.window.showWarningMessage(vscode.l10n.t('Collection has no requests to export.'));
+        return;
+    }
+
+    // Show save dialog
+    const saveUri = await vscode.window.showSaveDialog({
+        defaultUri: vscode.Uri.file(`${collection.name.replace(/[^a-zA-Z0-9]/g, '_')}.postman_collection.json`),
+        filters: {
+            'Postman Collections': ['json']
+        },
+        title: vscode.l10n.t('Export as Postman Collection')
+    });
+
+    if (!saveUri) {
+        return;
+    }
+
+    try {
+        const content = serializeToPostmanCollection(collection);
+        await vscode.workspace.fs.writeFile(saveUri, Buffer.from(content, 'utf-8'));
+
+        // Postman collections have no WebSocket or gRPC requests
+        const skipped = collection.requests.length - httpRequests.length;
+        vscode.window.showInformationMessage(skipped > 0
+            ? vscode.l10n.t('Exported {0} request(s) to {1}. {2} WebSocket or gRPC request(s) were skipped.', httpRequests.length, saveUri.fsPath, skipped)
+            : vscode.l10n.t('Exported {0} request(s) to {1}', httpRequests.length, saveUri.fsPath)
+        );
+
+    } catch (error) {
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        vscode.window.showErrorMessage(vscode.l10n.t('Failed to export collection: {0}', message));
+    }
+}
+
+/**
+ * Export a single collection as an OpenAPI 3.1 document, with response schemas taken from history
+ */
+export async function exportCollectionToOpenApi(
+    collectionId: string,
+    storageService: StorageService
+): Promise<void> {
+    const collection = await storageService.getCollectionAsync(collectionId);
+    if (!collection) {
+        vscode.window.showErrorMessage(vscode.l10n.t('Collection not found.'));
+        return;
+    }
+
+    const httpRequests = collection.requests.filter(isHttpRequest);
+    if (httpRequests.length === 0) {
+        vscode.window.showWarningMessage(vscode.l10n.t('Collection has no requests to export.'));
+        return;
+    }
+
+    // Show save dialog
+    const saveUri = await vscode.window.showSaveDialog({
+        defaultUri: vscode.Uri.file(`${collection.name.replace(/[^a-zA-Z0-9]/g, '_')}.openapi.yaml`),
+        filters: {
+            'OpenAPI (YAML)': ['yaml', 'yml'],
+            'OpenAPI (JSON)': ['json']
+        },
+        title: vscode.l10n.t('Export as OpenAPI Document')
+    });
+
+    if (!saveUri) {
+        return;
+    }
+
+    try {
+        const format = saveUri.path.toLowerCase().endsWith('.json') ? 'json' : 'yaml';
+        const content = serializeToOpenApiDocument(collection, storageService.getHistory(), format);
+        await vscode.workspace.fs.writeFile(saveUri, Buffer.from(content, 'utf-8'));
+
+        const skipped = collection.requests.length - httpRequests.length;
+        vscode.window.showInformationMessage(skipped > 0
+            ? vscode.l10n.t('Exported {0} request(s) to {1}. {2} WebSocket or gRPC request(s) were skipped.', httpRequests.length, saveUri.fsPath, skipped)
+            : vscode.l10n.t('Exported {0} request(s) to {1}', httpRequests.length, saveUri.fsPath)
+        );
+
+    } catch (error) {
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        vscode.window.showErrorMessage(vscode.l10n.t('Failed to export collection: {0}', message));
+    }
+}
+
+/**
+ * Export history items as a HAR file, for browser DevTools and other HAR viewers
+ */
+export async function exportHistoryToHar(
+    context: vscode.ExtensionContext,
+    items: HistoryItem[]
+): Promise<void> {
+    if (items.length === 0) {
+        vscode.window.showWarningMessage(vscode.l10n.t('No history to export.'));
+        return;
+    }
+
+    const saveUri = await vscode.window.showSaveDialog({
+        defaultUri: vscode.Uri.file('endpoint-history.har'),
+        filters: {
+            'HAR Files': ['har']
+        },
+        title: vscode.l10n.t('Export History as HAR')
+    });
+
+    if (!saveUri) {
+        return;
+    }
+
+    try {
+        const content = serializeToHar(items, { name: 'Endpoint', version: context.extension.packageJSON.version ?? '' });
+        await vscode.workspace.fs.writeFile(saveUri, Buffer.from(content, 'utf-8'));
+        vscode.window.showInformationMessage(vscode.l10n.t('Exported {0} history item(s) to {1}', items.length, saveUri.fsPath));
+
+    } catch (error) {
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        vscode.window.showErrorMessage(vscode.l10n.t('Failed to export history: {0}', message));
+    }
+}
+
 /**
  * Export all collections to a single .http file with separators
  */
@@ -552,6 +927,76 @@ export async function exportAllCollectionsToHttpFile(
     }
 }
 
+/**
+ * Get the collection a command was run on - a collection ID, a CollectionItem from the tree view,
+ * or one picked from the list
+ */
+async function resolveCollectionId(
+    arg: string | { collection?: { id: string } } | undefined,
+    storageService: StorageService
+): Promise<string | undefined> {
+    if (typeof arg === 'string') {
+        return arg;
+    } else if (arg && typeof arg === 'object' && 'collection' in arg && arg.collection) {
+        return arg.collection.id;
+    }
+
+    // If no collection ID provided, show picker
+    const collections = await storageService.getCollectionsAsync();
+    if (collections.length === 0) {
+        vscode.window.showWarningMessage(vscode.l10n.t('No collections to export.'));
+        return undefined;
+    }
+    const selected = await vscode.window.showQuickPick(
+        collections.map(c => ({
+            label: c.name,
+            description: vscode.l10n.t('{0} request(s)', c.requests.length),
+            collectionId: c.id
+        })),
+        { placeHolder: vscode.l10n.t('Select a collection to export') }
+    );
+    return selected?.collectionId;
+}
+
+/**
+ * Get the history items a command was run on - the items selected in the history view,
+ * the one right-clicked, or ones picked from the list
+ */
+async function resolveHistoryItems(
+    item: { historyItem?: HistoryItem } | undefined,
+    selected: { historyItem?: HistoryItem }[] | undefined,
+    storageService: StorageService
+): Promise<HistoryItem[] | undefined> {
+    const fromView = (selected && selected.length > 0 ? selected : item ? [item] : [])
+        .flatMap(i => i.historyItem ? [i.historyItem] : []);
+    if (fromView.length > 0) {
+        return fromView;
+    }
+
+    const history = storageService.getHistory();
+    if (history.length === 0) {
+        vscode.window.showInformationMessage(vscode.l10n.t('No history to export.'));
+        return undefined;
+    }
+
+    const picked = await vscode.window.showQuickPick(
+        history.map(h => ({
+            label: `${h.method} ${h.url}`,
+            description: h.cancelled
+                ? vscode.l10n.t('Cancelled')
+                : h.statusCode !== undefined ? `${h.statusCode} ${h.statusText || ''}`.trim() : undefined,
+            detail: new Date(h.timestamp).toLocaleString(),
+            picked: true,
+            historyItem: h
+        })),
+        {
+            canPickMany: true,
+            placeHolder: vscode.l10n.t('Select the history items to export')
+        }
+    );
+    return picked?.map(p => p.historyItem);
+}
+
 /**
  * Create import/export commands for registration
  */
@@ -564,6 +1009,14 @@ export function createImportExportCommands(
             command: 'endpoint.import',
             callback: () => importHttpFile(context, storageService)
         },
+        {
+            command: 'endpoint.importOpenApi',
+            callback: () => importOpenApiDocument(context, storageService)
+        },
+        {
+            command: 'endpoint.importHar',
+            callback: () => importHarFile(context, storageService)
+        },
         {
             command: 'endpoint.export',
             callback: () => exportAllCollectionsToHttpFile(storageService)
@@ -571,37 +1024,37 @@ export function createImportExportCommands(
         {
             command: 'endpoint.exportCollection',
             callback: async (arg?: string | { collection?: { id: string } }) => {
-                // Handle both direct collection ID and CollectionItem from tree view
-                let collectionId: string | undefined;
-
-                if (typeof arg === 'string') {
-                    collectionId = arg;
-                } else if (arg && typeof arg === 'object' && 'collection' in arg && arg.collection) {
-                    collectionId = arg.collection.id;
+                const collectionId = await resolveCollectionId(arg, storageService);
+                if (collectionId) {
+                    await exportCollectionToHttpFile(collectionId, storageService);
                 }
-
+            }
+        },
+        {
+            command: 'endpoint.exportCollectionToPostman',
+            callback: async (arg?: string | { collection?: { id: string } }) => {
+                const collectionId = await resolveCollectionId(arg, storageService);
                 if (collectionId) {
-                    return exportCollectionToHttpFile(collectionId, storageService);
+                    await exportCollectionToPostman(collectionId, storageService);
                 }
-
-                // If no collection ID provided, show picker
-                const collections = await storageService.getCollectionsAsync();
-                if (collections.length === 0) {
-                    vscode.window.showWarningMessage(vscode.l10n.t('No collections to export.'));
-                    return;
+            }
+        },
+        {
+            command: 'endpoint.exportCollectionToOpenApi',
+            callback: async (arg?: string | { collection?: { id: string } }) => {
+                const collectionId = await resolveCollectionId(arg, storageService);
+                if (collectionId) {
+                    await exportCollectionToOpenApi(collectionId, storageService);
+                }
+            }
+        },
+        {
+            command: 'endpoint.exportHistoryToHar',
+            callback: async (item?: { historyItem?: HistoryItem }, selected?: { historyItem?: HistoryItem }[]) => {
+                const items = await resolveHistoryItems(item, selected, storageService);
+                if (items) {
+                    await exportHistoryToHar(context, items);
                 }
-                vscode.window.showQuickPick(
-                    collections.map(c => ({
-                        label: c.name,
-                        description: vscode.l10n.t('{0} request(s)', c.requests.length),
-                        collectionId: c.id
-                    })),
-                    { placeHolder: vscode.l10n.t('Select a collection to export') }
-                ).then(selected => {
-                    if (selected) {
-                        exportCollectionToHttpFile(selected.collectionId, storageService);
-                    }
-                });
             }
         }
     ];
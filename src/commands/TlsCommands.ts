@@ -0,0 +1,63 @@
+import * as vscode from 'vscode';
+import { getTlsPassphraseKey } from '../http/HttpClientFactory';
+import { needsPassphrase } from '../http/TlsOptions';
+import { getSettings } from '../settings';
+import { StorageService } from '../storage/StorageService';
+
+/**
+ * Store (or clear) the passphrase of a client certificate configured in endpoint.tls.hosts.
+ * Passphrases live in SecretStorage, never in settings.json.
+ */
+export async function setClientCertificatePassphrase(storageService: StorageService): Promise<void> {
+    const hosts = getSettings()['tls.hosts'].filter(needsPassphrase);
+    if (hosts.length === 0) {
+        const open = await vscode.window.showInformationMessage(
+            vscode.l10n.t('No client certificates are configured. Add one to the endpoint.tls.hosts setting first.'),
+            vscode.l10n.t('Open Settings')
+        );
+        if (open) {
+            await vscode.commands.executeCommand('workbench.action.openSettings', 'endpoint.tls.hosts');
+        }
+        return;
+    }
+
+    const picked = await vscode.window.showQuickPick(
+        hosts.map(entry => ({ label: entry.host, description: entry.pfx || entry.cert })),
+        { placeHolder: vscode.l10n.t('Select the host whose client certificate needs a passphrase') }
+    );
+    if (!picked) {
+        return;
+    }
+
+    const passphrase = await vscode.window.showInputBox({
+        prompt: vscode.l10n.t('Passphrase for the client certificate of {0} (leave empty to remove it)', picked.label),
+        password: true,
+        ignoreFocusOut: true,
+    });
+    if (passphrase === undefined) {
+        return;
+    }
+
+    const key = getTlsPassphraseKey(picked.label);
+    if (passphrase) {
+        await storageService.setSecret(key, passphrase);
+        vscode.window.showInformationMessage(vscode.l10n.t('Passphrase saved for {0}', picked.label));
+    } else {
+        await storageService.deleteSecret(key);
+        vscode.window.showInformationMessage(vscode.l10n.t('Passphrase removed for {0}', picked.label));
+    }
+}
+
+/**
+ * Create TLS command registrations
+ */
+export function createTlsCommands(
+    storageService: StorageService
+): { command: string; callback: (...args: any[]) => any }[] {
+    return [
+        {
+            command: 'endpoint.setClientCertificatePassphrase',
+            callback: () => setClientCertificatePassphrase(storageService)
+        }
+    ];
+}
@@ -12,3 +12,8 @@ export {
     createCopyAsCodeCommand,
     handleWebviewCopyAsCode
 } from './CopyAsCodeCommand';
+
+export {
+    setClientCertificatePassphrase,
+    createTlsCommands
+} from './TlsCommands';
@@ -2,16 +2,20 @@ import * as vscode from 'vscode';
 import { CollectionsProvider, CollectionItem, RequestItem } from './providers/CollectionsProvider';
 import { EnvironmentsProvider, EnvironmentItem, VariableItem } from './providers/EnvironmentsProvider';
 import { HistoryProvider, HistoryTreeItem } from './providers/HistoryProvider';
+import { CookiesProvider, CookieDomainItem, CookieItem } from './providers/CookiesProvider';
 import { DirtyStateProvider } from './providers/DirtyStateProvider';
 import { StatusBarProvider } from './providers/StatusBarProvider';
 import { EnvironmentDiagnosticsProvider } from './providers/EnvironmentDiagnosticsProvider';
 import { RequestPanel } from './webview/RequestPanel';
 import { HistoryPanel } from './webview/HistoryPanel';
 import { CollectionSettingsPanel } from './webview/CollectionSettingsPanel';
+import { CollectionRunnerPanel } from './webview/CollectionRunnerPanel';
+import { WebSocketPanel } from './webview/WebSocketPanel';
+import { GrpcPanel } from './webview/GrpcPanel';
 import { registerResponseContentProvider } from './http/ResponseContentProvider';
 import { StorageService, VariableService, RepoCollectionService } from './storage';
-import { Collection } from './models/Collection';
-import { createImportExportCommands, createCopyAsCodeCommand } from './commands';
+import { Collection, Request, isGrpcRequest, isWebSocketRequest } from './models/Collection';
+import { createImportExportCommands, createCopyAsCodeCommand, createTlsCommands } from './commands';
 import { initializeLogger, disposeLogger, getLogger } from './logger';
 
 /**
@@ -30,6 +34,31 @@ function getMethodIcon(method: string): string {
 	}
 }
 
+/**
+ * Open a saved request in its panel - WebSocket and gRPC requests have panels of their own
+ * @param send - send the request (connect, for WebSocket requests) once the panel is open
+ */
+async function openSavedRequest(extensionUri: vscode.Uri, request: Request, collectionId: string, send: boolean): Promise<void> {
+	if (isWebSocketRequest(request)) {
+		const panel = await WebSocketPanel.openRequest(extensionUri, request, collectionId);
+		if (send) {
+			panel.connect();
+		}
+		return;
+	}
+	if (isGrpcRequest(request)) {
+		const panel = await GrpcPanel.openRequest(extensionUri, request, collectionId);
+		if (send) {
+			panel.invoke();
+		}
+		return;
+	}
+	const panel = await RequestPanel.openRequest(extensionUri, request, collectionId);
+	if (send) {
+		panel.sendImmediately();
+	}
+}
+
 export function activate(context: vscode.ExtensionContext) {
 	// Initialize logger first
 	const logger = initializeLogger(context);
@@ -55,6 +84,8 @@ export function activate(context: vscode.ExtensionContext) {
 
 	// Initialize RequestPanel with services
 	RequestPanel.initialize(storageService, variableService);
+	WebSocketPanel.initialize(storageService, variableService);
+	GrpcPanel.initialize(storageService, variableService);
 
 	// Initialize HistoryPanel with services
 	HistoryPanel.initialize(storageService);
@@ -63,6 +94,7 @@ export function activate(context: vscode.ExtensionContext) {
 	const collectionsProvider = new CollectionsProvider(storageService);
 	const environmentsProvider = new EnvironmentsProvider(storageService);
 	const historyProvider = new HistoryProvider(storageService, context);
+	const cookiesProvider = new CookiesProvider(storageService);
 	logger.debug('Tree data providers initialized');
 
 	// Create tree views with collapse all button
@@ -78,9 +110,20 @@ export function activate(context: vscode.ExtensionContext) {
 	});
 	const historyTreeView = vscode.window.createTreeView('endpointHistory', {
 		treeDataProvider: historyProvider,
+		showCollapseAll: true,
+		// Several items can be exported as HAR at once
+		canSelectMany: true
+	});
+	const cookiesTreeView = vscode.window.createTreeView('endpointCookies', {
+		treeDataProvider: cookiesProvider,
 		showCollapseAll: true
 	});
-	context.subscriptions.push(collectionsTreeView, environmentsTreeView, historyTreeView);
+	// The view shows the active environment's jar - name it in the view header
+	const updateCookiesViewDescription = async () => {
+		cookiesTreeView.description = await cookiesProvider.getEnvironmentName();
+	};
+	updateCookiesViewDescription();
+	context.subscriptions.push(collectionsTreeView, environmentsTreeView, historyTreeView, cookiesTreeView);
 
 	// Register FileDecorationProvider for dirty state indicators
 	context.subscriptions.push(
@@ -178,6 +221,23 @@ export function activate(context: vscode.ExtensionContext) {
 		vscode.commands.registerCommand('endpoint.collectionSettings', (item: CollectionItem) => {
 			CollectionSettingsPanel.createOrShow(context.extensionUri, storageService, item.collection);
 		}),
+		vscode.commands.registerCommand('endpoint.runCollection', async (item: CollectionItem) => {
+			await CollectionRunnerPanel.createOrShow(context.extensionUri, storageService, variableService, item.collection);
+		}),
+		vscode.commands.registerCommand('endpoint.runCollectionWithData', async (item: CollectionItem) => {
+			const fileUris = await vscode.window.showOpenDialog({
+				canSelectFiles: true,
+				canSelectFolders: false,
+				canSelectMany: false,
+				filters: {
+					'Data Files': ['csv', 'json']
+				},
+				title: vscode.l10n.t('Select Iteration Data File')
+			});
+			if (fileUris && fileUris.length > 0) {
+				await CollectionRunnerPanel.createOrShow(context.extensionUri, storageService, variableService, item.collection, fileUris[0]);
+			}
+		}),
 		vscode.commands.registerCommand('endpoint.convertToRepoCollection', async (item: CollectionItem) => {
 			if (!repoCollectionService.hasWorkspace()) {
 				vscode.window.showErrorMessage(vscode.l10n.t('No workspace folder available. Open a folder to use repo-based collections.'));
@@ -219,6 +279,18 @@ export function activate(context: vscode.ExtensionContext) {
 			collectionsProvider.addRequest(item);
 			envDiagnosticsProvider.refresh();
 		}),
+		vscode.commands.registerCommand('endpoint.addWebSocketRequest', async (item: CollectionItem) => {
+			const request = await collectionsProvider.addWebSocketRequest(item);
+			if (request) {
+				await WebSocketPanel.openRequest(context.extensionUri, request, item.collection.id);
+			}
+		}),
+		vscode.commands.registerCommand('endpoint.addGrpcRequest', async (item: CollectionItem) => {
+			const request = await collectionsProvider.addGrpcRequest(item);
+			if (request) {
+				await GrpcPanel.openRequest(context.extensionUri, request, item.collection.id);
+			}
+		}),
 		vscode.commands.registerCommand('endpoint.editRequest', (item: RequestItem) => {
 			collectionsProvider.editRequest(item);
 		}),
@@ -231,11 +303,10 @@ export function activate(context: vscode.ExtensionContext) {
 			envDiagnosticsProvider.refresh();
 		}),
 		vscode.commands.registerCommand('endpoint.openRequest', async (item: RequestItem) => {
-			await RequestPanel.openRequest(context.extensionUri, item.request, item.collectionId);
+			await openSavedRequest(context.extensionUri, item.request, item.collectionId, false);
 		}),
 		vscode.commands.registerCommand('endpoint.sendRequest', async (item: RequestItem) => {
-			const panel = await RequestPanel.openRequest(context.extensionUri, item.request, item.collectionId);
-			panel.sendImmediately();
+			await openSavedRequest(context.extensionUri, item.request, item.collectionId, true);
 		})
 	);
 
@@ -243,6 +314,8 @@ export function activate(context: vscode.ExtensionContext) {
 	context.subscriptions.push(
 		vscode.commands.registerCommand('endpoint.refreshEnvironments', () => {
 			environmentsProvider.refresh();
+			cookiesProvider.refresh();
+			updateCookiesViewDescription();
 			statusBarProvider.update();
 			updateWelcomeViewContext();
 			RequestPanel.refreshAllVariables();
@@ -258,6 +331,8 @@ export function activate(context: vscode.ExtensionContext) {
 		}),
 		vscode.commands.registerCommand('endpoint.deleteEnvironment', async (item: EnvironmentItem) => {
 			await environmentsProvider.deleteEnvironment(item);
+			cookiesProvider.refresh();
+			updateCookiesViewDescription();
 			statusBarProvider.update();
 			updateWelcomeViewContext();
 			RequestPanel.refreshAllVariables();
@@ -268,12 +343,16 @@ export function activate(context: vscode.ExtensionContext) {
 		}),
 		vscode.commands.registerCommand('endpoint.setActiveEnvironment', async (item: EnvironmentItem) => {
 			await environmentsProvider.setActiveEnvironment(item);
+			cookiesProvider.refresh();
+			updateCookiesViewDescription();
 			statusBarProvider.update();
 			envDiagnosticsProvider.refresh();
 			RequestPanel.refreshAllVariables();
 		}),
 		vscode.commands.registerCommand('endpoint.quickSwitchEnvironment', async () => {
 			await statusBarProvider.showEnvironmentPicker();
+			cookiesProvider.refresh();
+			updateCookiesViewDescription();
 			envDiagnosticsProvider.refresh();
 			updateWelcomeViewContext();
 			RequestPanel.refreshAllVariables();
@@ -371,6 +450,26 @@ export function activate(context: vscode.ExtensionContext) {
 		})
 	);
 
+	// Cookie commands
+	context.subscriptions.push(
+		vscode.commands.registerCommand('endpoint.refreshCookies', () => {
+			cookiesProvider.refresh();
+			updateCookiesViewDescription();
+		}),
+		vscode.commands.registerCommand('endpoint.clearCookies', () => {
+			cookiesProvider.clearCookies();
+		}),
+		vscode.commands.registerCommand('endpoint.editCookie', (item: CookieItem) => {
+			cookiesProvider.editCookie(item);
+		}),
+		vscode.commands.registerCommand('endpoint.deleteCookie', (item: CookieItem) => {
+			cookiesProvider.deleteCookie(item);
+		}),
+		vscode.commands.registerCommand('endpoint.clearCookieDomain', (item: CookieDomainItem) => {
+			cookiesProvider.clearDomain(item);
+		})
+	);
+
 	// Import/Export commands
 	const importExportCommands = createImportExportCommands(context, storageService);
 	for (const { command, callback } of importExportCommands) {
@@ -379,6 +478,13 @@ export function activate(context: vscode.ExtensionContext) {
 		);
 	}
 
+	// Client certificate commands
+	for (const { command, callback } of createTlsCommands(storageService)) {
+		context.subscriptions.push(
+			vscode.commands.registerCommand(command, callback)
+		);
+	}
+
 	// Code generation command
 	context.subscriptions.push(
 		vscode.commands.registerCommand('endpoint.copyAsCode', createCopyAsCodeCommand(storageService, variableService))
@@ -405,10 +511,12 @@ export function activate(context: vscode.ExtensionContext) {
 
 			for (const collection of collections) {
 				for (const request of collection.requests) {
-					const methodIcon = getMethodIcon(request.method);
+					const isWebSocket = isWebSocketRequest(request);
+					const isGrpc = isGrpcRequest(request);
+					const methodIcon = isWebSocket ? 'plug' : isGrpc ? 'server-process' : getMethodIcon(request.method);
 					items.push({
 						label: `$(${methodIcon}) ${request.name}`,
-						description: request.method,
+						description: isWebSocket ? 'WebSocket' : isGrpc ? 'gRPC' : request.method,
 						detail: `${collection.name} • ${request.url}`,
 						request,
 						collectionId: collection.id
@@ -429,8 +537,7 @@ export function activate(context: vscode.ExtensionContext) {
 			});
 
 			if (selected) {
-				const panel = await RequestPanel.openRequest(context.extensionUri, selected.request, selected.collectionId);
-				panel.sendImmediately();
+				await openSavedRequest(context.extensionUri, selected.request, selected.collectionId, true);
 			}
 		})
 	);
@@ -0,0 +1,295 @@
+import { Assertion, AssertionOperator, AssertionResult } from '../models/Assertion';
+import { HttpResponse } from './ResponseContentProvider';
+
+const OPERATOR_LABELS: Record<AssertionOperator, string> = {
+    equals: 'equals',
+    notEquals: 'does not equal',
+    inRange: 'is in range',
+    exists: 'exists',
+    notExists: 'does not exist',
+    contains: 'contains',
+    notContains: 'does not contain',
+    matches: 'matches',
+    isType: 'is type',
+    lessThan: 'is less than',
+};
+
+// Operators that don't take an expected value
+const UNARY_OPERATORS: AssertionOperator[] = ['exists', 'notExists'];
+
+/**
+ * Build a human-readable description of an assertion, e.g. "Header Content-Type contains json"
+ */
+export function describeAssertion(assertion: Assertion): string {
+    let subject: string;
+    switch (assertion.source) {
+        case 'status':
+            subject = 'Status';
+            break;
+        case 'header':
+            subject = `Header ${assertion.property || ''}`.trim();
+            break;
+        case 'jsonPath':
+            subject = `JSON ${assertion.property || '$'}`;
+            break;
+        case 'body':
+            subject = 'Body';
+            break;
+        case 'responseTime':
+            subject = 'Response time';
+            break;
+        default:
+            subject = String(assertion.source);
+    }
+
+    const operator = OPERATOR_LABELS[assertion.operator] || assertion.operator;
+    if (UNARY_OPERATORS.includes(assertion.operator)) {
+        return `${subject} ${operator}`;
+    }
+    const suffix = assertion.source === 'responseTime' ? ' ms' : '';
+    return `${subject} ${operator} ${assertion.expected ?? ''}${suffix}`.trim();
+}
+
+/**
+ * Evaluate all enabled assertions against a response.
+ * Never throws - malformed assertions are reported as failures.
+ */
+export function evaluateAssertions(assertions: Assertion[] | undefined, response: HttpResponse): AssertionResult[] {
+    if (!assertions || assertions.length === 0) {
+        return [];
+    }
+
+    return assertions
+        .filter(a => a.enabled)
+        .map(a => evaluateAssertion(a, response));
+}
+
+/**
+ * Evaluate a single assertion against a response
+ */
+export function evaluateAssertion(assertion: Assertion, response: HttpResponse): AssertionResult {
+    const result: AssertionResult = {
+        assertionId: assertion.id,
+        description: describeAssertion(assertion),
+        passed: false,
+    };
+
+    try {
+        switch (assertion.source) {
+            case 'status':
+                result.actual = String(response.status);
+                result.passed = compareStatus(response.status, assertion.operator, assertion.expected || '');
+                break;
+            case 'header': {
+                const value = getHeaderValue(response.headers, assertion.property || '');
+                result.actual = value;
+                result.passed = compareString(value, assertion.operator, assertion.expected || '');
+                break;
+            }
+            case 'jsonPath': {
+                const { found, value } = getJsonPathValue(response.body, assertion.property || '');
+                result.actual = found ? formatJsonValue(value) : undefined;
+                result.passed = compareJson(found, value, assertion.operator, assertion.expected || '');
+                break;
+            }
+            case 'body':
+                result.passed = compareString(response.body, assertion.operator, assertion.expected || '');
+                break;
+            case 'responseTime':
+                result.actual = `${response.time} ms`;
+                result.passed = compareNumber(response.time, assertion.operator, assertion.expected || '');
+                break;
+            default:
+                result.message = `Unknown assertion source: ${assertion.source}`;
+        }
+    } catch (error) {
+        result.passed = false;
+        result.message = error instanceof Error ? error.message : 'Unknown error';
+    }
+
+    return result;
+}
+
+function compareStatus(status: number, operator: AssertionOperator, expected: string): boolean {
+    switch (operator) {
+        case 'equals':
+            return status === parseExpectedNumber(expected);
+        case 'notEquals':
+            return status !== parseExpectedNumber(expected);
+        case 'inRange': {
+            const [min, max] = parseStatusRange(expected);
+            return status >= min && status <= max;
+        }
+        default:
+            throw new Error(`Operator "${operator}" is not supported for status`);
+    }
+}
+
+/**
+ * Parse a status range like "200-299" or "2xx"
+ */
+function parseStatusRange(expected: string): [number, number] {
+    const trimmed = expected.trim();
+    const classMatch = trimmed.match(/^([1-5])xx$/i);
+    if (classMatch) {
+        const base = parseInt(classMatch[1], 10) * 100;
+        return [base, base + 99];
+    }
+    const rangeMatch = trimmed.match(/^(\d+)\s*-\s*(\d+)$/);
+    if (rangeMatch) {
+        return [parseInt(rangeMatch[1], 10), parseInt(rangeMatch[2], 10)];
+    }
+    throw new Error(`Invalid status range "${expected}" (use e.g. 200-299 or 2xx)`);
+}
+
+function compareNumber(actual: number, operator: AssertionOperator, expected: string): boolean {
+    if (operator !== 'lessThan') {
+        throw new Error(`Operator "${operator}" is not supported for response time`);
+    }
+    return actual < parseExpectedNumber(expected);
+}
+
+function compareString(actual: string | undefined, operator: AssertionOperator, expected: string): boolean {
+    switch (operator) {
+        case 'exists':
+            return actual !== undefined;
+        case 'notExists':
+            return actual === undefined;
+        case 'equals':
+            return actual === expected;
+        case 'notEquals':
+            return actual !== expected;
+        case 'contains':
+            return actual !== undefined && actual.includes(expected);
+        case 'notContains':
+            return actual === undefined || !actual.includes(expected);
+        case 'matches':
+            return actual !== undefined && toRegExp(expected).test(actual);
+        default:
+            throw new Error(`Operator "${operator}" is not supported here`);
+    }
+}
+
+function compareJson(found: boolean, value: unknown, operator: AssertionOperator, expected: string): boolean {
+    switch (operator) {
+        case 'exists':
+            return found;
+        case 'notExists':
+            return !found;
+        case 'equals':
+            return found && jsonEquals(value, expected);
+        case 'notEquals':
+            return !found || !jsonEquals(value, expected);
+        case 'isType':
+            return found && getJsonType(value) === expected.trim().toLowerCase();
+        case 'contains':
+            if (!found) {
+                return false;
+            }
+            if (Array.isArray(value)) {
+                return value.some(item => jsonEquals(item, expected));
+            }
+            return formatJsonValue(value).includes(expected);
+        default:
+            throw new Error(`Operator "${operator}" is not supported for JSON path`);
+    }
+}
+
+/**
+ * Compare a JSON value to an expected string. The expected value is parsed as JSON
+ * when possible (so "42", "true" and "null" match their typed equivalents),
+ * otherwise it is compared as a plain string.
+ */
+function jsonEquals(value: unknown, expected: string): boolean {
+    if (typeof value === 'string') {
+        return value === expected || JSON.stringify(value) === expected.trim();
+    }
+    try {
+        return JSON.stringify(value) === JSON.stringify(JSON.parse(expected));
+    } catch {
+        return formatJsonValue(value) === expected;
+    }
+}
+
+function getJsonType(value: unknown): string {
+    if (value === null) {
+        return 'null';
+    }
+    if (Array.isArray(value)) {
+        return 'array';
+    }
+    return typeof value;
+}
+
+function formatJsonValue(value: unknown): string {
+    if (typeof value === 'string') {
+        return value;
+    }
+    return JSON.stringify(value) ?? 'undefined';
+}
+
+function parseExpectedNumber(expected: string): number {
+    const value = Number(expected.trim());
+    if (expected.trim() === '' || isNaN(value)) {
+        throw new Error(`Expected a number but got "${expected}"`);
+    }
+    return value;
+}
+
+/**
+ * Accept either a bare pattern or /pattern/flags syntax
+ */
+function toRegExp(pattern: string): RegExp {
+    const literal = pattern.match(/^\/(.*)\/([gimsuy]*)$/s);
+    try {
+        return literal ? new RegExp(literal[1], literal[2]) : new RegExp(pattern);
+    } catch {
+        throw new Error(`Invalid regular expression: ${pattern}`);
+    }
+}
+
+function getHeaderValue(headers: Record<string, string>, name: string): string | undefined {
+    const lowerName = name.trim().toLowerCase();
+    for (const [key, value] of Object.entries(headers)) {
+        if (key.toLowerCase() === lowerName) {
+            return String(value);
+        }
+    }
+    return undefined;
+}
+
+/**
+ * Navigate a JSON path like "$.data.items[0].id", "data.items[0].id" or "[1].name"
+ */
+export function getJsonPathValue(body: string, path: string): { found: boolean; value?: unknown } {
+    let value: unknown;
+    try {
+        value = JSON.parse(body);
+    } catch {
+        throw new Error('Response body is not valid JSON');
+    }
+
+    const normalized = path.trim().replace(/^\$\.?/, '');
+    const parts = normalized.split(/\.|\[/).filter(p => p);
+
+    for (const part of parts) {
+        if (value === null || typeof value !== 'object') {
+            return { found: false };
+        }
+
+        if (part.endsWith(']')) {
+            const index = parseInt(part.slice(0, -1), 10);
+            if (!Array.isArray(value) || isNaN(index) || index < 0 || index >= value.length) {
+                return { found: false };
+            }
+            value = value[index];
+        } else {
+            if (!Object.prototype.hasOwnProperty.call(value, part)) {
+                return { found: false };
+            }
+            value = (value as Record<string, unknown>)[part];
+        }
+    }
+
+    return { found: true, value };
+}
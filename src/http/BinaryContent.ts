@@ -0,0 +1,123 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { Readable } from 'stream';
+import { guessContentType } from './Multipart';
+
+/** Largest response shown as an image or PDF preview - bigger ones can still be saved to a file */
+export const MAX_PREVIEW_BYTES = 10 * 1024 * 1024;
+
+/** Text-like media types under application/ */
+const TEXT_APPLICATION_TYPES = [
+    'application/json',
+    'application/xml',
+    'application/javascript',
+    'application/x-javascript',
+    'application/ecmascript',
+    'application/x-www-form-urlencoded',
+    'application/graphql',
+    'application/x-ndjson',
+    'application/yaml',
+    'application/x-yaml',
+    'application/sql',
+];
+
+/**
+ * A file streamed as the request body
+ */
+export interface FileBody {
+    /** Absolute path of the file */
+    file: string;
+    size: number;
+    /** Content-Type guessed from the file extension */
+    contentType: string;
+    createStream(): Readable;
+}
+
+/**
+ * Whether a Content-Type describes binary content: images, audio, video, fonts, archives, PDF, protobuf...
+ * Text types, JSON and XML (including +json and +xml suffixes) and SVG are text.
+ */
+export function isBinaryContentType(contentType: string | undefined): boolean {
+    const type = contentType?.toLowerCase().split(';')[0].trim();
+    if (!type) {
+        return false;
+    }
+    if (type.startsWith('text/') || type.endsWith('+json') || type.endsWith('+xml') || TEXT_APPLICATION_TYPES.includes(type)) {
+        return false;
+    }
+    return /^(image|audio|video|font|application)\//.test(type);
+}
+
+/**
+ * Whether a response body is binary - by its Content-Type, or when there is none,
+ * by NUL bytes near the start like git and most editors do
+ */
+export function isBinaryResponse(contentType: string | undefined, body: Buffer): boolean {
+    if (contentType) {
+        return isBinaryContentType(contentType);
+    }
+    return body.subarray(0, 8000).includes(0);
+}
+
+/**
+ * How a binary response can be previewed in the request panel
+ */
+export function getPreviewType(contentType: string | undefined): 'image' | 'pdf' | undefined {
+    const type = contentType?.toLowerCase().split(';')[0].trim() || '';
+    if (type.startsWith('image/')) {
+        return 'image';
+    }
+    return type === 'application/pdf' ? 'pdf' : undefined;
+}
+
+/**
+ * File name to suggest when saving a response: the Content-Disposition filename,
+ * else the last segment of the URL path, else "response" with an extension for the Content-Type
+ */
+export function getResponseFileName(headers: Record<string, string>, url: string): string {
+    const disposition = headers['content-disposition'] || '';
+    const encoded = disposition.match(/filename\*\s*=\s*[^']*'[^']*'([^;]+)/i)?.[1];
+    let name: string | undefined;
+    if (encoded) {
+        try {
+            name = decodeURIComponent(encoded.trim());
+        } catch {
+            name = undefined;
+        }
+    }
+    name = name || disposition.match(/filename\s*=\s*(?:"([^"]+)"|([^;]+))/i)?.slice(1).find(Boolean)?.trim();
+    if (!name) {
+        try {
+            name = decodeURIComponent(new URL(url).pathname.split('/').pop() || '');
+        } catch {
+            name = undefined;
+        }
+    }
+    // Never let a server pick the directory
+    name = name && path.basename(name.replace(/\\/g, '/'));
+    if (name && name !== '.' && name !== '..') {
+        return name;
+    }
+    const type = (headers['content-type'] || '').toLowerCase().split(';')[0].trim();
+    const extension = type === 'application/octet-stream' ? 'bin' : type.split(/[/+]/).pop();
+    return extension && /^[a-z0-9.-]+$/.test(extension) ? `response.${extension}` : 'response';
+}
+
+/**
+ * Prepare a file to be sent as the request body. The file is checked up front,
+ * so a missing file fails the request before anything is sent.
+ * @param resolveFilePath - turns the body's path into an absolute one
+ */
+export async function createFileBody(file: string, resolveFilePath: (file: string) => string): Promise<FileBody> {
+    const absolute = resolveFilePath(file.trim());
+    const stats = await fs.promises.stat(absolute).catch(() => undefined);
+    if (!stats?.isFile()) {
+        throw new Error(`File not found for binary body: ${file.trim()}`);
+    }
+    return {
+        file: absolute,
+        size: stats.size,
+        contentType: guessContentType(absolute),
+        createStream: () => fs.createReadStream(absolute),
+    };
+}
@@ -0,0 +1,140 @@
+import * as zlib from 'zlib';
+import { Transform } from 'stream';
+import { promisify } from 'util';
+
+type Decoder = (buffer: Buffer) => Promise<Buffer>;
+
+// zstd is only built into newer Node versions (22.15+), so it is looked up at runtime
+const zstdDecompress = (zlib as { zstdDecompress?: (buffer: Buffer, callback: (error: Error | null, result: Buffer) => void) => void }).zstdDecompress;
+
+const createZstdDecompress = (zlib as { createZstdDecompress?: () => Transform }).createZstdDecompress;
+
+const inflate = promisify(zlib.inflate);
+const inflateRaw = promisify(zlib.inflateRaw);
+
+const DECODERS: Record<string, Decoder> = {
+    'gzip': promisify(zlib.gunzip),
+    'x-gzip': promisify(zlib.gunzip),
+    // Some servers send raw deflate data without the zlib header
+    'deflate': buffer => inflate(buffer).catch(() => inflateRaw(buffer)),
+    'br': promisify(zlib.brotliDecompress),
+    ...(zstdDecompress ? { 'zstd': promisify(zstdDecompress) } : {}),
+};
+
+/**
+ * Inflate stream that also takes raw deflate data, like the buffered decoder -
+ * the first two bytes tell whether the data starts with a zlib header
+ */
+function createDeflateDecompress(): Transform {
+    let inflater: Transform | undefined;
+    let head = Buffer.alloc(0);
+
+    const start = (): Transform => {
+        const zlibHeader = (head[0] & 0x0f) === 8 && ((head[0] << 8) | head[1]) % 31 === 0;
+        const created = zlibHeader ? zlib.createInflate() : zlib.createInflateRaw();
+        created.on('data', (chunk: Buffer) => decoder.push(chunk));
+        created.on('error', error => decoder.destroy(error));
+        return created;
+    };
+
+    const decoder = new Transform({
+        transform(chunk: Buffer, _encoding, callback) {
+            if (!inflater) {
+                head = Buffer.concat([head, chunk]);
+                if (head.length < 2) {
+                    callback();
+                    return;
+                }
+                inflater = start();
+                chunk = head;
+            }
+            inflater.write(chunk, () => callback());
+        },
+        flush(callback) {
+            if (!inflater && head.length > 0) {
+                inflater = start();
+                inflater.write(head);
+            }
+            if (!inflater) {
+                callback();
+                return;
+            }
+            inflater.once('end', () => callback());
+            inflater.end();
+        },
+    });
+    return decoder;
+}
+
+const STREAM_DECODERS: Record<string, () => Transform> = {
+    'gzip': () => zlib.createGunzip(),
+    'x-gzip': () => zlib.createGunzip(),
+    'deflate': createDeflateDecompress,
+    'br': () => zlib.createBrotliDecompress(),
+    ...(createZstdDecompress ? { 'zstd': createZstdDecompress } : {}),
+};
+
+/** Encoded bytes shown in the request panel - enough to inspect headers and framing */
+export const MAX_HEX_DUMP_BYTES = 64 * 1024;
+
+/** Accept-Encoding sent when a request doesn't set its own */
+export const ACCEPT_ENCODING = Object.keys(DECODERS).filter(name => name !== 'x-gzip').join(', ');
+
+/**
+ * The codings of a Content-Encoding header in the order they were applied, without identity
+ */
+export function parseContentEncoding(header: string | undefined): string[] {
+    return (header || '').split(',').map(name => name.trim().toLowerCase()).filter(name => name && name !== 'identity');
+}
+
+/**
+ * Undo the Content-Encoding of a response body - codings are removed last applied first
+ * @throws when a coding isn't supported or the data is corrupt
+ */
+export async function decodeContent(buffer: Buffer, contentEncoding: string | undefined): Promise<Buffer> {
+    let decoded = buffer;
+    for (const coding of parseContentEncoding(contentEncoding).reverse()) {
+        const decoder = DECODERS[coding];
+        if (!decoder) {
+            throw new Error(`Unsupported Content-Encoding: ${coding}`);
+        }
+        decoded = await decoder(decoded);
+    }
+    return decoded;
+}
+
+/**
+ * Decompression streams for a Content-Encoding, to decode a body while it arrives -
+ * data goes into the first stream and comes out of the last, which is piped by the caller.
+ * Undefined when a coding isn't supported; an empty array when there is nothing to undo.
+ */
+export function createDecodingStreams(contentEncoding: string | undefined): Transform[] | undefined {
+    const decoders: Transform[] = [];
+    for (const coding of parseContentEncoding(contentEncoding).reverse()) {
+        const create = STREAM_DECODERS[coding];
+        if (!create) {
+            return undefined;
+        }
+        decoders.push(create());
+    }
+    return decoders;
+}
+
+/**
+ * Offset, hex and ASCII columns like xxd, for showing encoded bytes as text
+ * @param limit - bytes to include; the rest is summarised in a last line
+ */
+export function formatHexDump(buffer: Buffer, limit: number = buffer.length): string {
+    const lines: string[] = [];
+    const end = Math.min(buffer.length, limit);
+    for (let offset = 0; offset < end; offset += 16) {
+        const row = buffer.subarray(offset, Math.min(offset + 16, end));
+        const hex = Array.from(row, byte => byte.toString(16).padStart(2, '0')).join(' ');
+        const ascii = Array.from(row, byte => (byte >= 0x20 && byte < 0x7f ? String.fromCharCode(byte) : '.')).join('');
+        lines.push(`${offset.toString(16).padStart(8, '0')}  ${hex.padEnd(47)}  ${ascii}`);
+    }
+    if (buffer.length > end) {
+        lines.push(`... ${buffer.length - end} more bytes`);
+    }
+    return lines.join('\n');
+}
@@ -0,0 +1,273 @@
+import * as net from 'net';
+import { URL } from 'url';
+
+/**
+ * A cookie as stored in the jar (RFC 6265 section 5.3)
+ */
+export interface Cookie {
+    name: string;
+    value: string;
+    /** Lower-cased, without a leading dot */
+    domain: string;
+    path: string;
+    /** Epoch milliseconds, undefined for session cookies */
+    expires?: number;
+    secure: boolean;
+    httpOnly: boolean;
+    /** Set without a Domain attribute - only sent to exactly this host */
+    hostOnly: boolean;
+    sameSite?: string;
+    createdAt: number;
+}
+
+/**
+ * Where HttpClient reads and writes cookies - a CookieJar, or in the extension
+ * the jar of the active environment
+ */
+export interface CookieStore {
+    getCookieHeader(url: URL): string | undefined | PromiseLike<string | undefined>;
+    setCookies(url: URL, setCookieHeaders: string[]): unknown;
+}
+
+const LOOPBACK_HOSTS = ['localhost', '127.0.0.1', '::1'];
+
+/**
+ * Common multi-label public suffixes a Domain attribute can't widen a cookie to. This is not
+ * the full Public Suffix List - suffixes of smaller registries and hosting services that are
+ * missing here are still accepted as a Domain.
+ */
+const PUBLIC_SUFFIXES = new Set([
+    'co.uk', 'org.uk', 'me.uk', 'ltd.uk', 'plc.uk', 'net.uk', 'ac.uk', 'gov.uk', 'sch.uk', 'nhs.uk',
+    'com.au', 'net.au', 'org.au', 'edu.au', 'gov.au', 'id.au', 'asn.au',
+    'co.nz', 'net.nz', 'org.nz', 'ac.nz', 'govt.nz',
+    'co.jp', 'ne.jp', 'or.jp', 'ac.jp', 'go.jp', 'gr.jp',
+    'co.kr', 'or.kr', 'go.kr',
+    'com.cn', 'net.cn', 'org.cn', 'gov.cn', 'edu.cn',
+    'com.hk', 'com.tw', 'com.sg', 'com.my', 'com.ph', 'com.vn', 'co.th', 'co.id',
+    'co.in', 'net.in', 'org.in', 'gov.in', 'com.pk',
+    'com.br', 'net.br', 'org.br', 'gov.br', 'com.mx', 'com.ar', 'com.co',
+    'co.za', 'org.za', 'com.ng', 'com.eg', 'co.il', 'com.tr', 'com.ua', 'com.sa',
+    'github.io', 'gitlab.io', 'herokuapp.com', 'vercel.app', 'netlify.app', 'pages.dev',
+    'azurewebsites.net', 'cloudfront.net', 'appspot.com', 'firebaseapp.com', 'web.app',
+]);
+
+/**
+ * In-memory cookie jar applying the domain, path, expiry and Secure rules of RFC 6265
+ */
+export class CookieJar implements CookieStore {
+    private cookies: Cookie[];
+
+    constructor(cookies: Cookie[] = []) {
+        this.cookies = cookies.map(c => ({ ...c }));
+    }
+
+    /**
+     * All cookies that have not expired
+     */
+    getCookies(now: number = Date.now()): Cookie[] {
+        this.cookies = this.cookies.filter(c => !isExpired(c, now));
+        return this.cookies.map(c => ({ ...c }));
+    }
+
+    /**
+     * Cookie header value for a request, undefined when no cookie applies
+     */
+    getCookieHeader(url: URL, now: number = Date.now()): string | undefined {
+        const host = getHost(url);
+        const path = url.pathname || '/';
+        const secure = isSecureOrigin(url);
+
+        const matching = this.getCookies(now)
+            .filter(c => (c.hostOnly ? host === c.domain : domainMatches(host, c.domain))
+                && pathMatches(path, c.path)
+                && (!c.secure || secure))
+            // Longer paths first, then older cookies first (section 5.4)
+            .sort((a, b) => b.path.length - a.path.length || a.createdAt - b.createdAt);
+
+        return matching.length > 0 ? matching.map(c => `${c.name}=${c.value}`).join('; ') : undefined;
+    }
+
+    /**
+     * Store the cookies of a response's Set-Cookie headers. Cookies the server
+     * expires are removed, cookies for other domains are ignored.
+     * @returns true when the jar changed
+     */
+    setCookies(url: URL, setCookieHeaders: string[], now: number = Date.now()): boolean {
+        let changed = false;
+        for (const header of setCookieHeaders) {
+            const cookie = parseSetCookie(header, url, now);
+            if (cookie) {
+                changed = this.setCookie(cookie, now) || changed;
+            }
+        }
+        return changed;
+    }
+
+    /**
+     * Add a cookie or replace the one with the same name, domain and path
+     */
+    setCookie(cookie: Cookie, now: number = Date.now()): boolean {
+        const index = this.cookies.findIndex(c => isSameCookie(c, cookie));
+        if (isExpired(cookie, now)) {
+            if (index >= 0) {
+                this.cookies.splice(index, 1);
+            }
+            return index >= 0;
+        }
+        if (index >= 0) {
+            // A replaced cookie keeps its creation time and position, which decide the header order
+            this.cookies[index] = { ...cookie, createdAt: this.cookies[index].createdAt };
+        } else {
+            this.cookies.push({ ...cookie });
+        }
+        return true;
+    }
+
+    deleteCookie(cookie: Pick<Cookie, 'name' | 'domain' | 'path'>): boolean {
+        const count = this.cookies.length;
+        this.cookies = this.cookies.filter(c => !isSameCookie(c, cookie));
+        return this.cookies.length !== count;
+    }
+
+    /**
+     * Remove all cookies, or only those of one domain
+     */
+    clear(domain?: string): void {
+        this.cookies = domain ? this.cookies.filter(c => c.domain !== domain) : [];
+    }
+}
+
+/**
+ * Parse a Set-Cookie header received from url (RFC 6265 section 5.2).
+ * Returns undefined when the cookie must be ignored - also when its Domain is a bare
+ * top-level name or one of the common PUBLIC_SUFFIXES other than the host itself.
+ */
+export function parseSetCookie(header: string, url: URL, now: number = Date.now()): Cookie | undefined {
+    const [pair, ...attributes] = header.split(';');
+    const separator = pair.indexOf('=');
+    if (separator < 0) {
+        return undefined;
+    }
+    const name = pair.slice(0, separator).trim();
+    if (!name) {
+        return undefined;
+    }
+
+    const host = getHost(url);
+    const cookie: Cookie = {
+        name,
+        value: pair.slice(separator + 1).trim(),
+        domain: host,
+        path: defaultPath(url.pathname),
+        secure: false,
+        httpOnly: false,
+        hostOnly: true,
+        createdAt: now,
+    };
+
+    let maxAge: number | undefined;
+    let expires: number | undefined;
+    for (const attribute of attributes) {
+        const index = attribute.indexOf('=');
+        const key = (index < 0 ? attribute : attribute.slice(0, index)).trim().toLowerCase();
+        const value = index < 0 ? '' : attribute.slice(index + 1).trim();
+
+        switch (key) {
+            case 'expires': {
+                const date = Date.parse(value);
+                if (!Number.isNaN(date)) {
+                    expires = date;
+                }
+                break;
+            }
+            case 'max-age':
+                if (/^-?\d+$/.test(value)) {
+                    maxAge = Number(value);
+                }
+                break;
+            case 'domain':
+                if (value) {
+                    cookie.domain = value.replace(/^\./, '').toLowerCase();
+                    cookie.hostOnly = false;
+                }
+                break;
+            case 'path':
+                cookie.path = value.startsWith('/') ? value : defaultPath(url.pathname);
+                break;
+            case 'secure':
+                cookie.secure = true;
+                break;
+            case 'httponly':
+                cookie.httpOnly = true;
+                break;
+            case 'samesite':
+                cookie.sameSite = value;
+                break;
+        }
+    }
+
+    // Max-Age wins over Expires; zero or negative expires the cookie right away
+    if (maxAge !== undefined) {
+        cookie.expires = maxAge <= 0 ? 0 : now + maxAge * 1000;
+    } else if (expires !== undefined) {
+        cookie.expires = expires;
+    }
+
+    if (!cookie.hostOnly) {
+        // The host must be inside the Domain, and a Domain can't be a bare top-level name or another IP
+        const isIp = net.isIP(host) !== 0;
+        if (!domainMatches(host, cookie.domain) || (isIp && host !== cookie.domain) || (!cookie.domain.includes('.') && cookie.domain !== host)) {
+            return undefined;
+        }
+        // A public suffix only stays as Domain on the suffix's own host, and then only for that host (RFC 6265 section 5.3 step 5)
+        if (PUBLIC_SUFFIXES.has(cookie.domain)) {
+            if (cookie.domain !== host) {
+                return undefined;
+            }
+            cookie.hostOnly = true;
+        }
+    }
+
+    // Secure cookies can only be set over https (RFC 6265bis)
+    if (cookie.secure && !isSecureOrigin(url)) {
+        return undefined;
+    }
+
+    return cookie;
+}
+
+function getHost(url: URL): string {
+    return url.hostname.toLowerCase().replace(/^\[|\]$/g, '');
+}
+
+function isSecureOrigin(url: URL): boolean {
+    return url.protocol === 'https:' || LOOPBACK_HOSTS.includes(getHost(url));
+}
+
+function isExpired(cookie: Cookie, now: number): boolean {
+    return cookie.expires !== undefined && cookie.expires <= now;
+}
+
+function isSameCookie(a: Pick<Cookie, 'name' | 'domain' | 'path'>, b: Pick<Cookie, 'name' | 'domain' | 'path'>): boolean {
+    return a.name === b.name && a.domain === b.domain && a.path === b.path;
+}
+
+function domainMatches(host: string, domain: string): boolean {
+    return host === domain || (host.endsWith(`.${domain}`) && net.isIP(host) === 0);
+}
+
+function pathMatches(requestPath: string, cookiePath: string): boolean {
+    return requestPath === cookiePath
+        || (requestPath.startsWith(cookiePath) && (cookiePath.endsWith('/') || requestPath[cookiePath.length] === '/'));
+}
+
+/**
+ * The directory of the request path (section 5.1.4)
+ */
+function defaultPath(requestPath: string): string {
+    if (!requestPath.startsWith('/')) {
+        return '/';
+    }
+    const lastSlash = requestPath.lastIndexOf('/');
+    return lastSlash === 0 ? '/' : requestPath.slice(0, lastSlash);
+}
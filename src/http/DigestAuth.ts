@@ -0,0 +1,122 @@
+import { createHash, randomBytes } from 'crypto';
+
+/**
+ * A Digest challenge from a WWW-Authenticate header (RFC 7616)
+ */
+export interface DigestChallenge {
+    realm: string;
+    nonce: string;
+    opaque?: string;
+    /** Upper-cased, MD5 when the server did not say */
+    algorithm: string;
+    /** qop values offered by the server, empty for legacy RFC 2069 servers */
+    qop: string[];
+    stale: boolean;
+}
+
+export interface DigestResponseOptions {
+    username: string;
+    password: string;
+    method: string;
+    /** Request target - path and query */
+    uri: string;
+    /** Nonce count - how often this nonce has been used, starting at 1 */
+    nc: number;
+    cnonce?: string;
+    body?: string;
+}
+
+const HASHES: Record<string, string> = {
+    'MD5': 'md5',
+    'MD5-SESS': 'md5',
+    'SHA-256': 'sha256',
+    'SHA-256-SESS': 'sha256',
+};
+
+/**
+ * Find the strongest supported Digest challenge in a WWW-Authenticate header.
+ * Several challenges may be joined into one header, e.g. `Digest ..., Basic ...`.
+ */
+export function parseDigestChallenge(header: string | string[] | undefined): DigestChallenge | undefined {
+    const text = Array.isArray(header) ? header.join(', ') : header;
+    if (!text) {
+        return undefined;
+    }
+
+    const challenges: DigestChallenge[] = [];
+    let current: Record<string, string> | undefined;
+    const flush = () => {
+        if (current?.nonce) {
+            const algorithm = (current.algorithm || 'MD5').toUpperCase();
+            if (HASHES[algorithm]) {
+                challenges.push({
+                    realm: current.realm || '',
+                    nonce: current.nonce,
+                    opaque: current.opaque,
+                    algorithm,
+                    qop: current.qop ? current.qop.split(',').map(q => q.trim().toLowerCase()).filter(Boolean) : [],
+                    stale: current.stale?.toLowerCase() === 'true',
+                });
+            }
+        }
+        current = undefined;
+    };
+
+    // Either a scheme name or a name=value parameter of the current scheme
+    const token = /\s*,?\s*([A-Za-z0-9!#$%&'*+.^_`|~-]+)(?:\s*=\s*("(?:[^"\\]|\\.)*"|[^\s,]*))?/y;
+    let match: RegExpExecArray | null;
+    while (token.lastIndex < text.length && (match = token.exec(text))) {
+        const [, name, value] = match;
+        if (value === undefined) {
+            flush();
+            current = name.toLowerCase() === 'digest' ? {} : undefined;
+        } else if (current) {
+            current[name.toLowerCase()] = value.startsWith('"') ? value.slice(1, -1).replace(/\\(.)/g, '$1') : value;
+        }
+    }
+    flush();
+
+    return challenges.find(c => c.algorithm.startsWith('SHA-256')) || challenges[0];
+}
+
+/**
+ * Compute the Authorization header value answering a Digest challenge
+ */
+export function buildDigestAuthorization(challenge: DigestChallenge, options: DigestResponseOptions): string {
+    const hash = (value: string) => createHash(HASHES[challenge.algorithm]).update(value, 'utf8').digest('hex');
+    const cnonce = options.cnonce || randomBytes(8).toString('hex');
+    const nc = options.nc.toString(16).padStart(8, '0');
+    // Prefer qop=auth; auth-int (which also covers the body) only when it is all the server accepts
+    const qop = challenge.qop.includes('auth') ? 'auth' : challenge.qop.includes('auth-int') ? 'auth-int' : undefined;
+
+    let ha1 = hash(`${options.username}:${challenge.realm}:${options.password}`);
+    if (challenge.algorithm.endsWith('-SESS')) {
+        ha1 = hash(`${ha1}:${challenge.nonce}:${cnonce}`);
+    }
+    const ha2 = qop === 'auth-int'
+        ? hash(`${options.method}:${options.uri}:${hash(options.body || '')}`)
+        : hash(`${options.method}:${options.uri}`);
+    const response = qop
+        ? hash(`${ha1}:${challenge.nonce}:${nc}:${cnonce}:${qop}:${ha2}`)
+        : hash(`${ha1}:${challenge.nonce}:${ha2}`);
+
+    const params = [
+        `username="${quote(options.username)}"`,
+        `realm="${quote(challenge.realm)}"`,
+        `nonce="${quote(challenge.nonce)}"`,
+        `uri="${quote(options.uri)}"`,
+        `algorithm=${challenge.algorithm}`,
+        `response="${response}"`,
+    ];
+    if (challenge.opaque !== undefined) {
+        params.push(`opaque="${quote(challenge.opaque)}"`);
+    }
+    if (qop) {
+        params.push(`qop=${qop}`, `nc=${nc}`, `cnonce="${cnonce}"`);
+    }
+    return `Digest ${params.join(', ')}`;
+}
+
+function quote(value: string): string {
+    return value.replace(/(["\\])/g, '\\$1');
+}
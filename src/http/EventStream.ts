@@ -0,0 +1,150 @@
+import { StringDecoder } from 'string_decoder';
+
+/**
+ * How a streamed response body is split into events
+ * - sse: text/event-stream (Server-Sent Events)
+ * - ndjson: one JSON value per line (NDJSON / JSON Lines)
+ */
+export type StreamKind = 'sse' | 'ndjson';
+
+/**
+ * An event of a streamed response - a Server-Sent Event or an NDJSON line
+ */
+export interface StreamEvent {
+    /** Milliseconds since the response headers arrived */
+    time: number;
+    data: string;
+    /** SSE event type, when the event sets one */
+    event?: string;
+    /** SSE event id, when the event sets one */
+    id?: string;
+    /** SSE reconnection time in milliseconds, when the event sets one */
+    retry?: number;
+}
+
+const NDJSON_TYPES = ['application/x-ndjson', 'application/ndjson', 'application/jsonl', 'application/x-jsonlines', 'application/stream+json'];
+
+/**
+ * The stream kind of a Content-Type, undefined for responses that are shown once complete
+ */
+export function getStreamKind(contentType: string | undefined): StreamKind | undefined {
+    const type = contentType?.toLowerCase().split(';')[0].trim();
+    if (type === 'text/event-stream') {
+        return 'sse';
+    }
+    return type && NDJSON_TYPES.includes(type) ? 'ndjson' : undefined;
+}
+
+/**
+ * Splits a streamed body into events as chunks arrive. Chunks may end anywhere -
+ * inside a line or a multi-byte character - so incomplete input is kept for the next push.
+ * Follows the event stream parsing rules of the HTML spec for SSE.
+ */
+export class EventStreamParser {
+    private decoder = new StringDecoder('utf8');
+    private buffer = '';
+    private started = false;
+    /** The last chunk ended with \r - a \n starting the next one belongs to the same line break */
+    private pendingCr = false;
+    private data: string[] = [];
+    private event: string | undefined;
+    private id: string | undefined;
+    private retry: number | undefined;
+
+    constructor(private readonly kind: StreamKind) { }
+
+    /**
+     * Parse a chunk of the body, returning the events it completed
+     */
+    push(chunk: Buffer, time: number): StreamEvent[] {
+        let text = this.decoder.write(chunk);
+        if (!this.started && text) {
+            this.started = true;
+            text = text.replace(/^\uFEFF/, '');
+        }
+        if (this.pendingCr && text) {
+            text = text.replace(/^\n/, '');
+            this.pendingCr = false;
+        }
+        return this.parse(this.buffer + text, time, false);
+    }
+
+    /**
+     * Parse what is left once the body has ended. An SSE event without its closing
+     * blank line is dropped, like browsers do; a last NDJSON line doesn't need a newline.
+     */
+    end(time: number): StreamEvent[] {
+        return this.parse(this.buffer + this.decoder.end(), time, true);
+    }
+
+    private parse(text: string, time: number, final: boolean): StreamEvent[] {
+        const lines = text.split(/\r\n|\r|\n/);
+        // The last piece has no line break yet - at the end it is a line of its own, if there is one
+        const last = lines.pop()!;
+        this.buffer = final ? '' : last;
+        if (final && last) {
+            lines.push(last);
+        }
+        this.pendingCr = !final && text.endsWith('\r');
+        const events: StreamEvent[] = [];
+        for (const line of lines) {
+            const event = this.kind === 'sse' ? this.parseSseLine(line, time) : this.parseNdjsonLine(line, time);
+            if (event) {
+                events.push(event);
+            }
+        }
+        return events;
+    }
+
+    private parseNdjsonLine(line: string, time: number): StreamEvent | undefined {
+        return line.trim() ? { time, data: line } : undefined;
+    }
+
+    private parseSseLine(line: string, time: number): StreamEvent | undefined {
+        if (line === '') {
+            return this.dispatch(time);
+        }
+        if (line.startsWith(':')) {
+            return undefined;
+        }
+        const colon = line.indexOf(':');
+        const field = colon < 0 ? line : line.slice(0, colon);
+        const value = colon < 0 ? '' : line.slice(colon + 1).replace(/^ /, '');
+        switch (field) {
+            case 'data':
+                this.data.push(value);
+                break;
+            case 'event':
+                this.event = value;
+                break;
+            case 'id':
+                if (!value.includes('\0')) {
+                    this.id = value;
+                }
+                break;
+            case 'retry':
+                if (/^\d+$/.test(value)) {
+                    this.retry = Number(value);
+                }
+                break;
+        }
+        return undefined;
+    }
+
+    private dispatch(time: number): StreamEvent | undefined {
+        const event: StreamEvent | undefined = this.data.length > 0
+            ? {
+                time,
+                data: this.data.join('\n'),
+                ...(this.event ? { event: this.event } : {}),
+                ...(this.id !== undefined ? { id: this.id } : {}),
+                ...(this.retry !== undefined ? { retry: this.retry } : {}),
+            }
+            : undefined;
+        this.data = [];
+        this.event = undefined;
+        this.id = undefined;
+        this.retry = undefined;
+        return event;
+    }
+}
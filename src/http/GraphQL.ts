@@ -0,0 +1,669 @@
+import { GraphQLBody, Request } from '../models/Collection';
+import type { TextResolver } from './RequestBuilder';
+
+/**
+ * Query sent to fetch a schema - only the parts autocomplete and validation use
+ */
+export const INTROSPECTION_QUERY = `query IntrospectionQuery {
+  __schema {
+    queryType { name }
+    mutationType { name }
+    subscriptionType { name }
+    types {
+      kind
+      name
+      description
+      fields(includeDeprecated: true) {
+        name
+        description
+        args { name type { ...TypeRef } }
+        type { ...TypeRef }
+      }
+      inputFields { name description type { ...TypeRef } }
+      enumValues(includeDeprecated: true) { name }
+      possibleTypes { name }
+    }
+  }
+}
+
+fragment TypeRef on __Type {
+  kind
+  name
+  ofType { kind name ofType { kind name ofType { kind name ofType { kind name ofType { kind name ofType { kind name } } } } } }
+}`;
+
+export type GraphQLTypeKind = 'OBJECT' | 'INTERFACE' | 'UNION' | 'SCALAR' | 'ENUM' | 'INPUT_OBJECT';
+
+export interface GraphQLArgument {
+    name: string;
+    /** Printed type reference, e.g. "[ID!]!" */
+    type: string;
+    /** Named type the reference wraps, e.g. "ID" */
+    typeName: string;
+}
+
+export interface GraphQLField extends GraphQLArgument {
+    description?: string;
+    args: GraphQLArgument[];
+}
+
+export interface GraphQLType {
+    name: string;
+    kind: GraphQLTypeKind;
+    description?: string;
+    /** Fields of objects and interfaces, input fields of input objects */
+    fields: GraphQLField[];
+    /** Values of enums */
+    enumValues?: string[];
+    /** Members of unions and implementations of interfaces */
+    possibleTypes?: string[];
+}
+
+/**
+ * A schema read from an introspection result, reduced to what the body editor needs
+ */
+export interface GraphQLSchema {
+    queryType?: string;
+    mutationType?: string;
+    subscriptionType?: string;
+    types: Record<string, GraphQLType>;
+}
+
+export interface GraphQLCompletionItem {
+    label: string;
+    /** Type of a field or argument, kind of a type */
+    detail?: string;
+    kind: 'field' | 'argument' | 'type' | 'keyword' | 'value';
+}
+
+export interface GraphQLCompletions {
+    /** Offset of the start of the word the items replace */
+    from: number;
+    items: GraphQLCompletionItem[];
+}
+
+export interface GraphQLDiagnostic {
+    message: string;
+    offset: number;
+    length: number;
+}
+
+// ==================== Payloads ====================
+
+/**
+ * Read the query and variables of a graphql body's content
+ */
+export function parseGraphQLBody(content: string): GraphQLBody {
+    let body: unknown;
+    try {
+        body = JSON.parse(content);
+    } catch {
+        // Content that isn't the JSON of the editor is taken as a bare query
+        return { query: content, variables: '' };
+    }
+    if (!body || typeof body !== 'object') {
+        return { query: content, variables: '' };
+    }
+    const { query, variables } = body as Partial<GraphQLBody>;
+    return { query: typeof query === 'string' ? query : '', variables: typeof variables === 'string' ? variables : '' };
+}
+
+/**
+ * The JSON a GraphQL server expects: {"query": ..., "variables": {...}}
+ * @throws when the variables aren't a JSON object
+ */
+export function createGraphQLPayload(content: string): string {
+    const { query, variables } = parseGraphQLBody(content);
+    const payload: { query: string; variables?: Record<string, unknown> } = { query };
+    if (variables.trim()) {
+        let parsed: unknown;
+        try {
+            parsed = JSON.parse(variables);
+        } catch (error) {
+            throw new Error(`GraphQL variables are not valid JSON: ${error instanceof Error ? error.message : String(error)}`);
+        }
+        if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+            throw new Error('GraphQL variables must be a JSON object');
+        }
+        payload.variables = parsed as Record<string, unknown>;
+    }
+    return JSON.stringify(payload);
+}
+
+/**
+ * Resolve variables in the query and the variables of a graphql body.
+ * Returns the resolved body as body content.
+ */
+export async function resolveGraphQLBody(content: string, resolve: TextResolver): Promise<string> {
+    const body = parseGraphQLBody(content);
+    return JSON.stringify({ query: await resolve(body.query), variables: await resolve(body.variables) });
+}
+
+/**
+ * The JSON POST a graphql request is sent as
+ * @throws when the variables aren't a JSON object
+ */
+export function toGraphQLRequest(request: Request): Request {
+    return {
+        ...request,
+        method: 'POST',
+        body: { type: 'json', content: createGraphQLPayload(request.body.content) },
+    };
+}
+
+/**
+ * The payload of a graphql body, indented for generated code. Variables that are not JSON yet
+ * (placeholders like {{id}} left in for the reader) are kept as written.
+ */
+export function formatGraphQLPayload(content: string): string {
+    try {
+        return JSON.stringify(JSON.parse(createGraphQLPayload(content)), null, 2);
+    } catch {
+        const { query, variables } = parseGraphQLBody(content);
+        return `{\n  "query": ${JSON.stringify(query)},\n  "variables": ${variables.trim()}\n}`;
+    }
+}
+
+// ==================== Schemas ====================
+
+interface IntrospectionTypeRef {
+    kind: string;
+    name?: string | null;
+    ofType?: IntrospectionTypeRef | null;
+}
+
+interface IntrospectionField {
+    name: string;
+    description?: string | null;
+    args?: { name: string; type: IntrospectionTypeRef }[];
+    type: IntrospectionTypeRef;
+}
+
+function printTypeRef(ref: IntrospectionTypeRef): string {
+    if (ref.kind === 'NON_NULL' && ref.ofType) {
+        return printTypeRef(ref.ofType) + '!';
+    }
+    if (ref.kind === 'LIST' && ref.ofType) {
+        return `[${printTypeRef(ref.ofType)}]`;
+    }
+    return ref.name ?? '';
+}
+
+function getNamedType(ref: IntrospectionTypeRef): string {
+    return ref.ofType ? getNamedType(ref.ofType) : ref.name ?? '';
+}
+
+function toField(field: IntrospectionField): GraphQLField {
+    return {
+        name: field.name,
+        type: printTypeRef(field.type),
+        typeName: getNamedType(field.type),
+        ...(field.description ? { description: field.description } : {}),
+        args: (field.args ?? []).map(arg => ({ name: arg.name, type: printTypeRef(arg.type), typeName: getNamedType(arg.type) })),
+    };
+}
+
+/**
+ * Read the schema from the response to INTROSPECTION_QUERY
+ * @throws when the response is no introspection result
+ */
+export function parseIntrospectionResult(body: string): GraphQLSchema {
+    let result: { data?: { __schema?: unknown }; errors?: { message?: string }[] };
+    try {
+        result = JSON.parse(body);
+    } catch {
+        throw new Error('Introspection response is not JSON');
+    }
+    const schema = result?.data?.__schema as {
+        queryType?: { name: string } | null;
+        mutationType?: { name: string } | null;
+        subscriptionType?: { name: string } | null;
+        types?: {
+            kind: GraphQLTypeKind;
+            name: string;
+            description?: string | null;
+            fields?: IntrospectionField[] | null;
+            inputFields?: IntrospectionField[] | null;
+            enumValues?: { name: string }[] | null;
+            possibleTypes?: { name: string }[] | null;
+        }[];
+    } | undefined;
+    if (!schema?.types) {
+        const message = result?.errors?.[0]?.message;
+        throw new Error(message ? `Introspection failed: ${message}` : 'Introspection response has no schema');
+    }
+
+    const types: Record<string, GraphQLType> = {};
+    for (const type of schema.types) {
+        if (!type?.name || type.name.startsWith('__')) {
+            continue;
+        }
+        types[type.name] = {
+            name: type.name,
+            kind: type.kind,
+            ...(type.description ? { description: type.description } : {}),
+            fields: (type.fields ?? type.inputFields ?? []).map(toField),
+            ...(type.enumValues ? { enumValues: type.enumValues.map(value => value.name) } : {}),
+            ...(type.possibleTypes ? { possibleTypes: type.possibleTypes.map(possible => possible.name) } : {}),
+        };
+    }
+    return {
+        ...(schema.queryType ? { queryType: schema.queryType.name } : {}),
+        ...(schema.mutationType ? { mutationType: schema.mutationType.name } : {}),
+        ...(schema.subscriptionType ? { subscriptionType: schema.subscriptionType.name } : {}),
+        types,
+    };
+}
+
+// ==================== Documents ====================
+
+interface Token {
+    kind: 'name' | 'punct' | 'number' | 'string';
+    value: string;
+    start: number;
+    end: number;
+}
+
+/**
+ * Where selections and arguments start and end, and what they select from
+ */
+interface Scope {
+    kind: 'selection' | 'arguments';
+    start: number;
+    end: number;
+    typeName?: string;
+    field?: GraphQLField;
+}
+
+function tokenize(query: string, diagnostics: GraphQLDiagnostic[]): Token[] {
+    const tokens: Token[] = [];
+    let i = 0;
+    while (i < query.length) {
+        const char = query[i];
+        if (/[\s,\uFEFF]/.test(char)) {
+            i++;
+        } else if (char === '#') {
+            while (i < query.length && query[i] !== '\n' && query[i] !== '\r') {
+                i++;
+            }
+        } else if (/[_A-Za-z]/.test(char)) {
+            const start = i;
+            while (i < query.length && /\w/.test(query[i])) {
+                i++;
+            }
+            tokens.push({ kind: 'name', value: query.slice(start, i), start, end: i });
+        } else if (/[-\d]/.test(char)) {
+            const match = /^-?\d+(\.\d+)?([eE][+-]?\d+)?/.exec(query.slice(i));
+            const end = i + Math.max(match?.[0].length ?? 0, 1);
+            tokens.push({ kind: 'number', value: query.slice(i, end), start: i, end });
+            i = end;
+        } else if (char === '"') {
+            const block = query.startsWith('"""', i);
+            const start = i;
+            i += block ? 3 : 1;
+            let closed = false;
+            while (i < query.length) {
+                if (block ? query.startsWith('"""', i) : query[i] === '"') {
+                    i += block ? 3 : 1;
+                    closed = true;
+                    break;
+                }
+                if (!block && (query[i] === '\n' || query[i] === '\r')) {
+                    break;
+                }
+                i += query[i] === '\\' ? 2 : 1;
+            }
+            if (!closed) {
+                diagnostics.push({ message: 'Unterminated string', offset: start, length: Math.min(i, query.length) - start });
+            }
+            tokens.push({ kind: 'string', value: query.slice(start, i), start, end: i });
+        } else if (query.startsWith('...', i)) {
+            tokens.push({ kind: 'punct', value: '...', start: i, end: i + 3 });
+            i += 3;
+        } else {
+            if (!'{}()[]:!$@=|&'.includes(char)) {
+                diagnostics.push({ message: `Unexpected character "${char}"`, offset: i, length: 1 });
+            }
+            tokens.push({ kind: 'punct', value: char, start: i, end: i + 1 });
+            i++;
+        }
+    }
+    return tokens;
+}
+
+function isLeafType(type: GraphQLType | undefined): boolean {
+    return type?.kind === 'SCALAR' || type?.kind === 'ENUM';
+}
+
+function isCompositeType(type: GraphQLType | undefined): boolean {
+    return type?.kind === 'OBJECT' || type?.kind === 'INTERFACE' || type?.kind === 'UNION';
+}
+
+/**
+ * Walk a document, reporting syntax errors and - with a schema - selections and arguments
+ * the schema doesn't have. Records the scopes autocomplete looks things up in.
+ */
+class DocumentWalker {
+    private tokens: Token[];
+    private index = 0;
+    readonly diagnostics: GraphQLDiagnostic[] = [];
+    readonly scopes: Scope[] = [];
+
+    constructor(private readonly query: string, private readonly schema?: GraphQLSchema) {
+        this.tokens = tokenize(query, this.diagnostics);
+    }
+
+    get allTokens(): Token[] {
+        return this.tokens;
+    }
+
+    walk(): this {
+        while (this.peek()) {
+            const token = this.peek()!;
+            if (token.value === '{') {
+                this.selectionSet(this.schema?.queryType);
+            } else if (token.kind === 'name' && ['query', 'mutation', 'subscription'].includes(token.value)) {
+                this.operation(token.value);
+            } else if (token.kind === 'name' && token.value === 'fragment') {
+                this.fragment();
+            } else {
+                this.unexpected(token);
+                this.index++;
+            }
+        }
+        return this;
+    }
+
+    private peek(): Token | undefined {
+        return this.tokens[this.index];
+    }
+
+    private is(value: string): boolean {
+        const token = this.peek();
+        return !!token && token.kind !== 'string' && token.value === value;
+    }
+
+    private report(message: string, token: Token | undefined): void {
+        const offset = token?.start ?? this.query.length;
+        this.diagnostics.push({ message, offset, length: token ? token.end - token.start : 0 });
+    }
+
+    private unexpected(token: Token): void {
+        this.report(`Unexpected "${token.value}"`, token);
+    }
+
+    private expect(value: string): boolean {
+        if (this.is(value)) {
+            this.index++;
+            return true;
+        }
+        this.report(`Expected "${value}"`, this.peek());
+        return false;
+    }
+
+    private name(): Token | undefined {
+        const token = this.peek();
+        if (token?.kind === 'name') {
+            this.index++;
+            return token;
+        }
+        this.report('Expected a name', token);
+        return undefined;
+    }
+
+    private type(name: string | undefined): GraphQLType | undefined {
+        return name ? this.schema?.types[name] : undefined;
+    }
+
+    private operation(keyword: string): void {
+        this.index++;
+        if (this.peek()?.kind === 'name') {
+            this.index++;
+        }
+        if (this.is('(')) {
+            this.skipBalanced('(', ')');
+        }
+        this.directives();
+        const root = keyword === 'query' ? this.schema?.queryType
+            : keyword === 'mutation' ? this.schema?.mutationType
+                : this.schema?.subscriptionType;
+        if (this.schema && !root) {
+            this.report(`Schema has no ${keyword} type`, this.tokens[this.index - 1]);
+        }
+        if (this.is('{')) {
+            this.selectionSet(root);
+        } else {
+            this.expect('{');
+        }
+    }
+
+    private fragment(): void {
+        this.index++;
+        this.name();
+        if (this.expect('on')) {
+            this.selectionSet(this.typeCondition(), true);
+        }
+    }
+
+    /**
+     * The type after "on"
+     */
+    private typeCondition(): string | undefined {
+        const token = this.name();
+        if (token && this.schema && !this.schema.types[token.value]) {
+            this.report(`Unknown type "${token.value}"`, token);
+        }
+        this.directives();
+        return token && this.schema?.types[token.value] ? token.value : undefined;
+    }
+
+    private selectionSet(typeName: string | undefined, required = false): void {
+        if (!this.is('{')) {
+            if (required) {
+                this.expect('{');
+            }
+            return;
+        }
+        const scope: Scope = { kind: 'selection', start: this.peek()!.end, end: this.query.length, typeName };
+        this.scopes.push(scope);
+        this.index++;
+        while (this.peek() && !this.is('}')) {
+            const token = this.peek()!;
+            if (token.value === '...') {
+                this.index++;
+                if (this.is('on')) {
+                    this.index++;
+                    this.selectionSet(this.typeCondition(), true);
+                } else if (this.is('{') || this.is('@')) {
+                    this.directives();
+                    this.selectionSet(typeName, true);
+                } else {
+                    this.name();
+                    this.directives();
+                }
+            } else if (token.kind === 'name') {
+                this.field(typeName);
+            } else {
+                this.unexpected(token);
+                this.index++;
+            }
+        }
+        if (this.is('}')) {
+            scope.end = this.peek()!.start;
+            this.index++;
+        } else {
+            this.report('Expected "}"', undefined);
+        }
+    }
+
+    private field(parentName: string | undefined): void {
+        let token = this.name()!;
+        if (this.is(':')) {
+            this.index++;
+            token = this.name() ?? token;
+        }
+        const parent = this.type(parentName);
+        let field: GraphQLField | undefined;
+        if (parent && token.value !== '__typename') {
+            field = parent.fields.find(f => f.name === token.value);
+            if (!field) {
+                this.report(`Cannot query field "${token.value}" on type "${parent.name}"`, token);
+            }
+        }
+        if (this.is('(')) {
+            this.arguments(parent, field);
+        }
+        this.directives();
+        const type = this.type(field?.typeName);
+        if (this.is('{')) {
+            if (field && isLeafType(type)) {
+                this.report(`Field "${field.name}" must not have a selection since type "${field.type}" has no subfields`, token);
+            }
+            this.selectionSet(isCompositeType(type) ? type!.name : undefined);
+        } else if (field && isCompositeType(type)) {
+            this.report(`Field "${field.name}" of type "${field.type}" must have a selection of subfields`, token);
+        }
+    }
+
+    private arguments(parent: GraphQLType | undefined, field: GraphQLField | undefined): void {
+        const scope: Scope = { kind: 'arguments', start: this.peek()!.end, end: this.query.length, typeName: parent?.name, field };
+        this.scopes.push(scope);
+        this.index++;
+        while (this.peek() && !this.is(')')) {
+            const token = this.peek()!;
+            if (token.kind !== 'name') {
+                this.unexpected(token);
+                this.index++;
+                continue;
+            }
+            this.index++;
+            if (field && !field.args.some(arg => arg.name === token.value)) {
+                this.report(`Unknown argument "${token.value}" on field "${parent!.name}.${field.name}"`, token);
+            }
+            if (this.expect(':')) {
+                this.value();
+            }
+        }
+        if (this.is(')')) {
+            scope.end = this.peek()!.start;
+            this.index++;
+        } else {
+            this.report('Expected ")"', undefined);
+        }
+    }
+
+    private value(): void {
+        const token = this.peek();
+        if (!token) {
+            this.report('Expected a value', undefined);
+            return;
+        }
+        if (token.value === '$') {
+            this.index++;
+            this.name();
+        } else if (token.kind !== 'punct') {
+            this.index++;
+        } else if (token.value === '[') {
+            this.index++;
+            while (this.peek() && !this.is(']')) {
+                this.value();
+            }
+            this.expect(']');
+        } else if (token.value === '{') {
+            this.index++;
+            while (this.peek() && !this.is('}')) {
+                if (this.name() && this.expect(':')) {
+                    this.value();
+                } else {
+                    this.index++;
+                }
+            }
+            this.expect('}');
+        } else {
+            this.report('Expected a value', token);
+            this.index++;
+        }
+    }
+
+    private directives(): void {
+        while (this.is('@')) {
+            this.index++;
+            this.name();
+            if (this.is('(')) {
+                this.arguments(undefined, undefined);
+            }
+        }
+    }
+
+    private skipBalanced(open: string, close: string): void {
+        let depth = 0;
+        while (this.peek()) {
+            const value = this.peek()!.value;
+            this.index++;
+            if (value === open) {
+                depth++;
+            } else if (value === close && --depth === 0) {
+                return;
+            }
+        }
+        this.report(`Expected "${close}"`, undefined);
+    }
+}
+
+/**
+ * Problems in a query: syntax errors, and with a schema unknown fields and arguments
+ * and selections that don't fit the type of their field
+ */
+export function validateQuery(query: string, schema?: GraphQLSchema): GraphQLDiagnostic[] {
+    return new DocumentWalker(query, schema).walk().diagnostics;
+}
+
+/**
+ * What can be typed at an offset of a query: fields in selections, arguments in argument lists,
+ * enum values as argument values, types after "on" and operation keywords at the top level
+ */
+export function getCompletions(schema: GraphQLSchema, query: string, offset: number): GraphQLCompletions {
+    let from = offset;
+    while (from > 0 && /\w/.test(query[from - 1])) {
+        from--;
+    }
+    const prefix = query.slice(from, offset).toLowerCase();
+    const walker = new DocumentWalker(query, schema).walk();
+    const previous = walker.allTokens.filter(token => token.end <= from).pop();
+    const scope = walker.scopes
+        .filter(s => s.start <= from && from <= s.end)
+        .reduce<Scope | undefined>((inner, s) => !inner || s.start > inner.start ? s : inner, undefined);
+
+    const items: GraphQLCompletionItem[] = [];
+    if (previous?.kind === 'punct' && (previous.value === '$' || previous.value === '@')) {
+        // Variables and directives aren't completed
+    } else if (previous?.kind === 'name' && previous.value === 'on') {
+        for (const type of Object.values(schema.types).filter(t => isCompositeType(t))) {
+            items.push({ label: type.name, detail: type.kind.toLowerCase(), kind: 'type' });
+        }
+    } else if (scope?.kind === 'arguments') {
+        const args = scope.field?.args ?? [];
+        if (previous?.value === ':') {
+            const argName = walker.allTokens.filter(token => token.end <= previous.start).pop()?.value;
+            const values = schema.types[args.find(arg => arg.name === argName)?.typeName ?? '']?.enumValues ?? [];
+            items.push(...values.map(value => ({ label: value, kind: 'value' as const })));
+        } else {
+            items.push(...args.map(arg => ({ label: arg.name, detail: arg.type, kind: 'argument' as const })));
+        }
+    } else if (scope?.kind === 'selection') {
+        const type = scope.typeName ? schema.types[scope.typeName] : undefined;
+        if (type) {
+            items.push(...type.fields.map(field => ({ label: field.name, detail: field.type, kind: 'field' as const })));
+            items.push({ label: '__typename', detail: 'String!', kind: 'field' });
+        }
+    } else if (!scope) {
+        const roots: Record<string, string | undefined> = {
+            query: schema.queryType,
+            mutation: schema.mutationType,
+            subscription: schema.subscriptionType,
+        };
+        const keywords = [...Object.keys(roots).filter(keyword => roots[keyword]), 'fragment'];
+        items.push(...keywords.map(keyword => ({ label: keyword, kind: 'keyword' as const })));
+    }
+    return { from, items: items.filter(item => item.label.toLowerCase().startsWith(prefix)) };
+}
@@ -0,0 +1,168 @@
+import * as zlib from 'zlib';
+import { ProtoMethod, ProtoSchema, ProtoService } from './Protobuf';
+
+/** Largest message accepted from a server - protects the extension host from runaway responses */
+export const MAX_GRPC_MESSAGE_BYTES = 64 * 1024 * 1024;
+
+/**
+ * Status code names, indexed by code (https://grpc.github.io/grpc/core/md_doc_statuscodes.html)
+ */
+export const GRPC_STATUS_NAMES = [
+    'OK', 'CANCELLED', 'UNKNOWN', 'INVALID_ARGUMENT', 'DEADLINE_EXCEEDED', 'NOT_FOUND',
+    'ALREADY_EXISTS', 'PERMISSION_DENIED', 'RESOURCE_EXHAUSTED', 'FAILED_PRECONDITION', 'ABORTED',
+    'OUT_OF_RANGE', 'UNIMPLEMENTED', 'INTERNAL', 'UNAVAILABLE', 'DATA_LOSS', 'UNAUTHENTICATED',
+] as const;
+
+/**
+ * Headers gRPC sets itself - request headers with these names are not sent as metadata
+ */
+const RESERVED_HEADERS = ['content-type', 'content-length', 'te', 'host', 'connection', 'transfer-encoding', 'upgrade', 'user-agent', 'grpc-encoding', 'grpc-accept-encoding'];
+
+/**
+ * The outcome of a unary call. A call that reached the server always has a status, even
+ * when the HTTP exchange failed - the status is then derived from the HTTP status.
+ */
+export interface GrpcResponse {
+    status: number;
+    /** grpc-message, percent-decoded */
+    statusMessage: string;
+    httpStatus: number;
+    headers: Record<string, string>;
+    trailers: Record<string, string>;
+    /** The response message, still encoded - absent when the call failed */
+    message?: Buffer;
+    /** Milliseconds from sending the request to the trailers */
+    time: number;
+}
+
+export function getGrpcStatusName(status: number): string {
+    return GRPC_STATUS_NAMES[status] ?? `CODE_${status}`;
+}
+
+/**
+ * Request path of a method: /package.Service/Method
+ */
+export function getGrpcPath(service: string, method: string): string {
+    return `/${service}/${method}`;
+}
+
+/**
+ * Look up a service and method in a schema
+ * @throws when either doesn't exist or the method streams - only unary calls are supported
+ */
+export function findUnaryMethod(schema: ProtoSchema, service: string, method: string): { service: ProtoService; method: ProtoMethod } {
+    const protoService = schema.services[service];
+    if (!protoService) {
+        throw new Error(`Service "${service}" is not defined in the .proto file`);
+    }
+    const protoMethod = protoService.methods.find(m => m.name === method);
+    if (!protoMethod) {
+        throw new Error(`Method "${method}" is not defined in service ${service}`);
+    }
+    if (protoMethod.clientStreaming || protoMethod.serverStreaming) {
+        throw new Error(`${service}/${method} is a streaming method - only unary methods can be invoked`);
+    }
+    return { service: protoService, method: protoMethod };
+}
+
+/**
+ * Metadata for a call from request headers: names are lowercased and headers gRPC sets itself are dropped
+ */
+export function toGrpcMetadata(headers: Record<string, string>): Record<string, string> {
+    const metadata: Record<string, string> = {};
+    for (const [name, value] of Object.entries(headers)) {
+        const key = name.trim().toLowerCase();
+        if (key && !key.startsWith(':') && !RESERVED_HEADERS.includes(key)) {
+            metadata[key] = value;
+        }
+    }
+    return metadata;
+}
+
+/**
+ * A length-prefixed message: a compression flag, the length as 4 bytes big-endian and the message
+ */
+export function encodeGrpcFrame(message: Buffer): Buffer {
+    const header = Buffer.alloc(5);
+    header.writeUInt32BE(message.length, 1);
+    return Buffer.concat([header, message]);
+}
+
+/**
+ * Splits the response body into messages as its chunks arrive
+ */
+export class GrpcFrameParser {
+    private buffer = Buffer.alloc(0);
+
+    /**
+     * @param encoding - grpc-encoding of the response; compressed messages are inflated with it
+     */
+    constructor(private readonly encoding = 'identity') { }
+
+    /**
+     * Add a chunk and return the messages completed by it
+     * @throws on messages over MAX_GRPC_MESSAGE_BYTES and compression this parser can't undo
+     */
+    push(chunk: Buffer): Buffer[] {
+        this.buffer = Buffer.concat([this.buffer, chunk]);
+        const messages: Buffer[] = [];
+        while (this.buffer.length >= 5) {
+            const compressed = this.buffer[0] === 1;
+            const length = this.buffer.readUInt32BE(1);
+            if (length > MAX_GRPC_MESSAGE_BYTES) {
+                throw new Error(`Message of ${length} bytes is larger than the ${MAX_GRPC_MESSAGE_BYTES} bytes allowed`);
+            }
+            if (this.buffer.length < 5 + length) {
+                break;
+            }
+            const message = this.buffer.subarray(5, 5 + length);
+            this.buffer = this.buffer.subarray(5 + length);
+            messages.push(compressed ? this.decompress(message) : message);
+        }
+        return messages;
+    }
+
+    /** Bytes of an incomplete message left over at the end of the body */
+    get pending(): number {
+        return this.buffer.length;
+    }
+
+    private decompress(message: Buffer): Buffer {
+        switch (this.encoding) {
+            case 'gzip': return zlib.gunzipSync(message);
+            case 'deflate': return zlib.inflateSync(message);
+            default: throw new Error(`Compressed message with unsupported grpc-encoding "${this.encoding}"`);
+        }
+    }
+}
+
+/**
+ * grpc-message values are percent-encoded
+ */
+export function decodeGrpcMessage(value: string | undefined): string {
+    if (!value) {
+        return '';
+    }
+    try {
+        return decodeURIComponent(value);
+    } catch {
+        return value;
+    }
+}
+
+/**
+ * Status of a response without grpc-status, from its HTTP status (gRPC's http-grpc-status-mapping)
+ */
+export function grpcStatusFromHttp(httpStatus: number): number {
+    switch (httpStatus) {
+        case 400: return 13;
+        case 401: return 16;
+        case 403: return 7;
+        case 404: return 12;
+        case 429:
+        case 502:
+        case 503:
+        case 504: return 14;
+        default: return 2;
+    }
+}
@@ -1,56 +1,188 @@
 import * as http from 'http';
+import * as http2 from 'http2';
 import * as https from 'https';
-import * as zlib from 'zlib';
+import * as net from 'net';
+import * as path from 'path';
+import * as stream from 'stream';
+import * as tls from 'tls';
 import { URL } from 'url';
-import { Request, RequestHeader } from '../models/Collection';
+import { HttpProtocol, Request, RequestHeader } from '../models/Collection';
 import { HttpResponse } from './ResponseContentProvider';
-import { getLogger } from '../logger';
-import { getSettings } from '../settings';
+import { DEFAULT_SETTINGS, HostTlsSettings } from '../settings/defaults';
+import { findHostTls, loadTlsOptions, needsPassphrase } from './TlsOptions';
+import { describeProxy, getProxyAuthorization, getProxyForUrl, openProxyTunnel } from './Proxy';
+import { buildDigestAuthorization, DigestChallenge, parseDigestChallenge } from './DigestAuth';
+import { CookieStore } from './CookieJar';
+import { createMultipartBody, getBoundary, parseMultipartFields } from './Multipart';
+import { createFileBody, isBinaryResponse } from './BinaryContent';
+import { ACCEPT_ENCODING, createDecodingStreams, decodeContent, parseContentEncoding } from './ContentEncoding';
+import { computeTimings, createTimingMarks, markTiming, recordSocketTimings, TimingMarks } from './Timings';
+import { createWebSocketKey, getAcceptKey, WebSocketConnection, WebSocketHandlers } from './WebSocket';
+import { toGraphQLRequest } from './GraphQL';
+import { decodeGrpcMessage, encodeGrpcFrame, GrpcFrameParser, GrpcResponse, grpcStatusFromHttp, toGrpcMetadata } from './Grpc';
+
+/** Body kept for a streamed response - a stream may run for hours, beyond this only its decoded beginning is kept */
+export const MAX_STREAMED_BODY_BYTES = 16 * 1024 * 1024;
 
 export interface HttpClientOptions {
     timeout?: number;
     followRedirects?: boolean;
     maxRedirects?: number;
     rejectUnauthorized?: boolean;
+    /** Client certificates, extra CAs and rejectUnauthorized overrides per host */
+    hostTls?: HostTlsSettings[];
+    /** Looks up the passphrase for a hostTls entry's private key (SecretStorage in the extension) */
+    tlsPassphrase?: (host: string) => PromiseLike<string | undefined>;
+    /** Proxy URL - when empty the HTTPS_PROXY/HTTP_PROXY environment variables are used */
+    proxy?: string;
+    /** Hosts reached without the proxy, in addition to NO_PROXY */
+    noProxy?: string[];
+    /** Proxy-Authorization header for proxies whose URL has no credentials */
+    proxyAuthorization?: string;
+    /** Sends stored cookies and keeps the responses' Set-Cookie (skipped for requests with disableCookieJar) */
+    cookieJar?: CookieStore;
+    /** Turns the file path of a multipart file field or binary body into an absolute path (default: relative to the working directory) */
+    resolveFilePath?: (file: string) => string;
+}
+
+/**
+ * Options with their defaults filled in - only the cookie jar stays optional
+ */
+type ResolvedHttpClientOptions = Required<Omit<HttpClientOptions, 'cookieJar'>> & Pick<HttpClientOptions, 'cookieJar'>;
+
+/**
+ * Minimal logging surface used by HttpClient, so it can run without the VS Code host
+ * (the extension passes its output channel logger, the CLI a console logger)
+ */
+export interface HttpClientLogger {
+    trace(message: string, data?: unknown): void;
+    debug(message: string, data?: unknown): void;
+    info(message: string, data?: unknown): void;
+    warn(message: string, data?: unknown): void;
+    error(message: string, data?: unknown): void;
+}
+
+/**
+ * Thrown when a request is aborted through its AbortSignal
+ */
+export class RequestCancelledError extends Error {
+    constructor() {
+        super('Request was cancelled');
+        this.name = 'RequestCancelledError';
+    }
+}
+
+/**
+ * Receives the body of a final response while it arrives - for event streams and other long-running responses.
+ * Redirects and Digest challenges are followed as usual and never reach the handler.
+ */
+export interface ResponseStreamHandler {
+    /** Called when the headers of the final response arrive */
+    onStart?(status: number, statusText: string, headers: Record<string, string>): void;
+    /** Called for every chunk of the body, already decompressed */
+    onData(chunk: Buffer): void;
+    /** Aborting ends the response early - the request resolves with what was received and `stopped` set */
+    stopSignal?: AbortSignal;
 }
 
 /**
- * Get default options from VS Code settings
+ * The status, headers and body of an HTTP/1.1 response or an HTTP/2 stream
  */
-function getDefaultOptions(): Required<HttpClientOptions> {
-    const settings = getSettings();
-    return {
-        timeout: settings.timeout,
-        followRedirects: settings.followRedirects,
-        maxRedirects: settings.maxRedirects,
-        rejectUnauthorized: settings.rejectUnauthorized,
-    };
+interface ResponseSource {
+    statusCode: number;
+    statusMessage: string;
+    headers: http.IncomingHttpHeaders;
+    /** e.g. "HTTP/1.1" or "HTTP/2" */
+    httpVersion: string;
+    /** HTTP/2 only: the request's pseudo-headers and :status */
+    pseudoHeaders?: Record<string, string>;
+    body: stream.Readable;
 }
 
 /**
- * HTTP Client using Node.js native http/https modules
+ * Connection-specific headers HTTP/2 forbids (RFC 9113 section 8.2.2) - Host is sent as :authority
+ */
+const HTTP1_ONLY_HEADERS = ['connection', 'keep-alive', 'proxy-connection', 'transfer-encoding', 'upgrade', 'host'];
+
+const silentLogger: HttpClientLogger = {
+    trace: () => { },
+    debug: () => { },
+    info: () => { },
+    warn: () => { },
+    error: () => { },
+};
+
+/**
+ * HTTP Client using Node.js native http/https/http2 modules.
+ * Has no dependency on the vscode module - use createHttpClient() in the
+ * extension to get a client configured from the user's settings.
  */
 export class HttpClient {
-    private options: Required<HttpClientOptions>;
+    private options: ResolvedHttpClientOptions;
+    private logger: HttpClientLogger;
+    /** Last Digest challenge per origin, reused for later requests with an incrementing nonce count */
+    private digestSessions = new Map<string, { challenge: DigestChallenge; nc: number }>();
+    /** HTTP/2 sessions per origin, reused by later requests and gRPC calls until the server or closeSessions() ends them */
+    private http2Sessions = new Map<string, http2.ClientHttp2Session>();
+    /** Sessions being connected - requests to the origin made meanwhile wait for the same session */
+    private http2Connecting = new Map<string, Promise<http2.ClientHttp2Session>>();
+    /** Streams open on each session - sessions only keep the process alive while they have some */
+    private http2Streams = new WeakMap<http2.ClientHttp2Session, number>();
+    /** Origins that chose HTTP/1.1 in ALPN - later auto requests go there without negotiating again */
+    private http1Origins = new Set<string>();
 
-    constructor(options: HttpClientOptions = {}) {
-        this.options = { ...getDefaultOptions(), ...options };
+    constructor(options: HttpClientOptions = {}, logger: HttpClientLogger = silentLogger) {
+        this.options = {
+            timeout: DEFAULT_SETTINGS.timeout,
+            followRedirects: DEFAULT_SETTINGS.followRedirects,
+            maxRedirects: DEFAULT_SETTINGS.maxRedirects,
+            rejectUnauthorized: DEFAULT_SETTINGS.rejectUnauthorized,
+            hostTls: DEFAULT_SETTINGS['tls.hosts'],
+            tlsPassphrase: async () => undefined,
+            proxy: DEFAULT_SETTINGS.proxy,
+            noProxy: DEFAULT_SETTINGS.noProxy,
+            proxyAuthorization: '',
+            resolveFilePath: file => path.resolve(file),
+            ...options,
+        };
+        this.logger = logger;
     }
 
     /**
-     * Execute an HTTP request and return the response
+     * Execute an HTTP request and return the response.
+     * Requests with digest auth answer the server's 401 challenge and are re-sent once.
+     * request.protocol selects HTTP/2 or ALPN negotiation; HTTP/1.1 when absent.
+     * @param signal - aborting destroys the socket (also while following redirects) and rejects with RequestCancelledError
+     * @param streamHandler - receives the body as it arrives; the response is still resolved once complete
      */
-    async executeRequest(request: Request, additionalHeaders?: Record<string, string>): Promise<HttpResponse> {
-        return this.executeWithRedirects(request, additionalHeaders, 0);
+    async executeRequest(
+        request: Request,
+        additionalHeaders?: Record<string, string>,
+        signal?: AbortSignal,
+        streamHandler?: ResponseStreamHandler
+    ): Promise<HttpResponse> {
+        // GraphQL queries go out as a JSON POST of the query and its variables
+        if (request.body?.type === 'graphql') {
+            request = toGraphQLRequest(request);
+        }
+        return this.executeWithRedirects(request, additionalHeaders, signal, streamHandler, 0);
     }
 
     private async executeWithRedirects(
         request: Request,
-        additionalHeaders?: Record<string, string>,
-        redirectCount: number = 0
+        additionalHeaders: Record<string, string> | undefined,
+        signal: AbortSignal | undefined,
+        streamHandler: ResponseStreamHandler | undefined,
+        redirectCount: number = 0,
+        digestRetried: boolean = false
     ): Promise<HttpResponse> {
-        const logger = getLogger();
+        const logger = this.logger;
         const startTime = Date.now();
+        const marks = createTimingMarks();
+
+        if (signal?.aborted) {
+            throw new RequestCancelledError();
+        }
 
         // Parse URL
         let url: URL;
@@ -81,12 +213,38 @@ export class HttpClient {
 
         // Add Accept-Encoding for compression support if not set
         if (!headers['Accept-Encoding'] && !headers['accept-encoding']) {
-            headers['Accept-Encoding'] = 'gzip, deflate';
+            headers['Accept-Encoding'] = ACCEPT_ENCODING;
         }
 
-        // Build request body
+        // Build request body - multipart and binary bodies are streamed, so files are never held in memory
         let body: string | undefined;
-        if (request.body && request.body.type !== 'none' && request.body.content) {
+        let upload: { createStream(): stream.Readable } | undefined;
+        if (request.body?.type === 'multipart' && request.body.content) {
+            const contentTypeName = Object.keys(headers).find(name => name.toLowerCase() === 'content-type');
+            const multipart = await createMultipartBody(
+                parseMultipartFields(request.body.content),
+                this.options.resolveFilePath,
+                getBoundary(contentTypeName && headers[contentTypeName])
+            );
+            // A multipart Content-Type set without a boundary would be unreadable for the server
+            if (contentTypeName) {
+                delete headers[contentTypeName];
+            }
+            headers['Content-Type'] = multipart.contentType;
+            if (!headers['Content-Length'] && !headers['content-length']) {
+                headers['Content-Length'] = multipart.length.toString();
+            }
+            upload = multipart;
+        } else if (request.body?.type === 'binary' && request.body.content.trim()) {
+            const fileBody = await createFileBody(request.body.content, this.options.resolveFilePath);
+            if (!headers['Content-Type'] && !headers['content-type']) {
+                headers['Content-Type'] = fileBody.contentType;
+            }
+            if (!headers['Content-Length'] && !headers['content-length']) {
+                headers['Content-Length'] = fileBody.size.toString();
+            }
+            upload = fileBody;
+        } else if (request.body && request.body.type !== 'none' && request.body.content) {
             body = request.body.content;
 
             // Set Content-Type if not already set
@@ -113,41 +271,134 @@ export class HttpClient {
             }
         }
 
-        // Build request options
-        const isHttps = url.protocol === 'https:';
-        const requestOptions: http.RequestOptions | https.RequestOptions = {
-            hostname: url.hostname,
-            port: url.port || (isHttps ? 443 : 80),
-            path: url.pathname + url.search,
-            method: request.method,
-            headers: headers,
-            timeout: this.options.timeout,
-        };
+        // Cookies from the jar go after a Cookie header set on the request
+        const cookieJar = request.disableCookieJar ? undefined : this.options.cookieJar;
+        if (cookieJar) {
+            const cookieHeader = await cookieJar.getCookieHeader(url);
+            if (cookieHeader) {
+                const existing = Object.keys(headers).find(name => name.toLowerCase() === 'cookie');
+                headers[existing || 'Cookie'] = existing ? `${headers[existing]}; ${cookieHeader}` : cookieHeader;
+            }
+        }
 
-        // HTTPS specific options
-        if (isHttps) {
-            (requestOptions as https.RequestOptions).rejectUnauthorized = this.options.rejectUnauthorized;
+        // Answer the last Digest challenge from this origin without waiting for a new 401
+        const digestSession = request.auth?.type === 'digest' ? this.digestSessions.get(url.origin) : undefined;
+        if (digestSession) {
+            digestSession.nc++;
+            for (const name of Object.keys(headers).filter(name => name.toLowerCase() === 'authorization')) {
+                delete headers[name];
+            }
+            headers['Authorization'] = buildDigestAuthorization(digestSession.challenge, {
+                username: request.auth!.username || '',
+                password: request.auth!.password || '',
+                method: request.method,
+                uri: url.pathname + url.search,
+                nc: digestSession.nc,
+                body,
+            });
+        }
+
+        // An HTTP/2 session, or a connection that negotiated HTTP/1.1 for the request to use
+        const { session, socket } = await this.selectHttp2Session(url, request.protocol, signal, marks);
+        const connection = session ? undefined : await this.prepareConnection(url, request.method, headers, signal, marks, socket);
+        const proxy = connection ? connection.proxy : getProxyForUrl(url, this.options.proxy, this.options.noProxy);
+
+        // The passphrase lookup or proxy tunnel may have taken a while
+        if (signal?.aborted) {
+            socket?.destroy();
+            throw new RequestCancelledError();
         }
 
-        return new Promise((resolve, reject) => {
-            const client = isHttps ? https : http;
+        let onAbort: (() => void) | undefined;
+        let onStop: (() => void) | undefined;
+        return new Promise<HttpResponse>((resolve, reject) => {
 
-            const req = client.request(requestOptions, (res) => {
+            const handleResponse = (res: ResponseSource) => {
                 const chunks: Buffer[] = [];
+                const isRedirect = this.options.followRedirects &&
+                    !!res.statusCode &&
+                    [301, 302, 303, 307, 308].includes(res.statusCode) &&
+                    !!res.headers.location;
+                // Answer a Digest challenge and re-send once - a second 401 means the credentials are wrong
+                const digestChallenge = res.statusCode === 401 && request.auth?.type === 'digest' && !digestRetried
+                    ? parseDigestChallenge(res.headers['www-authenticate'])
+                    : undefined;
+
+                // Only the final response is streamed - redirects and challenges are answered first
+                let streamed: { write(chunk: Buffer): void; end(): Promise<void> } | undefined;
+                let stopped = false;
+                let receivedSize = 0;
+                let truncated = false;
+                const decodedHead: Buffer[] = [];
+                let decodedSize = 0;
+                // Past the limit - received or decoded - the received bytes are let go and the decoded beginning is kept
+                const truncate = () => {
+                    if (!truncated) {
+                        logger.warn('Response stream is too large to keep - only its beginning is kept', { maxBytes: MAX_STREAMED_BODY_BYTES });
+                        truncated = true;
+                        chunks.length = 0;
+                    }
+                };
+                if (streamHandler && !isRedirect && !digestChallenge) {
+                    streamHandler.onStart?.(res.statusCode, res.statusMessage, this.getResponseHeaders(res));
+                    streamed = this.createStreamSink(res.headers['content-encoding'], {
+                        ...streamHandler,
+                        onData: chunk => {
+                            if (decodedSize < MAX_STREAMED_BODY_BYTES) {
+                                decodedHead.push(chunk.subarray(0, MAX_STREAMED_BODY_BYTES - decodedSize));
+                            }
+                            decodedSize += chunk.length;
+                            if (decodedSize > MAX_STREAMED_BODY_BYTES) {
+                                truncate();
+                            }
+                            streamHandler.onData(chunk);
+                        },
+                    });
+                    onStop = () => {
+                        logger.info('Response stream stopped', { url: request.url });
+                        stopped = true;
+                        res.body.destroy();
+                        void finish();
+                    };
+                    streamHandler.stopSignal?.addEventListener('abort', onStop, { once: true });
+                    // The timeout covers waiting for the response - streams may stay quiet for longer between events
+                    req.setTimeout(0);
+                }
 
-                res.on('data', (chunk: Buffer) => {
-                    chunks.push(chunk);
+                res.body.on('data', (chunk: Buffer) => {
+                    receivedSize += chunk.length;
+                    streamed?.write(chunk);
+                    if (streamed && receivedSize > MAX_STREAMED_BODY_BYTES) {
+                        truncate();
+                    }
+                    if (!truncated) {
+                        chunks.push(chunk);
+                    }
                 });
 
-                res.on('end', async () => {
+                let finished = false;
+                const finish = async () => {
+                    if (finished) {
+                        return;
+                    }
+                    finished = true;
+                    await streamed?.end();
+                    markTiming(marks, 'end');
                     const endTime = Date.now();
                     const responseTime = endTime - startTime;
 
+                    // Keep cookies before following redirects - logins often set the session cookie on a 302
+                    const setCookie = res.headers['set-cookie'];
+                    if (cookieJar && setCookie) {
+                        try {
+                            await cookieJar.setCookies(url, setCookie);
+                        } catch (error) {
+                            logger.warn('Could not store response cookies', { error: error instanceof Error ? error.message : String(error) });
+                        }
+                    }
+
                     // Handle redirects
-                    if (this.options.followRedirects &&
-                        res.statusCode &&
-                        [301, 302, 303, 307, 308].includes(res.statusCode) &&
-                        res.headers.location) {
+                    if (isRedirect && res.headers.location) {
 
                         if (redirectCount >= this.options.maxRedirects) {
                             logger.error('Maximum redirects exceeded', { maxRedirects: this.options.maxRedirects });
@@ -178,6 +429,10 @@ export class HttpClient {
                         // Strip sensitive headers on cross-origin redirects
                         let redirectHeaders = additionalHeaders;
                         const isCrossOrigin = url.origin !== redirectUrl.origin;
+                        if (isCrossOrigin) {
+                            // Digest credentials only go to the origin they were configured for
+                            redirectRequest.auth = undefined;
+                        }
                         if (isCrossOrigin && additionalHeaders) {
                             const sensitiveHeaders = ['authorization', 'proxy-authorization', 'cookie'];
                             redirectHeaders = Object.fromEntries(
@@ -199,6 +454,8 @@ export class HttpClient {
                             const redirectResponse = await this.executeWithRedirects(
                                 redirectRequest,
                                 redirectHeaders,
+                                signal,
+                                streamHandler,
                                 redirectCount + 1
                             );
                             resolve(redirectResponse);
@@ -208,57 +465,88 @@ export class HttpClient {
                         return;
                     }
 
+                    if (digestChallenge) {
+                        logger.debug('Answering Digest challenge', { realm: digestChallenge.realm, algorithm: digestChallenge.algorithm });
+                        this.digestSessions.set(url.origin, { challenge: digestChallenge, nc: 0 });
+                        try {
+                            resolve(await this.executeWithRedirects(request, additionalHeaders, signal, streamHandler, redirectCount, true));
+                        } catch (error) {
+                            reject(error);
+                        }
+                        return;
+                    }
+
                     // Combine chunks
                     const rawBuffer = Buffer.concat(chunks);
-                    const rawSize = rawBuffer.length;
+                    const rawSize = receivedSize;
 
                     // Decompress if needed
                     let bodyBuffer: Buffer;
                     const contentEncoding = res.headers['content-encoding'];
+                    let encoding: string | undefined;
 
-                    try {
-                        if (contentEncoding === 'gzip') {
-                            bodyBuffer = await this.decompressGzip(rawBuffer);
-                        } else if (contentEncoding === 'deflate') {
-                            bodyBuffer = await this.decompressDeflate(rawBuffer);
-                        } else {
+                    if (truncated) {
+                        // The received bytes were let go - the stream sink decoded them as they arrived
+                        bodyBuffer = Buffer.concat(decodedHead);
+                        encoding = parseContentEncoding(contentEncoding).join(', ') || undefined;
+                    } else {
+                        try {
+                            bodyBuffer = await decodeContent(rawBuffer, contentEncoding);
+                            encoding = parseContentEncoding(contentEncoding).join(', ') || undefined;
+                        } catch (decompressError) {
+                            // If decompression fails, use raw buffer
+                            logger.warn('Could not decode response body', {
+                                contentEncoding,
+                                error: decompressError instanceof Error ? decompressError.message : String(decompressError),
+                            });
                             bodyBuffer = rawBuffer;
                         }
-                    } catch (decompressError) {
-                        // If decompression fails, use raw buffer
-                        bodyBuffer = rawBuffer;
                     }
 
-                    // Decode body as string
-                    const charset = this.getCharset(res.headers['content-type']) || 'utf-8';
-                    let bodyString: string;
-                    try {
-                        bodyString = bodyBuffer.toString(charset as BufferEncoding);
-                    } catch {
-                        bodyString = bodyBuffer.toString('utf-8');
+                    // Cancelled while decompressing - the promise is already rejected
+                    if (signal?.aborted) {
+                        return;
                     }
 
-                    // Build response headers
-                    const responseHeaders: Record<string, string> = {};
-                    for (const [key, value] of Object.entries(res.headers)) {
-                        if (value !== undefined) {
-                            responseHeaders[key] = Array.isArray(value) ? value.join(', ') : value;
+                    // Decode body as string - binary bodies are only kept as bytes, decoding would corrupt them
+                    const binary = isBinaryResponse(res.headers['content-type'], bodyBuffer);
+                    const charset = this.getCharset(res.headers['content-type']) || 'utf-8';
+                    let bodyString = '';
+                    if (!binary) {
+                        try {
+                            bodyString = bodyBuffer.toString(charset as BufferEncoding);
+                        } catch {
+                            bodyString = bodyBuffer.toString('utf-8');
                         }
                     }
 
                     const response: HttpResponse = {
-                        status: res.statusCode || 0,
-                        statusText: res.statusMessage || '',
-                        headers: responseHeaders,
+                        status: res.statusCode,
+                        statusText: res.statusMessage,
+                        headers: this.getResponseHeaders(res),
                         body: bodyString,
+                        rawBody: bodyBuffer,
+                        binary,
                         time: responseTime,
                         size: rawSize,
+                        decodedSize: bodyBuffer.length,
+                        encoding,
+                        encodedBody: encoding && !truncated ? rawBuffer : undefined,
+                        proxy: proxy ? describeProxy(proxy) : undefined,
+                        timings: computeTimings(marks),
+                        ...(stopped ? { stopped } : {}),
+                        ...(truncated ? { truncated } : {}),
+                        httpVersion: res.httpVersion,
+                        pseudoHeaders: res.pseudoHeaders,
                     };
 
                     logger.info('HTTP request completed', {
                         status: response.status,
+                        protocol: res.httpVersion,
                         time: responseTime + 'ms',
-                        size: rawSize + ' bytes'
+                        size: rawSize + ' bytes',
+                        ...(stopped ? { stopped } : {}),
+                        ...(encoding ? { encoding, decodedSize: bodyBuffer.length + ' bytes' } : {})
                     });
                     // Mask sensitive values in trace output
                     const maskedBody = bodyString
@@ -269,32 +557,258 @@ export class HttpClient {
                     });
 
                     resolve(response);
-                });
+                };
+
+                res.body.on('end', finish);
 
-                res.on('error', (error) => {
+                res.body.on('error', (error) => {
+                    // Destroying a stopped response isn't an error
+                    if (stopped) {
+                        return;
+                    }
                     logger.error('Response error', { error: error.message });
                     reject(new Error(`Response error: ${error.message}`));
                 });
-            });
+            };
 
-            req.on('error', (error) => {
-                logger.error('Request error', { error: error.message });
-                reject(new Error(`Request error: ${error.message}`));
-            });
+            let req: http.ClientRequest | http2.ClientHttp2Stream;
+            if (session) {
+                const requestHeaders = this.toHttp2Headers(url, request.method, headers);
+                const pseudoHeaders = Object.fromEntries(
+                    Object.entries(requestHeaders).filter(([name]) => name.startsWith(':')).map(([name, value]) => [name, String(value)])
+                );
+                const h2Stream = this.openHttp2Stream(session, requestHeaders);
+                let responded = false;
+                h2Stream.once('response', received => {
+                    responded = true;
+                    markTiming(marks, 'response');
+                    const status = Number(received[':status']);
+                    handleResponse({
+                        statusCode: status,
+                        // HTTP/2 has no reason phrase
+                        statusMessage: http.STATUS_CODES[status] || '',
+                        headers: Object.fromEntries(Object.entries(received).filter(([name]) => !name.startsWith(':'))),
+                        httpVersion: 'HTTP/2',
+                        pseudoHeaders: { ...pseudoHeaders, ':status': String(status) },
+                        body: h2Stream,
+                    });
+                });
+                h2Stream.on('error', (error) => {
+                    logger.error('Request error', { error: error.message });
+                    reject(new Error(`Request error: ${error.message}`));
+                });
+                h2Stream.on('close', () => {
+                    if (!responded) {
+                        reject(new Error(`Stream closed with HTTP/2 error code ${h2Stream.rstCode}`));
+                    }
+                });
+                if (this.options.timeout > 0) {
+                    h2Stream.setTimeout(this.options.timeout, () => {
+                        logger.error('Request timeout', { timeout: this.options.timeout });
+                        h2Stream.close(http2.constants.NGHTTP2_CANCEL);
+                        reject(new Error(`Request timed out after ${this.options.timeout}ms`));
+                    });
+                }
+                req = h2Stream;
+            } else {
+                const httpReq = connection!.client.request(connection!.requestOptions, res => handleResponse({
+                    statusCode: res.statusCode || 0,
+                    statusMessage: res.statusMessage || '',
+                    headers: res.headers,
+                    httpVersion: `HTTP/${res.httpVersion}`,
+                    body: res,
+                }));
 
-            req.on('timeout', () => {
-                logger.error('Request timeout', { timeout: this.options.timeout });
+                recordSocketTimings(httpReq, marks);
+
+                httpReq.on('error', (error) => {
+                    logger.error('Request error', { error: error.message });
+                    reject(new Error(`Request error: ${error.message}`));
+                });
+
+                httpReq.on('timeout', () => {
+                    logger.error('Request timeout', { timeout: this.options.timeout });
+                    httpReq.destroy();
+                    reject(new Error(`Request timed out after ${this.options.timeout}ms`));
+                });
+                req = httpReq;
+            }
+
+            onAbort = () => {
+                logger.info('Request cancelled', { url: request.url });
+                reject(new RequestCancelledError());
                 req.destroy();
-                reject(new Error(`Request timed out after ${this.options.timeout}ms`));
-            });
+            };
+            signal?.addEventListener('abort', onAbort, { once: true });
 
             // Send body if present
+            if (upload) {
+                stream.pipeline(upload.createStream(), req, error => {
+                    if (error && !signal?.aborted) {
+                        logger.error('Could not send request body', { error: error.message });
+                        reject(new Error(`Request error: ${error.message}`));
+                    }
+                });
+                return;
+            }
             if (body) {
                 req.write(body);
             }
 
             req.end();
+        }).finally(() => {
+            signal?.removeEventListener('abort', onAbort!);
+            if (onStop) {
+                streamHandler?.stopSignal?.removeEventListener('abort', onStop);
+            }
+        });
+    }
+
+    /**
+     * Request options for a URL: TLS settings for its host and the proxy to go through.
+     * https targets behind a proxy get a CONNECT tunnel, http targets are sent to the proxy in absolute form.
+     * @param url - an http: or https: URL
+     * @param socket - a TLS connection that already negotiated HTTP/1.1 - it's used instead of connecting
+     */
+    private async prepareConnection(
+        url: URL,
+        method: string,
+        headers: Record<string, string>,
+        signal: AbortSignal | undefined,
+        marks: TimingMarks,
+        socket?: tls.TLSSocket
+    ): Promise<{ client: typeof http | typeof https; requestOptions: http.RequestOptions | https.RequestOptions; proxy: URL | undefined }> {
+        const logger = this.logger;
+        const isHttps = url.protocol === 'https:';
+        const requestOptions: http.RequestOptions | https.RequestOptions = {
+            hostname: url.hostname,
+            port: url.port || (isHttps ? 443 : 80),
+            path: url.pathname + url.search,
+            method,
+            headers: headers,
+            timeout: this.options.timeout,
+        };
+
+        // HTTPS specific options - per-host settings override the global rejectUnauthorized
+        if (isHttps) {
+            (requestOptions as https.RequestOptions).rejectUnauthorized = this.options.rejectUnauthorized;
+            const hostTls = findHostTls(this.options.hostTls, url);
+            if (hostTls) {
+                logger.debug('Using TLS settings for host', { host: hostTls.host });
+                const passphrase = needsPassphrase(hostTls) ? await this.options.tlsPassphrase(hostTls.host) : undefined;
+                Object.assign(requestOptions, loadTlsOptions(hostTls, passphrase));
+            }
+        }
+
+        // Proxy: https targets are tunneled with CONNECT, http targets are sent to the proxy in absolute form
+        let client: typeof http | typeof https = isHttps ? https : http;
+        const proxy = getProxyForUrl(url, this.options.proxy, this.options.noProxy);
+        if (socket) {
+            requestOptions.createConnection = () => socket;
+        } else if (proxy) {
+            logger.debug('Using proxy', { proxy: describeProxy(proxy) });
+            if (isHttps) {
+                const socket = await openProxyTunnel(proxy, url, {
+                    timeout: this.options.timeout,
+                    proxyAuthorization: this.options.proxyAuthorization,
+                    rejectUnauthorized: this.options.rejectUnauthorized,
+                    signal,
+                }).catch(error => {
+                    throw signal?.aborted ? new RequestCancelledError() : error;
+                });
+                // Reaching the target through the proxy counts as connecting
+                markTiming(marks, 'connect');
+                const tlsOptions = requestOptions as https.RequestOptions;
+                requestOptions.createConnection = () => tls.connect({
+                    socket,
+                    servername: net.isIP(url.hostname) ? undefined : url.hostname,
+                    rejectUnauthorized: tlsOptions.rejectUnauthorized,
+                    cert: tlsOptions.cert,
+                    key: tlsOptions.key,
+                    pfx: tlsOptions.pfx,
+                    passphrase: tlsOptions.passphrase,
+                    ca: tlsOptions.ca,
+                });
+            } else {
+                const proxyAuthorization = getProxyAuthorization(proxy, this.options.proxyAuthorization);
+                requestOptions.hostname = proxy.hostname;
+                requestOptions.port = proxy.port || (proxy.protocol === 'https:' ? 443 : 80);
+                requestOptions.path = url.toString();
+                requestOptions.headers = {
+                    ...headers,
+                    Host: url.host,
+                    ...(proxyAuthorization ? { 'Proxy-Authorization': proxyAuthorization } : {}),
+                };
+                client = proxy.protocol === 'https:' ? https : http;
+            }
+        }
+
+        return { client, requestOptions, proxy };
+    }
+
+    /**
+     * Response headers with repeated headers joined by commas
+     */
+    private getResponseHeaders(res: Pick<ResponseSource, 'headers'>): Record<string, string> {
+        const headers: Record<string, string> = {};
+        for (const [key, value] of Object.entries(res.headers)) {
+            if (value !== undefined) {
+                headers[key] = Array.isArray(value) ? value.join(', ') : value;
+            }
+        }
+        return headers;
+    }
+
+    /**
+     * Passes body chunks to a stream handler, decompressing them on the way.
+     * A body that can't be decoded as it arrives stops being streamed - the
+     * complete response still shows what was received.
+     */
+    private createStreamSink(contentEncoding: string | undefined, handler: ResponseStreamHandler): { write(chunk: Buffer): void; end(): Promise<void> } {
+        const emit = (chunk: Buffer) => {
+            try {
+                handler.onData(chunk);
+            } catch (error) {
+                this.logger.warn('Response stream handler failed', { error: error instanceof Error ? error.message : String(error) });
+            }
+        };
+        const decoders = createDecodingStreams(contentEncoding);
+        if (!decoders) {
+            this.logger.warn('Response stream not shown while it arrives', { contentEncoding });
+            return { write: () => { }, end: async () => { } };
+        }
+        if (decoders.length === 0) {
+            return { write: emit, end: async () => { } };
+        }
+        for (let i = 0; i < decoders.length - 1; i++) {
+            decoders[i].pipe(decoders[i + 1]);
+        }
+        const last = decoders[decoders.length - 1];
+        last.on('data', emit);
+        let failed = false;
+        const done = new Promise<void>(resolve => {
+            last.on('end', resolve);
+            for (const decoder of decoders) {
+                decoder.on('error', error => {
+                    if (!failed) {
+                        this.logger.warn('Could not decode response stream', { contentEncoding, error: error.message });
+                    }
+                    failed = true;
+                    resolve();
+                });
+            }
         });
+        return {
+            write: chunk => {
+                if (!failed) {
+                    decoders[0].write(chunk);
+                }
+            },
+            end: () => {
+                decoders[0].end();
+                return done;
+            },
+        };
     }
 
     /**
@@ -324,37 +838,491 @@ export class HttpClient {
         return this.executeRequest(request);
     }
 
-    private decompressGzip(buffer: Buffer): Promise<Buffer> {
-        return new Promise((resolve, reject) => {
-            zlib.gunzip(buffer, (err, result) => {
-                if (err) {
-                    reject(err);
-                } else {
-                    resolve(result);
+    /**
+     * Open a WebSocket connection to the request's ws:// or wss:// URL, sending its enabled headers
+     * with the handshake. TLS, proxy and cookie jar settings apply as for HTTP requests.
+     * @param signal - aborting cancels the handshake; close the returned connection to end it later
+     * @throws when the server doesn't accept the upgrade
+     */
+    async connectWebSocket(request: Request, handlers: WebSocketHandlers, signal?: AbortSignal): Promise<WebSocketConnection> {
+        const logger = this.logger;
+        let url: URL;
+        try {
+            url = new URL(request.url);
+        } catch {
+            throw new Error(`Invalid URL: ${request.url}`);
+        }
+        if (url.protocol !== 'ws:' && url.protocol !== 'wss:') {
+            throw new Error(`WebSocket URLs start with ws:// or wss:// - got ${request.url}`);
+        }
+        // The handshake is an HTTP request, so the connection is set up like one
+        const httpUrl = new URL(url.toString());
+        httpUrl.protocol = url.protocol === 'wss:' ? 'https:' : 'http:';
+
+        const headers: Record<string, string> = {};
+        for (const header of request.headers) {
+            if (header.enabled) {
+                headers[header.name] = header.value;
+            }
+        }
+        const cookieJar = request.disableCookieJar ? undefined : this.options.cookieJar;
+        if (cookieJar) {
+            const cookieHeader = await cookieJar.getCookieHeader(httpUrl);
+            if (cookieHeader) {
+                const existing = Object.keys(headers).find(name => name.toLowerCase() === 'cookie');
+                headers[existing || 'Cookie'] = existing ? `${headers[existing]}; ${cookieHeader}` : cookieHeader;
+            }
+        }
+        const key = createWebSocketKey();
+        Object.assign(headers, {
+            'Connection': 'Upgrade',
+            'Upgrade': 'websocket',
+            'Sec-WebSocket-Version': '13',
+            'Sec-WebSocket-Key': key,
+        });
+
+        if (signal?.aborted) {
+            throw new RequestCancelledError();
+        }
+        logger.info('Opening WebSocket', { url: request.url });
+        const { client, requestOptions } = await this.prepareConnection(httpUrl, 'GET', headers, signal, createTimingMarks());
+        if (signal?.aborted) {
+            throw new RequestCancelledError();
+        }
+
+        let onAbort: (() => void) | undefined;
+        return new Promise<WebSocketConnection>((resolve, reject) => {
+            const req = client.request(requestOptions);
+
+            req.on('upgrade', (res, socket, head) => {
+                if (res.headers['sec-websocket-accept'] !== getAcceptKey(key)) {
+                    socket.destroy();
+                    reject(new Error('WebSocket handshake failed: the server sent a wrong Sec-WebSocket-Accept'));
+                    return;
+                }
+                const protocol = res.headers['sec-websocket-protocol'];
+                logger.info('WebSocket connected', { url: request.url, ...(protocol ? { protocol } : {}) });
+                resolve(new WebSocketConnection(socket, head, handlers, protocol));
+
+                const setCookie = res.headers['set-cookie'];
+                if (cookieJar && setCookie) {
+                    Promise.resolve().then(() => cookieJar.setCookies(httpUrl, setCookie)).catch((error: unknown) => {
+                        logger.warn('Could not store response cookies', { error: error instanceof Error ? error.message : String(error) });
+                    });
                 }
             });
-        });
+
+            // Anything but 101 Switching Protocols means the server refused
+            req.on('response', res => {
+                res.resume();
+                logger.error('WebSocket handshake failed', { status: res.statusCode });
+                reject(new Error(`WebSocket handshake failed: ${res.statusCode} ${res.statusMessage || ''}`.trim()));
+            });
+
+            req.on('error', (error) => {
+                logger.error('Request error', { error: error.message });
+                reject(new Error(`Request error: ${error.message}`));
+            });
+
+            req.on('timeout', () => {
+                logger.error('Request timeout', { timeout: this.options.timeout });
+                req.destroy();
+                reject(new Error(`Request timed out after ${this.options.timeout}ms`));
+            });
+
+            onAbort = () => {
+                logger.info('WebSocket handshake cancelled', { url: request.url });
+                reject(new RequestCancelledError());
+                req.destroy();
+            };
+            signal?.addEventListener('abort', onAbort, { once: true });
+
+            req.end();
+        }).finally(() => signal?.removeEventListener('abort', onAbort!));
     }
 
-    private decompressDeflate(buffer: Buffer): Promise<Buffer> {
-        return new Promise((resolve, reject) => {
-            zlib.inflate(buffer, (err, result) => {
-                if (err) {
-                    // Try raw deflate if regular deflate fails
-                    zlib.inflateRaw(buffer, (err2, result2) => {
-                        if (err2) {
-                            reject(err);
-                        } else {
-                            resolve(result2);
-                        }
-                    });
-                } else {
-                    resolve(result);
+    /**
+     * Make a unary gRPC call over HTTP/2 to the request's URL - http:// or grpc:// for plaintext,
+     * https:// or grpcs:// for TLS. Enabled headers are sent as metadata. TLS and proxy settings
+     * apply as for HTTP requests, and calls to an origin share its HTTP/2 session.
+     * @param path - /package.Service/Method, appended to the URL's path
+     * @param message - the encoded request message
+     * @throws when no HTTP/2 connection could be made; failed calls resolve with their status
+     */
+    async invokeGrpc(request: Request, path: string, message: Buffer, signal?: AbortSignal): Promise<GrpcResponse> {
+        const logger = this.logger;
+        let url: URL;
+        try {
+            // grpc:// isn't a special scheme, so it can't be swapped for http: on a parsed URL
+            url = new URL(request.url.replace(/^grpc(s?):\/\//i, 'http$1://'));
+        } catch {
+            throw new Error(`Invalid URL: ${request.url}`);
+        }
+        if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+            throw new Error(`gRPC URLs start with http://, https://, grpc:// or grpcs:// - got ${request.url}`);
+        }
+
+        const headers: Record<string, string> = {};
+        for (const header of request.headers) {
+            if (header.enabled) {
+                headers[header.name] = header.value;
+            }
+        }
+        const timeout = this.options.timeout;
+
+        if (signal?.aborted) {
+            throw new RequestCancelledError();
+        }
+        logger.info('Invoking gRPC method', { url: request.url, path });
+        const session = await this.getHttp2Session(url, signal, createTimingMarks());
+
+        let onAbort: (() => void) | undefined;
+        return new Promise<GrpcResponse>((resolve, reject) => {
+            const started = Date.now();
+            const stream = this.openHttp2Stream(session, {
+                ':method': 'POST',
+                ':path': url.pathname.replace(/\/$/, '') + path,
+                'content-type': 'application/grpc',
+                'te': 'trailers',
+                'grpc-accept-encoding': 'identity,deflate,gzip',
+                ...(timeout > 0 ? { 'grpc-timeout': `${timeout}m` } : {}),
+                ...toGrpcMetadata(headers),
+            });
+
+            let httpStatus = 0;
+            let responseHeaders: Record<string, string> = {};
+            let trailers: Record<string, string> = {};
+            let parser = new GrpcFrameParser();
+            const messages: Buffer[] = [];
+
+            stream.on('response', received => {
+                httpStatus = Number(received[':status']);
+                responseHeaders = this.flattenHttp2Headers(received);
+                parser = new GrpcFrameParser(responseHeaders['grpc-encoding']);
+            });
+            stream.on('trailers', received => {
+                trailers = this.flattenHttp2Headers(received);
+            });
+            stream.on('data', (chunk: Buffer) => {
+                try {
+                    messages.push(...parser.push(chunk));
+                } catch (error) {
+                    stream.close(http2.constants.NGHTTP2_CANCEL);
+                    reject(error);
                 }
             });
+            stream.on('end', () => {
+                // Trailers-only responses carry the status in the headers
+                const statusValue = trailers['grpc-status'] ?? responseHeaders['grpc-status'];
+                const status = statusValue !== undefined ? Number(statusValue)
+                    : httpStatus === 200 ? 13 : grpcStatusFromHttp(httpStatus);
+                const statusMessage = decodeGrpcMessage(trailers['grpc-message'] ?? responseHeaders['grpc-message'])
+                    || (statusValue !== undefined ? '' : httpStatus === 200 ? 'Response has no grpc-status' : `HTTP ${httpStatus}`);
+                logger.info('gRPC call completed', { path, status, time: Date.now() - started });
+                resolve({
+                    status,
+                    statusMessage,
+                    httpStatus,
+                    headers: responseHeaders,
+                    trailers,
+                    message: status === 0 ? messages[0] : undefined,
+                    time: Date.now() - started,
+                });
+            });
+            stream.on('close', () => {
+                reject(new Error(`Stream closed with HTTP/2 error code ${stream.rstCode}`));
+            });
+            stream.on('error', error => {
+                logger.error('Request error', { error: error.message });
+                reject(new Error(`Request error: ${error.message}`));
+            });
+            if (timeout > 0) {
+                stream.setTimeout(timeout, () => {
+                    logger.error('Request timeout', { timeout });
+                    stream.close(http2.constants.NGHTTP2_CANCEL);
+                    reject(new Error(`Request timed out after ${timeout}ms`));
+                });
+            }
+
+            onAbort = () => {
+                logger.info('gRPC call cancelled', { path });
+                reject(new RequestCancelledError());
+                stream.close(http2.constants.NGHTTP2_CANCEL);
+            };
+            signal?.addEventListener('abort', onAbort, { once: true });
+
+            stream.end(encodeGrpcFrame(message));
+        }).finally(() => signal?.removeEventListener('abort', onAbort!));
+    }
+
+    /**
+     * The HTTP/2 session a request goes out on - none for HTTP/1.1. auto negotiates with ALPN on the
+     * first https:// request to an origin; a connection that chose HTTP/1.1 is returned as socket
+     * for the request to use.
+     */
+    private async selectHttp2Session(
+        url: URL,
+        protocol: HttpProtocol | undefined,
+        signal: AbortSignal | undefined,
+        marks: TimingMarks
+    ): Promise<{ session?: http2.ClientHttp2Session; socket?: tls.TLSSocket }> {
+        if (!protocol || protocol === 'http1') {
+            return {};
+        }
+        if (protocol === 'auto' && (url.protocol !== 'https:' || this.http1Origins.has(url.origin))) {
+            return {};
+        }
+        const cached = this.getCachedHttp2Session(url.origin);
+        if (cached || protocol === 'http2') {
+            return { session: cached ?? await this.getHttp2Session(url, signal, marks) };
+        }
+
+        const socket = await this.connectSocket(url, signal, marks) as tls.TLSSocket;
+        if (socket.alpnProtocol === 'h2') {
+            return { session: await this.startHttp2Session(url, socket) };
+        }
+        this.logger.debug('Server chose HTTP/1.1', { origin: url.origin, alpnProtocol: socket.alpnProtocol || 'none' });
+        this.http1Origins.add(url.origin);
+        return { socket };
+    }
+
+    private getCachedHttp2Session(origin: string): http2.ClientHttp2Session | undefined {
+        const session = this.http2Sessions.get(origin);
+        return session && !session.closed && !session.destroyed ? session : undefined;
+    }
+
+    /**
+     * The open HTTP/2 session to the URL's origin, connecting when there is none
+     * @param signal - aborting stops waiting; a connection other requests share is still made
+     */
+    private async getHttp2Session(url: URL, signal: AbortSignal | undefined, marks: TimingMarks): Promise<http2.ClientHttp2Session> {
+        const cached = this.getCachedHttp2Session(url.origin);
+        if (cached) {
+            return cached;
+        }
+        let connecting = this.http2Connecting.get(url.origin);
+        if (!connecting) {
+            connecting = this.connectSocket(url, undefined, marks).then(socket => this.startHttp2Session(url, socket));
+            this.http2Connecting.set(url.origin, connecting);
+            const done = () => this.http2Connecting.delete(url.origin);
+            connecting.then(done, done);
+        }
+        if (signal?.aborted) {
+            throw new RequestCancelledError();
+        }
+        let onAbort: (() => void) | undefined;
+        return Promise.race([
+            connecting,
+            new Promise<never>((_resolve, reject) => {
+                onAbort = () => reject(new RequestCancelledError());
+                signal?.addEventListener('abort', onAbort, { once: true });
+            }),
+        ]).finally(() => signal?.removeEventListener('abort', onAbort!));
+    }
+
+    /**
+     * Start an HTTP/2 session on a connection and keep it for later requests to the origin
+     */
+    private async startHttp2Session(url: URL, socket: net.Socket): Promise<http2.ClientHttp2Session> {
+        const session = await this.connectHttp2(url, socket);
+        // Another request to the origin may have negotiated a session meanwhile - keep a single one
+        const raced = this.getCachedHttp2Session(url.origin);
+        if (raced) {
+            session.close();
+            return raced;
+        }
+        this.logger.debug('HTTP/2 session opened', { origin: url.origin });
+        this.http2Sessions.set(url.origin, session);
+        const forget = () => {
+            if (this.http2Sessions.get(url.origin) === session) {
+                this.http2Sessions.delete(url.origin);
+            }
+        };
+        session.once('close', forget);
+        session.once('goaway', forget);
+        // Idle sessions don't keep the process alive
+        session.unref();
+        return session;
+    }
+
+    /**
+     * Open a stream on a session, which keeps the process alive until its last stream closes
+     */
+    private openHttp2Stream(session: http2.ClientHttp2Session, headers: http2.OutgoingHttpHeaders): http2.ClientHttp2Stream {
+        const h2Stream = session.request(headers);
+        this.http2Streams.set(session, (this.http2Streams.get(session) ?? 0) + 1);
+        session.ref();
+        h2Stream.once('close', () => {
+            const open = (this.http2Streams.get(session) ?? 1) - 1;
+            this.http2Streams.set(session, open);
+            if (open === 0 && !session.destroyed) {
+                session.unref();
+            }
+        });
+        return h2Stream;
+    }
+
+    /**
+     * Close the HTTP/2 sessions kept for reuse - streams still open finish first
+     */
+    closeSessions(): void {
+        for (const session of this.http2Sessions.values()) {
+            session.close();
+        }
+        this.http2Sessions.clear();
+        this.http1Origins.clear();
+    }
+
+    /**
+     * Connect to the URL's origin for HTTP/2 - through a proxy tunnel when one applies, with TLS
+     * offering h2 and http/1.1 in ALPN for https://. Records the connect timings.
+     */
+    private async connectSocket(url: URL, signal: AbortSignal | undefined, marks: TimingMarks): Promise<net.Socket> {
+        const logger = this.logger;
+        const isHttps = url.protocol === 'https:';
+        const tlsOptions: tls.ConnectionOptions = {};
+        if (isHttps) {
+            tlsOptions.rejectUnauthorized = this.options.rejectUnauthorized;
+            tlsOptions.servername = net.isIP(url.hostname) ? undefined : url.hostname;
+            const hostTls = findHostTls(this.options.hostTls, url);
+            if (hostTls) {
+                logger.debug('Using TLS settings for host', { host: hostTls.host });
+                const passphrase = needsPassphrase(hostTls) ? await this.options.tlsPassphrase(hostTls.host) : undefined;
+                Object.assign(tlsOptions, loadTlsOptions(hostTls, passphrase));
+            }
+        }
+
+        let tunnel: net.Socket | undefined;
+        const proxy = getProxyForUrl(url, this.options.proxy, this.options.noProxy);
+        if (proxy) {
+            // HTTP/2 needs a tunnel whatever the scheme - proxies don't forward it in absolute form
+            logger.debug('Using proxy', { proxy: describeProxy(proxy) });
+            tunnel = await openProxyTunnel(proxy, url, {
+                timeout: this.options.timeout,
+                proxyAuthorization: this.options.proxyAuthorization,
+                rejectUnauthorized: this.options.rejectUnauthorized,
+                signal,
+            }).catch(error => {
+                throw signal?.aborted ? new RequestCancelledError() : error;
+            });
+            markTiming(marks, 'connect');
+            if (!isHttps) {
+                return tunnel;
+            }
+        }
+        if (signal?.aborted) {
+            tunnel?.destroy();
+            throw new RequestCancelledError();
+        }
+
+        const host = url.hostname.replace(/^\[|\]$/g, '');
+        const port = Number(url.port) || (isHttps ? 443 : 80);
+        const socket: net.Socket = isHttps
+            // Offering http/1.1 too lets HTTP/1.1-only servers complete the handshake and say so
+            ? tls.connect({ ...tlsOptions, host, port, socket: tunnel, ALPNProtocols: ['h2', 'http/1.1'] })
+            : net.connect({ host, port });
+        let onAbort: (() => void) | undefined;
+        let onError: ((error: Error) => void) | undefined;
+        let timer: NodeJS.Timeout | undefined;
+        return new Promise<net.Socket>((resolve, reject) => {
+            socket.once('lookup', () => markTiming(marks, 'lookup'));
+            socket.once('connect', () => markTiming(marks, 'connect'));
+            if (isHttps) {
+                socket.once('secureConnect', () => {
+                    markTiming(marks, 'secureConnect');
+                    resolve(socket);
+                });
+            } else {
+                socket.once('connect', () => resolve(socket));
+            }
+            onError = error => {
+                logger.error('Request error', { error: error.message });
+                reject(new Error(`Request error: ${error.message}`));
+            };
+            socket.once('error', onError);
+            if (this.options.timeout > 0) {
+                timer = setTimeout(() => {
+                    logger.error('Request timeout', { timeout: this.options.timeout });
+                    socket.destroy();
+                    reject(new Error(`Request timed out after ${this.options.timeout}ms`));
+                }, this.options.timeout);
+            }
+            onAbort = () => {
+                reject(new RequestCancelledError());
+                socket.destroy();
+            };
+            signal?.addEventListener('abort', onAbort, { once: true });
+        }).finally(() => {
+            clearTimeout(timer);
+            socket.off('error', onError!);
+            signal?.removeEventListener('abort', onAbort!);
         });
     }
 
+    /**
+     * Start an HTTP/2 session on a connection - over TLS the server must have chosen h2 in ALPN
+     */
+    private async connectHttp2(url: URL, socket: net.Socket): Promise<http2.ClientHttp2Session> {
+        const logger = this.logger;
+        if (socket instanceof tls.TLSSocket && socket.alpnProtocol !== 'h2') {
+            socket.destroy();
+            throw new Error(`${url.origin} does not support HTTP/2 (negotiated ${socket.alpnProtocol || 'no protocol'})`);
+        }
+
+        let timer: NodeJS.Timeout | undefined;
+        return new Promise<http2.ClientHttp2Session>((resolve, reject) => {
+            const session = http2.connect(url.origin, { createConnection: () => socket });
+            session.once('connect', () => resolve(session));
+            session.on('error', error => {
+                logger.error('Request error', { error: error.message });
+                reject(new Error(`Request error: ${error.message}`));
+            });
+            if (this.options.timeout > 0) {
+                timer = setTimeout(() => {
+                    logger.error('Request timeout', { timeout: this.options.timeout });
+                    session.destroy();
+                    reject(new Error(`Request timed out after ${this.options.timeout}ms`));
+                }, this.options.timeout);
+            }
+        }).finally(() => clearTimeout(timer));
+    }
+
+    /**
+     * Request headers for an HTTP/2 stream: pseudo-headers first, names lowercased and
+     * connection-specific headers dropped - a Host header becomes :authority
+     */
+    private toHttp2Headers(url: URL, method: string, headers: Record<string, string>): http2.OutgoingHttpHeaders {
+        const hostName = Object.keys(headers).find(name => name.toLowerCase() === 'host');
+        const h2Headers: http2.OutgoingHttpHeaders = {
+            ':method': method,
+            ':scheme': url.protocol.slice(0, -1),
+            ':authority': (hostName && headers[hostName]) || url.host,
+            ':path': url.pathname + url.search,
+        };
+        for (const [name, value] of Object.entries(headers)) {
+            const key = name.toLowerCase();
+            // TE is only allowed for trailers
+            if (HTTP1_ONLY_HEADERS.includes(key) || (key === 'te' && value.trim().toLowerCase() !== 'trailers')) {
+                continue;
+            }
+            h2Headers[key] = value;
+        }
+        return h2Headers;
+    }
+
+    /**
+     * HTTP/2 headers without pseudo-headers, with repeated headers joined by commas
+     */
+    private flattenHttp2Headers(headers: http2.IncomingHttpHeaders): Record<string, string> {
+        const flattened: Record<string, string> = {};
+        for (const [name, value] of Object.entries(headers)) {
+            if (!name.startsWith(':') && value !== undefined) {
+                flattened[name] = Array.isArray(value) ? value.join(', ') : String(value);
+            }
+        }
+        return flattened;
+    }
+
     private getCharset(contentType: string | undefined): string | undefined {
         if (!contentType) {
             return undefined;
@@ -368,12 +1336,14 @@ export class HttpClient {
      */
     setOptions(options: HttpClientOptions): void {
         this.options = { ...this.options, ...options };
+        // Sessions were opened with the old TLS and proxy settings
+        this.closeSessions();
     }
 
     /**
      * Get current options
      */
-    getOptions(): Required<HttpClientOptions> {
+    getOptions(): ResolvedHttpClientOptions {
         return { ...this.options };
     }
 }
@@ -0,0 +1,87 @@
+import * as os from 'os';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { HttpClient, HttpClientOptions } from './HttpClient';
+import { getSettings } from '../settings';
+import { getLogger } from '../logger';
+import { OAuth2TokenProvider } from './OAuth2';
+import { StorageService } from '../storage/StorageService';
+
+/**
+ * SecretStorage key of the passphrase for an endpoint.tls.hosts entry
+ */
+export function getTlsPassphraseKey(host: string): string {
+    return `endpoint.tls.passphrase.${host.trim().toLowerCase()}`;
+}
+
+/**
+ * Create an HttpClient configured from the current VS Code settings and
+ * logging to the extension's output channel. Client certificate passphrases
+ * are read from SecretStorage and cookies go to the active environment's
+ * cookie jar when a StorageService is given. Multipart file paths are relative
+ * to the workspace folder, like certificate paths. endpoint.proxy
+ * overrides the editor's http.proxy; both bypass lists apply.
+ */
+export function createHttpClient(storageService?: StorageService, options: HttpClientOptions = {}): HttpClient {
+    const settings = getSettings();
+    const editorHttp = vscode.workspace.getConfiguration('http');
+    const editorProxy = editorHttp.get<string>('proxySupport') !== 'off' ? editorHttp.get<string>('proxy', '') : '';
+    return new HttpClient(
+        {
+            timeout: settings.timeout,
+            followRedirects: settings.followRedirects,
+            maxRedirects: settings.maxRedirects,
+            rejectUnauthorized: settings.rejectUnauthorized,
+            hostTls: settings['tls.hosts'].map(entry => ({
+                ...entry,
+                cert: expandPath(entry.cert),
+                key: expandPath(entry.key),
+                pfx: expandPath(entry.pfx),
+                ca: entry.ca?.map(file => expandPath(file)!),
+            })),
+            tlsPassphrase: async host => storageService?.getSecret(getTlsPassphraseKey(host)),
+            proxy: settings.proxy || editorProxy,
+            noProxy: [...settings.noProxy, ...editorHttp.get<string[]>('noProxy', [])],
+            proxyAuthorization: editorHttp.get<string>('proxyAuthorization') || '',
+            cookieJar: storageService?.getCookieService(),
+            resolveFilePath: file => expandPath(file)!,
+            ...options,
+        },
+        getLogger()
+    );
+}
+
+/**
+ * Create an OAuth2TokenProvider that caches tokens in the extension's SecretStorage
+ * and opens the system browser for authorization code sign-in
+ */
+export function createOAuth2TokenProvider(httpClient: HttpClient, storageService: StorageService): OAuth2TokenProvider {
+    return new OAuth2TokenProvider(
+        httpClient,
+        {
+            get: key => storageService.getSecret(key),
+            store: (key, value) => storageService.setSecret(key, value),
+            delete: key => storageService.deleteSecret(key),
+        },
+        url => vscode.env.openExternal(vscode.Uri.parse(url))
+    );
+}
+
+/**
+ * Certificate and upload file paths may start with ~ or ${workspaceFolder}; other relative paths
+ * are relative to the first workspace folder
+ */
+export function expandPath(file: string | undefined): string | undefined {
+    if (!file) {
+        return file;
+    }
+    const workspaceFolder = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
+    let expanded = file.replace(/^~(?=$|[\\/])/, os.homedir());
+    if (workspaceFolder) {
+        expanded = expanded.replace('${workspaceFolder}', workspaceFolder);
+        if (!path.isAbsolute(expanded)) {
+            expanded = path.join(workspaceFolder, expanded);
+        }
+    }
+    return expanded;
+}
@@ -0,0 +1,159 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { Readable } from 'stream';
+import { MultipartField } from '../models/Collection';
+import type { TextResolver } from './RequestBuilder';
+
+const CRLF = '\r\n';
+
+const MIME_TYPES: Record<string, string> = {
+    '.txt': 'text/plain',
+    '.csv': 'text/csv',
+    '.html': 'text/html',
+    '.htm': 'text/html',
+    '.css': 'text/css',
+    '.js': 'text/javascript',
+    '.json': 'application/json',
+    '.xml': 'application/xml',
+    '.pdf': 'application/pdf',
+    '.zip': 'application/zip',
+    '.gz': 'application/gzip',
+    '.png': 'image/png',
+    '.jpg': 'image/jpeg',
+    '.jpeg': 'image/jpeg',
+    '.gif': 'image/gif',
+    '.webp': 'image/webp',
+    '.svg': 'image/svg+xml',
+    '.ico': 'image/x-icon',
+    '.mp3': 'audio/mpeg',
+    '.wav': 'audio/wav',
+    '.mp4': 'video/mp4',
+    '.webm': 'video/webm',
+};
+
+/**
+ * A multipart/form-data body ready to send
+ */
+export interface MultipartBody {
+    boundary: string;
+    /** Content-Type header value, including the boundary */
+    contentType: string;
+    /** Byte length of the whole body, for Content-Length */
+    length: number;
+    /** A stream of the body - file contents are read from disk as it is consumed */
+    createStream(): Readable;
+}
+
+type Segment = Buffer | { file: string; size: number };
+
+/**
+ * Read the fields of a multipart body's content; fields without a type are text fields
+ */
+export function parseMultipartFields(content: string): MultipartField[] {
+    let fields: unknown;
+    try {
+        fields = JSON.parse(content);
+    } catch {
+        return [];
+    }
+    if (!Array.isArray(fields)) {
+        return [];
+    }
+    return fields
+        .filter((f): f is MultipartField => !!f && typeof f === 'object')
+        .map(f => ({ ...f, key: f.key ?? '', value: f.value ?? '', enabled: f.enabled !== false, type: f.type === 'file' ? 'file' : 'text' }));
+}
+
+/**
+ * Resolve variables in the enabled fields of a multipart body, including file paths.
+ * Returns the resolved fields as body content.
+ */
+export async function resolveMultipartFields(content: string, resolve: TextResolver): Promise<string> {
+    const resolved: MultipartField[] = [];
+    for (const field of parseMultipartFields(content).filter(f => f.enabled && f.key)) {
+        resolved.push({
+            key: await resolve(field.key),
+            value: await resolve(field.value),
+            enabled: true,
+            type: field.type,
+            ...(field.contentType ? { contentType: await resolve(field.contentType) } : {}),
+        });
+    }
+    return JSON.stringify(resolved);
+}
+
+export function generateBoundary(): string {
+    return `----EndpointFormBoundary${crypto.randomBytes(12).toString('hex')}`;
+}
+
+/**
+ * The boundary parameter of a multipart Content-Type header
+ */
+export function getBoundary(contentType: string | undefined): string | undefined {
+    return contentType?.match(/;\s*boundary=(?:"([^"]+)"|([^\s;]+))/i)?.slice(1).find(Boolean);
+}
+
+/**
+ * Content-Type for a file, from its extension
+ */
+export function guessContentType(file: string): string {
+    return MIME_TYPES[path.extname(file).toLowerCase()] || 'application/octet-stream';
+}
+
+/**
+ * Prepare a multipart/form-data body from resolved fields.
+ * Files are checked up front, so a missing file fails the request before anything is sent,
+ * and their sizes make up the Content-Length - the contents are only read while streaming.
+ * @param resolveFilePath - turns a field's path into an absolute one
+ */
+export async function createMultipartBody(
+    fields: MultipartField[],
+    resolveFilePath: (file: string) => string,
+    boundary: string = generateBoundary()
+): Promise<MultipartBody> {
+    const segments: Segment[] = [];
+    for (const field of fields.filter(f => f.enabled && f.key)) {
+        let disposition = `Content-Disposition: form-data; name="${escapeQuoted(field.key)}"`;
+        if (field.type === 'file') {
+            const file = resolveFilePath(field.value);
+            const stats = await fs.promises.stat(file).catch(() => undefined);
+            if (!stats?.isFile()) {
+                throw new Error(`File not found for multipart field "${field.key}": ${field.value}`);
+            }
+            disposition += `; filename="${escapeQuoted(path.basename(file))}"`;
+            const contentType = field.contentType || guessContentType(file);
+            segments.push(Buffer.from(`--${boundary}${CRLF}${disposition}${CRLF}Content-Type: ${contentType}${CRLF}${CRLF}`));
+            segments.push({ file, size: stats.size });
+            segments.push(Buffer.from(CRLF));
+        } else {
+            const contentType = field.contentType ? `Content-Type: ${field.contentType}${CRLF}` : '';
+            segments.push(Buffer.from(`--${boundary}${CRLF}${disposition}${CRLF}${contentType}${CRLF}${field.value}${CRLF}`));
+        }
+    }
+    segments.push(Buffer.from(`--${boundary}--${CRLF}`));
+
+    return {
+        boundary,
+        contentType: `multipart/form-data; boundary=${boundary}`,
+        length: segments.reduce((sum, s) => sum + (Buffer.isBuffer(s) ? s.length : s.size), 0),
+        createStream: () => Readable.from(streamSegments(segments)),
+    };
+}
+
+async function* streamSegments(segments: Segment[]): AsyncGenerator<Buffer> {
+    for (const segment of segments) {
+        if (Buffer.isBuffer(segment)) {
+            yield segment;
+        } else {
+            yield* fs.createReadStream(segment.file);
+        }
+    }
+}
+
+/**
+ * Names and file names go in quoted strings - escape quotes and line breaks like browsers do
+ */
+function escapeQuoted(value: string): string {
+    return value.replace(/"/g, '%22').replace(/\r/g, '%0D').replace(/\n/g, '%0A');
+}
@@ -0,0 +1,338 @@
+import { createHash } from 'crypto';
+import { AuthConfig, OAuth2GrantType, Request } from '../models/Collection';
+import type { HttpClient } from './HttpClient';
+import type { TextResolver } from './RequestBuilder';
+import { HttpResponse } from './ResponseContentProvider';
+import { buildAuthorizationUrl, createPkcePair, createState, startLoopbackListener } from './OAuth2Loopback';
+
+/**
+ * An access token obtained from an OAuth 2.0 token endpoint
+ */
+export interface OAuth2Token {
+    accessToken: string;
+    tokenType: string;
+    /** Epoch milliseconds, undefined when the server did not send expires_in */
+    expiresAt?: number;
+    refreshToken?: string;
+}
+
+/**
+ * Where tokens are cached - vscode.SecretStorage in the extension, memory in the CLI
+ */
+export interface OAuth2TokenStore {
+    get(key: string): PromiseLike<string | undefined>;
+    store(key: string, value: string): PromiseLike<void>;
+    delete(key: string): PromiseLike<void>;
+}
+
+/**
+ * Opens the authorization URL in the user's browser (vscode.env.openExternal in the extension)
+ */
+export type OAuth2BrowserOpener = (url: string) => PromiseLike<unknown>;
+
+/**
+ * The authorization code received on the redirect, exchanged for a token
+ */
+export interface AuthorizationCodeGrant {
+    code: string;
+    redirectUri: string;
+    codeVerifier: string;
+}
+
+/**
+ * Tokens are renewed this long before they actually expire
+ */
+const EXPIRY_MARGIN_MS = 30 * 1000;
+
+const TOKEN_KEY_PREFIX = 'endpoint.oauth2.';
+
+/**
+ * Fields of an oauth2 AuthConfig that may contain {{variables}}
+ */
+const RESOLVABLE_FIELDS = ['tokenUrl', 'authUrl', 'redirectUri', 'clientId', 'clientSecret', 'scope', 'audience', 'username', 'password', 'refreshToken'] as const;
+
+/**
+ * In-memory token store, used when no persistent store is available
+ */
+export class MemoryTokenStore implements OAuth2TokenStore {
+    private tokens = new Map<string, string>();
+
+    async get(key: string): Promise<string | undefined> {
+        return this.tokens.get(key);
+    }
+
+    async store(key: string, value: string): Promise<void> {
+        this.tokens.set(key, value);
+    }
+
+    async delete(key: string): Promise<void> {
+        this.tokens.delete(key);
+    }
+}
+
+/**
+ * Obtains, caches and refreshes OAuth 2.0 access tokens.
+ *
+ * Tokens are cached per collection, token endpoint, client, grant, scope, audience and user,
+ * reused until shortly before they expire, then renewed with the refresh token
+ * (when the server issued one) or by requesting a new token with the configured grant.
+ * The authorization code grant signs the user in through the browser, so it needs
+ * an OAuth2BrowserOpener.
+ */
+export class OAuth2TokenProvider {
+    constructor(
+        private readonly httpClient: Pick<HttpClient, 'executeRequest'>,
+        private readonly store: OAuth2TokenStore = new MemoryTokenStore(),
+        private readonly openBrowser?: OAuth2BrowserOpener
+    ) { }
+
+    /**
+     * Resolve the auth config's variables and return the Authorization header value
+     * @param collectionId - the collection whose token cache is used; requests outside collections share one
+     * @param signal - aborts an interactive sign-in that is waiting for the browser
+     */
+    async getAuthorizationHeader(auth: AuthConfig, resolve: TextResolver, collectionId?: string, signal?: AbortSignal): Promise<string> {
+        const token = await this.getToken(await resolveOAuth2Config(auth, resolve), collectionId, signal);
+        return formatAuthorizationHeader(token);
+    }
+
+    /**
+     * Get a valid token for an (already resolved) oauth2 auth config
+     */
+    async getToken(auth: AuthConfig, collectionId?: string, signal?: AbortSignal): Promise<OAuth2Token> {
+        const key = getTokenCacheKey(auth, collectionId);
+        const cached = await this._readCached(key);
+        if (cached && !isTokenExpired(cached)) {
+            return cached;
+        }
+
+        let token: OAuth2Token | undefined;
+        if (cached?.refreshToken) {
+            try {
+                token = await requestOAuth2Token({ ...auth, grantType: 'refresh_token', refreshToken: cached.refreshToken }, this.httpClient);
+            } catch {
+                // Refresh token expired or revoked - fall back to the configured grant
+            }
+        }
+
+        if (!token) {
+            token = auth.grantType === 'authorization_code'
+                ? await this._authorize(auth, signal)
+                : await requestOAuth2Token(auth, this.httpClient);
+        }
+
+        // Servers may omit the refresh token on refresh, keep using the previous one
+        if (!token.refreshToken && cached?.refreshToken) {
+            token.refreshToken = cached.refreshToken;
+        }
+
+        await this.store.store(key, JSON.stringify(token));
+        return token;
+    }
+
+    /**
+     * True when a token can be obtained without user interaction (cached, or renewable with a refresh token)
+     */
+    async hasCachedToken(auth: AuthConfig, resolve: TextResolver, collectionId?: string): Promise<boolean> {
+        const cached = await this._readCached(getTokenCacheKey(await resolveOAuth2Config(auth, resolve), collectionId));
+        return !!cached && (!isTokenExpired(cached) || !!cached.refreshToken);
+    }
+
+    /**
+     * Forget the cached token so the next request fetches a new one
+     */
+    async clearToken(auth: AuthConfig, resolve?: TextResolver, collectionId?: string): Promise<void> {
+        const resolved = resolve ? await resolveOAuth2Config(auth, resolve) : auth;
+        await this.store.delete(getTokenCacheKey(resolved, collectionId));
+    }
+
+    /**
+     * Authorization code flow with PKCE: open the browser, receive the code on a
+     * loopback listener and exchange it for a token
+     */
+    private async _authorize(auth: AuthConfig, signal?: AbortSignal): Promise<OAuth2Token> {
+        if (!this.openBrowser) {
+            throw new Error('OAuth 2.0 authorization code sign-in needs a browser and is not available here');
+        }
+
+        const state = createState();
+        const listener = await startLoopbackListener(state, auth.redirectUri || undefined);
+        try {
+            const pkce = createPkcePair();
+            await this.openBrowser(buildAuthorizationUrl(auth, listener.redirectUri, state, pkce.challenge));
+            const code = await listener.waitForCode(signal);
+            return await requestOAuth2Token(auth, this.httpClient, { code, redirectUri: listener.redirectUri, codeVerifier: pkce.verifier });
+        } finally {
+            listener.close();
+        }
+    }
+
+    private async _readCached(key: string): Promise<OAuth2Token | undefined> {
+        const value = await this.store.get(key);
+        if (!value) {
+            return undefined;
+        }
+        try {
+            return JSON.parse(value) as OAuth2Token;
+        } catch {
+            return undefined;
+        }
+    }
+}
+
+/**
+ * Request a token from the token endpoint using the auth config's grant.
+ * The authorization code grant needs the code received on the redirect.
+ */
+export async function requestOAuth2Token(
+    auth: AuthConfig,
+    httpClient: Pick<HttpClient, 'executeRequest'>,
+    authorizationCode?: AuthorizationCodeGrant
+): Promise<OAuth2Token> {
+    if (!auth.tokenUrl) {
+        throw new Error('OAuth 2.0 token URL is not set');
+    }
+
+    const grantType: OAuth2GrantType = auth.grantType || 'client_credentials';
+    const params = new URLSearchParams({ grant_type: grantType });
+    if (grantType === 'password') {
+        params.append('username', auth.username || '');
+        params.append('password', auth.password || '');
+    } else if (grantType === 'refresh_token') {
+        if (!auth.refreshToken) {
+            throw new Error('OAuth 2.0 refresh token is not set');
+        }
+        params.append('refresh_token', auth.refreshToken);
+    } else if (grantType === 'authorization_code') {
+        if (!authorizationCode) {
+            throw new Error('OAuth 2.0 authorization code is missing');
+        }
+        params.append('code', authorizationCode.code);
+        params.append('redirect_uri', authorizationCode.redirectUri);
+        params.append('code_verifier', authorizationCode.codeVerifier);
+    }
+    if (auth.scope) {
+        params.append('scope', auth.scope);
+    }
+    if (auth.audience) {
+        params.append('audience', auth.audience);
+    }
+
+    const headers = [
+        { name: 'Content-Type', value: 'application/x-www-form-urlencoded', enabled: true },
+        { name: 'Accept', value: 'application/json', enabled: true },
+    ];
+
+    // RFC 6749 2.3.1 - credentials go in a Basic header unless the server wants them in the body.
+    // Public clients (no secret, typical with PKCE) only identify themselves with client_id.
+    if (auth.clientAuth === 'body' || !auth.clientSecret) {
+        if (auth.clientId) {
+            params.append('client_id', auth.clientId);
+        }
+        if (auth.clientSecret) {
+            params.append('client_secret', auth.clientSecret);
+        }
+    } else if (auth.clientId) {
+        const credentials = `${encodeURIComponent(auth.clientId)}:${encodeURIComponent(auth.clientSecret || '')}`;
+        headers.push({ name: 'Authorization', value: `Basic ${Buffer.from(credentials).toString('base64')}`, enabled: true });
+    }
+
+    const now = Date.now();
+    const request: Request = {
+        id: 'oauth2-token',
+        name: '',
+        method: 'POST',
+        url: auth.tokenUrl,
+        headers,
+        body: { type: 'form', content: params.toString() },
+        createdAt: now,
+        updatedAt: now,
+    };
+
+    const response = await httpClient.executeRequest(request);
+    return parseTokenResponse(response, now);
+}
+
+/**
+ * Parse a token endpoint response (JSON, or form-encoded as some servers still send)
+ */
+export function parseTokenResponse(response: HttpResponse, requestedAt: number = Date.now()): OAuth2Token {
+    const contentType = Object.entries(response.headers)
+        .find(([name]) => name.toLowerCase() === 'content-type')?.[1] || '';
+
+    let data: Record<string, unknown> = {};
+    if (contentType.includes('application/x-www-form-urlencoded')) {
+        data = Object.fromEntries(new URLSearchParams(response.body));
+    } else {
+        try {
+            const parsed = JSON.parse(response.body);
+            if (parsed && typeof parsed === 'object') {
+                data = parsed;
+            }
+        } catch {
+            // Reported below
+        }
+    }
+
+    if (response.status >= 400 || typeof data.access_token !== 'string') {
+        const reason = data.error_description || data.error || `${response.status} ${response.statusText}`;
+        throw new Error(`OAuth 2.0 token request failed: ${reason}`);
+    }
+
+    const expiresIn = Number(data.expires_in);
+    return {
+        accessToken: data.access_token,
+        tokenType: typeof data.token_type === 'string' ? data.token_type : 'Bearer',
+        expiresAt: Number.isFinite(expiresIn) && expiresIn > 0 ? requestedAt + expiresIn * 1000 : undefined,
+        refreshToken: typeof data.refresh_token === 'string' ? data.refresh_token : undefined,
+    };
+}
+
+/**
+ * True when the token is expired or about to expire
+ */
+export function isTokenExpired(token: OAuth2Token, now: number = Date.now()): boolean {
+    return token.expiresAt !== undefined && token.expiresAt - EXPIRY_MARGIN_MS <= now;
+}
+
+/**
+ * Authorization header value for a token (token_type "bearer" is normalized to "Bearer")
+ */
+export function formatAuthorizationHeader(token: OAuth2Token): string {
+    const type = token.tokenType.toLowerCase() === 'bearer' ? 'Bearer' : token.tokenType;
+    return `${type} ${token.accessToken}`;
+}
+
+/**
+ * Resolve {{variables}} in the oauth2 fields of an auth config
+ */
+export async function resolveOAuth2Config(auth: AuthConfig, resolve: TextResolver): Promise<AuthConfig> {
+    const resolved: AuthConfig = { ...auth };
+    for (const field of RESOLVABLE_FIELDS) {
+        const value = auth[field];
+        if (value) {
+            resolved[field] = await resolve(value);
+        }
+    }
+    return resolved;
+}
+
+/**
+ * Secret storage key for a token - secrets are hashed so they never appear in key names.
+ * Collections pointing at the same client get their own tokens, so signing out of one keeps the other.
+ */
+export function getTokenCacheKey(auth: AuthConfig, collectionId?: string): string {
+    const fingerprint = [
+        collectionId,
+        auth.tokenUrl,
+        auth.authUrl,
+        auth.grantType || 'client_credentials',
+        auth.clientId,
+        auth.clientSecret,
+        auth.scope,
+        auth.audience,
+        auth.username,
+        auth.grantType === 'refresh_token' ? auth.refreshToken : undefined,
+    ].map(v => v || '').join('\n');
+    return TOKEN_KEY_PREFIX + createHash('sha256').update(fingerprint).digest('hex');
+}
@@ -0,0 +1,174 @@
+import * as http from 'http';
+import { createHash, randomBytes } from 'crypto';
+import { AddressInfo } from 'net';
+import { URL } from 'url';
+import { AuthConfig } from '../models/Collection';
+
+export const DEFAULT_REDIRECT_URI = 'http://127.0.0.1/callback';
+
+/**
+ * How long to wait for the user to finish signing in
+ */
+const AUTHORIZATION_TIMEOUT_MS = 5 * 60 * 1000;
+
+const LOOPBACK_HOSTS = ['127.0.0.1', 'localhost', '[::1]'];
+
+export interface PkcePair {
+    verifier: string;
+    challenge: string;
+}
+
+/**
+ * Temporary HTTP listener that receives the authorization code redirect
+ */
+export interface LoopbackListener {
+    /** The redirect URI with the port actually bound */
+    redirectUri: string;
+    /** Resolves with the authorization code once the browser is redirected back with the expected state */
+    waitForCode(signal?: AbortSignal): Promise<string>;
+    close(): void;
+}
+
+/**
+ * Create a PKCE code verifier and its S256 challenge (RFC 7636)
+ */
+export function createPkcePair(): PkcePair {
+    const verifier = base64Url(randomBytes(32));
+    const challenge = base64Url(createHash('sha256').update(verifier).digest());
+    return { verifier, challenge };
+}
+
+/**
+ * Random value used to tie the redirect to the authorization request
+ */
+export function createState(): string {
+    return base64Url(randomBytes(16));
+}
+
+/**
+ * Build the URL the user signs in at
+ */
+export function buildAuthorizationUrl(auth: AuthConfig, redirectUri: string, state: string, codeChallenge: string): string {
+    if (!auth.authUrl) {
+        throw new Error('OAuth 2.0 authorization URL is not set');
+    }
+
+    let url: URL;
+    try {
+        url = new URL(auth.authUrl);
+    } catch {
+        throw new Error(`Invalid OAuth 2.0 authorization URL: ${auth.authUrl}`);
+    }
+
+    url.searchParams.set('response_type', 'code');
+    url.searchParams.set('client_id', auth.clientId || '');
+    url.searchParams.set('redirect_uri', redirectUri);
+    url.searchParams.set('state', state);
+    url.searchParams.set('code_challenge', codeChallenge);
+    url.searchParams.set('code_challenge_method', 'S256');
+    if (auth.scope) {
+        url.searchParams.set('scope', auth.scope);
+    }
+    if (auth.audience) {
+        url.searchParams.set('audience', auth.audience);
+    }
+    return url.toString();
+}
+
+/**
+ * Start listening on the loopback redirect URI. Without a port in the URI a free port is chosen.
+ * Redirects with a different `state` (a stale tab, a forged link) get an error page and the
+ * listener keeps waiting for the matching one.
+ */
+export async function startLoopbackListener(state: string, redirectUri: string = DEFAULT_REDIRECT_URI): Promise<LoopbackListener> {
+    let url: URL;
+    try {
+        url = new URL(redirectUri);
+    } catch {
+        throw new Error(`Invalid OAuth 2.0 redirect URI: ${redirectUri}`);
+    }
+    if (url.protocol !== 'http:' || !LOOPBACK_HOSTS.includes(url.hostname)) {
+        throw new Error('OAuth 2.0 redirect URI must be an http://127.0.0.1, http://localhost or http://[::1] address');
+    }
+
+    // The redirect may arrive before waitForCode() is called - keep it until then
+    let received: URLSearchParams | undefined;
+    let onCallback: ((params: URLSearchParams) => void) | undefined;
+    const server = http.createServer((req, res) => {
+        const requestUrl = new URL(req.url || '/', url.origin);
+        if (requestUrl.pathname !== url.pathname || received) {
+            res.writeHead(404).end();
+            return;
+        }
+        if (requestUrl.searchParams.get('state') !== state) {
+            res.writeHead(400, { 'Content-Type': 'text/html; charset=utf-8' });
+            res.end('<html><body><h3>Sign-in link is out of date.</h3><p>Finish signing in from the window VS Code opened last.</p></body></html>');
+            return;
+        }
+
+        const failed = requestUrl.searchParams.has('error');
+        res.writeHead(failed ? 400 : 200, { 'Content-Type': 'text/html; charset=utf-8' });
+        res.end(failed
+            ? '<html><body><h3>Sign-in failed.</h3><p>Return to VS Code for details.</p></body></html>'
+            : '<html><body><h3>Signed in.</h3><p>You can close this window and return to VS Code.</p></body></html>');
+        received = requestUrl.searchParams;
+        onCallback?.(received);
+    });
+
+    await new Promise<void>((resolve, reject) => {
+        server.once('error', reject);
+        server.listen(Number(url.port) || 0, url.hostname.replace(/^\[|\]$/g, ''), () => {
+            server.off('error', reject);
+            resolve();
+        });
+    });
+
+    url.port = String((server.address() as AddressInfo).port);
+
+    return {
+        redirectUri: url.toString(),
+        waitForCode: signal => new Promise<string>((resolve, reject) => {
+            const timer = setTimeout(() => finish(new Error('Timed out waiting for OAuth 2.0 sign-in')), AUTHORIZATION_TIMEOUT_MS);
+            const onAbort = () => finish(new Error('OAuth 2.0 sign-in was cancelled'));
+            signal?.addEventListener('abort', onAbort);
+
+            function finish(error: Error | undefined, code?: string) {
+                clearTimeout(timer);
+                signal?.removeEventListener('abort', onAbort);
+                onCallback = undefined;
+                if (error) {
+                    reject(error);
+                } else {
+                    resolve(code!);
+                }
+            }
+
+            if (signal?.aborted) {
+                onAbort();
+                return;
+            }
+
+            onCallback = params => {
+                const error = params.get('error');
+                if (error) {
+                    finish(new Error(`OAuth 2.0 sign-in failed: ${params.get('error_description') || error}`));
+                } else if (!params.get('code')) {
+                    finish(new Error('OAuth 2.0 sign-in failed: no authorization code received'));
+                } else {
+                    finish(undefined, params.get('code')!);
+                }
+            };
+            if (received) {
+                onCallback(received);
+            }
+        }),
+        close: () => {
+            server.close();
+            server.closeAllConnections();
+        },
+    };
+}
+
+function base64Url(buffer: Buffer): string {
+    return buffer.toString('base64').replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
@@ -0,0 +1,1166 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+/**
+ * Scalar value types of the protobuf language
+ */
+export const SCALAR_TYPES = [
+    'double', 'float', 'int32', 'int64', 'uint32', 'uint64', 'sint32', 'sint64',
+    'fixed32', 'fixed64', 'sfixed32', 'sfixed64', 'bool', 'string', 'bytes',
+] as const;
+
+export type ScalarType = typeof SCALAR_TYPES[number];
+
+/**
+ * A field of a message. Map fields are repeated fields of a generated entry message
+ * with a key (1) and a value (2) field, as in protobuf descriptors.
+ */
+export interface ProtoField {
+    name: string;
+    /** Name in the JSON mapping: lowerCamelCase unless the field sets json_name */
+    jsonName: string;
+    number: number;
+    /** Scalar type, or the fully qualified name of a message or enum */
+    type: string;
+    kind: 'scalar' | 'message' | 'enum';
+    repeated: boolean;
+    map: boolean;
+    /** Repeated numeric fields written as one length-delimited run */
+    packed: boolean;
+    /** Set when absent fields stay absent rather than decoding as the default (proto3 optional) */
+    optional: boolean;
+    oneof?: string;
+}
+
+export interface ProtoMessage {
+    /** Fully qualified name, e.g. helloworld.HelloRequest */
+    name: string;
+    fields: ProtoField[];
+    mapEntry?: boolean;
+}
+
+export interface ProtoEnum {
+    name: string;
+    values: { name: string; number: number }[];
+}
+
+export interface ProtoMethod {
+    name: string;
+    inputType: string;
+    outputType: string;
+    clientStreaming: boolean;
+    serverStreaming: boolean;
+}
+
+export interface ProtoService {
+    name: string;
+    methods: ProtoMethod[];
+}
+
+/**
+ * Every message, enum and service of a .proto file and the files it imports, keyed by fully qualified name
+ */
+export interface ProtoSchema {
+    messages: Record<string, ProtoMessage>;
+    enums: Record<string, ProtoEnum>;
+    services: Record<string, ProtoService>;
+}
+
+/**
+ * Well-known types that protoc ships with, so files importing them load without the protobuf sources
+ */
+const WELL_KNOWN_PROTOS: Record<string, string> = {
+    'google/protobuf/empty.proto': 'syntax = "proto3"; package google.protobuf; message Empty {}',
+    'google/protobuf/timestamp.proto': 'syntax = "proto3"; package google.protobuf; message Timestamp { int64 seconds = 1; int32 nanos = 2; }',
+    'google/protobuf/duration.proto': 'syntax = "proto3"; package google.protobuf; message Duration { int64 seconds = 1; int32 nanos = 2; }',
+    'google/protobuf/field_mask.proto': 'syntax = "proto3"; package google.protobuf; message FieldMask { repeated string paths = 1; }',
+    'google/protobuf/any.proto': 'syntax = "proto3"; package google.protobuf; message Any { string type_url = 1; bytes value = 2; }',
+    'google/protobuf/struct.proto': `syntax = "proto3"; package google.protobuf;
+        message Struct { map<string, Value> fields = 1; }
+        message Value { oneof kind { NullValue null_value = 1; double number_value = 2; string string_value = 3; bool bool_value = 4; Struct struct_value = 5; ListValue list_value = 6; } }
+        enum NullValue { NULL_VALUE = 0; }
+        message ListValue { repeated Value values = 1; }`,
+    'google/protobuf/wrappers.proto': 'syntax = "proto3"; package google.protobuf;' + [
+        ['Double', 'double'], ['Float', 'float'], ['Int64', 'int64'], ['UInt64', 'uint64'], ['Int32', 'int32'],
+        ['UInt32', 'uint32'], ['Bool', 'bool'], ['String', 'string'], ['Bytes', 'bytes'],
+    ].map(([name, type]) => ` message ${name}Value { ${type} value = 1; }`).join(''),
+};
+
+// ==================== Parsing ====================
+
+interface Token {
+    type: 'ident' | 'number' | 'string' | 'symbol';
+    value: string;
+    line: number;
+    column: number;
+}
+
+/**
+ * A field type reference waiting for every file to be parsed
+ */
+interface PendingType {
+    field: ProtoField | ProtoMethod;
+    property: 'type' | 'inputType' | 'outputType';
+    /** Fully qualified name of the message or package the reference appears in */
+    scope: string;
+    location: string;
+}
+
+interface ParsedProto {
+    imports: string[];
+    messages: ProtoMessage[];
+    enums: ProtoEnum[];
+    services: ProtoService[];
+    pending: PendingType[];
+}
+
+function tokenize(source: string, fileName: string): Token[] {
+    const tokens: Token[] = [];
+    let line = 1;
+    let lineStart = 0;
+    let i = 0;
+    while (i < source.length) {
+        const char = source[i];
+        if (char === '\n') {
+            line++;
+            lineStart = ++i;
+            continue;
+        }
+        if (/\s/.test(char)) {
+            i++;
+            continue;
+        }
+        if (source.startsWith('//', i)) {
+            while (i < source.length && source[i] !== '\n') {
+                i++;
+            }
+            continue;
+        }
+        if (source.startsWith('/*', i)) {
+            const end = source.indexOf('*/', i + 2);
+            const stop = end === -1 ? source.length : end + 2;
+            for (; i < stop; i++) {
+                if (source[i] === '\n') {
+                    line++;
+                    lineStart = i + 1;
+                }
+            }
+            continue;
+        }
+        const column = i - lineStart + 1;
+        const rest = source.slice(i);
+        const ident = /^\.?[A-Za-z_][\w]*(\.[A-Za-z_][\w]*)*/.exec(rest);
+        const number = /^(0[xX][0-9a-fA-F]+|\d+(\.\d*)?([eE][+-]?\d+)?|\.\d+([eE][+-]?\d+)?)/.exec(rest);
+        if (ident) {
+            tokens.push({ type: 'ident', value: ident[0], line, column });
+            i += ident[0].length;
+        } else if (number) {
+            tokens.push({ type: 'number', value: number[0], line, column });
+            i += number[0].length;
+        } else if (char === '"' || char === '\'') {
+            let value = '';
+            let j = i + 1;
+            for (; j < source.length && source[j] !== char && source[j] !== '\n'; j++) {
+                if (source[j] === '\\' && j + 1 < source.length) {
+                    j++;
+                    value += ({ n: '\n', t: '\t', r: '\r', '0': '\0' } as Record<string, string>)[source[j]] ?? source[j];
+                } else {
+                    value += source[j];
+                }
+            }
+            if (source[j] !== char) {
+                throw new Error(`${fileName}:${line}:${column}: Unterminated string`);
+            }
+            tokens.push({ type: 'string', value, line, column });
+            i = j + 1;
+        } else {
+            tokens.push({ type: 'symbol', value: char, line, column });
+            i++;
+        }
+    }
+    return tokens;
+}
+
+/**
+ * lowerCamelCase JSON name of a field, as protoc derives it
+ */
+function toJsonName(name: string): string {
+    return name.replace(/_([a-z0-9])/g, (_, letter: string) => letter.toUpperCase());
+}
+
+/**
+ * Recursive descent over the tokens of one .proto file. Options, reserved ranges,
+ * extensions and extend blocks are read past - they don't change how messages are encoded,
+ * except for json_name and packed.
+ */
+class ProtoParser {
+    private pos = 0;
+    private syntax = 'proto2';
+    private packageName = '';
+    private readonly result: ParsedProto = { imports: [], messages: [], enums: [], services: [], pending: [] };
+
+    constructor(private readonly tokens: Token[], private readonly fileName: string) { }
+
+    parse(): ParsedProto {
+        while (!this.atEnd()) {
+            const keyword = this.next();
+            switch (keyword.value) {
+                case 'syntax':
+                case 'edition':
+                    this.expect('=');
+                    this.syntax = this.expectType('string').value;
+                    this.expect(';');
+                    break;
+                case 'package':
+                    this.packageName = this.expectType('ident').value;
+                    this.expect(';');
+                    break;
+                case 'import': {
+                    let file = this.next();
+                    if (file.value === 'public' || file.value === 'weak') {
+                        file = this.next();
+                    }
+                    if (file.type !== 'string') {
+                        this.fail(file, 'Expected an import path');
+                    }
+                    this.result.imports.push(file.value);
+                    this.expect(';');
+                    break;
+                }
+                case 'message':
+                    this.parseMessage(this.packageName);
+                    break;
+                case 'enum':
+                    this.parseEnum(this.packageName);
+                    break;
+                case 'service':
+                    this.parseService();
+                    break;
+                case 'extend':
+                    this.skipStatement();
+                    break;
+                case 'option':
+                    this.skipStatement();
+                    break;
+                case ';':
+                    break;
+                default:
+                    this.fail(keyword, `Unexpected "${keyword.value}"`);
+            }
+        }
+        return this.result;
+    }
+
+    private parseMessage(scope: string): void {
+        const name = this.qualify(scope, this.expectType('ident').value);
+        const message: ProtoMessage = { name, fields: [] };
+        this.result.messages.push(message);
+        this.expect('{');
+        while (!this.accept('}')) {
+            const token = this.peek();
+            if (!token) {
+                this.fail(this.tokens[this.tokens.length - 1], 'Expected "}"');
+            }
+            switch (token.value) {
+                case 'message':
+                    this.next();
+                    this.parseMessage(name);
+                    break;
+                case 'enum':
+                    this.next();
+                    this.parseEnum(name);
+                    break;
+                case 'oneof': {
+                    this.next();
+                    const oneof = this.expectType('ident').value;
+                    this.expect('{');
+                    while (!this.accept('}')) {
+                        if (this.peek()?.value === 'option') {
+                            this.skipStatement();
+                        } else {
+                            this.parseField(message, { oneof });
+                        }
+                    }
+                    break;
+                }
+                case 'map':
+                    if (this.peek(1)?.value === '<') {
+                        this.parseMapField(message);
+                        break;
+                    }
+                    this.parseField(message);
+                    break;
+                case 'option':
+                case 'reserved':
+                case 'extensions':
+                case 'extend':
+                    this.skipStatement();
+                    break;
+                case ';':
+                    this.next();
+                    break;
+                default:
+                    this.parseField(message);
+            }
+        }
+    }
+
+    private parseField(message: ProtoMessage, context: { oneof?: string } = {}): void {
+        let label = '';
+        if (!context.oneof && ['optional', 'required', 'repeated'].includes(this.peek()?.value ?? '') && this.peek(1)?.type === 'ident' && this.peek(2)?.value !== '=') {
+            label = this.next().value;
+        }
+        const typeToken = this.expectType('ident');
+        if (typeToken.value === 'group') {
+            this.fail(typeToken, 'Groups are not supported');
+        }
+        const name = this.expectType('ident').value;
+        this.expect('=');
+        const number = this.parseInteger();
+        const options = this.parseFieldOptions();
+        this.expect(';');
+
+        const isScalar = (SCALAR_TYPES as readonly string[]).includes(typeToken.value);
+        const repeated = label === 'repeated';
+        const field: ProtoField = {
+            name,
+            jsonName: options.jsonName ?? toJsonName(name),
+            number,
+            type: typeToken.value,
+            kind: isScalar ? 'scalar' : 'message',
+            repeated,
+            map: false,
+            packed: repeated && (options.packed ?? this.syntax !== 'proto2'),
+            optional: label === 'optional' && this.syntax === 'proto3',
+            ...(context.oneof ? { oneof: context.oneof } : {}),
+        };
+        message.fields.push(field);
+        if (!isScalar) {
+            this.result.pending.push({ field, property: 'type', scope: message.name, location: this.location(typeToken) });
+        }
+    }
+
+    private parseMapField(message: ProtoMessage): void {
+        this.expect('map');
+        this.expect('<');
+        const keyType = this.expectType('ident');
+        if (!(SCALAR_TYPES as readonly string[]).includes(keyType.value) || ['double', 'float', 'bytes'].includes(keyType.value)) {
+            this.fail(keyType, `Invalid map key type "${keyType.value}"`);
+        }
+        this.expect(',');
+        const valueType = this.expectType('ident');
+        this.expect('>');
+        const name = this.expectType('ident').value;
+        this.expect('=');
+        const number = this.parseInteger();
+        const options = this.parseFieldOptions();
+        this.expect(';');
+
+        // Map fields are repeated entry messages on the wire
+        const entryName = `${message.name}.${name.replace(/(^|_)([a-z])/g, (_, __, letter: string) => letter.toUpperCase())}Entry`;
+        const isScalar = (SCALAR_TYPES as readonly string[]).includes(valueType.value);
+        const value: ProtoField = {
+            name: 'value', jsonName: 'value', number: 2, type: valueType.value, kind: isScalar ? 'scalar' : 'message',
+            repeated: false, map: false, packed: false, optional: false,
+        };
+        this.result.messages.push({
+            name: entryName,
+            mapEntry: true,
+            fields: [
+                { name: 'key', jsonName: 'key', number: 1, type: keyType.value, kind: 'scalar', repeated: false, map: false, packed: false, optional: false },
+                value,
+            ],
+        });
+        if (!isScalar) {
+            this.result.pending.push({ field: value, property: 'type', scope: message.name, location: this.location(valueType) });
+        }
+        message.fields.push({
+            name,
+            jsonName: options.jsonName ?? toJsonName(name),
+            number,
+            type: entryName,
+            kind: 'message',
+            repeated: true,
+            map: true,
+            packed: false,
+            optional: false,
+        });
+    }
+
+    /**
+     * Read the [...] after a field number, keeping the options that change encoding
+     */
+    private parseFieldOptions(): { jsonName?: string; packed?: boolean } {
+        const options: { jsonName?: string; packed?: boolean } = {};
+        if (!this.accept('[')) {
+            return options;
+        }
+        let depth = 1;
+        while (depth > 0) {
+            const token = this.next();
+            if (token.value === '[' || token.value === '{') {
+                depth++;
+            } else if (token.value === ']' || token.value === '}') {
+                depth--;
+            } else if (depth === 1 && this.peek()?.value === '=') {
+                const value = this.peek(1);
+                if (token.value === 'json_name' && value?.type === 'string') {
+                    options.jsonName = value.value;
+                } else if (token.value === 'packed' && value?.type === 'ident') {
+                    options.packed = value.value === 'true';
+                }
+            }
+        }
+        return options;
+    }
+
+    private parseEnum(scope: string): void {
+        const protoEnum: ProtoEnum = { name: this.qualify(scope, this.expectType('ident').value), values: [] };
+        this.result.enums.push(protoEnum);
+        this.expect('{');
+        while (!this.accept('}')) {
+            const token = this.peek();
+            if (!token) {
+                this.fail(this.tokens[this.tokens.length - 1], 'Expected "}"');
+            }
+            if (token.value === 'option' || token.value === 'reserved') {
+                this.skipStatement();
+            } else if (!this.accept(';')) {
+                const name = this.expectType('ident').value;
+                this.expect('=');
+                protoEnum.values.push({ name, number: this.parseInteger() });
+                this.parseFieldOptions();
+                this.expect(';');
+            }
+        }
+    }
+
+    private parseService(): void {
+        const service: ProtoService = { name: this.qualify(this.packageName, this.expectType('ident').value), methods: [] };
+        this.result.services.push(service);
+        this.expect('{');
+        while (!this.accept('}')) {
+            const token = this.next();
+            if (token.value === 'option') {
+                this.pos--;
+                this.skipStatement();
+                continue;
+            }
+            if (token.value === ';') {
+                continue;
+            }
+            if (token.value !== 'rpc') {
+                this.fail(token, `Unexpected "${token.value}"`);
+            }
+            const name = this.expectType('ident').value;
+            this.expect('(');
+            const clientStreaming = this.peek()?.value === 'stream' && this.peek(1)?.type === 'ident' ? !!this.next() : false;
+            const input = this.expectType('ident');
+            this.expect(')');
+            this.expect('returns');
+            this.expect('(');
+            const serverStreaming = this.peek()?.value === 'stream' && this.peek(1)?.type === 'ident' ? !!this.next() : false;
+            const output = this.expectType('ident');
+            this.expect(')');
+            if (this.peek()?.value === '{') {
+                this.skipBlock();
+            } else {
+                this.expect(';');
+            }
+
+            const method: ProtoMethod = { name, inputType: input.value, outputType: output.value, clientStreaming, serverStreaming };
+            service.methods.push(method);
+            this.result.pending.push({ field: method, property: 'inputType', scope: service.name, location: this.location(input) });
+            this.result.pending.push({ field: method, property: 'outputType', scope: service.name, location: this.location(output) });
+        }
+    }
+
+    private parseInteger(): number {
+        const negative = !!this.accept('-');
+        const token = this.expectType('number');
+        const value = Number(token.value);
+        if (!Number.isInteger(value)) {
+            this.fail(token, `Expected an integer, got "${token.value}"`);
+        }
+        return negative ? -value : value;
+    }
+
+    /**
+     * Skip a statement up to its ";" - or its block, for statements like extend that end with one
+     */
+    private skipStatement(): void {
+        let depth = 0;
+        while (!this.atEnd()) {
+            const token = this.next();
+            if (token.value === '{' || token.value === '[' || token.value === '(') {
+                depth++;
+            } else if (token.value === '}' || token.value === ']' || token.value === ')') {
+                depth--;
+                if (depth === 0 && token.value === '}' && this.peek()?.value !== ';') {
+                    return;
+                }
+            } else if (token.value === ';' && depth === 0) {
+                return;
+            }
+        }
+    }
+
+    private skipBlock(): void {
+        this.expect('{');
+        let depth = 1;
+        while (depth > 0) {
+            const token = this.next();
+            depth += token.value === '{' ? 1 : token.value === '}' ? -1 : 0;
+        }
+    }
+
+    private qualify(scope: string, name: string): string {
+        return scope ? `${scope}.${name}` : name;
+    }
+
+    private location(token: Token): string {
+        return `${this.fileName}:${token.line}:${token.column}`;
+    }
+
+    private atEnd(): boolean {
+        return this.pos >= this.tokens.length;
+    }
+
+    private peek(offset = 0): Token | undefined {
+        return this.tokens[this.pos + offset];
+    }
+
+    private next(): Token {
+        const token = this.tokens[this.pos++];
+        if (!token) {
+            const last = this.tokens[this.tokens.length - 1];
+            throw new Error(`${this.fileName}:${last?.line ?? 1}:${last?.column ?? 1}: Unexpected end of file`);
+        }
+        return token;
+    }
+
+    private accept(value: string): Token | undefined {
+        const token = this.peek();
+        if (token && token.value === value && token.type !== 'string') {
+            this.pos++;
+            return token;
+        }
+        return undefined;
+    }
+
+    private expect(value: string): Token {
+        const token = this.next();
+        if (token.value !== value || token.type === 'string') {
+            this.fail(token, `Expected "${value}", got "${token.value}"`);
+        }
+        return token;
+    }
+
+    private expectType(type: Token['type']): Token {
+        const token = this.next();
+        if (token.type !== type) {
+            this.fail(token, `Expected ${type === 'ident' ? 'a name' : `a ${type}`}, got "${token.value}"`);
+        }
+        return token;
+    }
+
+    private fail(token: Token, message: string): never {
+        throw new Error(`${this.location(token)}: ${message}`);
+    }
+}
+
+/**
+ * Parse one .proto file. Type references stay as written until the schema is built.
+ */
+function parseProtoFile(source: string, fileName: string): ParsedProto {
+    return new ProtoParser(tokenize(source, fileName), fileName).parse();
+}
+
+/**
+ * Build a schema from .proto sources keyed by file name - files are resolved by their import paths
+ * @throws on syntax errors and type references that none of the files define
+ */
+export function parseProtoSchema(files: Record<string, string>): ProtoSchema {
+    return buildSchema(Object.entries(files).map(([fileName, source]) => parseProtoFile(source, fileName)));
+}
+
+/**
+ * Collect the definitions of parsed files and resolve their type references
+ */
+function buildSchema(files: ParsedProto[]): ProtoSchema {
+    const schema: ProtoSchema = { messages: {}, enums: {}, services: {} };
+    const pending: PendingType[] = [];
+    for (const parsed of files) {
+        parsed.messages.forEach(message => schema.messages[message.name] = message);
+        parsed.enums.forEach(protoEnum => schema.enums[protoEnum.name] = protoEnum);
+        parsed.services.forEach(service => schema.services[service.name] = service);
+        pending.push(...parsed.pending);
+    }
+
+    for (const reference of pending) {
+        const written = reference.field[reference.property as keyof typeof reference.field] as string;
+        const resolved = resolveTypeName(schema, written, reference.scope);
+        if (!resolved) {
+            throw new Error(`${reference.location}: Unknown type "${written}"`);
+        }
+        (reference.field as unknown as Record<string, string>)[reference.property] = resolved;
+        if ('kind' in reference.field) {
+            reference.field.kind = schema.enums[resolved] ? 'enum' : 'message';
+        } else if (!schema.messages[resolved]) {
+            throw new Error(`${reference.location}: "${written}" is not a message type`);
+        }
+    }
+    return schema;
+}
+
+/**
+ * Look a type reference up the way protoc does: from the innermost scope outwards
+ */
+function resolveTypeName(schema: ProtoSchema, name: string, scope: string): string | undefined {
+    const exists = (candidate: string) => !!schema.messages[candidate] || !!schema.enums[candidate];
+    if (name.startsWith('.')) {
+        return exists(name.slice(1)) ? name.slice(1) : undefined;
+    }
+    const parts = scope ? scope.split('.') : [];
+    for (let i = parts.length; i >= 0; i--) {
+        const candidate = [...parts.slice(0, i), name].join('.');
+        if (exists(candidate)) {
+            return candidate;
+        }
+    }
+    return undefined;
+}
+
+/**
+ * Load a .proto file and everything it imports. Imports are looked up in the import paths
+ * in order; the well-known google/protobuf types are built in.
+ * @param importPaths - directories imports are relative to, e.g. the workspace folder
+ */
+export async function loadProtoSchema(file: string, importPaths: string[]): Promise<ProtoSchema> {
+    let source: string;
+    try {
+        source = await fs.promises.readFile(file, 'utf8');
+    } catch (error) {
+        throw new Error(`Could not read ${file}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+
+    const entry = parseProtoFile(source, path.basename(file));
+    const files = [entry];
+    const loaded = new Set<string>();
+    const queue = [...entry.imports];
+    while (queue.length > 0) {
+        const name = queue.shift()!;
+        if (loaded.has(name)) {
+            continue;
+        }
+        loaded.add(name);
+        let imported: string | undefined;
+        for (const directory of importPaths) {
+            imported = await fs.promises.readFile(path.join(directory, name), 'utf8').catch(() => undefined);
+            if (imported !== undefined) {
+                break;
+            }
+        }
+        imported ??= WELL_KNOWN_PROTOS[name];
+        if (imported === undefined) {
+            throw new Error(`Import not found: ${name} (looked in ${importPaths.join(', ')})`);
+        }
+        const parsed = parseProtoFile(imported, name);
+        files.push(parsed);
+        queue.push(...parsed.imports);
+    }
+    return buildSchema(files);
+}
+
+// ==================== Wire format ====================
+
+const WireType = {
+    Varint: 0,
+    Fixed64: 1,
+    LengthDelimited: 2,
+    StartGroup: 3,
+    EndGroup: 4,
+    Fixed32: 5,
+} as const;
+
+const INTEGER_RANGES: Partial<Record<ScalarType, [bigint, bigint]>> = {
+    int32: [-(2n ** 31n), 2n ** 31n - 1n],
+    sint32: [-(2n ** 31n), 2n ** 31n - 1n],
+    sfixed32: [-(2n ** 31n), 2n ** 31n - 1n],
+    uint32: [0n, 2n ** 32n - 1n],
+    fixed32: [0n, 2n ** 32n - 1n],
+    int64: [-(2n ** 63n), 2n ** 63n - 1n],
+    sint64: [-(2n ** 63n), 2n ** 63n - 1n],
+    sfixed64: [-(2n ** 63n), 2n ** 63n - 1n],
+    uint64: [0n, 2n ** 64n - 1n],
+    fixed64: [0n, 2n ** 64n - 1n],
+};
+
+function getWireType(field: ProtoField): number {
+    if (field.kind !== 'scalar') {
+        return field.kind === 'enum' ? WireType.Varint : WireType.LengthDelimited;
+    }
+    switch (field.type as ScalarType) {
+        case 'double': case 'fixed64': case 'sfixed64':
+            return WireType.Fixed64;
+        case 'float': case 'fixed32': case 'sfixed32':
+            return WireType.Fixed32;
+        case 'string': case 'bytes':
+            return WireType.LengthDelimited;
+        default:
+            return WireType.Varint;
+    }
+}
+
+function encodeVarint(value: bigint): Buffer {
+    let remaining = BigInt.asUintN(64, value);
+    const bytes: number[] = [];
+    do {
+        let byte = Number(remaining & 0x7fn);
+        remaining >>= 7n;
+        if (remaining > 0n) {
+            byte |= 0x80;
+        }
+        bytes.push(byte);
+    } while (remaining > 0n);
+    return Buffer.from(bytes);
+}
+
+/**
+ * Sequential reader over an encoded message
+ */
+class ProtoReader {
+    pos = 0;
+
+    constructor(private readonly buffer: Buffer) { }
+
+    get done(): boolean {
+        return this.pos >= this.buffer.length;
+    }
+
+    varint(): bigint {
+        let result = 0n;
+        for (let shift = 0n; shift < 70n; shift += 7n) {
+            if (this.pos >= this.buffer.length) {
+                throw new Error('Truncated message');
+            }
+            const byte = this.buffer[this.pos++];
+            result |= BigInt(byte & 0x7f) << shift;
+            if (!(byte & 0x80)) {
+                return BigInt.asUintN(64, result);
+            }
+        }
+        throw new Error('Invalid varint');
+    }
+
+    bytes(length: number): Buffer {
+        if (this.pos + length > this.buffer.length) {
+            throw new Error('Truncated message');
+        }
+        const bytes = this.buffer.subarray(this.pos, this.pos + length);
+        this.pos += length;
+        return bytes;
+    }
+
+    lengthDelimited(): Buffer {
+        return this.bytes(Number(this.varint()));
+    }
+
+    skip(wireType: number): void {
+        switch (wireType) {
+            case WireType.Varint: this.varint(); break;
+            case WireType.Fixed64: this.bytes(8); break;
+            case WireType.LengthDelimited: this.lengthDelimited(); break;
+            case WireType.Fixed32: this.bytes(4); break;
+            default: throw new Error(`Unsupported wire type ${wireType}`);
+        }
+    }
+}
+
+// ==================== JSON mapping ====================
+
+type Json = null | boolean | number | string | Json[] | { [key: string]: Json };
+
+function describe(value: unknown): string {
+    return typeof value === 'string' ? `"${value}"` : JSON.stringify(value) ?? String(value);
+}
+
+function fieldError(message: ProtoMessage, field: ProtoField, expected: string, value: unknown): Error {
+    return new Error(`Invalid value for field "${field.jsonName}" of ${message.name}: expected ${expected}, got ${describe(value)}`);
+}
+
+/**
+ * Encode the JSON form of a message (proto3 JSON mapping) in the binary wire format.
+ * Fields may be named by their JSON or proto name; null fields are left out.
+ * @throws on unknown fields and values that don't fit the field type
+ */
+export function encodeMessage(schema: ProtoSchema, typeName: string, value: unknown): Buffer {
+    const message = schema.messages[typeName];
+    if (!message) {
+        throw new Error(`Unknown message type "${typeName}"`);
+    }
+    const json = wellKnownFromJson(typeName, value);
+    if (json === null || json === undefined) {
+        return Buffer.alloc(0);
+    }
+    if (typeof json !== 'object' || Array.isArray(json)) {
+        throw new Error(`Expected a JSON object for ${typeName}, got ${describe(json)}`);
+    }
+
+    const parts: Buffer[] = [];
+    for (const [key, fieldValue] of Object.entries(json)) {
+        const field = message.fields.find(f => f.jsonName === key || f.name === key);
+        if (!field) {
+            throw new Error(`Unknown field "${key}" in message ${typeName}`);
+        }
+        if (fieldValue === null && !(field.kind === 'enum' && field.type === 'google.protobuf.NullValue') && field.type !== 'google.protobuf.Value') {
+            continue;
+        }
+        if (field.map) {
+            if (typeof fieldValue !== 'object' || fieldValue === null || Array.isArray(fieldValue)) {
+                throw fieldError(message, field, 'an object', fieldValue);
+            }
+            const keyField = schema.messages[field.type].fields[0];
+            for (const [entryKey, entryValue] of Object.entries(fieldValue)) {
+                const mapKey = keyField.type === 'bool' ? entryKey === 'true' : entryKey;
+                const entry = encodeMessage(schema, field.type, { key: mapKey, value: entryValue });
+                parts.push(encodeVarint(BigInt(field.number << 3 | WireType.LengthDelimited)), encodeVarint(BigInt(entry.length)), entry);
+            }
+        } else if (field.repeated) {
+            if (!Array.isArray(fieldValue)) {
+                throw fieldError(message, field, 'an array', fieldValue);
+            }
+            const values = fieldValue.map(item => encodeValue(schema, message, field, item));
+            if (field.packed && getWireType(field) !== WireType.LengthDelimited) {
+                if (values.length > 0) {
+                    const packed = Buffer.concat(values);
+                    parts.push(encodeVarint(BigInt(field.number << 3 | WireType.LengthDelimited)), encodeVarint(BigInt(packed.length)), packed);
+                }
+            } else {
+                values.forEach(encoded => parts.push(encodeVarint(BigInt(field.number << 3 | getWireType(field))), encoded));
+            }
+        } else {
+            parts.push(encodeVarint(BigInt(field.number << 3 | getWireType(field))), encodeValue(schema, message, field, fieldValue));
+        }
+    }
+    return Buffer.concat(parts);
+}
+
+/**
+ * Encode a single value of a field, without its tag. Length-delimited values carry their length.
+ */
+function encodeValue(schema: ProtoSchema, message: ProtoMessage, field: ProtoField, value: unknown): Buffer {
+    if (field.kind === 'message') {
+        const encoded = encodeMessage(schema, field.type, value);
+        return Buffer.concat([encodeVarint(BigInt(encoded.length)), encoded]);
+    }
+    if (field.kind === 'enum') {
+        const protoEnum = schema.enums[field.type];
+        const number = value === null ? 0 : typeof value === 'string' ? protoEnum.values.find(v => v.name === value)?.number : value;
+        if (typeof number !== 'number' || !Number.isInteger(number)) {
+            throw fieldError(message, field, `one of ${protoEnum.values.map(v => v.name).join(', ')}`, value);
+        }
+        return encodeVarint(BigInt(number));
+    }
+
+    const type = field.type as ScalarType;
+    switch (type) {
+        case 'string':
+            if (typeof value !== 'string') {
+                throw fieldError(message, field, 'a string', value);
+            }
+            return Buffer.concat([encodeVarint(BigInt(Buffer.byteLength(value))), Buffer.from(value, 'utf8')]);
+        case 'bytes': {
+            if (typeof value !== 'string' || !/^[A-Za-z0-9+/\-_]*=*$/.test(value)) {
+                throw fieldError(message, field, 'base64 bytes', value);
+            }
+            const bytes = Buffer.from(value, 'base64');
+            return Buffer.concat([encodeVarint(BigInt(bytes.length)), bytes]);
+        }
+        case 'bool':
+            if (typeof value !== 'boolean') {
+                throw fieldError(message, field, 'true or false', value);
+            }
+            return encodeVarint(value ? 1n : 0n);
+        case 'double':
+        case 'float': {
+            const number = typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+            if (typeof number !== 'number' || (Number.isNaN(number) && value !== 'NaN')) {
+                throw fieldError(message, field, 'a number', value);
+            }
+            const buffer = Buffer.alloc(type === 'double' ? 8 : 4);
+            if (type === 'double') {
+                buffer.writeDoubleLE(number);
+            } else {
+                buffer.writeFloatLE(number);
+            }
+            return buffer;
+        }
+    }
+
+    // Integers: JSON numbers or decimal strings (64-bit values don't fit a JSON number)
+    let integer: bigint;
+    try {
+        if ((typeof value !== 'number' || !Number.isInteger(value)) && (typeof value !== 'string' || !/^-?\d+$/.test(value))) {
+            throw new Error();
+        }
+        integer = BigInt(value);
+    } catch {
+        throw fieldError(message, field, `an integer (${type})`, value);
+    }
+    const [min, max] = INTEGER_RANGES[type]!;
+    if (integer < min || integer > max) {
+        throw fieldError(message, field, `a value between ${min} and ${max} (${type})`, value);
+    }
+    switch (type) {
+        case 'sint32':
+        case 'sint64':
+            return encodeVarint(integer >= 0n ? integer * 2n : -integer * 2n - 1n);
+        case 'fixed32':
+        case 'sfixed32': {
+            const buffer = Buffer.alloc(4);
+            buffer.writeUInt32LE(Number(BigInt.asUintN(32, integer)));
+            return buffer;
+        }
+        case 'fixed64':
+        case 'sfixed64': {
+            const buffer = Buffer.alloc(8);
+            buffer.writeBigUInt64LE(BigInt.asUintN(64, integer));
+            return buffer;
+        }
+        default:
+            return encodeVarint(integer);
+    }
+}
+
+/**
+ * Decode a message into its JSON form (proto3 JSON mapping). Absent fields decode as their
+ * defaults, so responses show every field; absent message fields and oneof members are left out.
+ * 64-bit integers are strings and bytes are base64, as in the JSON mapping.
+ */
+export function decodeMessage(schema: ProtoSchema, typeName: string, buffer: Buffer): Json {
+    const message = schema.messages[typeName];
+    if (!message) {
+        throw new Error(`Unknown message type "${typeName}"`);
+    }
+    const result: Record<string, Json> = {};
+    const reader = new ProtoReader(buffer);
+    while (!reader.done) {
+        const tag = Number(reader.varint());
+        const number = tag >>> 3;
+        const wireType = tag & 7;
+        const field = message.fields.find(f => f.number === number);
+        if (!field) {
+            reader.skip(wireType);
+            continue;
+        }
+
+        if (field.map) {
+            const entry = decodeMessage(schema, field.type, reader.lengthDelimited()) as Record<string, Json>;
+            const map = (result[field.jsonName] ??= {}) as Record<string, Json>;
+            map[String(entry.key)] = entry.value ?? null;
+        } else if (field.repeated) {
+            const list = (result[field.jsonName] ??= []) as Json[];
+            // Packed runs are accepted whatever the field declares, as parsers must
+            if (wireType === WireType.LengthDelimited && getWireType(field) !== WireType.LengthDelimited) {
+                const packed = new ProtoReader(reader.lengthDelimited());
+                while (!packed.done) {
+                    list.push(decodeValue(schema, field, packed));
+                }
+            } else {
+                list.push(decodeValue(schema, field, reader));
+            }
+        } else {
+            if (wireType !== getWireType(field)) {
+                throw new Error(`Field "${field.name}" of ${typeName} has wire type ${wireType}, expected ${getWireType(field)}`);
+            }
+            result[field.jsonName] = decodeValue(schema, field, reader);
+        }
+    }
+
+    for (const field of message.fields) {
+        if (!(field.jsonName in result) && !field.oneof && !field.optional && (field.kind !== 'message' || field.repeated)) {
+            result[field.jsonName] = field.map ? {} : field.repeated ? [] : defaultValue(schema, field);
+        }
+    }
+    return wellKnownToJson(typeName, result);
+}
+
+function decodeValue(schema: ProtoSchema, field: ProtoField, reader: ProtoReader): Json {
+    if (field.kind === 'message') {
+        return decodeMessage(schema, field.type, reader.lengthDelimited());
+    }
+    if (field.kind === 'enum') {
+        const number = Number(BigInt.asIntN(32, reader.varint()));
+        if (field.type === 'google.protobuf.NullValue') {
+            return null;
+        }
+        return schema.enums[field.type].values.find(v => v.number === number)?.name ?? number;
+    }
+
+    switch (field.type as ScalarType) {
+        case 'string': return reader.lengthDelimited().toString('utf8');
+        case 'bytes': return reader.lengthDelimited().toString('base64');
+        case 'bool': return reader.varint() !== 0n;
+        case 'double': return toJsonNumber(reader.bytes(8).readDoubleLE());
+        case 'float': return toJsonNumber(reader.bytes(4).readFloatLE());
+        case 'int32': return Number(BigInt.asIntN(32, reader.varint()));
+        case 'uint32': return Number(BigInt.asUintN(32, reader.varint()));
+        case 'sint32': return Number(decodeZigZag(reader.varint()));
+        case 'fixed32': return reader.bytes(4).readUInt32LE();
+        case 'sfixed32': return reader.bytes(4).readInt32LE();
+        case 'int64': return BigInt.asIntN(64, reader.varint()).toString();
+        case 'uint64': return reader.varint().toString();
+        case 'sint64': return decodeZigZag(reader.varint()).toString();
+        case 'fixed64': return reader.bytes(8).readBigUInt64LE().toString();
+        case 'sfixed64': return reader.bytes(8).readBigInt64LE().toString();
+    }
+    throw new Error(`Unknown scalar type "${field.type}"`);
+}
+
+function decodeZigZag(value: bigint): bigint {
+    return (value >> 1n) ^ -(value & 1n);
+}
+
+/** NaN and infinities have no JSON number, the JSON mapping writes them as strings */
+function toJsonNumber(value: number): Json {
+    return Number.isFinite(value) ? value : String(value);
+}
+
+function defaultValue(schema: ProtoSchema, field: ProtoField): Json {
+    if (field.kind === 'enum') {
+        const values = schema.enums[field.type].values;
+        return field.type === 'google.protobuf.NullValue' ? null : (values.find(v => v.number === 0) ?? values[0])?.name ?? 0;
+    }
+    switch (field.type as ScalarType) {
+        case 'string': case 'bytes': return '';
+        case 'bool': return false;
+        case 'int64': case 'uint64': case 'sint64': case 'fixed64': case 'sfixed64': return '0';
+        default: return 0;
+    }
+}
+
+/**
+ * A JSON message with every field set to its default - the starting point of the message editor.
+ * Only the first member of each oneof is included; recursive message fields are null.
+ */
+export function createMessageTemplate(schema: ProtoSchema, typeName: string, seen: string[] = []): Json {
+    const message = schema.messages[typeName];
+    if (!message || seen.includes(typeName)) {
+        return null;
+    }
+    const result: Record<string, Json> = {};
+    const oneofs = new Set<string>();
+    for (const field of message.fields) {
+        if (field.oneof) {
+            if (oneofs.has(field.oneof)) {
+                continue;
+            }
+            oneofs.add(field.oneof);
+        }
+        result[field.jsonName] = field.map ? {}
+            : field.repeated ? []
+            : field.kind === 'message' ? createMessageTemplate(schema, field.type, [...seen, typeName])
+            : defaultValue(schema, field);
+    }
+    return wellKnownToJson(typeName, result);
+}
+
+// ==================== Well-known types ====================
+
+const WRAPPER_TYPES = ['Double', 'Float', 'Int64', 'UInt64', 'Int32', 'UInt32', 'Bool', 'String', 'Bytes']
+    .map(name => `google.protobuf.${name}Value`);
+
+/**
+ * Turn the decoded form of a well-known type into its special JSON representation
+ * (Timestamp and Duration strings, bare wrapper values, plain JSON for Struct)
+ */
+function wellKnownToJson(typeName: string, decoded: Record<string, Json>): Json {
+    if (WRAPPER_TYPES.includes(typeName)) {
+        return decoded.value;
+    }
+    switch (typeName) {
+        case 'google.protobuf.Timestamp': {
+            const seconds = Number(decoded.seconds);
+            const date = new Date(seconds * 1000).toISOString().replace('.000Z', '');
+            return `${date}${formatNanos(Number(decoded.nanos))}Z`;
+        }
+        case 'google.protobuf.Duration': {
+            const seconds = BigInt(decoded.seconds as string);
+            const nanos = Number(decoded.nanos);
+            const sign = seconds < 0n || nanos < 0 ? '-' : '';
+            const absolute = seconds < 0n ? -seconds : seconds;
+            return `${sign}${absolute}${formatNanos(Math.abs(nanos))}s`;
+        }
+        case 'google.protobuf.FieldMask':
+            return (decoded.paths as string[]).map(toJsonName).join(',');
+        case 'google.protobuf.Struct':
+            return decoded.fields;
+        case 'google.protobuf.ListValue':
+            return decoded.values;
+        case 'google.protobuf.Value': {
+            const kind = Object.keys(decoded)[0];
+            return kind === undefined ? null : decoded[kind];
+        }
+    }
+    return decoded;
+}
+
+/** Fractional seconds in 0, 3, 6 or 9 digits */
+function formatNanos(nanos: number): string {
+    if (!nanos) {
+        return '';
+    }
+    const digits = String(nanos).padStart(9, '0');
+    return '.' + (digits.endsWith('000000') ? digits.slice(0, 3) : digits.endsWith('000') ? digits.slice(0, 6) : digits);
+}
+
+/**
+ * Turn the special JSON representation of a well-known type into its message form
+ */
+function wellKnownFromJson(typeName: string, value: unknown): unknown {
+    if (WRAPPER_TYPES.includes(typeName)) {
+        return value === null ? null : { value };
+    }
+    switch (typeName) {
+        case 'google.protobuf.Timestamp': {
+            const match = typeof value === 'string' && /^(\d{4}-\d\d-\d\dT\d\d:\d\d:\d\d)(?:\.(\d{1,9}))?(Z|[+-]\d\d:\d\d)$/i.exec(value);
+            const millis = match ? Date.parse(match[1] + match[3].toUpperCase()) : NaN;
+            if (!match || Number.isNaN(millis)) {
+                throw new Error(`Invalid Timestamp ${describe(value)}: expected an RFC 3339 date like "2024-01-01T00:00:00Z"`);
+            }
+            return { seconds: String(millis / 1000), nanos: Number((match[2] ?? '').padEnd(9, '0')) };
+        }
+        case 'google.protobuf.Duration': {
+            const match = typeof value === 'string' && /^(-)?(\d+)(?:\.(\d{1,9}))?s$/.exec(value);
+            if (!match) {
+                throw new Error(`Invalid Duration ${describe(value)}: expected seconds like "1.5s"`);
+            }
+            const sign = match[1] ? -1 : 1;
+            return { seconds: `${match[1] ?? ''}${match[2]}`, nanos: sign * Number((match[3] ?? '').padEnd(9, '0')) };
+        }
+        case 'google.protobuf.FieldMask':
+            if (typeof value !== 'string') {
+                throw new Error(`Invalid FieldMask ${describe(value)}: expected comma separated paths`);
+            }
+            return { paths: value.split(',').filter(Boolean).map(p => p.replace(/[A-Z]/g, letter => '_' + letter.toLowerCase())) };
+        case 'google.protobuf.Struct':
+            return value === null ? null : { fields: value };
+        case 'google.protobuf.ListValue':
+            return value === null ? null : { values: value };
+        case 'google.protobuf.Value':
+            if (value === null) {
+                return { nullValue: null };
+            }
+            if (Array.isArray(value)) {
+                return { listValue: value };
+            }
+            switch (typeof value) {
+                case 'number': return { numberValue: value };
+                case 'string': return { stringValue: value };
+                case 'boolean': return { boolValue: value };
+                default: return { structValue: value };
+            }
+    }
+    return value;
+}
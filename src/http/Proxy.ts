@@ -0,0 +1,151 @@
+import * as http from 'http';
+import * as https from 'https';
+import * as net from 'net';
+import { URL } from 'url';
+
+export interface ProxyTunnelOptions {
+    timeout?: number;
+    /** Proxy-Authorization value used when the proxy URL has no credentials */
+    proxyAuthorization?: string;
+    /** Certificate checks for https:// proxies */
+    rejectUnauthorized?: boolean;
+    /** Aborting closes the tunnel request */
+    signal?: AbortSignal;
+}
+
+/**
+ * Find the proxy for a request. An explicit proxy wins over the HTTPS_PROXY/HTTP_PROXY/ALL_PROXY
+ * environment variables; hosts in noProxy or NO_PROXY are reached directly.
+ */
+export function getProxyForUrl(
+    target: URL,
+    proxy?: string,
+    noProxy: string[] = [],
+    env: NodeJS.ProcessEnv = process.env
+): URL | undefined {
+    const envNoProxy = (env.NO_PROXY ?? env.no_proxy ?? '').split(/[\s,]+/);
+    if (isProxyBypassed(target, [...noProxy, ...envNoProxy])) {
+        return undefined;
+    }
+
+    const value = proxy || (target.protocol === 'https:'
+        ? env.HTTPS_PROXY || env.https_proxy || env.ALL_PROXY || env.all_proxy
+        : env.HTTP_PROXY || env.http_proxy || env.ALL_PROXY || env.all_proxy);
+    if (!value) {
+        return undefined;
+    }
+
+    let proxyUrl: URL;
+    try {
+        proxyUrl = new URL(/^[a-z][a-z0-9+.-]*:\/\//i.test(value) ? value : `http://${value}`);
+    } catch {
+        throw new Error(`Invalid proxy URL: ${value}`);
+    }
+    if (proxyUrl.protocol !== 'http:' && proxyUrl.protocol !== 'https:') {
+        throw new Error(`Unsupported proxy protocol: ${proxyUrl.protocol} (only http:// and https:// proxies are supported)`);
+    }
+    return proxyUrl;
+}
+
+/**
+ * curl-style bypass list: `*`, `host`, `host:port`, `.domain` or `*.domain`.
+ * A plain name also matches its subdomains.
+ */
+export function isProxyBypassed(target: URL, noProxy: string[]): boolean {
+    const hostname = target.hostname.toLowerCase().replace(/^\[|\]$/g, '');
+    const port = target.port || (target.protocol === 'https:' ? '443' : '80');
+
+    return noProxy.some(rawEntry => {
+        let entry = rawEntry.trim().toLowerCase();
+        if (!entry) {
+            return false;
+        }
+        if (entry === '*') {
+            return true;
+        }
+
+        const portMatch = entry.match(/^(.*):(\d+)$/);
+        if (portMatch) {
+            if (portMatch[2] !== port) {
+                return false;
+            }
+            entry = portMatch[1];
+        }
+        entry = entry.replace(/^\[|\]$/g, '').replace(/^\*?\./, '');
+        return hostname === entry || hostname.endsWith(`.${entry}`);
+    });
+}
+
+/**
+ * The proxy URL without credentials, safe to log and show
+ */
+export function describeProxy(proxy: URL): string {
+    return `${proxy.protocol}//${proxy.host}`;
+}
+
+/**
+ * Proxy-Authorization header value - Basic credentials from the proxy URL, otherwise the configured value
+ */
+export function getProxyAuthorization(proxy: URL, proxyAuthorization?: string): string | undefined {
+    if (proxy.username) {
+        const credentials = `${decodeURIComponent(proxy.username)}:${decodeURIComponent(proxy.password)}`;
+        return `Basic ${Buffer.from(credentials).toString('base64')}`;
+    }
+    return proxyAuthorization || undefined;
+}
+
+/**
+ * Open a CONNECT tunnel through the proxy to the target's host and port.
+ * The returned socket carries the TLS connection to the target.
+ */
+export function openProxyTunnel(proxy: URL, target: URL, options: ProxyTunnelOptions = {}): Promise<net.Socket> {
+    const authority = `${target.hostname}:${target.port || (target.protocol === 'https:' ? '443' : '80')}`;
+    const headers: Record<string, string> = { Host: authority };
+    const authorization = getProxyAuthorization(proxy, options.proxyAuthorization);
+    if (authorization) {
+        headers['Proxy-Authorization'] = authorization;
+    }
+
+    if (options.signal?.aborted) {
+        return Promise.reject(new Error('Proxy tunnel was cancelled'));
+    }
+
+    return new Promise<net.Socket>((resolve, reject) => {
+        const isHttpsProxy = proxy.protocol === 'https:';
+        const req = (isHttpsProxy ? https : http).request({
+            hostname: proxy.hostname.replace(/^\[|\]$/g, ''),
+            port: proxy.port || (isHttpsProxy ? 443 : 80),
+            method: 'CONNECT',
+            path: authority,
+            headers,
+            timeout: options.timeout,
+            agent: false,
+            ...(isHttpsProxy ? { rejectUnauthorized: options.rejectUnauthorized } : {}),
+        });
+
+        const onAbort = () => {
+            reject(new Error('Proxy tunnel was cancelled'));
+            req.destroy();
+        };
+        options.signal?.addEventListener('abort', onAbort, { once: true });
+
+        req.once('connect', (res, socket) => {
+            options.signal?.removeEventListener('abort', onAbort);
+            if (res.statusCode === 200) {
+                resolve(socket);
+            } else {
+                socket.destroy();
+                reject(new Error(`Proxy ${describeProxy(proxy)} refused to connect to ${authority}: ${res.statusCode} ${res.statusMessage || ''}`.trim()));
+            }
+        });
+        req.once('timeout', () => {
+            req.destroy();
+            reject(new Error(`Proxy ${describeProxy(proxy)} timed out after ${options.timeout}ms`));
+        });
+        req.once('error', error => {
+            reject(new Error(`Proxy error (${describeProxy(proxy)}): ${error.message}`));
+        });
+        req.once('close', () => options.signal?.removeEventListener('abort', onAbort));
+        req.end();
+    });
+}
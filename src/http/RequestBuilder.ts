@@ -0,0 +1,170 @@
+import { AuthConfig, Collection, Request, RequestHeader } from '../models/Collection';
+import type { OAuth2TokenProvider } from './OAuth2';
+import { resolveAwsCredentials, signAwsV4 } from './AwsSignature';
+import { resolveMultipartFields } from './Multipart';
+import { resolveGraphQLBody } from './GraphQL';
+
+/**
+ * Resolves {{variable}} placeholders in a piece of text
+ */
+export type TextResolver = (text: string) => Promise<string>;
+
+const CONTENT_TYPES: Record<string, string> = {
+    json: 'application/json',
+    xml: 'application/xml',
+    form: 'application/x-www-form-urlencoded',
+    text: 'text/plain',
+    graphql: 'application/json',
+};
+
+/**
+ * Supplies the Authorization header of oauth2 auth - an OAuth2TokenProvider, or a wrapper
+ * that shows the sign-in's progress
+ */
+export type OAuth2Authorizer = Pick<OAuth2TokenProvider, 'getAuthorizationHeader'>;
+
+/**
+ * Determine the auth a saved request should be sent with.
+ * Inherited collection auth wins unless the request opted out via useInheritedAuth.
+ */
+export function getEffectiveAuth(request: Request, collection?: Collection): AuthConfig | undefined {
+    const inherited = collection?.defaultAuth;
+    if (request.useInheritedAuth !== false && inherited && inherited.type !== 'none') {
+        return inherited;
+    }
+    if (request.auth && request.auth.type !== 'none') {
+        return request.auth;
+    }
+    return undefined;
+}
+
+/**
+ * The headers a request is sent with before auth and body add theirs, unresolved:
+ * enabled collection default headers the request didn't turn off, overridden by the request's own
+ */
+export function mergeHeaders(request: Request, collection?: Collection): Record<string, string> {
+    const headers: Record<string, string> = {};
+
+    // Inherited headers first, request headers override them
+    const disabledInherited = new Set(request.disabledInheritedHeaders || []);
+    for (const h of collection?.defaultHeaders || []) {
+        if (h.enabled && h.name && !disabledInherited.has(h.name)) {
+            headers[h.name] = h.value;
+        }
+    }
+    for (const h of request.headers) {
+        if (h.enabled && h.name) {
+            headers[h.name] = h.value;
+        }
+    }
+    return headers;
+}
+
+/**
+ * Build a ready-to-send request from a saved collection request.
+ * Applies collection default headers and auth, encodes form bodies, adds a
+ * Content-Type for the body type and resolves all variables.
+ * An OAuth2Authorizer is required to send requests that use oauth2 auth.
+ * awsv4 auth signs the result, so it must be sent as returned. digest auth is
+ * passed on resolved in the result's auth - HttpClient answers the server's challenge.
+ */
+export async function buildRequest(
+    request: Request,
+    collection: Collection | undefined,
+    resolve: TextResolver,
+    oauth2?: OAuth2Authorizer
+): Promise<Request> {
+    const headers = mergeHeaders(request, collection);
+
+    let url = await resolve(request.url);
+
+    const auth = getEffectiveAuth(request, collection);
+    if (auth?.type === 'basic' && auth.username) {
+        const username = await resolve(auth.username);
+        const password = await resolve(auth.password || '');
+        headers['Authorization'] = `Basic ${Buffer.from(`${username}:${password}`).toString('base64')}`;
+    } else if (auth?.type === 'bearer' && auth.token) {
+        headers['Authorization'] = `Bearer ${await resolve(auth.token)}`;
+    } else if (auth?.type === 'apikey' && auth.apiKeyName) {
+        const keyValue = await resolve(auth.apiKeyValue || '');
+        if (auth.apiKeyIn === 'query') {
+            const separator = url.includes('?') ? '&' : '?';
+            url += `${separator}${encodeURIComponent(auth.apiKeyName)}=${encodeURIComponent(keyValue)}`;
+        } else {
+            headers[auth.apiKeyName] = keyValue;
+        }
+    } else if (auth?.type === 'oauth2') {
+        if (!oauth2) {
+            throw new Error('OAuth 2.0 auth is not available here');
+        }
+        headers['Authorization'] = await oauth2.getAuthorizationHeader(auth, resolve, collection?.id);
+    }
+
+    let body: string | undefined;
+    if (request.body && request.body.type !== 'none' && request.body.content) {
+        if (request.body.type === 'form') {
+            body = await encodeFormBody(request.body.content, resolve);
+        } else if (request.body.type === 'multipart') {
+            // Stays a field list - HttpClient streams the files and sets Content-Type with the boundary
+            body = await resolveMultipartFields(request.body.content, resolve);
+        } else if (request.body.type === 'graphql') {
+            // Stays query and variables - HttpClient sends them as a JSON POST
+            body = await resolveGraphQLBody(request.body.content, resolve);
+        } else {
+            body = await resolve(request.body.content);
+        }
+
+        const hasContentType = Object.keys(headers).some(name => name.toLowerCase() === 'content-type');
+        const contentType = CONTENT_TYPES[request.body.type];
+        if (!hasContentType && contentType) {
+            headers['Content-Type'] = contentType;
+        }
+    }
+
+    const resolvedHeaders: RequestHeader[] = [];
+    for (const [name, value] of Object.entries(headers)) {
+        resolvedHeaders.push({ name, value: await resolve(value), enabled: true });
+    }
+
+    const built: Request = {
+        id: request.id,
+        name: request.name,
+        method: request.method,
+        url,
+        headers: resolvedHeaders,
+        body: body ? { type: request.body.type, content: body } : { type: 'none', content: '' },
+        disableCookieJar: request.disableCookieJar,
+        protocol: request.protocol ?? collection?.protocol,
+        createdAt: request.createdAt,
+        updatedAt: request.updatedAt,
+    };
+
+    if (auth?.type === 'digest') {
+        built.auth = { type: 'digest', username: await resolve(auth.username || ''), password: await resolve(auth.password || '') };
+    } else if (auth?.type === 'awsv4') {
+        return signAwsV4(built, await resolveAwsCredentials(auth, resolve));
+    }
+    return built;
+}
+
+/**
+ * Convert the stored form field array to a URL-encoded string.
+ * Variables are resolved before encoding, otherwise {{...}} becomes %7B%7B...%7D%7D
+ */
+export async function encodeFormBody(content: string, resolve: TextResolver): Promise<string> {
+    let fields: { key: string; value: string; enabled: boolean }[];
+    try {
+        fields = JSON.parse(content);
+    } catch {
+        return resolve(content);
+    }
+    if (!Array.isArray(fields)) {
+        return resolve(content);
+    }
+
+    const params = new URLSearchParams();
+    for (const field of fields.filter(f => f.enabled && f.key)) {
+        params.append(await resolve(field.key), await resolve(field.value));
+    }
+    return params.toString();
+}
@@ -1,4 +1,5 @@
 import * as vscode from 'vscode';
+import { ResponseTimings } from './Timings';
 
 /**
  * HTTP Response interface
@@ -7,9 +8,20 @@ export interface HttpResponse {
     status: number;
     statusText: string;
     headers: Record<string, string>;
-    body: string;
+    body: string;  // decoded text - empty for binary responses
+    rawBody?: Buffer;  // decompressed body bytes, exactly as received
+    binary?: boolean;  // image, PDF, archive... - see isBinaryResponse
     time: number;  // milliseconds
-    size: number;  // bytes
+    size: number;  // bytes received, before Content-Encoding is decoded
+    decodedSize?: number;  // bytes after decoding - the same as size for uncompressed responses
+    encoding?: string;  // Content-Encoding that was decoded, e.g. "br"
+    encodedBody?: Buffer;  // body as received, only kept while it differs from rawBody
+    proxy?: string;  // proxy the request went through, without credentials
+    timings?: ResponseTimings;  // DNS, connect, TLS, TTFB and download phases
+    stopped?: boolean;  // a streamed response ended early with its stop signal - the body is what arrived until then
+    truncated?: boolean;  // a streamed response outgrew MAX_STREAMED_BODY_BYTES - the body is its beginning
+    httpVersion?: string;  // protocol the response came over, e.g. "HTTP/1.1" or "HTTP/2"
+    pseudoHeaders?: Record<string, string>;  // HTTP/2 only: :method, :scheme, :authority and :path sent and :status received
 }
 
 /**
@@ -1,3 +1,6 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
 import * as vscode from 'vscode';
 import { HttpResponse, ResponseContentProvider } from './ResponseContentProvider';
 import { getLogger } from '../logger';
@@ -107,7 +110,8 @@ export class ResponseDisplay {
 
         // Add timing and size info
         lines.push(`${commentStart}---${commentEnd}`);
-        lines.push(`${commentStart}Time: ${response.time}ms | Size: ${this.formatSize(response.size)}${commentEnd}`);
+        const decoded = response.encoding ? ` (${this.formatSize(response.decodedSize ?? response.size)} decoded, ${response.encoding})` : '';
+        lines.push(`${commentStart}Time: ${response.time}ms | Size: ${this.formatSize(response.size)}${decoded}${commentEnd}`);
         lines.push(`${commentStart}---${commentEnd}`);
         lines.push('');
 
@@ -185,6 +189,18 @@ export class ResponseDisplay {
         }
     }
 
+    /**
+     * Open a binary response with VS Code's own editor for its file type (image preview, hex editor...).
+     * The bytes are written to a temporary file first, as there is no text to show.
+     */
+    public async showBinaryResponse(response: HttpResponse, fileName: string): Promise<void> {
+        const directory = path.join(os.tmpdir(), 'endpoint-responses');
+        await fs.promises.mkdir(directory, { recursive: true });
+        const file = path.join(directory, `${Date.now()}-${fileName}`);
+        await fs.promises.writeFile(file, response.rawBody ?? Buffer.alloc(0));
+        await vscode.commands.executeCommand('vscode.open', vscode.Uri.file(file), vscode.ViewColumn.Beside);
+    }
+
     /**
      * Close the current response document
      */
@@ -0,0 +1,107 @@
+import * as http from 'http';
+import { performance } from 'perf_hooks';
+
+/**
+ * How long each phase of a request took, in milliseconds.
+ * Phases that did not happen (IP address, reused keep-alive connection, plain http) are 0.
+ */
+export interface ResponseTimings {
+    dns: number;
+    tcp: number;
+    tls: number;
+    /** Time to first byte - from the connection being ready to the response headers */
+    ttfb: number;
+    /** Content transfer - from the response headers to the last byte */
+    download: number;
+    total: number;
+}
+
+/**
+ * performance.now() timestamps of the socket and response events
+ */
+export interface TimingMarks {
+    start: number;
+    lookup?: number;
+    connect?: number;
+    secureConnect?: number;
+    response?: number;
+    end?: number;
+}
+
+export const TIMING_PHASES: { key: Exclude<keyof ResponseTimings, 'total'>; label: string }[] = [
+    { key: 'dns', label: 'DNS Lookup' },
+    { key: 'tcp', label: 'TCP Connect' },
+    { key: 'tls', label: 'TLS Handshake' },
+    { key: 'ttfb', label: 'Waiting (TTFB)' },
+    { key: 'download', label: 'Content Download' },
+];
+
+export function createTimingMarks(): TimingMarks {
+    return { start: performance.now() };
+}
+
+export function markTiming(marks: TimingMarks, event: Exclude<keyof TimingMarks, 'start'>): void {
+    marks[event] ??= performance.now();
+}
+
+/**
+ * Record DNS, connect and TLS events of the socket the request gets.
+ * The listeners are removed once the response arrives, since keep-alive sockets are reused.
+ */
+export function recordSocketTimings(req: http.ClientRequest, marks: TimingMarks): void {
+    req.once('socket', socket => {
+        const onLookup = () => markTiming(marks, 'lookup');
+        const onConnect = () => markTiming(marks, 'connect');
+        const onSecureConnect = () => markTiming(marks, 'secureConnect');
+        socket.once('lookup', onLookup);
+        socket.once('connect', onConnect);
+        socket.once('secureConnect', onSecureConnect);
+
+        const detach = () => {
+            socket.off('lookup', onLookup);
+            socket.off('connect', onConnect);
+            socket.off('secureConnect', onSecureConnect);
+        };
+        req.once('response', detach);
+        req.once('close', detach);
+    });
+    req.once('response', () => markTiming(marks, 'response'));
+}
+
+/**
+ * Turn the marks into consecutive phases - each phase starts where the previous one that happened ended,
+ * so the phases add up to the total
+ */
+export function computeTimings(marks: TimingMarks): ResponseTimings {
+    const end = marks.end ?? performance.now();
+    const response = marks.response ?? end;
+    let cursor = marks.start;
+    const phase = (mark: number | undefined): number => {
+        if (mark === undefined) {
+            return 0;
+        }
+        const duration = Math.max(0, mark - cursor);
+        cursor = Math.max(cursor, mark);
+        return round(duration);
+    };
+
+    return {
+        dns: phase(marks.lookup),
+        tcp: phase(marks.connect),
+        tls: phase(marks.secureConnect),
+        ttfb: phase(response),
+        download: round(Math.max(0, end - response)),
+        total: round(end - marks.start),
+    };
+}
+
+/**
+ * Milliseconds with two decimals below 100 ms, whole milliseconds above
+ */
+export function formatTiming(ms: number): string {
+    return ms >= 100 ? `${Math.round(ms)} ms` : `${ms.toFixed(2)} ms`;
+}
+
+function round(ms: number): number {
+    return Math.round(ms * 100) / 100;
+}
@@ -0,0 +1,97 @@
+import * as fs from 'fs';
+import * as tls from 'tls';
+import { URL } from 'url';
+import type { HostTlsSettings } from '../settings/defaults';
+
+/**
+ * TLS options applied to an https request
+ */
+export type TlsRequestOptions = Pick<tls.SecureContextOptions, 'cert' | 'key' | 'pfx' | 'passphrase' | 'ca'> & {
+    rejectUnauthorized?: boolean;
+};
+
+/**
+ * Find the TLS settings for a URL. `host:port` entries win over `host`, which win over `*.domain` wildcards.
+ */
+export function findHostTls(hosts: HostTlsSettings[], url: URL): HostTlsSettings | undefined {
+    const hostname = url.hostname.toLowerCase();
+    const port = url.port || (url.protocol === 'https:' ? '443' : '80');
+
+    let best: HostTlsSettings | undefined;
+    let bestScore = 0;
+    for (const entry of hosts) {
+        const score = matchHost(entry.host, hostname, port);
+        if (score > bestScore) {
+            best = entry;
+            bestScore = score;
+        }
+    }
+    return best;
+}
+
+/**
+ * Read the certificate files of a host's TLS settings.
+ * Extra CAs are added to Node's built-in roots rather than replacing them.
+ */
+export function loadTlsOptions(settings: HostTlsSettings, passphrase?: string): TlsRequestOptions {
+    const options: TlsRequestOptions = {};
+    if (settings.pfx) {
+        options.pfx = readTlsFile(settings.pfx, 'client certificate (PFX)');
+    } else if (settings.cert) {
+        options.cert = readTlsFile(settings.cert, 'client certificate');
+        if (settings.key) {
+            options.key = readTlsFile(settings.key, 'private key');
+        }
+    }
+    if (passphrase && (options.pfx || options.key)) {
+        options.passphrase = passphrase;
+    }
+    if (settings.ca && settings.ca.length > 0) {
+        options.ca = [...tls.rootCertificates, ...settings.ca.map(file => readTlsFile(file, 'CA certificate').toString('utf8'))];
+    }
+    if (settings.rejectUnauthorized !== undefined) {
+        options.rejectUnauthorized = settings.rejectUnauthorized;
+    }
+    return options;
+}
+
+/**
+ * True when the settings include a private key that may be protected by a passphrase
+ */
+export function needsPassphrase(settings: HostTlsSettings): boolean {
+    return !!(settings.pfx || (settings.cert && settings.key));
+}
+
+/**
+ * 3 = host:port, 2 = host, 1 = wildcard, 0 = no match
+ */
+function matchHost(pattern: string, hostname: string, port: string): number {
+    let host = pattern.trim().toLowerCase();
+    let patternPort: string | undefined;
+    const portMatch = host.match(/^(.*):(\d+)$/);
+    if (portMatch) {
+        host = portMatch[1];
+        patternPort = portMatch[2];
+    }
+    host = host.replace(/^\[|\]$/g, '');
+    if (patternPort && patternPort !== port) {
+        return 0;
+    }
+
+    if (host.startsWith('*.')) {
+        return hostname.endsWith(host.slice(1)) ? 1 : 0;
+    }
+    if (host !== hostname) {
+        return 0;
+    }
+    return patternPort ? 3 : 2;
+}
+
+function readTlsFile(file: string, description: string): Buffer {
+    try {
+        return fs.readFileSync(file);
+    } catch (error) {
+        const reason = error instanceof Error ? error.message : String(error);
+        throw new Error(`Could not read ${description} file ${file}: ${reason}`);
+    }
+}
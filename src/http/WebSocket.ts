@@ -0,0 +1,316 @@
+import * as crypto from 'crypto';
+import * as net from 'net';
+
+/** GUID every server appends to the key it answers with (RFC 6455 section 1.3) */
+const HANDSHAKE_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+
+/** Largest message accepted from a server - protects the extension host from runaway streams */
+export const MAX_MESSAGE_BYTES = 64 * 1024 * 1024;
+
+/** Frame types (RFC 6455 section 5.2) */
+export const Opcode = {
+    Continuation: 0x0,
+    Text: 0x1,
+    Binary: 0x2,
+    Close: 0x8,
+    Ping: 0x9,
+    Pong: 0xa,
+} as const;
+
+/**
+ * A frame read from the connection
+ */
+export interface WebSocketFrame {
+    fin: boolean;
+    opcode: number;
+    payload: Buffer;
+}
+
+/**
+ * Receives what happens on an open connection
+ */
+export interface WebSocketHandlers {
+    /** A complete message - text messages are decoded as UTF-8 */
+    onMessage(data: Buffer, binary: boolean): void;
+    /** The connection closed; 1006 means it dropped without a close frame */
+    onClose(code: number, reason: string): void;
+    /** Protocol errors and socket errors - the connection is closed afterwards */
+    onError?(error: Error): void;
+}
+
+/**
+ * Sec-WebSocket-Key for a handshake: 16 random bytes, base64 encoded
+ */
+export function createWebSocketKey(): string {
+    return crypto.randomBytes(16).toString('base64');
+}
+
+/**
+ * The Sec-WebSocket-Accept value a server must answer a key with
+ */
+export function getAcceptKey(key: string): string {
+    return crypto.createHash('sha1').update(key + HANDSHAKE_GUID).digest('base64');
+}
+
+/**
+ * Build a frame. Clients mask every frame they send; servers (and tests playing one) send them unmasked.
+ */
+export function encodeFrame(opcode: number, payload: Buffer, mask?: Buffer): Buffer {
+    const length = payload.length;
+    const lengthBytes = length < 126 ? 0 : length < 0x10000 ? 2 : 8;
+    const header = Buffer.alloc(2 + lengthBytes + (mask ? 4 : 0));
+    header[0] = 0x80 | opcode;
+    header[1] = (mask ? 0x80 : 0) | (lengthBytes === 0 ? length : lengthBytes === 2 ? 126 : 127);
+    if (lengthBytes === 2) {
+        header.writeUInt16BE(length, 2);
+    } else if (lengthBytes === 8) {
+        header.writeBigUInt64BE(BigInt(length), 2);
+    }
+    if (!mask) {
+        return Buffer.concat([header, payload]);
+    }
+    mask.copy(header, 2 + lengthBytes);
+    const masked = Buffer.alloc(length);
+    for (let i = 0; i < length; i++) {
+        masked[i] = payload[i] ^ mask[i % 4];
+    }
+    return Buffer.concat([header, masked]);
+}
+
+/**
+ * Splits the bytes of a connection into frames. Chunks may end anywhere,
+ * so an incomplete frame is kept for the next push.
+ */
+export class FrameParser {
+    private buffer: Buffer = Buffer.alloc(0);
+
+    /**
+     * @throws when a frame is larger than MAX_MESSAGE_BYTES
+     */
+    push(chunk: Buffer): WebSocketFrame[] {
+        this.buffer = this.buffer.length ? Buffer.concat([this.buffer, chunk]) : chunk;
+        const frames: WebSocketFrame[] = [];
+        for (; ;) {
+            const frame = this.readFrame();
+            if (!frame) {
+                return frames;
+            }
+            frames.push(frame);
+        }
+    }
+
+    private readFrame(): WebSocketFrame | undefined {
+        const buffer = this.buffer;
+        if (buffer.length < 2) {
+            return undefined;
+        }
+        const masked = (buffer[1] & 0x80) !== 0;
+        let length = buffer[1] & 0x7f;
+        let offset = 2;
+        if (length === 126) {
+            if (buffer.length < 4) {
+                return undefined;
+            }
+            length = buffer.readUInt16BE(2);
+            offset = 4;
+        } else if (length === 127) {
+            if (buffer.length < 10) {
+                return undefined;
+            }
+            const longLength = buffer.readBigUInt64BE(2);
+            if (longLength > BigInt(MAX_MESSAGE_BYTES)) {
+                throw new Error(`WebSocket frame is larger than ${MAX_MESSAGE_BYTES} bytes`);
+            }
+            length = Number(longLength);
+            offset = 10;
+        }
+        if (length > MAX_MESSAGE_BYTES) {
+            throw new Error(`WebSocket frame is larger than ${MAX_MESSAGE_BYTES} bytes`);
+        }
+        const maskOffset = offset;
+        if (masked) {
+            offset += 4;
+        }
+        if (buffer.length < offset + length) {
+            return undefined;
+        }
+
+        const payload = Buffer.from(buffer.subarray(offset, offset + length));
+        if (masked) {
+            for (let i = 0; i < length; i++) {
+                payload[i] ^= buffer[maskOffset + (i % 4)];
+            }
+        }
+        this.buffer = buffer.subarray(offset + length);
+        return { fin: (buffer[0] & 0x80) !== 0, opcode: buffer[0] & 0x0f, payload };
+    }
+}
+
+/**
+ * An open WebSocket connection on the socket of a completed handshake.
+ * Answers pings, reassembles fragmented messages and runs the closing handshake.
+ */
+export class WebSocketConnection {
+    private parser = new FrameParser();
+    private fragments: Buffer[] = [];
+    private fragmentOpcode: number | undefined;
+    private closeSent = false;
+    private closed = false;
+
+    /**
+     * @param head - bytes that arrived with the handshake response, already part of the first frames
+     * @param protocol - subprotocol the server picked, if any
+     */
+    constructor(
+        private readonly socket: net.Socket,
+        head: Buffer,
+        private readonly handlers: WebSocketHandlers,
+        public readonly protocol?: string
+    ) {
+        socket.setNoDelay(true);
+        socket.setTimeout(0);
+        socket.on('data', chunk => this.receive(chunk));
+        socket.on('error', error => this.handlers.onError?.(error));
+        socket.on('close', () => this.finish(1006, ''));
+        if (head.length > 0) {
+            this.receive(head);
+        }
+    }
+
+    /** Whether messages can still be sent */
+    get isOpen(): boolean {
+        return !this.closed && !this.closeSent;
+    }
+
+    /**
+     * Send a text message
+     * @throws when the connection is closing or closed
+     */
+    send(text: string): void {
+        if (!this.isOpen) {
+            throw new Error('WebSocket is not open');
+        }
+        this.write(Opcode.Text, Buffer.from(text, 'utf8'));
+    }
+
+    /**
+     * Start the closing handshake - onClose is called once the server answers or the socket drops
+     */
+    close(code: number = 1000, reason: string = ''): void {
+        if (this.closed) {
+            return;
+        }
+        if (this.closeSent) {
+            this.socket.destroy();
+            return;
+        }
+        const payload = Buffer.alloc(2 + Buffer.byteLength(reason));
+        payload.writeUInt16BE(code, 0);
+        payload.write(reason, 2);
+        this.write(Opcode.Close, payload);
+        this.closeSent = true;
+        // Don't wait forever for a server that never answers
+        setTimeout(() => this.socket.destroy(), 5000).unref();
+    }
+
+    private write(opcode: number, payload: Buffer): void {
+        this.socket.write(encodeFrame(opcode, payload, crypto.randomBytes(4)));
+    }
+
+    private receive(chunk: Buffer): void {
+        let frames: WebSocketFrame[];
+        try {
+            frames = this.parser.push(chunk);
+        } catch (error) {
+            this.fail(1009, error instanceof Error ? error.message : String(error));
+            return;
+        }
+        for (const frame of frames) {
+            if (this.closed) {
+                return;
+            }
+            this.handleFrame(frame);
+        }
+    }
+
+    private handleFrame(frame: WebSocketFrame): void {
+        switch (frame.opcode) {
+            case Opcode.Ping:
+                if (!this.closeSent) {
+                    this.write(Opcode.Pong, frame.payload);
+                }
+                return;
+            case Opcode.Pong:
+                return;
+            case Opcode.Close: {
+                const code = frame.payload.length >= 2 ? frame.payload.readUInt16BE(0) : 1005;
+                const reason = frame.payload.subarray(2).toString('utf8');
+                if (!this.closeSent) {
+                    // Echo the close frame, then the server closes the TCP connection
+                    this.write(Opcode.Close, frame.payload.subarray(0, 2));
+                    this.closeSent = true;
+                }
+                this.socket.end();
+                this.finish(code, reason);
+                return;
+            }
+            case Opcode.Text:
+            case Opcode.Binary:
+                if (this.fragmentOpcode !== undefined) {
+                    this.fail(1002, 'New message started before the previous one was complete');
+                    return;
+                }
+                if (frame.fin) {
+                    this.handlers.onMessage(frame.payload, frame.opcode === Opcode.Binary);
+                    return;
+                }
+                this.fragmentOpcode = frame.opcode;
+                this.fragments = [frame.payload];
+                return;
+            case Opcode.Continuation: {
+                if (this.fragmentOpcode === undefined) {
+                    this.fail(1002, 'Continuation frame without a message to continue');
+                    return;
+                }
+                this.fragments.push(frame.payload);
+                const size = this.fragments.reduce((total, fragment) => total + fragment.length, 0);
+                if (size > MAX_MESSAGE_BYTES) {
+                    this.fail(1009, `WebSocket message is larger than ${MAX_MESSAGE_BYTES} bytes`);
+                    return;
+                }
+                if (frame.fin) {
+                    const binary = this.fragmentOpcode === Opcode.Binary;
+                    const data = Buffer.concat(this.fragments);
+                    this.fragments = [];
+                    this.fragmentOpcode = undefined;
+                    this.handlers.onMessage(data, binary);
+                }
+                return;
+            }
+            default:
+                this.fail(1002, `Unknown opcode ${frame.opcode}`);
+        }
+    }
+
+    /**
+     * Close after a protocol violation by the server
+     */
+    private fail(code: number, message: string): void {
+        this.handlers.onError?.(new Error(message));
+        if (!this.closeSent) {
+            this.write(Opcode.Close, Buffer.from([code >> 8, code & 0xff]));
+            this.closeSent = true;
+        }
+        this.socket.end();
+        this.finish(code, message);
+    }
+
+    private finish(code: number, reason: string): void {
+        if (this.closed) {
+            return;
+        }
+        this.closed = true;
+        this.socket.destroy();
+        this.handlers.onClose(code, reason);
+    }
+}
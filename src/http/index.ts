@@ -3,4 +3,17 @@
  */
 export { HttpResponse, ResponseContentProvider, registerResponseContentProvider } from './ResponseContentProvider';
 export { ResponseDisplay } from './ResponseDisplay';
-export { HttpClient, HttpClientOptions } from './HttpClient';
+export { HttpClient, HttpClientOptions, HttpClientLogger, RequestCancelledError, ResponseStreamHandler } from './HttpClient';
+export { createHttpClient, createOAuth2TokenProvider } from './HttpClientFactory';
+export { evaluateAssertions, evaluateAssertion, describeAssertion } from './AssertionEvaluator';
+export { buildRequest, getEffectiveAuth, mergeHeaders, OAuth2Authorizer, TextResolver } from './RequestBuilder';
+export { OAuth2TokenProvider, OAuth2Token, OAuth2TokenStore, OAuth2BrowserOpener, MemoryTokenStore } from './OAuth2';
+export { ResponseTimings, TIMING_PHASES, computeTimings, formatTiming } from './Timings';
+export { Cookie, CookieJar, CookieStore, parseSetCookie } from './CookieJar';
+export { MultipartBody, createMultipartBody, parseMultipartFields, resolveMultipartFields } from './Multipart';
+export { FileBody, createFileBody, isBinaryContentType, isBinaryResponse, getResponseFileName } from './BinaryContent';
+export { StreamKind, StreamEvent, EventStreamParser, getStreamKind } from './EventStream';
+export { WebSocketConnection, WebSocketHandlers, WebSocketFrame, FrameParser, Opcode, encodeFrame, getAcceptKey } from './WebSocket';
+export { GraphQLSchema, GraphQLCompletions, GraphQLDiagnostic, INTROSPECTION_QUERY, createGraphQLPayload, parseGraphQLBody, resolveGraphQLBody, toGraphQLRequest, parseIntrospectionResult, getCompletions, validateQuery } from './GraphQL';
+export { ProtoSchema, ProtoService, ProtoMethod, ProtoMessage, ProtoField, ProtoEnum, loadProtoSchema, parseProtoSchema, encodeMessage, decodeMessage, createMessageTemplate } from './Protobuf';
+export { GrpcResponse, GrpcFrameParser, GRPC_STATUS_NAMES, encodeGrpcFrame, findUnaryMethod, getGrpcPath, getGrpcStatusName, toGrpcMetadata } from './Grpc';
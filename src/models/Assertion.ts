@@ -0,0 +1,56 @@
+export type AssertionSource = 'status' | 'header' | 'jsonPath' | 'body' | 'responseTime';
+
+export type AssertionOperator =
+    | 'equals'
+    | 'notEquals'
+    | 'inRange'
+    | 'exists'
+    | 'notExists'
+    | 'contains'
+    | 'notContains'
+    | 'matches'
+    | 'isType'
+    | 'lessThan';
+
+/**
+ * Operators that make sense for each assertion source (first entry is the default)
+ */
+export const ASSERTION_OPERATORS: Record<AssertionSource, AssertionOperator[]> = {
+    status: ['equals', 'notEquals', 'inRange'],
+    header: ['exists', 'notExists', 'equals', 'contains', 'matches'],
+    jsonPath: ['equals', 'notEquals', 'exists', 'notExists', 'isType', 'contains'],
+    body: ['contains', 'notContains', 'matches'],
+    responseTime: ['lessThan'],
+};
+
+export interface Assertion {
+    id: string;
+    enabled: boolean;
+    source: AssertionSource;
+    property?: string;   // header name or JSON path
+    operator: AssertionOperator;
+    expected?: string;
+}
+
+export interface AssertionResult {
+    assertionId: string;
+    description: string;
+    passed: boolean;
+    actual?: string;
+    message?: string;
+}
+
+export function createAssertion(source: AssertionSource = 'status', operator?: AssertionOperator, expected?: string, property?: string): Assertion {
+    return {
+        id: generateId(),
+        enabled: true,
+        source,
+        property,
+        operator: operator || ASSERTION_OPERATORS[source][0],
+        expected,
+    };
+}
+
+function generateId(): string {
+    return `${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
+}
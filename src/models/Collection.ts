@@ -1,6 +1,10 @@
+import { Assertion } from './Assertion';
+
 export type HttpMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE' | 'HEAD' | 'OPTIONS';
 
-export type AuthType = 'none' | 'basic' | 'bearer' | 'apikey';
+export type AuthType = 'none' | 'basic' | 'bearer' | 'apikey' | 'oauth2' | 'awsv4' | 'digest';
+
+export type OAuth2GrantType = 'client_credentials' | 'password' | 'refresh_token' | 'authorization_code';
 
 export interface RequestHeader {
     name: string;
@@ -9,23 +13,108 @@ export interface RequestHeader {
 }
 
 export interface RequestBody {
-    type: 'none' | 'json' | 'form' | 'text' | 'xml';
+    type: 'none' | 'json' | 'form' | 'multipart' | 'text' | 'xml' | 'binary' | 'graphql';
+    /**
+     * Form and multipart bodies hold their fields as a JSON array,
+     * binary bodies the path of the file to send (absolute or relative to the workspace folder),
+     * graphql bodies a GraphQLBody as JSON
+     */
     content: string;
 }
 
+/**
+ * The query and variables of a graphql body. Variables are kept as the JSON text
+ * of the editor so {{variables}} can be used in them.
+ */
+export interface GraphQLBody {
+    query: string;
+    variables: string;
+}
+
+/**
+ * A field of a multipart body. File fields hold the path of the file to upload,
+ * absolute or relative to the workspace folder.
+ */
+export interface MultipartField {
+    key: string;
+    value: string;
+    enabled: boolean;
+    type: 'text' | 'file';
+    /** Content-Type of the part; for files guessed from the extension when empty */
+    contentType?: string;
+}
+
+/**
+ * What a request talks to. HTTP requests are sent once; WebSocket requests open a
+ * connection that messages are exchanged over; gRPC requests call a method of a .proto service.
+ */
+export type RequestKind = 'http' | 'websocket' | 'grpc';
+
+/**
+ * A message template of a WebSocket request, sent from the message composer
+ */
+export interface WebSocketMessage {
+    name: string;
+    type: 'text' | 'json';
+    content: string;
+}
+
+/**
+ * The method a gRPC request calls. Its request message is the request's JSON body.
+ */
+export interface GrpcTarget {
+    /** .proto file, relative to the workspace folder */
+    protoFile: string;
+    /** Fully qualified service name, e.g. helloworld.Greeter */
+    service: string;
+    method: string;
+}
+
+/**
+ * HTTP version a request is sent with. auto offers HTTP/2 and HTTP/1.1 with ALPN on https://
+ * and uses HTTP/1.1 for http://; http2 sends http:// requests as HTTP/2 too (prior knowledge).
+ */
+export type HttpProtocol = 'http1' | 'http2' | 'auto';
+
+export const HTTP_PROTOCOLS: { value: HttpProtocol; label: string }[] = [
+    { value: 'http1', label: 'HTTP/1.1' },
+    { value: 'http2', label: 'HTTP/2' },
+    { value: 'auto', label: 'Negotiate (ALPN)' },
+];
+
 export interface AuthConfig {
     type: AuthType;
+    // Basic and Digest
     username?: string;
     password?: string;
     token?: string;
     apiKeyName?: string;
     apiKeyValue?: string;
     apiKeyIn?: 'header' | 'query';
+    // OAuth 2.0 (the password grant uses username/password above)
+    grantType?: OAuth2GrantType;
+    tokenUrl?: string;
+    authUrl?: string;
+    redirectUri?: string;
+    clientId?: string;
+    clientSecret?: string;
+    clientAuth?: 'header' | 'body';
+    scope?: string;
+    audience?: string;
+    refreshToken?: string;
+    // AWS Signature Version 4
+    awsAccessKeyId?: string;
+    awsSecretAccessKey?: string;
+    awsSessionToken?: string;
+    awsRegion?: string;
+    awsService?: string;
 }
 
 export interface Request {
     id: string;
     name: string;
+    /** Absent for HTTP requests */
+    kind?: RequestKind;
     method: HttpMethod;
     url: string;
     headers: RequestHeader[];
@@ -34,12 +123,26 @@ export interface Request {
     useInheritedAuth?: boolean;
     disabledInheritedHeaders?: string[];
     preRequestId?: string;
+    assertions?: Assertion[];
+    /** Neither send cookies from the cookie jar nor store the response's cookies */
+    disableCookieJar?: boolean;
+    /** Overrides the collection's protocol */
+    protocol?: HttpProtocol;
+    /** Message templates of a WebSocket request */
+    messages?: WebSocketMessage[];
+    /** Service and method of a gRPC request */
+    grpc?: GrpcTarget;
     createdAt: number;
     updatedAt: number;
 }
 
 export type CollectionStorageType = 'local' | 'repo';
 
+/**
+ * Placeholder written to repo collection files in place of secrets
+ */
+export const REDACTED_MARKER = '{{REDACTED}}';
+
 export interface Collection {
     id: string;
     name: string;
@@ -48,6 +151,8 @@ export interface Collection {
     variables?: Record<string, string>;
     defaultHeaders?: RequestHeader[];
     defaultAuth?: AuthConfig;
+    /** Protocol of requests that don't set their own - HTTP/1.1 when absent */
+    protocol?: HttpProtocol;
     storageType?: CollectionStorageType;
     repoFilePath?: string;
     createdAt: number;
@@ -69,6 +174,34 @@ export function createRequest(name: string, method: HttpMethod = 'GET', url: str
     };
 }
 
+export function createWebSocketRequest(name: string, url: string = ''): Request {
+    return { ...createRequest(name, 'GET', url), kind: 'websocket', messages: [] };
+}
+
+export function isWebSocketRequest(request: Request): boolean {
+    return request.kind === 'websocket';
+}
+
+export function createGrpcRequest(name: string, url: string = ''): Request {
+    return {
+        ...createRequest(name, 'POST', url),
+        kind: 'grpc',
+        body: { type: 'json', content: '{}' },
+        grpc: { protoFile: '', service: '', method: '' },
+    };
+}
+
+export function isGrpcRequest(request: Request): boolean {
+    return request.kind === 'grpc';
+}
+
+/**
+ * Whether a request is sent as an HTTP request - the kinds the runner, pre-requests and .http files handle
+ */
+export function isHttpRequest(request: Request): boolean {
+    return !request.kind || request.kind === 'http';
+}
+
 export function createCollection(name: string, description?: string, storageType: CollectionStorageType = 'local'): Collection {
     const now = Date.now();
     return {
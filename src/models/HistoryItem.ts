@@ -1,4 +1,6 @@
 import { HttpMethod, RequestHeader, RequestBody } from './Collection';
+import { AssertionResult } from './Assertion';
+import type { ResponseTimings } from '../http/Timings';
 
 export interface HistoryItem {
     id: string;
@@ -15,6 +17,11 @@ export interface HistoryItem {
     sourceRequestId?: string;
     sourceCollectionId?: string;
     responseBodyTruncated?: boolean;
+    assertionResults?: AssertionResult[];
+    /** The request was cancelled before a response arrived */
+    cancelled?: boolean;
+    /** DNS, connect, TLS, TTFB and download phases of the response */
+    timings?: ResponseTimings;
 }
 
 export function createHistoryItem(
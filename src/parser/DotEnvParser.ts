@@ -0,0 +1,39 @@
+/**
+ * Parse the contents of a .env file and return key-value pairs.
+ * Follows standard .env format:
+ * - KEY=value
+ * - Lines starting with # are comments
+ * - Empty lines are ignored
+ * - Quoted values have quotes stripped
+ */
+export function parseDotEnv(content: string): Record<string, string> {
+    const variables: Record<string, string> = {};
+
+    const lines = content.split(/\r?\n/);
+    for (const line of lines) {
+        const trimmed = line.trim();
+
+        if (!trimmed || trimmed.startsWith('#')) {
+            continue;
+        }
+
+        const equalsIndex = trimmed.indexOf('=');
+        if (equalsIndex === -1) {
+            continue;
+        }
+
+        const key = trimmed.substring(0, equalsIndex).trim();
+        let value = trimmed.substring(equalsIndex + 1).trim();
+
+        if ((value.startsWith('"') && value.endsWith('"')) ||
+            (value.startsWith("'") && value.endsWith("'"))) {
+            value = value.slice(1, -1);
+        }
+
+        if (key) {
+            variables[key] = value;
+        }
+    }
+
+    return variables;
+}
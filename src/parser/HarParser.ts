@@ -0,0 +1,496 @@
+import {
+    createRequest,
+    HttpMethod,
+    MultipartField,
+    Request,
+    RequestBody,
+    RequestHeader,
+} from '../models/Collection';
+import { HistoryItem } from '../models/HistoryItem';
+import { getBoundary, parseMultipartFields } from '../http/Multipart';
+import { parseGraphQLBody } from '../http/GraphQL';
+import {
+    maskAuthHeaders,
+    maskResponseHeaders,
+    sanitizeBody,
+    sanitizeRequestBody,
+    sanitizeUrl,
+} from '../storage/HistorySanitizer';
+
+const HTTP_METHODS: HttpMethod[] = ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'HEAD', 'OPTIONS'];
+
+/**
+ * DevTools resource types that are page assets rather than API calls
+ */
+const STATIC_RESOURCE_TYPES = ['stylesheet', 'script', 'image', 'font', 'media', 'texttrack', 'manifest', 'preflight'];
+
+/**
+ * Response content types of page assets, for captures without resource types (Firefox, Safari)
+ */
+const STATIC_CONTENT_TYPE = /^(image|font|audio|video)\/|^text\/css|javascript|ecmascript|wasm/;
+
+/**
+ * Request headers that are not imported - HTTP/2 pseudo-headers, ones the client sets itself,
+ * and cookies, which belong in the cookie jar rather than a collection that syncs
+ */
+const SKIPPED_REQUEST_HEADERS = ['host', 'content-length', 'connection', 'cookie'];
+
+/**
+ * The parts of the HAR 1.2 format that are read and written
+ * (http://www.softwareishard.com/blog/har-12-spec/)
+ */
+interface HarNameValue {
+    name: string;
+    value: string;
+    comment?: string;
+}
+
+interface HarPostParam {
+    name: string;
+    value?: string;
+    fileName?: string;
+    contentType?: string;
+}
+
+interface HarPostData {
+    mimeType: string;
+    text?: string;
+    params?: HarPostParam[];
+    comment?: string;
+}
+
+interface HarRequest {
+    method: string;
+    url: string;
+    httpVersion: string;
+    cookies: HarNameValue[];
+    headers: HarNameValue[];
+    queryString: HarNameValue[];
+    postData?: HarPostData;
+    headersSize: number;
+    bodySize: number;
+}
+
+interface HarResponse {
+    status: number;
+    statusText: string;
+    httpVersion: string;
+    cookies: HarNameValue[];
+    headers: HarNameValue[];
+    content: { size: number; mimeType: string; text?: string; comment?: string };
+    redirectURL: string;
+    headersSize: number;
+    bodySize: number;
+    comment?: string;
+}
+
+interface HarTimings {
+    blocked: number;
+    dns: number;
+    connect: number;
+    send: number;
+    wait: number;
+    receive: number;
+    ssl: number;
+}
+
+interface HarEntry {
+    startedDateTime: string;
+    time: number;
+    request: HarRequest;
+    response: HarResponse;
+    cache: Record<string, never>;
+    timings: HarTimings;
+    /** Chrome DevTools: document, xhr, fetch, script, image, ... */
+    _resourceType?: string;
+}
+
+export interface HarLog {
+    version: string;
+    creator: { name: string; version: string };
+    entries: HarEntry[];
+}
+
+/**
+ * A domain of a HAR file and how many requests were made to it
+ */
+export interface HarDomain {
+    domain: string;
+    count: number;
+}
+
+export interface HarImportOptions {
+    /** Only requests to these hosts are imported - all when absent */
+    domains?: string[];
+}
+
+/**
+ * Requests read from a HAR file, ready to be saved as a Collection
+ */
+export interface HarImport {
+    requests: Request[];
+    /** What was left out - page assets, duplicates and unsupported methods */
+    warnings: string[];
+}
+
+/**
+ * Read the log of a HAR file, as saved by browser DevTools
+ * @throws when the content is not a HAR file
+ */
+export function parseHarLog(content: string): HarLog {
+    let json: unknown;
+    try {
+        json = JSON.parse(content);
+    } catch (error) {
+        throw new Error(`Invalid JSON: ${error instanceof Error ? error.message : String(error)}`);
+    }
+    const log = (json as { log?: HarLog } | null)?.log;
+    if (!log || typeof log !== 'object' || !Array.isArray(log.entries)) {
+        throw new Error('Not a HAR file: missing "log.entries"');
+    }
+    return log;
+}
+
+/**
+ * The hosts requests of a HAR log were sent to, most requests first. Page assets are not counted.
+ */
+export function getHarDomains(log: HarLog): HarDomain[] {
+    const counts = new Map<string, number>();
+    for (const entry of log.entries) {
+        const host = getHost(entry);
+        if (host && !isStaticResource(entry)) {
+            counts.set(host, (counts.get(host) || 0) + 1);
+        }
+    }
+    return [...counts.entries()]
+        .map(([domain, count]) => ({ domain, count }))
+        .sort((a, b) => b.count - a.count || a.domain.localeCompare(b.domain));
+}
+
+/**
+ * Turn the API calls of a HAR log into requests. Page assets (scripts, styles, images, fonts, CORS
+ * preflights) are skipped, and a request repeating the method, URL and body of an earlier one is
+ * imported once.
+ */
+export function harToRequests(log: HarLog, options: HarImportOptions = {}): HarImport {
+    const domains = options.domains?.map(d => d.toLowerCase());
+    const requests: Request[] = [];
+    const warnings: string[] = [];
+    const seen = new Set<string>();
+    const names = new Map<string, number>();
+    let assets = 0;
+    let duplicates = 0;
+    let cookies = false;
+
+    for (const entry of log.entries) {
+        const host = getHost(entry);
+        if (!host || (domains && !domains.includes(host))) {
+            continue;
+        }
+        if (isStaticResource(entry)) {
+            assets++;
+            continue;
+        }
+        const method = entry.request.method?.toUpperCase() as HttpMethod;
+        if (!HTTP_METHODS.includes(method)) {
+            warnings.push(`${entry.request.method} ${entry.request.url} was skipped - the ${entry.request.method} method is not supported`);
+            continue;
+        }
+
+        const url = entry.request.url.split('#')[0];
+        const body = toBody(entry.request.postData);
+        const key = `${method} ${url}\n${body.content}`;
+        if (seen.has(key)) {
+            duplicates++;
+            continue;
+        }
+        seen.add(key);
+
+        // Requests to the same path are told apart by a number
+        const baseName = `${method} ${new URL(url).pathname}`;
+        const count = (names.get(baseName) || 0) + 1;
+        names.set(baseName, count);
+
+        const request = createRequest(count > 1 ? `${baseName} (${count})` : baseName, method, url);
+        request.headers = toHeaders(entry.request.headers, body);
+        request.body = body;
+        requests.push(request);
+        cookies ||= (entry.request.headers || []).some(h => h.name.toLowerCase() === 'cookie');
+    }
+
+    if (cookies) {
+        warnings.push('Cookie headers were not imported - cookies are sent from the cookie jar of the active environment');
+    }
+    if (assets > 0) {
+        warnings.push(`${assets} page asset request(s) were skipped - scripts, styles, images, fonts and CORS preflights`);
+    }
+    if (duplicates > 0) {
+        warnings.push(`${duplicates} duplicate request(s) were skipped`);
+    }
+    return { requests, warnings };
+}
+
+/**
+ * Write history items as a HAR 1.2 log, oldest first. Headers, URLs and bodies are passed through
+ * the history sanitizer again, so secrets stored before it masked them stay out of the file.
+ */
+export function serializeToHar(items: HistoryItem[], creator: { name: string; version: string }): string {
+    const entries = [...items]
+        .sort((a, b) => a.timestamp - b.timestamp)
+        .map(toHarEntry);
+    const log: HarLog = { version: '1.2', creator, entries };
+    return JSON.stringify({ log }, null, 2);
+}
+
+// ==================== Import ====================
+
+function getHost(entry: HarEntry): string | undefined {
+    try {
+        const url = new URL(entry.request.url);
+        return url.protocol === 'http:' || url.protocol === 'https:' ? url.hostname.toLowerCase() : undefined;
+    } catch {
+        return undefined;
+    }
+}
+
+function isStaticResource(entry: HarEntry): boolean {
+    if (entry._resourceType) {
+        return STATIC_RESOURCE_TYPES.includes(entry._resourceType.toLowerCase());
+    }
+    const mimeType = entry.response?.content?.mimeType?.toLowerCase() || '';
+    return entry.request.method?.toUpperCase() === 'GET' && STATIC_CONTENT_TYPE.test(mimeType);
+}
+
+function toHeaders(headers: HarNameValue[] | undefined, body: RequestBody): RequestHeader[] {
+    return (headers || [])
+        .filter(h => h.name && !h.name.startsWith(':') && !SKIPPED_REQUEST_HEADERS.includes(h.name.toLowerCase()))
+        // The boundary of a multipart body is generated when it's sent
+        .filter(h => body.type !== 'multipart' || h.name.toLowerCase() !== 'content-type')
+        .map(h => ({ name: h.name, value: h.value, enabled: true }));
+}
+
+function toBody(postData: HarPostData | undefined): RequestBody {
+    if (!postData || (!postData.text && !postData.params?.length)) {
+        return { type: 'none', content: '' };
+    }
+    const mimeType = (postData.mimeType || '').split(';')[0].trim().toLowerCase();
+    const text = postData.text || '';
+
+    if (mimeType === 'application/x-www-form-urlencoded') {
+        const params = postData.params?.length
+            ? postData.params.map(p => [safeDecode(p.name), safeDecode(p.value || '')])
+            : [...new URLSearchParams(text)];
+        return { type: 'form', content: JSON.stringify(params.map(([key, value]) => ({ key, value, enabled: true }))) };
+    }
+    if (mimeType === 'multipart/form-data') {
+        const fields = postData.params?.length
+            ? postData.params.map(toMultipartField)
+            : parseMultipartText(text, getBoundary(postData.mimeType));
+        return { type: 'multipart', content: JSON.stringify(fields) };
+    }
+    if (/[/+]json$/.test(mimeType)) {
+        return { type: 'json', content: formatJson(text) };
+    }
+    if (/[/+]xml$/.test(mimeType)) {
+        return { type: 'xml', content: text };
+    }
+    return { type: 'text', content: text };
+}
+
+function toMultipartField(param: HarPostParam): MultipartField {
+    // The files themselves are not in the capture - they are picked again before sending
+    return param.fileName !== undefined
+        ? { key: param.name, value: '', enabled: true, type: 'file', ...(param.contentType ? { contentType: param.contentType } : {}) }
+        : { key: param.name, value: param.value || '', enabled: true, type: 'text' };
+}
+
+/**
+ * The fields of a multipart body captured as text
+ */
+function parseMultipartText(text: string, boundary: string | undefined): MultipartField[] {
+    if (!boundary) {
+        return [];
+    }
+    const fields: MultipartField[] = [];
+    for (const part of text.split(`--${boundary}`)) {
+        const separator = part.indexOf('\r\n\r\n') >= 0 ? '\r\n\r\n' : '\n\n';
+        const headerEnd = part.indexOf(separator);
+        if (headerEnd < 0) {
+            continue;
+        }
+        const head = part.slice(0, headerEnd);
+        const name = /name="([^"]*)"/i.exec(head)?.[1];
+        if (name === undefined) {
+            continue;
+        }
+        const fileName = /filename="([^"]*)"/i.exec(head)?.[1];
+        const contentType = /^content-type:\s*(.+)$/im.exec(head)?.[1].trim();
+        const value = part.slice(headerEnd + separator.length).replace(/\r?\n$/, '');
+        fields.push(toMultipartField({ name, value, fileName, contentType }));
+    }
+    return fields;
+}
+
+function formatJson(text: string): string {
+    try {
+        return JSON.stringify(JSON.parse(text), null, 2);
+    } catch {
+        return text;
+    }
+}
+
+function safeDecode(text: string): string {
+    try {
+        return decodeURIComponent(text.replace(/\+/g, ' '));
+    } catch {
+        return text;
+    }
+}
+
+// ==================== Export ====================
+
+function toHarEntry(item: HistoryItem): HarEntry {
+    const url = sanitizeUrl(item.url);
+    const requestHeaders = maskAuthHeaders(item.headers.filter(h => h.enabled !== false));
+    const responseHeaders = maskResponseHeaders(item.responseHeaders || []);
+    const postData = toPostData(sanitizeRequestBody(item.body), requestHeaders);
+    const timings = toHarTimings(item);
+
+    const response: HarResponse = {
+        status: item.statusCode ?? 0,
+        statusText: item.statusText || '',
+        httpVersion: '',
+        cookies: responseHeaders.filter(h => h.name.toLowerCase() === 'set-cookie').flatMap(h => toSetCookies(h.value)),
+        headers: responseHeaders.map(h => ({ name: h.name, value: h.value })),
+        content: toContent(item, responseHeaders),
+        redirectURL: getHeader(responseHeaders, 'location') || '',
+        headersSize: -1,
+        bodySize: -1,
+    };
+    if (item.cancelled) {
+        response.comment = 'Cancelled before a response arrived';
+    }
+
+    return {
+        startedDateTime: new Date(item.timestamp).toISOString(),
+        time: item.timings?.total ?? item.responseTime ?? 0,
+        request: {
+            method: item.method,
+            url,
+            httpVersion: '',
+            // Cookie headers are masked in history
+            cookies: [],
+            headers: requestHeaders.map(h => ({ name: h.name, value: h.value })),
+            queryString: toQueryString(url),
+            ...(postData ? { postData } : {}),
+            headersSize: -1,
+            bodySize: postData?.text !== undefined ? Buffer.byteLength(postData.text) : (postData ? -1 : 0),
+        },
+        response,
+        cache: {},
+        timings,
+    };
+}
+
+function toQueryString(url: string): HarNameValue[] {
+    const query = url.split('#')[0].split('?')[1];
+    if (!query) {
+        return [];
+    }
+    return query.split('&').filter(Boolean).map(pair => {
+        const [name, ...value] = pair.split('=');
+        return { name: safeDecode(name), value: safeDecode(value.join('=')) };
+    });
+}
+
+function toPostData(body: RequestBody, headers: RequestHeader[]): HarPostData | undefined {
+    if (body.type === 'none' || !body.content) {
+        return undefined;
+    }
+    const contentType = getHeader(headers, 'content-type');
+    switch (body.type) {
+        case 'form': {
+            const params = readFormFields(body.content).map(f => ({ name: f.key, value: f.value }));
+            return {
+                mimeType: contentType || 'application/x-www-form-urlencoded',
+                params,
+                text: new URLSearchParams(params.map(p => [p.name, p.value])).toString(),
+            };
+        }
+        case 'multipart':
+            return {
+                mimeType: contentType || 'multipart/form-data',
+                params: parseMultipartFields(body.content).filter(f => f.enabled).map(f => f.type === 'file'
+                    ? { name: f.key, fileName: f.value.split(/[\\/]/).pop() || '', ...(f.contentType ? { contentType: f.contentType } : {}) }
+                    : { name: f.key, value: f.value }),
+            };
+        case 'binary':
+            return { mimeType: contentType || 'application/octet-stream', comment: `File: ${body.content}` };
+        case 'graphql': {
+            const { query, variables } = parseGraphQLBody(body.content);
+            let parsed: unknown = variables;
+            try {
+                parsed = variables.trim() ? JSON.parse(variables) : undefined;
+            } catch {
+                // Variables with {{placeholders}} are written as they are
+            }
+            return { mimeType: 'application/json', text: JSON.stringify({ query, ...(parsed !== undefined ? { variables: parsed } : {}) }) };
+        }
+        default:
+            return {
+                mimeType: contentType || (body.type === 'json' ? 'application/json' : body.type === 'xml' ? 'application/xml' : 'text/plain'),
+                text: body.content,
+            };
+    }
+}
+
+function readFormFields(content: string): { key: string; value: string }[] {
+    try {
+        const fields = JSON.parse(content) as { key?: string; value?: string; enabled?: boolean }[];
+        if (Array.isArray(fields)) {
+            return fields.filter(f => f.enabled !== false && f.key).map(f => ({ key: f.key!, value: f.value || '' }));
+        }
+    } catch {
+        // URL-encoded content
+    }
+    return [...new URLSearchParams(content)].map(([key, value]) => ({ key, value }));
+}
+
+function toContent(item: HistoryItem, headers: RequestHeader[]): HarResponse['content'] {
+    const mimeType = getHeader(headers, 'content-type') || '';
+    if (item.responseBody === undefined) {
+        return { size: -1, mimeType, comment: 'Response body not stored in history' };
+    }
+    const text = sanitizeBody(item.responseBody);
+    return {
+        size: Buffer.byteLength(text),
+        mimeType,
+        text,
+        ...(item.responseBodyTruncated ? { comment: 'Truncated to the history size limit' } : {}),
+    };
+}
+
+/**
+ * HAR timings from the measured phases; without them only the wait is known
+ */
+function toHarTimings(item: HistoryItem): HarTimings {
+    const t = item.timings;
+    if (!t) {
+        return { blocked: -1, dns: -1, connect: -1, send: 0, wait: item.responseTime ?? 0, receive: 0, ssl: -1 };
+    }
+    // In HAR the connect time includes the TLS handshake
+    return { blocked: -1, dns: t.dns, connect: t.tcp + t.tls, send: 0, wait: t.ttfb, receive: t.download, ssl: t.tls };
+}
+
+function toSetCookies(header: string): HarNameValue[] {
+    // Several cookies may have been joined into one header value
+    return header.split(/\n|,(?=\s*[^;=,\s]+=)/).flatMap(cookie => {
+        const pair = cookie.split(';')[0];
+        const separator = pair.indexOf('=');
+        return separator > 0 ? [{ name: pair.slice(0, separator).trim(), value: pair.slice(separator + 1).trim() }] : [];
+    });
+}
+
+function getHeader(headers: RequestHeader[], name: string): string | undefined {
+    return headers.find(h => h.name.toLowerCase() === name)?.value;
+}
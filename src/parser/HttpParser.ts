@@ -1,4 +1,6 @@
-import { Request, HttpMethod, RequestBody, AuthConfig } from '../models/Collection';
+import { Request, HttpMethod, RequestBody, AuthConfig, MultipartField, isHttpRequest } from '../models/Collection';
+import { getBoundary, parseMultipartFields } from '../http/Multipart';
+import { parseGraphQLBody } from '../http/GraphQL';
 
 export interface ParsedRequest {
     name?: string;
@@ -15,6 +17,12 @@ export interface ParsedHttpFile {
 
 const HTTP_METHODS = ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'HEAD', 'OPTIONS', 'TRACE', 'CONNECT'];
 
+/** Fixed boundary for exported multipart bodies, so exports of the same request are identical */
+const EXPORT_BOUNDARY = '----EndpointFormBoundary';
+
+/** Header REST Client marks GraphQL requests with - the body is the query, then a blank line and the variables */
+const GRAPHQL_REQUEST_TYPE = 'X-REQUEST-TYPE';
+
 /**
  * Transform {{$dotenv VARIABLE_NAME}} to {{VARIABLE_NAME}} for import
  */
@@ -163,6 +171,15 @@ function detectBodyType(body: string | undefined, headers: { name: string; value
         return 'none';
     }
 
+    if (isGraphQLRequestType(headers)) {
+        return 'graphql';
+    }
+
+    // A lone "< path" line sends a file, like REST Client's file references
+    if (getFileReference(body) !== undefined) {
+        return 'binary';
+    }
+
     // Check Content-Type header
     const contentTypeHeader = headers.find(h => h.name.toLowerCase() === 'content-type');
     if (contentTypeHeader) {
@@ -176,6 +193,9 @@ function detectBodyType(body: string | undefined, headers: { name: string; value
         if (contentType.includes('application/x-www-form-urlencoded')) {
             return 'form';
         }
+        if (contentType.includes('multipart/form-data') && getBoundary(contentTypeHeader.value)) {
+            return 'multipart';
+        }
     }
 
     // Try to detect from content
@@ -191,6 +211,91 @@ function detectBodyType(body: string | undefined, headers: { name: string; value
     return 'text';
 }
 
+/**
+ * Path of a body that is a single "< path" line, undefined for other bodies
+ */
+function getFileReference(body: string): string | undefined {
+    return body.trim().match(/^<\s+([^\r\n]+)$/)?.[1].trim();
+}
+
+/**
+ * Whether the headers mark a REST Client GraphQL request
+ */
+function isGraphQLRequestType(headers: { name: string; value: string }[]): boolean {
+    return headers.some(h => h.name.toUpperCase() === GRAPHQL_REQUEST_TYPE && h.value.trim().toLowerCase() === 'graphql');
+}
+
+/**
+ * Split a GraphQL body into the query and the variables after its last blank line.
+ * A last block that isn't a JSON object (like an anonymous "{ users { id } }" query) is part of the query.
+ */
+function parseGraphQLHttpBody(body: string): string {
+    const blocks = body.split(/\n[ \t]*\n/);
+    const last = blocks[blocks.length - 1].trim();
+    const hasVariables = blocks.length > 1 && /^\{\s*("|\}|$)/.test(last);
+    return JSON.stringify({
+        query: (hasVariables ? blocks.slice(0, -1).join('\n\n') : body).trim(),
+        variables: hasVariables ? last : '',
+    });
+}
+
+/**
+ * Split a multipart body into fields. A part whose content is a "< path" line
+ * (REST Client's file reference) becomes a file field.
+ */
+function parseMultipartBody(body: string, boundary: string): MultipartField[] {
+    const fields: MultipartField[] = [];
+    const delimiter = `--${boundary}`;
+    const parts = body.split(/\r?\n/).reduce<string[][]>((result, line) => {
+        if (line.trim() === delimiter || line.trim() === `${delimiter}--`) {
+            result.push([]);
+        } else if (result.length > 0) {
+            result[result.length - 1].push(line);
+        }
+        return result;
+    }, []);
+
+    for (const lines of parts) {
+        const separator = lines.findIndex(line => line.trim() === '');
+        const headerLines = separator < 0 ? lines : lines.slice(0, separator);
+        const content = separator < 0 ? '' : lines.slice(separator + 1).join('\n').replace(/\n+$/, '');
+        const disposition = headerLines.find(line => /^content-disposition:/i.test(line));
+        const name = disposition?.match(/;\s*name="([^"]*)"/i)?.[1];
+        if (name === undefined) {
+            continue;
+        }
+        const contentType = headerLines.find(line => /^content-type:/i.test(line))?.replace(/^content-type:\s*/i, '').trim();
+        const fileMatch = content.match(/^<@?\s+(.+)$/);
+        fields.push({
+            key: name,
+            value: fileMatch ? fileMatch[1].trim() : content,
+            enabled: true,
+            type: fileMatch ? 'file' : 'text',
+            ...(contentType ? { contentType } : {}),
+        });
+    }
+    return fields;
+}
+
+/**
+ * Write multipart fields as a body, referencing files with "< path"
+ */
+function serializeMultipartBody(content: string): string {
+    const lines: string[] = [];
+    for (const field of parseMultipartFields(content).filter(f => f.enabled && f.key)) {
+        lines.push(`--${EXPORT_BOUNDARY}`);
+        const fileName = field.type === 'file' ? `; filename="${field.value.split(/[\\/]/).pop()}"` : '';
+        lines.push(`Content-Disposition: form-data; name="${field.key}"${fileName}`);
+        if (field.contentType) {
+            lines.push(`Content-Type: ${field.contentType}`);
+        }
+        lines.push('');
+        lines.push(field.type === 'file' ? `< ${field.value}` : field.value);
+    }
+    lines.push(`--${EXPORT_BOUNDARY}--`);
+    return lines.join('\n');
+}
+
 /**
  * Detect auth configuration from Authorization header
  * Returns the auth config and whether the header should be removed
@@ -264,7 +369,20 @@ export function parsedRequestToRequest(parsed: ParsedRequest, id?: string): Requ
     const bodyType = detectBodyType(parsed.body, parsed.headers);
 
     // Detect auth from Authorization header
-    const { auth, filteredHeaders } = detectAuthFromHeaders(parsed.headers);
+    let { auth, filteredHeaders } = detectAuthFromHeaders(parsed.headers);
+
+    // Multipart bodies become a field list; HttpClient picks a new boundary when sending
+    let content = parsed.body || '';
+    if (bodyType === 'multipart') {
+        const contentType = filteredHeaders.find(h => h.name.toLowerCase() === 'content-type');
+        content = JSON.stringify(parseMultipartBody(content, getBoundary(contentType?.value)!));
+        filteredHeaders = filteredHeaders.filter(h => h !== contentType);
+    } else if (bodyType === 'binary') {
+        content = getFileReference(content)!;
+    } else if (bodyType === 'graphql') {
+        content = parseGraphQLHttpBody(content);
+        filteredHeaders = filteredHeaders.filter(h => h.name.toUpperCase() !== GRAPHQL_REQUEST_TYPE);
+    }
 
     return {
         id: id || `${now}-${Math.random().toString(36).substring(2, 9)}`,
@@ -278,7 +396,7 @@ export function parsedRequestToRequest(parsed: ParsedRequest, id?: string): Requ
         })),
         body: {
             type: bodyType,
-            content: parsed.body || '',
+            content,
         },
         auth,
         createdAt: now,
@@ -294,6 +412,8 @@ export function parsedRequestToRequest(parsed: ParsedRequest, id?: string): Requ
  */
 export function serializeToHttpFile(requests: Request[], variables?: Record<string, string>): string {
     const lines: string[] = [];
+    // .http files have no syntax for WebSocket and gRPC requests
+    const httpRequests = requests.filter(isHttpRequest);
 
     // Add variables at the top
     if (variables && Object.keys(variables).length > 0) {
@@ -304,7 +424,7 @@ export function serializeToHttpFile(requests: Request[], variables?: Record<stri
     }
 
     // Add each request
-    requests.forEach((request, index) => {
+    httpRequests.forEach((request, index) => {
         // Add separator with request name
         if (index > 0 || (variables && Object.keys(variables).length > 0)) {
             lines.push(`### ${request.name}`);
@@ -321,19 +441,46 @@ export function serializeToHttpFile(requests: Request[], variables?: Record<stri
         lines.push(`${request.method} ${transformVariablesForExport(request.url)}`);
 
         // Add headers
-        const enabledHeaders = request.headers.filter(h => h.enabled);
+        const isMultipart = request.body?.type === 'multipart' && !!request.body.content;
+        const isGraphQL = request.body?.type === 'graphql' && !!request.body.content;
+        const enabledHeaders = request.headers.filter(h => h.enabled
+            && !(isMultipart && h.name.toLowerCase() === 'content-type')
+            && !(isGraphQL && h.name.toUpperCase() === GRAPHQL_REQUEST_TYPE));
         for (const header of enabledHeaders) {
             lines.push(`${header.name}: ${transformVariablesForExport(header.value)}`);
         }
+        if (isMultipart) {
+            lines.push(`Content-Type: multipart/form-data; boundary=${EXPORT_BOUNDARY}`);
+        }
+        if (isGraphQL) {
+            lines.push(`${GRAPHQL_REQUEST_TYPE}: GraphQL`);
+            if (!enabledHeaders.some(h => h.name.toLowerCase() === 'content-type')) {
+                lines.push('Content-Type: application/json');
+            }
+        }
 
         // Add body if present
-        if (request.body && request.body.type !== 'none' && request.body.content) {
+        if (isMultipart) {
+            lines.push('');
+            lines.push(transformVariablesForExport(serializeMultipartBody(request.body.content)));
+        } else if (request.body?.type === 'binary' && request.body.content.trim()) {
+            lines.push('');
+            lines.push(`< ${transformVariablesForExport(request.body.content.trim())}`);
+        } else if (isGraphQL) {
+            const { query, variables } = parseGraphQLBody(request.body.content);
+            lines.push('');
+            lines.push(transformVariablesForExport(query.trim()));
+            if (variables.trim()) {
+                lines.push('');
+                lines.push(transformVariablesForExport(variables.trim()));
+            }
+        } else if (request.body && request.body.type !== 'none' && request.body.content) {
             lines.push('');
             lines.push(transformVariablesForExport(request.body.content));
         }
 
         // Add blank line between requests
-        if (index < requests.length - 1) {
+        if (index < httpRequests.length - 1) {
             lines.push('');
         }
     });
@@ -0,0 +1,1152 @@
+import {
+    AuthConfig,
+    Collection,
+    createRequest,
+    HttpMethod,
+    isHttpRequest,
+    MultipartField,
+    Request,
+    RequestBody,
+    RequestHeader,
+} from '../models/Collection';
+import { HistoryItem } from '../models/HistoryItem';
+import { parseMultipartFields } from '../http/Multipart';
+import { parseGraphQLBody } from '../http/GraphQL';
+import { isSensitiveHeaderName, isSensitiveKey, sanitizeBody } from '../storage/HistorySanitizer';
+import { parseYaml, stringifyYaml } from './YamlParser';
+
+/**
+ * A server of the document - each becomes an environment with a baseUrl variable
+ */
+export interface OpenApiServer {
+    name: string;
+    url: string;
+}
+
+/**
+ * A collection read from an OpenAPI document, ready to be saved as a Collection
+ */
+export interface OpenApiImport {
+    name: string;
+    description?: string;
+    /** One request per operation, named "Tag / Summary" */
+    requests: Request[];
+    /** Auth of the document's global security requirement */
+    defaultAuth?: AuthConfig;
+    servers: OpenApiServer[];
+    /** Examples and defaults of parameters, by variable name */
+    variables: Record<string, string>;
+    /** What could not be brought over - unsupported security schemes, methods and references */
+    warnings: string[];
+}
+
+/**
+ * The parts of OpenAPI 3.x and Swagger 2.0 documents that are read. Swagger 2.0 parameters carry
+ * their schema inline, and its bodies are "body" and "formData" parameters.
+ */
+interface Schema {
+    $ref?: string;
+    type?: string | string[];
+    format?: string;
+    properties?: Record<string, Schema>;
+    items?: Schema;
+    allOf?: Schema[];
+    oneOf?: Schema[];
+    anyOf?: Schema[];
+    enum?: unknown[];
+    const?: unknown;
+    example?: unknown;
+    examples?: unknown;
+    default?: unknown;
+    minimum?: number;
+    readOnly?: boolean;
+    contentMediaType?: string;
+    xml?: { name?: string };
+}
+
+interface Parameter extends Schema {
+    name: string;
+    in: 'path' | 'query' | 'header' | 'cookie' | 'body' | 'formData';
+    required?: boolean;
+    schema?: Schema;
+}
+
+interface MediaType {
+    schema?: Schema;
+    example?: unknown;
+    examples?: Record<string, { $ref?: string; value?: unknown }>;
+}
+
+interface RequestBodyObject {
+    $ref?: string;
+    content?: Record<string, MediaType>;
+}
+
+type SecurityRequirement = Record<string, string[]>;
+
+interface Operation {
+    operationId?: string;
+    summary?: string;
+    tags?: string[];
+    parameters?: Parameter[];
+    requestBody?: RequestBodyObject;
+    security?: SecurityRequirement[];
+    consumes?: string[];
+}
+
+interface OAuthFlow {
+    authorizationUrl?: string;
+    tokenUrl?: string;
+}
+
+interface SecurityScheme {
+    $ref?: string;
+    type: string;
+    scheme?: string;
+    name?: string;
+    in?: string;
+    flows?: { clientCredentials?: OAuthFlow; authorizationCode?: OAuthFlow; password?: OAuthFlow; implicit?: OAuthFlow };
+    // Swagger 2.0
+    flow?: string;
+    authorizationUrl?: string;
+    tokenUrl?: string;
+}
+
+interface OpenApiDocument {
+    openapi?: unknown;
+    swagger?: unknown;
+    info?: { title?: string; description?: string };
+    servers?: { url: string; description?: string; variables?: Record<string, { default?: unknown }> }[];
+    paths?: Record<string, Record<string, unknown>>;
+    security?: SecurityRequirement[];
+    components?: { securitySchemes?: Record<string, SecurityScheme> };
+    // Swagger 2.0
+    host?: string;
+    basePath?: string;
+    schemes?: string[];
+    consumes?: string[];
+    securityDefinitions?: Record<string, SecurityScheme>;
+}
+
+const METHODS: HttpMethod[] = ['GET', 'PUT', 'POST', 'DELETE', 'OPTIONS', 'HEAD', 'PATCH'];
+
+/**
+ * Header parameters OpenAPI says to ignore - they come from the body and auth
+ */
+const IGNORED_HEADERS = ['accept', 'content-type', 'authorization'];
+
+/**
+ * Read an OpenAPI 3.x or Swagger 2.0 document in YAML or JSON. Each operation becomes a request on
+ * {{baseUrl}} with its path and query parameters as {{variables}} and a body generated from the
+ * schema when it has no example.
+ * @throws when the content is not an OpenAPI 3.x or Swagger 2.0 document
+ */
+export function parseOpenApiDocument(content: string): OpenApiImport {
+    let document: unknown;
+    if (content.trimStart().startsWith('{')) {
+        try {
+            document = JSON.parse(content);
+        } catch (error) {
+            throw new Error(`Invalid JSON: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    } else {
+        document = parseYaml(content);
+    }
+    if (!document || typeof document !== 'object' || Array.isArray(document)) {
+        throw new Error('Not an OpenAPI document');
+    }
+    return new OpenApiReader(document as OpenApiDocument).read();
+}
+
+class OpenApiReader {
+    private readonly swagger: boolean;
+    private readonly warnings: string[] = [];
+    private readonly variables: Record<string, string> = {};
+
+    constructor(private readonly document: OpenApiDocument) {
+        // Unquoted versions (`openapi: 3.0`, `swagger: 2.0`) are read from YAML as numbers
+        const { openapi, swagger } = document;
+        if (openapi !== undefined) {
+            const supported = typeof openapi === 'number' ? openapi >= 3 && openapi < 4 : String(openapi).startsWith('3.');
+            if (!supported) {
+                throw new Error(`OpenAPI ${openapi} is not supported - expected 3.x`);
+            }
+        } else if (swagger !== 2 && swagger !== '2.0') {
+            throw new Error('Not an OpenAPI 3.x or Swagger 2.0 document');
+        }
+        this.swagger = openapi === undefined;
+    }
+
+    read(): OpenApiImport {
+        const defaultAuth = this.toAuthConfig(this.document.security, 'the document');
+        const requests: Request[] = [];
+        for (const [path, item] of Object.entries(this.document.paths || {})) {
+            const pathItem = this.resolve(item as { $ref?: string }, path) as Record<string, unknown> | undefined;
+            if (!pathItem) {
+                continue;
+            }
+            for (const [key, operation] of Object.entries(pathItem)) {
+                const method = key.toUpperCase() as HttpMethod;
+                if (METHODS.includes(method)) {
+                    requests.push(this.toRequest(path, method, operation as Operation, (pathItem.parameters as Parameter[]) || []));
+                } else if (key === 'trace') {
+                    this.warnings.push(`TRACE ${path} was skipped - the TRACE method is not supported`);
+                }
+            }
+        }
+
+        return {
+            name: this.document.info?.title || 'OpenAPI',
+            description: this.document.info?.description || undefined,
+            requests,
+            defaultAuth: defaultAuth?.type === 'none' ? undefined : defaultAuth,
+            servers: this.readServers(),
+            variables: this.variables,
+            warnings: this.warnings,
+        };
+    }
+
+    // ==================== Operations ====================
+
+    private toRequest(path: string, method: HttpMethod, operation: Operation, shared: Parameter[]): Request {
+        const name = operation.summary || operation.operationId || `${method} ${path}`;
+        const tag = operation.tags?.[0];
+        const request = createRequest(tag ? `${tag} / ${name}` : name, method);
+
+        // Operation parameters override path item parameters with the same name and location
+        const parameters = new Map<string, Parameter>();
+        for (const parameter of [...shared, ...(operation.parameters || [])]) {
+            const resolved = this.resolve(parameter, path);
+            if (resolved) {
+                parameters.set(`${resolved.in}:${resolved.name}`, resolved);
+            }
+        }
+
+        const query: string[] = [];
+        const cookies: string[] = [];
+        let cookiesRequired = false;
+        for (const parameter of parameters.values()) {
+            const example = this.parameterExample(parameter);
+            switch (parameter.in) {
+                case 'path':
+                    this.addVariable(parameter.name, example);
+                    break;
+                case 'query':
+                    // Optional parameters are left out unless the document suggests a value
+                    if (parameter.required || example !== undefined) {
+                        query.push(`${parameter.name}={{${parameter.name}}}`);
+                        this.addVariable(parameter.name, example);
+                    }
+                    break;
+                case 'header':
+                    if (!IGNORED_HEADERS.includes(parameter.name.toLowerCase())) {
+                        request.headers.push({ name: parameter.name, value: `{{${parameter.name}}}`, enabled: !!parameter.required });
+                        this.addVariable(parameter.name, example);
+                    }
+                    break;
+                case 'cookie':
+                    cookies.push(`${parameter.name}={{${parameter.name}}}`);
+                    cookiesRequired = cookiesRequired || !!parameter.required;
+                    this.addVariable(parameter.name, example);
+                    break;
+            }
+        }
+        if (cookies.length > 0) {
+            request.headers.push({ name: 'Cookie', value: cookies.join('; '), enabled: cookiesRequired });
+        }
+
+        const pathTemplate = path.replace(/\{([^}]+)\}/g, '{{$1}}');
+        request.url = `{{baseUrl}}${pathTemplate}${query.length > 0 ? `?${query.join('&')}` : ''}`;
+        request.body = this.swagger
+            ? this.toSwaggerBody(operation, [...parameters.values()], request.headers)
+            : this.toBody(operation, path, request.headers);
+
+        // Operations without security of their own inherit the document's
+        if (operation.security && JSON.stringify(operation.security) !== JSON.stringify(this.document.security)) {
+            const auth = this.toAuthConfig(operation.security, request.name);
+            if (auth) {
+                request.auth = auth;
+                request.useInheritedAuth = false;
+            }
+        }
+        return request;
+    }
+
+    private toBody(operation: Operation, path: string, headers: RequestHeader[]): RequestBody {
+        const requestBody = this.resolve(operation.requestBody, path);
+        const content = requestBody?.content;
+        const mediaType = content && pickMediaType(Object.keys(content));
+        if (!content || !mediaType) {
+            return { type: 'none', content: '' };
+        }
+        const media = content[mediaType];
+        const examples = Object.values(media.examples || {});
+        const example = media.example
+            ?? (examples.length > 0 ? this.resolve(examples[0], path)?.value : undefined)
+            ?? this.exampleFromSchema(media.schema);
+        return this.bodyFor(mediaType, example, this.resolve(media.schema, path), headers);
+    }
+
+    /**
+     * Swagger 2.0 bodies are a "body" parameter, or "formData" parameters for forms
+     */
+    private toSwaggerBody(operation: Operation, parameters: Parameter[], headers: RequestHeader[]): RequestBody {
+        const consumes = operation.consumes || this.document.consumes || ['application/json'];
+        const formData = parameters.filter(p => p.in === 'formData');
+        if (formData.length > 0) {
+            const multipart = consumes.includes('multipart/form-data') || formData.some(p => p.type === 'file');
+            if (multipart) {
+                const fields: MultipartField[] = formData.map(p => ({
+                    key: p.name,
+                    value: p.type === 'file' ? '' : toText(this.parameterExample(p)),
+                    enabled: true,
+                    type: p.type === 'file' ? 'file' : 'text',
+                }));
+                return { type: 'multipart', content: JSON.stringify(fields) };
+            }
+            return {
+                type: 'form',
+                content: JSON.stringify(formData.map(p => ({ key: p.name, value: toText(this.parameterExample(p)), enabled: true }))),
+            };
+        }
+
+        const body = parameters.find(p => p.in === 'body');
+        if (!body) {
+            return { type: 'none', content: '' };
+        }
+        const mediaType = pickMediaType(consumes) || 'application/json';
+        return this.bodyFor(mediaType, this.exampleFromSchema(body.schema), this.resolve(body.schema, body.name), headers);
+    }
+
+    private bodyFor(mediaType: string, example: unknown, schema: Schema | undefined, headers: RequestHeader[]): RequestBody {
+        const setContentType = (defaultType: string) => {
+            if (mediaType !== defaultType) {
+                headers.push({ name: 'Content-Type', value: mediaType, enabled: true });
+            }
+        };
+
+        if (isJson(mediaType) || mediaType === '*/*') {
+            setContentType(mediaType === '*/*' ? '*/*' : 'application/json');
+            return { type: 'json', content: JSON.stringify(example ?? {}, null, 2) };
+        }
+        if (mediaType === 'application/x-www-form-urlencoded') {
+            const fields = Object.entries(asObject(example)).map(([key, value]) => ({ key, value: toText(value), enabled: true }));
+            return { type: 'form', content: JSON.stringify(fields) };
+        }
+        if (mediaType === 'multipart/form-data') {
+            const properties = this.objectProperties(schema);
+            const fields: MultipartField[] = Object.entries(asObject(example)).map(([key, value]) => {
+                const property = this.resolve(properties[key], key);
+                const file = property?.format === 'binary' || property?.format === 'base64' || !!property?.contentMediaType;
+                return { key, value: file ? '' : toText(value), enabled: true, type: file ? 'file' : 'text' };
+            });
+            return { type: 'multipart', content: JSON.stringify(fields) };
+        }
+        if (/[/+]xml$/.test(mediaType)) {
+            setContentType('application/xml');
+            const root = schema?.xml?.name || refName(schema?.$ref) || 'root';
+            return { type: 'xml', content: typeof example === 'string' ? example : toXml(root, example, '') };
+        }
+        if (mediaType.startsWith('text/')) {
+            setContentType('text/plain');
+            return { type: 'text', content: typeof example === 'string' ? example : toText(example) };
+        }
+        // Anything else is a file to send as it is
+        headers.push({ name: 'Content-Type', value: mediaType, enabled: true });
+        return { type: 'binary', content: '' };
+    }
+
+    // ==================== Examples ====================
+
+    private parameterExample(parameter: Parameter): unknown {
+        const examples = Object.values((parameter.examples && typeof parameter.examples === 'object' && !Array.isArray(parameter.examples)
+            ? parameter.examples : {}) as Record<string, { $ref?: string; value?: unknown }>);
+        const schema = this.resolve(parameter.schema, parameter.name) ?? parameter;
+        return parameter.example
+            ?? (examples.length > 0 ? this.resolve(examples[0], parameter.name)?.value : undefined)
+            ?? schema.example
+            ?? (Array.isArray(schema.examples) ? schema.examples[0] : undefined)
+            ?? schema.default
+            ?? schema.enum?.[0];
+    }
+
+    /**
+     * An example value for a schema - its own example, default or first enum value, or one
+     * built from its properties and type
+     */
+    private exampleFromSchema(source: Schema | undefined, refs: string[] = []): unknown {
+        if (!source || refs.length > 10) {
+            return undefined;
+        }
+        if (source.$ref) {
+            // Recursive schemas stop at the first repeat
+            return refs.includes(source.$ref) ? undefined : this.exampleFromSchema(this.resolve(source, source.$ref), [...refs, source.$ref]);
+        }
+        const schema = source;
+        if (schema.example !== undefined) {
+            return schema.example;
+        }
+        if (Array.isArray(schema.examples) && schema.examples.length > 0) {
+            return schema.examples[0];
+        }
+        for (const value of [schema.const, schema.default, schema.enum?.[0]]) {
+            if (value !== undefined) {
+                return value;
+            }
+        }
+        if (schema.allOf) {
+            const parts = schema.allOf.map(part => this.exampleFromSchema(part, refs));
+            const objects = parts.filter(part => part && typeof part === 'object' && !Array.isArray(part));
+            return objects.length > 0 ? Object.assign({}, ...objects) : parts.find(part => part !== undefined);
+        }
+        const choice = schema.oneOf?.[0] ?? schema.anyOf?.[0];
+        if (choice) {
+            return this.exampleFromSchema(choice, refs);
+        }
+
+        const type = Array.isArray(schema.type) ? schema.type.find(t => t !== 'null') : schema.type;
+        if (type === 'object' || (!type && schema.properties)) {
+            const result: Record<string, unknown> = {};
+            for (const [name, property] of Object.entries(schema.properties || {})) {
+                // Read-only properties are only in responses
+                if (this.resolve(property, name)?.readOnly) {
+                    continue;
+                }
+                const value = this.exampleFromSchema(property, refs);
+                if (value !== undefined) {
+                    result[name] = value;
+                }
+            }
+            return result;
+        }
+        switch (type) {
+            case 'array': {
+                const item = this.exampleFromSchema(schema.items, refs);
+                return item === undefined ? [] : [item];
+            }
+            case 'string':
+                return STRING_FORMATS[schema.format || ''] ?? 'string';
+            case 'integer':
+            case 'number':
+                return schema.minimum ?? 0;
+            case 'boolean':
+                return true;
+            default:
+                return undefined;
+        }
+    }
+
+    /**
+     * Properties of an object schema, including those of its allOf parts
+     */
+    private objectProperties(schema: Schema | undefined, depth = 0): Record<string, Schema> {
+        const resolved = this.resolve(schema, 'schema');
+        if (!resolved || depth > 10) {
+            return {};
+        }
+        const inherited = (resolved.allOf || []).map(part => this.objectProperties(part, depth + 1));
+        return Object.assign({}, ...inherited, resolved.properties);
+    }
+
+    private addVariable(name: string, example: unknown): void {
+        if (example !== undefined && example !== null && !(name in this.variables)) {
+            this.variables[name] = toText(example);
+        }
+    }
+
+    // ==================== Security ====================
+
+    /**
+     * Auth for the first security requirement that can be mapped. An empty list means no auth;
+     * undefined means the requirement was not set or nothing could be mapped.
+     */
+    private toAuthConfig(requirements: SecurityRequirement[] | undefined, owner: string): AuthConfig | undefined {
+        if (!requirements) {
+            return undefined;
+        }
+        if (requirements.length === 0) {
+            return { type: 'none' };
+        }
+        const schemes = (this.swagger ? this.document.securityDefinitions : this.document.components?.securitySchemes) || {};
+        const unsupported: string[] = [];
+        for (const requirement of requirements) {
+            const names = Object.keys(requirement);
+            if (names.length === 0) {
+                continue;
+            }
+            const scheme = this.resolve(schemes[names[0]], names[0]);
+            const auth = scheme && this.schemeToAuthConfig(names[0], scheme, requirement[names[0]] || []);
+            if (!auth) {
+                unsupported.push(`${names[0]} (${scheme?.type ?? 'undefined'})`);
+                continue;
+            }
+            if (names.length > 1) {
+                this.warnings.push(`Security of ${owner} combines ${names.join(', ')} - only ${names[0]} was imported`);
+            }
+            return auth;
+        }
+        if (unsupported.length > 0) {
+            this.warnings.push(`Security scheme ${unsupported.join(', ')} of ${owner} is not supported`);
+        }
+        return undefined;
+    }
+
+    private schemeToAuthConfig(name: string, scheme: SecurityScheme, scopes: string[]): AuthConfig | undefined {
+        const scope = scopes.length > 0 ? scopes.join(' ') : undefined;
+        switch (scheme.type) {
+            case 'basic':
+                return { type: 'basic', username: '{{username}}', password: '{{password}}' };
+            case 'http': {
+                const httpScheme = (scheme.scheme || '').toLowerCase();
+                if (httpScheme === 'basic' || httpScheme === 'digest') {
+                    return { type: httpScheme, username: '{{username}}', password: '{{password}}' };
+                }
+                return httpScheme === 'bearer' ? { type: 'bearer', token: '{{token}}' } : undefined;
+            }
+            case 'apiKey':
+                if (scheme.in !== 'header' && scheme.in !== 'query') {
+                    return undefined;
+                }
+                return { type: 'apikey', apiKeyName: scheme.name, apiKeyValue: `{{${name}}}`, apiKeyIn: scheme.in };
+            case 'oauth2': {
+                const client = { clientId: '{{clientId}}', clientSecret: '{{clientSecret}}', scope };
+                const flows = scheme.flows || {};
+                if (this.swagger ? scheme.flow === 'application' : flows.clientCredentials) {
+                    return { type: 'oauth2', grantType: 'client_credentials', tokenUrl: flows.clientCredentials?.tokenUrl ?? scheme.tokenUrl, ...client };
+                }
+                if (this.swagger ? scheme.flow === 'accessCode' : flows.authorizationCode) {
+                    return {
+                        type: 'oauth2',
+                        grantType: 'authorization_code',
+                        authUrl: flows.authorizationCode?.authorizationUrl ?? scheme.authorizationUrl,
+                        tokenUrl: flows.authorizationCode?.tokenUrl ?? scheme.tokenUrl,
+                        ...client,
+                    };
+                }
+                if (this.swagger ? scheme.flow === 'password' : flows.password) {
+                    return {
+                        type: 'oauth2',
+                        grantType: 'password',
+                        tokenUrl: flows.password?.tokenUrl ?? scheme.tokenUrl,
+                        username: '{{username}}',
+                        password: '{{password}}',
+                        ...client,
+                    };
+                }
+                // Implicit is the only flow left, and has no token endpoint to call
+                return undefined;
+            }
+            default:
+                return undefined;
+        }
+    }
+
+    // ==================== Servers and references ====================
+
+    private readServers(): OpenApiServer[] {
+        const servers: OpenApiServer[] = [];
+        if (this.swagger) {
+            if (this.document.host) {
+                for (const scheme of this.document.schemes?.length ? this.document.schemes : ['https']) {
+                    servers.push({ name: scheme.toUpperCase(), url: `${scheme}://${this.document.host}${this.document.basePath || ''}` });
+                }
+            } else if (this.document.basePath) {
+                servers.push({ name: this.document.basePath, url: this.document.basePath });
+            }
+        } else {
+            for (const server of this.document.servers || []) {
+                // Server variables take their default values
+                const url = server.url.replace(/\{([^}]+)\}/g, (match, name: string) => {
+                    const value = server.variables?.[name]?.default;
+                    return value === undefined ? match : String(value);
+                });
+                servers.push({ name: server.description || url, url });
+            }
+        }
+
+        for (const server of servers) {
+            server.url = server.url.replace(/\/+$/, '');
+            if (!/^[a-z][a-z0-9+.-]*:\/\//i.test(server.url)) {
+                this.warnings.push(`Server "${server.url || '/'}" is relative - add its host to the baseUrl variable`);
+            }
+        }
+        return servers;
+    }
+
+    /**
+     * Follow a local $ref (#/components/..., #/definitions/...). References to other files
+     * can't be followed and are reported once.
+     */
+    private resolve<T extends { $ref?: string }>(value: T | undefined, owner: string): T | undefined {
+        let current: unknown = value;
+        for (let depth = 0; current && typeof current === 'object' && typeof (current as { $ref?: unknown }).$ref === 'string'; depth++) {
+            const ref = (current as { $ref: string }).$ref;
+            if (!ref.startsWith('#/') || depth > 20) {
+                const warning = `Reference ${ref} of ${owner} could not be resolved`;
+                if (!this.warnings.includes(warning)) {
+                    this.warnings.push(warning);
+                }
+                return undefined;
+            }
+            current = ref.slice(2).split('/')
+                .map(part => decodeURIComponent(part).replace(/~1/g, '/').replace(/~0/g, '~'))
+                .reduce<unknown>((node, part) => node && typeof node === 'object' ? (node as Record<string, unknown>)[part] : undefined, this.document);
+        }
+        return current as T | undefined;
+    }
+}
+
+const STRING_FORMATS: Record<string, string> = {
+    'date-time': '2024-01-01T00:00:00Z',
+    'date': '2024-01-01',
+    'time': '00:00:00',
+    'email': 'user@example.com',
+    'uuid': '00000000-0000-0000-0000-000000000000',
+    'uri': 'https://example.com',
+    'url': 'https://example.com',
+    'hostname': 'example.com',
+    'ipv4': '127.0.0.1',
+    'ipv6': '::1',
+    'byte': '',
+    'binary': '',
+    'password': 'password',
+};
+
+/**
+ * The media type to build a body for - JSON first, then forms, XML and text
+ */
+function pickMediaType(mediaTypes: string[]): string | undefined {
+    const normalized = mediaTypes.map(type => type.split(';')[0].trim().toLowerCase());
+    return normalized.find(isJson)
+        ?? normalized.find(type => type === 'application/x-www-form-urlencoded')
+        ?? normalized.find(type => type === 'multipart/form-data')
+        ?? normalized.find(type => /[/+]xml$/.test(type))
+        ?? normalized.find(type => type.startsWith('text/'))
+        ?? normalized[0];
+}
+
+function isJson(mediaType: string): boolean {
+    return /[/+]json$/.test(mediaType);
+}
+
+function asObject(value: unknown): Record<string, unknown> {
+    return value && typeof value === 'object' && !Array.isArray(value) ? value as Record<string, unknown> : {};
+}
+
+function refName(ref: string | undefined): string | undefined {
+    return ref?.split('/').pop();
+}
+
+function toXml(name: string, value: unknown, indent: string): string {
+    if (Array.isArray(value)) {
+        return value.map(item => toXml(name, item, indent)).join('\n');
+    }
+    if (value && typeof value === 'object') {
+        const children = Object.entries(value).map(([key, child]) => toXml(key, child, indent + '  '));
+        return `${indent}<${name}>\n${children.join('\n')}\n${indent}</${name}>`;
+    }
+    const text = toText(value).replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+    return `${indent}<${name}>${text}</${name}>`;
+}
+
+function toText(value: unknown): string {
+    if (value === undefined || value === null) {
+        return '';
+    }
+    return typeof value === 'object' ? JSON.stringify(value) : String(value);
+}
+
+// ==================== Export ====================
+
+type JsonObject = Record<string, unknown>;
+
+/**
+ * A scheme and authority, or a {{variable}} standing in for them
+ */
+const URL_ORIGIN = /^([a-z][a-z0-9+.-]*:\/\/[^/?#]*|\{\{[^}]+\}\})/i;
+
+const VARIABLE = /\{\{\s*([^}]+?)\s*\}\}/g;
+
+const UUID = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Request headers that are described by the body, auth or the client rather than as parameters
+ */
+const UNDOCUMENTED_HEADERS = ['accept', 'authorization', 'content-type', 'content-length', 'cookie', 'host', 'user-agent', 'proxy-authorization'];
+
+/**
+ * Write a collection as an OpenAPI 3.1 skeleton. Requests are grouped by path template - {{variable}}
+ * segments, and numeric or UUID segments, become path parameters - and response schemas are inferred
+ * from the latest response of each request in history. WebSocket and gRPC requests are left out.
+ */
+export function serializeToOpenApiDocument(collection: Collection, history: HistoryItem[], format: 'yaml' | 'json' = 'yaml'): string {
+    const document = new OpenApiWriter(collection, history).write();
+    return format === 'json' ? JSON.stringify(document, null, 2) : stringifyYaml(document);
+}
+
+class OpenApiWriter {
+    private readonly variables: Record<string, string>;
+    private readonly servers = new Map<string, JsonObject>();
+    private readonly paths: Record<string, Record<string, JsonObject>> = {};
+    /** Path templates by their shape, so /users/{id} and /users/{userId} share a path item */
+    private readonly templates = new Map<string, string>();
+    private readonly securitySchemes: Record<string, JsonObject> = {};
+    private readonly operationIds = new Set<string>();
+    /** The latest response of each request */
+    private readonly responses = new Map<string, HistoryItem>();
+
+    constructor(private readonly collection: Collection, history: HistoryItem[]) {
+        this.variables = collection.variables || {};
+        // History is newest first
+        for (const item of history) {
+            if (item.sourceRequestId && item.statusCode && !item.cancelled && !this.responses.has(item.sourceRequestId)
+                && (!item.sourceCollectionId || item.sourceCollectionId === collection.id)) {
+                this.responses.set(item.sourceRequestId, item);
+            }
+        }
+    }
+
+    write(): JsonObject {
+        const defaultAuth = this.collection.defaultAuth;
+        const security = defaultAuth && defaultAuth.type !== 'none' ? this.toSecurity(defaultAuth) : undefined;
+        for (const request of this.collection.requests.filter(isHttpRequest)) {
+            this.addRequest(request, !!security);
+        }
+
+        const components = Object.keys(this.securitySchemes).length > 0 ? { securitySchemes: this.securitySchemes } : undefined;
+        return {
+            openapi: '3.1.0',
+            info: {
+                title: this.collection.name,
+                ...(this.collection.description ? { description: this.collection.description } : {}),
+                version: '1.0.0',
+            },
+            ...(this.servers.size > 0 ? { servers: [...this.servers.values()] } : {}),
+            ...(security ? { security } : {}),
+            paths: this.paths,
+            ...(components ? { components } : {}),
+        };
+    }
+
+    private addRequest(request: Request, hasDefaultAuth: boolean): void {
+        const { origin, path, query } = splitRequestUrl(request.url);
+        if (origin && !this.servers.has(origin)) {
+            this.servers.set(origin, this.toServer(origin));
+        }
+
+        const { template, parameters } = this.toPathTemplate(path);
+        const pathItem = this.paths[template] ??= {};
+        const method = request.method.toLowerCase();
+        const queryParameters = this.toQueryParameters(query);
+
+        const existing = pathItem[method];
+        if (existing) {
+            // Another request for the same operation can only add parameters
+            const known = existing.parameters as JsonObject[] || [];
+            const added = queryParameters.filter(p => !known.some(k => k.in === p.in && k.name === p.name));
+            if (added.length > 0) {
+                existing.parameters = [...known, ...added];
+            }
+            return;
+        }
+
+        const operation: JsonObject = {};
+        const [tag, ...summary] = request.name.split(' / ');
+        if (summary.length > 0) {
+            operation.tags = [tag];
+        }
+        operation.summary = summary.length > 0 ? summary.join(' / ') : request.name;
+        operation.operationId = this.toOperationId(request.name, method);
+
+        const allParameters = [...parameters, ...queryParameters, ...this.toHeaderParameters(request.headers)];
+        if (allParameters.length > 0) {
+            operation.parameters = allParameters;
+        }
+        const requestBody = this.toRequestBody(request);
+        if (requestBody) {
+            operation.requestBody = requestBody;
+        }
+
+        // Without security of its own an operation uses the document's
+        if (request.useInheritedAuth === false || !hasDefaultAuth) {
+            if (request.auth && request.auth.type !== 'none') {
+                operation.security = this.toSecurity(request.auth);
+            } else if (hasDefaultAuth) {
+                operation.security = [];
+            }
+        }
+
+        const response = this.responses.get(request.id);
+        if (response?.statusCode) {
+            operation.responses = { [String(response.statusCode)]: toResponse(response) };
+        }
+        pathItem[method] = operation;
+    }
+
+    /**
+     * The server for an origin, with its {{variables}} as server variables
+     */
+    private toServer(origin: string): JsonObject {
+        const serverVariables: JsonObject = {};
+        const url = origin.replace(VARIABLE, (_match, name: string) => {
+            serverVariables[name] = { default: this.variables[name] ?? '', description: `The {{${name}}} variable` };
+            return `{${name}}`;
+        });
+        return Object.keys(serverVariables).length > 0 ? { url, variables: serverVariables } : { url };
+    }
+
+    private toPathTemplate(path: string): { template: string; parameters: JsonObject[] } {
+        const parameters: JsonObject[] = [];
+        const names = new Set<string>();
+        const addParameter = (variable: string, example: string | undefined) => {
+            let name = parameterName(variable);
+            for (let i = 2; names.has(name); i++) {
+                name = `${parameterName(variable)}${i}`;
+            }
+            names.add(name);
+            parameters.push({ name, in: 'path', required: true, schema: inferScalarSchema(example), ...(example ? { example } : {}) });
+            return `{${name}}`;
+        };
+
+        const segments = path.split('/');
+        const templated = segments.map((segment, index) => {
+            if (/^\d+$/.test(segment) || UUID.test(segment)) {
+                // An id in the path of an explored API - named after the collection it's in
+                const previous = segments[index - 1]?.replace(VARIABLE, '');
+                return addParameter(previous ? `${singular(previous)}Id` : 'id', segment);
+            }
+            return segment.replace(VARIABLE, (_match, variable: string) => addParameter(variable, this.variables[variable]));
+        });
+        let template = templated.join('/');
+
+        // Requests for the same path may name its parameters differently - the first names win
+        const shape = template.replace(/\{[^}]+\}/g, '{}');
+        const existing = this.templates.get(shape);
+        if (existing) {
+            const existingNames = [...existing.matchAll(/\{([^}]+)\}/g)].map(m => m[1]);
+            parameters.forEach((parameter, index) => {
+                parameter.name = existingNames[index];
+            });
+            template = existing;
+        } else {
+            this.templates.set(shape, template);
+        }
+        return { template, parameters };
+    }
+
+    private toQueryParameters(query: string): JsonObject[] {
+        const parameters: JsonObject[] = [];
+        for (const pair of query.split('&').filter(Boolean)) {
+            const [rawName, ...rawValue] = pair.split('=');
+            const name = safeDecode(rawName);
+            if (!name || parameters.some(p => p.name === name)) {
+                continue;
+            }
+            const value = safeDecode(rawValue.join('='));
+            const variable = /^\{\{\s*([^}]+?)\s*\}\}$/.exec(value);
+            const example = variable ? this.variables[variable[1]] : value;
+            // Values of secrets stay out of the document
+            const showExample = example && !isSensitiveKey(name);
+            parameters.push({ name, in: 'query', schema: inferScalarSchema(example), ...(showExample ? { example } : {}) });
+        }
+        return parameters;
+    }
+
+    private toHeaderParameters(headers: RequestHeader[]): JsonObject[] {
+        return headers
+            .filter(h => h.enabled && h.name && !UNDOCUMENTED_HEADERS.includes(h.name.toLowerCase()))
+            .map(h => {
+                const literal = h.value && !h.value.includes('{{') && !isSensitiveHeaderName(h.name);
+                return { name: h.name, in: 'header', schema: { type: 'string' }, ...(literal ? { example: h.value } : {}) };
+            });
+    }
+
+    private toRequestBody(request: Request): JsonObject | undefined {
+        const body = request.body;
+        if (!body || body.type === 'none' || !body.content) {
+            return undefined;
+        }
+        const contentType = request.headers.find(h => h.enabled && h.name.toLowerCase() === 'content-type')?.value.split(';')[0].trim();
+        let mediaType: string;
+        let media: JsonObject;
+        switch (body.type) {
+            case 'json': {
+                mediaType = contentType || 'application/json';
+                const example = parseJsonTemplate(body.content);
+                media = example === undefined ? { schema: {} } : { schema: inferSchema(example), example };
+                break;
+            }
+            case 'graphql': {
+                const graphql = parseGraphQLBody(body.content);
+                mediaType = 'application/json';
+                media = {
+                    schema: { type: 'object', properties: { query: { type: 'string' }, variables: { type: 'object' } }, required: ['query'] },
+                    example: { query: graphql.query, ...(graphql.variables.trim() ? { variables: parseJsonTemplate(graphql.variables) } : {}) },
+                };
+                break;
+            }
+            case 'form': {
+                let fields: { key: string; value: string; enabled: boolean }[];
+                try {
+                    fields = JSON.parse(body.content);
+                } catch {
+                    fields = [...new URLSearchParams(body.content)].map(([key, value]) => ({ key, value, enabled: true }));
+                }
+                const enabled = fields.filter(f => f.enabled !== false && f.key);
+                mediaType = 'application/x-www-form-urlencoded';
+                media = {
+                    schema: { type: 'object', properties: Object.fromEntries(enabled.map(f => [f.key, inferScalarSchema(f.value)])) },
+                    example: Object.fromEntries(enabled.map(f => [f.key, isSensitiveKey(f.key) ? '***' : f.value])),
+                };
+                break;
+            }
+            case 'multipart': {
+                const fields = parseMultipartFields(body.content).filter(f => f.enabled && f.key);
+                mediaType = 'multipart/form-data';
+                media = {
+                    schema: {
+                        type: 'object',
+                        properties: Object.fromEntries(fields.map(f => [f.key, f.type === 'file'
+                            ? { type: 'string', format: 'binary', ...(f.contentType ? { contentMediaType: f.contentType } : {}) }
+                            : inferScalarSchema(f.value)])),
+                    },
+                };
+                break;
+            }
+            case 'binary':
+                mediaType = contentType || 'application/octet-stream';
+                media = { schema: { type: 'string', format: 'binary' } };
+                break;
+            default:
+                mediaType = contentType || (body.type === 'xml' ? 'application/xml' : 'text/plain');
+                media = { schema: { type: 'string' }, example: body.content };
+        }
+        return { content: { [mediaType]: media } };
+    }
+
+    /**
+     * A security requirement for the auth, adding its scheme to the components
+     */
+    private toSecurity(auth: AuthConfig): Record<string, string[]>[] {
+        const scheme = toSecurityScheme(auth);
+        if (!scheme) {
+            return [];
+        }
+        let name = scheme.name;
+        for (let i = 2; this.securitySchemes[name] && JSON.stringify(this.securitySchemes[name]) !== JSON.stringify(scheme.scheme); i++) {
+            name = `${scheme.name}${i}`;
+        }
+        this.securitySchemes[name] = scheme.scheme;
+        return [{ [name]: scheme.scopes }];
+    }
+
+    private toOperationId(name: string, method: string): string {
+        const words = name.split(/[^A-Za-z0-9]+/).filter(Boolean);
+        const base = words.length > 0
+            ? words.map((word, i) => i === 0 ? word[0].toLowerCase() + word.slice(1) : word[0].toUpperCase() + word.slice(1)).join('')
+            : method;
+        let id = base;
+        for (let i = 2; this.operationIds.has(id); i++) {
+            id = `${base}${i}`;
+        }
+        this.operationIds.add(id);
+        return id;
+    }
+}
+
+function splitRequestUrl(url: string): { origin: string; path: string; query: string } {
+    const [withoutFragment] = url.trim().split('#');
+    const queryStart = withoutFragment.indexOf('?');
+    const base = queryStart >= 0 ? withoutFragment.slice(0, queryStart) : withoutFragment;
+    const origin = URL_ORIGIN.exec(base)?.[0] ?? '';
+    const path = base.slice(origin.length);
+    return {
+        origin,
+        path: path.startsWith('/') ? path : `/${path}`,
+        query: queryStart >= 0 ? withoutFragment.slice(queryStart + 1) : '',
+    };
+}
+
+/**
+ * A parameter name for a variable - request chaining and built-in variables use their last word
+ */
+function parameterName(variable: string): string {
+    const name = variable.replace(/^\$/, '').split(/[.\s]/).filter(Boolean).pop() || 'param';
+    return name.replace(/[^\w-]/g, '') || 'param';
+}
+
+function singular(word: string): string {
+    return word.replace(/ies$/, 'y').replace(/s$/, '');
+}
+
+function safeDecode(text: string): string {
+    try {
+        return decodeURIComponent(text.replace(/\+/g, ' '));
+    } catch {
+        return text;
+    }
+}
+
+/**
+ * JSON with {{variables}} where values go, which are read as null. Secrets in it are masked.
+ */
+function parseJsonTemplate(content: string): unknown {
+    try {
+        return JSON.parse(sanitizeBody(content.replace(/(?<!")\{\{[^}]+\}\}(?!")/g, 'null')));
+    } catch {
+        return undefined;
+    }
+}
+
+function toResponse(item: HistoryItem): JsonObject {
+    const response: JsonObject = { description: item.statusText || `HTTP ${item.statusCode}` };
+    const contentType = item.responseHeaders?.find(h => h.name.toLowerCase() === 'content-type')?.value.split(';')[0].trim().toLowerCase();
+    if (!contentType || !item.responseBody) {
+        return response;
+    }
+    let schema: JsonObject = { type: 'string' };
+    if (isJson(contentType)) {
+        try {
+            schema = inferSchema(JSON.parse(item.responseBody));
+        } catch {
+            // Truncated or not JSON after all
+        }
+    } else if (!contentType.startsWith('text/') && !/[/+]xml$/.test(contentType)) {
+        schema = { type: 'string', format: 'binary' };
+    }
+    response.content = { [contentType]: { schema } };
+    return response;
+}
+
+/**
+ * A JSON Schema describing a value - objects by their properties, arrays by the union of their items
+ */
+function inferSchema(value: unknown, depth = 0): JsonObject {
+    if (depth > 32) {
+        return {};
+    }
+    if (value === null || value === undefined) {
+        return { type: 'null' };
+    }
+    if (Array.isArray(value)) {
+        const items = value.map(item => inferSchema(item, depth + 1));
+        return { type: 'array', items: items.length > 0 ? items.reduce(mergeSchemas) : {} };
+    }
+    if (typeof value === 'object') {
+        const properties = Object.fromEntries(Object.entries(value).map(([key, child]) => [key, inferSchema(child, depth + 1)]));
+        return { type: 'object', properties };
+    }
+    if (typeof value === 'number') {
+        return { type: Number.isInteger(value) ? 'integer' : 'number' };
+    }
+    if (typeof value === 'boolean') {
+        return { type: 'boolean' };
+    }
+    const format = stringFormat(String(value));
+    return format ? { type: 'string', format } : { type: 'string' };
+}
+
+/**
+ * The schema of a parameter from its example - numbers and booleans, or a string
+ */
+function inferScalarSchema(example: string | undefined): JsonObject {
+    if (example && /^-?\d+$/.test(example)) {
+        return { type: 'integer' };
+    }
+    if (example && /^-?\d+\.\d+$/.test(example)) {
+        return { type: 'number' };
+    }
+    if (example === 'true' || example === 'false') {
+        return { type: 'boolean' };
+    }
+    const format = example && stringFormat(example);
+    return format ? { type: 'string', format } : { type: 'string' };
+}
+
+function stringFormat(value: string): string | undefined {
+    if (/^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?$/.test(value)) {
+        return 'date-time';
+    }
+    if (/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+        return 'date';
+    }
+    if (UUID.test(value)) {
+        return 'uuid';
+    }
+    if (/^[^@\s]+@[^@\s]+\.[^@\s]+$/.test(value)) {
+        return 'email';
+    }
+    if (/^https?:\/\/\S+$/.test(value)) {
+        return 'uri';
+    }
+    return undefined;
+}
+
+/**
+ * One schema for two values in the same place - properties are combined, and null makes a type nullable
+ */
+function mergeSchemas(a: JsonObject, b: JsonObject): JsonObject {
+    if (Object.keys(a).length === 0) {
+        return b;
+    }
+    if (Object.keys(b).length === 0) {
+        return a;
+    }
+    if (a.type === b.type) {
+        if (a.type === 'object') {
+            const properties = { ...(a.properties as Record<string, JsonObject>) };
+            for (const [key, schema] of Object.entries(b.properties as Record<string, JsonObject>)) {
+                properties[key] = properties[key] ? mergeSchemas(properties[key], schema) : schema;
+            }
+            return { type: 'object', properties };
+        }
+        if (a.type === 'array') {
+            return { type: 'array', items: mergeSchemas(a.items as JsonObject, b.items as JsonObject) };
+        }
+        return a.format === b.format ? a : { type: a.type };
+    }
+    const types = [a.type, b.type];
+    if (types.includes('integer') && types.includes('number')) {
+        return { type: 'number' };
+    }
+    if (b.type === 'null' && typeof a.type === 'string') {
+        return { ...a, type: [a.type, 'null'] };
+    }
+    if (a.type === 'null' && typeof b.type === 'string') {
+        return { ...b, type: [b.type, 'null'] };
+    }
+    if (Array.isArray(a.type) && a.type.includes(b.type)) {
+        return a;
+    }
+    // Values of different types - describe the first
+    return a;
+}
+
+function toSecurityScheme(auth: AuthConfig): { name: string; scheme: JsonObject; scopes: string[] } | undefined {
+    switch (auth.type) {
+        case 'basic':
+        case 'digest':
+        case 'bearer':
+            return { name: `${auth.type}Auth`, scheme: { type: 'http', scheme: auth.type }, scopes: [] };
+        case 'apikey':
+            return { name: 'apiKeyAuth', scheme: { type: 'apiKey', in: auth.apiKeyIn || 'header', name: auth.apiKeyName || 'X-API-Key' }, scopes: [] };
+        case 'awsv4':
+            return {
+                name: 'awsSigV4',
+                scheme: { type: 'apiKey', in: 'header', name: 'Authorization', description: 'AWS Signature Version 4' },
+                scopes: [],
+            };
+        case 'oauth2': {
+            const scopes = (auth.scope || '').split(/\s+/).filter(Boolean);
+            const flowScopes = Object.fromEntries(scopes.map(scope => [scope, '']));
+            const flows = auth.grantType === 'authorization_code'
+                ? { authorizationCode: { authorizationUrl: auth.authUrl || '', tokenUrl: auth.tokenUrl || '', scopes: flowScopes } }
+                : auth.grantType === 'password'
+                    ? { password: { tokenUrl: auth.tokenUrl || '', scopes: flowScopes } }
+                    : { clientCredentials: { tokenUrl: auth.tokenUrl || '', scopes: flowScopes } };
+            return { name: 'oauth2', scheme: { type: 'oauth2', flows }, scopes };
+        }
+        default:
+            return undefined;
+    }
+}
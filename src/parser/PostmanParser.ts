@@ -0,0 +1,591 @@
+import {
+    AuthConfig,
+    Collection,
+    createRequest,
+    GraphQLBody,
+    HttpMethod,
+    isHttpRequest,
+    MultipartField,
+    OAuth2GrantType,
+    Request,
+    RequestBody,
+    RequestHeader,
+} from '../models/Collection';
+import { parseMultipartFields } from '../http/Multipart';
+import { parseGraphQLBody } from '../http/GraphQL';
+
+export const POSTMAN_SCHEMA_V21 = 'https://schema.getpostman.com/json/collection/v2.1.0/collection.json';
+
+const HTTP_METHODS: HttpMethod[] = ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'HEAD', 'OPTIONS'];
+
+/**
+ * Pre-request scripts written by the export run another request of the collection by its id
+ */
+const RUN_REQUEST_PATTERN = /pm\.execution\.runRequest\(\s*['"]([^'"]+)['"]\s*\)/;
+
+/**
+ * A collection read from a Postman export, ready to be saved as a Collection
+ */
+export interface PostmanImport {
+    name: string;
+    description?: string;
+    /** Requests of all folders, named "Folder / Request" */
+    requests: Request[];
+    defaultAuth?: AuthConfig;
+    /** Collection and folder variables */
+    variables: Record<string, string>;
+    /** What could not be brought over - scripts, unsupported auth types and methods */
+    warnings: string[];
+}
+
+/**
+ * The parts of the Postman Collection v2.0/v2.1 format that are read and written.
+ * Auth parameters are key/value lists in v2.1 and objects in v2.0.
+ */
+interface PostmanKeyValue {
+    key: string;
+    value?: unknown;
+    disabled?: boolean;
+    type?: string;
+    src?: string | string[];
+    contentType?: string;
+}
+
+interface PostmanAuth {
+    type: string;
+    [type: string]: PostmanKeyValue[] | Record<string, unknown> | string;
+}
+
+interface PostmanUrl {
+    raw?: string;
+    protocol?: string;
+    host?: string | string[];
+    port?: string;
+    path?: string | string[];
+    query?: PostmanKeyValue[];
+    variable?: PostmanKeyValue[];
+}
+
+interface PostmanBody {
+    mode?: string;
+    disabled?: boolean;
+    raw?: string;
+    urlencoded?: PostmanKeyValue[];
+    formdata?: PostmanKeyValue[];
+    file?: { src?: string };
+    graphql?: { query?: string; variables?: string };
+    options?: { raw?: { language?: string } };
+}
+
+interface PostmanRequest {
+    method?: string;
+    url?: string | PostmanUrl;
+    header?: PostmanKeyValue[] | string;
+    body?: PostmanBody;
+    auth?: PostmanAuth | null;
+}
+
+interface PostmanEvent {
+    listen: string;
+    script?: { type?: string; exec?: string | string[] };
+}
+
+interface PostmanItem {
+    id?: string;
+    name?: string;
+    item?: PostmanItem[];
+    request?: PostmanRequest | string;
+    auth?: PostmanAuth | null;
+    event?: PostmanEvent[];
+    variable?: PostmanKeyValue[];
+}
+
+interface PostmanCollection {
+    info: { name: string; description?: string | { content?: string }; schema: string; _postman_id?: string };
+    item: PostmanItem[];
+    auth?: PostmanAuth;
+    event?: PostmanEvent[];
+    variable?: PostmanKeyValue[];
+}
+
+/**
+ * Read a Postman Collection v2.0 or v2.1 export. Folders are flattened into request names,
+ * folder auth is copied to the requests that inherit it, and a pre-request script that only
+ * runs another request of the collection becomes the request's pre-request.
+ * @throws when the content is not a Postman v2 collection
+ */
+export function parsePostmanCollection(content: string): PostmanImport {
+    let json: unknown;
+    try {
+        json = JSON.parse(content);
+    } catch (error) {
+        throw new Error(`Invalid JSON: ${error instanceof Error ? error.message : String(error)}`);
+    }
+    const collection = json as PostmanCollection;
+    if (!collection || typeof collection !== 'object' || Array.isArray(collection)) {
+        throw new Error('Not a Postman collection');
+    }
+    if (!collection.info && Array.isArray((json as { requests?: unknown }).requests)) {
+        throw new Error('Postman Collection v1 is not supported - export the collection as v2.1');
+    }
+    if (!collection.info || !Array.isArray(collection.item)) {
+        throw new Error('Not a Postman collection - expected "info" and "item"');
+    }
+
+    const warnings: string[] = [];
+    const result: PostmanImport = {
+        name: collection.info.name || 'Postman Collection',
+        description: getDescription(collection.info.description),
+        requests: [],
+        variables: readVariables(collection.variable),
+        warnings,
+    };
+    if (collection.auth) {
+        result.defaultAuth = toAuthConfig(collection.auth, collection.info.name, warnings);
+    }
+    if (collection.event?.some(hasScript)) {
+        warnings.push('Collection scripts were not imported');
+    }
+
+    // Postman ids of imported requests, to point pre-requests at the new ids
+    const ids = new Map<string, string>();
+    const preRequests = new Map<Request, string>();
+    let scriptCount = 0;
+
+    const walk = (items: PostmanItem[], path: string[], folderAuth: PostmanAuth | undefined) => {
+        for (const item of items) {
+            const name = item.name || 'Untitled';
+            if (Array.isArray(item.item)) {
+                Object.assign(result.variables, readVariables(item.variable));
+                if (item.event?.some(hasScript)) {
+                    warnings.push(`Scripts of folder "${[...path, name].join(' / ')}" were not imported`);
+                }
+                const auth = item.auth && item.auth.type !== 'inherit' ? item.auth : folderAuth;
+                walk(item.item, [...path, name], auth);
+                continue;
+            }
+            if (!item.request) {
+                continue;
+            }
+
+            const fullName = [...path, name].join(' / ');
+            const request = toRequest(item.request, fullName, folderAuth, warnings);
+            if (!request) {
+                continue;
+            }
+            if (item.id) {
+                ids.set(item.id, request.id);
+            }
+
+            const scripts = (item.event || []).filter(hasScript);
+            const preRequestScript = scripts.find(event => event.listen === 'prerequest');
+            const runRequest = preRequestScript && getScript(preRequestScript).match(RUN_REQUEST_PATTERN);
+            if (runRequest) {
+                preRequests.set(request, runRequest[1]);
+            }
+            if (scripts.some(event => event !== preRequestScript || !isRunRequestScript(event))) {
+                scriptCount++;
+            }
+            result.requests.push(request);
+        }
+    };
+    walk(collection.item, [], undefined);
+
+    for (const [request, postmanId] of preRequests) {
+        const preRequestId = ids.get(postmanId);
+        if (preRequestId && preRequestId !== request.id) {
+            request.preRequestId = preRequestId;
+        } else {
+            warnings.push(`Pre-request of "${request.name}" refers to a request that is not in the collection`);
+        }
+    }
+    if (scriptCount > 0) {
+        warnings.push(`Scripts of ${scriptCount} request(s) were not imported - add response tests in the Tests tab instead`);
+    }
+    return result;
+}
+
+/**
+ * Write a collection as a Postman Collection v2.1 export. Collection default headers are added to
+ * each request, since Postman has none; WebSocket and gRPC requests are left out.
+ */
+export function serializeToPostmanCollection(collection: Collection): string {
+    const requests = collection.requests.filter(isHttpRequest);
+    const names = new Map(requests.map(r => [r.id, r.name]));
+    const output: PostmanCollection = {
+        info: {
+            name: collection.name,
+            ...(collection.description ? { description: collection.description } : {}),
+            schema: POSTMAN_SCHEMA_V21,
+        },
+        item: requests.map(request => {
+            const item: PostmanItem = {
+                id: request.id,
+                name: request.name,
+                request: toPostmanRequest(request, collection),
+            };
+            const preRequestName = request.preRequestId && names.get(request.preRequestId);
+            if (preRequestName) {
+                item.event = [{
+                    listen: 'prerequest',
+                    script: {
+                        type: 'text/javascript',
+                        exec: [`// Run "${preRequestName}" first`, `await pm.execution.runRequest('${request.preRequestId}');`],
+                    },
+                }];
+            }
+            return item;
+        }),
+    };
+    if (collection.defaultAuth && collection.defaultAuth.type !== 'none') {
+        output.auth = toPostmanAuth(collection.defaultAuth);
+    }
+    if (collection.variables && Object.keys(collection.variables).length > 0) {
+        output.variable = Object.entries(collection.variables).map(([key, value]) => ({ key, value }));
+    }
+    return JSON.stringify(output, null, '\t');
+}
+
+// ==================== Import ====================
+
+function toRequest(source: PostmanRequest | string, name: string, folderAuth: PostmanAuth | undefined, warnings: string[]): Request | undefined {
+    const postman: PostmanRequest = typeof source === 'string' ? { url: source, method: 'GET' } : source;
+    const method = (postman.method || 'GET').toUpperCase() as HttpMethod;
+    if (!HTTP_METHODS.includes(method)) {
+        warnings.push(`"${name}" was skipped - the ${method} method is not supported`);
+        return undefined;
+    }
+
+    const request = createRequest(name, method, toUrl(postman.url));
+    request.headers = Array.isArray(postman.header)
+        ? postman.header.filter(h => h.key).map(h => ({ name: h.key, value: toText(h.value), enabled: !h.disabled }))
+        : [];
+    request.body = toBody(postman.body, request.headers);
+
+    // No auth inherits from the folder, then the collection; noauth turns inherited auth off
+    const auth = postman.auth && postman.auth.type !== 'inherit' ? postman.auth : folderAuth;
+    if (auth) {
+        request.auth = toAuthConfig(auth, name, warnings) ?? { type: 'none' };
+        request.useInheritedAuth = false;
+    }
+    return request;
+}
+
+/**
+ * The raw URL, or one put together from its parts. :name path variables become their value,
+ * or a {{name}} variable when they have none.
+ */
+function toUrl(url: string | PostmanUrl | undefined): string {
+    if (!url) {
+        return '';
+    }
+    if (typeof url === 'string') {
+        return url;
+    }
+    let raw = url.raw;
+    if (!raw) {
+        const host = Array.isArray(url.host) ? url.host.join('.') : url.host || '';
+        const path = Array.isArray(url.path) ? url.path.join('/') : url.path || '';
+        const query = (url.query || []).filter(q => !q.disabled && q.key !== null)
+            .map(q => q.value === undefined || q.value === null ? q.key : `${q.key}=${toText(q.value)}`).join('&');
+        raw = `${url.protocol ? `${url.protocol}://` : ''}${host}${url.port ? `:${url.port}` : ''}${path ? `/${path}` : ''}${query ? `?${query}` : ''}`;
+    }
+    const pathVariables = new Map((url.variable || []).map(v => [v.key, toText(v.value)]));
+    const [base, ...query] = raw.split('?');
+    const resolved = base.replace(/\/:([A-Za-z_][\w-]*)/g, (_match, name: string) => `/${pathVariables.get(name) || `{{${name}}}`}`);
+    return [resolved, ...query].join('?');
+}
+
+function toBody(body: PostmanBody | undefined, headers: RequestHeader[]): RequestBody {
+    if (!body || body.disabled) {
+        return { type: 'none', content: '' };
+    }
+    switch (body.mode) {
+        case 'raw': {
+            const content = body.raw || '';
+            if (!content) {
+                return { type: 'none', content: '' };
+            }
+            const language = body.options?.raw?.language;
+            const contentType = headers.find(h => h.name.toLowerCase() === 'content-type')?.value.toLowerCase() || '';
+            if (language === 'json' || (!language && contentType.includes('json'))) {
+                return { type: 'json', content };
+            }
+            if (language === 'xml' || (!language && contentType.includes('xml'))) {
+                return { type: 'xml', content };
+            }
+            return { type: 'text', content };
+        }
+        case 'urlencoded':
+            return {
+                type: 'form',
+                content: JSON.stringify((body.urlencoded || []).map(f => ({ key: f.key, value: toText(f.value), enabled: !f.disabled }))),
+            };
+        case 'formdata': {
+            const fields: MultipartField[] = (body.formdata || []).map(f => {
+                const file = f.type === 'file';
+                const src = Array.isArray(f.src) ? f.src[0] : f.src;
+                return {
+                    key: f.key,
+                    value: file ? src || '' : toText(f.value),
+                    enabled: !f.disabled,
+                    type: file ? 'file' : 'text',
+                    ...(f.contentType ? { contentType: f.contentType } : {}),
+                };
+            });
+            return { type: 'multipart', content: JSON.stringify(fields) };
+        }
+        case 'file':
+            return body.file?.src ? { type: 'binary', content: body.file.src } : { type: 'none', content: '' };
+        case 'graphql': {
+            const graphql: GraphQLBody = { query: body.graphql?.query || '', variables: body.graphql?.variables || '' };
+            return { type: 'graphql', content: JSON.stringify(graphql) };
+        }
+        default:
+            return { type: 'none', content: '' };
+    }
+}
+
+const GRANT_TYPES: Record<string, OAuth2GrantType> = {
+    'client_credentials': 'client_credentials',
+    'password_credentials': 'password',
+    'authorization_code': 'authorization_code',
+    'authorization_code_with_pkce': 'authorization_code',
+};
+
+/**
+ * Undefined for types Endpoint doesn't support - a warning names them
+ */
+function toAuthConfig(auth: PostmanAuth, owner: string, warnings: string[]): AuthConfig | undefined {
+    const params = getAuthParams(auth);
+    const param = (key: string) => params[key] !== undefined ? toText(params[key]) : undefined;
+    switch (auth.type) {
+        case 'noauth':
+            return { type: 'none' };
+        case 'basic':
+        case 'digest':
+            return { type: auth.type, username: param('username'), password: param('password') };
+        case 'bearer':
+            return { type: 'bearer', token: param('token') };
+        case 'apikey':
+            return { type: 'apikey', apiKeyName: param('key'), apiKeyValue: param('value'), apiKeyIn: param('in') === 'query' ? 'query' : 'header' };
+        case 'awsv4':
+            return {
+                type: 'awsv4',
+                awsAccessKeyId: param('accessKey'),
+                awsSecretAccessKey: param('secretKey'),
+                awsSessionToken: param('sessionToken'),
+                awsRegion: param('region'),
+                awsService: param('service'),
+            };
+        case 'oauth2': {
+            const grantType = GRANT_TYPES[param('grant_type') || 'authorization_code'];
+            if (!grantType) {
+                warnings.push(`OAuth 2.0 ${param('grant_type')} grant of "${owner}" is not supported`);
+                return undefined;
+            }
+            return {
+                type: 'oauth2',
+                grantType,
+                tokenUrl: param('accessTokenUrl'),
+                authUrl: param('authUrl'),
+                redirectUri: param('redirect_uri'),
+                clientId: param('clientId'),
+                clientSecret: param('clientSecret'),
+                clientAuth: param('client_authentication') === 'body' ? 'body' : 'header',
+                scope: param('scope'),
+                audience: param('audience'),
+                username: param('username'),
+                password: param('password'),
+                refreshToken: param('refreshToken'),
+            };
+        }
+        default:
+            warnings.push(`${auth.type} auth of "${owner}" is not supported`);
+            return undefined;
+    }
+}
+
+function getAuthParams(auth: PostmanAuth): Record<string, unknown> {
+    const params = auth[auth.type];
+    if (Array.isArray(params)) {
+        return Object.fromEntries(params.map(p => [p.key, p.value]));
+    }
+    return params && typeof params === 'object' ? params : {};
+}
+
+function readVariables(variables: PostmanKeyValue[] | undefined): Record<string, string> {
+    const result: Record<string, string> = {};
+    for (const variable of variables || []) {
+        if (variable.key && !variable.disabled) {
+            result[variable.key] = toText(variable.value);
+        }
+    }
+    return result;
+}
+
+function getDescription(description: string | { content?: string } | undefined): string | undefined {
+    return (typeof description === 'string' ? description : description?.content) || undefined;
+}
+
+function getScript(event: PostmanEvent): string {
+    const exec = event.script?.exec;
+    return Array.isArray(exec) ? exec.join('\n') : exec || '';
+}
+
+function hasScript(event: PostmanEvent): boolean {
+    return getScript(event).trim() !== '';
+}
+
+/**
+ * Whether a script does nothing but run another request - comments aside
+ */
+function isRunRequestScript(event: PostmanEvent): boolean {
+    const code = getScript(event).split('\n').map(line => line.trim()).filter(line => line && !line.startsWith('//'));
+    return code.length === 1 && RUN_REQUEST_PATTERN.test(code[0]);
+}
+
+function toText(value: unknown): string {
+    return value === undefined || value === null ? '' : String(value);
+}
+
+// ==================== Export ====================
+
+function toPostmanRequest(request: Request, collection: Collection): PostmanRequest {
+    // Postman has no collection headers, so the inherited ones go with each request
+    const disabledInherited = new Set(request.disabledInheritedHeaders || []);
+    const own = new Set(request.headers.map(h => h.name.toLowerCase()));
+    const inherited = (collection.defaultHeaders || [])
+        .filter(h => h.enabled && h.name && !disabledInherited.has(h.name) && !own.has(h.name.toLowerCase()));
+    const postman: PostmanRequest = {
+        method: request.method,
+        header: [...inherited, ...request.headers].map(h => ({ key: h.name, value: h.value, ...(h.enabled ? {} : { disabled: true }) })),
+        url: toPostmanUrl(request.url),
+    };
+
+    const body = toPostmanBody(request.body);
+    if (body) {
+        postman.body = body;
+    }
+    // Without auth a request inherits the collection's
+    const inheritsAuth = request.useInheritedAuth !== false && !!collection.defaultAuth && collection.defaultAuth.type !== 'none';
+    if (!inheritsAuth && request.auth && request.auth.type !== 'none') {
+        postman.auth = toPostmanAuth(request.auth);
+    } else if (!inheritsAuth && collection.defaultAuth && collection.defaultAuth.type !== 'none') {
+        postman.auth = { type: 'noauth' };
+    }
+    return postman;
+}
+
+/**
+ * The URL's parts, split without decoding so {{variables}} stay intact
+ */
+function toPostmanUrl(raw: string): PostmanUrl {
+    const [base, ...queryParts] = raw.split('?');
+    const query = queryParts.join('?');
+    const protocol = base.match(/^([a-z][a-z0-9+.-]*):\/\//i);
+    const [hostAndPort, ...path] = (protocol ? base.slice(protocol[0].length) : base).split('/');
+    const port = hostAndPort.match(/:(\d+)$/);
+    const host = port ? hostAndPort.slice(0, -port[0].length) : hostAndPort;
+    return {
+        raw,
+        ...(protocol ? { protocol: protocol[1] } : {}),
+        host: host.split('.'),
+        ...(port ? { port: port[1] } : {}),
+        path,
+        ...(query ? {
+            query: query.split('&').filter(Boolean).map(pair => {
+                const [key, ...value] = pair.split('=');
+                return { key, value: value.length > 0 ? value.join('=') : null };
+            }),
+        } : {}),
+    };
+}
+
+function toPostmanBody(body: RequestBody): PostmanBody | undefined {
+    if (!body || body.type === 'none' || !body.content) {
+        return undefined;
+    }
+    switch (body.type) {
+        case 'json':
+        case 'xml':
+        case 'text':
+            return { mode: 'raw', raw: body.content, options: { raw: { language: body.type } } };
+        case 'form': {
+            let fields: { key: string; value: string; enabled: boolean }[];
+            try {
+                fields = JSON.parse(body.content);
+            } catch {
+                // An encoded string from an older version
+                fields = [...new URLSearchParams(body.content)].map(([key, value]) => ({ key, value, enabled: true }));
+            }
+            return { mode: 'urlencoded', urlencoded: fields.map(f => ({ key: f.key, value: f.value, ...(f.enabled ? {} : { disabled: true }) })) };
+        }
+        case 'multipart':
+            return {
+                mode: 'formdata',
+                formdata: parseMultipartFields(body.content).map(f => ({
+                    key: f.key,
+                    type: f.type,
+                    ...(f.type === 'file' ? { src: f.value } : { value: f.value }),
+                    ...(f.contentType ? { contentType: f.contentType } : {}),
+                    ...(f.enabled ? {} : { disabled: true }),
+                })),
+            };
+        case 'binary':
+            return { mode: 'file', file: { src: body.content } };
+        case 'graphql': {
+            const graphql = parseGraphQLBody(body.content);
+            return { mode: 'graphql', graphql: { query: graphql.query, variables: graphql.variables } };
+        }
+    }
+}
+
+function toPostmanAuth(auth: AuthConfig): PostmanAuth {
+    const params = (values: Record<string, string | undefined>): PostmanKeyValue[] =>
+        Object.entries(values).filter(([, value]) => value !== undefined && value !== '').map(([key, value]) => ({ key, value, type: 'string' }));
+    switch (auth.type) {
+        case 'basic':
+        case 'digest':
+            return { type: auth.type, [auth.type]: params({ username: auth.username, password: auth.password }) };
+        case 'bearer':
+            return { type: 'bearer', bearer: params({ token: auth.token }) };
+        case 'apikey':
+            return { type: 'apikey', apikey: params({ key: auth.apiKeyName, value: auth.apiKeyValue, in: auth.apiKeyIn || 'header' }) };
+        case 'awsv4':
+            return {
+                type: 'awsv4',
+                awsv4: params({
+                    accessKey: auth.awsAccessKeyId,
+                    secretKey: auth.awsSecretAccessKey,
+                    sessionToken: auth.awsSessionToken,
+                    region: auth.awsRegion,
+                    service: auth.awsService,
+                }),
+            };
+        case 'oauth2': {
+            const grantType = auth.grantType || 'client_credentials';
+            return {
+                type: 'oauth2',
+                oauth2: params({
+                    grant_type: grantType === 'password' ? 'password_credentials'
+                        : grantType === 'authorization_code' ? 'authorization_code_with_pkce'
+                            : grantType === 'refresh_token' ? undefined : grantType,
+                    accessTokenUrl: auth.tokenUrl,
+                    authUrl: auth.authUrl,
+                    redirect_uri: auth.redirectUri,
+                    clientId: auth.clientId,
+                    clientSecret: auth.clientSecret,
+                    client_authentication: auth.clientAuth || 'header',
+                    scope: auth.scope,
+                    audience: auth.audience,
+                    username: auth.username,
+                    password: auth.password,
+                    refreshToken: auth.refreshToken,
+                }),
+            };
+        }
+        default:
+            return { type: 'noauth' };
+    }
+}
@@ -0,0 +1,705 @@
+/**
+ * A YAML reader for API description documents: block and flow collections, plain, quoted and
+ * block scalars, anchors, aliases and merge keys. Tags other than !!str are ignored, and only
+ * the first document of a stream is read.
+ * @throws when the content is not valid YAML, with the line number
+ */
+export function parseYaml(content: string): unknown {
+    return new YamlReader(content).read();
+}
+
+interface Line {
+    /** 1-based, for error messages */
+    number: number;
+    indent: number;
+    /** The line without its indentation or trailing whitespace */
+    text: string;
+}
+
+type ValueContext = 'mapping' | 'sequence' | 'node';
+
+class YamlReader {
+    private readonly lines: Line[];
+    private pos = 0;
+    private readonly anchors = new Map<string, unknown>();
+
+    constructor(content: string) {
+        this.lines = content.replace(/^\uFEFF/, '').split(/\r?\n/).map((raw, index) => {
+            const indent = /^ */.exec(raw)![0].length;
+            return { number: index + 1, indent, text: raw.slice(indent).trimEnd() };
+        });
+    }
+
+    read(): unknown {
+        this.skipBlank();
+        while (this.pos < this.lines.length && this.lines[this.pos].text.startsWith('%')) {
+            this.pos++;
+            this.skipBlank();
+        }
+        const first = this.lines[this.pos];
+        if (first && isDocumentMarker(first, '---')) {
+            const rest = first.text.slice(3).trim();
+            if (rest && !rest.startsWith('#')) {
+                this.lines[this.pos] = { ...first, indent: 4, text: rest };
+            } else {
+                this.pos++;
+            }
+        }
+
+        const value = this.parseNode(-1);
+        const next = this.peek();
+        if (next) {
+            throw this.error(next, 'Unexpected content');
+        }
+        return value;
+    }
+
+    // ==================== Block structure ====================
+
+    /**
+     * The node on the next line, if it is indented more than its parent
+     */
+    private parseNode(parentIndent: number): unknown {
+        const line = this.peek();
+        if (!line || line.indent <= parentIndent) {
+            return null;
+        }
+        return this.parseBlock(line);
+    }
+
+    private parseBlock(line: Line): unknown {
+        if (isSequenceEntry(line.text)) {
+            return this.parseSequence(line.indent);
+        }
+        if (splitMappingEntry(line.text, line)) {
+            return this.parseMapping(line.indent);
+        }
+        return this.parseValue(line.text, line.indent - 1, 'node');
+    }
+
+    private parseSequence(indent: number): unknown[] {
+        const items: unknown[] = [];
+        for (;;) {
+            const line = this.peek();
+            if (!line || line.indent < indent) {
+                break;
+            }
+            if (line.indent > indent) {
+                throw this.error(line, 'Unexpected indentation');
+            }
+            if (!isSequenceEntry(line.text)) {
+                break;
+            }
+            const rest = line.text.slice(1).trimStart();
+            // The item's content starts after "- "; nested blocks line up with it
+            this.lines[this.pos] = { ...line, indent: indent + line.text.length - rest.length, text: rest };
+            items.push(this.parseValue(rest, indent, 'sequence'));
+        }
+        return items;
+    }
+
+    private parseMapping(indent: number): Record<string, unknown> {
+        const map: Record<string, unknown> = {};
+        for (;;) {
+            const line = this.peek();
+            if (!line || line.indent < indent) {
+                break;
+            }
+            if (line.indent > indent) {
+                throw this.error(line, 'Unexpected indentation');
+            }
+            if (isSequenceEntry(line.text)) {
+                throw this.error(line, 'Expected a mapping entry, found a sequence item');
+            }
+            const entry = splitMappingEntry(line.text, line);
+            if (!entry) {
+                throw this.error(line, 'Expected a mapping entry');
+            }
+            const value = this.parseValue(entry.rest, indent, 'mapping');
+            if (entry.key === '<<' && value && typeof value === 'object') {
+                // Merge keys don't override keys of the mapping itself
+                for (const source of Array.isArray(value) ? value : [value]) {
+                    for (const [key, merged] of Object.entries(source as Record<string, unknown>)) {
+                        if (!(key in map)) {
+                            map[key] = merged;
+                        }
+                    }
+                }
+            } else {
+                map[entry.key] = value;
+            }
+        }
+        return map;
+    }
+
+    /**
+     * The value after "key:" or "- " (or a whole line for a scalar node) - inline on the current
+     * line, or a block on the lines below it
+     */
+    private parseValue(text: string, parentIndent: number, context: ValueContext): unknown {
+        const line = this.lines[this.pos];
+        const { anchor, tag, rest } = takeProperties(text);
+        let value: unknown;
+
+        if (!rest || rest.startsWith('#')) {
+            this.pos++;
+            const next = this.peek();
+            // A sequence may sit at the same indentation as its mapping key
+            value = context === 'mapping' && next && next.indent === parentIndent && isSequenceEntry(next.text)
+                ? this.parseSequence(parentIndent)
+                : this.parseNode(parentIndent);
+        } else if (rest.startsWith('|') || rest.startsWith('>')) {
+            this.pos++;
+            value = this.parseBlockScalar(rest, line, parentIndent);
+        } else if (rest.startsWith('*')) {
+            const alias = /^\*([^\s,[\]{}]+)\s*(#.*)?$/.exec(rest);
+            if (!alias || !this.anchors.has(alias[1])) {
+                throw this.error(line, `Unknown alias ${rest}`);
+            }
+            this.pos++;
+            value = this.anchors.get(alias[1]);
+        } else if (context === 'sequence' && (isSequenceEntry(rest) || splitMappingEntry(rest, line))) {
+            // "- key: value" starts a mapping, "- - item" a sequence, at the item's indentation
+            const indent = line.indent + line.text.length - rest.length;
+            this.lines[this.pos] = { ...line, indent, text: rest };
+            value = this.parseBlock(this.lines[this.pos]);
+        } else if (rest.startsWith('[') || rest.startsWith('{')) {
+            value = this.parseFlowLines(rest, line);
+        } else if (rest.startsWith('"') || rest.startsWith('\'')) {
+            value = this.parseQuotedLines(rest, line);
+        } else {
+            value = this.parsePlainLines(rest, parentIndent);
+        }
+
+        if (tag === '!!str' && value !== null && typeof value !== 'object') {
+            value = String(value);
+        }
+        if (anchor) {
+            this.anchors.set(anchor, value);
+        }
+        return value;
+    }
+
+    // ==================== Scalars ====================
+
+    /**
+     * A plain scalar, continued on following lines that are indented more than its parent
+     */
+    private parsePlainLines(text: string, parentIndent: number): unknown {
+        let value = stripComment(text);
+        this.pos++;
+        let breaks = 0;
+        while (this.pos < this.lines.length) {
+            const line = this.lines[this.pos];
+            if (line.text === '') {
+                breaks++;
+                this.pos++;
+                continue;
+            }
+            if (line.indent <= parentIndent || line.text.startsWith('#') || isDocumentMarker(line, '---') || isDocumentMarker(line, '...')) {
+                break;
+            }
+            if (splitMappingEntry(line.text, line)) {
+                throw this.error(line, 'Unexpected indentation');
+            }
+            value += breaks > 0 ? '\n'.repeat(breaks) : ' ';
+            value += stripComment(line.text);
+            breaks = 0;
+            this.pos++;
+        }
+        if (breaks > 0) {
+            // Trailing blank lines belong to no one - step back so they aren't lost to a block scalar
+            this.pos -= breaks;
+        }
+        return value.includes('\n') || value !== stripComment(text) ? value : resolvePlain(value);
+    }
+
+    /**
+     * A quoted scalar, which may continue on following lines
+     */
+    private parseQuotedLines(text: string, line: Line): string {
+        let source = text;
+        let scanned = scanQuoted(source, 0);
+        while (!scanned) {
+            this.pos++;
+            if (this.pos >= this.lines.length) {
+                throw this.error(line, 'Unterminated quoted string');
+            }
+            source += '\n' + this.lines[this.pos].text;
+            scanned = scanQuoted(source, 0);
+        }
+        this.pos++;
+        const after = source.slice(scanned.end).trim();
+        if (after && !after.startsWith('#')) {
+            throw this.error(line, `Unexpected "${after}" after quoted string`);
+        }
+        return scanned.value;
+    }
+
+    /**
+     * A literal (|) or folded (>) block scalar
+     */
+    private parseBlockScalar(header: string, line: Line, parentIndent: number): string {
+        const match = /^([|>])([1-9]?)([+-]?)([1-9]?)\s*(#.*)?$/.exec(header);
+        if (!match) {
+            throw this.error(line, `Invalid block scalar header "${header}"`);
+        }
+        const [, style, indentBefore, chomping, indentAfter] = match;
+        const explicitIndent = Number(indentBefore || indentAfter) || 0;
+
+        const collected: Line[] = [];
+        while (this.pos < this.lines.length) {
+            const next = this.lines[this.pos];
+            if (next.text !== '' && next.indent <= parentIndent) {
+                break;
+            }
+            collected.push(next);
+            this.pos++;
+        }
+        const firstContent = collected.find(l => l.text !== '');
+        const blockIndent = explicitIndent ? Math.max(parentIndent, 0) + explicitIndent : firstContent?.indent ?? 0;
+        const contentLines: string[] = [];
+        for (const next of collected) {
+            if (next.text !== '' && next.indent < blockIndent) {
+                break;
+            }
+            // Spaces past the block's indentation are content, even on otherwise blank lines
+            contentLines.push(' '.repeat(Math.max(0, next.indent - blockIndent)) + next.text);
+        }
+        // Lines after a less indented one were not part of the block
+        this.pos -= collected.length - contentLines.length;
+
+        let trailing = 0;
+        while (contentLines.length > 0 && contentLines[contentLines.length - 1] === '') {
+            contentLines.pop();
+            trailing++;
+        }
+        if (contentLines.length === 0) {
+            return chomping === '+' ? '\n'.repeat(trailing) : '';
+        }
+        const body = style === '|' ? contentLines.join('\n') : foldLines(contentLines);
+        if (chomping === '-') {
+            return body;
+        }
+        return body + (chomping === '+' ? '\n'.repeat(trailing + 1) : '\n');
+    }
+
+    // ==================== Flow collections ====================
+
+    /**
+     * A [...] or {...} collection, which may continue on following lines
+     */
+    private parseFlowLines(text: string, line: Line): unknown {
+        let source = stripComment(text);
+        let end = findFlowEnd(source);
+        while (end < 0) {
+            this.pos++;
+            if (this.pos >= this.lines.length) {
+                throw this.error(line, 'Unterminated flow collection');
+            }
+            source += ' ' + stripComment(this.lines[this.pos].text);
+            end = findFlowEnd(source);
+        }
+        this.pos++;
+        if (source.slice(end).trim()) {
+            throw this.error(line, `Unexpected "${source.slice(end).trim()}" after flow collection`);
+        }
+        const [value] = this.parseFlow(source, 0, line);
+        return value;
+    }
+
+    private parseFlow(source: string, start: number, line: Line): [unknown, number] {
+        let i = skipSpaces(source, start);
+        const properties = /^(&([^\s,[\]{}]+)\s*)?(![^\s,[\]{}]*\s*)?/.exec(source.slice(i))!;
+        i += properties[0].length;
+        const anchor = properties[2];
+        let value: unknown;
+
+        const char = source[i];
+        if (char === '[') {
+            const items: unknown[] = [];
+            i = skipSpaces(source, i + 1);
+            while (source[i] !== ']') {
+                const [item, afterItem] = this.parseFlow(source, i, line);
+                let next = skipSpaces(source, afterItem);
+                if (source[next] === ':') {
+                    // [key: value] is a sequence of one single-pair mapping
+                    let entry: unknown = null;
+                    next = skipSpaces(source, next + 1);
+                    if (source[next] !== ',' && source[next] !== ']') {
+                        [entry, next] = this.parseFlow(source, next, line);
+                    }
+                    items.push({ [String(item)]: entry });
+                } else {
+                    items.push(item);
+                }
+                i = this.skipFlowSeparator(source, next, ']', line);
+            }
+            value = items;
+            i++;
+        } else if (char === '{') {
+            const map: Record<string, unknown> = {};
+            i = skipSpaces(source, i + 1);
+            while (source[i] !== '}') {
+                const [key, afterKey] = this.parseFlow(source, i, line);
+                let next = skipSpaces(source, afterKey);
+                let entry: unknown = null;
+                if (source[next] === ':') {
+                    next = skipSpaces(source, next + 1);
+                    if (source[next] !== ',' && source[next] !== '}') {
+                        [entry, next] = this.parseFlow(source, next, line);
+                    }
+                }
+                map[String(key)] = entry;
+                i = this.skipFlowSeparator(source, next, '}', line);
+            }
+            value = map;
+            i++;
+        } else if (char === '"' || char === '\'') {
+            const scanned = scanQuoted(source, i);
+            if (!scanned) {
+                throw this.error(line, 'Unterminated quoted string');
+            }
+            value = scanned.value;
+            i = scanned.end;
+        } else if (char === '*') {
+            const alias = /^\*([^\s,[\]{}]+)/.exec(source.slice(i));
+            if (!alias || !this.anchors.has(alias[1])) {
+                throw this.error(line, `Unknown alias in "${source}"`);
+            }
+            value = this.anchors.get(alias[1]);
+            i += alias[0].length;
+        } else {
+            // A plain scalar ends at a flow indicator or a ": "
+            let end = i;
+            while (end < source.length && !',[]{}'.includes(source[end])
+                && !(source[end] === ':' && (end + 1 === source.length || ' ,[]{}'.includes(source[end + 1])))) {
+                end++;
+            }
+            value = resolvePlain(source.slice(i, end).trim());
+            i = end;
+        }
+
+        if (anchor) {
+            this.anchors.set(anchor, value);
+        }
+        return [value, i];
+    }
+
+    private skipFlowSeparator(source: string, start: number, close: string, line: Line): number {
+        const i = skipSpaces(source, start);
+        if (source[i] === ',') {
+            return skipSpaces(source, i + 1);
+        }
+        if (source[i] !== close) {
+            throw this.error(line, `Expected "," or "${close}" in flow collection`);
+        }
+        return i;
+    }
+
+    // ==================== Helpers ====================
+
+    /**
+     * The next line with content, or undefined at the end of the document
+     */
+    private peek(): Line | undefined {
+        this.skipBlank();
+        const line = this.lines[this.pos];
+        return line && !isDocumentMarker(line, '---') && !isDocumentMarker(line, '...') ? line : undefined;
+    }
+
+    private skipBlank(): void {
+        while (this.pos < this.lines.length && (this.lines[this.pos].text === '' || this.lines[this.pos].text.startsWith('#'))) {
+            this.pos++;
+        }
+    }
+
+    private error(line: Line, message: string): Error {
+        return new Error(`YAML line ${line.number}: ${message}`);
+    }
+}
+
+function isDocumentMarker(line: Line, marker: string): boolean {
+    return line.indent === 0 && (line.text === marker || line.text.startsWith(marker + ' '));
+}
+
+function isSequenceEntry(text: string): boolean {
+    return text === '-' || text.startsWith('- ') || text.startsWith('-\t');
+}
+
+/**
+ * The key and the rest of a "key: value" line, or undefined when the line is not a mapping entry
+ */
+function splitMappingEntry(text: string, line: Line): { key: string; rest: string } | undefined {
+    if (text.startsWith('? ')) {
+        throw new Error(`YAML line ${line.number}: Complex mapping keys are not supported`);
+    }
+    if (text.startsWith('"') || text.startsWith('\'')) {
+        const scanned = scanQuoted(text, 0);
+        if (!scanned) {
+            return undefined;
+        }
+        const after = text.slice(scanned.end).trimStart();
+        return after.startsWith(':') && (after.length === 1 || after[1] === ' ' || after[1] === '\t')
+            ? { key: scanned.value, rest: after.slice(1).trimStart() }
+            : undefined;
+    }
+    if (text.startsWith('[') || text.startsWith('{') || text.startsWith('#')) {
+        return undefined;
+    }
+    for (let i = 0; i < text.length; i++) {
+        if (text[i] === '#' && i > 0 && (text[i - 1] === ' ' || text[i - 1] === '\t')) {
+            return undefined;
+        }
+        if (text[i] === ':' && (i + 1 === text.length || text[i + 1] === ' ' || text[i + 1] === '\t')) {
+            const key = takeProperties(text.slice(0, i).trim()).rest;
+            return { key, rest: text.slice(i + 1).trimStart() };
+        }
+    }
+    return undefined;
+}
+
+/**
+ * Split off a leading &anchor and !tag
+ */
+function takeProperties(text: string): { anchor?: string; tag?: string; rest: string } {
+    let rest = text;
+    let anchor: string | undefined;
+    let tag: string | undefined;
+    for (;;) {
+        const anchorMatch = /^&([^\s,[\]{}]+)\s*/.exec(rest);
+        const tagMatch = /^(![^\s,[\]{}]*)\s*/.exec(rest);
+        if (anchorMatch && !anchor) {
+            anchor = anchorMatch[1];
+            rest = rest.slice(anchorMatch[0].length);
+        } else if (tagMatch && !tag) {
+            tag = tagMatch[1];
+            rest = rest.slice(tagMatch[0].length);
+        } else {
+            return { anchor, tag, rest };
+        }
+    }
+}
+
+/**
+ * A quoted scalar starting at start, or undefined when its closing quote is missing.
+ * Line breaks fold to a space, and blank lines to a line break.
+ */
+function scanQuoted(source: string, start: number): { value: string; end: number } | undefined {
+    const quote = source[start];
+    let value = '';
+    let i = start + 1;
+    while (i < source.length) {
+        const char = source[i];
+        if (char === quote) {
+            if (quote === '\'' && source[i + 1] === '\'') {
+                value += '\'';
+                i += 2;
+                continue;
+            }
+            return { value, end: i + 1 };
+        }
+        if (char === '\n') {
+            value = value.replace(/[ \t]+$/, '');
+            let breaks = 0;
+            while (i < source.length && /\s/.test(source[i])) {
+                if (source[i] === '\n') {
+                    breaks++;
+                }
+                i++;
+            }
+            value += breaks > 1 ? '\n'.repeat(breaks - 1) : ' ';
+            continue;
+        }
+        if (char === '\\' && quote === '"') {
+            const escape = source[i + 1];
+            if (escape === '\n') {
+                // An escaped line break joins the lines without a space
+                i += 2;
+                while (source[i] === ' ' || source[i] === '\t') {
+                    i++;
+                }
+                continue;
+            }
+            const hexLength = escape === 'x' ? 2 : escape === 'u' ? 4 : escape === 'U' ? 8 : 0;
+            if (hexLength) {
+                value += String.fromCodePoint(parseInt(source.slice(i + 2, i + 2 + hexLength), 16));
+                i += 2 + hexLength;
+                continue;
+            }
+            value += ESCAPES[escape] ?? escape;
+            i += 2;
+            continue;
+        }
+        value += char;
+        i++;
+    }
+    return undefined;
+}
+
+const ESCAPES: Record<string, string> = {
+    '0': '\0', 'a': '\x07', 'b': '\b', 't': '\t', '\t': '\t', 'n': '\n', 'v': '\v', 'f': '\f', 'r': '\r',
+    'e': '\x1b', ' ': ' ', '"': '"', '/': '/', '\\': '\\', 'N': '\u0085', '_': ' ', 'L': ' ', 'P': ' ',
+};
+
+/**
+ * Folded block scalar lines: single line breaks between text become spaces, while blank and more
+ * indented lines keep theirs
+ */
+function foldLines(lines: string[]): string {
+    let value = lines[0];
+    let lastText = lines[0];
+    for (let i = 1; i < lines.length; i++) {
+        const line = lines[i];
+        const previous = lines[i - 1];
+        if (line === '') {
+            value += '\n';
+            continue;
+        }
+        const moreIndented = line.startsWith(' ') || lastText.startsWith(' ');
+        if (previous === '') {
+            value += (moreIndented ? '\n' : '') + line;
+        } else {
+            value += (moreIndented ? '\n' : ' ') + line;
+        }
+        lastText = line;
+    }
+    return value;
+}
+
+/**
+ * The index after the collection's closing bracket, or -1 when it continues on the next line
+ */
+function findFlowEnd(source: string): number {
+    let depth = 0;
+    for (let i = 0; i < source.length; i++) {
+        const char = source[i];
+        if (char === '"' || char === '\'') {
+            const scanned = scanQuoted(source, i);
+            if (!scanned) {
+                return -1;
+            }
+            i = scanned.end - 1;
+        } else if (char === '[' || char === '{') {
+            depth++;
+        } else if (char === ']' || char === '}') {
+            depth--;
+            if (depth === 0) {
+                return i + 1;
+            }
+        }
+    }
+    return -1;
+}
+
+/**
+ * Remove a trailing " # comment" that is not inside quotes
+ */
+function stripComment(text: string): string {
+    let quote: string | undefined;
+    for (let i = 0; i < text.length; i++) {
+        const char = text[i];
+        if (quote) {
+            if (char === '\\' && quote === '"') {
+                i++;
+            } else if (char === quote) {
+                quote = undefined;
+            }
+        } else if ((char === '"' || char === '\'') && (i === 0 || /[\s,[{:]/.test(text[i - 1]))) {
+            quote = char;
+        } else if (char === '#' && (i === 0 || text[i - 1] === ' ' || text[i - 1] === '\t')) {
+            return text.slice(0, i).trimEnd();
+        }
+    }
+    return text;
+}
+
+function skipSpaces(source: string, start: number): number {
+    let i = start;
+    while (i < source.length && (source[i] === ' ' || source[i] === '\t')) {
+        i++;
+    }
+    return i;
+}
+
+/**
+ * Plain scalars as the YAML 1.2 core schema reads them
+ */
+function resolvePlain(text: string): unknown {
+    if (/^(null|Null|NULL|~)?$/.test(text)) {
+        return null;
+    }
+    if (/^(true|True|TRUE)$/.test(text)) {
+        return true;
+    }
+    if (/^(false|False|FALSE)$/.test(text)) {
+        return false;
+    }
+    if (/^[-+]?[0-9]+$/.test(text)) {
+        return parseInt(text, 10);
+    }
+    if (/^0x[0-9a-fA-F]+$/.test(text)) {
+        return parseInt(text.slice(2), 16);
+    }
+    if (/^0o[0-7]+$/.test(text)) {
+        return parseInt(text.slice(2), 8);
+    }
+    if (/^[-+]?(\.[0-9]+|[0-9]+(\.[0-9]*)?)([eE][-+]?[0-9]+)?$/.test(text)) {
+        return parseFloat(text);
+    }
+    if (/^[-+]?\.(inf|Inf|INF)$/.test(text)) {
+        return text.startsWith('-') ? -Infinity : Infinity;
+    }
+    if (/^\.(nan|NaN|NAN)$/.test(text)) {
+        return NaN;
+    }
+    return text;
+}
+
+/**
+ * Write JSON-compatible data as block YAML. Strings that would read back as something else are
+ * written double-quoted.
+ */
+export function stringifyYaml(value: unknown): string {
+    return emitYaml(value).join('\n') + '\n';
+}
+
+function emitYaml(value: unknown): string[] {
+    if (Array.isArray(value)) {
+        if (value.length === 0) {
+            return ['[]'];
+        }
+        return value.flatMap(item => {
+            const [first, ...rest] = emitYaml(item);
+            return [`- ${first}`, ...rest.map(line => `  ${line}`)];
+        });
+    }
+    if (value && typeof value === 'object') {
+        const entries = Object.entries(value).filter(([, entry]) => entry !== undefined);
+        if (entries.length === 0) {
+            return ['{}'];
+        }
+        return entries.flatMap(([key, entry]) => {
+            const name = emitScalar(key);
+            if (entry && typeof entry === 'object' && Object.keys(entry).length > 0) {
+                return [`${name}:`, ...emitYaml(entry).map(line => `  ${line}`)];
+            }
+            return [`${name}: ${emitYaml(entry)[0]}`];
+        });
+    }
+    return [emitScalar(value)];
+}
+
+function emitScalar(value: unknown): string {
+    if (value === null || value === undefined) {
+        return 'null';
+    }
+    if (typeof value === 'number' || typeof value === 'boolean') {
+        return String(value);
+    }
+    const text = String(value);
+    // Plain unless it starts with an indicator, holds ": " or " #", or reads back as another type
+    const plain = /^[^-?:,[\]{}#&*!|>'"%@`\s]/.test(text) && !/[\s:]$/.test(text) && !/: | #|[\x00-\x1f\x7f]/.test(text)
+        && typeof resolvePlain(text) === 'string';
+    return plain ? text : JSON.stringify(text);
+}
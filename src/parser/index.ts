@@ -18,3 +18,37 @@ export {
     resolveRequestVariables,
     ResolverOptions,
 } from './VariableResolver';
+
+// .env Parser exports
+export { parseDotEnv } from './DotEnvParser';
+
+// Postman Collection exports
+export {
+    parsePostmanCollection,
+    serializeToPostmanCollection,
+    PostmanImport,
+    POSTMAN_SCHEMA_V21,
+} from './PostmanParser';
+
+// OpenAPI exports
+export {
+    parseOpenApiDocument,
+    serializeToOpenApiDocument,
+    OpenApiImport,
+    OpenApiServer,
+} from './OpenApiParser';
+
+// HAR exports
+export {
+    parseHarLog,
+    getHarDomains,
+    harToRequests,
+    serializeToHar,
+    HarLog,
+    HarDomain,
+    HarImport,
+    HarImportOptions,
+} from './HarParser';
+
+// YAML exports
+export { parseYaml, stringifyYaml } from './YamlParser';
@@ -1,5 +1,5 @@
 import * as vscode from 'vscode';
-import { Collection, Request, createCollection, createRequest } from '../models/Collection';
+import { Collection, Request, createCollection, createGrpcRequest, createRequest, createWebSocketRequest, isGrpcRequest, isWebSocketRequest } from '../models/Collection';
 import { StorageService } from '../storage/StorageService';
 import { DirtyStateProvider } from './DirtyStateProvider';
 
@@ -26,13 +26,18 @@ export class RequestItem extends vscode.TreeItem {
         public readonly collectionId: string
     ) {
         super(request.name, vscode.TreeItemCollapsibleState.None);
-        this.contextValue = 'request';
-        this.iconPath = this.getMethodIcon(request.method);
-        this.tooltip = `${request.method} ${request.url}`;
+        const isWebSocket = isWebSocketRequest(request);
+        const isGrpc = isGrpcRequest(request);
+        const label = isWebSocket ? 'WS' : isGrpc ? 'gRPC' : request.method;
+        this.contextValue = isWebSocket ? 'websocketRequest' : isGrpc ? 'grpcRequest' : 'request';
+        this.iconPath = isWebSocket ? new vscode.ThemeIcon('plug')
+            : isGrpc ? new vscode.ThemeIcon('server-process')
+            : this.getMethodIcon(request.method);
+        this.tooltip = `${label} ${request.url}`;
 
         // Check if request has unsaved changes
         const isDirty = DirtyStateProvider.getInstance().isDirty(request.id);
-        this.description = isDirty ? `${request.method} ●` : request.method;
+        this.description = isDirty ? `${label} ●` : label;
 
         // Set resourceUri for FileDecorationProvider
         this.resourceUri = vscode.Uri.parse(`endpoint-request:/${request.id}`);
@@ -197,6 +202,58 @@ export class CollectionsProvider implements vscode.TreeDataProvider<CollectionTr
         return undefined;
     }
 
+    async addWebSocketRequest(collectionItem: CollectionItem): Promise<Request | undefined> {
+        const name = await vscode.window.showInputBox({
+            prompt: vscode.l10n.t('Enter WebSocket request name'),
+            placeHolder: vscode.l10n.t('New WebSocket'),
+            validateInput: (value) => {
+                if (!value || value.trim().length === 0) {
+                    return vscode.l10n.t('Request name is required');
+                }
+                return null;
+            },
+        });
+
+        if (name) {
+            const request = createWebSocketRequest(name.trim(), 'wss://');
+            const collection = await this.storageService.getCollectionAsync(collectionItem.collection.id);
+            if (collection) {
+                collection.requests.push(request);
+                collection.updatedAt = Date.now();
+                await this.storageService.saveCollection(collection);
+                this.refresh();
+                return request;
+            }
+        }
+        return undefined;
+    }
+
+    async addGrpcRequest(collectionItem: CollectionItem): Promise<Request | undefined> {
+        const name = await vscode.window.showInputBox({
+            prompt: vscode.l10n.t('Enter gRPC request name'),
+            placeHolder: vscode.l10n.t('New gRPC Request'),
+            validateInput: (value) => {
+                if (!value || value.trim().length === 0) {
+                    return vscode.l10n.t('Request name is required');
+                }
+                return null;
+            },
+        });
+
+        if (name) {
+            const request = createGrpcRequest(name.trim(), 'grpc://localhost:50051');
+            const collection = await this.storageService.getCollectionAsync(collectionItem.collection.id);
+            if (collection) {
+                collection.requests.push(request);
+                collection.updatedAt = Date.now();
+                await this.storageService.saveCollection(collection);
+                this.refresh();
+                return request;
+            }
+        }
+        return undefined;
+    }
+
     async editRequest(item: RequestItem): Promise<void> {
         const newName = await vscode.window.showInputBox({
             prompt: vscode.l10n.t('Enter new request name'),
@@ -248,6 +305,15 @@ export class CollectionsProvider implements vscode.TreeDataProvider<CollectionTr
             const newRequest = createRequest(`${item.request.name} (Copy)`, item.request.method, item.request.url);
             newRequest.headers = [...item.request.headers];
             newRequest.body = { ...item.request.body };
+            newRequest.assertions = item.request.assertions?.map(a => ({ ...a }));
+            if (isWebSocketRequest(item.request)) {
+                newRequest.kind = item.request.kind;
+                newRequest.messages = item.request.messages?.map(m => ({ ...m }));
+            }
+            if (isGrpcRequest(item.request)) {
+                newRequest.kind = item.request.kind;
+                newRequest.grpc = item.request.grpc && { ...item.request.grpc };
+            }
             collection.requests.push(newRequest);
             collection.updatedAt = Date.now();
             await this.storageService.saveCollection(collection);
@@ -0,0 +1,115 @@
+import * as vscode from 'vscode';
+import { Cookie } from '../http/CookieJar';
+import { StorageService } from '../storage/StorageService';
+
+export type CookieTreeItem = CookieDomainItem | CookieItem;
+
+export class CookieDomainItem extends vscode.TreeItem {
+    constructor(
+        public readonly domain: string,
+        public readonly cookies: Cookie[]
+    ) {
+        super(domain, vscode.TreeItemCollapsibleState.Collapsed);
+        this.contextValue = 'cookieDomain';
+        this.iconPath = new vscode.ThemeIcon('globe');
+        this.description = cookies.length === 1 ? vscode.l10n.t('1 cookie') : vscode.l10n.t('{0} cookies', cookies.length);
+    }
+}
+
+export class CookieItem extends vscode.TreeItem {
+    constructor(public readonly cookie: Cookie) {
+        super(cookie.name, vscode.TreeItemCollapsibleState.None);
+        this.contextValue = 'cookie';
+        this.iconPath = new vscode.ThemeIcon(cookie.secure ? 'lock' : 'symbol-key');
+        // Cookies are usually session credentials - mask the value like environment variables
+        const expires = cookie.expires !== undefined ? new Date(cookie.expires).toLocaleString() : vscode.l10n.t('Session');
+        this.description = `***** ${cookie.path}`;
+        this.tooltip = [
+            `${cookie.name} (${cookie.hostOnly ? cookie.domain : `.${cookie.domain}`}${cookie.path})`,
+            vscode.l10n.t('Expires: {0}', expires),
+            [cookie.secure && 'Secure', cookie.httpOnly && 'HttpOnly', cookie.sameSite && `SameSite=${cookie.sameSite}`]
+                .filter(Boolean).join(', '),
+        ].filter(Boolean).join('\n');
+    }
+}
+
+/**
+ * Shows the cookie jar of the active environment, grouped by domain
+ */
+export class CookiesProvider implements vscode.TreeDataProvider<CookieTreeItem> {
+    private _onDidChangeTreeData: vscode.EventEmitter<CookieTreeItem | undefined | null | void> = new vscode.EventEmitter<CookieTreeItem | undefined | null | void>();
+    readonly onDidChangeTreeData: vscode.Event<CookieTreeItem | undefined | null | void> = this._onDidChangeTreeData.event;
+
+    constructor(private storageService: StorageService) {
+        storageService.getCookieService().onDidChange(() => this.refresh());
+    }
+
+    refresh(): void {
+        this._onDidChangeTreeData.fire();
+    }
+
+    getTreeItem(element: CookieTreeItem): vscode.TreeItem {
+        return element;
+    }
+
+    async getChildren(element?: CookieTreeItem): Promise<CookieTreeItem[]> {
+        if (!element) {
+            const jar = await this.storageService.getCookieService().getJar();
+            const byDomain = new Map<string, Cookie[]>();
+            for (const cookie of jar.getCookies()) {
+                byDomain.set(cookie.domain, [...(byDomain.get(cookie.domain) || []), cookie]);
+            }
+            return [...byDomain.entries()]
+                .sort(([a], [b]) => a.localeCompare(b))
+                .map(([domain, cookies]) => new CookieDomainItem(domain, cookies));
+        }
+
+        if (element instanceof CookieDomainItem) {
+            return element.cookies
+                .sort((a, b) => a.name.localeCompare(b.name))
+                .map(c => new CookieItem(c));
+        }
+
+        return [];
+    }
+
+    /**
+     * Name of the environment whose cookies are shown, for the view description
+     */
+    async getEnvironmentName(): Promise<string> {
+        const environment = await this.storageService.getActiveEnvironment();
+        return environment ? environment.name : vscode.l10n.t('No Environment');
+    }
+
+    async editCookie(item: CookieItem): Promise<void> {
+        const value = await vscode.window.showInputBox({
+            prompt: vscode.l10n.t('Enter the value of cookie "{0}"', item.cookie.name),
+            value: item.cookie.value,
+        });
+        if (value === undefined) {
+            return;
+        }
+        await this.storageService.getCookieService().setCookie({ ...item.cookie, value });
+    }
+
+    async deleteCookie(item: CookieItem): Promise<void> {
+        await this.storageService.getCookieService().deleteCookie(item.cookie);
+    }
+
+    async clearDomain(item: CookieDomainItem): Promise<void> {
+        await this.storageService.getCookieService().clear(this.storageService.getActiveEnvironmentId(), item.domain);
+    }
+
+    async clearCookies(): Promise<void> {
+        const confirm = await vscode.window.showWarningMessage(
+            vscode.l10n.t('Are you sure you want to clear all cookies of {0}?', await this.getEnvironmentName()),
+            { modal: true },
+            vscode.l10n.t('Clear All')
+        );
+
+        if (confirm === vscode.l10n.t('Clear All')) {
+            await this.storageService.getCookieService().clear(this.storageService.getActiveEnvironmentId());
+            vscode.window.showInformationMessage(vscode.l10n.t('Cookies cleared.'));
+        }
+    }
+}
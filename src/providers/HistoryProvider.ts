@@ -69,7 +69,9 @@ export class HistoryTreeItem extends vscode.TreeItem {
             `Time: ${new Date(this.historyItem.timestamp).toLocaleString()}`,
         ];
 
-        if (this.historyItem.statusCode !== undefined) {
+        if (this.historyItem.cancelled) {
+            lines.push('Status: Cancelled');
+        } else if (this.historyItem.statusCode !== undefined) {
             lines.push(`Status: ${this.historyItem.statusCode} ${this.historyItem.statusText || ''}`);
         }
 
@@ -77,6 +79,11 @@ export class HistoryTreeItem extends vscode.TreeItem {
             lines.push(`Response Time: ${this.historyItem.responseTime}ms`);
         }
 
+        if (this.historyItem.assertionResults && this.historyItem.assertionResults.length > 0) {
+            const passed = this.historyItem.assertionResults.filter(r => r.passed).length;
+            lines.push(`Tests: ${passed}/${this.historyItem.assertionResults.length} passed`);
+        }
+
         return lines.join('\n');
     }
 
@@ -86,7 +93,9 @@ export class HistoryTreeItem extends vscode.TreeItem {
     private formatDescription(): string {
         const parts: string[] = [];
 
-        if (this.historyItem.statusCode !== undefined) {
+        if (this.historyItem.cancelled) {
+            parts.push('cancelled');
+        } else if (this.historyItem.statusCode !== undefined) {
             parts.push(String(this.historyItem.statusCode));
         }
 
@@ -0,0 +1,355 @@
+import { Collection, Request, HttpMethod, isGrpcRequest, isWebSocketRequest } from '../models/Collection';
+import { Assertion, AssertionResult } from '../models/Assertion';
+import { HttpClient, RequestCancelledError } from '../http/HttpClient';
+import { HttpResponse } from '../http/ResponseContentProvider';
+import { evaluateAssertions } from '../http/AssertionEvaluator';
+import { buildRequest, getEffectiveAuth, OAuth2Authorizer, TextResolver } from '../http/RequestBuilder';
+import type { OAuth2TokenProvider } from '../http/OAuth2';
+import { ResponseStorage } from '../storage/ResponseStorage';
+import { IterationRow } from './IterationData';
+
+/**
+ * Resolves {{variable}} placeholders, with the current data row (if any) as request-level variables
+ */
+export type IterationResolver = (text: string, iterationVariables?: IterationRow) => Promise<string>;
+
+export type RunnerRequestStatus = 'passed' | 'failed' | 'skipped';
+
+/**
+ * Why a request was skipped: 'stopped' when the run was stopped before reaching it,
+ * 'unsupported' for WebSocket and gRPC requests, which the runner can't send
+ */
+export type RunnerSkipReason = 'stopped' | 'unsupported';
+
+export interface RunnerRequestResult {
+    requestId: string;
+    iteration: number;
+    name: string;
+    method: HttpMethod;
+    url: string;
+    status: RunnerRequestStatus;
+    /** Set for skipped requests, with the reason as `error` */
+    skipReason?: RunnerSkipReason;
+    statusCode?: number;
+    statusText?: string;
+    time?: number;
+    size?: number;
+    /** Size after Content-Encoding was decoded, with the encoding - set for compressed responses */
+    decodedSize?: number;
+    encoding?: string;
+    error?: string;
+    assertionResults?: AssertionResult[];
+}
+
+export interface IterationSummary {
+    iteration: number;
+    variables?: IterationRow;
+    passed: number;
+    failed: number;
+    skipped: number;
+    duration: number;
+}
+
+export interface RunSummary {
+    total: number;
+    passed: number;
+    failed: number;
+    skipped: number;
+    duration: number;
+    stopped: boolean;
+    results: RunnerRequestResult[];
+    iterations: IterationSummary[];
+}
+
+export interface RunnerCallbacks {
+    onIterationStarted?: (iteration: number, variables?: IterationRow) => void;
+    onRequestStarted?: (request: Request, iteration: number) => void;
+    onRequestCompleted?: (result: RunnerRequestResult) => void;
+}
+
+export interface RunOptions {
+    /**
+     * Data rows - the collection runs once per row, with the row's values as
+     * request-level variables. Without data the collection runs once (iteration 0).
+     */
+    iterationData?: IterationRow[];
+    /**
+     * Restrict the run to specific requests keyed by iteration index, e.g. to
+     * re-run failures. Iterations without an entry are not run.
+     */
+    requestIds?: Record<number, string[]>;
+    callbacks?: RunnerCallbacks;
+}
+
+/**
+ * Executes the requests of a collection sequentially.
+ *
+ * Pre-request chains are honored and every named response is stored in
+ * ResponseStorage so {{name.response.body.x}} references work between steps.
+ * A request passes when it gets a response and all of its enabled assertions
+ * pass, or - if it has none - when the status code is below 400.
+ */
+export class CollectionRunner {
+    private _stopRequested = false;
+    private _abortController = new AbortController();
+
+    constructor(
+        private readonly httpClient: Pick<HttpClient, 'executeRequest'>,
+        private readonly resolve: IterationResolver,
+        private readonly oauth2?: Pick<OAuth2TokenProvider, 'getAuthorizationHeader' | 'clearToken'>
+    ) { }
+
+    /**
+     * Stop the run - the request in flight is cancelled and the remaining requests are skipped
+     */
+    public stop(): void {
+        this._stopRequested = true;
+        this._abortController.abort();
+    }
+
+    /**
+     * Run the collection once, or once per data row when iteration data is given
+     */
+    public async run(collection: Collection, options: RunOptions = {}): Promise<RunSummary> {
+        this._stopRequested = false;
+        this._abortController = new AbortController();
+        const startTime = Date.now();
+        const callbacks = options.callbacks || {};
+        const results: RunnerRequestResult[] = [];
+        const iterations: IterationSummary[] = [];
+        const rows: (IterationRow | undefined)[] = options.iterationData && options.iterationData.length > 0
+            ? options.iterationData
+            : [undefined];
+
+        for (let iteration = 0; iteration < rows.length; iteration++) {
+            const selectedIds = options.requestIds ? options.requestIds[iteration] : undefined;
+            if (options.requestIds && !selectedIds) {
+                continue;
+            }
+
+            const variables = rows[iteration];
+            const requests = selectedIds
+                ? collection.requests.filter(r => selectedIds.includes(r.id))
+                : collection.requests;
+            const iterationStart = Date.now();
+            const iterationResults: RunnerRequestResult[] = [];
+
+            // Pre-requests are tracked per iteration since they may depend on row values
+            const executed = new Set<string>();
+            const resolve: TextResolver = text => this.resolve(text, variables);
+
+            if (!this._stopRequested) {
+                callbacks.onIterationStarted?.(iteration, variables);
+            }
+
+            for (const request of requests) {
+                if (this._stopRequested) {
+                    iterationResults.push(this._stopped(request, iteration));
+                    continue;
+                }
+                // WebSocket requests are interactive - they have no response to check
+                if (isWebSocketRequest(request)) {
+                    iterationResults.push({
+                        ...this._describe(request, iteration),
+                        status: 'skipped',
+                        skipReason: 'unsupported',
+                        error: 'WebSocket requests are not run - open them to connect',
+                    });
+                    continue;
+                }
+                if (isGrpcRequest(request)) {
+                    iterationResults.push({
+                        ...this._describe(request, iteration),
+                        status: 'skipped',
+                        skipReason: 'unsupported',
+                        error: 'gRPC requests are not run - open them to invoke',
+                    });
+                    continue;
+                }
+
+                callbacks.onRequestStarted?.(request, iteration);
+                const result = await this._runRequest(collection, request, iteration, resolve, executed);
+                iterationResults.push(result);
+                callbacks.onRequestCompleted?.(result);
+            }
+
+            results.push(...iterationResults);
+            iterations.push({
+                iteration,
+                variables,
+                ...countResults(iterationResults),
+                duration: Date.now() - iterationStart,
+            });
+        }
+
+        return {
+            total: results.length,
+            ...countResults(results),
+            duration: Date.now() - startTime,
+            stopped: this._stopRequested,
+            results,
+            iterations,
+        };
+    }
+
+    private async _runRequest(
+        collection: Collection,
+        request: Request,
+        iteration: number,
+        resolve: TextResolver,
+        executed: Set<string>
+    ): Promise<RunnerRequestResult> {
+        const result: RunnerRequestResult = { ...this._describe(request, iteration), status: 'failed' };
+
+        if (request.preRequestId) {
+            const preRequestError = await this._runPreRequests(collection, request.preRequestId, [request.id], resolve, executed);
+            if (preRequestError) {
+                if (this._stopRequested) {
+                    return this._stopped(request, iteration);
+                }
+                result.error = preRequestError;
+                return result;
+            }
+        }
+
+        let response: HttpResponse;
+        try {
+            response = await this._execute(collection, request, resolve);
+        } catch (error) {
+            if (error instanceof RequestCancelledError || this._stopRequested) {
+                return this._stopped(request, iteration);
+            }
+            result.error = error instanceof Error ? error.message : 'Unknown error';
+            return result;
+        } finally {
+            executed.add(request.id);
+        }
+
+        result.statusCode = response.status;
+        result.statusText = response.statusText;
+        result.time = response.time;
+        result.size = response.size;
+        if (response.encoding) {
+            result.decodedSize = response.decodedSize;
+            result.encoding = response.encoding;
+        }
+
+        const assertionResults = evaluateAssertions(await this._resolveAssertions(request.assertions, resolve), response);
+        if (assertionResults.length > 0) {
+            result.assertionResults = assertionResults;
+            result.status = assertionResults.every(r => r.passed) ? 'passed' : 'failed';
+        } else {
+            result.status = response.status < 400 ? 'passed' : 'failed';
+        }
+
+        return result;
+    }
+
+    /**
+     * Execute a pre-request chain (deepest first). Requests already executed in
+     * this iteration are not sent again - their responses are already stored.
+     * @returns an error message, or undefined when the chain succeeded
+     */
+    private async _runPreRequests(
+        collection: Collection,
+        preRequestId: string,
+        visitedIds: string[],
+        resolve: TextResolver,
+        executed: Set<string>
+    ): Promise<string | undefined> {
+        if (visitedIds.includes(preRequestId)) {
+            return `Pre-request cycle detected: ${[...visitedIds, preRequestId].join(' → ')}`;
+        }
+        if (executed.has(preRequestId)) {
+            return undefined;
+        }
+
+        const preRequest = collection.requests.find(r => r.id === preRequestId);
+        if (!preRequest) {
+            return `Pre-request not found: ${preRequestId}`;
+        }
+        if (isWebSocketRequest(preRequest)) {
+            return `Pre-request "${preRequest.name}" is a WebSocket request and can't be run`;
+        }
+        if (isGrpcRequest(preRequest)) {
+            return `Pre-request "${preRequest.name}" is a gRPC request and can't be run`;
+        }
+
+        if (preRequest.preRequestId) {
+            const nestedError = await this._runPreRequests(collection, preRequest.preRequestId, [...visitedIds, preRequestId], resolve, executed);
+            if (nestedError) {
+                return nestedError;
+            }
+        }
+
+        try {
+            const response = await this._execute(collection, preRequest, resolve);
+            executed.add(preRequestId);
+            if (response.status < 200 || response.status >= 300) {
+                return `Pre-request "${preRequest.name}" failed with status ${response.status}`;
+            }
+        } catch (error) {
+            const message = error instanceof Error ? error.message : 'Unknown error';
+            return `Pre-request "${preRequest.name}" failed: ${message}`;
+        }
+
+        return undefined;
+    }
+
+    private async _execute(collection: Collection, request: Request, resolve: TextResolver): Promise<HttpResponse> {
+        const signal = this._abortController.signal;
+        const oauth2 = this.oauth2;
+        // Stopping also cancels waiting for an OAuth 2.0 sign-in
+        const authorizer: OAuth2Authorizer | undefined = oauth2 && {
+            getAuthorizationHeader: (auth, resolveText, collectionId) => oauth2.getAuthorizationHeader(auth, resolveText, collectionId, signal),
+        };
+        const resolved = await buildRequest(request, collection, resolve, authorizer);
+        const response = await this.httpClient.executeRequest(resolved, undefined, signal);
+
+        // A rejected token (e.g. expired early) must not be reused for the rest of the run
+        const auth = getEffectiveAuth(request, collection);
+        if (response.status === 401 && oauth2 && auth?.type === 'oauth2') {
+            await oauth2.clearToken(auth, resolve, collection.id);
+        }
+
+        // Store response for request chaining (if request has a name)
+        if (request.name) {
+            ResponseStorage.getInstance().storeResponse(request.name, response);
+        }
+
+        return response;
+    }
+
+    private async _resolveAssertions(assertions: Assertion[] | undefined, resolve: TextResolver): Promise<Assertion[]> {
+        if (!assertions) {
+            return [];
+        }
+        return Promise.all(assertions.map(async a => ({
+            ...a,
+            property: a.property ? await resolve(a.property) : a.property,
+            expected: a.expected ? await resolve(a.expected) : a.expected,
+        })));
+    }
+
+    private _stopped(request: Request, iteration: number): RunnerRequestResult {
+        return { ...this._describe(request, iteration), status: 'skipped', skipReason: 'stopped', error: 'Run stopped' };
+    }
+
+    private _describe(request: Request, iteration: number): Pick<RunnerRequestResult, 'requestId' | 'iteration' | 'name' | 'method' | 'url'> {
+        return {
+            requestId: request.id,
+            iteration,
+            name: request.name,
+            method: request.method,
+            url: request.url,
+        };
+    }
+}
+
+function countResults(results: RunnerRequestResult[]): Pick<RunSummary, 'passed' | 'failed' | 'skipped'> {
+    return {
+        passed: results.filter(r => r.status === 'passed').length,
+        failed: results.filter(r => r.status === 'failed').length,
+        skipped: results.filter(r => r.status === 'skipped').length,
+    };
+}
@@ -0,0 +1,129 @@
+/**
+ * One row of a data file - becomes request-level variables for one iteration
+ */
+export type IterationRow = Record<string, string>;
+
+export type IterationDataFormat = 'csv' | 'json';
+
+/**
+ * Determine the data format from a file name, or undefined if unsupported
+ */
+export function getIterationDataFormat(fileName: string): IterationDataFormat | undefined {
+    const lower = fileName.toLowerCase();
+    if (lower.endsWith('.csv')) {
+        return 'csv';
+    }
+    if (lower.endsWith('.json')) {
+        return 'json';
+    }
+    return undefined;
+}
+
+/**
+ * Parse iteration data from CSV (first row is the header) or JSON (an array of objects).
+ * Throws with a descriptive message when the content is not usable.
+ */
+export function parseIterationData(content: string, format: IterationDataFormat): IterationRow[] {
+    // Strip a UTF-8 BOM (common in CSV files saved by Excel)
+    const text = content.replace(/^\uFEFF/, '');
+    return format === 'csv' ? parseCsv(text) : parseJson(text);
+}
+
+function parseJson(text: string): IterationRow[] {
+    let data: unknown;
+    try {
+        data = JSON.parse(text);
+    } catch {
+        throw new Error('Data file is not valid JSON');
+    }
+
+    if (!Array.isArray(data)) {
+        throw new Error('JSON data file must contain an array of objects');
+    }
+
+    return data.map((item, index) => {
+        if (item === null || typeof item !== 'object' || Array.isArray(item)) {
+            throw new Error(`Row ${index + 1} in JSON data file is not an object`);
+        }
+        const row: IterationRow = {};
+        for (const [key, value] of Object.entries(item)) {
+            // Nested values are passed as JSON so they can be dropped into request bodies
+            row[key] = typeof value === 'string' ? value : JSON.stringify(value);
+        }
+        return row;
+    });
+}
+
+function parseCsv(text: string): IterationRow[] {
+    const records = parseCsvRecords(text).filter(r => !(r.length === 1 && r[0].trim() === ''));
+    if (records.length === 0) {
+        throw new Error('CSV data file is empty');
+    }
+
+    const headers = records[0].map(h => h.trim());
+    if (headers.some(h => !h)) {
+        throw new Error('CSV header row contains an empty column name');
+    }
+
+    return records.slice(1).map((record, index) => {
+        if (record.length > headers.length) {
+            throw new Error(`Row ${index + 2} in CSV data file has ${record.length} columns, expected ${headers.length}`);
+        }
+        const row: IterationRow = {};
+        headers.forEach((header, i) => {
+            row[header] = record[i] ?? '';
+        });
+        return row;
+    });
+}
+
+/**
+ * Split CSV text into records (RFC 4180: quoted fields, "" escapes, embedded newlines)
+ */
+function parseCsvRecords(text: string): string[][] {
+    const records: string[][] = [];
+    let record: string[] = [];
+    let field = '';
+    let inQuotes = false;
+
+    for (let i = 0; i < text.length; i++) {
+        const char = text[i];
+
+        if (inQuotes) {
+            if (char === '"' && text[i + 1] === '"') {
+                field += '"';
+                i++;
+            } else if (char === '"') {
+                inQuotes = false;
+            } else {
+                field += char;
+            }
+        } else if (char === '"') {
+            inQuotes = true;
+        } else if (char === ',') {
+            record.push(field);
+            field = '';
+        } else if (char === '\n' || char === '\r') {
+            if (char === '\r' && text[i + 1] === '\n') {
+                i++;
+            }
+            record.push(field);
+            records.push(record);
+            record = [];
+            field = '';
+        } else {
+            field += char;
+        }
+    }
+
+    if (inQuotes) {
+        throw new Error('CSV data file has an unterminated quoted field');
+    }
+
+    if (field !== '' || record.length > 0) {
+        record.push(field);
+        records.push(record);
+    }
+
+    return records;
+}
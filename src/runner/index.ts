@@ -0,0 +1,15 @@
+/**
+ * Collection runner module exports
+ */
+export {
+    CollectionRunner,
+    IterationResolver,
+    IterationSummary,
+    RunnerRequestResult,
+    RunnerRequestStatus,
+    RunSummary,
+    RunnerCallbacks,
+    RunOptions
+} from './CollectionRunner';
+
+export { IterationRow, IterationDataFormat, getIterationDataFormat, parseIterationData } from './IterationData';
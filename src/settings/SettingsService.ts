@@ -1,32 +1,5 @@
 import * as vscode from 'vscode';
-
-/**
- * All endpoint extension settings
- */
-export interface EndpointSettings {
-    timeout: number;
-    followRedirects: boolean;
-    maxRedirects: number;
-    rejectUnauthorized: boolean;
-    historyLimit: number;
-    defaultContentType: 'json' | 'form' | 'xml' | 'text' | 'none';
-    'history.storeResponses': boolean;
-    'history.maxResponseSize': number;
-}
-
-/**
- * Default settings values matching package.json defaults
- */
-const DEFAULT_SETTINGS: EndpointSettings = {
-    timeout: 30000,
-    followRedirects: true,
-    maxRedirects: 10,
-    rejectUnauthorized: true,
-    historyLimit: 100,
-    defaultContentType: 'json',
-    'history.storeResponses': true,
-    'history.maxResponseSize': 262144,
-};
+import { EndpointSettings, DEFAULT_SETTINGS, HostTlsSettings } from './defaults';
 
 /**
  * Get current endpoint extension settings from VS Code configuration
@@ -39,6 +12,9 @@ export function getSettings(): EndpointSettings {
         followRedirects: config.get<boolean>('followRedirects', DEFAULT_SETTINGS.followRedirects),
         maxRedirects: config.get<number>('maxRedirects', DEFAULT_SETTINGS.maxRedirects),
         rejectUnauthorized: config.get<boolean>('rejectUnauthorized', DEFAULT_SETTINGS.rejectUnauthorized),
+        'tls.hosts': config.get<HostTlsSettings[]>('tls.hosts', DEFAULT_SETTINGS['tls.hosts']),
+        proxy: config.get<string>('proxy', DEFAULT_SETTINGS.proxy),
+        noProxy: config.get<string[]>('noProxy', DEFAULT_SETTINGS.noProxy),
         historyLimit: config.get<number>('historyLimit', DEFAULT_SETTINGS.historyLimit),
         defaultContentType: config.get<EndpointSettings['defaultContentType']>(
             'defaultContentType',
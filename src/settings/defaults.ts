@@ -0,0 +1,51 @@
+/**
+ * TLS settings for the hosts matching `host` - a host name, `host:port` or `*.domain`
+ */
+export interface HostTlsSettings {
+    host: string;
+    /** PEM client certificate file */
+    cert?: string;
+    /** PEM private key file for the client certificate */
+    key?: string;
+    /** PKCS#12 file with the client certificate and key, instead of cert/key */
+    pfx?: string;
+    /** Extra PEM CA certificate files trusted in addition to the built-in roots */
+    ca?: string[];
+    /** Overrides the global rejectUnauthorized for this host */
+    rejectUnauthorized?: boolean;
+}
+
+/**
+ * All endpoint extension settings
+ */
+export interface EndpointSettings {
+    timeout: number;
+    followRedirects: boolean;
+    maxRedirects: number;
+    rejectUnauthorized: boolean;
+    'tls.hosts': HostTlsSettings[];
+    proxy: string;
+    noProxy: string[];
+    historyLimit: number;
+    defaultContentType: 'json' | 'form' | 'xml' | 'text' | 'none';
+    'history.storeResponses': boolean;
+    'history.maxResponseSize': number;
+}
+
+/**
+ * Default settings values matching package.json defaults.
+ * Kept free of the vscode module so it can be used outside the extension host (e.g. the CLI).
+ */
+export const DEFAULT_SETTINGS: EndpointSettings = {
+    timeout: 30000,
+    followRedirects: true,
+    maxRedirects: 10,
+    rejectUnauthorized: true,
+    'tls.hosts': [],
+    proxy: '',
+    noProxy: [],
+    historyLimit: 100,
+    defaultContentType: 'json',
+    'history.storeResponses': true,
+    'history.maxResponseSize': 262144,
+};
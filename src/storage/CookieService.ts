@@ -0,0 +1,73 @@
+import * as vscode from 'vscode';
+import { Cookie, CookieJar, CookieStore } from '../http/CookieJar';
+import type { StorageService } from './StorageService';
+
+/**
+ * Keeps a cookie jar per environment (plus one used while no environment is active).
+ * HttpClient talks to the jar of the active environment through the CookieStore interface;
+ * every change is persisted and announced for the Cookies view.
+ */
+export class CookieService implements CookieStore {
+    private jars = new Map<string, Promise<CookieJar>>();
+    private _onDidChange = new vscode.EventEmitter<void>();
+    readonly onDidChange: vscode.Event<void> = this._onDidChange.event;
+
+    constructor(private storageService: StorageService) { }
+
+    /**
+     * Get the jar of an environment, the active one by default
+     */
+    getJar(environmentId: string | undefined = this.storageService.getActiveEnvironmentId()): Promise<CookieJar> {
+        const key = environmentId || '';
+        let jar = this.jars.get(key);
+        if (!jar) {
+            jar = this.storageService.getCookies(environmentId).then(cookies => new CookieJar(cookies));
+            this.jars.set(key, jar);
+        }
+        return jar;
+    }
+
+    async getCookieHeader(url: URL): Promise<string | undefined> {
+        return (await this.getJar()).getCookieHeader(url);
+    }
+
+    async setCookies(url: URL, setCookieHeaders: string[]): Promise<void> {
+        const environmentId = this.storageService.getActiveEnvironmentId();
+        const jar = await this.getJar(environmentId);
+        if (jar.setCookies(url, setCookieHeaders)) {
+            await this.save(environmentId, jar);
+        }
+    }
+
+    /**
+     * Add or replace a cookie in the active environment's jar
+     */
+    async setCookie(cookie: Cookie): Promise<void> {
+        const environmentId = this.storageService.getActiveEnvironmentId();
+        const jar = await this.getJar(environmentId);
+        jar.setCookie(cookie);
+        await this.save(environmentId, jar);
+    }
+
+    async deleteCookie(cookie: Cookie): Promise<void> {
+        const environmentId = this.storageService.getActiveEnvironmentId();
+        const jar = await this.getJar(environmentId);
+        if (jar.deleteCookie(cookie)) {
+            await this.save(environmentId, jar);
+        }
+    }
+
+    /**
+     * Remove the cookies of an environment, optionally only those of one domain
+     */
+    async clear(environmentId: string | undefined, domain?: string): Promise<void> {
+        const jar = await this.getJar(environmentId);
+        jar.clear(domain);
+        await this.save(environmentId, jar);
+    }
+
+    private async save(environmentId: string | undefined, jar: CookieJar): Promise<void> {
+        await this.storageService.saveCookies(environmentId, jar.getCookies());
+        this._onDidChange.fire();
+    }
+}
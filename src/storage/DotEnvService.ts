@@ -2,6 +2,7 @@ import * as vscode from 'vscode';
 import * as fs from 'fs';
 import * as path from 'path';
 import { getLogger } from '../logger';
+import { parseDotEnv } from '../parser/DotEnvParser';
 
 /**
  * Service for parsing .env files from the workspace root.
@@ -34,12 +35,7 @@ export class DotEnvService {
     }
 
     /**
-     * Parse a .env file and return key-value pairs.
-     * Follows standard .env format:
-     * - KEY=value
-     * - Lines starting with # are comments
-     * - Empty lines are ignored
-     * - Quoted values have quotes stripped
+     * Read and parse a .env file. Returns empty record if the file is missing or unreadable.
      */
     private parseEnvFile(filePath: string): Record<string, string> {
         const logger = getLogger();
@@ -50,34 +46,7 @@ export class DotEnvService {
         }
 
         try {
-            const content = fs.readFileSync(filePath, 'utf-8');
-            const variables: Record<string, string> = {};
-
-            const lines = content.split(/\r?\n/);
-            for (const line of lines) {
-                const trimmed = line.trim();
-
-                if (!trimmed || trimmed.startsWith('#')) {
-                    continue;
-                }
-
-                const equalsIndex = trimmed.indexOf('=');
-                if (equalsIndex === -1) {
-                    continue;
-                }
-
-                const key = trimmed.substring(0, equalsIndex).trim();
-                let value = trimmed.substring(equalsIndex + 1).trim();
-
-                if ((value.startsWith('"') && value.endsWith('"')) ||
-                    (value.startsWith("'") && value.endsWith("'"))) {
-                    value = value.slice(1, -1);
-                }
-
-                if (key) {
-                    variables[key] = value;
-                }
-            }
+            const variables = parseDotEnv(fs.readFileSync(filePath, 'utf-8'));
 
             const varCount = Object.keys(variables).length;
             if (varCount > 0) {
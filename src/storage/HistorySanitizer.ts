@@ -1,4 +1,5 @@
-import { RequestHeader } from '../models/Collection';
+import { RequestBody, RequestHeader } from '../models/Collection';
+import { parseGraphQLBody } from '../http/GraphQL';
 
 // Headers that contain authentication credentials or session data (for REQUEST headers)
 const SENSITIVE_REQUEST_HEADERS = [
@@ -38,7 +39,7 @@ const DEFAULT_MAX_BYTES = 262144; // 256KB
 /**
  * Check if a key name is sensitive (case-insensitive).
  */
-function isSensitiveKey(key: string): boolean {
+export function isSensitiveKey(key: string): boolean {
     const lowerKey = key.toLowerCase();
     return SENSITIVE_PARAMS.some(param => param.toLowerCase() === lowerKey);
 }
@@ -47,7 +48,7 @@ function isSensitiveKey(key: string): boolean {
  * Check if a header name matches any sensitive pattern (substring match).
  * Returns false for headers in the safe list even if they match patterns.
  */
-function isSensitiveHeaderName(headerName: string): boolean {
+export function isSensitiveHeaderName(headerName: string): boolean {
     const lowerName = headerName.toLowerCase();
     // Don't mask headers in the safe list
     if (SAFE_HEADERS.includes(lowerName)) {
@@ -204,6 +205,37 @@ export function sanitizeFormBody(body: string): string {
     }
 }
 
+/**
+ * Sanitize request body before storing in history.
+ * Masks sensitive parameters in JSON, form-urlencoded and multipart bodies.
+ */
+export function sanitizeRequestBody(body: { type: string; content?: string }): RequestBody {
+    const content = body.content || '';
+    const bodyType = body.type as RequestBody['type'];
+
+    if (!content) {
+        return { type: bodyType, content: '' };
+    }
+
+    switch (body.type) {
+        case 'json':
+            return { type: 'json', content: sanitizeBody(content) };
+        case 'form':
+            return { type: 'form', content: sanitizeFormBody(content) };
+        case 'multipart':
+            // Same field list as form bodies; file fields only hold paths
+            return { type: 'multipart', content: sanitizeFormBody(content) };
+        case 'graphql': {
+            // Variables are JSON like a json body; the query is kept
+            const graphql = parseGraphQLBody(content);
+            return { type: 'graphql', content: JSON.stringify({ ...graphql, variables: graphql.variables && sanitizeBody(graphql.variables) }) };
+        }
+        default:
+            // For raw/xml/other types, don't sanitize (could contain anything)
+            return { type: bodyType, content };
+    }
+}
+
 /**
  * Truncates body to specified max bytes.
  * @param body The body string to truncate
@@ -1,11 +1,10 @@
 import * as vscode from 'vscode';
 import * as path from 'path';
-import { Collection, AuthConfig } from '../models/Collection';
+import { Collection, AuthConfig, REDACTED_MARKER } from '../models/Collection';
 import { getLogger } from '../logger';
 
 const REPO_FOLDER = '.endpoint';
 const COLLECTIONS_FOLDER = 'collections';
-const REDACTED_MARKER = '{{REDACTED}}';
 
 /**
  * Manages repo-based collections stored in .endpoint/collections/.
@@ -127,6 +126,7 @@ export class RepoCollectionService {
 
         switch (auth.type) {
             case 'basic':
+            case 'digest':
                 sanitized.username = auth.username;
                 sanitized.password = this.redactValue(auth.password);
                 break;
@@ -138,6 +138,27 @@ export class RepoCollectionService {
                 sanitized.apiKeyIn = auth.apiKeyIn;
                 sanitized.apiKeyValue = this.redactValue(auth.apiKeyValue);
                 break;
+            case 'oauth2':
+                sanitized.grantType = auth.grantType;
+                sanitized.authUrl = auth.authUrl;
+                sanitized.tokenUrl = auth.tokenUrl;
+                sanitized.redirectUri = auth.redirectUri;
+                sanitized.clientId = auth.clientId;
+                sanitized.clientSecret = this.redactValue(auth.clientSecret);
+                sanitized.clientAuth = auth.clientAuth;
+                sanitized.scope = auth.scope;
+                sanitized.audience = auth.audience;
+                sanitized.username = auth.username;
+                sanitized.password = this.redactValue(auth.password);
+                sanitized.refreshToken = this.redactValue(auth.refreshToken);
+                break;
+            case 'awsv4':
+                sanitized.awsAccessKeyId = auth.awsAccessKeyId;
+                sanitized.awsSecretAccessKey = this.redactValue(auth.awsSecretAccessKey);
+                sanitized.awsSessionToken = this.redactValue(auth.awsSessionToken);
+                sanitized.awsRegion = auth.awsRegion;
+                sanitized.awsService = auth.awsService;
+                break;
         }
 
         return sanitized;
@@ -149,7 +170,11 @@ export class RepoCollectionService {
         }
         return auth.password === REDACTED_MARKER ||
             auth.token === REDACTED_MARKER ||
-            auth.apiKeyValue === REDACTED_MARKER;
+            auth.apiKeyValue === REDACTED_MARKER ||
+            auth.clientSecret === REDACTED_MARKER ||
+            auth.refreshToken === REDACTED_MARKER ||
+            auth.awsSecretAccessKey === REDACTED_MARKER ||
+            auth.awsSessionToken === REDACTED_MARKER;
     }
 
     sanitizeForRepo(collection: Collection): Collection {
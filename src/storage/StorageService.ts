@@ -2,16 +2,34 @@ import * as vscode from 'vscode';
 import { Collection, AuthConfig } from '../models/Collection';
 import { Environment, EnvironmentVariable } from '../models/Environment';
 import { HistoryItem } from '../models/HistoryItem';
+import { Cookie } from '../http/CookieJar';
+import { GraphQLSchema } from '../http/GraphQL';
 import { getSetting } from '../settings';
 import { RepoCollectionService } from './RepoCollectionService';
+import { CookieService } from './CookieService';
 
 const STORAGE_KEYS = {
     COLLECTIONS: 'endpoint.collections',
     ENVIRONMENTS: 'endpoint.environments',
     ACTIVE_ENVIRONMENT: 'endpoint.activeEnvironmentId',
     HISTORY: 'endpoint.history',
+    GRAPHQL_SCHEMAS: 'endpoint.graphqlSchemas',
 } as const;
 
+/**
+ * A GraphQL schema fetched by introspection
+ */
+export interface CachedGraphQLSchema {
+    url: string;
+    fetchedAt: number;
+    schema: GraphQLSchema;
+}
+
+/**
+ * Cached schemas by collection ID ('none' for requests outside collections), then by endpoint URL
+ */
+type GraphQLSchemaCache = Record<string, Record<string, CachedGraphQLSchema>>;
+
 /**
  * Stored environment variable without the sensitive value field.
  * Values are stored separately in SecretStorage.
@@ -42,6 +60,7 @@ interface StoredEnvironment {
 export class StorageService {
     private context: vscode.ExtensionContext;
     private repoService: RepoCollectionService;
+    private cookieService: CookieService | undefined;
 
     constructor(context: vscode.ExtensionContext) {
         this.context = context;
@@ -55,6 +74,14 @@ export class StorageService {
         return this.repoService;
     }
 
+    /**
+     * Get the CookieService holding the cookie jar of each environment
+     */
+    getCookieService(): CookieService {
+        this.cookieService ??= new CookieService(this);
+        return this.cookieService;
+    }
+
     // ==================== Collections ====================
 
     /**
@@ -175,6 +202,7 @@ export class StorageService {
 
         // Clean up local auth data
         await this.deleteRepoCollectionLocalAuth(id);
+        await this.deleteGraphQLSchemas(id);
     }
 
     /**
@@ -446,6 +474,7 @@ export class StorageService {
 
         const filtered = storedEnvironments.filter(e => e.id !== id);
         await this.saveStoredEnvironments(filtered);
+        await this.getCookieService().clear(id);
 
         // Clear active environment if it was deleted
         if (this.getActiveEnvironmentId() === id) {
@@ -524,6 +553,77 @@ export class StorageService {
         return history.find(h => h.id === id);
     }
 
+    // ==================== Cookies ====================
+
+    /**
+     * Get the secret storage key for an environment's cookie jar ('none' when no environment is active)
+     */
+    private getCookiesKey(environmentId: string | undefined): string {
+        return `endpoint.cookies.${environmentId || 'none'}`;
+    }
+
+    /**
+     * Get the stored cookies of an environment. Cookies are credentials, so they live in SecretStorage.
+     */
+    async getCookies(environmentId: string | undefined): Promise<Cookie[]> {
+        const data = await this.context.secrets.get(this.getCookiesKey(environmentId));
+        if (!data) {
+            return [];
+        }
+        try {
+            return JSON.parse(data) as Cookie[];
+        } catch {
+            return [];
+        }
+    }
+
+    /**
+     * Save the cookies of an environment
+     */
+    async saveCookies(environmentId: string | undefined, cookies: Cookie[]): Promise<void> {
+        if (cookies.length === 0) {
+            await this.context.secrets.delete(this.getCookiesKey(environmentId));
+        } else {
+            await this.context.secrets.store(this.getCookiesKey(environmentId), JSON.stringify(cookies));
+        }
+    }
+
+    // ==================== GraphQL Schemas ====================
+
+    private getGraphQLSchemaCache(): GraphQLSchemaCache {
+        return this.context.globalState.get<GraphQLSchemaCache>(STORAGE_KEYS.GRAPHQL_SCHEMAS, {});
+    }
+
+    /**
+     * Get the cached schema of a GraphQL endpoint in a collection
+     */
+    getGraphQLSchema(collectionId: string | undefined, url: string): CachedGraphQLSchema | undefined {
+        return this.getGraphQLSchemaCache()[collectionId || 'none']?.[url];
+    }
+
+    /**
+     * Cache the schema of a GraphQL endpoint in a collection, replacing the one fetched before
+     */
+    async saveGraphQLSchema(collectionId: string | undefined, url: string, schema: GraphQLSchema): Promise<CachedGraphQLSchema> {
+        const cache = this.getGraphQLSchemaCache();
+        const key = collectionId || 'none';
+        const cached: CachedGraphQLSchema = { url, fetchedAt: Date.now(), schema };
+        cache[key] = { ...cache[key], [url]: cached };
+        await this.context.globalState.update(STORAGE_KEYS.GRAPHQL_SCHEMAS, cache);
+        return cached;
+    }
+
+    /**
+     * Drop the cached schemas of a collection
+     */
+    private async deleteGraphQLSchemas(collectionId: string): Promise<void> {
+        const cache = this.getGraphQLSchemaCache();
+        if (cache[collectionId]) {
+            delete cache[collectionId];
+            await this.context.globalState.update(STORAGE_KEYS.GRAPHQL_SCHEMAS, cache);
+        }
+    }
+
     // ==================== Secrets ====================
 
     /**
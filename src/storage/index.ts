@@ -1,6 +1,7 @@
 export { StorageService } from './StorageService';
+export { CookieService } from './CookieService';
 export { VariableService } from './VariableService';
 export { ResponseStorage } from './ResponseStorage';
 export { RepoCollectionService } from './RepoCollectionService';
 export { DotEnvService } from './DotEnvService';
-export { maskAuthHeaders, sanitizeUrl, shouldStoreBody, truncateBody, sanitizeBody, sanitizeFormBody } from './HistorySanitizer';
+export { maskAuthHeaders, sanitizeUrl, shouldStoreBody, truncateBody, sanitizeBody, sanitizeFormBody, sanitizeRequestBody } from './HistorySanitizer';
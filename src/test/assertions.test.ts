@@ -0,0 +1,121 @@
+import * as assert from 'assert';
+import { evaluateAssertions, evaluateAssertion, describeAssertion, getJsonPathValue } from '../http/AssertionEvaluator';
+import { HttpResponse } from '../http/ResponseContentProvider';
+import { Assertion, createAssertion } from '../models/Assertion';
+
+suite('Assertion Evaluator Test Suite', () => {
+    const response: HttpResponse = {
+        status: 201,
+        statusText: 'Created',
+        headers: { 'content-type': 'application/json; charset=utf-8', 'x-request-id': 'abc-123' },
+        body: JSON.stringify({ id: 42, name: 'John', active: true, tags: ['a', 'b'], address: null, items: [{ sku: 'X1' }] }),
+        time: 120,
+        size: 100,
+    };
+
+    const check = (assertion: Partial<Assertion>): boolean => {
+        const full = { ...createAssertion(assertion.source), ...assertion } as Assertion;
+        return evaluateAssertion(full, response).passed;
+    };
+
+    suite('Status', () => {
+        test('should match exact status', () => {
+            assert.strictEqual(check({ source: 'status', operator: 'equals', expected: '201' }), true);
+            assert.strictEqual(check({ source: 'status', operator: 'equals', expected: '200' }), false);
+            assert.strictEqual(check({ source: 'status', operator: 'notEquals', expected: '500' }), true);
+        });
+
+        test('should match numeric and class ranges', () => {
+            assert.strictEqual(check({ source: 'status', operator: 'inRange', expected: '200-299' }), true);
+            assert.strictEqual(check({ source: 'status', operator: 'inRange', expected: '2xx' }), true);
+            assert.strictEqual(check({ source: 'status', operator: 'inRange', expected: '4xx' }), false);
+        });
+
+        test('should fail with a message for an invalid range', () => {
+            const result = evaluateAssertion({ ...createAssertion('status', 'inRange', 'abc') }, response);
+            assert.strictEqual(result.passed, false);
+            assert.ok(result.message);
+        });
+    });
+
+    suite('Header', () => {
+        test('should look up headers case-insensitively', () => {
+            assert.strictEqual(check({ source: 'header', property: 'Content-Type', operator: 'exists' }), true);
+            assert.strictEqual(check({ source: 'header', property: 'X-Missing', operator: 'notExists' }), true);
+            assert.strictEqual(check({ source: 'header', property: 'X-Request-Id', operator: 'equals', expected: 'abc-123' }), true);
+        });
+
+        test('should support contains and regex', () => {
+            assert.strictEqual(check({ source: 'header', property: 'content-type', operator: 'contains', expected: 'json' }), true);
+            assert.strictEqual(check({ source: 'header', property: 'x-request-id', operator: 'matches', expected: '^abc-\\d+$' }), true);
+            assert.strictEqual(check({ source: 'header', property: 'x-request-id', operator: 'matches', expected: '/ABC/i' }), true);
+        });
+    });
+
+    suite('JSON Path', () => {
+        test('should compare typed values', () => {
+            assert.strictEqual(check({ source: 'jsonPath', property: '$.id', operator: 'equals', expected: '42' }), true);
+            assert.strictEqual(check({ source: 'jsonPath', property: 'name', operator: 'equals', expected: 'John' }), true);
+            assert.strictEqual(check({ source: 'jsonPath', property: 'active', operator: 'equals', expected: 'true' }), true);
+            assert.strictEqual(check({ source: 'jsonPath', property: '$.items[0].sku', operator: 'equals', expected: 'X1' }), true);
+        });
+
+        test('should distinguish null from missing', () => {
+            assert.strictEqual(check({ source: 'jsonPath', property: '$.address', operator: 'exists' }), true);
+            assert.strictEqual(check({ source: 'jsonPath', property: '$.address', operator: 'isType', expected: 'null' }), true);
+            assert.strictEqual(check({ source: 'jsonPath', property: '$.missing', operator: 'notExists' }), true);
+        });
+
+        test('should check types and array membership', () => {
+            assert.strictEqual(check({ source: 'jsonPath', property: '$.tags', operator: 'isType', expected: 'array' }), true);
+            assert.strictEqual(check({ source: 'jsonPath', property: '$.id', operator: 'isType', expected: 'number' }), true);
+            assert.strictEqual(check({ source: 'jsonPath', property: '$.tags', operator: 'contains', expected: 'b' }), true);
+        });
+
+        test('should report a non-JSON body as a failure', () => {
+            const result = evaluateAssertion(createAssertion('jsonPath', 'exists', undefined, '$.id'), { ...response, body: '<html>' });
+            assert.strictEqual(result.passed, false);
+            assert.strictEqual(result.message, 'Response body is not valid JSON');
+        });
+
+        test('getJsonPathValue should return found=false for out-of-range indexes', () => {
+            assert.deepStrictEqual(getJsonPathValue('[1,2]', '[5]'), { found: false });
+            assert.deepStrictEqual(getJsonPathValue('[1,2]', '$[1]'), { found: true, value: 2 });
+        });
+    });
+
+    suite('Body and Response Time', () => {
+        test('should check body text', () => {
+            assert.strictEqual(check({ source: 'body', operator: 'contains', expected: '"name":"John"' }), true);
+            assert.strictEqual(check({ source: 'body', operator: 'notContains', expected: 'error' }), true);
+            assert.strictEqual(check({ source: 'body', operator: 'matches', expected: '"id":\\d+' }), true);
+        });
+
+        test('should compare response time', () => {
+            assert.strictEqual(check({ source: 'responseTime', operator: 'lessThan', expected: '500' }), true);
+            assert.strictEqual(check({ source: 'responseTime', operator: 'lessThan', expected: '100' }), false);
+        });
+    });
+
+    suite('evaluateAssertions', () => {
+        test('should skip disabled assertions', () => {
+            const assertions: Assertion[] = [
+                createAssertion('status', 'equals', '201'),
+                { ...createAssertion('status', 'equals', '500'), enabled: false },
+            ];
+            const results = evaluateAssertions(assertions, response);
+            assert.strictEqual(results.length, 1);
+            assert.strictEqual(results[0].passed, true);
+        });
+
+        test('should return empty results when no assertions are defined', () => {
+            assert.deepStrictEqual(evaluateAssertions(undefined, response), []);
+        });
+
+        test('should describe assertions', () => {
+            assert.strictEqual(describeAssertion(createAssertion('header', 'contains', 'json', 'Content-Type')), 'Header Content-Type contains json');
+            assert.strictEqual(describeAssertion(createAssertion('jsonPath', 'exists', undefined, '$.id')), 'JSON $.id exists');
+            assert.strictEqual(describeAssertion(createAssertion('responseTime', 'lessThan', '500')), 'Response time is less than 500 ms');
+        });
+    });
+});
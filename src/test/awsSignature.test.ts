@@ -0,0 +1,75 @@
+import * as assert from 'assert';
+import { resolveAwsCredentials, signAwsV4 } from '../http/AwsSignature';
+import { buildRequest } from '../http/RequestBuilder';
+import { AuthConfig, Request, createRequest } from '../models/Collection';
+import { resolveVariables } from '../parser/VariableResolver';
+
+/**
+ * Credentials and timestamp from the AWS Signature Version 4 test suite
+ */
+const credentials = {
+    accessKeyId: 'AKIDEXAMPLE',
+    secretAccessKey: 'wJalrXUtnFEMI/K7MDENG+bPxRfiCYEXAMPLEKEY',
+    region: 'us-east-1',
+    service: 'service',
+};
+const now = new Date('2015-08-30T12:36:00Z');
+
+function header(request: Request, name: string): string | undefined {
+    return request.headers.find(h => h.name.toLowerCase() === name.toLowerCase())?.value;
+}
+
+suite('AWS Signature Test Suite', () => {
+    test('should match the get-vanilla test vector', () => {
+        const signed = signAwsV4(createRequest('get-vanilla', 'GET', 'https://example.amazonaws.com/'), credentials, now);
+
+        assert.strictEqual(header(signed, 'X-Amz-Date'), '20150830T123600Z');
+        assert.strictEqual(
+            header(signed, 'Authorization'),
+            'AWS4-HMAC-SHA256 Credential=AKIDEXAMPLE/20150830/us-east-1/service/aws4_request, SignedHeaders=host;x-amz-date, Signature=5fa00fa31553b73ebf1942676e86291e8372ff2a2260956d9b8aae1d763fbf31'
+        );
+    });
+
+    test('should sort query parameters like the get-vanilla-query-order-key-case vector', () => {
+        const signed = signAwsV4(createRequest('query', 'GET', 'https://example.amazonaws.com/?Param2=value2&Param1=value1'), credentials, now);
+
+        assert.match(header(signed, 'Authorization')!, /Signature=b97d918cfa904a5beff61c982a1b6f458b799221646efd99d3219ec94cdf2500$/);
+    });
+
+    test('should match the post-vanilla test vector', () => {
+        const signed = signAwsV4(createRequest('post-vanilla', 'POST', 'https://example.amazonaws.com/'), credentials, now);
+
+        assert.match(header(signed, 'Authorization')!, /Signature=5da7c1a2acd57cee7505fc6676e4e544621c30862966e37dddb68e92efbe5d6b$/);
+    });
+
+    test('should add session token and S3 payload hash headers and replace old signatures', () => {
+        const request = createRequest('put', 'PUT', 'https://bucket.s3.amazonaws.com/my file.txt');
+        request.body = { type: 'text', content: 'hello' };
+        request.headers = [{ name: 'Authorization', value: 'stale', enabled: true }];
+
+        const signed = signAwsV4(request, { ...credentials, service: 's3', sessionToken: 'session' }, now);
+
+        assert.strictEqual(header(signed, 'X-Amz-Security-Token'), 'session');
+        assert.strictEqual(header(signed, 'X-Amz-Content-Sha256'), '2cf24dba5fb0a30e26e83b2ac5b9e29e1b161e5c1fa7425e73043362938b9824');
+        assert.strictEqual(signed.headers.filter(h => h.name === 'Authorization').length, 1);
+        assert.match(header(signed, 'Authorization')!, /SignedHeaders=host;x-amz-content-sha256;x-amz-date;x-amz-security-token,/);
+    });
+
+    test('resolveAwsCredentials should resolve variables and require keys, region and service', async () => {
+        const auth: AuthConfig = { type: 'awsv4', awsAccessKeyId: '{{key}}', awsSecretAccessKey: '{{secret}}', awsRegion: 'eu-west-1', awsService: 'execute-api' };
+        const resolved = await resolveAwsCredentials(auth, async text => resolveVariables(text, { key: 'AKID', secret: 's' }));
+
+        assert.deepStrictEqual(resolved, { accessKeyId: 'AKID', secretAccessKey: 's', sessionToken: undefined, region: 'eu-west-1', service: 'execute-api' });
+        await assert.rejects(resolveAwsCredentials({ ...auth, awsRegion: '' }, async text => text), /region and service/);
+    });
+
+    test('buildRequest should sign the resolved request', async () => {
+        const request = createRequest('Get', 'GET', 'https://{{host}}/items');
+        const auth: AuthConfig = { type: 'awsv4', awsAccessKeyId: 'AKID', awsSecretAccessKey: 's', awsRegion: 'us-east-1', awsService: 'execute-api' };
+
+        const built = await buildRequest({ ...request, auth }, undefined, async text => resolveVariables(text, { host: 'api.test' }));
+
+        assert.strictEqual(built.url, 'https://api.test/items');
+        assert.match(header(built, 'Authorization')!, /^AWS4-HMAC-SHA256 Credential=AKID\/\d{8}\/us-east-1\/execute-api\/aws4_request, SignedHeaders=host;x-amz-date, Signature=[0-9a-f]{64}$/);
+    });
+});
@@ -0,0 +1,115 @@
+import * as assert from 'assert';
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as http from 'http';
+import * as os from 'os';
+import * as path from 'path';
+import * as zlib from 'zlib';
+import { AddressInfo } from 'net';
+import { HttpClient } from '../http/HttpClient';
+import { buildRequest } from '../http/RequestBuilder';
+import { createFileBody, getPreviewType, getResponseFileName, isBinaryContentType, isBinaryResponse } from '../http/BinaryContent';
+import { createRequest } from '../models/Collection';
+
+async function readBuffer(stream: NodeJS.ReadableStream): Promise<Buffer> {
+    const chunks: Buffer[] = [];
+    for await (const chunk of stream) {
+        chunks.push(Buffer.from(chunk));
+    }
+    return Buffer.concat(chunks);
+}
+
+suite('Binary Content Test Suite', () => {
+    // Every byte value, including NUL and invalid UTF-8 sequences
+    const bytes = Buffer.concat([Buffer.from(Array.from({ length: 256 }, (_, i) => i)), crypto.randomBytes(64 * 1024)]);
+    let dir: string;
+    let server: http.Server;
+    let baseUrl: string;
+    let uploaded: { contentType?: string; contentLength?: string; body: Buffer } | undefined;
+
+    suiteSetup(async () => {
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), 'endpoint-binary-'));
+        fs.writeFileSync(path.join(dir, 'photo.png'), bytes);
+
+        server = http.createServer(async (req, res) => {
+            if (req.url === '/download') {
+                res.writeHead(200, { 'Content-Type': 'application/octet-stream', 'Content-Disposition': 'attachment; filename="data.bin"' });
+                res.end(bytes);
+            } else if (req.url === '/gzip') {
+                res.writeHead(200, { 'Content-Type': 'image/png', 'Content-Encoding': 'gzip' });
+                res.end(zlib.gzipSync(bytes));
+            } else {
+                uploaded = { contentType: req.headers['content-type'], contentLength: req.headers['content-length'], body: await readBuffer(req) };
+                res.end('ok');
+            }
+        });
+        await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+        baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    });
+
+    suiteTeardown(() => {
+        server.closeAllConnections();
+        server.close();
+        fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    test('isBinaryContentType should tell binary from text media types', () => {
+        for (const type of ['image/png', 'application/pdf', 'application/zip', 'application/octet-stream', 'application/x-protobuf', 'audio/mpeg; codecs=mp3']) {
+            assert.strictEqual(isBinaryContentType(type), true, type);
+        }
+        for (const type of ['text/html; charset=utf-8', 'application/json', 'application/problem+json', 'application/atom+xml', 'image/svg+xml', 'application/javascript', 'multipart/form-data', undefined]) {
+            assert.strictEqual(isBinaryContentType(type), false, type);
+        }
+    });
+
+    test('isBinaryResponse should look for NUL bytes when there is no Content-Type', () => {
+        assert.strictEqual(isBinaryResponse(undefined, Buffer.from([0x89, 0x50, 0x00, 0x01])), true);
+        assert.strictEqual(isBinaryResponse(undefined, Buffer.from('plain text')), false);
+        assert.strictEqual(isBinaryResponse('text/plain', Buffer.from([0x00])), false);
+    });
+
+    test('getResponseFileName should prefer Content-Disposition, then the URL', () => {
+        assert.strictEqual(getResponseFileName({ 'content-disposition': 'attachment; filename="report.pdf"' }, 'https://x.test/download'), 'report.pdf');
+        assert.strictEqual(getResponseFileName({ 'content-disposition': "attachment; filename=a.pdf; filename*=UTF-8''r%C3%A9sum%C3%A9.pdf" }, 'https://x.test/'), 'résumé.pdf');
+        assert.strictEqual(getResponseFileName({ 'content-disposition': 'attachment; filename="../../etc/passwd"' }, 'https://x.test/'), 'passwd');
+        assert.strictEqual(getResponseFileName({}, 'https://x.test/images/logo.png?size=2'), 'logo.png');
+        assert.strictEqual(getResponseFileName({ 'content-type': 'image/png' }, 'https://x.test/'), 'response.png');
+        assert.strictEqual(getResponseFileName({ 'content-type': 'application/octet-stream' }, 'https://x.test/'), 'response.bin');
+        assert.strictEqual(getPreviewType('image/webp'), 'image');
+        assert.strictEqual(getPreviewType('application/pdf'), 'pdf');
+        assert.strictEqual(getPreviewType('application/zip'), undefined);
+    });
+
+    test('HttpClient should keep binary downloads byte for byte', async () => {
+        const client = new HttpClient();
+
+        const download = await client.executeRequest(createRequest('Download', 'GET', `${baseUrl}/download`));
+        assert.strictEqual(download.binary, true);
+        assert.strictEqual(download.body, '');
+        assert.ok(download.rawBody?.equals(bytes), 'Downloaded bytes should match');
+
+        const compressed = await client.executeRequest(createRequest('Image', 'GET', `${baseUrl}/gzip`));
+        assert.strictEqual(compressed.binary, true);
+        assert.ok(compressed.rawBody?.equals(bytes), 'Decompressed bytes should match');
+    });
+
+    test('HttpClient should stream a binary body from a file byte for byte', async () => {
+        const request = createRequest('Upload', 'PUT', `${baseUrl}/upload`);
+        request.body = { type: 'binary', content: '{{FILE}}' };
+        const built = await buildRequest(request, undefined, async text => text.replace('{{FILE}}', 'photo.png'));
+
+        const client = new HttpClient({ resolveFilePath: file => path.join(dir, file) });
+        const response = await client.executeRequest(built);
+
+        assert.strictEqual(response.status, 200);
+        assert.strictEqual(response.binary, false);
+        assert.strictEqual(response.body, 'ok');
+        assert.strictEqual(uploaded!.contentType, 'image/png');
+        assert.strictEqual(Number(uploaded!.contentLength), bytes.length);
+        assert.ok(uploaded!.body.equals(bytes), 'Uploaded bytes should match');
+    });
+
+    test('createFileBody should fail for a missing file before sending', async () => {
+        await assert.rejects(createFileBody(' missing.bin ', file => path.join(dir, file)), /File not found for binary body: missing.bin/);
+    });
+});
@@ -0,0 +1,83 @@
+import * as assert from 'assert';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { HttpClient, RequestCancelledError } from '../http/HttpClient';
+import { createRequest } from '../models/Collection';
+
+suite('Request Cancellation Test Suite', () => {
+    let server: http.Server;
+    let baseUrl: string;
+    const received: string[] = [];
+    // Resolves when the server sees the client drop the connection of a hanging request
+    let onClientGone: (() => void) | undefined;
+
+    suiteSetup(async () => {
+        server = http.createServer((req, res) => {
+            received.push(req.url || '');
+            if (req.url === '/redirect') {
+                res.writeHead(302, { Location: '/hang' }).end();
+                return;
+            }
+            // Never answer - only cancelling ends the request
+            res.on('close', () => onClientGone?.());
+        });
+        await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+        baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    });
+
+    suiteTeardown(() => {
+        server.closeAllConnections();
+        server.close();
+    });
+
+    setup(() => {
+        received.length = 0;
+        onClientGone = undefined;
+    });
+
+    function abortWhenReceived(controller: AbortController, path: string): void {
+        const timer = setInterval(() => {
+            if (received.includes(path)) {
+                clearInterval(timer);
+                controller.abort();
+            }
+        }, 5);
+    }
+
+    test('executeRequest should reject with RequestCancelledError and close the socket when aborted', async () => {
+        const client = new HttpClient();
+        const controller = new AbortController();
+        const clientGone = new Promise<void>(resolve => onClientGone = resolve);
+        abortWhenReceived(controller, '/hang');
+
+        await assert.rejects(
+            client.executeRequest(createRequest('Hang', 'GET', `${baseUrl}/hang`), undefined, controller.signal),
+            RequestCancelledError
+        );
+        await clientGone;
+    });
+
+    test('executeRequest should not send anything when the signal is already aborted', async () => {
+        const client = new HttpClient();
+        const controller = new AbortController();
+        controller.abort();
+
+        await assert.rejects(
+            client.executeRequest(createRequest('Hang', 'GET', `${baseUrl}/hang`), undefined, controller.signal),
+            RequestCancelledError
+        );
+        assert.deepStrictEqual(received, []);
+    });
+
+    test('executeRequest should cancel the request a redirect led to', async () => {
+        const client = new HttpClient();
+        const controller = new AbortController();
+        abortWhenReceived(controller, '/hang');
+
+        await assert.rejects(
+            client.executeRequest(createRequest('Redirect', 'GET', `${baseUrl}/redirect`), undefined, controller.signal),
+            RequestCancelledError
+        );
+        assert.deepStrictEqual(received, ['/redirect', '/hang']);
+    });
+});
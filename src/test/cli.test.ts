@@ -0,0 +1,154 @@
+import * as assert from 'assert';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { parseCliArgs, parseEnvironment, findRedactedAuth, runCli, EXIT_PASSED } from '../cli/CliRunner';
+import { toJUnitXml, toJsonReport, describeSkipped, hasUnreachedRequests, CollectionReport } from '../cli/Reporters';
+import { RunSummary } from '../runner/CollectionRunner';
+import { createCollection, createRequest, createWebSocketRequest, REDACTED_MARKER } from '../models/Collection';
+
+function makeSummary(overrides: Partial<RunSummary> = {}): RunSummary {
+    return {
+        total: 3,
+        passed: 1,
+        failed: 2,
+        skipped: 0,
+        duration: 1500,
+        stopped: false,
+        results: [
+            { requestId: '1', iteration: 0, name: 'List <users>', method: 'GET', url: 'https://api.test/users', status: 'passed', statusCode: 200, time: 120 },
+            {
+                requestId: '2', iteration: 0, name: 'Create', method: 'POST', url: 'https://api.test/users', status: 'failed', statusCode: 200, time: 80,
+                assertionResults: [{ assertionId: 'a', description: 'Status equals 201', passed: false, actual: '200' }]
+            },
+            { requestId: '3', iteration: 0, name: 'Down', method: 'GET', url: 'https://down.test', status: 'failed', error: 'connect ECONNREFUSED' },
+        ],
+        iterations: [{ iteration: 0, passed: 1, failed: 2, skipped: 0, duration: 1500 }],
+        ...overrides,
+    };
+}
+
+suite('CLI Test Suite', () => {
+    suite('parseCliArgs', () => {
+        test('should default to the repo collections folder', () => {
+            const options = parseCliArgs([]);
+            assert.deepStrictEqual(options.collections, [path.join('.endpoint', 'collections')]);
+            assert.strictEqual(options.insecure, false);
+        });
+
+        test('should parse paths and options', () => {
+            const options = parseCliArgs(['a.json', 'dir', '-e', 'env.json', '--junit', 'out/junit.xml', '--timeout', '5000', '-k']);
+            assert.deepStrictEqual(options.collections, ['a.json', 'dir']);
+            assert.strictEqual(options.env, 'env.json');
+            assert.strictEqual(options.junit, 'out/junit.xml');
+            assert.strictEqual(options.timeout, 5000);
+            assert.strictEqual(options.insecure, true);
+        });
+
+        test('should reject unknown options and bad timeouts', () => {
+            assert.throws(() => parseCliArgs(['--nope']));
+            assert.throws(() => parseCliArgs(['--timeout', 'soon']), /Invalid --timeout/);
+        });
+    });
+
+    suite('parseEnvironment', () => {
+        test('should read Endpoint environments and skip disabled variables', () => {
+            const content = JSON.stringify({
+                name: 'Staging',
+                variables: [
+                    { name: 'baseUrl', value: 'https://staging.test', enabled: true },
+                    { name: 'old', value: 'x', enabled: false },
+                ]
+            });
+            assert.deepStrictEqual(parseEnvironment(content), { baseUrl: 'https://staging.test' });
+        });
+
+        test('should read flat JSON objects and .env text', () => {
+            assert.deepStrictEqual(parseEnvironment('{"baseUrl":"https://a.test","port":8080}'), { baseUrl: 'https://a.test', port: '8080' });
+            assert.deepStrictEqual(parseEnvironment('# comment\nTOKEN="abc"\n'), { TOKEN: 'abc' });
+        });
+    });
+
+    test('findRedactedAuth should list requests whose secrets were stripped', () => {
+        const collection = createCollection('API');
+        collection.defaultAuth = { type: 'bearer', token: REDACTED_MARKER };
+        collection.requests = [
+            createRequest('Safe', 'GET', 'https://a.test', { type: 'bearer', token: '{{$env:TOKEN}}' }),
+            createRequest('Login', 'POST', 'https://a.test', { type: 'basic', username: 'u', password: REDACTED_MARKER }),
+        ];
+        assert.deepStrictEqual(findRedactedAuth(collection), ['API (collection auth)', 'Login']);
+    });
+
+    test('runCli should pass collections whose only skipped requests are unsupported', async () => {
+        const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'endpoint-cli-'));
+        const collection = createCollection('Live');
+        collection.requests = [createWebSocketRequest('Feed', 'wss://api.test/feed')];
+        await fs.writeFile(path.join(dir, 'live.json'), JSON.stringify(collection));
+
+        const lines: string[] = [];
+        try {
+            const code = await runCli([dir], { log: line => lines.push(line), error: line => lines.push(line) });
+            assert.strictEqual(code, EXIT_PASSED);
+            assert.ok(lines.includes('  Live: GET Feed - WebSocket requests are not run - open them to connect'));
+        } finally {
+            await fs.rm(dir, { recursive: true, force: true });
+        }
+    });
+
+    suite('Reporters', () => {
+        const reports: CollectionReport[] = [{ name: 'Users & Co', file: 'users.json', summary: makeSummary() }];
+        const timestamp = new Date('2025-01-01T00:00:00.000Z');
+
+        test('toJUnitXml should report failures, errors and escape values', () => {
+            const xml = toJUnitXml(reports, timestamp);
+            assert.ok(xml.includes('<testsuites name="Endpoint" tests="3" failures="1" errors="1" skipped="0" time="1.500">'));
+            assert.ok(xml.includes('<testsuite name="Users &amp; Co" tests="3" failures="1" errors="1" skipped="0" time="1.500" timestamp="2025-01-01T00:00:00.000Z" file="users.json">'));
+            assert.ok(xml.includes('<testcase classname="Users &amp; Co" name="List &lt;users&gt;" time="0.120" />'));
+            assert.ok(xml.includes('<failure message="Status equals 201 (actual: 200)">'));
+            assert.ok(xml.includes('<error message="connect ECONNREFUSED" />'));
+        });
+
+        test('toJUnitXml should name test cases by iteration for data-driven runs', () => {
+            const summary = makeSummary({
+                results: [
+                    { requestId: '1', iteration: 0, name: 'Get', method: 'GET', url: 'u', status: 'passed' },
+                    { requestId: '1', iteration: 1, name: 'Get', method: 'GET', url: 'u', status: 'skipped' },
+                ],
+                iterations: [
+                    { iteration: 0, variables: { id: '1' }, passed: 1, failed: 0, skipped: 0, duration: 1 },
+                    { iteration: 1, variables: { id: '2' }, passed: 0, failed: 0, skipped: 1, duration: 0 },
+                ],
+            });
+            const xml = toJUnitXml([{ name: 'API', summary }], timestamp);
+            assert.ok(xml.includes('name="Get [iteration 1]"'));
+            assert.ok(xml.includes('name="Get [iteration 2]" time="0.000">\n      <skipped message="Run stopped" />'));
+        });
+
+        test('describeSkipped should tell unsupported requests from requests the run did not reach', () => {
+            const unsupported = makeSummary({
+                results: [
+                    { requestId: '1', iteration: 0, name: 'Live', method: 'GET', url: 'wss://u', status: 'skipped', skipReason: 'unsupported', error: 'WebSocket requests are not run' },
+                    { requestId: '1', iteration: 1, name: 'Live', method: 'GET', url: 'wss://u', status: 'skipped', skipReason: 'unsupported', error: 'WebSocket requests are not run' },
+                ],
+            });
+            const stopped = makeSummary({
+                results: [{ requestId: '2', iteration: 0, name: 'Get', method: 'GET', url: 'u', status: 'skipped', skipReason: 'stopped', error: 'Run stopped' }],
+            });
+
+            assert.ok(toJUnitXml([{ name: 'API', summary: unsupported }], timestamp).includes('<skipped message="WebSocket requests are not run" />'));
+            assert.deepStrictEqual(describeSkipped([{ name: 'API', summary: unsupported }, { name: 'Shop', summary: stopped }]), [
+                'API: GET Live - WebSocket requests are not run',
+                'Shop: GET Get - Run stopped',
+            ]);
+            assert.strictEqual(hasUnreachedRequests([{ name: 'API', summary: unsupported }]), false);
+            assert.strictEqual(hasUnreachedRequests([{ name: 'API', summary: unsupported }, { name: 'Shop', summary: stopped }]), true);
+        });
+
+        test('toJsonReport should include totals and per-request results', () => {
+            const report = toJsonReport(reports, timestamp) as { total: number; failed: number; collections: RunSummary[] };
+            assert.strictEqual(report.total, 3);
+            assert.strictEqual(report.failed, 2);
+            assert.strictEqual(report.collections[0].results.length, 3);
+        });
+    });
+});
@@ -5,7 +5,9 @@ import {
     getGenerator,
     registerGenerator,
     generateCode,
-    LanguageGenerator
+    LanguageGenerator,
+    toResolvedBody,
+    applyRequestBody
 } from '../codegen';
 import { CurlGenerator } from '../codegen/generators/curl';
 import { JavaScriptFetchGenerator } from '../codegen/generators/javascript-fetch';
@@ -34,6 +36,27 @@ suite('Code Generation Test Suite', () => {
         },
     };
 
+    const multipartRequest: ResolvedRequest = {
+        method: 'POST',
+        url: 'https://api.example.com/upload',
+        headers: [{ name: 'Content-Type', value: 'multipart/form-data' }],
+        body: {
+            type: 'multipart',
+            content: JSON.stringify([
+                { key: 'title', value: '@not-a-file', enabled: true, type: 'text' },
+                { key: 'image', value: 'assets/logo.png', enabled: true, type: 'file', contentType: 'image/png' },
+                { key: 'skipped', value: 'x', enabled: false, type: 'text' },
+            ]),
+        },
+    };
+
+    const binaryRequest: ResolvedRequest = {
+        method: 'PUT',
+        url: 'https://api.example.com/files/report',
+        headers: [],
+        body: { type: 'binary', content: 'reports/q1.pdf' },
+    };
+
     const requestWithSpecialChars: ResolvedRequest = {
         method: 'POST',
         url: "https://api.example.com/search?q=hello'world",
@@ -228,4 +251,91 @@ suite('Code Generation Test Suite', () => {
             assert.ok(code.includes('CURLOPT_POSTFIELDS'), 'Should set body');
         });
     });
+
+    suite('Multipart Bodies', () => {
+        test('cURL should use -F for files and --form-string for text', () => {
+            const code = new CurlGenerator().generate(multipartRequest);
+            assert.ok(code.includes("--form-string 'title=@not-a-file'"), 'Text starting with @ must not become a file');
+            assert.ok(code.includes("-F 'image=@assets/logo.png;type=image/png'"), 'Should upload the file');
+            assert.ok(!code.includes('skipped'), 'Should leave out disabled fields');
+            assert.ok(!code.includes('Content-Type'), 'Should let curl set the boundary');
+        });
+
+        test('every generator should build a multipart body without a fixed Content-Type', () => {
+            const expected: Record<string, string> = {
+                'javascript-fetch': "formData.append('image', await openAsBlob('assets/logo.png', { type: 'image/png' }), 'logo.png');",
+                'python-requests': "('image', ('logo.png', open('assets/logo.png', 'rb'), 'image/png')),",
+                'csharp-httpclient': 'content.Add(part1, "image", Path.GetFileName("assets/logo.png"));',
+                'go-nethttp': 'req.Header.Set("Content-Type", writer.FormDataContentType())',
+                'php-curl': "'image' => new CURLFile('assets/logo.png', 'image/png'),",
+            };
+            for (const [id, line] of Object.entries(expected)) {
+                const code = getGenerator(id)!.generate(multipartRequest);
+                assert.ok(code.includes(line), `${id} should include ${line}:\n${code}`);
+                assert.ok(!code.includes('multipart/form-data'), `${id} should not hard-code the Content-Type`);
+                assert.ok(!code.includes('skipped'), `${id} should leave out disabled fields`);
+            }
+        });
+    });
+
+    suite('GraphQL Bodies', () => {
+        test('every generator should send the query and variables as a JSON payload', () => {
+            const request: ResolvedRequest = {
+                method: 'POST',
+                url: 'https://api.example.com/graphql',
+                headers: [{ name: 'Content-Type', value: 'application/json' }],
+                body: toResolvedBody('graphql', JSON.stringify({ query: '{ user(id: $id) { name } }', variables: '{"id": 1}' })),
+            };
+            assert.deepStrictEqual(JSON.parse(request.body!.content), { query: '{ user(id: $id) { name } }', variables: { id: 1 } });
+            assert.strictEqual(request.body!.type, 'json');
+            for (const id of ['curl', 'javascript-fetch', 'python-requests', 'csharp-httpclient', 'go-nethttp', 'php-curl']) {
+                const code = getGenerator(id)!.generate(request);
+                assert.ok(code.includes('user(id: $id)'), `${id} should include the query:\n${code}`);
+                assert.ok(code.includes('variables'), `${id} should include the variables:\n${code}`);
+            }
+        });
+    });
+
+    suite('applyRequestBody', () => {
+        test('should encode form fields and add the implied Content-Type', async () => {
+            const request: ResolvedRequest = { method: 'POST', url: 'https://api.example.com/login', headers: [] };
+            const fields = [{ key: 'user', value: '{{user}}', enabled: true }, { key: 'skip', value: 'x', enabled: false }];
+            await applyRequestBody(request, { type: 'form', content: JSON.stringify(fields) }, async text => text.replace('{{user}}', 'ada'));
+            assert.deepStrictEqual(request.body, { type: 'form', content: 'user=ada' });
+            assert.deepStrictEqual(request.headers, [{ name: 'Content-Type', value: 'application/x-www-form-urlencoded' }]);
+        });
+
+        test('should post GraphQL queries and keep a Content-Type that is set', async () => {
+            const request: ResolvedRequest = { method: 'GET', url: 'https://api.example.com/graphql', headers: [{ name: 'content-type', value: 'application/graphql+json' }] };
+            await applyRequestBody(request, { type: 'graphql', content: JSON.stringify({ query: '{ me { name } }', variables: '' }) });
+            assert.strictEqual(request.method, 'POST');
+            assert.strictEqual(request.body!.type, 'json');
+            assert.deepStrictEqual(request.headers, [{ name: 'content-type', value: 'application/graphql+json' }]);
+        });
+
+        test('should leave requests without a body unchanged', async () => {
+            const request: ResolvedRequest = { method: 'GET', url: 'https://api.example.com', headers: [] };
+            await applyRequestBody(request, { type: 'json', content: '' });
+            assert.deepStrictEqual(request, { method: 'GET', url: 'https://api.example.com', headers: [] });
+        });
+    });
+
+    suite('Binary Bodies', () => {
+        test('every generator should stream the file with the guessed Content-Type', () => {
+            const expected: Record<string, string[]> = {
+                'curl': ["--data-binary '@reports/q1.pdf'", "-H 'Content-Type: application/pdf'"],
+                'javascript-fetch': ["body: await openAsBlob('reports/q1.pdf'),", "'Content-Type': 'application/pdf'"],
+                'python-requests': ["data = open('reports/q1.pdf', 'rb')", "'Content-Type': 'application/pdf',"],
+                'csharp-httpclient': ['new StreamContent(File.OpenRead("reports/q1.pdf"))', 'MediaTypeHeaderValue.Parse("application/pdf")'],
+                'go-nethttp': ['body, err := os.Open(`reports/q1.pdf`)', 'req.Header.Set("Content-Type", `application/pdf`)'],
+                'php-curl': ["file_get_contents('reports/q1.pdf')", "'Content-Type: application/pdf',"],
+            };
+            for (const [id, lines] of Object.entries(expected)) {
+                const code = getGenerator(id)!.generate(binaryRequest);
+                for (const line of lines) {
+                    assert.ok(code.includes(line), `${id} should include ${line}:\n${code}`);
+                }
+            }
+        });
+    });
 });
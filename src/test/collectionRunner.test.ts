@@ -0,0 +1,327 @@
+import * as assert from 'assert';
+import { CollectionRunner, IterationResolver } from '../runner/CollectionRunner';
+import { parseIterationData, getIterationDataFormat } from '../runner/IterationData';
+import { buildRequest } from '../http/RequestBuilder';
+import { HttpResponse } from '../http/ResponseContentProvider';
+import { RequestCancelledError } from '../http/HttpClient';
+import { ResponseStorage } from '../storage/ResponseStorage';
+import { resolveVariables } from '../parser/VariableResolver';
+import { AuthConfig, Collection, Request, createCollection, createGrpcRequest, createRequest, createWebSocketRequest } from '../models/Collection';
+import { createAssertion } from '../models/Assertion';
+
+function makeResponse(status: number, body: string = '{}'): HttpResponse {
+    return { status, statusText: String(status), headers: { 'content-type': 'application/json' }, body, time: 5, size: body.length };
+}
+
+/**
+ * Fake HTTP client that answers from a URL -> response map and records what was sent
+ */
+class FakeHttpClient {
+    public sent: Request[] = [];
+
+    constructor(private responses: Record<string, HttpResponse | Error>) { }
+
+    async executeRequest(request: Request): Promise<HttpResponse> {
+        this.sent.push(request);
+        const response = this.responses[request.url];
+        if (!response) {
+            throw new Error(`No response for ${request.url}`);
+        }
+        if (response instanceof Error) {
+            throw response;
+        }
+        return response;
+    }
+}
+
+suite('Collection Runner Test Suite', () => {
+    const variables: Record<string, string> = { baseUrl: 'https://api.test' };
+    const resolve = async (text: string) => resolveVariables(text, variables);
+    const resolveIteration: IterationResolver = async (text, iterationVariables) => resolveVariables(text, { ...variables, ...iterationVariables });
+
+    setup(() => {
+        ResponseStorage.getInstance().clearAll();
+    });
+
+    suite('buildRequest', () => {
+        test('should merge collection headers and auth and resolve variables', async () => {
+            const collection = createCollection('API');
+            collection.defaultHeaders = [
+                { name: 'Accept', value: 'application/json', enabled: true },
+                { name: 'X-Skip', value: 'yes', enabled: true },
+            ];
+            collection.defaultAuth = { type: 'bearer', token: 'abc' };
+
+            const request = createRequest('Get', 'GET', '{{baseUrl}}/users');
+            request.headers = [{ name: 'Accept', value: 'text/plain', enabled: true }];
+            request.disabledInheritedHeaders = ['X-Skip'];
+
+            const built = await buildRequest(request, collection, resolve);
+            assert.strictEqual(built.url, 'https://api.test/users');
+            assert.deepStrictEqual(built.headers.map(h => [h.name, h.value]), [
+                ['Accept', 'text/plain'],
+                ['Authorization', 'Bearer abc'],
+            ]);
+        });
+
+        test('should use request auth when inherited auth is turned off', async () => {
+            const collection = createCollection('API');
+            collection.defaultAuth = { type: 'bearer', token: 'abc' };
+
+            const request = createRequest('Get', 'GET', 'https://api.test/items', { type: 'apikey', apiKeyName: 'key', apiKeyValue: 'v 1', apiKeyIn: 'query' });
+            request.useInheritedAuth = false;
+
+            const built = await buildRequest(request, collection, resolve);
+            assert.strictEqual(built.url, 'https://api.test/items?key=v%201');
+            assert.strictEqual(built.headers.length, 0);
+        });
+
+        test('should encode form bodies and add a content type', async () => {
+            const request = createRequest('Post', 'POST', '{{baseUrl}}/login');
+            request.body = {
+                type: 'form',
+                content: JSON.stringify([
+                    { key: 'user', value: '{{baseUrl}}', enabled: true },
+                    { key: 'off', value: 'x', enabled: false },
+                ]),
+            };
+
+            const built = await buildRequest(request, undefined, resolve);
+            assert.strictEqual(built.body.content, 'user=https%3A%2F%2Fapi.test');
+            assert.deepStrictEqual(built.headers, [{ name: 'Content-Type', value: 'application/x-www-form-urlencoded', enabled: true }]);
+        });
+    });
+
+    suite('run', () => {
+        function makeCollection(...requests: Request[]): Collection {
+            const collection = createCollection('API');
+            collection.requests = requests;
+            return collection;
+        }
+
+        test('should run requests in order and chain responses by name', async () => {
+            const login = createRequest('login', 'POST', '{{baseUrl}}/login');
+            const me = createRequest('me', 'GET', '{{baseUrl}}/me');
+            me.headers = [{ name: 'Authorization', value: 'Bearer {{login.response.body.token}}', enabled: true }];
+
+            const client = new FakeHttpClient({
+                'https://api.test/login': makeResponse(200, '{"token":"t-1"}'),
+                'https://api.test/me': makeResponse(200),
+            });
+            const summary = await new CollectionRunner(client, resolveIteration).run(makeCollection(login, me));
+
+            assert.deepStrictEqual(client.sent.map(r => r.name), ['login', 'me']);
+            assert.strictEqual(client.sent[1].headers[0].value, 'Bearer t-1');
+            assert.strictEqual(summary.passed, 2);
+            assert.strictEqual(summary.failed, 0);
+        });
+
+        test('should fail on error status, failed assertions and network errors', async () => {
+            const notFound = createRequest('missing', 'GET', 'https://api.test/404');
+            const asserted = createRequest('asserted', 'GET', 'https://api.test/ok');
+            asserted.assertions = [createAssertion('status', 'equals', '201')];
+            const broken = createRequest('broken', 'GET', 'https://api.test/down');
+
+            const client = new FakeHttpClient({
+                'https://api.test/404': makeResponse(404),
+                'https://api.test/ok': makeResponse(200),
+                'https://api.test/down': new Error('ECONNREFUSED'),
+            });
+            const summary = await new CollectionRunner(client, resolveIteration).run(makeCollection(notFound, asserted, broken));
+
+            assert.deepStrictEqual(summary.results.map(r => r.status), ['failed', 'failed', 'failed']);
+            assert.strictEqual(summary.results[1].assertionResults?.[0].passed, false);
+            assert.strictEqual(summary.results[2].error, 'ECONNREFUSED');
+        });
+
+        test('should not re-send a pre-request that already ran and only re-run the requested ids', async () => {
+            const token = createRequest('token', 'POST', 'https://api.test/token');
+            const orders = createRequest('orders', 'GET', 'https://api.test/orders');
+            orders.preRequestId = token.id;
+
+            const client = new FakeHttpClient({
+                'https://api.test/token': makeResponse(200),
+                'https://api.test/orders': makeResponse(200),
+            });
+            const runner = new CollectionRunner(client, resolveIteration);
+
+            await runner.run(makeCollection(token, orders));
+            assert.deepStrictEqual(client.sent.map(r => r.name), ['token', 'orders']);
+
+            client.sent = [];
+            const summary = await runner.run(makeCollection(token, orders), { requestIds: { 0: [orders.id] } });
+            assert.deepStrictEqual(client.sent.map(r => r.name), ['token', 'orders']);
+            assert.strictEqual(summary.total, 1);
+        });
+
+        test('should report pre-request cycles as failures', async () => {
+            const a = createRequest('a', 'GET', 'https://api.test/a');
+            const b = createRequest('b', 'GET', 'https://api.test/b');
+            a.preRequestId = b.id;
+            b.preRequestId = a.id;
+
+            const client = new FakeHttpClient({});
+            const summary = await new CollectionRunner(client, resolveIteration).run(makeCollection(a, b));
+
+            assert.strictEqual(client.sent.length, 0);
+            assert.ok(summary.results[0].error?.startsWith('Pre-request cycle detected'));
+            assert.strictEqual(summary.failed, 2);
+        });
+
+        test('should skip remaining requests after stop', async () => {
+            const first = createRequest('first', 'GET', 'https://api.test/a');
+            const second = createRequest('second', 'GET', 'https://api.test/b');
+
+            const client = new FakeHttpClient({ 'https://api.test/a': makeResponse(200), 'https://api.test/b': makeResponse(200) });
+            const runner = new CollectionRunner(client, resolveIteration);
+            const summary = await runner.run(makeCollection(first, second), {
+                callbacks: { onRequestCompleted: () => runner.stop() }
+            });
+
+            assert.strictEqual(summary.stopped, true);
+            assert.deepStrictEqual(summary.results.map(r => r.status), ['passed', 'skipped']);
+            assert.strictEqual(summary.results[1].skipReason, 'stopped');
+        });
+
+        test('should cancel the request in flight when stopped', async () => {
+            const hanging = createRequest('hanging', 'GET', 'https://api.test/slow');
+            const next = createRequest('next', 'GET', 'https://api.test/next');
+            const client = {
+                executeRequest: (_request: Request, _headers?: Record<string, string>, signal?: AbortSignal) => new Promise<HttpResponse>((_resolve, reject) => {
+                    signal?.addEventListener('abort', () => reject(new RequestCancelledError()));
+                }),
+            };
+            const runner = new CollectionRunner(client, resolveIteration);
+            const summary = await runner.run(makeCollection(hanging, next), {
+                callbacks: { onRequestStarted: () => setTimeout(() => runner.stop(), 10) }
+            });
+
+            assert.strictEqual(summary.stopped, true);
+            assert.deepStrictEqual(summary.results.map(r => [r.status, r.skipReason]), [['skipped', 'stopped'], ['skipped', 'stopped']]);
+        });
+
+        test('should clear a cached OAuth 2.0 token that gets a 401', async () => {
+            const first = createRequest('first', 'GET', 'https://api.test/a');
+            const second = createRequest('second', 'GET', 'https://api.test/b');
+            const collection = makeCollection(first, second);
+            collection.defaultAuth = { type: 'oauth2', grantType: 'client_credentials', tokenUrl: 'https://auth.test/token', clientId: 'app' };
+
+            let token = 'expired';
+            const cleared: (string | undefined)[] = [];
+            const oauth2 = {
+                getAuthorizationHeader: async () => `Bearer ${token}`,
+                clearToken: async (_auth: AuthConfig, _resolve?: unknown, collectionId?: string) => {
+                    cleared.push(collectionId);
+                    token = 'fresh';
+                },
+            };
+            const client = new FakeHttpClient({ 'https://api.test/a': makeResponse(401), 'https://api.test/b': makeResponse(200) });
+            const summary = await new CollectionRunner(client, resolveIteration, oauth2).run(collection);
+
+            assert.deepStrictEqual(cleared, [collection.id]);
+            assert.deepStrictEqual(client.sent.map(r => r.headers.find(h => h.name === 'Authorization')?.value), ['Bearer expired', 'Bearer fresh']);
+            assert.deepStrictEqual(summary.results.map(r => r.status), ['failed', 'passed']);
+        });
+
+        test('should skip WebSocket requests and fail requests that chain them', async () => {
+            const socket = createWebSocketRequest('socket', 'wss://api.test/live');
+            const orders = createRequest('orders', 'GET', 'https://api.test/orders');
+            orders.preRequestId = socket.id;
+
+            const client = new FakeHttpClient({ 'https://api.test/orders': makeResponse(200) });
+            const summary = await new CollectionRunner(client, resolveIteration).run(makeCollection(socket, orders));
+
+            assert.strictEqual(client.sent.length, 0);
+            assert.deepStrictEqual(summary.results.map(r => r.status), ['skipped', 'failed']);
+            assert.strictEqual(summary.results[0].skipReason, 'unsupported');
+            assert.ok(summary.results[1].error?.includes('is a WebSocket request'));
+        });
+
+        test('should skip gRPC requests and fail requests that chain them', async () => {
+            const greeter = createGrpcRequest('greeter', 'grpc://api.test:50051');
+            const orders = createRequest('orders', 'GET', 'https://api.test/orders');
+            orders.preRequestId = greeter.id;
+
+            const client = new FakeHttpClient({ 'https://api.test/orders': makeResponse(200) });
+            const summary = await new CollectionRunner(client, resolveIteration).run(makeCollection(greeter, orders));
+
+            assert.strictEqual(client.sent.length, 0);
+            assert.deepStrictEqual(summary.results.map(r => r.status), ['skipped', 'failed']);
+            assert.strictEqual(summary.results[0].skipReason, 'unsupported');
+            assert.ok(summary.results[1].error?.includes('is a gRPC request'));
+        });
+    });
+
+    suite('iterations', () => {
+        test('should run once per data row with the row as variables', async () => {
+            const collection = createCollection('API');
+            const tenant = createRequest('tenant', 'GET', '{{baseUrl}}/tenants/{{tenantId}}');
+            tenant.assertions = [createAssertion('status', 'equals', '{{expectedStatus}}')];
+            collection.requests = [tenant];
+
+            const client = new FakeHttpClient({
+                'https://api.test/tenants/a': makeResponse(200),
+                'https://api.test/tenants/b': makeResponse(404),
+            });
+            const summary = await new CollectionRunner(client, resolveIteration).run(collection, {
+                iterationData: [
+                    { tenantId: 'a', expectedStatus: '200' },
+                    { tenantId: 'b', expectedStatus: '200' },
+                    { tenantId: 'b', expectedStatus: '404' },
+                ]
+            });
+
+            assert.deepStrictEqual(client.sent.map(r => r.url), [
+                'https://api.test/tenants/a',
+                'https://api.test/tenants/b',
+                'https://api.test/tenants/b',
+            ]);
+            assert.deepStrictEqual(summary.results.map(r => [r.iteration, r.status]), [[0, 'passed'], [1, 'failed'], [2, 'passed']]);
+            assert.deepStrictEqual(summary.iterations.map(i => [i.passed, i.failed]), [[1, 0], [0, 1], [1, 0]]);
+            assert.strictEqual(summary.iterations[1].variables?.tenantId, 'b');
+        });
+
+        test('should only run the selected requests of the selected iterations', async () => {
+            const collection = createCollection('API');
+            const one = createRequest('one', 'GET', 'https://api.test/{{id}}/one');
+            const two = createRequest('two', 'GET', 'https://api.test/{{id}}/two');
+            collection.requests = [one, two];
+
+            const client = new FakeHttpClient({ 'https://api.test/2/two': makeResponse(200) });
+            const summary = await new CollectionRunner(client, resolveIteration).run(collection, {
+                iterationData: [{ id: '1' }, { id: '2' }],
+                requestIds: { 1: [two.id] }
+            });
+
+            assert.deepStrictEqual(client.sent.map(r => r.url), ['https://api.test/2/two']);
+            assert.deepStrictEqual(summary.iterations.map(i => i.iteration), [1]);
+        });
+    });
+
+    suite('parseIterationData', () => {
+        test('should parse CSV with quotes, escapes and CRLF line endings', () => {
+            const csv = '\uFEFFid,name,payload\r\n1,"Smith, John","{""a"":1}"\r\n2,Jane,\r\n';
+            assert.deepStrictEqual(parseIterationData(csv, 'csv'), [
+                { id: '1', name: 'Smith, John', payload: '{"a":1}' },
+                { id: '2', name: 'Jane', payload: '' },
+            ]);
+        });
+
+        test('should parse JSON arrays and stringify nested values', () => {
+            const rows = parseIterationData('[{"id":1,"tags":["a"],"name":"x"}]', 'json');
+            assert.deepStrictEqual(rows, [{ id: '1', tags: '["a"]', name: 'x' }]);
+        });
+
+        test('should reject malformed data', () => {
+            assert.throws(() => parseIterationData('{"id":1}', 'json'), /array of objects/);
+            assert.throws(() => parseIterationData('id\n"unterminated', 'csv'), /unterminated/);
+            assert.throws(() => parseIterationData('a,b\n1,2,3', 'csv'), /expected 2/);
+        });
+
+        test('should detect the format from the file name', () => {
+            assert.strictEqual(getIterationDataFormat('tenants.CSV'), 'csv');
+            assert.strictEqual(getIterationDataFormat('rows.json'), 'json');
+            assert.strictEqual(getIterationDataFormat('rows.txt'), undefined);
+        });
+    });
+});
@@ -0,0 +1,97 @@
+import * as assert from 'assert';
+import * as http from 'http';
+import * as zlib from 'zlib';
+import { AddressInfo } from 'net';
+import { HttpClient } from '../http/HttpClient';
+import { ACCEPT_ENCODING, createDecodingStreams, decodeContent, formatHexDump, parseContentEncoding } from '../http/ContentEncoding';
+import { createRequest } from '../models/Collection';
+
+const TEXT = JSON.stringify({ items: Array.from({ length: 200 }, (_, i) => ({ id: i, name: `Item ${i}` })) });
+
+suite('Content Encoding Test Suite', () => {
+    test('decodeContent should undo gzip, deflate and brotli', async () => {
+        const text = Buffer.from(TEXT);
+        assert.strictEqual((await decodeContent(zlib.gzipSync(text), 'gzip')).toString(), TEXT);
+        assert.strictEqual((await decodeContent(zlib.deflateSync(text), 'deflate')).toString(), TEXT);
+        assert.strictEqual((await decodeContent(zlib.deflateRawSync(text), 'deflate')).toString(), TEXT);
+        assert.strictEqual((await decodeContent(zlib.brotliCompressSync(text), 'BR')).toString(), TEXT);
+        assert.strictEqual(await decodeContent(text, 'identity'), text);
+    });
+
+    test('decodeContent should remove stacked codings last applied first', async () => {
+        const encoded = zlib.brotliCompressSync(zlib.gzipSync(Buffer.from(TEXT)));
+        assert.deepStrictEqual(parseContentEncoding('gzip, identity, br'), ['gzip', 'br']);
+        assert.strictEqual((await decodeContent(encoded, 'gzip, br')).toString(), TEXT);
+    });
+
+    test('decodeContent should reject unknown codings', async () => {
+        await assert.rejects(decodeContent(Buffer.from('x'), 'compress'), /Unsupported Content-Encoding: compress/);
+    });
+
+    test('createDecodingStreams should inflate deflate streams with and without the zlib header', async () => {
+        const text = Buffer.from(TEXT);
+        for (const encoded of [zlib.deflateSync(text), zlib.deflateRawSync(text)]) {
+            const [decoder] = createDecodingStreams('deflate')!;
+            const chunks: Buffer[] = [];
+            decoder.on('data', (chunk: Buffer) => chunks.push(chunk));
+            const ended = new Promise((resolve, reject) => decoder.on('end', resolve).on('error', reject));
+            // The header is told apart even when its bytes arrive separately
+            decoder.write(encoded.subarray(0, 1));
+            decoder.write(encoded.subarray(1, 100));
+            decoder.end(encoded.subarray(100));
+            await ended;
+            assert.strictEqual(Buffer.concat(chunks).toString(), TEXT);
+        }
+    });
+
+    test('ACCEPT_ENCODING should advertise brotli, and zstd where Node can decode it', () => {
+        const zstd = typeof (zlib as { zstdDecompress?: unknown }).zstdDecompress === 'function';
+        assert.strictEqual(ACCEPT_ENCODING, zstd ? 'gzip, deflate, br, zstd' : 'gzip, deflate, br');
+    });
+
+    test('formatHexDump should show offsets, hex and printable characters', () => {
+        const dump = formatHexDump(Buffer.concat([Buffer.from('Hello, World!\n'), Buffer.from([0x00, 0x01, 0xff]), Buffer.from('end')]), 16);
+        assert.strictEqual(dump, [
+            '00000000  48 65 6c 6c 6f 2c 20 57 6f 72 6c 64 21 0a 00 01  Hello, World!...',
+            '... 4 more bytes',
+        ].join('\n'));
+    });
+
+    test('HttpClient should record encoded and decoded sizes of a brotli response', async () => {
+        const compressed = zlib.brotliCompressSync(Buffer.from(TEXT));
+        let acceptEncoding: string | undefined;
+        const server = http.createServer((req, res) => {
+            acceptEncoding = req.headers['accept-encoding'];
+            if (req.url === '/corrupt') {
+                res.writeHead(200, { 'Content-Type': 'text/plain', 'Content-Encoding': 'br' });
+                res.end('not brotli');
+                return;
+            }
+            res.writeHead(200, { 'Content-Type': 'application/json', 'Content-Encoding': 'br' });
+            res.end(compressed);
+        });
+        await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+        try {
+            const base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+            const client = new HttpClient();
+
+            const response = await client.executeRequest(createRequest('Items', 'GET', `${base}/items`));
+            assert.strictEqual(acceptEncoding, ACCEPT_ENCODING);
+            assert.strictEqual(response.body, TEXT);
+            assert.strictEqual(response.encoding, 'br');
+            assert.strictEqual(response.size, compressed.length);
+            assert.strictEqual(response.decodedSize, Buffer.byteLength(TEXT));
+            assert.ok(response.encodedBody?.equals(compressed), 'Should keep the bytes as received');
+
+            // Undecodable bodies are kept as received
+            const corrupt = await client.executeRequest(createRequest('Corrupt', 'GET', `${base}/corrupt`));
+            assert.strictEqual(corrupt.body, 'not brotli');
+            assert.strictEqual(corrupt.encoding, undefined);
+            assert.strictEqual(corrupt.encodedBody, undefined);
+            assert.strictEqual(corrupt.decodedSize, corrupt.size);
+        } finally {
+            server.closeAllConnections();
+            server.close();
+        }
+    });
+});
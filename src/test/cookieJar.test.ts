@@ -0,0 +1,132 @@
+import * as assert from 'assert';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { URL } from 'url';
+import { HttpClient } from '../http/HttpClient';
+import { CookieJar, parseSetCookie } from '../http/CookieJar';
+import { createRequest } from '../models/Collection';
+
+const NOW = Date.UTC(2024, 0, 1);
+
+suite('Cookie Jar Test Suite', () => {
+    test('parseSetCookie should read the attributes', () => {
+        const cookie = parseSetCookie('session=abc; Path=/api; Secure; HttpOnly; SameSite=Lax', new URL('https://example.com/login'), NOW);
+
+        assert.deepStrictEqual(cookie, {
+            name: 'session',
+            value: 'abc',
+            domain: 'example.com',
+            path: '/api',
+            secure: true,
+            httpOnly: true,
+            hostOnly: true,
+            sameSite: 'Lax',
+            createdAt: NOW,
+        });
+    });
+
+    test('parseSetCookie should default the path to the directory of the request', () => {
+        assert.strictEqual(parseSetCookie('a=1', new URL('https://example.com/account/login'), NOW)?.path, '/account');
+        assert.strictEqual(parseSetCookie('a=1', new URL('https://example.com/login'), NOW)?.path, '/');
+        assert.strictEqual(parseSetCookie('a=1; Path=relative', new URL('https://example.com/a/b'), NOW)?.path, '/a');
+    });
+
+    test('parseSetCookie should prefer Max-Age over Expires', () => {
+        const url = new URL('https://example.com/');
+        assert.strictEqual(parseSetCookie('a=1; Expires=Tue, 02 Jan 2024 00:00:00 GMT', url, NOW)?.expires, NOW + 86400000);
+        assert.strictEqual(parseSetCookie('a=1; Expires=Tue, 02 Jan 2024 00:00:00 GMT; Max-Age=60', url, NOW)?.expires, NOW + 60000);
+        assert.strictEqual(parseSetCookie('a=1; Max-Age=0', url, NOW)?.expires, 0);
+        assert.strictEqual(parseSetCookie('a=1', url, NOW)?.expires, undefined);
+    });
+
+    test('parseSetCookie should reject domains the host does not belong to', () => {
+        const url = new URL('https://api.example.com/');
+        assert.strictEqual(parseSetCookie('a=1; Domain=.example.com', url, NOW)?.domain, 'example.com');
+        assert.strictEqual(parseSetCookie('a=1; Domain=other.com', url, NOW), undefined);
+        assert.strictEqual(parseSetCookie('a=1; Domain=com', url, NOW), undefined);
+        assert.strictEqual(parseSetCookie('a=1; Domain=0.0.1', new URL('http://127.0.0.1/'), NOW), undefined);
+    });
+
+    test('parseSetCookie should reject common public suffixes as Domain', () => {
+        const url = new URL('https://shop.a.co.uk/');
+        assert.strictEqual(parseSetCookie('a=1; Domain=co.uk', url, NOW), undefined);
+        assert.strictEqual(parseSetCookie('a=1; Domain=a.co.uk', url, NOW)?.domain, 'a.co.uk');
+        assert.strictEqual(parseSetCookie('a=1; Domain=github.io', new URL('https://me.github.io/'), NOW), undefined);
+        assert.strictEqual(parseSetCookie('a=1; Domain=co.uk', new URL('https://co.uk/'), NOW)?.hostOnly, true);
+        // Suffixes missing from the built-in list are still accepted
+        assert.strictEqual(parseSetCookie('a=1; Domain=co.example', new URL('https://a.co.example/'), NOW)?.domain, 'co.example');
+    });
+
+    test('parseSetCookie should only accept Secure cookies from secure origins', () => {
+        assert.strictEqual(parseSetCookie('a=1; Secure', new URL('http://example.com/'), NOW), undefined);
+        assert.ok(parseSetCookie('a=1; Secure', new URL('http://localhost:3000/'), NOW));
+    });
+
+    test('getCookieHeader should match domain, path and Secure', () => {
+        const jar = new CookieJar();
+        jar.setCookies(new URL('https://example.com/'), ['host=1', 'wide=2; Domain=example.com', 'api=3; Path=/api', 'secure=4; Secure'], NOW);
+
+        assert.strictEqual(jar.getCookieHeader(new URL('https://example.com/'), NOW), 'host=1; wide=2; secure=4');
+        assert.strictEqual(jar.getCookieHeader(new URL('https://www.example.com/'), NOW), 'wide=2');
+        assert.strictEqual(jar.getCookieHeader(new URL('http://example.com/apiary'), NOW), 'host=1; wide=2');
+        assert.strictEqual(jar.getCookieHeader(new URL('https://other.com/'), NOW), undefined);
+    });
+
+    test('getCookieHeader should list longer paths first', () => {
+        const jar = new CookieJar();
+        jar.setCookies(new URL('https://example.com/'), ['root=1', 'api=2; Path=/api', 'users=3; Path=/api/users'], NOW);
+
+        assert.strictEqual(jar.getCookieHeader(new URL('https://example.com/api/users/1'), NOW), 'users=3; api=2; root=1');
+    });
+
+    test('setCookies should replace cookies and remove expired ones', () => {
+        const jar = new CookieJar();
+        const url = new URL('https://example.com/');
+
+        assert.strictEqual(jar.setCookies(url, ['a=1', 'b=2'], NOW), true);
+        jar.setCookies(url, ['a=changed'], NOW + 1000);
+        // The replaced cookie keeps its place in the header
+        assert.strictEqual(jar.getCookieHeader(url, NOW + 1000), 'a=changed; b=2');
+
+        assert.strictEqual(jar.setCookies(url, ['b=; Max-Age=0'], NOW + 2000), true);
+        assert.strictEqual(jar.setCookies(url, ['unknown=; Max-Age=0'], NOW + 2000), false);
+        jar.setCookies(url, ['short=1; Max-Age=10'], NOW + 2000);
+        assert.strictEqual(jar.getCookieHeader(url, NOW + 2000), 'a=changed; short=1');
+        assert.deepStrictEqual(jar.getCookies(NOW + 20000).map(c => c.name), ['a']);
+    });
+
+    test('HttpClient should keep cookies across redirects and requests', async () => {
+        const received: Record<string, string | undefined> = {};
+        const server = http.createServer((req, res) => {
+            received[req.url!] = req.headers.cookie;
+            if (req.url === '/login') {
+                res.writeHead(302, { 'Location': '/home', 'Set-Cookie': ['session=abc; HttpOnly'] });
+            } else {
+                res.writeHead(200);
+            }
+            res.end();
+        });
+        await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+        try {
+            const base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+            const client = new HttpClient({ cookieJar: new CookieJar() });
+
+            const login = await client.executeRequest(createRequest('Login', 'POST', `${base}/login`));
+            assert.strictEqual(login.status, 200);
+            assert.strictEqual(received['/home'], 'session=abc');
+
+            const withHeader = createRequest('Profile', 'GET', `${base}/profile`);
+            withHeader.headers = [{ name: 'Cookie', value: 'theme=dark', enabled: true }];
+            await client.executeRequest(withHeader);
+            assert.strictEqual(received['/profile'], 'theme=dark; session=abc');
+
+            const optedOut = createRequest('Anonymous', 'GET', `${base}/anonymous`);
+            optedOut.disableCookieJar = true;
+            await client.executeRequest(optedOut);
+            assert.strictEqual(received['/anonymous'], undefined);
+        } finally {
+            server.closeAllConnections();
+            server.close();
+        }
+    });
+});
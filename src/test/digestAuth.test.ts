@@ -0,0 +1,116 @@
+import * as assert from 'assert';
+import * as http from 'http';
+import { createHash } from 'crypto';
+import { AddressInfo } from 'net';
+import { buildDigestAuthorization, parseDigestChallenge } from '../http/DigestAuth';
+import { HttpClient } from '../http/HttpClient';
+import { createRequest } from '../models/Collection';
+
+const md5 = (value: string) => createHash('md5').update(value).digest('hex');
+
+/**
+ * Minimal Digest-protected server (MD5, qop=auth) that checks the response and nonce count
+ */
+class DigestServer {
+    public authorizations: (string | undefined)[] = [];
+    private server = http.createServer((req, res) => {
+        const authorization = req.headers.authorization;
+        this.authorizations.push(authorization);
+        const params = Object.fromEntries([...(authorization || '').matchAll(/(\w+)="?([^",]*)"?/g)].map(m => [m[1], m[2]]));
+        const ha1 = md5(`ann:lab:pw`);
+        const ha2 = md5(`${req.method}:${params.uri}`);
+        const expected = md5(`${ha1}:${this.nonce}:${params.nc}:${params.cnonce}:auth:${ha2}`);
+        if (authorization?.startsWith('Digest ') && params.response === expected && params.uri === req.url) {
+            res.writeHead(200).end('ok');
+        } else {
+            res.writeHead(401, { 'WWW-Authenticate': `Digest realm="lab", qop="auth", nonce="${this.nonce}", opaque="xyz"` }).end();
+        }
+    });
+
+    constructor(public nonce: string) { }
+
+    get url(): string {
+        return `http://127.0.0.1:${(this.server.address() as AddressInfo).port}`;
+    }
+
+    async start(): Promise<void> {
+        await new Promise<void>(resolve => this.server.listen(0, '127.0.0.1', resolve));
+    }
+
+    close(): void {
+        this.server.close();
+    }
+}
+
+suite('Digest Auth Test Suite', () => {
+    // RFC 7616 section 3.9.1
+    const rfcChallenge = 'Digest realm="http-auth@example.org", qop="auth, auth-int", algorithm=SHA-256, '
+        + 'nonce="7ypf/xlj9XXwfDPEoM4URrv/xwf94BcCAzFZH4GiTo0v", opaque="FQhe/qaU925kfnzjCev0ciny7QMkPqMAFRtzCUYo5tdS", '
+        + 'Digest realm="http-auth@example.org", qop="auth, auth-int", algorithm=MD5, '
+        + 'nonce="7ypf/xlj9XXwfDPEoM4URrv/xwf94BcCAzFZH4GiTo0v", opaque="FQhe/qaU925kfnzjCev0ciny7QMkPqMAFRtzCUYo5tdS"';
+    const rfcOptions = {
+        username: 'Mufasa',
+        password: 'Circle of Life',
+        method: 'GET',
+        uri: '/dir/index.html',
+        nc: 1,
+        cnonce: 'f2/wE4q74E6zIJEtWaHKaf5wv/H5QzzpXusqGemxURZJ',
+    };
+
+    test('parseDigestChallenge should prefer SHA-256 and skip other schemes', () => {
+        const challenge = parseDigestChallenge(`Basic realm="x", ${rfcChallenge}`);
+        assert.strictEqual(challenge?.algorithm, 'SHA-256');
+        assert.strictEqual(challenge?.realm, 'http-auth@example.org');
+        assert.deepStrictEqual(challenge?.qop, ['auth', 'auth-int']);
+        assert.strictEqual(parseDigestChallenge('Basic realm="x"'), undefined);
+        assert.strictEqual(parseDigestChallenge('Digest realm="x", nonce="n", stale=TRUE')?.stale, true);
+    });
+
+    test('buildDigestAuthorization should match the RFC 7616 examples', () => {
+        const sha256 = parseDigestChallenge(rfcChallenge)!;
+        assert.match(
+            buildDigestAuthorization(sha256, rfcOptions),
+            /response="753927fa0e85d155564e2e272a28d1802ca10daf4496794697cf8db5856cb6c1".*qop=auth, nc=00000001, cnonce="f2\/wE4q74E6zIJEtWaHKaf5wv\/H5QzzpXusqGemxURZJ"$/
+        );
+        assert.match(
+            buildDigestAuthorization({ ...sha256, algorithm: 'MD5' }, rfcOptions),
+            /response="8ca523f5e9506fed4657c9700eebdbec"/
+        );
+    });
+
+    suite('HttpClient', () => {
+        let server: DigestServer;
+
+        setup(async () => {
+            server = new DigestServer('n-1');
+            await server.start();
+        });
+
+        teardown(() => server.close());
+
+        test('should answer the challenge and reuse it with an incrementing nonce count', async () => {
+            const client = new HttpClient();
+            const request = { ...createRequest('Device', 'GET', `${server.url}/status?x=1`), auth: { type: 'digest' as const, username: 'ann', password: 'pw' } };
+
+            assert.strictEqual((await client.executeRequest(request)).status, 200);
+            assert.strictEqual((await client.executeRequest(request)).status, 200);
+
+            assert.strictEqual(server.authorizations.length, 3, 'only the first request is challenged');
+            assert.strictEqual(server.authorizations[0], undefined);
+            assert.match(server.authorizations[1]!, /nc=00000001/);
+            assert.match(server.authorizations[2]!, /nc=00000002/);
+        });
+
+        test('should answer a new challenge when the nonce changes and give up on wrong credentials', async () => {
+            const client = new HttpClient();
+            const request = { ...createRequest('Device', 'GET', server.url), auth: { type: 'digest' as const, username: 'ann', password: 'pw' } };
+            await client.executeRequest(request);
+
+            server.nonce = 'n-2';
+            assert.strictEqual((await client.executeRequest(request)).status, 200);
+
+            const wrong = { ...request, auth: { type: 'digest' as const, username: 'ann', password: 'nope' } };
+            assert.strictEqual((await new HttpClient().executeRequest(wrong)).status, 401);
+        });
+    });
+});
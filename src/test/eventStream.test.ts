@@ -0,0 +1,180 @@
+import * as assert from 'assert';
+import * as http from 'http';
+import * as zlib from 'zlib';
+import { AddressInfo } from 'net';
+import { HttpClient, MAX_STREAMED_BODY_BYTES } from '../http/HttpClient';
+import { EventStreamParser, getStreamKind, StreamEvent } from '../http/EventStream';
+import { createRequest } from '../models/Collection';
+
+function parseAll(parser: EventStreamParser, chunks: (string | Buffer)[]): StreamEvent[] {
+    const events = chunks.flatMap(chunk => parser.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk), 0));
+    return [...events, ...parser.end(0)];
+}
+
+suite('Event Stream Test Suite', () => {
+    test('getStreamKind should recognise event streams and NDJSON', () => {
+        assert.strictEqual(getStreamKind('text/event-stream; charset=utf-8'), 'sse');
+        assert.strictEqual(getStreamKind('application/x-ndjson'), 'ndjson');
+        assert.strictEqual(getStreamKind('application/jsonl'), 'ndjson');
+        assert.strictEqual(getStreamKind('application/json'), undefined);
+        assert.strictEqual(getStreamKind(undefined), undefined);
+    });
+
+    test('EventStreamParser should read SSE fields across chunk boundaries', () => {
+        const euro = Buffer.from('data: 5 €\n\n');
+        const events = parseAll(new EventStreamParser('sse'), [
+            '\uFEFF: keep-alive\r\nevent: token\r',
+            '\nid: 1\nretry: 3000\nda',
+            'ta: first line\ndata:second line\n\n',
+            euro.subarray(0, 9),
+            euro.subarray(9),
+            'data: {"done":true}\nid: 2\n\ndata: never finished\n',
+        ]);
+        assert.deepStrictEqual(events, [
+            { time: 0, data: 'first line\nsecond line', event: 'token', id: '1', retry: 3000 },
+            { time: 0, data: '5 €' },
+            { time: 0, data: '{"done":true}', id: '2' },
+        ]);
+    });
+
+    test('EventStreamParser should skip SSE events without data', () => {
+        const events = parseAll(new EventStreamParser('sse'), ['event: ping\n\nretry: x\ndata\n\n']);
+        assert.deepStrictEqual(events, [{ time: 0, data: '' }]);
+    });
+
+    test('EventStreamParser should emit one event per NDJSON line', () => {
+        const events = parseAll(new EventStreamParser('ndjson'), ['{"a":1}\n\n{"b"', ':2}\r\n{"c":3}']);
+        assert.deepStrictEqual(events.map(event => event.data), ['{"a":1}', '{"b":2}', '{"c":3}']);
+    });
+
+    test('HttpClient should pass chunks to the stream handler as they arrive', async () => {
+        let release: () => void = () => { };
+        const server = http.createServer((req, res) => {
+            if (req.url === '/redirect') {
+                res.writeHead(302, { Location: '/events' });
+                res.end('moved');
+                return;
+            }
+            const gzip = req.url === '/gzip';
+            res.writeHead(200, { 'Content-Type': 'text/event-stream', ...(gzip ? { 'Content-Encoding': 'gzip' } : {}) });
+            const out = gzip ? zlib.createGzip({ flush: zlib.constants.Z_SYNC_FLUSH }) : res;
+            if (gzip) {
+                (out as zlib.Gzip).pipe(res);
+            }
+            out.write('data: one\n\n');
+            // The rest is only sent once the client has seen the first event
+            release = () => {
+                release = () => { };
+                out.end('data: two\n\n');
+            };
+        });
+        await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+        try {
+            const base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+            const client = new HttpClient();
+
+            for (const path of ['/redirect', '/gzip']) {
+                const starts: number[] = [];
+                const received: string[] = [];
+                const response = await client.executeRequest(createRequest('Events', 'GET', base + path), undefined, undefined, {
+                    onStart: status => starts.push(status),
+                    onData: chunk => {
+                        received.push(chunk.toString());
+                        release();
+                    },
+                });
+                assert.deepStrictEqual(starts, [200], path);
+                assert.strictEqual(received.join(''), 'data: one\n\ndata: two\n\n', path);
+                assert.strictEqual(response.body, 'data: one\n\ndata: two\n\n', path);
+                assert.strictEqual(response.stopped, undefined, path);
+            }
+        } finally {
+            server.closeAllConnections();
+            server.close();
+        }
+    });
+
+    test('HttpClient should not time out streams that pause between events', async () => {
+        const server = http.createServer((req, res) => {
+            res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+            res.write('data: one\n\n');
+            setTimeout(() => res.end('data: two\n\n'), 300);
+        });
+        await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+        try {
+            const url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/events`;
+            const response = await new HttpClient({ timeout: 100 }).executeRequest(createRequest('Events', 'GET', url), undefined, undefined, {
+                onData: () => { },
+            });
+            assert.strictEqual(response.body, 'data: one\n\ndata: two\n\n');
+        } finally {
+            server.closeAllConnections();
+            server.close();
+        }
+    });
+
+    test('HttpClient should keep only the beginning of a stream larger than MAX_STREAMED_BODY_BYTES', async () => {
+        const line = Buffer.from(`{"pad":"${'x'.repeat(1000)}"}\n`);
+        const lines = Math.ceil(MAX_STREAMED_BODY_BYTES / line.length) + 100;
+        const server = http.createServer((req, res) => {
+            const gzip = req.url === '/gzip';
+            res.writeHead(200, { 'Content-Type': 'application/x-ndjson', ...(gzip ? { 'Content-Encoding': 'gzip' } : {}) });
+            const out = gzip ? zlib.createGzip() : res;
+            if (gzip) {
+                (out as zlib.Gzip).pipe(res);
+            }
+            let sent = 0;
+            const write = () => {
+                while (sent < lines) {
+                    sent++;
+                    if (!out.write(line)) {
+                        out.once('drain', write);
+                        return;
+                    }
+                }
+                out.end();
+            };
+            write();
+        });
+        await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+        try {
+            const base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+            for (const path of ['/plain', '/gzip']) {
+                let streamedBytes = 0;
+                const response = await new HttpClient().executeRequest(createRequest('Stream', 'GET', base + path), undefined, undefined, {
+                    onData: chunk => streamedBytes += chunk.length,
+                });
+                assert.strictEqual(streamedBytes, lines * line.length, path);
+                assert.strictEqual(response.truncated, true, path);
+                assert.strictEqual(response.rawBody!.length, MAX_STREAMED_BODY_BYTES, path);
+                assert.ok(response.body.startsWith(line.toString()), path);
+                assert.strictEqual(response.encodedBody, undefined, path);
+            }
+        } finally {
+            server.closeAllConnections();
+            server.close();
+        }
+    });
+
+    test('HttpClient should resolve a stopped stream with the body received so far', async () => {
+        const server = http.createServer((req, res) => {
+            res.writeHead(200, { 'Content-Type': 'application/x-ndjson' });
+            res.write('{"n":1}\n');
+        });
+        await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+        try {
+            const url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/stream`;
+            const stop = new AbortController();
+            const response = await new HttpClient().executeRequest(createRequest('Stream', 'GET', url), undefined, undefined, {
+                onData: () => stop.abort(),
+                stopSignal: stop.signal,
+            });
+            assert.strictEqual(response.status, 200);
+            assert.strictEqual(response.stopped, true);
+            assert.strictEqual(response.body, '{"n":1}\n');
+        } finally {
+            server.closeAllConnections();
+            server.close();
+        }
+    });
+});
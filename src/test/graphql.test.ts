@@ -0,0 +1,182 @@
+import * as assert from 'assert';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { HttpClient } from '../http/HttpClient';
+import { buildRequest } from '../http/RequestBuilder';
+import {
+    createGraphQLPayload,
+    formatGraphQLPayload,
+    getCompletions,
+    GraphQLSchema,
+    parseGraphQLBody,
+    parseIntrospectionResult,
+    validateQuery,
+} from '../http/GraphQL';
+import { createRequest } from '../models/Collection';
+
+type TypeRef = { kind: string; name?: string; ofType?: TypeRef };
+
+const named = (name: string, kind = 'SCALAR'): TypeRef => ({ kind, name });
+const nonNull = (ofType: TypeRef): TypeRef => ({ kind: 'NON_NULL', ofType });
+const list = (ofType: TypeRef): TypeRef => ({ kind: 'LIST', ofType });
+const field = (name: string, type: TypeRef, args: { name: string; type: TypeRef }[] = []) => ({ name, description: null, args, type });
+
+/** An introspection result as a server returns it */
+const INTROSPECTION = JSON.stringify({
+    data: {
+        __schema: {
+            queryType: { name: 'Query' },
+            mutationType: null,
+            subscriptionType: null,
+            types: [
+                {
+                    kind: 'OBJECT', name: 'Query', description: null, fields: [
+                        field('user', named('User', 'OBJECT'), [{ name: 'id', type: nonNull(named('ID')) }]),
+                        field('users', nonNull(list(nonNull(named('User', 'OBJECT')))), [{ name: 'role', type: named('Role', 'ENUM') }]),
+                    ],
+                },
+                {
+                    kind: 'OBJECT', name: 'User', description: 'A person', fields: [
+                        field('id', nonNull(named('ID'))),
+                        field('name', named('String')),
+                        field('role', named('Role', 'ENUM')),
+                        field('friends', list(named('User', 'OBJECT'))),
+                    ],
+                },
+                { kind: 'ENUM', name: 'Role', description: null, fields: null, enumValues: [{ name: 'ADMIN' }, { name: 'GUEST' }] },
+                { kind: 'SCALAR', name: 'ID', description: null, fields: null },
+                { kind: 'SCALAR', name: 'String', description: null, fields: null },
+                { kind: 'OBJECT', name: '__Schema', description: null, fields: [] },
+            ],
+        },
+    },
+});
+
+function labels(schema: GraphQLSchema, query: string, offset = query.length): string[] {
+    return getCompletions(schema, query, offset).items.map(item => item.label);
+}
+
+suite('GraphQL Test Suite', () => {
+    const schema = parseIntrospectionResult(INTROSPECTION);
+
+    test('createGraphQLPayload should send the variables as a JSON object', () => {
+        const content = JSON.stringify({ query: 'query($id: ID!) { user(id: $id) { name } }', variables: '{ "id": "1" }' });
+        assert.deepStrictEqual(JSON.parse(createGraphQLPayload(content)), {
+            query: 'query($id: ID!) { user(id: $id) { name } }',
+            variables: { id: '1' },
+        });
+        // Empty variables are left out
+        assert.deepStrictEqual(JSON.parse(createGraphQLPayload(JSON.stringify({ query: '{ users { id } }', variables: ' ' }))), { query: '{ users { id } }' });
+        assert.throws(() => createGraphQLPayload(JSON.stringify({ query: '{ a }', variables: '{ id: 1 }' })), /GraphQL variables are not valid JSON/);
+        assert.throws(() => createGraphQLPayload(JSON.stringify({ query: '{ a }', variables: '[1]' })), /must be a JSON object/);
+    });
+
+    test('parseGraphQLBody should take content that is no GraphQL body as the query', () => {
+        assert.deepStrictEqual(parseGraphQLBody('{ users { id } }'), { query: '{ users { id } }', variables: '' });
+        assert.deepStrictEqual(parseGraphQLBody(''), { query: '', variables: '' });
+    });
+
+    test('formatGraphQLPayload should keep variables with placeholders as written', () => {
+        const resolved = formatGraphQLPayload(JSON.stringify({ query: '{ a }', variables: '{"n":1}' }));
+        assert.strictEqual(resolved, '{\n  "query": "{ a }",\n  "variables": {\n    "n": 1\n  }\n}');
+        const unresolved = formatGraphQLPayload(JSON.stringify({ query: '{ a }', variables: '{"n": {{count}}}' }));
+        assert.strictEqual(unresolved, '{\n  "query": "{ a }",\n  "variables": {"n": {{count}}}\n}');
+    });
+
+    test('buildRequest should resolve the query and variables apart', async () => {
+        const request = createRequest('Users', 'GET', 'https://api.example.com/graphql');
+        request.body = { type: 'graphql', content: JSON.stringify({ query: '{ user(id: "{{id}}") { name } }', variables: '{"token": "{{token}}"}' }) };
+        const values: Record<string, string> = { id: '7', token: 'abc' };
+        const built = await buildRequest(request, undefined, async text => text.replace(/\{\{(\w+)\}\}/g, (_, name) => values[name]));
+
+        assert.strictEqual(built.body.type, 'graphql');
+        assert.deepStrictEqual(parseGraphQLBody(built.body.content), { query: '{ user(id: "7") { name } }', variables: '{"token": "abc"}' });
+        assert.deepStrictEqual(built.headers, [{ name: 'Content-Type', value: 'application/json', enabled: true }]);
+    });
+
+    test('parseIntrospectionResult should keep types, fields and printed type references', () => {
+        assert.strictEqual(schema.queryType, 'Query');
+        assert.strictEqual(schema.mutationType, undefined);
+        assert.deepStrictEqual(Object.keys(schema.types), ['Query', 'User', 'Role', 'ID', 'String']);
+        const users = schema.types.Query.fields.find(f => f.name === 'users')!;
+        assert.strictEqual(users.type, '[User!]!');
+        assert.strictEqual(users.typeName, 'User');
+        assert.deepStrictEqual(schema.types.Role.enumValues, ['ADMIN', 'GUEST']);
+        assert.strictEqual(schema.types.User.description, 'A person');
+
+        assert.throws(() => parseIntrospectionResult('{"errors":[{"message":"Introspection is disabled"}]}'), /Introspection failed: Introspection is disabled/);
+        assert.throws(() => parseIntrospectionResult('<html>'), /not JSON/);
+    });
+
+    test('getCompletions should offer fields of the selected type', () => {
+        assert.deepStrictEqual(labels(schema, '{ '), ['user', 'users', '__typename']);
+        assert.deepStrictEqual(labels(schema, 'query { users { na'), ['name']);
+        assert.deepStrictEqual(labels(schema, 'query { users { friends { '), ['id', 'name', 'role', 'friends', '__typename']);
+        // The cursor may sit in the middle of a finished query
+        const query = 'query {\n  user(id: "1") {\n    \n  }\n}';
+        assert.deepStrictEqual(labels(schema, query, query.indexOf('    ') + 4), ['id', 'name', 'role', 'friends', '__typename']);
+
+        const completions = getCompletions(schema, '{ users { fr', 12);
+        assert.strictEqual(completions.from, 10);
+        assert.deepStrictEqual(completions.items, [{ label: 'friends', detail: '[User]', kind: 'field' }]);
+    });
+
+    test('getCompletions should offer arguments, enum values, types and keywords', () => {
+        assert.deepStrictEqual(labels(schema, '{ users('), ['role']);
+        assert.deepStrictEqual(labels(schema, '{ users(role: '), ['ADMIN', 'GUEST']);
+        assert.deepStrictEqual(labels(schema, '{ users(role: G'), ['GUEST']);
+        assert.deepStrictEqual(labels(schema, 'fragment Parts on U'), ['User']);
+        assert.deepStrictEqual(labels(schema, ''), ['query', 'fragment']);
+        assert.deepStrictEqual(labels(schema, '{ user(id: $'), []);
+    });
+
+    test('validateQuery should report unknown fields and arguments', () => {
+        const query = '{ user(id: "1", name: "x") { nick } }';
+        assert.deepStrictEqual(validateQuery(query, schema), [
+            { message: 'Unknown argument "name" on field "Query.user"', offset: query.indexOf('name'), length: 4 },
+            { message: 'Cannot query field "nick" on type "User"', offset: query.indexOf('nick'), length: 4 },
+        ]);
+        assert.deepStrictEqual(validateQuery('query Users($role: Role) { users(role: $role) { id ...on User { name } __typename } } fragment F on User { id }', schema), []);
+    });
+
+    test('validateQuery should check selections against the field types', () => {
+        assert.deepStrictEqual(validateQuery('{ users }', schema).map(d => d.message), ['Field "users" of type "[User!]!" must have a selection of subfields']);
+        assert.deepStrictEqual(validateQuery('{ users { id { x } } }', schema).map(d => d.message), ['Field "id" must not have a selection since type "ID!" has no subfields']);
+        assert.deepStrictEqual(validateQuery('fragment F on Nope { id }', schema).map(d => d.message), ['Unknown type "Nope"']);
+        assert.deepStrictEqual(validateQuery('mutation { x }', schema).map(d => d.message), ['Schema has no mutation type']);
+    });
+
+    test('validateQuery should report syntax errors without a schema', () => {
+        assert.deepStrictEqual(validateQuery('{ users { id }', undefined), [{ message: 'Expected "}"', offset: 14, length: 0 }]);
+        assert.deepStrictEqual(validateQuery('{ a(b: "open) }').map(d => d.message), ['Unterminated string', 'Expected ")"', 'Expected "}"']);
+        assert.deepStrictEqual(validateQuery('{ a } }').map(d => d.message), ['Unexpected "}"']);
+        assert.deepStrictEqual(validateQuery('# comment\n{ unknownField(x: [1, 2], y: {z: true}) { more } }'), []);
+    });
+
+    test('HttpClient should POST the query and variables as JSON', async () => {
+        let received: { method?: string; contentType?: string; body: string } = { body: '' };
+        const server = http.createServer((req, res) => {
+            let body = '';
+            req.on('data', chunk => body += chunk);
+            req.on('end', () => {
+                received = { method: req.method, contentType: req.headers['content-type'], body };
+                res.writeHead(200, { 'Content-Type': 'application/json' });
+                res.end('{"data":{"user":{"name":"Ada"}}}');
+            });
+        });
+        await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+        try {
+            const request = createRequest('User', 'GET', `http://127.0.0.1:${(server.address() as AddressInfo).port}/graphql`);
+            request.body = { type: 'graphql', content: JSON.stringify({ query: 'query($id: ID!) { user(id: $id) { name } }', variables: '{"id": 1}' }) };
+            const response = await new HttpClient().executeRequest(request);
+
+            assert.strictEqual(response.status, 200);
+            assert.strictEqual(received.method, 'POST');
+            assert.strictEqual(received.contentType, 'application/json');
+            assert.deepStrictEqual(JSON.parse(received.body), { query: 'query($id: ID!) { user(id: $id) { name } }', variables: { id: 1 } });
+        } finally {
+            server.closeAllConnections();
+            server.close();
+        }
+    });
+});
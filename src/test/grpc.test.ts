@@ -0,0 +1,256 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as http2 from 'http2';
+import * as os from 'os';
+import * as path from 'path';
+import * as zlib from 'zlib';
+import { AddressInfo } from 'net';
+import { HttpClient } from '../http/HttpClient';
+import { encodeGrpcFrame, findUnaryMethod, getGrpcPath, GrpcFrameParser, toGrpcMetadata } from '../http/Grpc';
+import { createMessageTemplate, decodeMessage, encodeMessage, loadProtoSchema, parseProtoSchema } from '../http/Protobuf';
+import { createRequest } from '../models/Collection';
+
+const GREETER_PROTO = `
+// The greeting service
+syntax = "proto3";
+
+package demo.v1;
+
+option go_package = "example.com/demo";
+
+service Greeter {
+  option (demo.service_option) = { enabled: true };
+  rpc SayHello (HelloRequest) returns (HelloReply) {
+    option (google.api.http) = { post: "/v1/hello" body: "*" };
+  }
+  rpc Chat (stream HelloRequest) returns (stream HelloReply);
+}
+
+message HelloRequest {
+  string name = 1;
+  int32 times = 2;
+  repeated int64 ids = 3;
+  map<string, Tag> tags = 4 [json_name = "labels"];
+  Mood mood = 5;
+  oneof contact {
+    string email = 6;
+    Phone phone = 7;
+  }
+  optional bool urgent = 8;
+  sint32 delta = 9;
+  bytes payload = 10;
+
+  message Phone {
+    string number = 1;
+  }
+  reserved 11 to 15;
+}
+
+message Tag { string value = 1; }
+
+enum Mood {
+  MOOD_UNSPECIFIED = 0;
+  HAPPY = 1;
+  GRUMPY = -1;
+}
+
+message HelloReply {
+  string message = 1;
+  HelloRequest.Phone phone = 2;
+}
+`;
+
+/**
+ * A gRPC server over plaintext HTTP/2: answers SayHello with a greeting for the request's name,
+ * Fail with a trailers-only error, and everything else with 404
+ */
+function createGreeterServer(schema: ReturnType<typeof parseProtoSchema>, received: { headers?: http2.IncomingHttpHeaders }): http2.Http2Server {
+    const server = http2.createServer();
+    server.on('stream', (stream, headers) => {
+        received.headers = headers;
+        if (headers[':path'] === '/demo.v1.Greeter/Fail') {
+            stream.respond({ ':status': 200, 'content-type': 'application/grpc', 'grpc-status': '5', 'grpc-message': 'No%20such%20person' }, { endStream: true });
+            return;
+        }
+        if (headers[':path'] !== '/demo.v1.Greeter/SayHello') {
+            stream.respond({ ':status': 404 }, { endStream: true });
+            return;
+        }
+        const parser = new GrpcFrameParser();
+        const messages: Buffer[] = [];
+        stream.on('data', (chunk: Buffer) => messages.push(...parser.push(chunk)));
+        stream.on('end', () => {
+            const request = decodeMessage(schema, 'demo.v1.HelloRequest', messages[0]) as { name: string };
+            const reply = encodeMessage(schema, 'demo.v1.HelloReply', { message: `Hello ${request.name}`, phone: { number: '555' } });
+            stream.respond({ ':status': 200, 'content-type': 'application/grpc', 'x-served-by': 'test' }, { waitForTrailers: true });
+            stream.on('wantTrailers', () => stream.sendTrailers({ 'grpc-status': '0', 'x-trailer': 'done' }));
+            stream.end(encodeGrpcFrame(reply));
+        });
+    });
+    return server;
+}
+
+suite('gRPC Test Suite', () => {
+    const schema = parseProtoSchema({ 'greeter.proto': GREETER_PROTO });
+
+    test('parseProtoSchema should read messages, enums, maps, oneofs and services', () => {
+        assert.deepStrictEqual(Object.keys(schema.messages).sort(), [
+            'demo.v1.HelloReply', 'demo.v1.HelloRequest', 'demo.v1.HelloRequest.Phone', 'demo.v1.HelloRequest.TagsEntry', 'demo.v1.Tag',
+        ]);
+        const request = schema.messages['demo.v1.HelloRequest'];
+        const byName = Object.fromEntries(request.fields.map(f => [f.name, f]));
+        assert.strictEqual(byName.ids.packed, true);
+        assert.deepStrictEqual([byName.tags.map, byName.tags.jsonName, byName.tags.type], [true, 'labels', 'demo.v1.HelloRequest.TagsEntry']);
+        assert.deepStrictEqual([byName.mood.kind, byName.mood.type], ['enum', 'demo.v1.Mood']);
+        assert.deepStrictEqual([byName.phone.oneof, byName.phone.type], ['contact', 'demo.v1.HelloRequest.Phone']);
+        assert.strictEqual(byName.urgent.optional, true);
+        assert.strictEqual(schema.messages['demo.v1.HelloReply'].fields[1].type, 'demo.v1.HelloRequest.Phone');
+        assert.deepStrictEqual(schema.enums['demo.v1.Mood'].values.map(v => v.number), [0, 1, -1]);
+        assert.deepStrictEqual(schema.services['demo.v1.Greeter'].methods, [
+            { name: 'SayHello', inputType: 'demo.v1.HelloRequest', outputType: 'demo.v1.HelloReply', clientStreaming: false, serverStreaming: false },
+            { name: 'Chat', inputType: 'demo.v1.HelloRequest', outputType: 'demo.v1.HelloReply', clientStreaming: true, serverStreaming: true },
+        ]);
+    });
+
+    test('parseProtoSchema should report syntax errors and unknown types with their location', () => {
+        assert.throws(() => parseProtoSchema({ 'a.proto': 'syntax = "proto3";\nmessage A {\n  string name = ;\n}' }), /a\.proto:3:17: Expected a number, got ";"/);
+        assert.throws(() => parseProtoSchema({ 'b.proto': 'syntax = "proto3";\nmessage B {\n  Missing other = 1;\n}' }), /b\.proto:3:3: Unknown type "Missing"/);
+        assert.throws(() => parseProtoSchema({ 'c.proto': 'message C { string s = 1;' }), /Expected "}"/);
+    });
+
+    test('encodeMessage should write the wire format', () => {
+        // The encoding examples of the protobuf documentation
+        const simple = parseProtoSchema({ 'test.proto': 'syntax = "proto3"; message Test1 { int32 a = 1; } message Test2 { string b = 2; } message Test4 { repeated int32 d = 4; }' });
+        assert.strictEqual(encodeMessage(simple, 'Test1', { a: 150 }).toString('hex'), '089601');
+        assert.strictEqual(encodeMessage(simple, 'Test2', { b: 'testing' }).toString('hex'), '120774657374696e67');
+        assert.strictEqual(encodeMessage(simple, 'Test4', { d: [3, 270, 86942] }).toString('hex'), '2206038e029ea705');
+        // Negative int32 values take ten bytes, sint32 values are zigzag encoded
+        assert.strictEqual(encodeMessage(schema, 'demo.v1.HelloRequest', { times: -1 }).toString('hex'), '10ffffffffffffffffff01');
+        assert.strictEqual(encodeMessage(schema, 'demo.v1.HelloRequest', { delta: -2 }).toString('hex'), '4803');
+    });
+
+    test('decodeMessage should return the JSON mapping with defaults', () => {
+        const message = {
+            name: 'Ada',
+            times: 3,
+            ids: ['9007199254740993', '-5'],
+            labels: { team: { value: 'core' } },
+            mood: 'GRUMPY',
+            phone: { number: '555' },
+            urgent: true,
+            delta: -7,
+            payload: Buffer.from('hi').toString('base64'),
+        };
+        assert.deepStrictEqual(decodeMessage(schema, 'demo.v1.HelloRequest', encodeMessage(schema, 'demo.v1.HelloRequest', message)), message);
+        // Proto field names are accepted too; absent fields decode as defaults, oneofs and optionals stay absent
+        assert.deepStrictEqual(decodeMessage(schema, 'demo.v1.HelloRequest', encodeMessage(schema, 'demo.v1.HelloRequest', { tags: {}, email: 'a@b.c' })), {
+            email: 'a@b.c', name: '', times: 0, ids: [], labels: {}, mood: 'MOOD_UNSPECIFIED', delta: 0, payload: '',
+        });
+    });
+
+    test('encodeMessage should reject unknown fields and values of the wrong type', () => {
+        assert.throws(() => encodeMessage(schema, 'demo.v1.HelloRequest', { nickname: 'x' }), /Unknown field "nickname" in message demo\.v1\.HelloRequest/);
+        assert.throws(() => encodeMessage(schema, 'demo.v1.HelloRequest', { times: 'three' }), /field "times" of demo\.v1\.HelloRequest: expected an integer \(int32\), got "three"/);
+        assert.throws(() => encodeMessage(schema, 'demo.v1.HelloRequest', { times: 2 ** 31 }), /expected a value between -2147483648 and 2147483647 \(int32\)/);
+        assert.throws(() => encodeMessage(schema, 'demo.v1.HelloRequest', { mood: 'SAD' }), /expected one of MOOD_UNSPECIFIED, HAPPY, GRUMPY/);
+        assert.throws(() => encodeMessage(schema, 'demo.v1.HelloRequest', { ids: 1 }), /expected an array/);
+    });
+
+    test('well-known types should use their JSON representations', () => {
+        const wkt = parseProtoSchema({
+            'google/protobuf/timestamp.proto': 'syntax = "proto3"; package google.protobuf; message Timestamp { int64 seconds = 1; int32 nanos = 2; }',
+            'event.proto': `syntax = "proto3";
+                import "google/protobuf/timestamp.proto";
+                message Event { google.protobuf.Timestamp at = 1; }`,
+        });
+        const event = { at: '2024-03-01T12:30:00.250Z' };
+        assert.deepStrictEqual(decodeMessage(wkt, 'Event', encodeMessage(wkt, 'Event', event)), event);
+        assert.deepStrictEqual(decodeMessage(wkt, 'Event', encodeMessage(wkt, 'Event', { at: '2024-03-01T13:30:00+01:00' })), { at: '2024-03-01T12:30:00Z' });
+        assert.throws(() => encodeMessage(wkt, 'Event', { at: 'yesterday' }), /Invalid Timestamp "yesterday"/);
+    });
+
+    test('loadProtoSchema should resolve imports from the import paths and built-in well-known types', async () => {
+        const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'endpoint-proto-'));
+        try {
+            fs.mkdirSync(path.join(dir, 'common'));
+            fs.writeFileSync(path.join(dir, 'common', 'money.proto'), 'syntax = "proto3"; package common; message Money { string currency = 1; int64 units = 2; }');
+            fs.writeFileSync(path.join(dir, 'shop.proto'), [
+                'syntax = "proto3";',
+                'import "common/money.proto";',
+                'import "google/protobuf/struct.proto";',
+                'import "google/protobuf/duration.proto";',
+                'message Order { common.Money total = 1; google.protobuf.Struct extra = 2; google.protobuf.Duration wait = 3; }',
+            ].join('\n'));
+
+            const loaded = await loadProtoSchema(path.join(dir, 'shop.proto'), [dir]);
+            const order = { total: { currency: 'EUR', units: '12' }, extra: { gift: true, tags: ['a', null], note: { n: 1.5 } }, wait: '1.500s' };
+            assert.deepStrictEqual(decodeMessage(loaded, 'Order', encodeMessage(loaded, 'Order', order)), order);
+            assert.deepStrictEqual(createMessageTemplate(loaded, 'Order'), { total: { currency: '', units: '0' }, extra: {}, wait: '0s' });
+
+            fs.writeFileSync(path.join(dir, 'broken.proto'), 'syntax = "proto3"; import "missing.proto";');
+            await assert.rejects(loadProtoSchema(path.join(dir, 'broken.proto'), [dir]), /Import not found: missing\.proto/);
+        } finally {
+            fs.rmSync(dir, { recursive: true, force: true });
+        }
+    });
+
+    test('createMessageTemplate should fill every field with its default', () => {
+        assert.deepStrictEqual(createMessageTemplate(schema, 'demo.v1.HelloRequest'), {
+            name: '', times: 0, ids: [], labels: {}, mood: 'MOOD_UNSPECIFIED', email: '', urgent: false, delta: 0, payload: '',
+        });
+    });
+
+    test('GrpcFrameParser should split messages across chunks and inflate compressed ones', () => {
+        const bytes = Buffer.concat([encodeGrpcFrame(Buffer.from('one')), encodeGrpcFrame(Buffer.alloc(0))]);
+        const parser = new GrpcFrameParser();
+        const messages = [...parser.push(bytes.subarray(0, 6)), ...parser.push(bytes.subarray(6))];
+        assert.deepStrictEqual(messages.map(m => m.toString()), ['one', '']);
+        assert.strictEqual(parser.pending, 0);
+
+        const gzipped = zlib.gzipSync(Buffer.from('packed'));
+        const frame = Buffer.concat([Buffer.from([1, 0, 0, 0, gzipped.length]), gzipped]);
+        assert.deepStrictEqual(new GrpcFrameParser('gzip').push(frame).map(m => m.toString()), ['packed']);
+        assert.throws(() => new GrpcFrameParser('snappy').push(frame), /unsupported grpc-encoding "snappy"/);
+    });
+
+    test('findUnaryMethod and toGrpcMetadata should prepare a call', () => {
+        assert.strictEqual(findUnaryMethod(schema, 'demo.v1.Greeter', 'SayHello').method.outputType, 'demo.v1.HelloReply');
+        assert.throws(() => findUnaryMethod(schema, 'demo.v1.Greeter', 'Chat'), /streaming method/);
+        assert.throws(() => findUnaryMethod(schema, 'demo.v1.Nope', 'SayHello'), /Service "demo\.v1\.Nope" is not defined/);
+        assert.deepStrictEqual(toGrpcMetadata({ 'Authorization': 'Bearer t', 'Content-Type': 'application/json', 'X-Trace-Bin': 'AQI=' }), {
+            'authorization': 'Bearer t', 'x-trace-bin': 'AQI=',
+        });
+    });
+
+    test('invokeGrpc should make unary calls and return status, headers and trailers', async () => {
+        const received: { headers?: http2.IncomingHttpHeaders } = {};
+        const server = createGreeterServer(schema, received);
+        await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+        try {
+            const client = new HttpClient();
+            const request = createRequest('Greet', 'POST', `grpc://127.0.0.1:${(server.address() as AddressInfo).port}`);
+            request.headers = [{ name: 'Authorization', value: 'Bearer abc', enabled: true }, { name: 'X-Off', value: '1', enabled: false }];
+
+            const message = encodeMessage(schema, 'demo.v1.HelloRequest', { name: 'Ada' });
+            const response = await client.invokeGrpc(request, getGrpcPath('demo.v1.Greeter', 'SayHello'), message);
+            assert.strictEqual(response.status, 0);
+            assert.deepStrictEqual(decodeMessage(schema, 'demo.v1.HelloReply', response.message!), { message: 'Hello Ada', phone: { number: '555' } });
+            assert.strictEqual(response.headers['x-served-by'], 'test');
+            assert.deepStrictEqual(response.trailers, { 'grpc-status': '0', 'x-trailer': 'done' });
+            assert.strictEqual(received.headers?.['content-type'], 'application/grpc');
+            assert.strictEqual(received.headers?.te, 'trailers');
+            assert.strictEqual(received.headers?.authorization, 'Bearer abc');
+            assert.strictEqual(received.headers?.['x-off'], undefined);
+
+            const failed = await client.invokeGrpc(request, getGrpcPath('demo.v1.Greeter', 'Fail'), message);
+            assert.deepStrictEqual([failed.status, failed.statusMessage, failed.message], [5, 'No such person', undefined]);
+            const missing = await client.invokeGrpc(request, getGrpcPath('demo.v1.Other', 'Call'), message);
+            assert.deepStrictEqual([missing.status, missing.statusMessage, missing.httpStatus], [12, 'HTTP 404', 404]);
+
+            await assert.rejects(client.invokeGrpc(createRequest('Bad', 'POST', 'ws://localhost'), '/a/b', message), /gRPC URLs start with/);
+            client.closeSessions();
+        } finally {
+            server.close();
+        }
+    });
+});
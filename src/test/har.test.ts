@@ -0,0 +1,202 @@
+import * as assert from 'assert';
+import { getHarDomains, harToRequests, parseHarLog, serializeToHar } from '../parser/HarParser';
+import { HistoryItem } from '../models/HistoryItem';
+
+function entry(method: string, url: string, extra: Record<string, unknown> = {}) {
+    return {
+        startedDateTime: '2026-01-01T00:00:00.000Z',
+        time: 10,
+        request: { method, url, httpVersion: 'http/2.0', cookies: [], headers: [], queryString: [], headersSize: -1, bodySize: 0 },
+        response: {
+            status: 200, statusText: '', httpVersion: 'http/2.0', cookies: [], headers: [],
+            content: { size: 0, mimeType: 'application/json' }, redirectURL: '', headersSize: -1, bodySize: -1,
+        },
+        cache: {},
+        timings: { blocked: -1, dns: -1, connect: -1, send: 0, wait: 10, receive: 0, ssl: -1 },
+        ...extra,
+    };
+}
+
+const CAPTURE = JSON.stringify({
+    log: {
+        version: '1.2',
+        creator: { name: 'WebInspector', version: '537.36' },
+        entries: [
+            entry('GET', 'https://app.example.com/', { _resourceType: 'document' }),
+            entry('GET', 'https://app.example.com/main.js', { _resourceType: 'script' }),
+            entry('GET', 'https://cdn.example.net/logo.png', {
+                response: { status: 200, statusText: '', httpVersion: '', cookies: [], headers: [], content: { size: 1, mimeType: 'image/png' }, redirectURL: '', headersSize: -1, bodySize: -1 },
+            }),
+            entry('GET', 'https://api.example.com/users?page=1', {
+                _resourceType: 'fetch',
+                request: {
+                    method: 'GET', url: 'https://api.example.com/users?page=1', httpVersion: 'http/2.0', cookies: [], queryString: [], headersSize: -1, bodySize: 0,
+                    headers: [
+                        { name: ':authority', value: 'api.example.com' },
+                        { name: 'accept', value: 'application/json' },
+                        { name: 'cookie', value: 'session=abc' },
+                    ],
+                },
+            }),
+            entry('GET', 'https://api.example.com/users?page=1#top', { _resourceType: 'fetch' }),
+            entry('GET', 'https://api.example.com/users?page=2', { _resourceType: 'xhr' }),
+            entry('OPTIONS', 'https://api.example.com/users', { _resourceType: 'preflight' }),
+            entry('POST', 'https://api.example.com/users', {
+                _resourceType: 'fetch',
+                request: {
+                    method: 'POST', url: 'https://api.example.com/users', httpVersion: 'http/2.0', cookies: [], queryString: [], headersSize: -1, bodySize: 14,
+                    headers: [{ name: 'content-type', value: 'application/json' }],
+                    postData: { mimeType: 'application/json', text: '{"name":"Ada"}' },
+                },
+            }),
+            entry('POST', 'https://api.example.com/login', {
+                request: {
+                    method: 'POST', url: 'https://api.example.com/login', httpVersion: 'http/2.0', cookies: [], queryString: [], headersSize: -1, bodySize: 20,
+                    headers: [],
+                    postData: { mimeType: 'application/x-www-form-urlencoded', text: 'user=ada&pass=s%26cret' },
+                },
+            }),
+            entry('POST', 'https://api.example.com/upload', {
+                request: {
+                    method: 'POST', url: 'https://api.example.com/upload', httpVersion: 'http/2.0', cookies: [], queryString: [], headersSize: -1, bodySize: -1,
+                    headers: [{ name: 'Content-Type', value: 'multipart/form-data; boundary=----b' }],
+                    postData: {
+                        mimeType: 'multipart/form-data; boundary=----b',
+                        text: '------b\r\nContent-Disposition: form-data; name="title"\r\n\r\nHoliday\r\n'
+                            + '------b\r\nContent-Disposition: form-data; name="photo"; filename="a.jpg"\r\nContent-Type: image/jpeg\r\n\r\n\r\n------b--\r\n',
+                    },
+                },
+            }),
+            entry('CONNECT', 'https://api.example.com/tunnel'),
+        ],
+    },
+});
+
+function historyItem(overrides: Partial<HistoryItem> = {}): HistoryItem {
+    return {
+        id: 'h1',
+        method: 'POST',
+        url: 'https://api.example.com/login?api_key=abc&page=2',
+        headers: [
+            { name: 'Authorization', value: 'Bearer secret', enabled: true },
+            { name: 'Content-Type', value: 'application/json', enabled: true },
+        ],
+        body: { type: 'json', content: '{"user":"ada","password":"hunter2"}' },
+        statusCode: 200,
+        statusText: 'OK',
+        responseTime: 120,
+        timestamp: Date.UTC(2026, 0, 1, 12),
+        responseBody: '{"token":"xyz","id":1}',
+        responseHeaders: [
+            { name: 'Content-Type', value: 'application/json', enabled: true },
+            { name: 'Set-Cookie', value: 'session=1; Path=/; Expires=Wed, 21 Oct 2026 07:28:00 GMT, theme=dark', enabled: true },
+        ],
+        timings: { dns: 5, tcp: 10, tls: 20, ttfb: 60, download: 25, total: 120 },
+        ...overrides,
+    };
+}
+
+suite('HAR Test Suite', () => {
+
+    suite('Import', () => {
+        test('should list domains of API calls, most requests first', () => {
+            const log = parseHarLog(CAPTURE);
+            assert.deepStrictEqual(getHarDomains(log), [
+                { domain: 'api.example.com', count: 7 },
+                { domain: 'app.example.com', count: 1 },
+            ]);
+        });
+
+        test('should skip page assets and duplicates', () => {
+            const result = harToRequests(parseHarLog(CAPTURE));
+            assert.deepStrictEqual(result.requests.map(r => r.name), [
+                'GET /',
+                'GET /users',
+                'GET /users (2)',
+                'POST /users',
+                'POST /login',
+                'POST /upload',
+            ]);
+            assert.deepStrictEqual(result.warnings, [
+                'CONNECT https://api.example.com/tunnel was skipped - the CONNECT method is not supported',
+                'Cookie headers were not imported - cookies are sent from the cookie jar of the active environment',
+                '3 page asset request(s) were skipped - scripts, styles, images, fonts and CORS preflights',
+                '1 duplicate request(s) were skipped',
+            ]);
+        });
+
+        test('should filter by domain', () => {
+            const result = harToRequests(parseHarLog(CAPTURE), { domains: ['API.example.com'] });
+            assert.ok(result.requests.every(r => r.url.startsWith('https://api.example.com/')));
+            assert.strictEqual(result.requests.length, 5);
+        });
+
+        test('should keep headers and bodies', () => {
+            const [, list, , create, login, upload] = harToRequests(parseHarLog(CAPTURE)).requests;
+            assert.strictEqual(list.url, 'https://api.example.com/users?page=1');
+            // Pseudo-headers and cookies are left out
+            assert.deepStrictEqual(list.headers, [{ name: 'accept', value: 'application/json', enabled: true }]);
+            assert.deepStrictEqual(create.body, { type: 'json', content: '{\n  "name": "Ada"\n}' });
+            assert.deepStrictEqual(JSON.parse(login.body.content), [
+                { key: 'user', value: 'ada', enabled: true },
+                { key: 'pass', value: 's&cret', enabled: true },
+            ]);
+            assert.strictEqual(upload.body.type, 'multipart');
+            assert.deepStrictEqual(upload.headers, []);
+            assert.deepStrictEqual(JSON.parse(upload.body.content), [
+                { key: 'title', value: 'Holiday', enabled: true, type: 'text' },
+                { key: 'photo', value: '', enabled: true, type: 'file', contentType: 'image/jpeg' },
+            ]);
+        });
+
+        test('should reject other files', () => {
+            assert.throws(() => parseHarLog('not json'), /Invalid JSON/);
+            assert.throws(() => parseHarLog('{"info": {}}'), /Not a HAR file/);
+        });
+    });
+
+    suite('Export', () => {
+        test('should write a HAR 1.2 log, oldest first', () => {
+            const older = historyItem({ id: 'h0', timestamp: Date.UTC(2026, 0, 1, 11), method: 'GET', body: { type: 'none', content: '' } });
+            const har = JSON.parse(serializeToHar([historyItem(), older], { name: 'Endpoint', version: '1.0.0' }));
+            assert.strictEqual(har.log.version, '1.2');
+            assert.deepStrictEqual(har.log.creator, { name: 'Endpoint', version: '1.0.0' });
+            assert.deepStrictEqual(har.log.entries.map((e: { request: { method: string } }) => e.request.method), ['GET', 'POST']);
+            assert.strictEqual(har.log.entries[1].startedDateTime, '2026-01-01T12:00:00.000Z');
+            assert.strictEqual(har.log.entries[0].request.postData, undefined);
+        });
+
+        test('should sanitize requests and responses', () => {
+            const [entry] = JSON.parse(serializeToHar([historyItem()], { name: 'Endpoint', version: '1.0.0' })).log.entries;
+            assert.strictEqual(entry.request.url, 'https://api.example.com/login?api_key=***&page=2');
+            assert.deepStrictEqual(entry.request.queryString, [{ name: 'api_key', value: '***' }, { name: 'page', value: '2' }]);
+            assert.deepStrictEqual(entry.request.headers, [
+                { name: 'Authorization', value: '***' },
+                { name: 'Content-Type', value: 'application/json' },
+            ]);
+            assert.deepStrictEqual(JSON.parse(entry.request.postData.text), { user: 'ada', password: '***' });
+            assert.strictEqual(entry.request.postData.mimeType, 'application/json');
+            assert.deepStrictEqual(JSON.parse(entry.response.content.text), { token: '***', id: 1 });
+            assert.deepStrictEqual(entry.response.cookies, [{ name: 'session', value: '1' }, { name: 'theme', value: 'dark' }]);
+        });
+
+        test('should map timings', () => {
+            const [measured, estimated] = JSON.parse(serializeToHar([
+                historyItem(),
+                historyItem({ id: 'h2', timestamp: Date.UTC(2026, 0, 1, 13), timings: undefined, responseBody: undefined }),
+            ], { name: 'Endpoint', version: '1.0.0' })).log.entries;
+            assert.strictEqual(measured.time, 120);
+            assert.deepStrictEqual(measured.timings, { blocked: -1, dns: 5, connect: 30, send: 0, wait: 60, receive: 25, ssl: 20 });
+            assert.deepStrictEqual(estimated.timings, { blocked: -1, dns: -1, connect: -1, send: 0, wait: 120, receive: 0, ssl: -1 });
+            assert.strictEqual(estimated.response.content.size, -1);
+        });
+
+        test('should import an exported log again', () => {
+            const har = serializeToHar([historyItem()], { name: 'Endpoint', version: '1.0.0' });
+            const [request] = harToRequests(parseHarLog(har)).requests;
+            assert.strictEqual(request.name, 'POST /login');
+            assert.strictEqual(request.body.type, 'json');
+            assert.deepStrictEqual(JSON.parse(request.body.content), { user: 'ada', password: '***' });
+        });
+    });
+});
@@ -0,0 +1,116 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as http from 'http';
+import * as os from 'os';
+import * as path from 'path';
+import { AddressInfo } from 'net';
+import { HttpClient } from '../http/HttpClient';
+import { buildRequest } from '../http/RequestBuilder';
+import { createMultipartBody, getBoundary, guessContentType, parseMultipartFields } from '../http/Multipart';
+import { createRequest, MultipartField } from '../models/Collection';
+
+async function readStream(stream: NodeJS.ReadableStream): Promise<string> {
+    const chunks: Buffer[] = [];
+    for await (const chunk of stream) {
+        chunks.push(Buffer.from(chunk));
+    }
+    return Buffer.concat(chunks).toString('utf8');
+}
+
+suite('Multipart Test Suite', () => {
+    let dir: string;
+
+    suiteSetup(() => {
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), 'endpoint-multipart-'));
+        fs.writeFileSync(path.join(dir, 'notes.txt'), 'file contents');
+    });
+
+    suiteTeardown(() => {
+        fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    test('createMultipartBody should write text and file parts', async () => {
+        const fields: MultipartField[] = [
+            { key: 'title', value: 'Hello', enabled: true, type: 'text' },
+            { key: 'ignored', value: 'x', enabled: false, type: 'text' },
+            { key: 'doc', value: 'notes.txt', enabled: true, type: 'file' },
+            { key: 'meta', value: '{}', enabled: true, type: 'text', contentType: 'application/json' },
+        ];
+        const body = await createMultipartBody(fields, file => path.join(dir, file), 'XYZ');
+        const content = await readStream(body.createStream());
+
+        assert.strictEqual(body.contentType, 'multipart/form-data; boundary=XYZ');
+        assert.strictEqual(content, [
+            '--XYZ',
+            'Content-Disposition: form-data; name="title"',
+            '',
+            'Hello',
+            '--XYZ',
+            'Content-Disposition: form-data; name="doc"; filename="notes.txt"',
+            'Content-Type: text/plain',
+            '',
+            'file contents',
+            '--XYZ',
+            'Content-Disposition: form-data; name="meta"',
+            'Content-Type: application/json',
+            '',
+            '{}',
+            '--XYZ--',
+            '',
+        ].join('\r\n'));
+        assert.strictEqual(body.length, Buffer.byteLength(content));
+    });
+
+    test('createMultipartBody should fail for a missing file before sending', async () => {
+        await assert.rejects(
+            createMultipartBody([{ key: 'doc', value: 'missing.txt', enabled: true, type: 'file' }], file => path.join(dir, file)),
+            /File not found for multipart field "doc": missing.txt/
+        );
+    });
+
+    test('helpers should read boundaries, content types and stored fields', () => {
+        assert.strictEqual(getBoundary('multipart/form-data; boundary=abc'), 'abc');
+        assert.strictEqual(getBoundary('multipart/form-data; boundary="a b"'), 'a b');
+        assert.strictEqual(getBoundary('multipart/form-data'), undefined);
+        assert.strictEqual(guessContentType('photo.JPG'), 'image/jpeg');
+        assert.strictEqual(guessContentType('archive.bin'), 'application/octet-stream');
+        assert.deepStrictEqual(parseMultipartFields('[{"key":"a","value":"1","enabled":true}]'), [{ key: 'a', value: '1', enabled: true, type: 'text' }]);
+        assert.deepStrictEqual(parseMultipartFields('not json'), []);
+    });
+
+    test('HttpClient should stream a built multipart request', async () => {
+        let received: { contentType?: string; contentLength?: string; body: string } | undefined;
+        const server = http.createServer(async (req, res) => {
+            received = { contentType: req.headers['content-type'], contentLength: req.headers['content-length'], body: await readStream(req) };
+            res.end('ok');
+        });
+        await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+        try {
+            const request = createRequest('Upload', 'POST', `http://127.0.0.1:${(server.address() as AddressInfo).port}/upload`);
+            request.headers = [{ name: 'Content-Type', value: 'multipart/form-data', enabled: true }];
+            request.body = {
+                type: 'multipart',
+                content: JSON.stringify([
+                    { key: 'name', value: '{{NAME}}', enabled: true, type: 'text' },
+                    { key: 'file', value: '{{FILE}}', enabled: true, type: 'file' },
+                ]),
+            };
+            const variables: Record<string, string> = { NAME: 'Ada "Lovelace"', FILE: 'notes.txt' };
+            const built = await buildRequest(request, undefined, async text => text.replace(/\{\{(\w+)\}\}/g, (_, name) => variables[name]));
+
+            const client = new HttpClient({ resolveFilePath: file => path.join(dir, file) });
+            const response = await client.executeRequest(built);
+
+            assert.strictEqual(response.status, 200);
+            const boundary = getBoundary(received!.contentType);
+            assert.ok(boundary, `Content-Type should carry a boundary: ${received!.contentType}`);
+            assert.strictEqual(Number(received!.contentLength), Buffer.byteLength(received!.body));
+            assert.ok(received!.body.includes(`name="name"\r\n\r\nAda "Lovelace"\r\n--${boundary}`));
+            assert.ok(received!.body.includes('filename="notes.txt"\r\nContent-Type: text/plain\r\n\r\nfile contents\r\n'));
+            assert.ok(received!.body.endsWith(`--${boundary}--\r\n`));
+        } finally {
+            server.closeAllConnections();
+            server.close();
+        }
+    });
+});
@@ -0,0 +1,309 @@
+import * as assert from 'assert';
+import * as http from 'http';
+import { createHash } from 'crypto';
+import { AddressInfo } from 'net';
+import { HttpClient } from '../http/HttpClient';
+import { OAuth2TokenProvider, MemoryTokenStore, parseTokenResponse, isTokenExpired, getTokenCacheKey } from '../http/OAuth2';
+import { buildRequest } from '../http/RequestBuilder';
+import { buildAuthorizationUrl, createPkcePair, startLoopbackListener } from '../http/OAuth2Loopback';
+import { HttpResponse } from '../http/ResponseContentProvider';
+import { AuthConfig, Request, createRequest } from '../models/Collection';
+import { resolveVariables } from '../parser/VariableResolver';
+
+function tokenResponse(body: object, status: number = 200): HttpResponse {
+    const text = JSON.stringify(body);
+    return { status, statusText: String(status), headers: { 'content-type': 'application/json' }, body: text, time: 1, size: text.length };
+}
+
+/**
+ * Fake token endpoint that returns queued responses and records the requests
+ */
+class FakeTokenEndpoint {
+    public sent: Request[] = [];
+
+    constructor(private responses: HttpResponse[]) { }
+
+    async executeRequest(request: Request): Promise<HttpResponse> {
+        this.sent.push(request);
+        const response = this.responses.shift();
+        if (!response) {
+            throw new Error('Unexpected token request');
+        }
+        return response;
+    }
+
+    params(index: number): Record<string, string> {
+        return Object.fromEntries(new URLSearchParams(this.sent[index].body.content));
+    }
+}
+
+/**
+ * Local stand-in authorization server: /authorize redirects straight back with a code,
+ * /token exchanges it after checking the PKCE verifier
+ */
+class FakeAuthorizationServer {
+    public tokenRequests: Record<string, string>[] = [];
+    private challenges = new Map<string, string>();
+    private server = http.createServer((req, res) => this.handle(req, res));
+
+    get origin(): string {
+        return `http://127.0.0.1:${(this.server.address() as AddressInfo).port}`;
+    }
+
+    async start(): Promise<void> {
+        await new Promise<void>(resolve => this.server.listen(0, '127.0.0.1', resolve));
+    }
+
+    close(): void {
+        this.server.close();
+    }
+
+    /**
+     * Plays the browser: follows the authorization URL and its redirect back to the loopback listener
+     */
+    openBrowser = async (url: string): Promise<void> => {
+        const location = await new Promise<string>((resolve, reject) => {
+            http.get(url, res => {
+                res.resume();
+                resolve(res.headers.location || '');
+            }).on('error', reject);
+        });
+        await new Promise<void>((resolve, reject) => {
+            http.get(location, res => res.resume().on('end', resolve)).on('error', reject);
+        });
+    };
+
+    private handle(req: http.IncomingMessage, res: http.ServerResponse): void {
+        const url = new URL(req.url || '/', this.origin);
+        if (url.pathname === '/authorize') {
+            const code = `code-${this.challenges.size + 1}`;
+            this.challenges.set(code, url.searchParams.get('code_challenge') || '');
+            const redirect = new URL(url.searchParams.get('redirect_uri')!);
+            redirect.searchParams.set('code', code);
+            redirect.searchParams.set('state', url.searchParams.get('state')!);
+            res.writeHead(302, { Location: redirect.toString() }).end();
+            return;
+        }
+
+        let body = '';
+        req.on('data', chunk => body += chunk);
+        req.on('end', () => {
+            const params = Object.fromEntries(new URLSearchParams(body));
+            this.tokenRequests.push(params);
+            const challenge = createHash('sha256').update(params.code_verifier || '').digest('base64url');
+            const valid = this.challenges.get(params.code) === challenge;
+            res.writeHead(valid ? 200 : 400, { 'Content-Type': 'application/json' });
+            res.end(JSON.stringify(valid
+                ? { access_token: `at-${params.code}`, token_type: 'Bearer', expires_in: 3600, refresh_token: 'rt-1' }
+                : { error: 'invalid_grant' }));
+        });
+    }
+}
+
+suite('OAuth2 Test Suite', () => {
+    const clientCredentials: AuthConfig = {
+        type: 'oauth2',
+        grantType: 'client_credentials',
+        tokenUrl: 'https://idp.test/token',
+        clientId: 'app',
+        clientSecret: 's3cret',
+        scope: 'read write',
+    };
+
+    test('should request client credentials tokens with a Basic client header', async () => {
+        const endpoint = new FakeTokenEndpoint([tokenResponse({ access_token: 'at-1', token_type: 'bearer', expires_in: 3600 })]);
+        const provider = new OAuth2TokenProvider(endpoint);
+
+        const header = await provider.getAuthorizationHeader(clientCredentials, async text => text);
+
+        assert.strictEqual(header, 'Bearer at-1');
+        assert.strictEqual(endpoint.sent[0].method, 'POST');
+        assert.strictEqual(endpoint.sent[0].url, 'https://idp.test/token');
+        assert.deepStrictEqual(endpoint.params(0), { grant_type: 'client_credentials', scope: 'read write' });
+        const authorization = endpoint.sent[0].headers.find(h => h.name === 'Authorization');
+        assert.strictEqual(authorization?.value, `Basic ${Buffer.from('app:s3cret').toString('base64')}`);
+    });
+
+    test('should send password grant credentials and client credentials in the body', async () => {
+        const endpoint = new FakeTokenEndpoint([tokenResponse({ access_token: 'at-1' })]);
+        const provider = new OAuth2TokenProvider(endpoint);
+        const variables = { user: 'ann', pass: 'pw' };
+
+        await provider.getAuthorizationHeader(
+            { ...clientCredentials, grantType: 'password', clientAuth: 'body', username: '{{user}}', password: '{{pass}}', scope: undefined, audience: 'api://x' },
+            async text => resolveVariables(text, variables)
+        );
+
+        assert.deepStrictEqual(endpoint.params(0), {
+            grant_type: 'password', username: 'ann', password: 'pw', audience: 'api://x', client_id: 'app', client_secret: 's3cret'
+        });
+        assert.ok(!endpoint.sent[0].headers.some(h => h.name === 'Authorization'));
+    });
+
+    test('should reuse cached tokens until they expire', async () => {
+        const endpoint = new FakeTokenEndpoint([tokenResponse({ access_token: 'at-1', expires_in: 3600 })]);
+        const store = new MemoryTokenStore();
+
+        const first = await new OAuth2TokenProvider(endpoint, store).getToken(clientCredentials);
+        const second = await new OAuth2TokenProvider(endpoint, store).getToken(clientCredentials);
+
+        assert.strictEqual(second.accessToken, first.accessToken);
+        assert.strictEqual(endpoint.sent.length, 1);
+    });
+
+    test('should cache tokens per collection', async () => {
+        const endpoint = new FakeTokenEndpoint([
+            tokenResponse({ access_token: 'at-a', expires_in: 3600 }),
+            tokenResponse({ access_token: 'at-b', expires_in: 3600 }),
+        ]);
+        const provider = new OAuth2TokenProvider(endpoint);
+        const resolve = async (text: string) => text;
+
+        assert.strictEqual(await provider.getAuthorizationHeader(clientCredentials, resolve, 'collection-a'), 'Bearer at-a');
+        assert.strictEqual(await provider.getAuthorizationHeader(clientCredentials, resolve, 'collection-b'), 'Bearer at-b');
+
+        // Signing out of one collection keeps the other's token
+        await provider.clearToken(clientCredentials, resolve, 'collection-b');
+        assert.ok(await provider.hasCachedToken(clientCredentials, resolve, 'collection-a'));
+        assert.ok(!(await provider.hasCachedToken(clientCredentials, resolve, 'collection-b')));
+        assert.strictEqual(await provider.getAuthorizationHeader(clientCredentials, resolve, 'collection-a'), 'Bearer at-a');
+        assert.strictEqual(endpoint.sent.length, 2);
+    });
+
+    test('should refresh expired tokens and fall back to the grant when refresh fails', async () => {
+        const store = new MemoryTokenStore();
+        const key = getTokenCacheKey(clientCredentials);
+        await store.store(key, JSON.stringify({ accessToken: 'old', tokenType: 'Bearer', expiresAt: Date.now() - 1000, refreshToken: 'rt-1' }));
+
+        const refreshing = new FakeTokenEndpoint([tokenResponse({ access_token: 'at-2', expires_in: 60 })]);
+        const refreshed = await new OAuth2TokenProvider(refreshing, store).getToken(clientCredentials);
+        assert.deepStrictEqual(refreshing.params(0), { grant_type: 'refresh_token', refresh_token: 'rt-1', scope: 'read write' });
+        assert.strictEqual(refreshed.accessToken, 'at-2');
+        assert.strictEqual(refreshed.refreshToken, 'rt-1', 'previous refresh token is kept when none is returned');
+
+        await store.store(key, JSON.stringify({ ...refreshed, expiresAt: Date.now() - 1000 }));
+        const failing = new FakeTokenEndpoint([
+            tokenResponse({ error: 'invalid_grant' }, 400),
+            tokenResponse({ access_token: 'at-3' }),
+        ]);
+        const renewed = await new OAuth2TokenProvider(failing, store).getToken(clientCredentials);
+        assert.strictEqual(failing.params(1).grant_type, 'client_credentials');
+        assert.strictEqual(renewed.accessToken, 'at-3');
+    });
+
+    test('should report token endpoint errors', () => {
+        assert.throws(
+            () => parseTokenResponse(tokenResponse({ error: 'invalid_client', error_description: 'Bad secret' }, 401)),
+            /Bad secret/
+        );
+        const formResponse: HttpResponse = { ...tokenResponse({}), headers: { 'Content-Type': 'application/x-www-form-urlencoded' }, body: 'access_token=abc&token_type=bearer' };
+        assert.strictEqual(parseTokenResponse(formResponse).accessToken, 'abc');
+    });
+
+    test('isTokenExpired should renew shortly before expiry', () => {
+        const now = 1_000_000;
+        assert.strictEqual(isTokenExpired({ accessToken: 'a', tokenType: 'Bearer', expiresAt: now + 10_000 }, now), true);
+        assert.strictEqual(isTokenExpired({ accessToken: 'a', tokenType: 'Bearer', expiresAt: now + 120_000 }, now), false);
+        assert.strictEqual(isTokenExpired({ accessToken: 'a', tokenType: 'Bearer' }, now), false);
+    });
+
+    test('buildRequest should add the token for inherited oauth2 auth', async () => {
+        const endpoint = new FakeTokenEndpoint([tokenResponse({ access_token: 'at-1' })]);
+        const provider = new OAuth2TokenProvider(endpoint);
+        const request = createRequest('Get', 'GET', 'https://api.test/items');
+
+        const built = await buildRequest(request, {
+            id: 'c', name: 'API', requests: [request], defaultAuth: clientCredentials, createdAt: 0, updatedAt: 0
+        }, async text => text, provider);
+
+        assert.deepStrictEqual(built.headers, [{ name: 'Authorization', value: 'Bearer at-1', enabled: true }]);
+        await assert.rejects(buildRequest({ ...request, auth: clientCredentials }, undefined, async text => text), /not available/);
+    });
+
+    suite('Authorization Code with PKCE', () => {
+        let server: FakeAuthorizationServer;
+        let authorizationCode: AuthConfig;
+
+        setup(async () => {
+            server = new FakeAuthorizationServer();
+            await server.start();
+            authorizationCode = {
+                type: 'oauth2',
+                grantType: 'authorization_code',
+                authUrl: `${server.origin}/authorize`,
+                tokenUrl: `${server.origin}/token`,
+                clientId: 'public-app',
+                scope: 'openid',
+            };
+        });
+
+        teardown(() => server.close());
+
+        test('createPkcePair should derive an S256 challenge', () => {
+            const pkce = createPkcePair();
+            assert.match(pkce.verifier, /^[A-Za-z0-9_-]{43}$/);
+            assert.strictEqual(pkce.challenge, createHash('sha256').update(pkce.verifier).digest('base64url'));
+        });
+
+        test('buildAuthorizationUrl should add the PKCE parameters', () => {
+            const url = new URL(buildAuthorizationUrl(authorizationCode, 'http://127.0.0.1:5000/callback', 'xyz', 'challenge'));
+            assert.deepStrictEqual(Object.fromEntries(url.searchParams), {
+                response_type: 'code',
+                client_id: 'public-app',
+                redirect_uri: 'http://127.0.0.1:5000/callback',
+                state: 'xyz',
+                code_challenge: 'challenge',
+                code_challenge_method: 'S256',
+                scope: 'openid',
+            });
+        });
+
+        test('should sign in through the browser and exchange the code', async () => {
+            const store = new MemoryTokenStore();
+            const provider = new OAuth2TokenProvider(new HttpClient(), store, server.openBrowser);
+
+            const header = await provider.getAuthorizationHeader(authorizationCode, async text => text);
+
+            assert.strictEqual(header, 'Bearer at-code-1');
+            const sent = server.tokenRequests[0];
+            assert.strictEqual(sent.grant_type, 'authorization_code');
+            assert.strictEqual(sent.client_id, 'public-app');
+            assert.match(sent.redirect_uri, /^http:\/\/127\.0\.0\.1:\d+\/callback$/);
+            assert.ok(await provider.hasCachedToken(authorizationCode, async text => text));
+
+            // The cached token is reused without opening the browser again
+            const reused = new OAuth2TokenProvider(new HttpClient(), store);
+            assert.strictEqual(await reused.getAuthorizationHeader(authorizationCode, async text => text), 'Bearer at-code-1');
+        });
+
+        test('should keep waiting after a redirect with a different state', async () => {
+            const listener = await startLoopbackListener('expected');
+            try {
+                const get = (query: string) => new Promise<number>((resolve, reject) => {
+                    http.get(`${listener.redirectUri}?${query}`, res => {
+                        res.resume();
+                        resolve(res.statusCode || 0);
+                    }).on('error', reject);
+                });
+
+                assert.strictEqual(await get('code=stale&state=forged'), 400);
+                assert.strictEqual(await get('code=real&state=expected'), 200);
+                assert.strictEqual(await listener.waitForCode(), 'real');
+            } finally {
+                listener.close();
+            }
+        });
+
+        test('should require a browser and a loopback redirect URI', async () => {
+            await assert.rejects(new OAuth2TokenProvider(new HttpClient()).getToken(authorizationCode), /needs a browser/);
+            await assert.rejects(startLoopbackListener('state', 'https://example.com/callback'), /must be an http:\/\/127\.0\.0\.1/);
+        });
+
+        test('should stop waiting when cancelled', async () => {
+            const abort = new AbortController();
+            const provider = new OAuth2TokenProvider(new HttpClient(), new MemoryTokenStore(), async () => abort.abort());
+
+            await assert.rejects(provider.getToken(authorizationCode, undefined, abort.signal), /cancelled/);
+        });
+    });
+});
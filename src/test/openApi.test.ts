@@ -0,0 +1,527 @@
+import * as assert from 'assert';
+import { parseYaml, stringifyYaml } from '../parser/YamlParser';
+import { parseOpenApiDocument, serializeToOpenApiDocument } from '../parser/OpenApiParser';
+import { createCollection, createRequest, createWebSocketRequest } from '../models/Collection';
+import { HistoryItem } from '../models/HistoryItem';
+
+const PET_STORE = `openapi: 3.0.3
+info:
+  title: Pet Store
+  description: Pets for everyone
+  version: 1.0.0
+servers:
+  - url: https://{region}.petstore.example.com/v1/
+    description: Production
+    variables:
+      region:
+        default: eu
+  - url: http://localhost:8080
+    description: Local
+security:
+  - bearerAuth: []
+paths:
+  /pets:
+    get:
+      tags: [pets]
+      summary: List pets
+      parameters:
+        - $ref: '#/components/parameters/Limit'
+        - name: cursor
+          in: query
+          schema: { type: string }
+        - name: X-Request-Id
+          in: header
+          required: true
+          schema: { type: string, format: uuid }
+    post:
+      tags: [pets]
+      summary: Create a pet
+      requestBody:
+        content:
+          application/json:
+            schema:
+              $ref: '#/components/schemas/NewPet'
+  /pets/{petId}:
+    parameters:
+      - name: petId
+        in: path
+        required: true
+        schema: { type: integer, example: 42 }
+    get:
+      tags: [pets]
+      operationId: getPet
+      security: []
+    delete:
+      tags: [pets]
+      summary: Delete a pet
+      security:
+        - apiKey: []
+    trace:
+      summary: Trace
+  /pets/{petId}/photo:
+    put:
+      summary: Upload a photo
+      requestBody:
+        content:
+          multipart/form-data:
+            schema:
+              type: object
+              properties:
+                caption: { type: string, example: Cute }
+                file: { type: string, format: binary }
+components:
+  parameters:
+    Limit:
+      name: limit
+      in: query
+      schema: { type: integer, default: 20 }
+  schemas:
+    Pet:
+      type: object
+      required: [name]
+      properties:
+        id: { type: integer, readOnly: true }
+        name: { type: string, example: Rex }
+        tag: { type: string }
+        born: { type: string, format: date }
+        owner: { $ref: '#/components/schemas/Owner' }
+    NewPet:
+      allOf:
+        - $ref: '#/components/schemas/Pet'
+        - type: object
+          properties:
+            vaccinated: { type: boolean }
+    Owner:
+      type: object
+      properties:
+        name: { type: string }
+        pets:
+          type: array
+          items: { $ref: '#/components/schemas/Pet' }
+  securitySchemes:
+    bearerAuth:
+      type: http
+      scheme: bearer
+    apiKey:
+      type: apiKey
+      in: header
+      name: X-API-Key
+`;
+
+suite('OpenAPI Import Test Suite', () => {
+
+    suite('YAML Parser', () => {
+        test('should read block mappings, sequences and scalars', () => {
+            const result = parseYaml(`name: Pets   # comment
+version: "1.0"
+count: 3
+ratio: 1.5
+enabled: true
+missing: ~
+tags:
+- a
+- 'b c'
+nested:
+  - id: 1
+    label: one
+  - [2, two]
+`);
+            assert.deepStrictEqual(result, {
+                name: 'Pets',
+                version: '1.0',
+                count: 3,
+                ratio: 1.5,
+                enabled: true,
+                missing: null,
+                tags: ['a', 'b c'],
+                nested: [{ id: 1, label: 'one' }, [2, 'two']],
+            });
+        });
+
+        test('should read flow collections across lines', () => {
+            const result = parseYaml(`schema: {type: object,
+  required: [id, "name"]}
+cron: [at: "40 1 * * *"]
+`);
+            assert.deepStrictEqual(result, {
+                schema: { type: 'object', required: ['id', 'name'] },
+                cron: [{ at: '40 1 * * *' }],
+            });
+        });
+
+        test('should read block scalars', () => {
+            const result = parseYaml(`literal: |
+  line one
+    indented
+
+  after blank
+folded: >-
+  one
+  two
+
+  three
+kept: |+
+  text
+
+end: 1
+`);
+            assert.deepStrictEqual(result, {
+                literal: 'line one\n  indented\n\nafter blank\n',
+                folded: 'one two\nthree',
+                kept: 'text\n\n',
+                end: 1,
+            });
+        });
+
+        test('should read quoted scalars', () => {
+            const result = parseYaml(`single: 'it''s # not a comment'
+double: "tab\\there \\u00e9"
+folded: "first
+  second"
+joined: "no\\
+  space"
+`);
+            assert.deepStrictEqual(result, {
+                single: 'it\'s # not a comment',
+                double: 'tab\there é',
+                folded: 'first second',
+                joined: 'nospace',
+            });
+        });
+
+        test('should resolve anchors, aliases and merge keys', () => {
+            const result = parseYaml(`base: &base
+  type: object
+  nullable: false
+derived:
+  <<: *base
+  nullable: true
+list: [*base]
+`) as Record<string, unknown>;
+            assert.deepStrictEqual(result.derived, { type: 'object', nullable: true });
+            assert.deepStrictEqual(result.list, [{ type: 'object', nullable: false }]);
+        });
+
+        test('should report the line of an error', () => {
+            assert.throws(() => parseYaml('a: 1\n  b: 2\n'), /YAML line 2/);
+            assert.throws(() => parseYaml('a: *missing\n'), /Unknown alias/);
+        });
+
+        test('should write values that read back the same', () => {
+            const value = {
+                title: 'Pets: the API',
+                version: '1.0',
+                count: 3,
+                empty: [],
+                none: {},
+                missing: null,
+                flags: [true, 'true', 'no', '#tag', ' padded ', 'multi\nline'],
+                nested: [{ id: 1, tags: ['a'] }, [2, 3]],
+            };
+            const yaml = stringifyYaml(value);
+            assert.ok(yaml.includes('count: 3\n'));
+            assert.ok(yaml.includes('version: "1.0"\n'));
+            assert.deepStrictEqual(parseYaml(yaml), value);
+        });
+    });
+
+    suite('OpenAPI 3', () => {
+        test('should create a request per operation', () => {
+            const result = parseOpenApiDocument(PET_STORE);
+            assert.strictEqual(result.name, 'Pet Store');
+            assert.strictEqual(result.description, 'Pets for everyone');
+            assert.deepStrictEqual(result.requests.map(r => `${r.method} ${r.name}`), [
+                'GET pets / List pets',
+                'POST pets / Create a pet',
+                'GET pets / getPet',
+                'DELETE pets / Delete a pet',
+                'PUT Upload a photo',
+            ]);
+            assert.ok(result.warnings.some(w => w.includes('TRACE')));
+        });
+
+        test('should turn parameters into variables', () => {
+            const result = parseOpenApiDocument(PET_STORE);
+            const [list, , get] = result.requests;
+            // Optional parameters without a value are left out
+            assert.strictEqual(list.url, '{{baseUrl}}/pets?limit={{limit}}');
+            assert.deepStrictEqual(list.headers, [{ name: 'X-Request-Id', value: '{{X-Request-Id}}', enabled: true }]);
+            assert.strictEqual(get.url, '{{baseUrl}}/pets/{{petId}}');
+            assert.deepStrictEqual(result.variables, { limit: '20', petId: '42' });
+        });
+
+        test('should generate example bodies from schemas', () => {
+            const result = parseOpenApiDocument(PET_STORE);
+            const create = result.requests[1];
+            assert.strictEqual(create.body.type, 'json');
+            assert.deepStrictEqual(JSON.parse(create.body.content), {
+                name: 'Rex',
+                tag: 'string',
+                born: '2024-01-01',
+                // The recursive reference back to Pet stops at the first repeat
+                owner: { name: 'string', pets: [] },
+                vaccinated: true,
+            });
+
+            const upload = result.requests[4];
+            assert.strictEqual(upload.body.type, 'multipart');
+            assert.deepStrictEqual(JSON.parse(upload.body.content), [
+                { key: 'caption', value: 'Cute', enabled: true, type: 'text' },
+                { key: 'file', value: '', enabled: true, type: 'file' },
+            ]);
+        });
+
+        test('should map security schemes to auth', () => {
+            const result = parseOpenApiDocument(PET_STORE);
+            const [list, , get, remove] = result.requests;
+            assert.deepStrictEqual(result.defaultAuth, { type: 'bearer', token: '{{token}}' });
+            assert.strictEqual(list.useInheritedAuth, undefined);
+            assert.deepStrictEqual(get.auth, { type: 'none' });
+            assert.strictEqual(get.useInheritedAuth, false);
+            assert.deepStrictEqual(remove.auth, { type: 'apikey', apiKeyName: 'X-API-Key', apiKeyValue: '{{apiKey}}', apiKeyIn: 'header' });
+        });
+
+        test('should map servers with their variables', () => {
+            const result = parseOpenApiDocument(PET_STORE);
+            assert.deepStrictEqual(result.servers, [
+                { name: 'Production', url: 'https://eu.petstore.example.com/v1' },
+                { name: 'Local', url: 'http://localhost:8080' },
+            ]);
+        });
+
+        test('should map OAuth 2.0 flows', () => {
+            const document = {
+                openapi: '3.1.0',
+                info: { title: 'OAuth' },
+                security: [{ oauth: ['read', 'write'] }],
+                paths: { '/me': { get: { summary: 'Me' } } },
+                components: {
+                    securitySchemes: {
+                        oauth: {
+                            type: 'oauth2',
+                            flows: {
+                                implicit: { authorizationUrl: 'https://auth.example.com/authorize' },
+                                authorizationCode: { authorizationUrl: 'https://auth.example.com/authorize', tokenUrl: 'https://auth.example.com/token' },
+                            },
+                        },
+                    },
+                },
+            };
+            const result = parseOpenApiDocument(JSON.stringify(document));
+            assert.deepStrictEqual(result.defaultAuth, {
+                type: 'oauth2',
+                grantType: 'authorization_code',
+                authUrl: 'https://auth.example.com/authorize',
+                tokenUrl: 'https://auth.example.com/token',
+                clientId: '{{clientId}}',
+                clientSecret: '{{clientSecret}}',
+                scope: 'read write',
+            });
+        });
+    });
+
+    suite('Swagger 2', () => {
+        test('should read body and form parameters', () => {
+            const document = {
+                swagger: '2.0',
+                info: { title: 'Legacy' },
+                host: 'api.example.com',
+                basePath: '/v2',
+                schemes: ['https'],
+                securityDefinitions: { basic: { type: 'basic' } },
+                security: [{ basic: [] }],
+                paths: {
+                    '/users': {
+                        post: {
+                            summary: 'Create user',
+                            parameters: [{ name: 'user', in: 'body', schema: { $ref: '#/definitions/User' } }],
+                        },
+                    },
+                    '/login': {
+                        post: {
+                            summary: 'Login',
+                            consumes: ['application/x-www-form-urlencoded'],
+                            parameters: [
+                                { name: 'username', in: 'formData', type: 'string', default: 'admin' },
+                                { name: 'password', in: 'formData', type: 'string' },
+                            ],
+                        },
+                    },
+                },
+                definitions: {
+                    User: { type: 'object', properties: { email: { type: 'string', format: 'email' } } },
+                },
+            };
+            const result = parseOpenApiDocument(JSON.stringify(document));
+            assert.deepStrictEqual(result.servers, [{ name: 'HTTPS', url: 'https://api.example.com/v2' }]);
+            assert.deepStrictEqual(result.defaultAuth, { type: 'basic', username: '{{username}}', password: '{{password}}' });
+            const [create, login] = result.requests;
+            assert.deepStrictEqual(JSON.parse(create.body.content), { email: 'user@example.com' });
+            assert.strictEqual(login.body.type, 'form');
+            assert.deepStrictEqual(JSON.parse(login.body.content), [
+                { key: 'username', value: 'admin', enabled: true },
+                { key: 'password', value: '', enabled: true },
+            ]);
+        });
+
+        test('should accept unquoted versions', () => {
+            const swagger = parseOpenApiDocument('swagger: 2.0\ninfo:\n  title: Legacy\nhost: api.example.com\npaths:\n  /users:\n    get: {}\n');
+            assert.deepStrictEqual(swagger.requests.map(r => r.url), ['{{baseUrl}}/users']);
+            const openapi = parseOpenApiDocument('openapi: 3.0\ninfo:\n  title: Pets\npaths:\n  /pets:\n    get: {}\n');
+            assert.deepStrictEqual(openapi.requests.map(r => r.url), ['{{baseUrl}}/pets']);
+            assert.throws(() => parseOpenApiDocument('openapi: 4.0\n'), /OpenAPI 4 is not supported/);
+        });
+
+        test('should reject other documents', () => {
+            assert.throws(() => parseOpenApiDocument('name: not an api\n'), /Not an OpenAPI 3.x or Swagger 2.0 document/);
+            assert.throws(() => parseOpenApiDocument('openapi: 4.0.0\n'), /OpenAPI 4.0.0 is not supported/);
+            assert.throws(() => parseOpenApiDocument('- a\n- b\n'), /Not an OpenAPI document/);
+        });
+    });
+
+    suite('Export', () => {
+        function sampleCollection() {
+            const collection = createCollection('Pet Store', 'Pets for everyone');
+            collection.variables = { baseUrl: 'https://petstore.example.com', petId: '42', apiKey: 'secret' };
+            collection.defaultAuth = { type: 'bearer', token: '{{token}}' };
+
+            const list = createRequest('pets / List pets', 'GET', '{{baseUrl}}/pets?limit=20&api_key={{apiKey}}');
+            list.headers = [
+                { name: 'X-Request-Id', value: 'abc', enabled: true },
+                { name: 'Accept', value: 'application/json', enabled: true },
+            ];
+            const get = createRequest('pets / Get pet', 'GET', '{{baseUrl}}/pets/{{petId}}');
+            const getLiteral = createRequest('Get pet 7', 'GET', 'https://petstore.example.com/pets/7?fields=name');
+            const create = createRequest('pets / Create pet', 'POST', '{{baseUrl}}/pets');
+            create.body = { type: 'json', content: '{"name": "Rex", "age": {{age}}, "password": "hunter2"}' };
+            const health = createRequest('Health', 'GET', '{{baseUrl}}/health');
+            health.useInheritedAuth = false;
+            health.auth = { type: 'none' };
+            const admin = createRequest('Admin', 'DELETE', '{{baseUrl}}/admin');
+            admin.useInheritedAuth = false;
+            admin.auth = { type: 'apikey', apiKeyName: 'X-API-Key', apiKeyValue: '{{apiKey}}', apiKeyIn: 'header' };
+
+            collection.requests = [list, get, getLiteral, create, health, admin, createWebSocketRequest('Live', 'wss://petstore.example.com/live')];
+            return collection;
+        }
+
+        function historyItem(requestId: string, statusCode: number, body: string, timestamp: number): HistoryItem {
+            return {
+                id: `h${timestamp}`,
+                method: 'GET',
+                url: '',
+                headers: [],
+                body: { type: 'none', content: '' },
+                statusCode,
+                statusText: 'OK',
+                responseBody: body,
+                responseHeaders: [{ name: 'Content-Type', value: 'application/json; charset=utf-8', enabled: true }],
+                sourceRequestId: requestId,
+                timestamp,
+            };
+        }
+
+        function exportDocument(history: HistoryItem[] = []) {
+            const collection = sampleCollection();
+            return { collection, document: JSON.parse(serializeToOpenApiDocument(collection, history, 'json')) };
+        }
+
+        test('should group requests by path template', () => {
+            const { document } = exportDocument();
+            assert.strictEqual(document.openapi, '3.1.0');
+            assert.deepStrictEqual(document.info, { title: 'Pet Store', description: 'Pets for everyone', version: '1.0.0' });
+            assert.deepStrictEqual(Object.keys(document.paths), ['/pets', '/pets/{petId}', '/health', '/admin']);
+            assert.deepStrictEqual(document.servers, [
+                { url: '{baseUrl}', variables: { baseUrl: { default: 'https://petstore.example.com', description: 'The {{baseUrl}} variable' } } },
+                { url: 'https://petstore.example.com' },
+            ]);
+
+            const get = document.paths['/pets/{petId}'].get;
+            assert.deepStrictEqual(get.tags, ['pets']);
+            assert.strictEqual(get.summary, 'Get pet');
+            assert.strictEqual(get.operationId, 'petsGetPet');
+            // The literal id request shares the operation and adds its query
+            assert.deepStrictEqual(get.parameters, [
+                { name: 'petId', in: 'path', required: true, schema: { type: 'integer' }, example: '42' },
+                { name: 'fields', in: 'query', schema: { type: 'string' }, example: 'name' },
+            ]);
+        });
+
+        test('should describe query, header and body parameters', () => {
+            const { document } = exportDocument();
+            const list = document.paths['/pets'].get;
+            assert.deepStrictEqual(list.parameters, [
+                { name: 'limit', in: 'query', schema: { type: 'integer' }, example: '20' },
+                // Secrets are described without their values
+                { name: 'api_key', in: 'query', schema: { type: 'string' } },
+                { name: 'X-Request-Id', in: 'header', schema: { type: 'string' }, example: 'abc' },
+            ]);
+
+            const create = document.paths['/pets'].post.requestBody.content['application/json'];
+            assert.deepStrictEqual(create.schema, {
+                type: 'object',
+                properties: { name: { type: 'string' }, age: { type: 'null' }, password: { type: 'string' } },
+            });
+            assert.deepStrictEqual(create.example, { name: 'Rex', age: null, password: '***' });
+        });
+
+        test('should map auth to security schemes', () => {
+            const { document } = exportDocument();
+            assert.deepStrictEqual(document.security, [{ bearerAuth: [] }]);
+            assert.deepStrictEqual(document.components.securitySchemes, {
+                bearerAuth: { type: 'http', scheme: 'bearer' },
+                apiKeyAuth: { type: 'apiKey', in: 'header', name: 'X-API-Key' },
+            });
+            assert.strictEqual(document.paths['/pets'].get.security, undefined);
+            assert.deepStrictEqual(document.paths['/health'].get.security, []);
+            assert.deepStrictEqual(document.paths['/admin'].delete.security, [{ apiKeyAuth: [] }]);
+        });
+
+        test('should infer response schemas from the latest response', () => {
+            const collection = sampleCollection();
+            const [list] = collection.requests;
+            const history = [
+                historyItem(list.id, 200, '[{"id": 1, "name": "Rex", "born": "2020-01-01"}, {"id": 2.5, "name": null, "tag": "x"}]', 2),
+                historyItem(list.id, 500, '{"error": "old"}', 1),
+            ];
+            const document = JSON.parse(serializeToOpenApiDocument(collection, history, 'json'));
+            assert.deepStrictEqual(document.paths['/pets'].get.responses, {
+                200: {
+                    description: 'OK',
+                    content: {
+                        'application/json': {
+                            schema: {
+                                type: 'array',
+                                items: {
+                                    type: 'object',
+                                    properties: {
+                                        id: { type: 'number' },
+                                        name: { type: ['string', 'null'] },
+                                        born: { type: 'string', format: 'date' },
+                                        tag: { type: 'string' },
+                                    },
+                                },
+                            },
+                        },
+                    },
+                },
+            });
+        });
+
+        test('should write YAML that imports again', () => {
+            const collection = sampleCollection();
+            const yaml = serializeToOpenApiDocument(collection, []);
+            assert.ok(yaml.startsWith('openapi: 3.1.0\n'));
+            const imported = parseOpenApiDocument(yaml);
+            assert.strictEqual(imported.name, 'Pet Store');
+            assert.deepStrictEqual(imported.requests.map(r => `${r.method} ${r.name}`), [
+                'GET pets / List pets',
+                'POST pets / Create pet',
+                'GET pets / Get pet',
+                'GET Health',
+                'DELETE Admin',
+            ]);
+            assert.deepStrictEqual(imported.defaultAuth, { type: 'bearer', token: '{{token}}' });
+        });
+    });
+});
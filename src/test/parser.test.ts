@@ -287,4 +287,156 @@ Authorization: bearer mytoken`;
             assert.strictEqual(request.auth?.token, 'mytoken');
         });
     });
+
+    suite('Multipart Bodies', () => {
+        test('should import multipart parts as text and file fields', () => {
+            const content = `POST https://api.example.com/upload
+Content-Type: multipart/form-data; boundary=----WebKitFormBoundary
+
+------WebKitFormBoundary
+Content-Disposition: form-data; name="title"
+
+{{$dotenv TITLE}}
+------WebKitFormBoundary
+Content-Disposition: form-data; name="image"; filename="logo.png"
+Content-Type: image/png
+
+< ./assets/logo.png
+------WebKitFormBoundary--`;
+            const request = parsedRequestToRequest(parseHttpFile(content).requests[0]);
+
+            assert.strictEqual(request.body.type, 'multipart');
+            assert.deepStrictEqual(JSON.parse(request.body.content), [
+                { key: 'title', value: '{{TITLE}}', enabled: true, type: 'text' },
+                { key: 'image', value: './assets/logo.png', enabled: true, type: 'file', contentType: 'image/png' },
+            ]);
+            // The boundary is picked when sending
+            assert.ok(!request.headers.some(h => h.name.toLowerCase() === 'content-type'));
+        });
+
+        test('should round-trip multipart fields and skip disabled ones', () => {
+            const request: Request = {
+                id: 'upload',
+                name: 'Upload',
+                method: 'POST' as HttpMethod,
+                url: 'https://api.example.com/upload',
+                headers: [{ name: 'Content-Type', value: 'multipart/form-data', enabled: true }],
+                body: {
+                    type: 'multipart',
+                    content: JSON.stringify([
+                        { key: 'description', value: '{{DESCRIPTION}}', enabled: true, type: 'text' },
+                        { key: 'draft', value: 'true', enabled: false, type: 'text' },
+                        { key: 'report', value: 'reports/q1.pdf', enabled: true, type: 'file' },
+                    ]),
+                },
+                createdAt: Date.now(),
+                updatedAt: Date.now()
+            };
+
+            const exported = serializeToHttpFile([request]);
+            assert.ok(exported.includes('Content-Type: multipart/form-data; boundary=----EndpointFormBoundary'));
+            assert.ok(exported.includes('Content-Disposition: form-data; name="report"; filename="q1.pdf"\n\n< reports/q1.pdf'));
+            assert.ok(!exported.includes('draft'));
+
+            const imported = parsedRequestToRequest(parseHttpFile(exported).requests[0]);
+            assert.deepStrictEqual(JSON.parse(imported.body.content), [
+                { key: 'description', value: '{{DESCRIPTION}}', enabled: true, type: 'text' },
+                { key: 'report', value: 'reports/q1.pdf', enabled: true, type: 'file' },
+            ]);
+        });
+    });
+
+    suite('Binary Bodies', () => {
+        test('should import a "< path" body as a binary file body', () => {
+            const content = `PUT https://api.example.com/files/logo
+Content-Type: image/png
+
+< ./assets/{{$dotenv LOGO}}`;
+            const request = parsedRequestToRequest(parseHttpFile(content).requests[0]);
+
+            assert.strictEqual(request.body.type, 'binary');
+            assert.strictEqual(request.body.content, './assets/{{LOGO}}');
+            assert.deepStrictEqual(request.headers.map(h => h.name), ['Content-Type']);
+        });
+
+        test('should round-trip a binary body as a file reference', () => {
+            const request: Request = {
+                id: 'upload',
+                name: 'Upload',
+                method: 'POST' as HttpMethod,
+                url: 'https://api.example.com/upload',
+                headers: [],
+                body: { type: 'binary', content: 'data/archive.zip' },
+                createdAt: Date.now(),
+                updatedAt: Date.now()
+            };
+
+            const exported = serializeToHttpFile([request]);
+            assert.ok(exported.endsWith('POST https://api.example.com/upload\n\n< data/archive.zip'));
+            assert.deepStrictEqual(parsedRequestToRequest(parseHttpFile(exported).requests[0]).body, request.body);
+        });
+    });
+
+    suite('GraphQL Bodies', () => {
+        test('should import X-REQUEST-TYPE: GraphQL requests as query and variables', () => {
+            const content = `POST https://api.example.com/graphql
+Content-Type: application/json
+X-REQUEST-TYPE: GraphQL
+
+query User($id: ID!) {
+  user(id: $id) { name }
+}
+
+{
+  "id": "{{$dotenv USER_ID}}"
+}`;
+            const request = parsedRequestToRequest(parseHttpFile(content).requests[0]);
+
+            assert.strictEqual(request.body.type, 'graphql');
+            assert.deepStrictEqual(JSON.parse(request.body.content), {
+                query: 'query User($id: ID!) {\n  user(id: $id) { name }\n}',
+                variables: '{\n  "id": "{{USER_ID}}"\n}',
+            });
+            assert.deepStrictEqual(request.headers.map(h => h.name), ['Content-Type']);
+        });
+
+        test('should keep a last block that is a query as part of the query', () => {
+            const content = `POST https://api.example.com/graphql
+X-REQUEST-TYPE: GraphQL
+
+fragment Parts on User { name }
+
+{ users { ...Parts } }`;
+            const request = parsedRequestToRequest(parseHttpFile(content).requests[0]);
+            assert.deepStrictEqual(JSON.parse(request.body.content), {
+                query: 'fragment Parts on User { name }\n\n{ users { ...Parts } }',
+                variables: '',
+            });
+        });
+
+        test('should round-trip a GraphQL body with the X-REQUEST-TYPE header', () => {
+            const request: Request = {
+                id: 'users',
+                name: 'Users',
+                method: 'POST' as HttpMethod,
+                url: 'https://api.example.com/graphql',
+                headers: [],
+                body: { type: 'graphql', content: JSON.stringify({ query: '{ users(role: ADMIN) { id } }', variables: '{"limit": 5}' }) },
+                createdAt: Date.now(),
+                updatedAt: Date.now()
+            };
+
+            const exported = serializeToHttpFile([request]);
+            assert.ok(exported.endsWith([
+                'POST https://api.example.com/graphql',
+                'X-REQUEST-TYPE: GraphQL',
+                'Content-Type: application/json',
+                '',
+                '{ users(role: ADMIN) { id } }',
+                '',
+                '{"limit": 5}',
+            ].join('\n')), exported);
+            assert.deepStrictEqual(parsedRequestToRequest(parseHttpFile(exported).requests[0]).body, request.body);
+        });
+    });
 });
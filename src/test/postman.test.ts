@@ -0,0 +1,250 @@
+import * as assert from 'assert';
+import { parsePostmanCollection, serializeToPostmanCollection, POSTMAN_SCHEMA_V21 } from '../parser/PostmanParser';
+import { createCollection, createRequest, createWebSocketRequest } from '../models/Collection';
+
+const SAMPLE = {
+    info: { name: 'Pet Store', description: 'Sample API', schema: POSTMAN_SCHEMA_V21 },
+    auth: { type: 'bearer', bearer: [{ key: 'token', value: '{{token}}', type: 'string' }] },
+    variable: [
+        { key: 'baseUrl', value: 'https://petstore.example.com' },
+        { key: 'unused', value: 'x', disabled: true },
+    ],
+    item: [
+        {
+            name: 'Auth',
+            auth: { type: 'basic', basic: [{ key: 'username', value: 'admin' }, { key: 'password', value: 'secret' }] },
+            variable: [{ key: 'realm', value: 'pets' }],
+            item: [
+                {
+                    id: 'login-id',
+                    name: 'Login',
+                    request: {
+                        method: 'POST',
+                        url: '{{baseUrl}}/login',
+                        header: [{ key: 'Content-Type', value: 'application/json' }],
+                        body: { mode: 'raw', raw: '{"user":"admin"}', options: { raw: { language: 'json' } } },
+                    },
+                },
+                {
+                    name: 'Public',
+                    request: { method: 'GET', url: '{{baseUrl}}/public', auth: { type: 'noauth' } },
+                },
+            ],
+        },
+        {
+            id: 'pet-id',
+            name: 'Get Pet',
+            event: [{ listen: 'prerequest', script: { type: 'text/javascript', exec: ["await pm.execution.runRequest('login-id');"] } }],
+            request: {
+                method: 'GET',
+                url: {
+                    raw: '{{baseUrl}}/pets/:petId?verbose=true',
+                    host: ['{{baseUrl}}'],
+                    path: ['pets', ':petId'],
+                    variable: [{ key: 'petId' }],
+                },
+                header: [{ key: 'X-Trace', value: '1', disabled: true }],
+            },
+        },
+    ],
+};
+
+suite('Postman Collection Test Suite', () => {
+
+    suite('Import', () => {
+        test('should flatten folders into request names', () => {
+            const result = parsePostmanCollection(JSON.stringify(SAMPLE));
+            assert.strictEqual(result.name, 'Pet Store');
+            assert.strictEqual(result.description, 'Sample API');
+            assert.deepStrictEqual(result.requests.map(r => r.name), ['Auth / Login', 'Auth / Public', 'Get Pet']);
+        });
+
+        test('should read collection and folder variables', () => {
+            const result = parsePostmanCollection(JSON.stringify(SAMPLE));
+            assert.deepStrictEqual(result.variables, { baseUrl: 'https://petstore.example.com', realm: 'pets' });
+        });
+
+        test('should map collection, folder and request auth', () => {
+            const result = parsePostmanCollection(JSON.stringify(SAMPLE));
+            const [login, publicRequest, pet] = result.requests;
+            assert.deepStrictEqual(result.defaultAuth, { type: 'bearer', token: '{{token}}' });
+            // Folder auth is copied to requests that inherit it
+            assert.strictEqual(login.useInheritedAuth, false);
+            assert.deepStrictEqual(login.auth, { type: 'basic', username: 'admin', password: 'secret' });
+            assert.strictEqual(publicRequest.useInheritedAuth, false);
+            assert.deepStrictEqual(publicRequest.auth, { type: 'none' });
+            // Top-level requests without auth inherit the collection's
+            assert.notStrictEqual(pet.useInheritedAuth, false);
+        });
+
+        test('should read v2.0 auth parameters', () => {
+            const collection = {
+                info: { name: 'v2.0', schema: 'https://schema.getpostman.com/json/collection/v2.0.0/collection.json' },
+                item: [{
+                    name: 'Signed',
+                    request: {
+                        method: 'GET',
+                        url: 'https://s3.amazonaws.com/bucket',
+                        auth: { type: 'awsv4', awsv4: { accessKey: 'AKID', secretKey: 'SECRET', region: 'us-east-1', service: 's3' } },
+                    },
+                }],
+            };
+            const [request] = parsePostmanCollection(JSON.stringify(collection)).requests;
+            assert.strictEqual(request.auth?.type, 'awsv4');
+            assert.strictEqual(request.auth?.awsAccessKeyId, 'AKID');
+            assert.strictEqual(request.auth?.awsRegion, 'us-east-1');
+            assert.strictEqual(request.auth?.awsService, 's3');
+        });
+
+        test('should map OAuth 2.0 grants', () => {
+            const collection = {
+                info: { name: 'OAuth', schema: POSTMAN_SCHEMA_V21 },
+                item: [{
+                    name: 'Token',
+                    request: {
+                        method: 'GET',
+                        url: 'https://api.example.com',
+                        auth: {
+                            type: 'oauth2',
+                            oauth2: [
+                                { key: 'grant_type', value: 'password_credentials' },
+                                { key: 'accessTokenUrl', value: 'https://auth.example.com/token' },
+                                { key: 'clientId', value: 'app' },
+                                { key: 'client_authentication', value: 'body' },
+                                { key: 'username', value: 'user' },
+                            ],
+                        },
+                    },
+                }],
+            };
+            const [request] = parsePostmanCollection(JSON.stringify(collection)).requests;
+            assert.strictEqual(request.auth?.grantType, 'password');
+            assert.strictEqual(request.auth?.tokenUrl, 'https://auth.example.com/token');
+            assert.strictEqual(request.auth?.clientId, 'app');
+            assert.strictEqual(request.auth?.clientAuth, 'body');
+            assert.strictEqual(request.auth?.username, 'user');
+        });
+
+        test('should replace path variables and keep the query', () => {
+            const result = parsePostmanCollection(JSON.stringify(SAMPLE));
+            assert.strictEqual(result.requests[2].url, '{{baseUrl}}/pets/{{petId}}?verbose=true');
+            assert.deepStrictEqual(result.requests[2].headers, [{ name: 'X-Trace', value: '1', enabled: false }]);
+        });
+
+        test('should map body modes', () => {
+            const collection = {
+                info: { name: 'Bodies', schema: POSTMAN_SCHEMA_V21 },
+                item: [
+                    { name: 'Raw', request: { method: 'POST', url: 'https://a.test', body: { mode: 'raw', raw: '<a/>', options: { raw: { language: 'xml' } } } } },
+                    { name: 'Form', request: { method: 'POST', url: 'https://a.test', body: { mode: 'urlencoded', urlencoded: [{ key: 'a', value: '1' }, { key: 'b', value: '2', disabled: true }] } } },
+                    {
+                        name: 'Multipart',
+                        request: {
+                            method: 'POST',
+                            url: 'https://a.test',
+                            body: { mode: 'formdata', formdata: [{ key: 'name', value: 'x', type: 'text' }, { key: 'file', src: '/tmp/a.png', type: 'file' }] },
+                        },
+                    },
+                    { name: 'File', request: { method: 'PUT', url: 'https://a.test', body: { mode: 'file', file: { src: '/tmp/a.bin' } } } },
+                    { name: 'GraphQL', request: { method: 'POST', url: 'https://a.test', body: { mode: 'graphql', graphql: { query: '{ a }', variables: '{}' } } } },
+                ],
+            };
+            const [raw, form, multipart, file, graphql] = parsePostmanCollection(JSON.stringify(collection)).requests;
+            assert.deepStrictEqual(raw.body, { type: 'xml', content: '<a/>' });
+            assert.strictEqual(form.body.type, 'form');
+            assert.deepStrictEqual(JSON.parse(form.body.content), [{ key: 'a', value: '1', enabled: true }, { key: 'b', value: '2', enabled: false }]);
+            assert.strictEqual(multipart.body.type, 'multipart');
+            assert.deepStrictEqual(JSON.parse(multipart.body.content), [
+                { key: 'name', value: 'x', enabled: true, type: 'text' },
+                { key: 'file', value: '/tmp/a.png', enabled: true, type: 'file' },
+            ]);
+            assert.deepStrictEqual(file.body, { type: 'binary', content: '/tmp/a.bin' });
+            assert.deepStrictEqual(JSON.parse(graphql.body.content), { query: '{ a }', variables: '{}' });
+        });
+
+        test('should map run-request pre-request scripts to pre-requests', () => {
+            const result = parsePostmanCollection(JSON.stringify(SAMPLE));
+            assert.strictEqual(result.requests[2].preRequestId, result.requests[0].id);
+            assert.deepStrictEqual(result.warnings, []);
+        });
+
+        test('should warn about what it cannot import', () => {
+            const collection = {
+                info: { name: 'Warnings', schema: POSTMAN_SCHEMA_V21 },
+                item: [
+                    { name: 'Copy', request: { method: 'COPY', url: 'https://a.test' } },
+                    {
+                        name: 'Scripted',
+                        event: [{ listen: 'test', script: { exec: ['pm.test("ok", () => {});'] } }],
+                        request: { method: 'GET', url: 'https://a.test', auth: { type: 'ntlm', ntlm: [] } },
+                    },
+                ],
+            };
+            const result = parsePostmanCollection(JSON.stringify(collection));
+            assert.deepStrictEqual(result.requests.map(r => r.name), ['Scripted']);
+            assert.strictEqual(result.warnings.length, 3);
+            assert.ok(result.warnings.some(w => w.includes('COPY')));
+            assert.ok(result.warnings.some(w => w.includes('ntlm')));
+            assert.ok(result.warnings.some(w => w.includes('Scripts of 1 request(s)')));
+        });
+
+        test('should reject other files', () => {
+            assert.throws(() => parsePostmanCollection('not json'), /Invalid JSON/);
+            assert.throws(() => parsePostmanCollection('{"openapi":"3.0.0"}'), /Not a Postman collection/);
+            assert.throws(() => parsePostmanCollection('{"id":"1","name":"Old","requests":[]}'), /v1 is not supported/);
+        });
+    });
+
+    suite('Export', () => {
+        test('should write a v2.1 collection', () => {
+            const collection = createCollection('Export', 'Described');
+            collection.variables = { baseUrl: 'https://api.example.com' };
+            collection.defaultAuth = { type: 'bearer', token: '{{token}}' };
+            collection.defaultHeaders = [{ name: 'Accept', value: 'application/json', enabled: true }];
+            const request = createRequest('List', 'GET', '{{baseUrl}}/items?page=1');
+            collection.requests.push(request, createWebSocketRequest('Live', 'wss://api.example.com'));
+
+            const output = JSON.parse(serializeToPostmanCollection(collection));
+            assert.strictEqual(output.info.schema, POSTMAN_SCHEMA_V21);
+            assert.strictEqual(output.info.description, 'Described');
+            assert.deepStrictEqual(output.variable, [{ key: 'baseUrl', value: 'https://api.example.com' }]);
+            assert.deepStrictEqual(output.auth, { type: 'bearer', bearer: [{ key: 'token', value: '{{token}}', type: 'string' }] });
+            // WebSocket requests are left out
+            assert.strictEqual(output.item.length, 1);
+            const item = output.item[0];
+            assert.strictEqual(item.id, request.id);
+            assert.deepStrictEqual(item.request.header, [{ key: 'Accept', value: 'application/json' }]);
+            assert.strictEqual(item.request.url.raw, '{{baseUrl}}/items?page=1');
+            assert.deepStrictEqual(item.request.url.path, ['items']);
+            assert.deepStrictEqual(item.request.url.query, [{ key: 'page', value: '1' }]);
+            assert.strictEqual(item.request.auth, undefined);
+        });
+
+        test('should round-trip requests', () => {
+            const collection = createCollection('Round Trip');
+            collection.defaultAuth = { type: 'apikey', apiKeyName: 'X-Key', apiKeyValue: '{{key}}', apiKeyIn: 'header' };
+            const login = createRequest('Login', 'POST', 'https://api.example.com/login');
+            login.body = { type: 'json', content: '{"a":1}' };
+            const anonymous = createRequest('Anonymous', 'GET', 'https://api.example.com/health');
+            anonymous.useInheritedAuth = false;
+            anonymous.auth = { type: 'none' };
+            const upload = createRequest('Upload', 'POST', 'https://api.example.com/upload');
+            upload.body = { type: 'multipart', content: JSON.stringify([{ key: 'f', value: '/tmp/f.txt', enabled: true, type: 'file' }]) };
+            upload.preRequestId = login.id;
+            collection.requests.push(login, anonymous, upload);
+
+            const result = parsePostmanCollection(serializeToPostmanCollection(collection));
+            assert.deepStrictEqual(result.defaultAuth, collection.defaultAuth);
+            assert.deepStrictEqual(result.requests.map(r => [r.name, r.method, r.url]), [
+                ['Login', 'POST', 'https://api.example.com/login'],
+                ['Anonymous', 'GET', 'https://api.example.com/health'],
+                ['Upload', 'POST', 'https://api.example.com/upload'],
+            ]);
+            assert.deepStrictEqual(result.requests[0].body, login.body);
+            assert.deepStrictEqual(result.requests[1].auth, { type: 'none' });
+            assert.deepStrictEqual(JSON.parse(result.requests[2].body.content), JSON.parse(upload.body.content));
+            assert.strictEqual(result.requests[2].preRequestId, result.requests[0].id);
+            assert.deepStrictEqual(result.warnings, []);
+        });
+    });
+});
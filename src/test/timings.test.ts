@@ -0,0 +1,54 @@
+import * as assert from 'assert';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { HttpClient } from '../http/HttpClient';
+import { computeTimings, formatTiming } from '../http/Timings';
+import { createRequest } from '../models/Collection';
+
+suite('Timings Test Suite', () => {
+    test('computeTimings should turn marks into consecutive phases', () => {
+        const timings = computeTimings({ start: 100, lookup: 105, connect: 110.5, secureConnect: 130, response: 180, end: 200 });
+
+        assert.deepStrictEqual(timings, { dns: 5, tcp: 5.5, tls: 19.5, ttfb: 50, download: 20, total: 100 });
+    });
+
+    test('computeTimings should report phases that did not happen as 0', () => {
+        // Reused keep-alive connection - no socket events at all
+        const reused = computeTimings({ start: 0, response: 40, end: 45 });
+        assert.deepStrictEqual(reused, { dns: 0, tcp: 0, tls: 0, ttfb: 40, download: 5, total: 45 });
+
+        // IP address over plain http - no lookup, no handshake
+        const direct = computeTimings({ start: 0, connect: 2, response: 10, end: 10 });
+        assert.deepStrictEqual(direct, { dns: 0, tcp: 2, tls: 0, ttfb: 8, download: 0, total: 10 });
+    });
+
+    test('formatTiming should keep decimals only for short phases', () => {
+        assert.strictEqual(formatTiming(0), '0.00 ms');
+        assert.strictEqual(formatTiming(12.345), '12.35 ms');
+        assert.strictEqual(formatTiming(1234.5), '1235 ms');
+    });
+
+    test('HttpClient should measure the phases of a request', async () => {
+        const server = http.createServer((_req, res) => {
+            res.writeHead(200);
+            res.write('first');
+            setTimeout(() => res.end(' last'), 30);
+        });
+        await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+        try {
+            const port = (server.address() as AddressInfo).port;
+            const response = await new HttpClient().executeRequest(createRequest('Get', 'GET', `http://127.0.0.1:${port}/`));
+
+            const timings = response.timings!;
+            assert.ok(timings, 'timings should be set');
+            assert.strictEqual(timings.dns, 0);
+            assert.strictEqual(timings.tls, 0);
+            assert.ok(timings.download >= 20, `download should cover the delayed end, was ${timings.download}`);
+            const sum = timings.dns + timings.tcp + timings.tls + timings.ttfb + timings.download;
+            assert.ok(Math.abs(sum - timings.total) < 0.1, `phases (${sum}) should add up to the total (${timings.total})`);
+        } finally {
+            server.closeAllConnections();
+            server.close();
+        }
+    });
+});
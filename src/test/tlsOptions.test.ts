@@ -0,0 +1,66 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as tls from 'tls';
+import { findHostTls, loadTlsOptions, needsPassphrase } from '../http/TlsOptions';
+import { HostTlsSettings } from '../settings/defaults';
+
+suite('TLS Options Test Suite', () => {
+    let dir: string;
+
+    suiteSetup(() => {
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), 'endpoint-tls-'));
+        fs.writeFileSync(path.join(dir, 'client.crt'), 'CERT');
+        fs.writeFileSync(path.join(dir, 'client.key'), 'KEY');
+        fs.writeFileSync(path.join(dir, 'corp-ca.pem'), 'CA');
+    });
+
+    suiteTeardown(() => {
+        fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    test('findHostTls should prefer host:port over host over wildcards', () => {
+        const hosts: HostTlsSettings[] = [
+            { host: '*.corp.example', rejectUnauthorized: false },
+            { host: 'api.corp.example' },
+            { host: 'API.corp.example:8443' },
+        ];
+
+        assert.strictEqual(findHostTls(hosts, new URL('https://api.corp.example:8443/x')), hosts[2]);
+        assert.strictEqual(findHostTls(hosts, new URL('https://api.corp.example/x')), hosts[1]);
+        assert.strictEqual(findHostTls(hosts, new URL('https://db.corp.example/')), hosts[0]);
+        assert.strictEqual(findHostTls(hosts, new URL('https://corp.example/')), undefined);
+        assert.strictEqual(findHostTls(hosts, new URL('https://evilcorp.example/')), undefined);
+    });
+
+    test('loadTlsOptions should read the client certificate and add CAs to the built-in roots', () => {
+        const options = loadTlsOptions({
+            host: 'api.corp.example',
+            cert: path.join(dir, 'client.crt'),
+            key: path.join(dir, 'client.key'),
+            ca: [path.join(dir, 'corp-ca.pem')],
+            rejectUnauthorized: true,
+        }, 'secret');
+
+        assert.strictEqual(options.cert?.toString(), 'CERT');
+        assert.strictEqual(options.key?.toString(), 'KEY');
+        assert.strictEqual(options.passphrase, 'secret');
+        assert.deepStrictEqual(options.ca, [...tls.rootCertificates, 'CA']);
+        assert.strictEqual(options.rejectUnauthorized, true);
+    });
+
+    test('loadTlsOptions should only override what is configured and report missing files', () => {
+        assert.deepStrictEqual(loadTlsOptions({ host: 'dev.local', rejectUnauthorized: false }, 'unused'), { rejectUnauthorized: false });
+        assert.throws(
+            () => loadTlsOptions({ host: 'dev.local', pfx: path.join(dir, 'missing.pfx') }),
+            /Could not read client certificate \(PFX\) file .*missing\.pfx/
+        );
+    });
+
+    test('needsPassphrase should be true for PFX files and cert/key pairs', () => {
+        assert.strictEqual(needsPassphrase({ host: 'a', pfx: 'a.pfx' }), true);
+        assert.strictEqual(needsPassphrase({ host: 'a', cert: 'a.crt', key: 'a.key' }), true);
+        assert.strictEqual(needsPassphrase({ host: 'a', ca: ['ca.pem'] }), false);
+    });
+});
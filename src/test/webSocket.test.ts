@@ -0,0 +1,172 @@
+import * as assert from 'assert';
+import * as http from 'http';
+import * as net from 'net';
+import { AddressInfo } from 'net';
+import { HttpClient } from '../http/HttpClient';
+import { encodeFrame, FrameParser, getAcceptKey, Opcode, WebSocketConnection, WebSocketFrame } from '../http/WebSocket';
+import { createRequest } from '../models/Collection';
+
+/**
+ * A WebSocket echo server: echoes text messages, answers "fragments" with a fragmented
+ * message and "ping" with a ping, and closes with the code and reason of "close <code> <reason>"
+ */
+function createEchoServer(received: { headers?: http.IncomingHttpHeaders; frames: WebSocketFrame[] }): http.Server {
+    const server = http.createServer();
+    server.on('upgrade', (req: http.IncomingMessage, socket: net.Socket) => {
+        received.headers = req.headers;
+        socket.write([
+            'HTTP/1.1 101 Switching Protocols',
+            'Upgrade: websocket',
+            'Connection: Upgrade',
+            `Sec-WebSocket-Accept: ${getAcceptKey(String(req.headers['sec-websocket-key']))}`,
+            '',
+            '',
+        ].join('\r\n'));
+        const parser = new FrameParser();
+        socket.on('data', chunk => {
+            for (const frame of parser.push(chunk)) {
+                received.frames.push(frame);
+                const text = frame.payload.toString();
+                if (frame.opcode === Opcode.Close) {
+                    socket.end(encodeFrame(Opcode.Close, frame.payload));
+                } else if (frame.opcode !== Opcode.Text) {
+                    continue;
+                } else if (text === 'fragments') {
+                    socket.write(Buffer.concat([
+                        Buffer.from([0x01, 3]), Buffer.from('one'),
+                        encodeFrame(Opcode.Ping, Buffer.from('hi')),
+                        Buffer.from([0x00, 4]), Buffer.from(' two'),
+                        Buffer.from([0x80, 6]), Buffer.from(' three'),
+                    ]));
+                } else if (text.startsWith('close ')) {
+                    const [, code, reason] = text.split(' ');
+                    const payload = Buffer.concat([Buffer.from([Number(code) >> 8, Number(code) & 0xff]), Buffer.from(reason)]);
+                    socket.write(encodeFrame(Opcode.Close, payload));
+                } else {
+                    socket.write(encodeFrame(Opcode.Text, frame.payload));
+                }
+            }
+        });
+        socket.on('error', () => { });
+    });
+    return server;
+}
+
+suite('WebSocket Test Suite', () => {
+    test('getAcceptKey should match the RFC 6455 example', () => {
+        assert.strictEqual(getAcceptKey('dGhlIHNhbXBsZSBub25jZQ=='), 's3pPLMBiTxaQ9kYGzzhZRbK+xOo=');
+    });
+
+    test('FrameParser should read frames of every length encoding split across chunks', () => {
+        const mask = Buffer.from([1, 2, 3, 4]);
+        const payloads = [Buffer.from('short'), Buffer.alloc(300, 'a'), Buffer.alloc(70000, 'b')];
+        const bytes = Buffer.concat(payloads.map((payload, i) => encodeFrame(Opcode.Text, payload, i === 1 ? mask : undefined)));
+
+        const parser = new FrameParser();
+        const frames: WebSocketFrame[] = [];
+        for (let offset = 0; offset < bytes.length; offset += 1000) {
+            frames.push(...parser.push(bytes.subarray(offset, offset + 1000)));
+        }
+        assert.strictEqual(frames.length, 3);
+        frames.forEach((frame, i) => {
+            assert.strictEqual(frame.fin, true);
+            assert.strictEqual(frame.opcode, Opcode.Text);
+            assert.ok(frame.payload.equals(payloads[i]), `Payload ${i} should survive the round trip`);
+        });
+        // Masked frames don't carry the payload as is
+        assert.notStrictEqual(encodeFrame(Opcode.Text, Buffer.from('abc'), mask).subarray(6).toString(), 'abc');
+    });
+
+    test('connectWebSocket should exchange messages and answer pings', async () => {
+        const received: { headers?: http.IncomingHttpHeaders; frames: WebSocketFrame[] } = { frames: [] };
+        const server = createEchoServer(received);
+        await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+        let connection: WebSocketConnection | undefined;
+        try {
+            const request = createRequest('Echo', 'GET', `ws://127.0.0.1:${(server.address() as AddressInfo).port}/socket`);
+            request.headers = [{ name: 'Authorization', value: 'Bearer abc', enabled: true }, { name: 'X-Off', value: '1', enabled: false }];
+
+            const messages: string[] = [];
+            let onMessage: () => void = () => { };
+            let closed: (value: { code: number; reason: string }) => void = () => { };
+            const closedPromise = new Promise<{ code: number; reason: string }>(resolve => { closed = resolve; });
+            connection = await new HttpClient().connectWebSocket(request, {
+                onMessage: data => {
+                    messages.push(data.toString());
+                    onMessage();
+                },
+                onClose: (code, reason) => closed({ code, reason }),
+            });
+            const nextMessage = () => new Promise<void>(resolve => { onMessage = resolve; });
+
+            assert.strictEqual(received.headers?.authorization, 'Bearer abc');
+            assert.strictEqual(received.headers?.['x-off'], undefined);
+
+            let message = nextMessage();
+            connection.send('{"hello":"€"}');
+            await message;
+            message = nextMessage();
+            connection.send('fragments');
+            await message;
+            // The server has seen the answer to its ping once this is echoed
+            message = nextMessage();
+            connection.send('sync');
+            await message;
+            assert.deepStrictEqual(messages, ['{"hello":"€"}', 'one two three', 'sync']);
+            // The ping in the middle of the fragmented message was answered with its payload
+            assert.ok(received.frames.some(frame => frame.opcode === Opcode.Pong && frame.payload.toString() === 'hi'), 'Ping should be answered');
+
+            connection.send('close 4000 done');
+            assert.deepStrictEqual(await closedPromise, { code: 4000, reason: 'done' });
+            assert.strictEqual(connection.isOpen, false);
+            assert.throws(() => connection!.send('late'), /WebSocket is not open/);
+        } finally {
+            connection?.close();
+            server.closeAllConnections();
+            server.close();
+        }
+    });
+
+    test('connectWebSocket should close with a closing handshake', async () => {
+        const received: { frames: WebSocketFrame[] } = { frames: [] };
+        const server = createEchoServer(received);
+        await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+        try {
+            const request = createRequest('Echo', 'GET', `ws://127.0.0.1:${(server.address() as AddressInfo).port}/`);
+            const closed = await new Promise<{ code: number; reason: string }>((resolve, reject) => {
+                new HttpClient().connectWebSocket(request, {
+                    onMessage: () => { },
+                    onClose: (code, reason) => resolve({ code, reason }),
+                }).then(connection => connection.close(1000, 'bye'), reject);
+            });
+            assert.deepStrictEqual(closed, { code: 1000, reason: 'bye' });
+            assert.strictEqual(received.frames[0].opcode, Opcode.Close);
+        } finally {
+            server.closeAllConnections();
+            server.close();
+        }
+    });
+
+    test('connectWebSocket should reject refused handshakes and http URLs', async () => {
+        const server = http.createServer((req, res) => {
+            res.writeHead(401);
+            res.end();
+        });
+        await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+        try {
+            const port = (server.address() as AddressInfo).port;
+            const handlers = { onMessage: () => { }, onClose: () => { } };
+            await assert.rejects(
+                new HttpClient().connectWebSocket(createRequest('Refused', 'GET', `ws://127.0.0.1:${port}/`), handlers),
+                /WebSocket handshake failed: 401 Unauthorized/
+            );
+            await assert.rejects(
+                new HttpClient().connectWebSocket(createRequest('Http', 'GET', `http://127.0.0.1:${port}/`), handlers),
+                /WebSocket URLs start with ws:\/\/ or wss:\/\//
+            );
+        } finally {
+            server.closeAllConnections();
+            server.close();
+        }
+    });
+});
@@ -0,0 +1,671 @@
+import * as vscode from 'vscode';
+import { getNonce, getVscodeElementsUri, getCodiconsUri, getSharedCssUri, getCollectionRunnerCssUri } from './webviewUtils';
+import { Collection, isGrpcRequest, isWebSocketRequest } from '../models/Collection';
+import { StorageService } from '../storage/StorageService';
+import { VariableService } from '../storage/VariableService';
+import { createHttpClient, createOAuth2TokenProvider } from '../http/HttpClientFactory';
+import { CollectionRunner, RunnerRequestResult, IterationRow, IterationSummary, getIterationDataFormat, parseIterationData } from '../runner';
+import { RequestPanel } from './RequestPanel';
+import { WebSocketPanel } from './WebSocketPanel';
+import { GrpcPanel } from './GrpcPanel';
+import { getLogger } from '../logger';
+
+/**
+ * Webview panel that runs every request of a collection in order and
+ * reports per-request status, timing, size and failures. An optional CSV/JSON
+ * data file runs the collection once per row.
+ */
+export class CollectionRunnerPanel {
+    private static panels: Map<string, CollectionRunnerPanel> = new Map();
+    private readonly _panel: vscode.WebviewPanel;
+    private readonly _extensionUri: vscode.Uri;
+    private readonly _storageService: StorageService;
+    private readonly _variableService: VariableService;
+    private _collection: Collection;
+    private _runner: CollectionRunner | undefined;
+    private _results: Map<string, RunnerRequestResult> = new Map();
+    private _iterations: Map<number, IterationSummary> = new Map();
+    private _dataFile: { name: string; rows: IterationRow[] } | undefined;
+    private _disposables: vscode.Disposable[] = [];
+
+    private constructor(
+        panel: vscode.WebviewPanel,
+        extensionUri: vscode.Uri,
+        storageService: StorageService,
+        variableService: VariableService,
+        collection: Collection
+    ) {
+        this._panel = panel;
+        this._extensionUri = extensionUri;
+        this._storageService = storageService;
+        this._variableService = variableService;
+        this._collection = collection;
+
+        this._update();
+
+        this._panel.onDidDispose(() => this.dispose(), null, this._disposables);
+
+        this._panel.webview.onDidReceiveMessage(
+            message => this._handleMessage(message),
+            null,
+            this._disposables
+        );
+    }
+
+    public static async createOrShow(
+        extensionUri: vscode.Uri,
+        storageService: StorageService,
+        variableService: VariableService,
+        collection: Collection,
+        dataFileUri?: vscode.Uri
+    ): Promise<CollectionRunnerPanel> {
+        const column = vscode.window.activeTextEditor?.viewColumn;
+
+        // If panel already exists for this collection, show it and run again
+        if (CollectionRunnerPanel.panels.has(collection.id)) {
+            const existingPanel = CollectionRunnerPanel.panels.get(collection.id)!;
+            existingPanel._panel.reveal(column);
+            if (dataFileUri && !(await existingPanel._loadDataFile(dataFileUri))) {
+                return existingPanel;
+            }
+            existingPanel._run();
+            return existingPanel;
+        }
+
+        const panel = vscode.window.createWebviewPanel(
+            'collectionRunner',
+            vscode.l10n.t('Run: {0}', collection.name),
+            column || vscode.ViewColumn.One,
+            {
+                enableScripts: true,
+                retainContextWhenHidden: true,
+                localResourceRoots: [
+                    vscode.Uri.joinPath(extensionUri, 'dist')
+                ]
+            }
+        );
+
+        panel.iconPath = new vscode.ThemeIcon('run-all');
+
+        const runnerPanel = new CollectionRunnerPanel(panel, extensionUri, storageService, variableService, collection);
+        CollectionRunnerPanel.panels.set(collection.id, runnerPanel);
+        if (dataFileUri && !(await runnerPanel._loadDataFile(dataFileUri))) {
+            return runnerPanel;
+        }
+        runnerPanel._run();
+        return runnerPanel;
+    }
+
+    private _handleMessage(message: any): void {
+        switch (message.type) {
+            case 'runAll':
+                this._run();
+                break;
+            case 'rerunFailed':
+                this._rerunFailed();
+                break;
+            case 'stop':
+                this._runner?.stop();
+                break;
+            case 'openRequest':
+                this._openRequest(message.requestId);
+                break;
+            case 'selectDataFile':
+                this._selectDataFile();
+                break;
+            case 'clearDataFile':
+                this._setDataFile(undefined);
+                break;
+        }
+    }
+
+    private async _selectDataFile(): Promise<void> {
+        const fileUris = await vscode.window.showOpenDialog({
+            canSelectFiles: true,
+            canSelectFolders: false,
+            canSelectMany: false,
+            filters: {
+                'Data Files': ['csv', 'json'],
+                'All Files': ['*']
+            },
+            title: vscode.l10n.t('Select Iteration Data File')
+        });
+
+        if (fileUris && fileUris.length > 0) {
+            await this._loadDataFile(fileUris[0]);
+        }
+    }
+
+    /**
+     * Read and parse a CSV/JSON data file.
+     * @returns true if the file was loaded
+     */
+    private async _loadDataFile(uri: vscode.Uri): Promise<boolean> {
+        const name = uri.path.split('/').pop() || uri.path;
+        const format = getIterationDataFormat(name);
+        if (!format) {
+            vscode.window.showErrorMessage(vscode.l10n.t('Unsupported data file "{0}". Use a .csv or .json file.', name));
+            return false;
+        }
+
+        try {
+            const fileContent = await vscode.workspace.fs.readFile(uri);
+            const rows = parseIterationData(Buffer.from(fileContent).toString('utf-8'), format);
+            if (rows.length === 0) {
+                vscode.window.showWarningMessage(vscode.l10n.t('Data file "{0}" has no rows.', name));
+                return false;
+            }
+            this._setDataFile({ name, rows });
+            getLogger().info(`Loaded ${rows.length} iteration rows from ${name}`);
+            return true;
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+            vscode.window.showErrorMessage(vscode.l10n.t('Failed to load data file: {0}', errorMessage));
+            return false;
+        }
+    }
+
+    /**
+     * Switch data files. Previous results refer to the old rows, so they are dropped.
+     */
+    private _setDataFile(dataFile: { name: string; rows: IterationRow[] } | undefined): void {
+        this._dataFile = dataFile;
+        this._results.clear();
+        this._iterations.clear();
+        this._panel.webview.postMessage({
+            type: 'dataFileChanged',
+            data: this._dataFile
+                ? { name: this._dataFile.name, rowCount: this._dataFile.rows.length, columns: Object.keys(this._dataFile.rows[0]) }
+                : undefined
+        });
+    }
+
+    private _rerunFailed(): void {
+        const failed: Record<number, string[]> = {};
+        for (const result of this._results.values()) {
+            if (result.status === 'failed') {
+                (failed[result.iteration] ??= []).push(result.requestId);
+            }
+        }
+        if (Object.keys(failed).length === 0) {
+            vscode.window.showInformationMessage(vscode.l10n.t('No failed requests to re-run.'));
+            return;
+        }
+        this._run(failed);
+    }
+
+    /**
+     * Run the whole collection (once per data row), or only the given requests per iteration
+     */
+    private async _run(requestIds?: Record<number, string[]>): Promise<void> {
+        if (this._runner) {
+            return;
+        }
+
+        const logger = getLogger();
+
+        // Reload the collection so edits made since the panel opened are picked up
+        const collection = await this._storageService.getCollectionAsync(this._collection.id);
+        if (!collection) {
+            vscode.window.showErrorMessage(vscode.l10n.t('Collection not found'));
+            return;
+        }
+        this._collection = collection;
+
+        if (collection.requests.length === 0) {
+            vscode.window.showInformationMessage(vscode.l10n.t('Collection "{0}" has no requests to run.', collection.name));
+            return;
+        }
+
+        const httpClient = createHttpClient(this._storageService);
+        const runner = new CollectionRunner(
+            httpClient,
+            (text, iterationVariables) => this._variableService.resolveText(text, collection.id, iterationVariables),
+            createOAuth2TokenProvider(httpClient, this._storageService)
+        );
+        this._runner = runner;
+
+        const iterationData = this._dataFile?.rows;
+        const iterationCount = iterationData ? iterationData.length : 1;
+        const isRerun = (iteration: number, requestId: string) =>
+            !requestIds || (requestIds[iteration]?.includes(requestId) ?? false);
+
+        // A full run starts from a clean report, a partial run only replaces the re-run rows
+        if (!requestIds) {
+            this._results.clear();
+            this._iterations.clear();
+        }
+        for (const [key, result] of this._results) {
+            if (isRerun(result.iteration, result.requestId)) {
+                this._results.delete(key);
+            }
+        }
+
+        const pending: { iteration: number; requestId: string }[] = [];
+        for (let iteration = 0; iteration < iterationCount; iteration++) {
+            for (const request of collection.requests) {
+                if (isRerun(iteration, request.id)) {
+                    pending.push({ iteration, requestId: request.id });
+                }
+            }
+        }
+
+        this._panel.webview.postMessage({
+            type: 'runStarted',
+            data: {
+                requests: collection.requests.map(r => ({ id: r.id, name: r.name, method: r.method, url: r.url })),
+                iterations: iterationData ? iterationData.map((variables, iteration) => ({ iteration, variables })) : [],
+                pending,
+                results: [...this._results.values()],
+                iterationSummaries: [...this._iterations.values()]
+            }
+        });
+
+        logger.info(`Running collection "${collection.name}" (${collection.requests.length} requests, ${iterationCount} iterations)`);
+
+        try {
+            const summary = await vscode.window.withProgress(
+                {
+                    location: vscode.ProgressLocation.Window,
+                    title: vscode.l10n.t('$(sync~spin) Running {0}...', collection.name)
+                },
+                async () => runner.run(collection, {
+                    iterationData,
+                    requestIds,
+                    callbacks: {
+                        onRequestStarted: (request, iteration) => {
+                            this._panel.webview.postMessage({ type: 'requestStarted', data: { requestId: request.id, iteration } });
+                        },
+                        onRequestCompleted: result => {
+                            this._results.set(resultKey(result), result);
+                            this._panel.webview.postMessage({ type: 'requestCompleted', data: result });
+                        }
+                    }
+                })
+            );
+
+            for (const result of summary.results) {
+                this._results.set(resultKey(result), result);
+            }
+            this._updateIterationSummaries(summary.iterations);
+
+            const allResults = [...this._results.values()];
+            this._panel.webview.postMessage({
+                type: 'runCompleted',
+                data: {
+                    results: summary.results,
+                    iterationSummaries: [...this._iterations.values()],
+                    passed: allResults.filter(r => r.status === 'passed').length,
+                    failed: allResults.filter(r => r.status === 'failed').length,
+                    skipped: allResults.filter(r => r.status === 'skipped').length,
+                    duration: summary.duration,
+                    stopped: summary.stopped
+                }
+            });
+
+            logger.info(`Collection run finished: ${summary.passed} passed, ${summary.failed} failed, ${summary.skipped} skipped in ${summary.duration}ms`);
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+            logger.error(`Collection run failed: ${errorMessage}`);
+            vscode.window.showErrorMessage(vscode.l10n.t('Collection run failed: {0}', errorMessage));
+        } finally {
+            this._runner = undefined;
+        }
+    }
+
+    /**
+     * Recompute per-iteration totals from all results, since a re-run only replaces some rows
+     */
+    private _updateIterationSummaries(latest: IterationSummary[]): void {
+        for (const summary of latest) {
+            const previous = this._iterations.get(summary.iteration);
+            const results = [...this._results.values()].filter(r => r.iteration === summary.iteration);
+            this._iterations.set(summary.iteration, {
+                iteration: summary.iteration,
+                variables: summary.variables ?? previous?.variables,
+                passed: results.filter(r => r.status === 'passed').length,
+                failed: results.filter(r => r.status === 'failed').length,
+                skipped: results.filter(r => r.status === 'skipped').length,
+                duration: results.reduce((total, r) => total + (r.time || 0), 0)
+            });
+        }
+    }
+
+    private async _openRequest(requestId: string): Promise<void> {
+        const request = this._collection.requests.find(r => r.id === requestId);
+        if (request && isWebSocketRequest(request)) {
+            await WebSocketPanel.openRequest(this._extensionUri, request, this._collection.id);
+        } else if (request && isGrpcRequest(request)) {
+            await GrpcPanel.openRequest(this._extensionUri, request, this._collection.id);
+        } else if (request) {
+            await RequestPanel.openRequest(this._extensionUri, request, this._collection.id);
+        }
+    }
+
+    private _update(): void {
+        this._panel.webview.html = this._getHtml();
+    }
+
+    private _getHtml(): string {
+        const nonce = getNonce();
+        const { bundleUri } = getVscodeElementsUri(this._panel.webview, this._extensionUri);
+        const codiconsUri = getCodiconsUri(this._panel.webview, this._extensionUri);
+        const sharedCssUri = getSharedCssUri(this._panel.webview, this._extensionUri);
+        const collectionRunnerCssUri = getCollectionRunnerCssUri(this._panel.webview, this._extensionUri);
+
+        return /* html */ `<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src ${this._panel.webview.cspSource}; font-src ${this._panel.webview.cspSource}; script-src ${this._panel.webview.cspSource} 'nonce-${nonce}';">
+    <link href="${codiconsUri}" rel="stylesheet" />
+    <link href="${sharedCssUri}" rel="stylesheet" />
+    <link href="${collectionRunnerCssUri}" rel="stylesheet" />
+    <title>Collection Runner</title>
+</head>
+<body>
+    <div class="runner-header">
+        <h2>Run: ${escapeHtml(this._collection.name)}</h2>
+        <div class="runner-actions">
+            <vscode-button id="runAllBtn">
+                <span class="codicon codicon-run-all"></span>
+                Run All
+            </vscode-button>
+            <vscode-button id="rerunFailedBtn" appearance="secondary" disabled>
+                <span class="codicon codicon-debug-rerun"></span>
+                Re-run Failed
+            </vscode-button>
+            <vscode-button id="stopBtn" appearance="secondary" disabled>
+                <span class="codicon codicon-debug-stop"></span>
+                Stop
+            </vscode-button>
+        </div>
+    </div>
+
+    <div class="runner-data-file">
+        <span class="codicon codicon-table"></span>
+        <span id="dataFileLabel" class="data-file-label">No data file - the collection runs once</span>
+        <vscode-button id="selectDataFileBtn" appearance="secondary">
+            <span class="codicon codicon-folder-opened"></span>
+            Select Data File
+        </vscode-button>
+        <vscode-button id="clearDataFileBtn" appearance="secondary" style="display: none;">
+            <span class="codicon codicon-close"></span>
+            Clear
+        </vscode-button>
+    </div>
+
+    <div class="runner-summary">
+        <span class="summary-item"><span class="summary-label">Progress:</span> <span id="summaryProgress">-</span></span>
+        <span class="summary-item summary-passed"><span class="codicon codicon-pass"></span> <span id="summaryPassed">0</span> passed</span>
+        <span class="summary-item summary-failed"><span class="codicon codicon-error"></span> <span id="summaryFailed">0</span> failed</span>
+        <span class="summary-item summary-skipped"><span class="codicon codicon-circle-slash"></span> <span id="summarySkipped">0</span> skipped</span>
+        <span class="summary-item"><span class="summary-label">Duration:</span> <span id="summaryDuration">-</span></span>
+    </div>
+
+    <table class="runner-table">
+        <thead>
+            <tr>
+                <th class="runner-status-cell"></th>
+                <th class="runner-method-cell">Method</th>
+                <th>Request</th>
+                <th class="runner-number-cell">Status</th>
+                <th class="runner-number-cell">Time</th>
+                <th class="runner-number-cell">Size</th>
+            </tr>
+        </thead>
+        <tbody id="runnerBody"></tbody>
+    </table>
+
+    <script type="module" nonce="${nonce}" src="${bundleUri}"></script>
+    <script nonce="${nonce}">
+        (function() {
+            const vscode = acquireVsCodeApi();
+
+            const runAllBtn = document.getElementById('runAllBtn');
+            const rerunFailedBtn = document.getElementById('rerunFailedBtn');
+            const stopBtn = document.getElementById('stopBtn');
+            const selectDataFileBtn = document.getElementById('selectDataFileBtn');
+            const clearDataFileBtn = document.getElementById('clearDataFileBtn');
+            const tbody = document.getElementById('runnerBody');
+
+            let requests = [];
+            let iterations = [];
+            let iterationSummaries = {};
+            let results = {};
+            let pendingCount = 0;
+            let completedCount = 0;
+
+            runAllBtn.addEventListener('click', () => vscode.postMessage({ type: 'runAll' }));
+            rerunFailedBtn.addEventListener('click', () => vscode.postMessage({ type: 'rerunFailed' }));
+            stopBtn.addEventListener('click', () => {
+                stopBtn.disabled = true;
+                vscode.postMessage({ type: 'stop' });
+            });
+            selectDataFileBtn.addEventListener('click', () => vscode.postMessage({ type: 'selectDataFile' }));
+            clearDataFileBtn.addEventListener('click', () => vscode.postMessage({ type: 'clearDataFile' }));
+
+            tbody.addEventListener('click', (e) => {
+                const link = e.target.closest('.runner-request-link');
+                if (link) {
+                    vscode.postMessage({ type: 'openRequest', requestId: link.dataset.requestId });
+                }
+            });
+
+            window.addEventListener('message', event => {
+                const message = event.data;
+                switch (message.type) {
+                    case 'dataFileChanged':
+                        updateDataFile(message.data);
+                        break;
+                    case 'runStarted':
+                        requests = message.data.requests;
+                        iterations = message.data.iterations;
+                        iterationSummaries = {};
+                        message.data.iterationSummaries.forEach(s => { iterationSummaries[s.iteration] = s; });
+                        results = {};
+                        message.data.results.forEach(r => { results[key(r.iteration, r.requestId)] = r; });
+                        message.data.pending.forEach(p => {
+                            results[key(p.iteration, p.requestId)] = { requestId: p.requestId, iteration: p.iteration, status: 'pending' };
+                        });
+                        pendingCount = message.data.pending.length;
+                        completedCount = 0;
+                        setRunning(true);
+                        document.getElementById('summaryDuration').textContent = '-';
+                        renderTable();
+                        updateSummary();
+                        break;
+                    case 'requestStarted':
+                        results[key(message.data.iteration, message.data.requestId)] = { ...message.data, status: 'running' };
+                        renderTable();
+                        break;
+                    case 'requestCompleted':
+                        results[key(message.data.iteration, message.data.requestId)] = message.data;
+                        completedCount++;
+                        renderTable();
+                        updateSummary();
+                        break;
+                    case 'runCompleted':
+                        message.data.results.forEach(r => { results[key(r.iteration, r.requestId)] = r; });
+                        message.data.iterationSummaries.forEach(s => { iterationSummaries[s.iteration] = s; });
+                        completedCount = pendingCount;
+                        setRunning(false);
+                        renderTable();
+                        updateSummary();
+                        document.getElementById('summaryDuration').textContent =
+                            message.data.duration + ' ms' + (message.data.stopped ? ' (stopped)' : '');
+                        rerunFailedBtn.disabled = message.data.failed === 0;
+                        break;
+                }
+            });
+
+            function key(iteration, requestId) {
+                return iteration + ':' + requestId;
+            }
+
+            function updateDataFile(dataFile) {
+                const label = document.getElementById('dataFileLabel');
+                if (dataFile) {
+                    label.textContent = dataFile.name + ' - ' + dataFile.rowCount + ' iteration(s), variables: ' + dataFile.columns.join(', ');
+                    clearDataFileBtn.style.display = '';
+                } else {
+                    label.textContent = 'No data file - the collection runs once';
+                    clearDataFileBtn.style.display = 'none';
+                }
+                // Results belonged to the previous data file
+                iterations = [];
+                iterationSummaries = {};
+                results = {};
+                pendingCount = 0;
+                completedCount = 0;
+                rerunFailedBtn.disabled = true;
+                renderTable();
+                updateSummary();
+            }
+
+            function setRunning(running) {
+                runAllBtn.disabled = running;
+                selectDataFileBtn.disabled = running;
+                clearDataFileBtn.disabled = running;
+                rerunFailedBtn.disabled = true;
+                stopBtn.disabled = !running;
+            }
+
+            function updateSummary() {
+                const all = Object.values(results);
+                document.getElementById('summaryProgress').textContent = pendingCount ? completedCount + '/' + pendingCount : '-';
+                document.getElementById('summaryPassed').textContent = all.filter(r => r.status === 'passed').length;
+                document.getElementById('summaryFailed').textContent = all.filter(r => r.status === 'failed').length;
+                document.getElementById('summarySkipped').textContent = all.filter(r => r.status === 'skipped').length;
+            }
+
+            function renderTable() {
+                if (iterations.length === 0) {
+                    tbody.innerHTML = requests.map(r => renderRowHtml(r, 0)).join('');
+                    return;
+                }
+                tbody.innerHTML = iterations.map(it =>
+                    renderIterationHtml(it) + requests.map(r => renderRowHtml(r, it.iteration)).join('')
+                ).join('');
+            }
+
+            function renderIterationHtml(it) {
+                const vars = Object.entries(it.variables || {})
+                    .map(([name, value]) => escapeHtmlJs(name) + '=' + escapeHtmlJs(truncate(value, 40)))
+                    .join(', ');
+                const iterationResults = requests.map(r => results[key(it.iteration, r.id)]).filter(r => r);
+                const passed = iterationResults.filter(r => r.status === 'passed').length;
+                const failed = iterationResults.filter(r => r.status === 'failed').length;
+                const summary = iterationSummaries[it.iteration];
+                const stats = iterationResults.some(r => r.status === 'passed' || r.status === 'failed')
+                    ? passed + ' passed, ' + failed + ' failed' + (summary ? ', ' + summary.duration + ' ms' : '')
+                    : '';
+                const icon = failed > 0 ? 'codicon-error' : (passed > 0 ? 'codicon-pass' : 'codicon-circle-large-outline');
+                const stateClass = failed > 0 ? 'runner-failed' : (passed > 0 ? 'runner-passed' : '');
+                return \`<tr class="runner-iteration-row \${stateClass}">
+                    <td class="runner-status-cell"><span class="codicon \${icon}"></span></td>
+                    <td colspan="5">
+                        <span class="runner-iteration-title">Iteration \${it.iteration + 1}</span>
+                        <span class="runner-iteration-vars">\${vars}</span>
+                        <span class="runner-iteration-stats">\${stats}</span>
+                    </td>
+                </tr>\`;
+            }
+
+            function renderRowHtml(request, iteration) {
+                const result = results[key(iteration, request.id)];
+                const status = result ? result.status : 'notRun';
+                const icons = {
+                    passed: 'codicon-pass',
+                    failed: 'codicon-error',
+                    skipped: 'codicon-circle-slash',
+                    running: 'codicon-loading codicon-modifier-spin',
+                    pending: 'codicon-circle-large-outline',
+                    notRun: 'codicon-circle-large-outline'
+                };
+
+                let details = '';
+                if (result && result.error) {
+                    details += '<div class="runner-failure">' + escapeHtmlJs(result.error) + '</div>';
+                }
+                if (result && result.assertionResults) {
+                    details += result.assertionResults.filter(a => !a.passed).map(a => {
+                        const actual = a.actual !== undefined ? ' (actual: ' + escapeHtmlJs(a.actual) + ')' : '';
+                        const reason = a.message ? ' - ' + escapeHtmlJs(a.message) : '';
+                        return '<div class="runner-failure"><span class="codicon codicon-error"></span> ' + escapeHtmlJs(a.description) + actual + reason + '</div>';
+                    }).join('');
+                    const passedCount = result.assertionResults.filter(a => a.passed).length;
+                    details += '<div class="runner-tests">Tests: ' + passedCount + '/' + result.assertionResults.length + ' passed</div>';
+                }
+
+                const hasCode = result && result.statusCode !== undefined;
+                const codeClass = hasCode && result.statusCode < 400 ? 'status-success' : 'status-error';
+                const nested = iterations.length > 0 ? ' runner-nested' : '';
+
+                return \`<tr class="runner-row runner-\${status}\${nested}">
+                    <td class="runner-status-cell"><span class="codicon \${icons[status]}"></span></td>
+                    <td class="runner-method-cell">\${escapeHtmlJs(request.method)}</td>
+                    <td>
+                        <a class="runner-request-link" data-request-id="\${escapeHtmlJs(request.id)}">\${escapeHtmlJs(request.name || request.url)}</a>
+                        <div class="runner-url">\${escapeHtmlJs(request.url)}</div>
+                        \${details}
+                    </td>
+                    <td class="runner-number-cell \${hasCode ? codeClass : ''}">\${hasCode ? result.statusCode : '-'}</td>
+                    <td class="runner-number-cell">\${result && result.time !== undefined ? result.time + ' ms' : '-'}</td>
+                    <td class="runner-number-cell">\${result && result.size !== undefined ? formatBytes(result.size) : '-'}</td>
+                </tr>\`;
+            }
+
+            function truncate(text, maxLength) {
+                text = String(text);
+                return text.length > maxLength ? text.substring(0, maxLength) + '...' : text;
+            }
+
+            function escapeHtmlJs(text) {
+                if (!text) return '';
+                return String(text)
+                    .replace(/&/g, '&amp;')
+                    .replace(/</g, '&lt;')
+                    .replace(/>/g, '&gt;')
+                    .replace(/"/g, '&quot;');
+            }
+
+            function formatBytes(bytes) {
+                if (bytes === 0) return '0 B';
+                const k = 1024;
+                const sizes = ['B', 'KB', 'MB', 'GB'];
+                const i = Math.floor(Math.log(bytes) / Math.log(k));
+                return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + ' ' + sizes[i];
+            }
+        })();
+    </script>
+</body>
+</html>`;
+    }
+
+    public dispose(): void {
+        this._runner?.stop();
+        CollectionRunnerPanel.panels.delete(this._collection.id);
+        this._panel.dispose();
+        while (this._disposables.length) {
+            const d = this._disposables.pop();
+            if (d) {
+                d.dispose();
+            }
+        }
+    }
+}
+
+function resultKey(result: RunnerRequestResult): string {
+    return `${result.iteration}:${result.requestId}`;
+}
+
+function escapeHtml(text: string): string {
+    return text
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/'/g, '&#039;');
+}
@@ -1,6 +1,6 @@
 import * as vscode from 'vscode';
 import { getNonce, getVscodeElementsUri, getCodiconsUri, getSharedCssUri, getCollectionSettingsCssUri } from './webviewUtils';
-import { Collection, RequestHeader, AuthConfig, AuthType } from '../models/Collection';
+import { Collection, RequestHeader, AuthConfig, AuthType, HttpProtocol, HTTP_PROTOCOLS } from '../models/Collection';
 import { StorageService } from '../storage/StorageService';
 import { VariableService } from '../storage/VariableService';
 
@@ -209,9 +209,10 @@ export class CollectionSettingsPanel {
         }
     }
 
-    private async _saveSettings(data: { headers: RequestHeader[]; auth: AuthConfig }): Promise<void> {
+    private async _saveSettings(data: { headers: RequestHeader[]; auth: AuthConfig; protocol?: HttpProtocol }): Promise<void> {
         this._collection.defaultHeaders = data.headers;
         this._collection.defaultAuth = data.auth;
+        this._collection.protocol = data.protocol;
         this._collection.updatedAt = Date.now();
         await this._storageService.saveCollection(this._collection);
         vscode.commands.executeCommand('endpoint.refreshCollections');
@@ -231,6 +232,7 @@ export class CollectionSettingsPanel {
 
         const headers = this._collection.defaultHeaders || [];
         const auth = this._collection.defaultAuth || { type: 'none' as AuthType };
+        const protocol = this._collection.protocol || 'http1';
         const isRepoCollection = this._collection.storageType === 'repo';
         const hasWorkspace = vscode.workspace.workspaceFolders !== undefined && vscode.workspace.workspaceFolders.length > 0;
 
@@ -315,11 +317,14 @@ export class CollectionSettingsPanel {
             <vscode-single-select id="authType">
                 <vscode-option value="none" ${auth.type === 'none' ? 'selected' : ''}>No Auth</vscode-option>
                 <vscode-option value="basic" ${auth.type === 'basic' ? 'selected' : ''}>Basic Auth</vscode-option>
+            <vscode-option value="digest" ${auth.type === 'digest' ? 'selected' : ''}>Digest Auth</vscode-option>
                 <vscode-option value="bearer" ${auth.type === 'bearer' ? 'selected' : ''}>Bearer Token</vscode-option>
                 <vscode-option value="apikey" ${auth.type === 'apikey' ? 'selected' : ''}>API Key</vscode-option>
+                <vscode-option value="oauth2" ${auth.type === 'oauth2' ? 'selected' : ''}>OAuth 2.0</vscode-option>
+                <vscode-option value="awsv4" ${auth.type === 'awsv4' ? 'selected' : ''}>AWS Signature v4</vscode-option>
             </vscode-single-select>
 
-            <div id="authBasic" class="auth-fields ${auth.type === 'basic' ? 'active' : ''}">
+            <div id="authBasic" class="auth-fields ${auth.type === 'basic' || auth.type === 'digest' ? 'active' : ''}">
                 <div class="auth-field-row">
                     <label>Username</label>
                     <vscode-textfield id="authUsername" value="${escapeHtml(auth.username || '')}"></vscode-textfield>
@@ -369,9 +374,126 @@ export class CollectionSettingsPanel {
                     </vscode-single-select>
                 </div>
             </div>
+
+            <div id="authOAuth2" class="auth-fields ${auth.type === 'oauth2' ? 'active' : ''}">
+                <div class="auth-field-row">
+                    <label>Grant Type</label>
+                    <vscode-single-select id="authOAuth2GrantType">
+                        <vscode-option value="client_credentials" ${auth.grantType === 'client_credentials' || !auth.grantType ? 'selected' : ''}>Client Credentials</vscode-option>
+                        <vscode-option value="password" ${auth.grantType === 'password' ? 'selected' : ''}>Password</vscode-option>
+                        <vscode-option value="refresh_token" ${auth.grantType === 'refresh_token' ? 'selected' : ''}>Refresh Token</vscode-option>
+                    <vscode-option value="authorization_code" ${auth.grantType === 'authorization_code' ? 'selected' : ''}>Authorization Code (PKCE)</vscode-option>
+                    </vscode-single-select>
+                </div>
+                <div class="auth-field-row" data-oauth2-grant="authorization_code" style="${auth.grantType === 'authorization_code' ? '' : 'display: none;'}">
+                    <label>Auth URL</label>
+                    <vscode-textfield id="authOAuth2AuthUrl" value="${escapeHtml(auth.authUrl || '')}" placeholder="https://login.example.com/oauth/authorize"></vscode-textfield>
+                </div>
+                <div class="auth-field-row">
+                    <label>Token URL</label>
+                    <vscode-textfield id="authOAuth2TokenUrl" value="${escapeHtml(auth.tokenUrl || '')}" placeholder="https://login.example.com/oauth/token"></vscode-textfield>
+                </div>
+                <div class="auth-field-row" data-oauth2-grant="authorization_code" style="${auth.grantType === 'authorization_code' ? '' : 'display: none;'}">
+                    <label>Redirect URI</label>
+                    <vscode-textfield id="authOAuth2RedirectUri" value="${escapeHtml(auth.redirectUri || '')}" placeholder="http://127.0.0.1/callback"></vscode-textfield>
+                </div>
+                <div class="auth-field-row">
+                    <label>Client ID</label>
+                    <vscode-textfield id="authOAuth2ClientId" value="${escapeHtml(auth.clientId || '')}"></vscode-textfield>
+                </div>
+                <div class="auth-field-row">
+                    <label>Client Secret</label>
+                    <div class="secret-field-wrapper">
+                        <vscode-textfield id="authOAuth2ClientSecret" type="password" value="${escapeHtml(auth.clientSecret || '')}"></vscode-textfield>
+                        <span class="secret-toggle-btn" data-target="authOAuth2ClientSecret" title="Show/Hide">
+                            <span class="codicon codicon-eye"></span>
+                        </span>
+                    </div>
+                </div>
+                <div class="auth-field-row" data-oauth2-grant="password" style="${(auth.grantType || 'client_credentials') === 'password' ? '' : 'display: none;'}">
+                    <label>Username</label>
+                    <vscode-textfield id="authOAuth2Username" value="${escapeHtml(auth.username || '')}"></vscode-textfield>
+                </div>
+                <div class="auth-field-row" data-oauth2-grant="password" style="${(auth.grantType || 'client_credentials') === 'password' ? '' : 'display: none;'}">
+                    <label>Password</label>
+                    <div class="secret-field-wrapper">
+                        <vscode-textfield id="authOAuth2Password" type="password" value="${escapeHtml(auth.password || '')}"></vscode-textfield>
+                        <span class="secret-toggle-btn" data-target="authOAuth2Password" title="Show/Hide">
+                            <span class="codicon codicon-eye"></span>
+                        </span>
+                    </div>
+                </div>
+                <div class="auth-field-row" data-oauth2-grant="refresh_token" style="${(auth.grantType || 'client_credentials') === 'refresh_token' ? '' : 'display: none;'}">
+                    <label>Refresh Token</label>
+                    <div class="secret-field-wrapper">
+                        <vscode-textfield id="authOAuth2RefreshToken" type="password" value="${escapeHtml(auth.refreshToken || '')}"></vscode-textfield>
+                        <span class="secret-toggle-btn" data-target="authOAuth2RefreshToken" title="Show/Hide">
+                            <span class="codicon codicon-eye"></span>
+                        </span>
+                    </div>
+                </div>
+                <div class="auth-field-row">
+                    <label>Scope</label>
+                    <vscode-textfield id="authOAuth2Scope" value="${escapeHtml(auth.scope || '')}"></vscode-textfield>
+                </div>
+                <div class="auth-field-row">
+                    <label>Audience</label>
+                    <vscode-textfield id="authOAuth2Audience" value="${escapeHtml(auth.audience || '')}"></vscode-textfield>
+                </div>
+                <div class="auth-field-row">
+                    <label>Client Auth</label>
+                    <vscode-single-select id="authOAuth2ClientAuth">
+                        <vscode-option value="header" ${auth.clientAuth !== 'body' ? 'selected' : ''}>As Basic Auth header</vscode-option>
+                        <vscode-option value="body" ${auth.clientAuth === 'body' ? 'selected' : ''}>In request body</vscode-option>
+                    </vscode-single-select>
+                </div>
+                <p class="auth-hint">Tokens are fetched before sending, cached securely until they expire and refreshed automatically. Authorization Code opens your browser to sign in and receives the redirect on a local port.</p>
+            </div>
+
+            <div id="authAwsV4" class="auth-fields ${auth.type === 'awsv4' ? 'active' : ''}">
+                <div class="auth-field-row">
+                    <label>Access Key ID</label>
+                    <vscode-textfield id="authAwsAccessKeyId" value="${escapeHtml(auth.awsAccessKeyId || '')}"></vscode-textfield>
+                </div>
+                <div class="auth-field-row">
+                    <label>Secret Access Key</label>
+                    <div class="secret-field-wrapper">
+                        <vscode-textfield id="authAwsSecretAccessKey" type="password" value="${escapeHtml(auth.awsSecretAccessKey || '')}"></vscode-textfield>
+                        <span class="secret-toggle-btn" data-target="authAwsSecretAccessKey" title="Show/Hide">
+                            <span class="codicon codicon-eye"></span>
+                        </span>
+                    </div>
+                </div>
+                <div class="auth-field-row">
+                    <label>Session Token</label>
+                    <div class="secret-field-wrapper">
+                        <vscode-textfield id="authAwsSessionToken" type="password" value="${escapeHtml(auth.awsSessionToken || '')}"></vscode-textfield>
+                        <span class="secret-toggle-btn" data-target="authAwsSessionToken" title="Show/Hide">
+                            <span class="codicon codicon-eye"></span>
+                        </span>
+                    </div>
+                </div>
+                <div class="auth-field-row">
+                    <label>Region</label>
+                    <vscode-textfield id="authAwsRegion" value="${escapeHtml(auth.awsRegion || '')}" placeholder="us-east-1"></vscode-textfield>
+                </div>
+                <div class="auth-field-row">
+                    <label>Service</label>
+                    <vscode-textfield id="authAwsService" value="${escapeHtml(auth.awsService || '')}" placeholder="execute-api"></vscode-textfield>
+                </div>
+                <p class="auth-hint">The request is signed after variables are resolved, just before it is sent. Use <code>s3</code> as the service for S3-compatible storage.</p>
+            </div>
         </div>
     </div>
 
+    <div class="section">
+        <div class="section-title">Protocol</div>
+        <p class="info-text">HTTP version for requests in this collection that don't choose their own. Negotiate offers HTTP/2 and HTTP/1.1 to https:// servers; HTTP/2 also sends http:// requests as HTTP/2 without negotiating.</p>
+        <vscode-single-select id="protocol">
+            ${HTTP_PROTOCOLS.map(p => `<vscode-option value="${p.value}" ${p.value === protocol ? 'selected' : ''}>${p.label}</vscode-option>`).join('')}
+        </vscode-single-select>
+    </div>
+
     <div class="button-row">
         <vscode-button id="saveBtn">
             <span class="codicon codicon-save"></span>
@@ -425,6 +547,21 @@ export class CollectionSettingsPanel {
                 '#authToken',
                 '#authApiKeyName',
                 '#authApiKeyValue',
+                '#authOAuth2AuthUrl',
+                '#authOAuth2TokenUrl',
+                '#authOAuth2RedirectUri',
+                '#authOAuth2ClientId',
+                '#authOAuth2ClientSecret',
+                '#authOAuth2Username',
+                '#authOAuth2Password',
+                '#authOAuth2RefreshToken',
+                '#authOAuth2Scope',
+                '#authOAuth2Audience',
+                '#authAwsAccessKeyId',
+                '#authAwsSecretAccessKey',
+                '#authAwsSessionToken',
+                '#authAwsRegion',
+                '#authAwsService',
                 '[data-field="value"]' // Header value inputs
             ];
             
@@ -833,7 +970,8 @@ export class CollectionSettingsPanel {
             function collectAuthConfig() {
                 const authType = document.getElementById('authType').value;
                 const auth = { type: authType };
-                if (authType === 'basic') {
+                // Digest uses the same username/password fields as Basic
+                if (authType === 'basic' || authType === 'digest') {
                     auth.username = document.getElementById('authUsername').value;
                     auth.password = document.getElementById('authPassword').value;
                 } else if (authType === 'bearer') {
@@ -842,12 +980,53 @@ export class CollectionSettingsPanel {
                     auth.apiKeyName = document.getElementById('authApiKeyName').value;
                     auth.apiKeyValue = document.getElementById('authApiKeyValue').value;
                     auth.apiKeyIn = document.getElementById('authApiKeyIn').value;
+                } else if (authType === 'oauth2') {
+                    Object.entries(oauth2FieldIds).forEach(([field, id]) => {
+                        auth[field] = document.getElementById(id).value;
+                    });
+                } else if (authType === 'awsv4') {
+                    Object.entries(awsFieldIds).forEach(([field, id]) => {
+                        auth[field] = document.getElementById(id).value;
+                    });
                 }
                 return auth;
             }
 
+            // OAuth 2.0 form fields by AuthConfig property
+            const oauth2FieldIds = {
+                grantType: 'authOAuth2GrantType',
+                authUrl: 'authOAuth2AuthUrl',
+                tokenUrl: 'authOAuth2TokenUrl',
+                redirectUri: 'authOAuth2RedirectUri',
+                clientId: 'authOAuth2ClientId',
+                clientSecret: 'authOAuth2ClientSecret',
+                username: 'authOAuth2Username',
+                password: 'authOAuth2Password',
+                refreshToken: 'authOAuth2RefreshToken',
+                scope: 'authOAuth2Scope',
+                audience: 'authOAuth2Audience',
+                clientAuth: 'authOAuth2ClientAuth'
+            };
+
+            // AWS Signature v4 form fields by AuthConfig property
+            const awsFieldIds = {
+                awsAccessKeyId: 'authAwsAccessKeyId',
+                awsSecretAccessKey: 'authAwsSecretAccessKey',
+                awsSessionToken: 'authAwsSessionToken',
+                awsRegion: 'authAwsRegion',
+                awsService: 'authAwsService'
+            };
+
+            // Show only the OAuth 2.0 fields used by the selected grant
+            function updateOAuth2GrantRows() {
+                const grantType = document.getElementById('authOAuth2GrantType').value;
+                document.querySelectorAll('[data-oauth2-grant]').forEach(row => {
+                    row.style.display = row.dataset.oauth2Grant === grantType ? '' : 'none';
+                });
+            }
+
             // Auth type change handler
-            const authIdMap = { 'basic': 'authBasic', 'bearer': 'authBearer', 'apikey': 'authApiKey' };
+            const authIdMap = { 'basic': 'authBasic', 'digest': 'authBasic', 'bearer': 'authBearer', 'apikey': 'authApiKey', 'oauth2': 'authOAuth2', 'awsv4': 'authAwsV4' };
             document.getElementById('authType').addEventListener('change', (e) => {
                 const authType = e.target.value;
                 document.querySelectorAll('.auth-fields').forEach(el => el.classList.remove('active'));
@@ -859,6 +1038,8 @@ export class CollectionSettingsPanel {
                 }
             });
 
+            document.getElementById('authOAuth2GrantType').addEventListener('change', updateOAuth2GrantRows);
+
             // Secret field show/hide toggle
             document.querySelectorAll('.secret-toggle-btn').forEach(btn => {
                 btn.addEventListener('click', (e) => {
@@ -883,7 +1064,8 @@ export class CollectionSettingsPanel {
             document.getElementById('saveBtn').addEventListener('click', () => {
                 const headers = collectHeaderRows();
                 const auth = collectAuthConfig();
-                vscode.postMessage({ type: 'saveSettings', data: { headers, auth } });
+                const protocol = document.getElementById('protocol').value;
+                vscode.postMessage({ type: 'saveSettings', data: { headers, auth, protocol: protocol === 'http1' ? undefined : protocol } });
             });
 
             // Add header button
@@ -0,0 +1,714 @@
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { getNonce, getVscodeElementsUri, getCodiconsUri, getSharedCssUri, getGrpcCssUri } from './webviewUtils';
+import { Collection, GrpcTarget, Request } from '../models/Collection';
+import { HttpClient, RequestCancelledError } from '../http/HttpClient';
+import { createHttpClient, createOAuth2TokenProvider, expandPath } from '../http/HttpClientFactory';
+import { OAuth2TokenProvider } from '../http/OAuth2';
+import { buildRequest } from '../http/RequestBuilder';
+import { findUnaryMethod, getGrpcPath, getGrpcStatusName } from '../http/Grpc';
+import { createMessageTemplate, decodeMessage, encodeMessage, loadProtoSchema, ProtoSchema } from '../http/Protobuf';
+import { StorageService } from '../storage/StorageService';
+import { VariableService } from '../storage/VariableService';
+import { getLogger } from '../logger';
+
+/**
+ * URL, metadata, method and message as edited in the webview
+ */
+interface GrpcEdits {
+    url: string;
+    headers: { key: string; value: string; enabled: boolean }[];
+    grpc: GrpcTarget;
+    message: string;
+}
+
+/**
+ * Webview panel for a gRPC request: loads services from a workspace .proto file, prefills
+ * the request message from the method's input type and invokes unary methods with the
+ * collection's headers and auth as metadata.
+ */
+export class GrpcPanel {
+    private static panels: Map<string, GrpcPanel> = new Map();
+    private static _storageService: StorageService | undefined;
+    private static _variableService: VariableService | undefined;
+    private static _httpClient: HttpClient | undefined;
+    private static _oauth2: OAuth2TokenProvider | undefined;
+
+    private readonly _panel: vscode.WebviewPanel;
+    private readonly _extensionUri: vscode.Uri;
+    private readonly _collectionId: string | undefined;
+    private _request: Request;
+    /** Aborts the call in flight (Cancel button, panel closed) */
+    private _invokeController: AbortController | undefined;
+    private _disposables: vscode.Disposable[] = [];
+
+    public static initialize(
+        storageService: StorageService,
+        variableService: VariableService
+    ): void {
+        GrpcPanel._storageService = storageService;
+        GrpcPanel._variableService = variableService;
+        GrpcPanel._httpClient = createHttpClient(storageService);
+        GrpcPanel._oauth2 = createOAuth2TokenProvider(GrpcPanel._httpClient, storageService);
+    }
+
+    private constructor(
+        panel: vscode.WebviewPanel,
+        extensionUri: vscode.Uri,
+        request: Request,
+        collection: Collection | undefined
+    ) {
+        this._panel = panel;
+        this._extensionUri = extensionUri;
+        this._request = request;
+        this._collectionId = collection?.id;
+
+        this._panel.webview.html = this._getHtml(collection);
+
+        this._panel.onDidDispose(() => this.dispose(), null, this._disposables);
+
+        this._panel.webview.onDidReceiveMessage(
+            message => this._handleMessage(message),
+            null,
+            this._disposables
+        );
+    }
+
+    public static async openRequest(extensionUri: vscode.Uri, request: Request, collectionId?: string): Promise<GrpcPanel> {
+        const column = vscode.window.activeTextEditor?.viewColumn;
+
+        const existingPanel = GrpcPanel.panels.get(request.id);
+        if (existingPanel) {
+            existingPanel._panel.reveal(column);
+            return existingPanel;
+        }
+
+        const collection = collectionId ? await GrpcPanel._storageService?.getCollectionAsync(collectionId) : undefined;
+
+        const panel = vscode.window.createWebviewPanel(
+            'endpointGrpc',
+            request.name,
+            column || vscode.ViewColumn.One,
+            {
+                enableScripts: true,
+                retainContextWhenHidden: true,
+                localResourceRoots: [
+                    vscode.Uri.joinPath(extensionUri, 'dist')
+                ]
+            }
+        );
+
+        panel.iconPath = new vscode.ThemeIcon('server-process');
+
+        const grpcPanel = new GrpcPanel(panel, extensionUri, { ...request, headers: [...request.headers] }, collection);
+        GrpcPanel.panels.set(request.id, grpcPanel);
+        return grpcPanel;
+    }
+
+    /**
+     * Invoke the saved method with the saved message, unless a call is in flight
+     */
+    public invoke(): void {
+        this._invoke();
+    }
+
+    private _handleMessage(message: any): void {
+        switch (message.type) {
+            case 'loadSchema':
+                this._sendSchema();
+                break;
+            case 'selectProtoFile':
+                this._selectProtoFile();
+                break;
+            case 'invoke':
+                this._applyEdits(message.data);
+                this._invoke();
+                break;
+            case 'cancel':
+                this._invokeController?.abort();
+                break;
+            case 'save':
+                this._applyEdits(message.data);
+                this._save();
+                break;
+        }
+    }
+
+    private _applyEdits(edits: GrpcEdits): void {
+        this._request = {
+            ...this._request,
+            url: edits.url,
+            headers: edits.headers.map(h => ({ name: h.key, value: h.value, enabled: h.enabled })),
+            grpc: edits.grpc,
+            body: { type: 'json', content: edits.message },
+        };
+    }
+
+    /**
+     * Pick a .proto file of the workspace - stored relative to the workspace folder like upload files
+     */
+    private async _selectProtoFile(): Promise<void> {
+        const files = await vscode.workspace.findFiles('**/*.proto', '**/node_modules/**', 1000);
+        const browse = vscode.l10n.t('Browse...');
+        const items: vscode.QuickPickItem[] = [
+            ...files.map(uri => ({ label: vscode.workspace.asRelativePath(uri, false) })).sort((a, b) => a.label.localeCompare(b.label)),
+            { label: browse, alwaysShow: true },
+        ];
+        const selected = await vscode.window.showQuickPick(items, {
+            placeHolder: files.length ? vscode.l10n.t('Select the .proto file that defines the service') : vscode.l10n.t('No .proto files in the workspace'),
+        });
+        if (!selected) {
+            return;
+        }
+
+        let protoFile = selected.label;
+        if (selected.label === browse) {
+            const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
+            const uris = await vscode.window.showOpenDialog({
+                canSelectMany: false,
+                defaultUri: workspaceFolder?.uri,
+                filters: { [vscode.l10n.t('Protocol Buffers')]: ['proto'] },
+                openLabel: vscode.l10n.t('Select .proto File'),
+            });
+            if (!uris || uris.length === 0) {
+                return;
+            }
+            const inWorkspace = !!workspaceFolder && vscode.workspace.getWorkspaceFolder(uris[0])?.index === workspaceFolder.index;
+            protoFile = inWorkspace ? vscode.workspace.asRelativePath(uris[0], false) : uris[0].fsPath;
+        }
+        this._request = { ...this._request, grpc: { protoFile, service: '', method: '' } };
+        await this._sendSchema();
+    }
+
+    /**
+     * Load the request's .proto file and post its services, with a message template for each method
+     */
+    private async _sendSchema(): Promise<void> {
+        const protoFile = this._request.grpc?.protoFile;
+        if (!protoFile) {
+            return;
+        }
+        try {
+            const schema = await this._loadSchema(protoFile);
+            const services = Object.values(schema.services).map(service => ({
+                name: service.name,
+                methods: service.methods.map(method => ({
+                    name: method.name,
+                    inputType: method.inputType,
+                    outputType: method.outputType,
+                    streaming: method.clientStreaming && method.serverStreaming ? 'bidi'
+                        : method.clientStreaming ? 'client'
+                        : method.serverStreaming ? 'server'
+                        : undefined,
+                    template: JSON.stringify(createMessageTemplate(schema, method.inputType), null, 2),
+                })),
+            }));
+            this._post({ type: 'schema', data: { protoFile, services } });
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+            this._post({ type: 'schema', data: { protoFile, services: [], error: errorMessage } });
+        }
+    }
+
+    /**
+     * Read a .proto file fresh from disk, so edits show up without reopening the panel.
+     * Imports are looked up from the file's directory up to the workspace folder.
+     */
+    private async _loadSchema(protoFile: string): Promise<ProtoSchema> {
+        const file = expandPath(protoFile)!;
+        const root = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
+        const importPaths: string[] = [];
+        let directory = path.dirname(file);
+        while (true) {
+            importPaths.push(directory);
+            const parent = path.dirname(directory);
+            if (directory === root || parent === directory || (root && !parent.startsWith(root))) {
+                break;
+            }
+            directory = parent;
+        }
+        return loadProtoSchema(file, importPaths);
+    }
+
+    private async _invoke(): Promise<void> {
+        if (this._invokeController) {
+            return;
+        }
+        if (!GrpcPanel._httpClient || !GrpcPanel._variableService || !GrpcPanel._storageService) {
+            vscode.window.showErrorMessage(vscode.l10n.t('Storage not initialized. Please reload the extension.'));
+            return;
+        }
+
+        const logger = getLogger();
+        const variableService = GrpcPanel._variableService;
+        const target = this._request.grpc;
+        if (!target?.protoFile || !target.service || !target.method) {
+            this._post({ type: 'error', data: { message: vscode.l10n.t('Select a .proto file, a service and a method first') } });
+            return;
+        }
+        const controller = new AbortController();
+        this._invokeController = controller;
+        this._post({ type: 'invoking' });
+
+        try {
+            const schema = await this._loadSchema(target.protoFile);
+            const { method } = findUnaryMethod(schema, target.service, target.method);
+
+            const text = await variableService.resolveText(this._request.body.content || '{}', this._collectionId);
+            let json: unknown;
+            try {
+                json = JSON.parse(text);
+            } catch (error) {
+                const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+                throw new Error(vscode.l10n.t('Invalid JSON: {0}', errorMessage));
+            }
+            const message = encodeMessage(schema, method.inputType, json);
+
+            // Collection headers and auth become metadata; the message isn't an HTTP body
+            const collection = this._collectionId ? await GrpcPanel._storageService.getCollectionAsync(this._collectionId) : undefined;
+            const request = await buildRequest(
+                { ...this._request, body: { type: 'none', content: '' } },
+                collection,
+                resolvedText => variableService.resolveText(resolvedText, this._collectionId),
+                GrpcPanel._oauth2
+            );
+            const response = await GrpcPanel._httpClient.invokeGrpc(request, getGrpcPath(target.service, target.method), message, controller.signal);
+
+            let body: string | undefined;
+            let decodeError: string | undefined;
+            if (response.message) {
+                try {
+                    body = JSON.stringify(decodeMessage(schema, method.outputType, response.message), null, 2);
+                } catch (error) {
+                    decodeError = vscode.l10n.t('Could not decode {0}: {1}', method.outputType, error instanceof Error ? error.message : 'Unknown error');
+                    logger.warn('Could not decode gRPC response', { type: method.outputType, error: decodeError });
+                }
+            }
+            this._post({
+                type: 'response',
+                data: {
+                    status: response.status,
+                    statusName: getGrpcStatusName(response.status),
+                    statusMessage: response.statusMessage,
+                    time: response.time,
+                    size: response.message?.length ?? 0,
+                    body,
+                    decodeError,
+                    headers: response.headers,
+                    trailers: response.trailers,
+                },
+            });
+        } catch (error) {
+            const errorMessage = error instanceof RequestCancelledError
+                ? vscode.l10n.t('Request cancelled')
+                : error instanceof Error ? error.message : 'Unknown error';
+            this._post({ type: 'error', data: { message: errorMessage } });
+        } finally {
+            this._invokeController = undefined;
+        }
+    }
+
+    private async _save(): Promise<void> {
+        if (!GrpcPanel._storageService) {
+            vscode.window.showErrorMessage(vscode.l10n.t('Storage not initialized. Please reload the extension.'));
+            return;
+        }
+
+        const collection = this._collectionId ? await GrpcPanel._storageService.getCollectionAsync(this._collectionId) : undefined;
+        const requestIndex = collection ? collection.requests.findIndex(r => r.id === this._request.id) : -1;
+        if (!collection || requestIndex === -1) {
+            vscode.window.showErrorMessage(vscode.l10n.t('Request not found in its collection'));
+            return;
+        }
+
+        this._request.updatedAt = Date.now();
+        collection.requests[requestIndex] = {
+            ...collection.requests[requestIndex],
+            url: this._request.url,
+            headers: this._request.headers,
+            body: this._request.body,
+            grpc: this._request.grpc,
+            updatedAt: this._request.updatedAt
+        };
+        collection.updatedAt = Date.now();
+        await GrpcPanel._storageService.saveCollection(collection);
+
+        vscode.window.showInformationMessage(vscode.l10n.t('Request saved to "{0}".', collection.name));
+        vscode.commands.executeCommand('endpoint.refreshCollections');
+    }
+
+    private _post(message: { type: string; data?: unknown }): void {
+        this._panel.webview.postMessage(message);
+    }
+
+    private _getHtml(collection: Collection | undefined): string {
+        const nonce = getNonce();
+        const { bundleUri } = getVscodeElementsUri(this._panel.webview, this._extensionUri);
+        const codiconsUri = getCodiconsUri(this._panel.webview, this._extensionUri);
+        const sharedCssUri = getSharedCssUri(this._panel.webview, this._extensionUri);
+        const grpcCssUri = getGrpcCssUri(this._panel.webview, this._extensionUri);
+
+        const inheritsHeaders = (collection?.defaultHeaders || []).some(h => h.enabled && h.name);
+        const inheritsAuth = !!collection?.defaultAuth && collection.defaultAuth.type !== 'none' && this._request.useInheritedAuth !== false;
+        const state = {
+            url: this._request.url,
+            headers: this._request.headers.map(h => ({ key: h.name, value: h.value, enabled: h.enabled })),
+            grpc: this._request.grpc || { protoFile: '', service: '', method: '' },
+            message: this._request.body.content || '',
+        };
+
+        return /* html */ `<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src ${this._panel.webview.cspSource}; font-src ${this._panel.webview.cspSource}; script-src ${this._panel.webview.cspSource} 'nonce-${nonce}';">
+    <link href="${codiconsUri}" rel="stylesheet" />
+    <link href="${sharedCssUri}" rel="stylesheet" />
+    <link href="${grpcCssUri}" rel="stylesheet" />
+    <title>gRPC</title>
+</head>
+<body>
+    <div class="grpc-url-bar">
+        <span class="grpc-badge">gRPC</span>
+        <vscode-textfield id="url" placeholder="grpc://localhost:50051" value="${escapeHtml(this._request.url)}"></vscode-textfield>
+        <vscode-button id="invokeBtn">
+            <span class="codicon codicon-play"></span>
+            Invoke
+        </vscode-button>
+        <vscode-button id="saveBtn" appearance="secondary">
+            <span class="codicon codicon-save"></span>
+            Save
+        </vscode-button>
+    </div>
+
+    <div class="grpc-method-bar">
+        <vscode-button id="protoFileBtn" appearance="secondary" title="Select the .proto file that defines the service">
+            <span class="codicon codicon-file-code"></span>
+            <span id="protoFileName">Select .proto File</span>
+        </vscode-button>
+        <vscode-single-select id="service" disabled></vscode-single-select>
+        <vscode-single-select id="method" disabled></vscode-single-select>
+    </div>
+    <div id="schemaStatus" class="grpc-schema-status"></div>
+
+    <details class="grpc-section">
+        <summary>Metadata <span class="grpc-count" id="headerCount"></span></summary>
+        ${inheritsHeaders || inheritsAuth ? `<div class="grpc-inherited"><span class="codicon codicon-info"></span> ${escapeHtml(inheritsAuth ? 'Collection headers and auth are sent as metadata too' : 'Collection headers are sent as metadata too')}</div>` : ''}
+        <table class="key-value-table">
+            <thead>
+                <tr>
+                    <th class="checkbox-cell"></th>
+                    <th>Key</th>
+                    <th>Value</th>
+                    <th class="delete-cell"></th>
+                </tr>
+            </thead>
+            <tbody id="headersBody"></tbody>
+        </table>
+        <vscode-button id="addHeaderBtn" class="add-row-btn" appearance="secondary">
+            <span class="codicon codicon-add"></span>
+            Add Metadata
+        </vscode-button>
+    </details>
+
+    <div class="grpc-message">
+        <div class="grpc-message-header">
+            <span>Message <span class="grpc-count" id="inputType"></span></span>
+            <vscode-button id="templateBtn" appearance="secondary" title="Replace the message with the defaults of every field" disabled>
+                <span class="codicon codicon-symbol-structure"></span>
+                Reset from Schema
+            </vscode-button>
+        </div>
+        <vscode-textarea id="message" rows="10" placeholder="Request message as JSON - {{variables}} are resolved when invoking" resize="vertical"></vscode-textarea>
+    </div>
+
+    <div class="grpc-response">
+        <div class="grpc-response-header">
+            <span>Response <span class="grpc-count" id="outputType"></span></span>
+            <span id="responseStatus" class="grpc-status"></span>
+        </div>
+        <pre id="responseBody" class="grpc-response-body"><span class="grpc-empty">Invoke the method to see its response</span></pre>
+        <details class="grpc-section">
+            <summary>Headers <span class="grpc-count" id="responseHeaderCount"></span></summary>
+            <div id="responseHeaders"></div>
+        </details>
+        <details class="grpc-section" open>
+            <summary>Trailers <span class="grpc-count" id="trailerCount"></span></summary>
+            <div id="responseTrailers"></div>
+        </details>
+    </div>
+
+    <script type="module" nonce="${nonce}" src="${bundleUri}"></script>
+    <script nonce="${nonce}">
+        (function() {
+            const vscode = acquireVsCodeApi();
+
+            const state = ${JSON.stringify(state).replace(/</g, '\\u003c')};
+            let services = [];
+            let invoking = false;
+
+            const urlInput = document.getElementById('url');
+            const invokeBtn = document.getElementById('invokeBtn');
+            const serviceSelect = document.getElementById('service');
+            const methodSelect = document.getElementById('method');
+            const messageInput = document.getElementById('message');
+            const templateBtn = document.getElementById('templateBtn');
+            const headersBody = document.getElementById('headersBody');
+
+            messageInput.value = state.message;
+            renderHeaders();
+            renderProtoFile();
+            if (state.grpc.protoFile) {
+                setSchemaStatus('Loading ' + state.grpc.protoFile + '...');
+                vscode.postMessage({ type: 'loadSchema' });
+            }
+
+            invokeBtn.addEventListener('click', () => {
+                if (invoking) {
+                    vscode.postMessage({ type: 'cancel' });
+                    return;
+                }
+                vscode.postMessage({ type: 'invoke', data: collectEdits() });
+            });
+            document.getElementById('saveBtn').addEventListener('click', () => vscode.postMessage({ type: 'save', data: collectEdits() }));
+            document.getElementById('protoFileBtn').addEventListener('click', () => vscode.postMessage({ type: 'selectProtoFile' }));
+            document.getElementById('addHeaderBtn').addEventListener('click', () => {
+                state.headers = collectHeaders();
+                state.headers.push({ key: '', value: '', enabled: true });
+                renderHeaders();
+            });
+            templateBtn.addEventListener('click', () => {
+                const method = findMethod();
+                if (method) {
+                    messageInput.value = method.template;
+                }
+            });
+
+            serviceSelect.addEventListener('change', () => {
+                state.grpc.service = serviceSelect.value;
+                state.grpc.method = '';
+                renderMethods();
+            });
+            methodSelect.addEventListener('change', () => selectMethod(methodSelect.value));
+
+            headersBody.addEventListener('click', (e) => {
+                const button = e.target.closest('.delete-btn');
+                if (button) {
+                    state.headers = collectHeaders();
+                    state.headers.splice(Number(button.dataset.index), 1);
+                    renderHeaders();
+                }
+            });
+            headersBody.addEventListener('input', () => updateHeaderCount());
+            headersBody.addEventListener('change', () => updateHeaderCount());
+
+            window.addEventListener('message', event => {
+                const message = event.data;
+                switch (message.type) {
+                    case 'schema':
+                        if (message.data.protoFile !== state.grpc.protoFile) {
+                            state.grpc = { protoFile: message.data.protoFile, service: '', method: '' };
+                        }
+                        services = message.data.services;
+                        renderProtoFile();
+                        if (message.data.error) {
+                            setSchemaStatus(message.data.error, true);
+                        } else if (services.length === 0) {
+                            setSchemaStatus('No services in ' + message.data.protoFile, true);
+                        } else {
+                            setSchemaStatus('');
+                        }
+                        renderServices();
+                        break;
+                    case 'invoking':
+                        setInvoking(true);
+                        document.getElementById('responseStatus').className = 'grpc-status';
+                        document.getElementById('responseStatus').textContent = 'Invoking...';
+                        break;
+                    case 'response':
+                        setInvoking(false);
+                        showResponse(message.data);
+                        break;
+                    case 'error':
+                        setInvoking(false);
+                        showError(message.data.message);
+                        break;
+                }
+            });
+
+            function collectEdits() {
+                state.url = urlInput.value;
+                state.headers = collectHeaders();
+                state.message = messageInput.value;
+                return state;
+            }
+
+            function collectHeaders() {
+                return Array.from(headersBody.querySelectorAll('tr')).map(row => ({
+                    key: row.querySelector('vscode-textfield[data-field="key"]').value || '',
+                    value: row.querySelector('vscode-textfield[data-field="value"]').value || '',
+                    enabled: row.querySelector('vscode-checkbox').checked
+                }));
+            }
+
+            function renderHeaders() {
+                headersBody.innerHTML = state.headers.map((h, index) =>
+                    '<tr class="key-value-row">' +
+                        '<td class="checkbox-cell"><vscode-checkbox ' + (h.enabled ? 'checked' : '') + '></vscode-checkbox></td>' +
+                        '<td><vscode-textfield data-field="key" placeholder="Key" value="' + escapeHtmlJs(h.key) + '"></vscode-textfield></td>' +
+                        '<td><vscode-textfield data-field="value" placeholder="Value" value="' + escapeHtmlJs(h.value) + '"></vscode-textfield></td>' +
+                        '<td class="delete-cell"><button class="delete-btn" data-index="' + index + '"><span class="codicon codicon-trash"></span></button></td>' +
+                    '</tr>'
+                ).join('');
+                updateHeaderCount();
+            }
+
+            function updateHeaderCount() {
+                const count = collectHeaders().filter(h => h.enabled && h.key).length;
+                document.getElementById('headerCount').textContent = count ? '(' + count + ')' : '';
+            }
+
+            function renderProtoFile() {
+                document.getElementById('protoFileName').textContent = state.grpc.protoFile || 'Select .proto File';
+            }
+
+            function renderServices() {
+                if (!services.some(s => s.name === state.grpc.service)) {
+                    state.grpc.service = services.length ? services[0].name : '';
+                    state.grpc.method = '';
+                }
+                serviceSelect.innerHTML = services.map(s =>
+                    '<vscode-option value="' + escapeHtmlJs(s.name) + '"' + (s.name === state.grpc.service ? ' selected' : '') + '>' + escapeHtmlJs(s.name) + '</vscode-option>'
+                ).join('');
+                serviceSelect.disabled = services.length === 0;
+                serviceSelect.value = state.grpc.service;
+                renderMethods();
+            }
+
+            function renderMethods() {
+                const service = services.find(s => s.name === state.grpc.service);
+                const methods = service ? service.methods : [];
+                if (!methods.some(m => m.name === state.grpc.method)) {
+                    const firstUnary = methods.find(m => !m.streaming);
+                    state.grpc.method = firstUnary ? firstUnary.name : '';
+                }
+                methodSelect.innerHTML = methods.map(m =>
+                    '<vscode-option value="' + escapeHtmlJs(m.name) + '"' + (m.name === state.grpc.method ? ' selected' : '') + (m.streaming ? ' disabled' : '') + '>' +
+                        escapeHtmlJs(m.name) + (m.streaming ? ' (' + m.streaming + ' streaming)' : '') +
+                    '</vscode-option>'
+                ).join('');
+                methodSelect.disabled = methods.length === 0;
+                methodSelect.value = state.grpc.method;
+                selectMethod(state.grpc.method);
+            }
+
+            function selectMethod(name) {
+                state.grpc.method = name;
+                const method = findMethod();
+                document.getElementById('inputType').textContent = method ? '(' + method.inputType + ')' : '';
+                document.getElementById('outputType').textContent = method ? '(' + method.outputType + ')' : '';
+                templateBtn.disabled = !method;
+                // Keep what the user wrote - only empty messages and untouched templates are replaced
+                const current = messageInput.value.trim();
+                const untouched = !current || current === '{}' || services.some(s => s.methods.some(m => m.template === current));
+                if (method && untouched) {
+                    messageInput.value = method.template;
+                }
+            }
+
+            function findMethod() {
+                const service = services.find(s => s.name === state.grpc.service);
+                return service ? service.methods.find(m => m.name === state.grpc.method) : undefined;
+            }
+
+            function setSchemaStatus(text, isError) {
+                const status = document.getElementById('schemaStatus');
+                status.textContent = text;
+                status.className = 'grpc-schema-status' + (isError ? ' grpc-error' : '');
+            }
+
+            function setInvoking(value) {
+                invoking = value;
+                invokeBtn.innerHTML = value
+                    ? '<span class="codicon codicon-close"></span> Cancel'
+                    : '<span class="codicon codicon-play"></span> Invoke';
+            }
+
+            function showResponse(response) {
+                const status = document.getElementById('responseStatus');
+                status.className = 'grpc-status ' + (response.status === 0 ? 'grpc-ok' : 'grpc-error');
+                status.textContent = response.statusName + ' (' + response.status + ')' +
+                    (response.statusMessage ? ' - ' + response.statusMessage : '') +
+                    ' · ' + response.time + ' ms' + (response.status === 0 ? ' · ' + formatBytes(response.size) : '');
+                const body = document.getElementById('responseBody');
+                if (response.body !== undefined) {
+                    body.textContent = response.body;
+                } else {
+                    body.innerHTML = '<span class="grpc-empty' + (response.decodeError ? ' grpc-error' : '') + '">' +
+                        escapeHtmlJs(response.decodeError || (response.status === 0 ? 'The response has no message' : 'The call failed - see the status and trailers')) +
+                    '</span>';
+                }
+                renderMetadata('responseHeaders', 'responseHeaderCount', response.headers);
+                renderMetadata('responseTrailers', 'trailerCount', response.trailers);
+            }
+
+            function showError(text) {
+                const status = document.getElementById('responseStatus');
+                status.className = 'grpc-status grpc-error';
+                status.textContent = text;
+            }
+
+            function renderMetadata(containerId, countId, values) {
+                const entries = Object.entries(values || {});
+                document.getElementById(countId).textContent = entries.length ? '(' + entries.length + ')' : '';
+                document.getElementById(containerId).innerHTML = entries.length === 0
+                    ? '<div class="grpc-empty">None</div>'
+                    : '<table class="grpc-metadata">' + entries.map(([name, value]) =>
+                        '<tr><td class="grpc-metadata-name">' + escapeHtmlJs(name) + '</td><td>' + escapeHtmlJs(value) + '</td></tr>'
+                    ).join('') + '</table>';
+            }
+
+            function escapeHtmlJs(text) {
+                if (!text) return '';
+                return String(text)
+                    .replace(/&/g, '&amp;')
+                    .replace(/</g, '&lt;')
+                    .replace(/>/g, '&gt;')
+                    .replace(/"/g, '&quot;');
+            }
+
+            function formatBytes(bytes) {
+                if (bytes === 0) return '0 B';
+                const k = 1024;
+                const sizes = ['B', 'KB', 'MB', 'GB'];
+                const i = Math.floor(Math.log(bytes) / Math.log(k));
+                return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + ' ' + sizes[i];
+            }
+        })();
+    </script>
+</body>
+</html>`;
+    }
+
+    public dispose(): void {
+        this._invokeController?.abort();
+        GrpcPanel.panels.delete(this._request.id);
+        this._panel.dispose();
+        while (this._disposables.length) {
+            const d = this._disposables.pop();
+            if (d) {
+                d.dispose();
+            }
+        }
+    }
+}
+
+function escapeHtml(text: string): string {
+    return text
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/'/g, '&#039;');
+}
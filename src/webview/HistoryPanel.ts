@@ -2,6 +2,7 @@ import * as vscode from 'vscode';
 import { HistoryItem } from '../models/HistoryItem';
 import { StorageService } from '../storage/StorageService';
 import { SyntaxHighlighter } from '../http/SyntaxHighlighter';
+import { formatTiming, TIMING_PHASES } from '../http/Timings';
 import { getNonce, getVscodeElementsUri, getCodiconsUri, getSharedCssUri, getRequestViewCssUri, getHistoryViewCssUri } from './webviewUtils';
 import { RequestPanel } from './RequestPanel';
 
@@ -313,6 +314,22 @@ export class HistoryPanel {
                 });
         }
 
+        // Assertion results recorded when the request was sent
+        const testResults = item.assertionResults || [];
+        const testsPassed = testResults.filter(r => r.passed).length;
+
+        // Waterfall bars - each phase starts where the previous one ended
+        const timings = item.timings;
+        let timingOffset = 0;
+        const timingRows = timings ? TIMING_PHASES.map(phase => {
+            const total = Math.max(timings.total, 0.01);
+            const duration = timings[phase.key];
+            const left = Math.min(timingOffset / total * 100, 100);
+            const width = Math.min(duration / total * 100, 100 - left);
+            timingOffset += duration;
+            return { label: phase.label, key: phase.key, duration, left, width };
+        }) : [];
+
         return /* html */ `<!DOCTYPE html>
 <html lang="en">
 <head>
@@ -443,6 +460,8 @@ export class HistoryPanel {
                     <vscode-tab-header slot="header">Body</vscode-tab-header>
                     <vscode-tab-header slot="header">Headers${item.responseHeaders ? ` <span class="tab-badge">${item.responseHeaders.filter(h => h.name.toLowerCase() !== 'set-cookie').length}</span>` : ''}</vscode-tab-header>
                     <vscode-tab-header slot="header">Cookies${cookies.length > 0 ? ` <span class="tab-badge">${cookies.length}</span>` : ''}</vscode-tab-header>
+                    ${testResults.length > 0 ? `<vscode-tab-header slot="header">Tests <span class="tab-badge ${testsPassed === testResults.length ? 'tests-passed' : 'tests-failed'}">${testsPassed}/${testResults.length}</span></vscode-tab-header>` : ''}
+                    ${timings ? '<vscode-tab-header slot="header">Timing</vscode-tab-header>' : ''}
 
                     <!-- Response Body Tab -->
                     <vscode-tab-panel>
@@ -506,6 +525,54 @@ export class HistoryPanel {
                             </table>
                         ` : '<div class="no-data">No cookies in response</div>'}
                     </vscode-tab-panel>
+
+                    ${testResults.length > 0 ? `
+                    <!-- Test Results Tab -->
+                    <vscode-tab-panel>
+                        <table class="headers-table test-results-table">
+                            <thead>
+                                <tr>
+                                    <th class="test-result-icon"></th>
+                                    <th>Test</th>
+                                    <th>Actual</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                ${testResults.map(r => `
+                                    <tr class="${r.passed ? 'test-passed' : 'test-failed'}">
+                                        <td class="test-result-icon"><span class="codicon ${r.passed ? 'codicon-pass' : 'codicon-error'}"></span></td>
+                                        <td>${escapeHtml(r.description)}${r.message ? `<div class="test-result-message">${escapeHtml(r.message)}</div>` : ''}</td>
+                                        <td>${r.actual !== undefined ? escapeHtml(r.actual) : '<span class="test-result-missing">(none)</span>'}</td>
+                                    </tr>
+                                `).join('')}
+                            </tbody>
+                        </table>
+                    </vscode-tab-panel>
+                    ` : ''}
+
+                    ${timings ? `
+                    <!-- Timing Tab -->
+                    <vscode-tab-panel>
+                        <table class="timing-table">
+                            <tbody>
+                                ${timingRows.map(r => `
+                                    <tr>
+                                        <td class="timing-label">${r.label}</td>
+                                        <td class="timing-track"><div class="timing-bar timing-${r.key}" style="margin-left: ${r.left}%; width: ${r.width}%;"></div></td>
+                                        <td class="timing-duration">${formatTiming(r.duration)}</td>
+                                    </tr>
+                                `).join('')}
+                            </tbody>
+                            <tfoot>
+                                <tr>
+                                    <td class="timing-label">Total</td>
+                                    <td></td>
+                                    <td class="timing-duration">${formatTiming(timings.total)}</td>
+                                </tr>
+                            </tfoot>
+                        </table>
+                    </vscode-tab-panel>
+                    ` : ''}
                 </vscode-tabs>
             </div>
         </div>
@@ -1,15 +1,24 @@
 import * as vscode from 'vscode';
-import { generateRequestPanelHtml, RequestData, getDefaultRequestData, requestToRequestData } from './RequestPanelHtml';
-import { Request } from '../models/Collection';
+import { generateRequestPanelHtml, RequestData, getDefaultRequestData, requestDataToRequest, requestToRequestData } from './RequestPanelHtml';
+import { Request, AuthConfig, isHttpRequest } from '../models/Collection';
+import { Assertion } from '../models/Assertion';
 import { HistoryItem, createHistoryItem } from '../models/HistoryItem';
-import { HttpClient } from '../http/HttpClient';
+import { HttpClient, RequestCancelledError, ResponseStreamHandler } from '../http/HttpClient';
+import { createHttpClient, createOAuth2TokenProvider } from '../http/HttpClientFactory';
+import { OAuth2TokenProvider } from '../http/OAuth2';
+import { buildRequest, getEffectiveAuth, mergeHeaders, OAuth2Authorizer } from '../http/RequestBuilder';
+import { getCompletions, GraphQLDiagnostic, INTROSPECTION_QUERY, parseGraphQLBody, parseIntrospectionResult, validateQuery } from '../http/GraphQL';
+import { getPreviewType, getResponseFileName, MAX_PREVIEW_BYTES } from '../http/BinaryContent';
+import { formatHexDump, MAX_HEX_DUMP_BYTES } from '../http/ContentEncoding';
+import { EventStreamParser, getStreamKind, StreamEvent, StreamKind } from '../http/EventStream';
+import { evaluateAssertions } from '../http/AssertionEvaluator';
 import { HttpResponse } from '../http/ResponseContentProvider';
 import { ResponseDisplay } from '../http/ResponseDisplay';
-import { StorageService } from '../storage/StorageService';
+import { CachedGraphQLSchema, StorageService } from '../storage/StorageService';
 import { VariableService } from '../storage/VariableService';
 import { ResponseStorage } from '../storage/ResponseStorage';
-import { maskAuthHeaders, maskResponseHeaders, sanitizeUrl, shouldStoreBody, truncateBody, sanitizeBody, sanitizeFormBody } from '../storage/HistorySanitizer';
-import { getGenerator } from '../codegen';
+import { maskAuthHeaders, maskResponseHeaders, sanitizeUrl, shouldStoreBody, truncateBody, sanitizeBody, sanitizeRequestBody } from '../storage/HistorySanitizer';
+import { applyRequestBody, getGenerator } from '../codegen';
 import { SyntaxHighlighter } from '../http/SyntaxHighlighter';
 import { DirtyStateProvider } from '../providers/DirtyStateProvider';
 import { getLogger } from '../logger';
@@ -21,6 +30,7 @@ export class RequestPanel {
     private static _storageService: StorageService | undefined;
     private static _variableService: VariableService | undefined;
     private static _httpClient: HttpClient | undefined;
+    private static _oauth2: OAuth2TokenProvider | undefined;
 
     private readonly _panel: vscode.WebviewPanel;
     private readonly _extensionUri: vscode.Uri;
@@ -29,9 +39,14 @@ export class RequestPanel {
     private _requestId: string | undefined;
     private _collectionId: string | undefined;
     private _lastResponse: HttpResponse | undefined;
+    private _lastResponseUrl: string = '';
     private _isDirty: boolean = false;
     private _originalDataHash: string = '';
     private _baseName: string = '';
+    /** Aborts the request in flight (Cancel button, panel closed) */
+    private _abortController: AbortController | undefined;
+    /** Ends the event stream being shown (Stop button) - the response keeps what has arrived */
+    private _stopController: AbortController | undefined;
 
     public static initialize(
         storageService: StorageService,
@@ -39,7 +54,8 @@ export class RequestPanel {
     ): void {
         RequestPanel._storageService = storageService;
         RequestPanel._variableService = variableService;
-        RequestPanel._httpClient = new HttpClient();
+        RequestPanel._httpClient = createHttpClient(storageService);
+        RequestPanel._oauth2 = createOAuth2TokenProvider(RequestPanel._httpClient, storageService);
     }
 
     private constructor(
@@ -157,9 +173,11 @@ export class RequestPanel {
                     requestData.useInheritedAuth = request.useInheritedAuth !== false;
                 }
 
+                requestData.inheritedProtocol = collection.protocol;
+
                 // Available requests for pre-request selection (exclude current request)
                 requestData.availableRequests = collection.requests
-                    .filter(r => r.id !== request.id)
+                    .filter(r => r.id !== request.id && isHttpRequest(r))
                     .map(r => ({ id: r.id, name: r.name }));
             }
         }
@@ -233,7 +251,10 @@ export class RequestPanel {
             body: data.body,
             inheritedHeadersState: data.inheritedHeadersState,
             useInheritedAuth: data.useInheritedAuth,
-            preRequestId: data.preRequestId
+            preRequestId: data.preRequestId,
+            disableCookieJar: data.disableCookieJar,
+            protocol: data.protocol,
+            assertions: data.assertions
         };
         return JSON.stringify(normalized);
     }
@@ -293,6 +314,12 @@ export class RequestPanel {
             case 'sendRequest':
                 this._sendRequest(message.data);
                 break;
+            case 'cancelRequest':
+                this._abortController?.abort();
+                break;
+            case 'stopStream':
+                this._stopController?.abort();
+                break;
             case 'saveRequest':
                 this._saveRequest(message.data);
                 break;
@@ -319,6 +346,30 @@ export class RequestPanel {
             case 'copyToClipboard':
                 this._copyToClipboard(message.text);
                 break;
+            case 'selectMultipartFile':
+                this._selectMultipartFile(message.index);
+                break;
+            case 'selectBinaryFile':
+                this._selectBinaryFile();
+                break;
+            case 'saveResponse':
+                this._saveResponse();
+                break;
+            case 'fetchGraphQLSchema':
+                this._fetchGraphQLSchema(message.data);
+                break;
+            case 'graphqlComplete':
+                this._completeGraphQL(message.url, message.query, message.offset);
+                break;
+            case 'graphqlValidate':
+                this._validateGraphQL(message.url, message.content);
+                break;
+            case 'getEncodedBody':
+                this._panel.webview.postMessage({
+                    type: 'encodedBody',
+                    hexDump: this._lastResponse?.encodedBody ? formatHexDump(this._lastResponse.encodedBody, MAX_HEX_DUMP_BYTES) : '',
+                });
+                break;
         }
     }
 
@@ -552,57 +603,140 @@ export class RequestPanel {
             headers,
         };
 
-        // Add body if present
-        if (data.body && data.body.type !== 'none' && data.body.content) {
-            let content = data.body.content;
-
-            // Handle form data: convert JSON array to URL-encoded string
-            if (data.body.type === 'form') {
-                try {
-                    const formData = JSON.parse(data.body.content);
-                    const params = new URLSearchParams();
-                    for (const f of formData.filter((field: any) => field.enabled && field.key)) {
-                        let key = f.key;
-                        let value = f.value;
-                        if (resolveVariables && RequestPanel._variableService) {
-                            key = await RequestPanel._variableService.resolveText(key, this._collectionId);
-                            value = await RequestPanel._variableService.resolveText(value, this._collectionId);
-                        }
-                        params.append(key, value);
-                    }
-                    content = params.toString();
-                } catch {
-                    // Use content as-is if parsing fails
-                    if (resolveVariables && RequestPanel._variableService) {
-                        content = await RequestPanel._variableService.resolveText(content, this._collectionId);
-                    }
-                }
-            } else if (resolveVariables && RequestPanel._variableService) {
-                content = await RequestPanel._variableService.resolveText(content, this._collectionId);
-            }
+        const variableService = RequestPanel._variableService;
+        await applyRequestBody(resolvedRequest, data.body, resolveVariables && variableService
+            ? text => variableService.resolveText(text, this._collectionId)
+            : undefined);
 
-            // Add Content-Type header if not present
-            const hasContentType = headers.some(h => h.name.toLowerCase() === 'content-type');
-            if (!hasContentType) {
-                const contentTypeMap: Record<string, string> = {
-                    json: 'application/json',
-                    xml: 'application/xml',
-                    form: 'application/x-www-form-urlencoded',
-                    text: 'text/plain',
-                };
-                const contentType = contentTypeMap[data.body.type];
-                if (contentType) {
-                    headers.push({ name: 'Content-Type', value: contentType });
-                }
-            }
+        return generator.generate(resolvedRequest);
+    }
 
-            resolvedRequest.body = {
-                type: data.body.type,
-                content,
-            };
+    /**
+     * Pick a file to upload - files inside the workspace are stored relative to it,
+     * so the request works for everyone who clones the repository
+     */
+    private async _pickFile(): Promise<string | undefined> {
+        const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
+        const uris = await vscode.window.showOpenDialog({
+            canSelectMany: false,
+            defaultUri: workspaceFolder?.uri,
+            openLabel: vscode.l10n.t('Select File'),
+        });
+        if (!uris || uris.length === 0) {
+            return undefined;
         }
+        // Relative paths are resolved against the first workspace folder when sending
+        const inWorkspace = !!workspaceFolder && vscode.workspace.getWorkspaceFolder(uris[0])?.index === workspaceFolder.index;
+        return inWorkspace ? vscode.workspace.asRelativePath(uris[0], false) : uris[0].fsPath;
+    }
 
-        return generator.generate(resolvedRequest);
+    private async _selectMultipartFile(index: number): Promise<void> {
+        const path = await this._pickFile();
+        if (path) {
+            this._panel.webview.postMessage({ type: 'multipartFileSelected', index, path });
+        }
+    }
+
+    private async _selectBinaryFile(): Promise<void> {
+        const path = await this._pickFile();
+        if (path) {
+            this._panel.webview.postMessage({ type: 'binaryFileSelected', path });
+        }
+    }
+
+    /**
+     * Write the last response body to a file exactly as received (after decompression)
+     */
+    private async _saveResponse(): Promise<void> {
+        const response = this._lastResponse;
+        if (!response) {
+            vscode.window.showWarningMessage(vscode.l10n.t('No response to save. Send a request first.'));
+            return;
+        }
+        const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
+        const fileName = getResponseFileName(response.headers, this._lastResponseUrl);
+        const uri = await vscode.window.showSaveDialog({
+            defaultUri: workspaceFolder ? vscode.Uri.joinPath(workspaceFolder.uri, fileName) : undefined,
+            saveLabel: vscode.l10n.t('Save Response'),
+        });
+        if (!uri) {
+            return;
+        }
+        try {
+            await vscode.workspace.fs.writeFile(uri, response.rawBody ?? Buffer.from(response.body));
+            vscode.window.showInformationMessage(vscode.l10n.t('Response saved to {0}', vscode.workspace.asRelativePath(uri)));
+        } catch (error) {
+            vscode.window.showErrorMessage(vscode.l10n.t('Could not save the response: {0}', error instanceof Error ? error.message : 'Unknown error'));
+        }
+    }
+
+    /**
+     * Cached schema of the GraphQL endpoint at the URL of the panel. Schemas are cached by the URL
+     * with variables resolved, so each environment's endpoint has its own.
+     */
+    private async _getGraphQLSchema(url: string): Promise<CachedGraphQLSchema | undefined> {
+        if (!RequestPanel._storageService || !RequestPanel._variableService) {
+            return undefined;
+        }
+        const resolvedUrl = await RequestPanel._variableService.resolveText(url, this._collectionId);
+        return RequestPanel._storageService.getGraphQLSchema(this._collectionId, resolvedUrl);
+    }
+
+    /**
+     * Run the introspection query with the panel's headers and auth and cache the schema for the collection
+     */
+    private async _fetchGraphQLSchema(data: RequestData): Promise<void> {
+        if (!RequestPanel._httpClient || !RequestPanel._storageService || !RequestPanel._variableService) {
+            return;
+        }
+        const postStatus = (status: object) => this._panel.webview.postMessage({ type: 'graphqlSchemaStatus', ...status });
+        postStatus({ loading: true });
+        try {
+            const built = await this._buildRequest({
+                ...data,
+                body: { type: 'graphql', content: JSON.stringify({ query: INTROSPECTION_QUERY, variables: '' }) },
+            });
+            const response = await RequestPanel._httpClient.executeRequest(built.request);
+            if (response.status < 200 || response.status >= 300) {
+                throw new Error(`${response.status} ${response.statusText}`);
+            }
+            const url = await RequestPanel._variableService.resolveText(data.url, this._collectionId);
+            const cached = await RequestPanel._storageService.saveGraphQLSchema(this._collectionId, url, parseIntrospectionResult(response.body));
+            postStatus({ fetchedAt: cached.fetchedAt, typeCount: Object.keys(cached.schema.types).length });
+            getLogger().info(`Fetched GraphQL schema of ${url}`);
+        } catch (error) {
+            const message = error instanceof Error ? error.message : 'Unknown error';
+            getLogger().error(`Failed to fetch GraphQL schema: ${message}`);
+            postStatus({ error: vscode.l10n.t('Could not fetch the schema: {0}', message) });
+        }
+    }
+
+    private async _completeGraphQL(url: string, query: string, offset: number): Promise<void> {
+        const cached = await this._getGraphQLSchema(url);
+        const completions = cached ? getCompletions(cached.schema, query, offset) : { from: offset, items: [] };
+        this._panel.webview.postMessage({ type: 'graphqlCompletions', offset, ...completions });
+    }
+
+    /**
+     * Check the query against the cached schema (only its syntax without one) and the variables for JSON
+     */
+    private async _validateGraphQL(url: string, content: string): Promise<void> {
+        const cached = await this._getGraphQLSchema(url);
+        const { query, variables } = parseGraphQLBody(content);
+        const diagnostics: (GraphQLDiagnostic & { variables?: boolean })[] = query.trim() ? validateQuery(query, cached?.schema) : [];
+        // Variables with placeholders like {{count}} only become JSON once resolved
+        if (variables.trim() && !variables.includes('{{')) {
+            try {
+                JSON.parse(variables);
+            } catch (error) {
+                diagnostics.push({ message: error instanceof Error ? error.message : String(error), offset: 0, length: 0, variables: true });
+            }
+        }
+        this._panel.webview.postMessage({
+            type: 'graphqlDiagnostics',
+            diagnostics,
+            schema: cached ? { fetchedAt: cached.fetchedAt, typeCount: Object.keys(cached.schema.types).length } : undefined,
+        });
     }
 
     private async _copyToClipboard(text: string): Promise<void> {
@@ -616,6 +750,10 @@ export class RequestPanel {
             return;
         }
         const responseDisplay = ResponseDisplay.getInstance();
+        if (this._lastResponse.binary) {
+            await responseDisplay.showBinaryResponse(this._lastResponse, getResponseFileName(this._lastResponse.headers, this._lastResponseUrl));
+            return;
+        }
         await responseDisplay.showResponse(this._lastResponse, this._panel.viewColumn);
     }
 
@@ -623,9 +761,10 @@ export class RequestPanel {
      * Execute a pre-request before the main request
      * @param preRequestId - The ID of the request to execute
      * @param visitedIds - Array of request IDs already in the chain (for cycle detection)
-     * @returns true if successful, false if failed
+     * @param signal - Cancels the pre-request together with the main request
+     * @returns true if successful, false if failed or cancelled
      */
-    private async _executePreRequest(preRequestId: string, visitedIds: string[]): Promise<boolean> {
+    private async _executePreRequest(preRequestId: string, visitedIds: string[], signal?: AbortSignal): Promise<boolean> {
         if (!RequestPanel._storageService || !RequestPanel._httpClient || !RequestPanel._variableService || !this._collectionId) {
             return false;
         }
@@ -651,7 +790,7 @@ export class RequestPanel {
 
         // If the pre-request also has a pre-request, execute it first (recursively)
         if (preRequest.preRequestId) {
-            const nestedResult = await this._executePreRequest(preRequest.preRequestId, [...visitedIds, preRequestId]);
+            const nestedResult = await this._executePreRequest(preRequest.preRequestId, [...visitedIds, preRequestId], signal);
             if (!nestedResult) {
                 return false;
             }
@@ -666,99 +805,21 @@ export class RequestPanel {
                 data: { url: preRequest.url, method: preRequest.method, isPreRequest: true, name: displayName }
             });
 
-            // Build the request with resolved variables
-            const variableService = RequestPanel._variableService!;
-
-            // Resolve headers
-            const resolvedHeaders = await Promise.all(
-                preRequest.headers.filter(h => h.enabled && h.name).map(async h => ({
-                    name: h.name,
-                    value: await variableService.resolveText(h.value, this._collectionId),
-                    enabled: true
-                }))
+            // Built like the collection runner and CLI build it
+            const requestObj = await buildRequest(
+                preRequest,
+                collection,
+                text => RequestPanel._variableService!.resolveText(text, this._collectionId),
+                this._createOAuth2Authorizer(signal)
             );
 
-            // Handle auth
-            const auth = preRequest.auth || collection.defaultAuth;
-            let resolvedUrl = await variableService.resolveText(preRequest.url, this._collectionId);
-
-            if (auth && auth.type === 'basic' && auth.username) {
-                const username = await variableService.resolveText(auth.username, this._collectionId);
-                const password = await variableService.resolveText(auth.password || '', this._collectionId);
-                const credentials = Buffer.from(`${username}:${password}`).toString('base64');
-                resolvedHeaders.push({ name: 'Authorization', value: `Basic ${credentials}`, enabled: true });
-            } else if (auth && auth.type === 'bearer' && auth.token) {
-                const token = await variableService.resolveText(auth.token, this._collectionId);
-                resolvedHeaders.push({ name: 'Authorization', value: `Bearer ${token}`, enabled: true });
-            } else if (auth && auth.type === 'apikey' && auth.apiKeyName) {
-                const keyValue = await variableService.resolveText(auth.apiKeyValue || '', this._collectionId);
-                if (auth.apiKeyIn === 'header') {
-                    resolvedHeaders.push({ name: auth.apiKeyName, value: keyValue, enabled: true });
-                } else {
-                    // Add to query params
-                    const separator = resolvedUrl.includes('?') ? '&' : '?';
-                    resolvedUrl += `${separator}${encodeURIComponent(auth.apiKeyName)}=${encodeURIComponent(keyValue)}`;
-                }
-            }
-
-            // Resolve body and add Content-Type header
-            let resolvedBody: string | undefined;
-
-            if (preRequest.body && preRequest.body.type !== 'none' && preRequest.body.content) {
-                // Handle form data - convert from JSON array to URL-encoded string
-                if (preRequest.body.type === 'form') {
-                    try {
-                        const formData = JSON.parse(preRequest.body.content);
-                        const params = new URLSearchParams();
-                        for (const f of formData.filter((field: any) => field.enabled && field.key)) {
-                            const resolvedKey = await variableService.resolveText(f.key, this._collectionId);
-                            const resolvedValue = await variableService.resolveText(f.value, this._collectionId);
-                            params.append(resolvedKey, resolvedValue);
-                        }
-                        resolvedBody = params.toString();
-                    } catch (e) {
-                        getLogger().error(`Failed to parse form data for pre-request`);
-                        resolvedBody = await variableService.resolveText(preRequest.body.content, this._collectionId);
-                    }
-                } else {
-                    resolvedBody = await variableService.resolveText(preRequest.body.content, this._collectionId);
-                }
-
-                // Add Content-Type header if not already present
-                const hasContentType = resolvedHeaders.some(h => h.name.toLowerCase() === 'content-type');
-                if (!hasContentType) {
-                    const contentTypeMap: Record<string, string> = {
-                        json: 'application/json',
-                        xml: 'application/xml',
-                        form: 'application/x-www-form-urlencoded',
-                        text: 'text/plain',
-                    };
-                    const contentType = contentTypeMap[preRequest.body.type];
-                    if (contentType) {
-                        resolvedHeaders.push({ name: 'Content-Type', value: contentType, enabled: true });
-                    }
-                }
-            }
-
-            // Build request object
-            const requestObj: Request = {
-                id: preRequest.id,
-                name: preRequest.name,
-                method: preRequest.method,
-                url: resolvedUrl,
-                headers: resolvedHeaders,
-                body: resolvedBody ? { type: preRequest.body.type, content: resolvedBody } : { type: 'none', content: '' },
-                createdAt: preRequest.createdAt,
-                updatedAt: preRequest.updatedAt
-            };
-
             // Execute with progress
             const response = await vscode.window.withProgress(
                 {
                     location: vscode.ProgressLocation.Window,
                     title: vscode.l10n.t('$(sync~spin) Running pre-request: {0}...', displayName)
                 },
-                async () => RequestPanel._httpClient!.executeRequest(requestObj)
+                async () => RequestPanel._httpClient!.executeRequest(requestObj, undefined, signal)
             );
 
             // Store response for request chaining
@@ -791,12 +852,110 @@ export class RequestPanel {
                 }
             }
         } catch (error) {
+            if (error instanceof RequestCancelledError) {
+                getLogger().debug(`Pre-request "${preRequest.name}" was cancelled`);
+                return false;
+            }
             const errorMessage = error instanceof Error ? error.message : 'Unknown error';
             vscode.window.showErrorMessage(vscode.l10n.t('Pre-request "{0}" failed: {1}', preRequest.name, errorMessage));
             return false;
         }
     }
 
+    /**
+     * Build the request the panel's data describes with buildRequest, like the collection runner and CLI:
+     * inherited headers and auth are merged in, variables resolved and AWS signatures applied.
+     * Also returns the unresolved URL and headers, which history keeps instead of resolved values.
+     * @param signal - Cancels an OAuth 2.0 browser sign-in
+     * @throws when auth could not be completed - a failed token request or missing AWS credentials
+     */
+    private async _buildRequest(data: RequestData, signal?: AbortSignal): Promise<{ request: Request; url: string; headers: Record<string, string>; effectiveAuth: AuthConfig }> {
+        if (!RequestPanel._variableService || !RequestPanel._storageService) {
+            throw new Error(vscode.l10n.t('HTTP Client not initialized. Please reload the extension.'));
+        }
+        const variableService = RequestPanel._variableService;
+
+        // Pick up collection header and auth changes made since the panel opened
+        const collection = this._collectionId ? await RequestPanel._storageService.getCollectionAsync(this._collectionId) : undefined;
+        const source = requestDataToRequest(data);
+        const request = await buildRequest(
+            source,
+            collection,
+            text => variableService.resolveText(text, this._collectionId),
+            this._createOAuth2Authorizer(signal)
+        );
+
+        // Auth adds headers while building - they are kept, masked, apart from the body's Content-Type
+        const headers = mergeHeaders(source, collection);
+        for (const h of request.headers) {
+            if (!(h.name in headers)) {
+                headers[h.name] = h.name.toLowerCase() === 'content-type' ? h.value : '***';
+            }
+        }
+
+        return { request, url: source.url, headers, effectiveAuth: getEffectiveAuth(source, collection) ?? { type: 'none' } };
+    }
+
+    /**
+     * Fetches OAuth 2.0 tokens for buildRequest with the panel's progress notification
+     * @param signal - Cancels a browser sign-in together with the request
+     */
+    private _createOAuth2Authorizer(signal?: AbortSignal): OAuth2Authorizer {
+        return {
+            getAuthorizationHeader: async auth => {
+                const authorization = await this._getOAuth2Authorization(auth, signal);
+                if (!authorization) {
+                    throw signal?.aborted ? new RequestCancelledError() : new Error(vscode.l10n.t('Could not complete the auth of the request'));
+                }
+                return authorization;
+            }
+        };
+    }
+
+    /**
+     * Get the Authorization header for oauth2 auth, fetching or refreshing the token as needed
+     * @param signal - Cancels the token request, like the notification's Cancel button
+     * @returns the header value, or undefined if the token request failed (the error is shown) or was cancelled
+     */
+    private async _getOAuth2Authorization(auth: AuthConfig, signal?: AbortSignal): Promise<string | undefined> {
+        const variableService = RequestPanel._variableService!;
+        const oauth2 = RequestPanel._oauth2!;
+        const resolve = (text: string) => variableService.resolveText(text, this._collectionId);
+
+        try {
+            // Browser sign-in can take a while, so show it as a cancellable notification
+            const interactive = auth.grantType === 'authorization_code' && !(await oauth2.hasCachedToken(auth, resolve, this._collectionId));
+            return await vscode.window.withProgress(
+                {
+                    location: interactive ? vscode.ProgressLocation.Notification : vscode.ProgressLocation.Window,
+                    title: interactive
+                        ? vscode.l10n.t('Complete the OAuth 2.0 sign-in in your browser...')
+                        : vscode.l10n.t('$(sync~spin) Getting OAuth 2.0 token...'),
+                    cancellable: interactive
+                },
+                async (_progress, token) => {
+                    const abort = new AbortController();
+                    token.onCancellationRequested(() => abort.abort());
+                    const onAbort = () => abort.abort();
+                    signal?.addEventListener('abort', onAbort);
+                    try {
+                        return await oauth2.getAuthorizationHeader(auth, resolve, this._collectionId, abort.signal);
+                    } finally {
+                        signal?.removeEventListener('abort', onAbort);
+                    }
+                }
+            );
+        } catch (error) {
+            if (signal?.aborted) {
+                return undefined;
+            }
+            const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+            getLogger().error('OAuth 2.0 token request failed', { error: errorMessage });
+            vscode.window.showErrorMessage(vscode.l10n.t('Could not get an OAuth 2.0 token: {0}', errorMessage));
+            return undefined;
+        }
+    }
+
     private async _sendRequest(data: RequestData): Promise<void> {
         const logger = getLogger();
 
@@ -806,144 +965,54 @@ export class RequestPanel {
             return;
         }
 
+        // Sending again replaces the request still in flight
+        this._abortController?.abort();
+        const abortController = new AbortController();
+        this._abortController = abortController;
+        const signal = abortController.signal;
+        const stopController = new AbortController();
+        this._stopController = stopController;
+        const release = () => {
+            if (this._abortController === abortController) {
+                this._abortController = undefined;
+            }
+            if (this._stopController === stopController) {
+                this._stopController = undefined;
+            }
+        };
+        // Requests that end before they are sent still have to take the webview out of its loading state
+        const endBeforeSending = (message: string) => {
+            release();
+            this._panel.webview.postMessage(signal.aborted
+                ? { type: 'requestCancelled' }
+                : { type: 'requestError', data: { message } });
+        };
+
         // Execute pre-request if configured
         if (data.preRequestId && this._collectionId) {
             logger.debug(`Executing pre-request before main request`);
-            const preRequestResult = await this._executePreRequest(data.preRequestId, [data.id || '']);
+            const preRequestResult = await this._executePreRequest(data.preRequestId, [data.id || ''], signal);
             if (!preRequestResult) {
                 logger.warn('Pre-request failed or was aborted');
                 // Pre-request failed, abort the main request
+                endBeforeSending(vscode.l10n.t('Pre-request failed or was aborted'));
                 return;
             }
             logger.debug('Pre-request completed, proceeding with main request');
         }
 
-        // Get collection defaults if available
-        let collectionDefaults: { headers?: { name: string; value: string; enabled: boolean }[]; auth?: any } = {};
-        if (this._collectionId) {
-            const collection = await RequestPanel._storageService.getCollectionAsync(this._collectionId);
-            if (collection) {
-                collectionDefaults = {
-                    headers: collection.defaultHeaders,
-                    auth: collection.defaultAuth
-                };
-            }
-        }
-
-        // Build the full URL with query params
-        let url = data.url;
-        const queryParams = data.queryParams.filter(p => p.enabled && p.key);
-        if (queryParams.length > 0) {
-            const searchParams = new URLSearchParams();
-            queryParams.forEach(p => searchParams.append(p.key, p.value));
-            url += (url.includes('?') ? '&' : '?') + searchParams.toString();
-        }
-
-        // Build headers - merge enabled inherited headers with request headers
-        // Request headers override inherited headers
-        const headers: Record<string, string> = {};
-
-        // First apply enabled inherited headers
-        if (data.inheritedHeaders && data.inheritedHeaders.length > 0) {
-            const inheritedState = data.inheritedHeadersState || {};
-            data.inheritedHeaders.forEach(h => {
-                // Only include if enabled (default to true if not specified)
-                const isEnabled = inheritedState[h.key] !== undefined ? inheritedState[h.key] : true;
-                if (isEnabled && h.key) {
-                    headers[h.key] = h.value;
-                }
-            });
-        }
-
-        // Then apply request-specific headers (overrides inherited headers)
-        data.headers.filter(h => h.enabled && h.key).forEach(h => {
-            headers[h.key] = h.value;
-        });
-
-        // Determine effective auth - respect useInheritedAuth flag
-        // Priority: If useInheritedAuth is checked (and valid inherited auth exists), use inherited auth
-        // Otherwise, request auth overrides collection auth
-        let effectiveAuth = data.auth;
-        if (data.useInheritedAuth !== false && data.inheritedAuth && data.inheritedAuth.type && data.inheritedAuth.type !== 'none') {
-            effectiveAuth = data.inheritedAuth;
-        } else if (data.auth.type !== 'none') {
-            effectiveAuth = data.auth;
-        } else if (collectionDefaults.auth && collectionDefaults.auth.type !== 'none') {
-            effectiveAuth = collectionDefaults.auth;
-        }
-
-        // Add auth headers (resolve variables in auth values)
-        if (effectiveAuth.type === 'basic' && effectiveAuth.username) {
-            const resolvedUsername = await RequestPanel._variableService!.resolveText(effectiveAuth.username, this._collectionId);
-            const resolvedPassword = await RequestPanel._variableService!.resolveText(effectiveAuth.password || '', this._collectionId);
-            const credentials = Buffer.from(`${resolvedUsername}:${resolvedPassword}`).toString('base64');
-            headers['Authorization'] = `Basic ${credentials}`;
-        } else if (effectiveAuth.type === 'bearer' && effectiveAuth.token) {
-            const resolvedToken = await RequestPanel._variableService!.resolveText(effectiveAuth.token, this._collectionId);
-            headers['Authorization'] = `Bearer ${resolvedToken}`;
-        } else if (effectiveAuth.type === 'apikey' && effectiveAuth.apiKeyName) {
-            const resolvedKeyValue = await RequestPanel._variableService!.resolveText(effectiveAuth.apiKeyValue || '', this._collectionId);
-            if (effectiveAuth.apiKeyIn === 'header') {
-                headers[effectiveAuth.apiKeyName] = resolvedKeyValue;
-            } else {
-                // Add to query params
-                const separator = url.includes('?') ? '&' : '?';
-                url += `${separator}${encodeURIComponent(effectiveAuth.apiKeyName)}=${encodeURIComponent(resolvedKeyValue)}`;
-            }
-        }
-
-        // Set content-type for body
-        let body: string | undefined;
-        if (data.body.type !== 'none' && data.body.content) {
-            body = data.body.content;
-            if (data.body.type === 'json' && !headers['Content-Type']) {
-                headers['Content-Type'] = 'application/json';
-            } else if (data.body.type === 'form' && !headers['Content-Type']) {
-                headers['Content-Type'] = 'application/x-www-form-urlencoded';
-                // Convert form data to URL encoded string
-                // Variables must be resolved BEFORE URL encoding, otherwise {{...}} becomes %7B%7B...%7D%7D
-                try {
-                    const formData = JSON.parse(data.body.content);
-                    const params = new URLSearchParams();
-                    const variableService = RequestPanel._variableService!;
-                    for (const f of formData.filter((field: any) => field.enabled && field.key)) {
-                        const resolvedKey = await variableService.resolveText(f.key, this._collectionId);
-                        const resolvedValue = await variableService.resolveText(f.value, this._collectionId);
-                        params.append(resolvedKey, resolvedValue);
-                    }
-                    body = params.toString();
-                } catch {
-                    // Use content as-is
-                }
-            } else if (data.body.type === 'xml' && !headers['Content-Type']) {
-                headers['Content-Type'] = 'application/xml';
-            } else if (data.body.type === 'text' && !headers['Content-Type']) {
-                headers['Content-Type'] = 'text/plain';
-            }
+        let built: Awaited<ReturnType<RequestPanel['_buildRequest']>>;
+        try {
+            built = await this._buildRequest(data, signal);
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+            logger.error(`Failed to build request: ${errorMessage}`);
+            endBeforeSending(errorMessage);
+            return;
         }
-
-        // Resolve variables using VariableService
+        const { request, url, headers, effectiveAuth } = built;
         const variableService = RequestPanel._variableService;
-        const resolvedUrl = await variableService.resolveText(url, this._collectionId);
-        const resolvedHeaders: { name: string; value: string }[] = await Promise.all(
-            Object.entries(headers).map(async ([name, value]) => ({
-                name,
-                value: await variableService.resolveText(value, this._collectionId),
-            }))
-        );
-        const resolvedBody = body ? await variableService.resolveText(body, this._collectionId) : undefined;
-
-        // Build the request object
-        const request: Request = {
-            id: data.id || `temp-${Date.now()}`,
-            name: data.name,
-            method: data.method as any,
-            url: resolvedUrl,
-            headers: resolvedHeaders.map(h => ({ ...h, enabled: true })),
-            body: resolvedBody ? { type: data.body.type, content: resolvedBody } : { type: 'none', content: '' },
-            createdAt: Date.now(),
-            updatedAt: Date.now(),
-        };
+        const resolvedUrl = request.url;
 
         // Create history item - always store unresolved values (placeholders like {{TOKEN}}) for security
         // Apply sanitization to the URL (masks sensitive query params)
@@ -979,18 +1048,32 @@ export class RequestPanel {
         try {
             // Execute the request using HttpClient with status bar progress
             const displayName = data.name || `${data.method} request`;
+            const eventStream = this._createEventStreamView(stopController.signal);
             const response = await vscode.window.withProgress(
                 {
                     location: vscode.ProgressLocation.Window,
                     title: vscode.l10n.t('$(sync~spin) Sending {0}...', displayName)
                 },
-                async () => RequestPanel._httpClient!.executeRequest(request)
+                async () => RequestPanel._httpClient!.executeRequest(request, undefined, signal, eventStream.handler)
             );
+            const streamKind = eventStream.end();
 
             // Update history item with response data
             historyItem.statusCode = response.status;
             historyItem.statusText = response.statusText;
             historyItem.responseTime = response.time;
+            historyItem.timings = response.timings;
+
+            // The token may have been revoked before it expired - fetch a new one next time
+            if (response.status === 401 && effectiveAuth.type === 'oauth2') {
+                await RequestPanel._oauth2!.clearToken(effectiveAuth, text => variableService.resolveText(text, this._collectionId), this._collectionId);
+            }
+
+            // Evaluate post-response assertions
+            const assertionResults = evaluateAssertions(await this._resolveAssertions(data.assertions), response);
+            if (assertionResults.length > 0) {
+                historyItem.assertionResults = assertionResults;
+            }
 
             // Store sanitized response headers
             const responseHeaders: { name: string; value: string; enabled: boolean }[] = Object.entries(response.headers).map(
@@ -1016,8 +1099,9 @@ export class RequestPanel {
             // Refresh history view
             vscode.commands.executeCommand('endpoint.refreshHistory');
 
-            // Store response for "Open in Editor" feature
+            // Store response for "Open in Editor" and "Save to File"
             this._lastResponse = response;
+            this._lastResponseUrl = request.url;
 
             // Store response for request chaining (if request has a name)
             if (data.name) {
@@ -1026,7 +1110,13 @@ export class RequestPanel {
             }
 
             // Highlight response body based on content type (reuse contentType from above)
-            const highlightedBody = await SyntaxHighlighter.getInstance().highlightResponse(response.body, contentType);
+            const highlightedBody = response.binary || streamKind ? undefined : await SyntaxHighlighter.getInstance().highlightResponse(response.body, contentType);
+
+            // Binary responses have no text to show - images and PDFs are previewed from a data URI instead
+            const previewType = response.binary ? getPreviewType(contentType) : undefined;
+            const preview = previewType && response.rawBody && response.rawBody.length <= MAX_PREVIEW_BYTES
+                ? { type: previewType, src: `data:${contentType.split(';')[0].trim().toLowerCase()};base64,${response.rawBody.toString('base64')}` }
+                : undefined;
 
             // Send response to webview for display in tabbed view
             this._panel.webview.postMessage({
@@ -1036,13 +1126,39 @@ export class RequestPanel {
                     statusText: response.statusText,
                     time: response.time,
                     size: response.size,
+                    decodedSize: response.decodedSize,
+                    encoding: response.encoding,
+                    proxy: response.proxy,
+                    httpVersion: response.httpVersion,
+                    pseudoHeaders: response.pseudoHeaders,
+                    timings: response.timings,
                     headers: response.headers,
                     body: response.body,
-                    highlightedBody
+                    binary: response.binary,
+                    stream: streamKind,
+                    stopped: response.stopped,
+                    truncated: response.truncated,
+                    preview,
+                    highlightedBody,
+                    assertionResults
                 }
             });
 
         } catch (error) {
+            if (error instanceof RequestCancelledError) {
+                logger.info('Request cancelled by user');
+                historyItem.cancelled = true;
+                historyItem.statusCode = 0;
+                historyItem.statusText = 'Cancelled';
+                await RequestPanel._storageService.addHistoryItem(historyItem);
+                vscode.commands.executeCommand('endpoint.refreshHistory');
+                // A newer request that replaced this one owns the webview's loading state
+                if (this._abortController === abortController) {
+                    this._panel.webview.postMessage({ type: 'requestCancelled' });
+                }
+                return;
+            }
+
             const errorMessage = error instanceof Error ? error.message : 'Unknown error';
 
             // Still add to history but with error
@@ -1060,7 +1176,65 @@ export class RequestPanel {
             });
 
             vscode.window.showErrorMessage(vscode.l10n.t('Request failed: {0}', errorMessage));
+        } finally {
+            release();
+        }
+    }
+
+    /**
+     * Shows Server-Sent Events and NDJSON lines in the webview as they arrive.
+     * Other responses are only shown once complete.
+     * @returns the handler for HttpClient, and end() to flush the last events once the response is complete
+     */
+    private _createEventStreamView(stopSignal: AbortSignal): { handler: ResponseStreamHandler; end(): StreamKind | undefined } {
+        let parser: EventStreamParser | undefined;
+        let kind: StreamKind | undefined;
+        let startTime = 0;
+        const post = (events: StreamEvent[]) => {
+            if (events.length > 0) {
+                this._panel.webview.postMessage({ type: 'streamEvents', events });
+            }
+        };
+        return {
+            handler: {
+                stopSignal,
+                onStart: (status, statusText, headers) => {
+                    kind = getStreamKind(headers['content-type']);
+                    if (!kind) {
+                        return;
+                    }
+                    parser = new EventStreamParser(kind);
+                    startTime = Date.now();
+                    this._panel.webview.postMessage({ type: 'streamStarted', data: { status, statusText, headers, kind } });
+                },
+                onData: chunk => {
+                    if (parser) {
+                        post(parser.push(chunk, Date.now() - startTime));
+                    }
+                },
+            },
+            end: () => {
+                if (parser) {
+                    post(parser.end(Date.now() - startTime));
+                }
+                return kind;
+            },
+        };
+    }
+
+    /**
+     * Resolve variables in assertion properties and expected values
+     */
+    private async _resolveAssertions(assertions: Assertion[] | undefined): Promise<Assertion[]> {
+        if (!assertions || !RequestPanel._variableService) {
+            return assertions || [];
         }
+        const variableService = RequestPanel._variableService;
+        return Promise.all(assertions.map(async a => ({
+            ...a,
+            property: a.property ? await variableService.resolveText(a.property, this._collectionId) : a.property,
+            expected: a.expected ? await variableService.resolveText(a.expected, this._collectionId) : a.expected,
+        })));
     }
 
     private async _saveRequest(data: RequestData): Promise<void> {
@@ -1106,6 +1280,9 @@ export class RequestPanel {
                         useInheritedAuth: data.useInheritedAuth,
                         disabledInheritedHeaders: disabledInheritedHeaders.length > 0 ? disabledInheritedHeaders : undefined,
                         preRequestId: data.preRequestId || undefined,
+                        assertions: data.assertions && data.assertions.length > 0 ? data.assertions : undefined,
+                        disableCookieJar: data.disableCookieJar || undefined,
+                        protocol: data.protocol || undefined,
                         updatedAt: Date.now()
                     };
                     collection.updatedAt = Date.now();
@@ -1178,6 +1355,9 @@ export class RequestPanel {
                 auth: data.auth,
                 disabledInheritedHeaders: disabledInheritedHeaders.length > 0 ? disabledInheritedHeaders : undefined,
                 preRequestId: data.preRequestId || undefined,
+                assertions: data.assertions && data.assertions.length > 0 ? data.assertions : undefined,
+                disableCookieJar: data.disableCookieJar || undefined,
+                protocol: data.protocol || undefined,
                 createdAt: Date.now(),
                 updatedAt: Date.now()
             };
@@ -1222,7 +1402,8 @@ export class RequestPanel {
         this._panel.webview.postMessage({
             type: 'updateAvailableRequests',
             data: {
-                requests: requests.map(r => ({ id: r.id, name: r.name })),
+                // WebSocket and gRPC requests can't run as pre-requests
+                requests: requests.filter(isHttpRequest).map(r => ({ id: r.id, name: r.name })),
                 currentRequestId
             }
         });
@@ -1294,6 +1475,9 @@ export class RequestPanel {
      * Clean up resources (called after panel is disposed)
      */
     private _cleanup(): void {
+        // Nobody is left to show the response
+        this._abortController?.abort();
+
         // Remove from panels map
         if (this._requestId) {
             RequestPanel.panels.delete(this._requestId);
@@ -1332,26 +1516,3 @@ export class RequestPanel {
         }
     }
 }
-
-/**
- * Sanitize request body before storing in history.
- * Masks sensitive parameters in JSON and form-urlencoded bodies.
- */
-function sanitizeRequestBody(body: { type: string; content?: string }): { type: 'none' | 'json' | 'form' | 'text' | 'xml'; content: string } {
-    const content = body.content || '';
-    const bodyType = body.type as 'none' | 'json' | 'form' | 'text' | 'xml';
-
-    if (!content) {
-        return { type: bodyType, content: '' };
-    }
-
-    switch (body.type) {
-        case 'json':
-            return { type: 'json', content: sanitizeBody(content) };
-        case 'form':
-            return { type: 'form', content: sanitizeFormBody(content) };
-        default:
-            // For raw/xml/other types, don't sanitize (could contain anything)
-            return { type: bodyType, content };
-    }
-}
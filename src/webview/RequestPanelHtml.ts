@@ -1,7 +1,11 @@
 import * as vscode from 'vscode';
 import { getNonce, getVscodeElementsUri, getCodiconsUri, getSharedCssUri, getRequestViewCssUri } from './webviewUtils';
-import { Request, HttpMethod, RequestBody, AuthConfig } from '../models/Collection';
+import { Request, HttpMethod, RequestBody, AuthConfig, MultipartField, HttpProtocol, HTTP_PROTOCOLS } from '../models/Collection';
+import { Assertion, AssertionSource, ASSERTION_OPERATORS } from '../models/Assertion';
 import { getSetting } from '../settings';
+import { TIMING_PHASES } from '../http/Timings';
+import { parseMultipartFields } from '../http/Multipart';
+import { parseGraphQLBody } from '../http/GraphQL';
 
 export interface RequestData {
     id?: string;
@@ -17,7 +21,12 @@ export interface RequestData {
     auth: AuthConfig;
     body: RequestBody;
     preRequestId?: string;
+    disableCookieJar?: boolean;
+    protocol?: HttpProtocol;
+    /** The collection's protocol, used when the request has none */
+    inheritedProtocol?: HttpProtocol;
     availableRequests?: { id: string; name: string }[];
+    assertions?: Assertion[];
 }
 
 export function getDefaultRequestData(): RequestData {
@@ -54,7 +63,47 @@ export function requestToRequestData(request: Request): RequestData {
         headers: request.headers.map(h => ({ key: h.name, value: h.value, enabled: h.enabled })),
         auth: request.auth || { type: 'none' },
         body: request.body,
-        preRequestId: request.preRequestId
+        preRequestId: request.preRequestId,
+        disableCookieJar: request.disableCookieJar,
+        protocol: request.protocol,
+        assertions: request.assertions
+    };
+}
+
+/**
+ * The request the panel's (possibly unsaved) data describes, with the query parameters in the URL
+ * and the inherited headers that were turned off listed
+ */
+export function requestDataToRequest(data: RequestData): Request {
+    let url = data.url;
+    const queryParams = data.queryParams.filter(p => p.enabled && p.key);
+    if (queryParams.length > 0) {
+        const searchParams = new URLSearchParams();
+        queryParams.forEach(p => searchParams.append(p.key, p.value));
+        url += (url.includes('?') ? '&' : '?') + searchParams.toString();
+    }
+
+    const disabledInheritedHeaders = Object.entries(data.inheritedHeadersState || {})
+        .filter(([, enabled]) => !enabled)
+        .map(([key]) => key);
+
+    const now = Date.now();
+    return {
+        id: data.id || `temp-${now}`,
+        name: data.name,
+        method: data.method,
+        url,
+        headers: data.headers.map(h => ({ name: h.key, value: h.value, enabled: h.enabled })),
+        body: data.body,
+        auth: data.auth,
+        useInheritedAuth: data.useInheritedAuth,
+        disabledInheritedHeaders: disabledInheritedHeaders.length > 0 ? disabledInheritedHeaders : undefined,
+        preRequestId: data.preRequestId || undefined,
+        assertions: data.assertions && data.assertions.length > 0 ? data.assertions : undefined,
+        disableCookieJar: data.disableCookieJar || undefined,
+        protocol: data.protocol || undefined,
+        createdAt: now,
+        updatedAt: now,
     };
 }
 
@@ -70,6 +119,7 @@ export function generateRequestPanelHtml(
     const requestViewCssUri = getRequestViewCssUri(webview, extensionUri);
 
     const data = requestData || getDefaultRequestData();
+    const graphqlBody = parseGraphQLBody(data.body.type === 'graphql' ? data.body.content : '');
 
     // Determine if auth inputs should be initially disabled (inherited auth is being used)
     const authDisabled = data.inheritedAuth && data.inheritedAuth.type !== 'none' && data.useInheritedAuth !== false;
@@ -83,13 +133,14 @@ export function generateRequestPanelHtml(
         return state[h.key] !== false; // Default to enabled if not explicitly disabled
     }).length;
     const totalHeadersCount = requestHeadersCount + inheritedHeadersCount;
+    const assertionsCount = (data.assertions || []).filter(a => a.enabled).length;
 
     return /* html */ `<!DOCTYPE html>
 <html lang="en">
 <head>
     <meta charset="UTF-8">
     <meta name="viewport" content="width=device-width, initial-scale=1.0">
-    <meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src ${webview.cspSource} 'unsafe-inline'; font-src ${webview.cspSource}; script-src ${webview.cspSource} 'nonce-${nonce}';">
+    <meta http-equiv="Content-Security-Policy" content="default-src 'none'; img-src data:; object-src data:; style-src ${webview.cspSource} 'unsafe-inline'; font-src ${webview.cspSource}; script-src ${webview.cspSource} 'nonce-${nonce}';">
     <link href="${codiconsUri}" rel="stylesheet" />
     <link href="${sharedCssUri}" rel="stylesheet" />
     <link href="${requestViewCssUri}" rel="stylesheet" />
@@ -98,6 +149,7 @@ export function generateRequestPanelHtml(
 <body>
     <!-- Autocomplete dropdown -->
     <div id="autocompleteDropdown" class="autocomplete-dropdown"></div>
+    <div id="graphqlCompletions" class="autocomplete-dropdown"></div>
     
     <!-- Variable value tooltip -->
     <div id="variableTooltip" class="variable-tooltip"></div>
@@ -119,6 +171,14 @@ export function generateRequestPanelHtml(
             <span class="codicon codicon-play"></span>
             Send
         </vscode-button>
+        <vscode-button id="cancelBtn" appearance="secondary" style="display: none;">
+            <span class="codicon codicon-debug-stop"></span>
+            Cancel
+        </vscode-button>
+        <vscode-button id="stopStreamBtn" appearance="secondary" style="display: none;" title="Stop reading the stream and keep the events received so far">
+            <span class="codicon codicon-stop-circle"></span>
+            Stop
+        </vscode-button>
         <vscode-button id="saveBtn" appearance="secondary">
             <span class="codicon codicon-save"></span>
             Save
@@ -134,6 +194,7 @@ export function generateRequestPanelHtml(
         <vscode-tab-header slot="header">Headers${totalHeadersCount > 0 ? ` <span class="tab-badge" id="reqHeadersCount">${totalHeadersCount}</span>` : ' <span class="tab-badge" id="reqHeadersCount" style="display:none"></span>'}</vscode-tab-header>
         <vscode-tab-header slot="header">Auth</vscode-tab-header>
         <vscode-tab-header slot="header">Body</vscode-tab-header>
+        <vscode-tab-header slot="header">Tests <span class="tab-badge" id="assertionsCount"${assertionsCount > 0 ? '' : ' style="display:none"'}>${assertionsCount > 0 ? assertionsCount : ''}</span></vscode-tab-header>
         <vscode-tab-header slot="header">Settings</vscode-tab-header>
 
         <!-- Query Params Tab -->
@@ -220,11 +281,14 @@ export function generateRequestPanelHtml(
                 <vscode-single-select id="authType" ${authDisabledAttr}>
                     <vscode-option value="none" ${data.auth.type === 'none' ? 'selected' : ''}>No Auth</vscode-option>
                     <vscode-option value="basic" ${data.auth.type === 'basic' ? 'selected' : ''}>Basic Auth</vscode-option>
+                <vscode-option value="digest" ${data.auth.type === 'digest' ? 'selected' : ''}>Digest Auth</vscode-option>
                     <vscode-option value="bearer" ${data.auth.type === 'bearer' ? 'selected' : ''}>Bearer Token</vscode-option>
                     <vscode-option value="apikey" ${data.auth.type === 'apikey' ? 'selected' : ''}>API Key</vscode-option>
+                    <vscode-option value="oauth2" ${data.auth.type === 'oauth2' ? 'selected' : ''}>OAuth 2.0</vscode-option>
+                    <vscode-option value="awsv4" ${data.auth.type === 'awsv4' ? 'selected' : ''}>AWS Signature v4</vscode-option>
                 </vscode-single-select>
 
-                <div id="authBasic" class="auth-fields ${data.auth.type === 'basic' ? 'active' : ''}">
+                <div id="authBasic" class="auth-fields ${data.auth.type === 'basic' || data.auth.type === 'digest' ? 'active' : ''}">
                     <div class="auth-field-row">
                         <label>Username</label>
                         <vscode-textfield id="authUsername" value="${escapeHtml(data.auth.username || '')}" ${authDisabledAttr}></vscode-textfield>
@@ -274,6 +338,115 @@ export function generateRequestPanelHtml(
                         </vscode-single-select>
                     </div>
                 </div>
+
+                <div id="authOAuth2" class="auth-fields ${data.auth.type === 'oauth2' ? 'active' : ''}">
+                    <div class="auth-field-row">
+                        <label>Grant Type</label>
+                        <vscode-single-select id="authOAuth2GrantType" ${authDisabledAttr}>
+                            <vscode-option value="client_credentials" ${data.auth.grantType === 'client_credentials' || !data.auth.grantType ? 'selected' : ''}>Client Credentials</vscode-option>
+                            <vscode-option value="password" ${data.auth.grantType === 'password' ? 'selected' : ''}>Password</vscode-option>
+                            <vscode-option value="refresh_token" ${data.auth.grantType === 'refresh_token' ? 'selected' : ''}>Refresh Token</vscode-option>
+                        <vscode-option value="authorization_code" ${data.auth.grantType === 'authorization_code' ? 'selected' : ''}>Authorization Code (PKCE)</vscode-option>
+                        </vscode-single-select>
+                    </div>
+                    <div class="auth-field-row" data-oauth2-grant="authorization_code" style="${data.auth.grantType === 'authorization_code' ? '' : 'display: none;'}">
+                        <label>Auth URL</label>
+                        <vscode-textfield id="authOAuth2AuthUrl" value="${escapeHtml(data.auth.authUrl || '')}" placeholder="https://login.example.com/oauth/authorize" ${authDisabledAttr}></vscode-textfield>
+                    </div>
+                    <div class="auth-field-row">
+                        <label>Token URL</label>
+                        <vscode-textfield id="authOAuth2TokenUrl" value="${escapeHtml(data.auth.tokenUrl || '')}" placeholder="https://login.example.com/oauth/token" ${authDisabledAttr}></vscode-textfield>
+                    </div>
+                    <div class="auth-field-row" data-oauth2-grant="authorization_code" style="${data.auth.grantType === 'authorization_code' ? '' : 'display: none;'}">
+                        <label>Redirect URI</label>
+                        <vscode-textfield id="authOAuth2RedirectUri" value="${escapeHtml(data.auth.redirectUri || '')}" placeholder="http://127.0.0.1/callback" ${authDisabledAttr}></vscode-textfield>
+                    </div>
+                    <div class="auth-field-row">
+                        <label>Client ID</label>
+                        <vscode-textfield id="authOAuth2ClientId" value="${escapeHtml(data.auth.clientId || '')}" ${authDisabledAttr}></vscode-textfield>
+                    </div>
+                    <div class="auth-field-row">
+                        <label>Client Secret</label>
+                        <div class="secret-field-wrapper">
+                            <vscode-textfield id="authOAuth2ClientSecret" type="password" value="${escapeHtml(data.auth.clientSecret || '')}" ${authDisabledAttr}></vscode-textfield>
+                            <span class="secret-toggle-btn" data-target="authOAuth2ClientSecret" title="Show/Hide">
+                                <span class="codicon codicon-eye"></span>
+                            </span>
+                        </div>
+                    </div>
+                    <div class="auth-field-row" data-oauth2-grant="password" style="${(data.auth.grantType || 'client_credentials') === 'password' ? '' : 'display: none;'}">
+                        <label>Username</label>
+                        <vscode-textfield id="authOAuth2Username" value="${escapeHtml(data.auth.username || '')}" ${authDisabledAttr}></vscode-textfield>
+                    </div>
+                    <div class="auth-field-row" data-oauth2-grant="password" style="${(data.auth.grantType || 'client_credentials') === 'password' ? '' : 'display: none;'}">
+                        <label>Password</label>
+                        <div class="secret-field-wrapper">
+                            <vscode-textfield id="authOAuth2Password" type="password" value="${escapeHtml(data.auth.password || '')}" ${authDisabledAttr}></vscode-textfield>
+                            <span class="secret-toggle-btn" data-target="authOAuth2Password" title="Show/Hide">
+                                <span class="codicon codicon-eye"></span>
+                            </span>
+                        </div>
+                    </div>
+                    <div class="auth-field-row" data-oauth2-grant="refresh_token" style="${(data.auth.grantType || 'client_credentials') === 'refresh_token' ? '' : 'display: none;'}">
+                        <label>Refresh Token</label>
+                        <div class="secret-field-wrapper">
+                            <vscode-textfield id="authOAuth2RefreshToken" type="password" value="${escapeHtml(data.auth.refreshToken || '')}" ${authDisabledAttr}></vscode-textfield>
+                            <span class="secret-toggle-btn" data-target="authOAuth2RefreshToken" title="Show/Hide">
+                                <span class="codicon codicon-eye"></span>
+                            </span>
+                        </div>
+                    </div>
+                    <div class="auth-field-row">
+                        <label>Scope</label>
+                        <vscode-textfield id="authOAuth2Scope" value="${escapeHtml(data.auth.scope || '')}" ${authDisabledAttr}></vscode-textfield>
+                    </div>
+                    <div class="auth-field-row">
+                        <label>Audience</label>
+                        <vscode-textfield id="authOAuth2Audience" value="${escapeHtml(data.auth.audience || '')}" ${authDisabledAttr}></vscode-textfield>
+                    </div>
+                    <div class="auth-field-row">
+                        <label>Client Auth</label>
+                        <vscode-single-select id="authOAuth2ClientAuth" ${authDisabledAttr}>
+                            <vscode-option value="header" ${data.auth.clientAuth !== 'body' ? 'selected' : ''}>As Basic Auth header</vscode-option>
+                            <vscode-option value="body" ${data.auth.clientAuth === 'body' ? 'selected' : ''}>In request body</vscode-option>
+                        </vscode-single-select>
+                    </div>
+                    <p class="auth-hint">Tokens are fetched before sending, cached securely until they expire and refreshed automatically. Authorization Code opens your browser to sign in and receives the redirect on a local port.</p>
+                </div>
+
+                <div id="authAwsV4" class="auth-fields ${data.auth.type === 'awsv4' ? 'active' : ''}">
+                    <div class="auth-field-row">
+                        <label>Access Key ID</label>
+                        <vscode-textfield id="authAwsAccessKeyId" value="${escapeHtml(data.auth.awsAccessKeyId || '')}" ${authDisabledAttr}></vscode-textfield>
+                    </div>
+                    <div class="auth-field-row">
+                        <label>Secret Access Key</label>
+                        <div class="secret-field-wrapper">
+                            <vscode-textfield id="authAwsSecretAccessKey" type="password" value="${escapeHtml(data.auth.awsSecretAccessKey || '')}" ${authDisabledAttr}></vscode-textfield>
+                            <span class="secret-toggle-btn" data-target="authAwsSecretAccessKey" title="Show/Hide">
+                                <span class="codicon codicon-eye"></span>
+                            </span>
+                        </div>
+                    </div>
+                    <div class="auth-field-row">
+                        <label>Session Token</label>
+                        <div class="secret-field-wrapper">
+                            <vscode-textfield id="authAwsSessionToken" type="password" value="${escapeHtml(data.auth.awsSessionToken || '')}" ${authDisabledAttr}></vscode-textfield>
+                            <span class="secret-toggle-btn" data-target="authAwsSessionToken" title="Show/Hide">
+                                <span class="codicon codicon-eye"></span>
+                            </span>
+                        </div>
+                    </div>
+                    <div class="auth-field-row">
+                        <label>Region</label>
+                        <vscode-textfield id="authAwsRegion" value="${escapeHtml(data.auth.awsRegion || '')}" placeholder="us-east-1" ${authDisabledAttr}></vscode-textfield>
+                    </div>
+                    <div class="auth-field-row">
+                        <label>Service</label>
+                        <vscode-textfield id="authAwsService" value="${escapeHtml(data.auth.awsService || '')}" placeholder="execute-api" ${authDisabledAttr}></vscode-textfield>
+                    </div>
+                    <p class="auth-hint">The request is signed after variables are resolved, just before it is sent. Use <code>s3</code> as the service for S3-compatible storage.</p>
+                </div>
             </div>
         </vscode-tab-panel>
 
@@ -284,8 +457,11 @@ export function generateRequestPanelHtml(
                     <vscode-option value="none" ${data.body.type === 'none' ? 'selected' : ''}>None</vscode-option>
                     <vscode-option value="json" ${data.body.type === 'json' ? 'selected' : ''}>JSON</vscode-option>
                     <vscode-option value="form" ${data.body.type === 'form' ? 'selected' : ''}>Form Data</vscode-option>
+                    <vscode-option value="multipart" ${data.body.type === 'multipart' ? 'selected' : ''}>Multipart Form</vscode-option>
                     <vscode-option value="text" ${data.body.type === 'text' ? 'selected' : ''}>Raw Text</vscode-option>
                     <vscode-option value="xml" ${data.body.type === 'xml' ? 'selected' : ''}>XML</vscode-option>
+                    <vscode-option value="binary" ${data.body.type === 'binary' ? 'selected' : ''}>Binary File</vscode-option>
+                    <vscode-option value="graphql" ${data.body.type === 'graphql' ? 'selected' : ''}>GraphQL</vscode-option>
                 </vscode-single-select>
 
                 <div id="bodyNone" class="body-content ${data.body.type === 'none' ? 'active' : ''}">
@@ -316,6 +492,30 @@ export function generateRequestPanelHtml(
                     </vscode-button>
                 </div>
 
+                <div id="bodyMultipart" class="body-content ${data.body.type === 'multipart' ? 'active' : ''}">
+                    <p class="section-description">File fields upload the file at a path relative to the workspace folder. The Content-Type of a file is guessed from its extension unless set.</p>
+                    <table class="key-value-table multipart-table" id="multipartTable">
+                        <thead>
+                            <tr>
+                                <th class="checkbox-cell"></th>
+                                <th>Key</th>
+                                <th class="type-cell">Type</th>
+                                <th>Value</th>
+                                <th>Content-Type</th>
+                                <th class="browse-cell"></th>
+                                <th class="delete-cell"></th>
+                            </tr>
+                        </thead>
+                        <tbody id="multipartBody">
+                            ${renderMultipartRows(data.body.type === 'multipart' ? data.body.content : '')}
+                        </tbody>
+                    </table>
+                    <vscode-button class="add-row-btn" appearance="secondary" data-action="addMultipartField">
+                        <span class="codicon codicon-add"></span>
+                        Add Field
+                    </vscode-button>
+                </div>
+
                 <div id="bodyText" class="body-content ${data.body.type === 'text' ? 'active' : ''}">
                     <textarea class="body-textarea" id="bodyTextContent" placeholder="Enter raw text">${escapeHtml(data.body.type === 'text' ? data.body.content : '')}</textarea>
                 </div>
@@ -323,9 +523,60 @@ export function generateRequestPanelHtml(
                 <div id="bodyXml" class="body-content ${data.body.type === 'xml' ? 'active' : ''}">
                     <textarea class="body-textarea" id="bodyXmlContent" placeholder="<xml></xml>">${escapeHtml(data.body.type === 'xml' ? data.body.content : '')}</textarea>
                 </div>
+
+                <div id="bodyBinary" class="body-content ${data.body.type === 'binary' ? 'active' : ''}">
+                    <p class="section-description">The file is sent as the request body, byte for byte. Paths are relative to the workspace folder and may use variables. The Content-Type is guessed from the extension unless set in Headers.</p>
+                    <div class="binary-file-row">
+                        <vscode-textfield id="bodyBinaryPath" placeholder="File path" value="${escapeHtml(data.body.type === 'binary' ? data.body.content : '')}"></vscode-textfield>
+                        <vscode-button id="browseBinaryFileBtn" appearance="secondary">
+                            <span class="codicon codicon-folder-opened"></span>
+                            Browse
+                        </vscode-button>
+                    </div>
+                </div>
+
+                <div id="bodyGraphql" class="body-content ${data.body.type === 'graphql' ? 'active' : ''}">
+                    <p class="section-description">The query and variables are sent as a JSON POST. Fetch the schema to get fields and arguments with Ctrl+Space and have the query checked against it.</p>
+                    <div class="graphql-schema-row">
+                        <vscode-button id="fetchGraphqlSchemaBtn" appearance="secondary">
+                            <span class="codicon codicon-cloud-download"></span>
+                            Fetch Schema
+                        </vscode-button>
+                        <span id="graphqlSchemaStatus" class="graphql-schema-status">No schema yet - fetch it for autocomplete and validation</span>
+                    </div>
+                    <label class="graphql-label" for="bodyGraphqlQuery">Query</label>
+                    <textarea class="body-textarea graphql-query" id="bodyGraphqlQuery" spellcheck="false" placeholder="query { ... }">${escapeHtml(graphqlBody.query)}</textarea>
+                    <div id="graphqlProblems" class="graphql-problems"></div>
+                    <label class="graphql-label" for="bodyGraphqlVariables">Variables</label>
+                    <textarea class="body-textarea graphql-variables" id="bodyGraphqlVariables" spellcheck="false" placeholder='{"id": "1"}'>${escapeHtml(graphqlBody.variables)}</textarea>
+                </div>
             </div>
         </vscode-tab-panel>
 
+        <!-- Tests Tab -->
+        <vscode-tab-panel>
+            <p class="section-description tests-description">Checks run against the response every time the request is sent. Property and expected values support {{variables}}.</p>
+            <table class="key-value-table assertions-table" id="assertionsTable">
+                <thead>
+                    <tr>
+                        <th class="checkbox-cell"></th>
+                        <th>Source</th>
+                        <th>Property</th>
+                        <th>Operator</th>
+                        <th>Expected</th>
+                        <th class="delete-cell"></th>
+                    </tr>
+                </thead>
+                <tbody id="assertionsBody">
+                    ${renderAssertionRows(data.assertions || [])}
+                </tbody>
+            </table>
+            <vscode-button class="add-row-btn" appearance="secondary" data-action="addAssertion">
+                <span class="codicon codicon-add"></span>
+                Add Test
+            </vscode-button>
+        </vscode-tab-panel>
+
         <!-- Settings Tab -->
         <vscode-tab-panel>
             <div class="settings-section">
@@ -345,6 +596,20 @@ export function generateRequestPanelHtml(
                         </vscode-single-select>
                     </div>
                 </div>
+                <div class="cookie-jar-section">
+                    <h4>Cookies</h4>
+                    <p class="section-description">Send cookies stored for the active environment and keep the cookies this request's responses set. Turn off to manage the Cookie header yourself.</p>
+                    <vscode-checkbox id="useCookieJar" ${data.disableCookieJar ? '' : 'checked'}>
+                        Use the cookie jar
+                    </vscode-checkbox>
+                </div>
+                <div class="protocol-section">
+                    <h4>Protocol</h4>
+                    <p class="section-description">HTTP version to send this request with. Negotiate offers HTTP/2 and HTTP/1.1 to https:// servers and keeps what they choose; HTTP/2 on http:// assumes the server speaks it. HTTP/2 connections are reused for requests to the same server.</p>
+                    <vscode-single-select id="protocolSelect">
+                        ${renderProtocolOptions(data.protocol, data.inheritedProtocol)}
+                    </vscode-single-select>
+                </div>
             </div>
         </vscode-tab-panel>
     </vscode-tabs>
@@ -366,7 +631,23 @@ export function generateRequestPanelHtml(
                 <span class="metric-label">Size:</span>
                 <span class="metric-value" id="responseSize">-</span>
             </div>
+            <div class="metric" id="responseDecodedMetric" style="display: none;">
+                <span class="metric-label">Decoded:</span>
+                <span class="metric-value" id="responseDecoded">-</span>
+            </div>
+            <div class="metric" id="responseProtocolMetric" style="display: none;">
+                <span class="metric-label">Protocol:</span>
+                <span class="metric-value" id="responseProtocol">-</span>
+            </div>
+            <div class="metric" id="responseProxyMetric" style="display: none;">
+                <span class="metric-label">Proxy:</span>
+                <span class="metric-value" id="responseProxy">-</span>
+            </div>
             <div class="metrics-spacer"></div>
+            <vscode-button id="saveResponseBtn" appearance="secondary" title="Save the response body to a file, byte for byte">
+                <span class="codicon codicon-save"></span>
+                Save to File
+            </vscode-button>
             <vscode-button id="openInEditorBtn" appearance="secondary" title="Open in VS Code editor with full features (folding, search, minimap)">
                 <span class="codicon codicon-go-to-file"></span>
                 Open in Editor
@@ -377,6 +658,8 @@ export function generateRequestPanelHtml(
             <vscode-tab-header slot="header">Response</vscode-tab-header>
             <vscode-tab-header slot="header">Headers <span class="tab-badge" id="headersCount" style="display:none">0</span></vscode-tab-header>
             <vscode-tab-header slot="header">Cookies <span class="tab-badge" id="cookiesCount" style="display:none">0</span></vscode-tab-header>
+            <vscode-tab-header slot="header">Tests <span class="tab-badge" id="testResultsCount" style="display:none">0</span></vscode-tab-header>
+            <vscode-tab-header slot="header">Timing</vscode-tab-header>
             <vscode-tab-header slot="header">Raw</vscode-tab-header>
             <vscode-tab-header slot="header">Code Snippet</vscode-tab-header>
 
@@ -425,9 +708,50 @@ export function generateRequestPanelHtml(
                 </div>
             </vscode-tab-panel>
 
+            <!-- Test Results Tab -->
+            <vscode-tab-panel>
+                <div class="response-tab-content">
+                    <table class="headers-table test-results-table" id="testResultsTable" style="display: none;">
+                        <thead>
+                            <tr>
+                                <th class="test-result-icon"></th>
+                                <th>Test</th>
+                                <th>Actual</th>
+                            </tr>
+                        </thead>
+                        <tbody id="testResultsBody"></tbody>
+                    </table>
+                    <div class="no-data" id="noTestResults">No tests defined for this request</div>
+                </div>
+            </vscode-tab-panel>
+
+            <!-- Timing Tab -->
+            <vscode-tab-panel>
+                <div class="response-tab-content">
+                    <table class="timing-table" id="timingTable" style="display: none;">
+                        <tbody id="timingBody"></tbody>
+                        <tfoot>
+                            <tr>
+                                <td class="timing-label">Total</td>
+                                <td></td>
+                                <td class="timing-duration" id="timingTotal"></td>
+                            </tr>
+                        </tfoot>
+                    </table>
+                    <div class="no-data" id="noTimings">No timing information</div>
+                </div>
+            </vscode-tab-panel>
+
             <!-- Raw Tab -->
             <vscode-tab-panel>
                 <div class="response-tab-content">
+                    <div class="raw-view-controls" id="rawViewControls" style="display: none;">
+                        <vscode-single-select id="rawView">
+                            <vscode-option value="decoded" selected>Decoded body</vscode-option>
+                            <vscode-option value="encoded">Encoded bytes (hex)</vscode-option>
+                        </vscode-single-select>
+                        <span class="raw-view-summary" id="rawViewSummary"></span>
+                    </div>
                     <div class="response-body-wrapper">
                         <div class="response-body" id="responseRaw"></div>
                         <button class="copy-response-btn" id="copyRawBtn" title="Copy raw response">
@@ -479,6 +803,45 @@ export function generateRequestPanelHtml(
             let inheritedHeadersState = requestData.inheritedHeadersState || {};
             let inheritedAuth = requestData.inheritedAuth || null;
             
+            // Assertion editor metadata
+            const assertionOperators = ${JSON.stringify(ASSERTION_OPERATORS)};
+            const assertionSourceLabels = ${JSON.stringify(ASSERTION_SOURCE_LABELS)};
+            const assertionOperatorLabels = ${JSON.stringify(ASSERTION_OPERATOR_LABELS)};
+            const timingPhases = ${JSON.stringify(TIMING_PHASES)};
+
+            // OAuth 2.0 form fields by AuthConfig property
+            const oauth2FieldIds = {
+                grantType: 'authOAuth2GrantType',
+                authUrl: 'authOAuth2AuthUrl',
+                tokenUrl: 'authOAuth2TokenUrl',
+                redirectUri: 'authOAuth2RedirectUri',
+                clientId: 'authOAuth2ClientId',
+                clientSecret: 'authOAuth2ClientSecret',
+                username: 'authOAuth2Username',
+                password: 'authOAuth2Password',
+                refreshToken: 'authOAuth2RefreshToken',
+                scope: 'authOAuth2Scope',
+                audience: 'authOAuth2Audience',
+                clientAuth: 'authOAuth2ClientAuth'
+            };
+
+            // AWS Signature v4 form fields by AuthConfig property
+            const awsFieldIds = {
+                awsAccessKeyId: 'authAwsAccessKeyId',
+                awsSecretAccessKey: 'authAwsSecretAccessKey',
+                awsSessionToken: 'authAwsSessionToken',
+                awsRegion: 'authAwsRegion',
+                awsService: 'authAwsService'
+            };
+
+            // Show only the OAuth 2.0 fields used by the selected grant
+            function updateOAuth2GrantRows() {
+                const grantType = document.getElementById('authOAuth2GrantType').value;
+                document.querySelectorAll('[data-oauth2-grant]').forEach(row => {
+                    row.style.display = row.dataset.oauth2Grant === grantType ? '' : 'none';
+                });
+            }
+            
             // Autocomplete state
             let availableVariables = [];
             let autocompleteTarget = null;
@@ -491,6 +854,13 @@ export function generateRequestPanelHtml(
             
             // Response body for copy functionality
             let currentResponseBody = '';
+
+            // Raw tab contents: the decoded text, and the encoded bytes once loaded
+            let currentRawText = '';
+            let encodedHexDump = undefined;
+
+            // Event stream shown while it arrives: { kind, count, summary, list }
+            let streamView = undefined;
             
             // Request available variables on load
             vscode.postMessage({ type: 'getAvailableVariables' });
@@ -628,6 +998,13 @@ export function generateRequestPanelHtml(
                     headerCountEl.textContent = headersCount > 0 ? headersCount : '';
                     headerCountEl.style.display = headersCount > 0 ? '' : 'none';
                 }
+                
+                const assertionsCount = collectAssertions().filter(a => a.enabled).length;
+                const assertionsCountEl = document.getElementById('assertionsCount');
+                if (assertionsCountEl) {
+                    assertionsCountEl.textContent = assertionsCount > 0 ? assertionsCount : '';
+                    assertionsCountEl.style.display = assertionsCount > 0 ? '' : 'none';
+                }
             }
 
             function collectRequestData() {
@@ -651,7 +1028,8 @@ export function generateRequestPanelHtml(
                 
                 const authType = document.getElementById('authType').value;
                 const auth = { type: authType };
-                if (authType === 'basic') {
+                // Digest uses the same username/password fields as Basic
+                if (authType === 'basic' || authType === 'digest') {
                     auth.username = document.getElementById('authUsername').value;
                     auth.password = document.getElementById('authPassword').value;
                 } else if (authType === 'bearer') {
@@ -660,6 +1038,14 @@ export function generateRequestPanelHtml(
                     auth.apiKeyName = document.getElementById('authApiKeyName').value;
                     auth.apiKeyValue = document.getElementById('authApiKeyValue').value;
                     auth.apiKeyIn = document.getElementById('authApiKeyIn').value;
+                } else if (authType === 'oauth2') {
+                    Object.entries(oauth2FieldIds).forEach(([field, id]) => {
+                        auth[field] = document.getElementById(id).value;
+                    });
+                } else if (authType === 'awsv4') {
+                    Object.entries(awsFieldIds).forEach(([field, id]) => {
+                        auth[field] = document.getElementById(id).value;
+                    });
                 }
                 
                 // Check if using inherited auth
@@ -672,10 +1058,19 @@ export function generateRequestPanelHtml(
                     bodyContent = document.getElementById('bodyJsonContent').value;
                 } else if (bodyType === 'form') {
                     bodyContent = JSON.stringify(collectKeyValueRows('formDataBody', 'formData'));
+                } else if (bodyType === 'multipart') {
+                    bodyContent = JSON.stringify(collectMultipartRows());
                 } else if (bodyType === 'text') {
                     bodyContent = document.getElementById('bodyTextContent').value;
                 } else if (bodyType === 'xml') {
                     bodyContent = document.getElementById('bodyXmlContent').value;
+                } else if (bodyType === 'binary') {
+                    bodyContent = document.getElementById('bodyBinaryPath').value;
+                } else if (bodyType === 'graphql') {
+                    bodyContent = JSON.stringify({
+                        query: document.getElementById('bodyGraphqlQuery').value,
+                        variables: document.getElementById('bodyGraphqlVariables').value
+                    });
                 }
 
                 // Collect pre-request settings
@@ -699,10 +1094,35 @@ export function generateRequestPanelHtml(
                     useInheritedAuth: useInheritedAuth,
                     auth,
                     body: { type: bodyType, content: bodyContent },
-                    preRequestId: preRequestId
+                    preRequestId: preRequestId,
+                    disableCookieJar: !document.getElementById('useCookieJar').checked || undefined,
+                    protocol: document.getElementById('protocolSelect').value || undefined,
+                    assertions: collectAssertions()
                 };
             }
 
+            function collectAssertions() {
+                const assertions = [];
+                const tbody = document.getElementById('assertionsBody');
+                if (!tbody) return assertions;
+                
+                tbody.querySelectorAll('tr.assertion-row').forEach(row => {
+                    const enabledCheckbox = row.querySelector('vscode-checkbox');
+                    const source = row.querySelector('[data-field="source"]').value;
+                    const property = row.querySelector('[data-field="property"]').value;
+                    const expected = row.querySelector('[data-field="expected"]').value;
+                    assertions.push({
+                        id: row.dataset.assertionId,
+                        enabled: enabledCheckbox ? enabledCheckbox.checked : true,
+                        source,
+                        property: property || undefined,
+                        operator: row.querySelector('[data-field="operator"]').value,
+                        expected: expected || undefined
+                    });
+                });
+                return assertions;
+            }
+
             function collectKeyValueRows(tbodyId, prefix) {
                 const rows = [];
                 const tbody = document.getElementById(tbodyId);
@@ -753,7 +1173,7 @@ export function generateRequestPanelHtml(
                 restoreInheritedHeadersState(state.inheritedHeaders || inheritedHeaders, state.inheritedHeadersState || inheritedHeadersState);
                 
                 // Restore auth
-                const authIdMap = { 'basic': 'authBasic', 'bearer': 'authBearer', 'apikey': 'authApiKey' };
+                const authIdMap = { 'basic': 'authBasic', 'digest': 'authBasic', 'bearer': 'authBearer', 'apikey': 'authApiKey', 'oauth2': 'authOAuth2', 'awsv4': 'authAwsV4' };
                 if (state.auth) {
                     const authType = state.auth.type || 'none';
                     document.getElementById('authType').value = authType;
@@ -786,6 +1206,21 @@ export function generateRequestPanelHtml(
                     if (state.auth.apiKeyIn !== undefined) {
                         document.getElementById('authApiKeyIn').value = state.auth.apiKeyIn;
                     }
+                    if (authType === 'oauth2') {
+                        Object.entries(oauth2FieldIds).forEach(([field, id]) => {
+                            if (state.auth[field] !== undefined) {
+                                document.getElementById(id).value = state.auth[field];
+                            }
+                        });
+                        updateOAuth2GrantRows();
+                    }
+                    if (authType === 'awsv4') {
+                        Object.entries(awsFieldIds).forEach(([field, id]) => {
+                            if (state.auth[field] !== undefined) {
+                                document.getElementById(id).value = state.auth[field];
+                            }
+                        });
+                    }
                 }
                 
                 // Restore useInheritedAuth state
@@ -828,10 +1263,26 @@ export function generateRequestPanelHtml(
                         } catch (e) {
                             // Invalid JSON, ignore
                         }
+                    } else if (bodyType === 'multipart' && state.body.content) {
+                        try {
+                            restoreMultipartRows(JSON.parse(state.body.content));
+                        } catch (e) {
+                            // Invalid JSON, ignore
+                        }
                     } else if (bodyType === 'text' && state.body.content) {
                         document.getElementById('bodyTextContent').value = state.body.content;
                     } else if (bodyType === 'xml' && state.body.content) {
                         document.getElementById('bodyXmlContent').value = state.body.content;
+                    } else if (bodyType === 'binary' && state.body.content) {
+                        document.getElementById('bodyBinaryPath').value = state.body.content;
+                    } else if (bodyType === 'graphql' && state.body.content) {
+                        try {
+                            const graphql = JSON.parse(state.body.content);
+                            document.getElementById('bodyGraphqlQuery').value = graphql.query || '';
+                            document.getElementById('bodyGraphqlVariables').value = graphql.variables || '';
+                        } catch (e) {
+                            // Invalid JSON, ignore
+                        }
                     }
                 }
                 
@@ -853,6 +1304,15 @@ export function generateRequestPanelHtml(
                     }
                 }
                 
+                // Restore cookie jar opt-out
+                document.getElementById('useCookieJar').checked = !state.disableCookieJar;
+                document.getElementById('protocolSelect').value = state.protocol || '';
+                
+                // Restore assertions
+                if (state.assertions && Array.isArray(state.assertions)) {
+                    restoreAssertionRows(state.assertions);
+                }
+                
                 // Update tab counts after restore
                 updateTabCounts();
             }
@@ -968,8 +1428,359 @@ export function generateRequestPanelHtml(
                     .replace(/'/g, '&#039;');
             }
 
+            function renderAssertionOptions(values, labels, selected) {
+                return values.map(v =>
+                    '<vscode-option value="' + v + '"' + (v === selected ? ' selected' : '') + '>' + escapeHtmlInJs(labels[v] || v) + '</vscode-option>'
+                ).join('');
+            }
+
+            function addAssertionRow(assertion) {
+                const tbody = document.getElementById('assertionsBody');
+                if (!tbody) return;
+                
+                const source = assertion.source || 'status';
+                const operators = assertionOperators[source] || [];
+                const operator = operators.includes(assertion.operator) ? assertion.operator : operators[0];
+                const row = document.createElement('tr');
+                row.className = 'key-value-row assertion-row';
+                row.dataset.assertionId = assertion.id || (Date.now() + '-' + Math.random().toString(36).substring(2, 9));
+                row.innerHTML = \`
+                    <td class="checkbox-cell">
+                        <vscode-checkbox \${assertion.enabled !== false ? 'checked' : ''}></vscode-checkbox>
+                    </td>
+                    <td>
+                        <vscode-single-select data-field="source">\${renderAssertionOptions(Object.keys(assertionOperators), assertionSourceLabels, source)}</vscode-single-select>
+                    </td>
+                    <td>
+                        <vscode-textfield data-field="property" value="\${escapeHtmlInJs(assertion.property || '')}"></vscode-textfield>
+                    </td>
+                    <td>
+                        <vscode-single-select data-field="operator">\${renderAssertionOptions(operators, assertionOperatorLabels, operator)}</vscode-single-select>
+                    </td>
+                    <td>
+                        <vscode-textfield data-field="expected" value="\${escapeHtmlInJs(assertion.expected || '')}"></vscode-textfield>
+                    </td>
+                    <td class="delete-cell">
+                        <button class="delete-btn" data-action="deleteRow">
+                            <span class="codicon codicon-trash"></span>
+                        </button>
+                    </td>
+                \`;
+                tbody.appendChild(row);
+                updateAssertionRowState(row);
+                
+                // Add delete handler
+                row.querySelector('.delete-btn').addEventListener('click', () => {
+                    row.remove();
+                    saveState();
+                });
+            }
+
+            function addMultipartRow(field) {
+                const tbody = document.getElementById('multipartBody');
+                if (!tbody) return;
+                
+                const isFile = field.type === 'file';
+                const row = document.createElement('tr');
+                row.className = 'key-value-row multipart-row' + (isFile ? ' file-field' : '');
+                row.innerHTML = \`
+                    <td class="checkbox-cell">
+                        <vscode-checkbox \${field.enabled !== false ? 'checked' : ''}></vscode-checkbox>
+                    </td>
+                    <td>
+                        <vscode-textfield data-field="key" placeholder="Key" value="\${escapeHtmlInJs(field.key || '')}"></vscode-textfield>
+                    </td>
+                    <td class="type-cell">
+                        <vscode-single-select data-field="type">
+                            <vscode-option value="text" \${isFile ? '' : 'selected'}>Text</vscode-option>
+                            <vscode-option value="file" \${isFile ? 'selected' : ''}>File</vscode-option>
+                        </vscode-single-select>
+                    </td>
+                    <td>
+                        <vscode-textfield data-field="value" placeholder="\${isFile ? 'File path' : 'Value'}" value="\${escapeHtmlInJs(field.value || '')}"></vscode-textfield>
+                    </td>
+                    <td>
+                        <vscode-textfield data-field="contentType" placeholder="Auto" value="\${escapeHtmlInJs(field.contentType || '')}"></vscode-textfield>
+                    </td>
+                    <td class="browse-cell">
+                        <button class="browse-file-btn" data-action="browseFile" title="Choose File">
+                            <span class="codicon codicon-folder-opened"></span>
+                        </button>
+                    </td>
+                    <td class="delete-cell">
+                        <button class="delete-btn" data-action="deleteRow">
+                            <span class="codicon codicon-trash"></span>
+                        </button>
+                    </td>
+                \`;
+                tbody.appendChild(row);
+                
+                // Add delete handler
+                row.querySelector('.delete-btn').addEventListener('click', () => {
+                    row.remove();
+                    saveState();
+                });
+            }
+
+            function restoreMultipartRows(fields) {
+                const tbody = document.getElementById('multipartBody');
+                if (!tbody) return;
+                
+                tbody.innerHTML = '';
+                (Array.isArray(fields) ? fields : []).forEach(addMultipartRow);
+            }
+
+            function collectMultipartRows() {
+                const fields = [];
+                document.querySelectorAll('#multipartBody tr.multipart-row').forEach(row => {
+                    const field = {
+                        key: row.querySelector('[data-field="key"]').value || '',
+                        value: row.querySelector('[data-field="value"]').value || '',
+                        enabled: row.querySelector('vscode-checkbox').checked,
+                        type: row.querySelector('[data-field="type"]').value === 'file' ? 'file' : 'text'
+                    };
+                    const contentType = row.querySelector('[data-field="contentType"]').value;
+                    if (contentType) {
+                        field.contentType = contentType;
+                    }
+                    fields.push(field);
+                });
+                return fields;
+            }
+
+            // Switching a field between text and file shows the file picker button
+            document.getElementById('multipartBody').addEventListener('change', (e) => {
+                const typeSelect = e.target.closest('[data-field="type"]');
+                if (!typeSelect) return;
+                const row = typeSelect.closest('tr');
+                const isFile = typeSelect.value === 'file';
+                row.classList.toggle('file-field', isFile);
+                row.querySelector('[data-field="value"]').placeholder = isFile ? 'File path' : 'Value';
+            });
+
+            // The extension opens a file dialog and answers with multipartFileSelected
+            document.getElementById('multipartBody').addEventListener('click', (e) => {
+                const button = e.target.closest('[data-action="browseFile"]');
+                if (!button) return;
+                const rows = Array.from(document.querySelectorAll('#multipartBody tr.multipart-row'));
+                vscode.postMessage({ type: 'selectMultipartFile', index: rows.indexOf(button.closest('tr')) });
+            });
+
+            // Same for the file of a binary body, answered with binaryFileSelected
+            document.getElementById('browseBinaryFileBtn').addEventListener('click', () => {
+                vscode.postMessage({ type: 'selectBinaryFile' });
+            });
+
+            // GraphQL body: the extension answers with completions and problems from the schema it cached
+            let graphqlItems = [];
+            let graphqlFrom = 0;
+            let graphqlSelected = -1;
+            let graphqlDiagnostics = [];
+            let graphqlValidateTimeout = null;
+
+            function requestGraphqlValidation() {
+                clearTimeout(graphqlValidateTimeout);
+                graphqlValidateTimeout = setTimeout(() => {
+                    if (document.getElementById('bodyType').value !== 'graphql') return;
+                    vscode.postMessage({
+                        type: 'graphqlValidate',
+                        url: document.getElementById('url').value,
+                        content: collectRequestData().body.content
+                    });
+                }, 300);
+            }
+
+            function requestGraphqlCompletions() {
+                const query = document.getElementById('bodyGraphqlQuery');
+                vscode.postMessage({
+                    type: 'graphqlComplete',
+                    url: document.getElementById('url').value,
+                    query: query.value,
+                    offset: query.selectionStart
+                });
+            }
+
+            function hideGraphqlCompletions() {
+                document.getElementById('graphqlCompletions').classList.remove('visible');
+                graphqlItems = [];
+                graphqlSelected = -1;
+            }
+
+            function showGraphqlCompletions(message) {
+                const query = document.getElementById('bodyGraphqlQuery');
+                const dropdown = document.getElementById('graphqlCompletions');
+                // Answers for a cursor that has moved on since are dropped
+                if (document.activeElement !== query || query.selectionStart !== message.offset || message.items.length === 0) {
+                    hideGraphqlCompletions();
+                    return;
+                }
+                graphqlItems = message.items;
+                graphqlFrom = message.from;
+                graphqlSelected = 0;
+                dropdown.innerHTML = graphqlItems.map((item, i) =>
+                    '<div class="autocomplete-item' + (i === 0 ? ' selected' : '') + '" data-index="' + i + '">' +
+                    '<span class="autocomplete-item-name">' + escapeHtmlInJs(item.label) + '</span>' +
+                    '<span class="autocomplete-item-source">' + escapeHtmlInJs(item.detail || item.kind) + '</span>' +
+                    '</div>'
+                ).join('');
+                const rect = query.getBoundingClientRect();
+                dropdown.style.left = rect.left + 'px';
+                dropdown.style.top = (rect.bottom + 2) + 'px';
+                dropdown.classList.add('visible');
+            }
+
+            function insertGraphqlCompletion(index) {
+                const item = graphqlItems[index];
+                if (!item) return;
+                const query = document.getElementById('bodyGraphqlQuery');
+                const end = query.selectionStart;
+                query.value = query.value.substring(0, graphqlFrom) + item.label + query.value.substring(end);
+                const position = graphqlFrom + item.label.length;
+                query.focus();
+                query.setSelectionRange(position, position);
+                hideGraphqlCompletions();
+                saveState();
+                requestGraphqlValidation();
+            }
+
+            function showGraphqlSchemaStatus(status) {
+                const element = document.getElementById('graphqlSchemaStatus');
+                element.classList.toggle('error', !!status.error);
+                if (status.loading) {
+                    element.textContent = 'Fetching schema...';
+                } else if (status.error) {
+                    element.textContent = status.error;
+                } else if (status.fetchedAt) {
+                    element.textContent = 'Schema with ' + status.typeCount + ' types, fetched ' + new Date(status.fetchedAt).toLocaleString();
+                } else {
+                    element.textContent = 'No schema yet - fetch it for autocomplete and validation';
+                }
+                document.getElementById('fetchGraphqlSchemaBtn').disabled = !!status.loading;
+            }
+
+            function showGraphqlDiagnostics(diagnostics) {
+                const query = document.getElementById('bodyGraphqlQuery').value;
+                graphqlDiagnostics = diagnostics;
+                document.getElementById('graphqlProblems').innerHTML = diagnostics.map((d, i) => {
+                    let where = 'Variables';
+                    if (!d.variables) {
+                        const before = query.substring(0, d.offset);
+                        where = 'Line ' + before.split('\\n').length + ', column ' + (d.offset - before.lastIndexOf('\\n'));
+                    }
+                    return '<div class="graphql-problem" data-index="' + i + '">' +
+                        '<span class="codicon codicon-error"></span>' +
+                        '<span class="graphql-problem-location">' + where + '</span>' +
+                        '<span>' + escapeHtmlInJs(d.message) + '</span>' +
+                        '</div>';
+                }).join('');
+            }
+
+            document.getElementById('fetchGraphqlSchemaBtn').addEventListener('click', () => {
+                vscode.postMessage({ type: 'fetchGraphQLSchema', data: collectRequestData() });
+            });
+
+            document.getElementById('bodyGraphqlQuery').addEventListener('input', (e) => {
+                const before = e.target.value.substring(0, e.target.selectionStart);
+                // Inside {{ the variable autocomplete takes over
+                const inVariable = before.lastIndexOf('{{') > before.lastIndexOf('}}');
+                if (!inVariable && /\\w$/.test(before)) {
+                    requestGraphqlCompletions();
+                } else {
+                    hideGraphqlCompletions();
+                }
+                requestGraphqlValidation();
+            });
+
+            document.getElementById('bodyGraphqlQuery').addEventListener('keydown', (e) => {
+                if (e.ctrlKey && e.key === ' ') {
+                    e.preventDefault();
+                    requestGraphqlCompletions();
+                    return;
+                }
+                if (!document.getElementById('graphqlCompletions').classList.contains('visible') || autocompleteDropdown.classList.contains('visible')) return;
+                const items = document.querySelectorAll('#graphqlCompletions .autocomplete-item');
+                if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+                    e.preventDefault();
+                    graphqlSelected = (graphqlSelected + (e.key === 'ArrowDown' ? 1 : items.length - 1)) % items.length;
+                    items.forEach((item, i) => item.classList.toggle('selected', i === graphqlSelected));
+                    items[graphqlSelected].scrollIntoView({ block: 'nearest' });
+                } else if (e.key === 'Enter' || e.key === 'Tab') {
+                    e.preventDefault();
+                    insertGraphqlCompletion(graphqlSelected);
+                } else if (e.key === 'Escape') {
+                    e.preventDefault();
+                    hideGraphqlCompletions();
+                }
+            });
+
+            document.getElementById('bodyGraphqlQuery').addEventListener('blur', hideGraphqlCompletions);
+
+            // mousedown keeps the focus in the query, so the completion lands at its cursor
+            document.getElementById('graphqlCompletions').addEventListener('mousedown', (e) => {
+                e.preventDefault();
+                const item = e.target.closest('.autocomplete-item');
+                if (item) {
+                    insertGraphqlCompletion(Number(item.dataset.index));
+                }
+            });
+
+            document.getElementById('graphqlProblems').addEventListener('click', (e) => {
+                const problem = e.target.closest('.graphql-problem');
+                const diagnostic = problem && graphqlDiagnostics[Number(problem.dataset.index)];
+                if (!diagnostic) return;
+                const field = document.getElementById(diagnostic.variables ? 'bodyGraphqlVariables' : 'bodyGraphqlQuery');
+                field.focus();
+                if (!diagnostic.variables) {
+                    field.setSelectionRange(diagnostic.offset, diagnostic.offset + diagnostic.length);
+                }
+            });
+
+            document.getElementById('bodyGraphqlVariables').addEventListener('input', requestGraphqlValidation);
+            document.getElementById('url').addEventListener('input', requestGraphqlValidation);
+            requestGraphqlValidation();
+
+            function restoreAssertionRows(assertions) {
+                const tbody = document.getElementById('assertionsBody');
+                if (!tbody) return;
+                
+                tbody.innerHTML = '';
+                assertions.forEach(a => addAssertionRow(a));
+            }
+
+            // Enable property/expected fields only where the source and operator use them
+            function updateAssertionRowState(row) {
+                const source = row.querySelector('[data-field="source"]').value;
+                const operator = row.querySelector('[data-field="operator"]').value;
+                const propertyField = row.querySelector('[data-field="property"]');
+                const expectedField = row.querySelector('[data-field="expected"]');
+                
+                const usesProperty = source === 'header' || source === 'jsonPath';
+                propertyField.toggleAttribute('disabled', !usesProperty);
+                propertyField.setAttribute('placeholder', source === 'header' ? 'Header name' : (source === 'jsonPath' ? '$.data.id' : ''));
+                
+                const usesExpected = operator !== 'exists' && operator !== 'notExists';
+                expectedField.toggleAttribute('disabled', !usesExpected);
+                const expectedPlaceholders = { inRange: '200-299', isType: 'string', lessThan: '500', matches: '^regex$' };
+                expectedField.setAttribute('placeholder', usesExpected ? (expectedPlaceholders[operator] || 'Value') : '');
+            }
+
+            // Repopulate operators when an assertion source changes
+            document.getElementById('assertionsBody').addEventListener('change', (e) => {
+                const row = e.target.closest('tr.assertion-row');
+                if (!row) return;
+                
+                if (e.target.dataset.field === 'source') {
+                    const operators = assertionOperators[e.target.value] || [];
+                    const operatorSelect = row.querySelector('[data-field="operator"]');
+                    operatorSelect.innerHTML = renderAssertionOptions(operators, assertionOperatorLabels, operators[0]);
+                    operatorSelect.value = operators[0];
+                }
+                updateAssertionRowState(row);
+            });
+            document.querySelectorAll('#assertionsBody tr.assertion-row').forEach(updateAssertionRowState);
+
             // Auth type change handler
-            const authIdMapHandler = { 'basic': 'authBasic', 'bearer': 'authBearer', 'apikey': 'authApiKey' };
+            const authIdMapHandler = { 'basic': 'authBasic', 'digest': 'authBasic', 'bearer': 'authBearer', 'apikey': 'authApiKey', 'oauth2': 'authOAuth2', 'awsv4': 'authAwsV4' };
             document.getElementById('authType').addEventListener('change', (e) => {
                 const authType = e.target.value;
                 document.querySelectorAll('.auth-fields').forEach(el => el.classList.remove('active'));
@@ -982,6 +1793,11 @@ export function generateRequestPanelHtml(
                 saveState();
             });
 
+            document.getElementById('authOAuth2GrantType').addEventListener('change', () => {
+                updateOAuth2GrantRows();
+                saveState();
+            });
+
             // Use inherited auth toggle handler
             function updateAuthSectionState(forceUseInherited) {
                 const useInheritedAuthCheckbox = document.getElementById('useInheritedAuth');
@@ -1057,6 +1873,9 @@ export function generateRequestPanelHtml(
                 });
             }
             
+            document.getElementById('useCookieJar').addEventListener('change', saveState);
+            document.getElementById('protocolSelect').addEventListener('change', saveState);
+            
             // Pre-request select change handler
             const preRequestSelect = document.getElementById('preRequestSelect');
             if (preRequestSelect) {
@@ -1091,6 +1910,11 @@ export function generateRequestPanelHtml(
                 if (bodySection) {
                     bodySection.classList.add('active');
                 }
+                // GraphQL queries are always posted
+                if (bodyType === 'graphql') {
+                    document.getElementById('method').value = 'POST';
+                    requestGraphqlValidation();
+                }
                 saveState();
             });
 
@@ -1100,6 +1924,22 @@ export function generateRequestPanelHtml(
                 vscode.postMessage({ type: 'sendRequest', data });
             });
 
+            // Cancel button handler - only shown while a request is in flight
+            document.getElementById('cancelBtn').addEventListener('click', () => {
+                vscode.postMessage({ type: 'cancelRequest' });
+            });
+
+            // Stop button handler - only shown while an event stream is arriving
+            document.getElementById('stopStreamBtn').addEventListener('click', () => {
+                vscode.postMessage({ type: 'stopStream' });
+            });
+
+            function setRequestInFlight(inFlight, streaming) {
+                document.getElementById('sendBtn').style.display = inFlight ? 'none' : '';
+                document.getElementById('cancelBtn').style.display = inFlight && !streaming ? '' : 'none';
+                document.getElementById('stopStreamBtn').style.display = inFlight && streaming ? '' : 'none';
+            }
+
             // Save button handler
             document.getElementById('saveBtn').addEventListener('click', () => {
                 const data = collectRequestData();
@@ -1135,6 +1975,24 @@ export function generateRequestPanelHtml(
                 vscode.postMessage({ type: 'openInEditor' });
             });
 
+            // Raw view toggle - the hex dump of the encoded bytes is fetched from the extension on first use
+            document.getElementById('rawView').addEventListener('change', (e) => {
+                const rawEl = document.getElementById('responseRaw');
+                if (e.target.value !== 'encoded') {
+                    rawEl.textContent = currentRawText;
+                } else if (encodedHexDump !== undefined) {
+                    rawEl.textContent = encodedHexDump;
+                } else {
+                    rawEl.textContent = 'Loading...';
+                    vscode.postMessage({ type: 'getEncodedBody' });
+                }
+            });
+
+            // Save to File button handler - the extension writes the bytes it received
+            document.getElementById('saveResponseBtn').addEventListener('click', () => {
+                vscode.postMessage({ type: 'saveResponse' });
+            });
+
             // Copy response button handlers
             function setupCopyButton(btnId) {
                 const btn = document.getElementById(btnId);
@@ -1217,6 +2075,10 @@ export function generateRequestPanelHtml(
                         addKeyValueRow('headersBody', 'header');
                     } else if (action === 'addFormData') {
                         addKeyValueRow('formDataBody', 'formData');
+                    } else if (action === 'addMultipartField') {
+                        addMultipartRow({ key: '', value: '', enabled: true, type: 'text' });
+                    } else if (action === 'addAssertion') {
+                        addAssertionRow({ source: 'status', operator: 'equals', expected: '200', enabled: true });
                     }
                     saveState();
                 });
@@ -1277,6 +2139,7 @@ export function generateRequestPanelHtml(
                         inheritedAuth = message.data.inheritedAuth || null;
                         restoreState(requestData);
                         updateInheritedAuthVisibility(inheritedAuth);
+                        requestGraphqlValidation();
                         // Hide dirty indicator on fresh load
                         const loadIndicator = document.getElementById('dirtyIndicator');
                         if (loadIndicator) {
@@ -1295,15 +2158,65 @@ export function generateRequestPanelHtml(
                         restoreInheritedHeadersState(inheritedHeaders, inheritedHeadersState);
                         saveState();
                         break;
+                    case 'requestStarted':
+                        streamView = undefined;
+                        setRequestInFlight(true);
+                        break;
+                    case 'streamStarted':
+                        setRequestInFlight(true, true);
+                        showStreamStarted(message.data);
+                        break;
+                    case 'streamEvents':
+                        appendStreamEvents(message.events);
+                        break;
                     case 'showResponse':
+                        setRequestInFlight(false);
                         showResponse(message.data);
                         break;
                     case 'showError':
+                        setRequestInFlight(false);
                         showError(message.error);
                         break;
                     case 'requestError':
+                        setRequestInFlight(false);
                         showError(message.data.message);
                         break;
+                    case 'requestCancelled':
+                        setRequestInFlight(false);
+                        showError('Request cancelled', true);
+                        break;
+                    case 'multipartFileSelected': {
+                        const row = document.querySelectorAll('#multipartBody tr.multipart-row')[message.index];
+                        if (row) {
+                            row.querySelector('[data-field="value"]').value = message.path;
+                            saveState();
+                        }
+                        break;
+                    }
+                    case 'encodedBody':
+                        encodedHexDump = message.hexDump;
+                        if (document.getElementById('rawView').value === 'encoded') {
+                            document.getElementById('responseRaw').textContent = encodedHexDump;
+                        }
+                        break;
+                    case 'graphqlCompletions':
+                        showGraphqlCompletions(message);
+                        break;
+                    case 'graphqlDiagnostics':
+                        showGraphqlDiagnostics(message.diagnostics);
+                        showGraphqlSchemaStatus(message.schema || {});
+                        break;
+                    case 'graphqlSchemaStatus':
+                        showGraphqlSchemaStatus(message);
+                        // Check the query against the new schema
+                        if (message.fetchedAt) {
+                            requestGraphqlValidation();
+                        }
+                        break;
+                    case 'binaryFileSelected':
+                        document.getElementById('bodyBinaryPath').value = message.path;
+                        saveState();
+                        break;
                     case 'variablesList':
                         availableVariables = message.data || [];
                         // Clear resolved variables cache when variable list updates
@@ -1380,10 +2293,26 @@ export function generateRequestPanelHtml(
                 '#authToken',
                 '#authApiKeyName',
                 '#authApiKeyValue',
+                '#authOAuth2AuthUrl',
+                '#authOAuth2TokenUrl',
+                '#authOAuth2RedirectUri',
+                '#authOAuth2ClientId',
+                '#authOAuth2ClientSecret',
+                '#authOAuth2Username',
+                '#authOAuth2Password',
+                '#authOAuth2RefreshToken',
+                '#authOAuth2Scope',
+                '#authOAuth2Audience',
+                '#authAwsAccessKeyId',
+                '#authAwsSecretAccessKey',
+                '#authAwsSessionToken',
+                '#authAwsRegion',
+                '#authAwsService',
                 '#bodyJsonContent',
                 '#bodyTextContent',
                 '#bodyXmlContent',
-                '[data-field="value"]' // Query param and header value inputs
+                '[data-field="value"]', // Query param and header value inputs
+                '[data-field="expected"]' // Assertion expected values
             ];
             
             function isAutocompleteField(element) {
@@ -1391,7 +2320,7 @@ export function generateRequestPanelHtml(
                 for (const selector of autocompleteSelectors) {
                     if (element.matches && element.matches(selector)) return true;
                     if (element.id && selector === '#' + element.id) return true;
-                    if (element.dataset && element.dataset.field === 'value') return true;
+                    if (element.dataset && (element.dataset.field === 'value' || element.dataset.field === 'expected')) return true;
                 }
                 // Also check if it's a textarea
                 if (element.tagName === 'TEXTAREA') return true;
@@ -1812,6 +2741,12 @@ export function generateRequestPanelHtml(
                 
                 document.getElementById('responseTime').textContent = response.time + 'ms';
                 document.getElementById('responseSize').textContent = formatBytes(response.size);
+                document.getElementById('responseDecoded').textContent = response.encoding ? describeDecodedSize(response) : '-';
+                document.getElementById('responseDecodedMetric').style.display = response.encoding ? '' : 'none';
+                document.getElementById('responseProxy').textContent = response.proxy || '-';
+                document.getElementById('responseProxyMetric').style.display = response.proxy ? '' : 'none';
+                document.getElementById('responseProtocol').textContent = response.httpVersion || '-';
+                document.getElementById('responseProtocolMetric').style.display = response.httpVersion ? '' : 'none';
                 
                 // Detect content type
                 const contentType = (response.headers && (response.headers['content-type'] || response.headers['Content-Type'])) || '';
@@ -1820,7 +2755,12 @@ export function generateRequestPanelHtml(
                 
                 // Response body tab - use pre-highlighted HTML from extension host
                 const bodyEl = document.getElementById('responseBody');
-                if (response.highlightedBody) {
+                if (response.stream && streamView) {
+                    // Keep the events shown while the stream arrived - the Raw tab has the body
+                    finishStreamView(response.stopped, response.truncated);
+                } else if (response.binary) {
+                    showBinaryResponse(bodyEl, response, contentType);
+                } else if (response.highlightedBody) {
                     // Use pre-highlighted HTML from extension host
                     bodyEl.innerHTML = response.highlightedBody;
                 } else if (isJson) {
@@ -1842,8 +2782,12 @@ export function generateRequestPanelHtml(
                 headersCountEl.textContent = headerEntries.length;
                 headersCountEl.style.display = headerEntries.length > 0 ? '' : 'none';
                 
+                // HTTP/2 pseudo-headers go first, as they were sent and received
+                const pseudoRows = Object.entries(response.pseudoHeaders || {}).map(([name, value]) =>
+                    '<tr class="pseudo-header"><td>' + escapeHtmlJs(name) + '</td><td>' + escapeHtmlJs(String(value)) + '</td></tr>'
+                ).join('');
                 const headersBody = document.getElementById('responseHeadersBody');
-                headersBody.innerHTML = headerEntries.map(([name, value]) => 
+                headersBody.innerHTML = pseudoRows + headerEntries.map(([name, value]) => 
                     \`<tr><td>\${escapeHtmlJs(name)}</td><td>\${escapeHtmlJs(String(value))}</td></tr>\`
                 ).join('');
                 
@@ -1886,8 +2830,23 @@ export function generateRequestPanelHtml(
                     document.getElementById('responseCookiesTable').style.display = 'none';
                 }
                 
-                // Raw tab - unformatted response
-                document.getElementById('responseRaw').textContent = response.body;
+                // Tests tab - assertion results
+                showTestResults(response.assertionResults || []);
+                
+                // Timing tab - waterfall of the request phases
+                showTimings(response.timings);
+                
+                // Raw tab - unformatted response, or the bytes as received for encoded responses
+                currentRawText = response.binary
+                    ? 'Binary content (' + formatBytes(response.decodedSize ?? response.size) + ') - use Save to File to keep the exact bytes.'
+                    : response.body;
+                encodedHexDump = undefined;
+                document.getElementById('rawView').value = 'decoded';
+                document.getElementById('rawViewControls').style.display = response.encoding ? '' : 'none';
+                document.getElementById('rawViewSummary').textContent = response.encoding
+                    ? response.encoding + ': ' + formatBytes(response.size) + ' received, ' + formatBytes(response.decodedSize) + ' decoded'
+                    : '';
+                document.getElementById('responseRaw').textContent = currentRawText;
                 
                 // Generate code snippet
                 generateCodeSnippet();
@@ -1896,6 +2855,166 @@ export function generateRequestPanelHtml(
                 setTimeout(updateResponseTabHeight, 100);
             }
             
+            // Event streams are listed as their events arrive, before the response is complete
+            function showStreamStarted(data) {
+                const responsePane = document.querySelector('.response-pane');
+                const divider = document.getElementById('splitDivider');
+                if (responsePane) responsePane.classList.add('visible');
+                if (divider) divider.classList.add('visible');
+
+                const statusEl = document.getElementById('responseStatus');
+                statusEl.textContent = data.status + ' ' + (data.statusText || '');
+                statusEl.className = 'metric-value ' + (data.status >= 200 && data.status < 300 ? 'status-success' : 'status-error');
+                document.getElementById('responseTime').textContent = 'Streaming...';
+                document.getElementById('responseSize').textContent = '-';
+                document.getElementById('responseDecodedMetric').style.display = 'none';
+                document.getElementById('responseProxyMetric').style.display = 'none';
+
+                const bodyEl = document.getElementById('responseBody');
+                bodyEl.innerHTML = '';
+                const summary = document.createElement('div');
+                summary.className = 'stream-summary';
+                const list = document.createElement('div');
+                list.className = 'stream-events';
+                bodyEl.appendChild(summary);
+                bodyEl.appendChild(list);
+                streamView = { kind: data.kind, count: 0, summary, list };
+                updateStreamSummary('Receiving');
+            }
+
+            function appendStreamEvents(events) {
+                if (!streamView) return;
+                for (const event of events) {
+                    const row = document.createElement('div');
+                    row.className = 'stream-event';
+                    const meta = document.createElement('div');
+                    meta.className = 'stream-event-meta';
+                    meta.innerHTML = '<span class="stream-event-time">+' + formatMs(event.time) + '</span>'
+                        + (streamView.kind === 'sse' ? '<span class="stream-event-type">' + escapeHtmlJs(event.event || 'message') + '</span>' : '')
+                        + (event.id !== undefined ? '<span class="stream-event-id">id: ' + escapeHtmlJs(event.id) + '</span>' : '')
+                        + (event.retry !== undefined ? '<span class="stream-event-id">retry: ' + event.retry + ' ms</span>' : '');
+                    const data = document.createElement('pre');
+                    data.className = 'stream-event-data';
+                    data.textContent = formatStreamData(event.data);
+                    row.appendChild(meta);
+                    row.appendChild(data);
+                    streamView.list.appendChild(row);
+                }
+                streamView.count += events.length;
+                updateStreamSummary('Receiving');
+                if (streamView.list.lastElementChild) {
+                    streamView.list.lastElementChild.scrollIntoView({ block: 'nearest' });
+                }
+            }
+
+            function finishStreamView(stopped, truncated) {
+                updateStreamSummary(stopped ? 'Stopped' : 'Stream ended');
+                if (truncated) {
+                    streamView.summary.textContent += ' - the Raw tab keeps only the first 16 MB';
+                }
+                streamView.summary.classList.toggle('stream-stopped', !!stopped);
+            }
+
+            function updateStreamSummary(state) {
+                const label = streamView.kind === 'sse' ? 'Server-Sent Events' : 'NDJSON lines';
+                streamView.summary.textContent = state + ' - ' + streamView.count + ' ' + label;
+            }
+
+            // Pretty-print JSON payloads, like most LLM streaming APIs send
+            function formatStreamData(data) {
+                const trimmed = data.trim();
+                if (trimmed.startsWith('{') || trimmed.startsWith('[')) {
+                    try {
+                        return JSON.stringify(JSON.parse(trimmed), null, 2);
+                    } catch {
+                        return data;
+                    }
+                }
+                return data;
+            }
+
+            // Binary bodies can't be shown as text: preview images and PDFs, describe everything else
+            function showBinaryResponse(bodyEl, response, contentType) {
+                bodyEl.innerHTML = '';
+                const summary = document.createElement('div');
+                summary.className = 'binary-summary';
+                summary.textContent = 'Binary response' + (contentType ? ' (' + contentType + ')' : '') + ' - use Save to File to keep the exact bytes, or Open in Editor.';
+                bodyEl.appendChild(summary);
+
+                const preview = response.preview;
+                if (preview && preview.type === 'image') {
+                    const img = document.createElement('img');
+                    img.className = 'binary-preview';
+                    img.alt = 'Response image';
+                    img.src = preview.src;
+                    bodyEl.appendChild(img);
+                } else if (preview && preview.type === 'pdf') {
+                    const object = document.createElement('object');
+                    object.className = 'binary-preview pdf-preview';
+                    object.type = 'application/pdf';
+                    object.data = preview.src;
+                    object.textContent = 'This PDF can not be previewed here - use Open in Editor.';
+                    bodyEl.appendChild(object);
+                }
+            }
+
+            function showTestResults(results) {
+                const countEl = document.getElementById('testResultsCount');
+                const table = document.getElementById('testResultsTable');
+                const tbody = document.getElementById('testResultsBody');
+                const noResults = document.getElementById('noTestResults');
+                
+                if (results.length === 0) {
+                    countEl.style.display = 'none';
+                    tbody.innerHTML = '';
+                    table.style.display = 'none';
+                    noResults.style.display = 'block';
+                    return;
+                }
+                
+                const passed = results.filter(r => r.passed).length;
+                countEl.textContent = passed + '/' + results.length;
+                countEl.className = 'tab-badge ' + (passed === results.length ? 'tests-passed' : 'tests-failed');
+                countEl.style.display = '';
+                
+                tbody.innerHTML = results.map(r => {
+                    const icon = r.passed ? 'codicon-pass' : 'codicon-error';
+                    const detail = r.message ? '<div class="test-result-message">' + escapeHtmlJs(r.message) + '</div>' : '';
+                    return \`<tr class="\${r.passed ? 'test-passed' : 'test-failed'}"><td class="test-result-icon"><span class="codicon \${icon}"></span></td><td>\${escapeHtmlJs(r.description)}\${detail}</td><td>\${r.actual !== undefined ? escapeHtmlJs(r.actual) : '<span class="test-result-missing">(none)</span>'}</td></tr>\`;
+                }).join('');
+                table.style.display = 'table';
+                noResults.style.display = 'none';
+            }
+            
+            function showTimings(timings) {
+                const table = document.getElementById('timingTable');
+                const noTimings = document.getElementById('noTimings');
+                if (!timings) {
+                    document.getElementById('timingBody').innerHTML = '';
+                    table.style.display = 'none';
+                    noTimings.style.display = 'block';
+                    return;
+                }
+                
+                // Each bar starts where the previous phase ended
+                const total = Math.max(timings.total, 0.01);
+                let offset = 0;
+                document.getElementById('timingBody').innerHTML = timingPhases.map(phase => {
+                    const duration = timings[phase.key] || 0;
+                    const left = Math.min(offset / total * 100, 100);
+                    const width = Math.min(duration / total * 100, 100 - left);
+                    offset += duration;
+                    return \`<tr><td class="timing-label">\${escapeHtmlJs(phase.label)}</td><td class="timing-track"><div class="timing-bar timing-\${phase.key}" style="margin-left: \${left}%; width: \${width}%;"></div></td><td class="timing-duration">\${formatMs(duration)}</td></tr>\`;
+                }).join('');
+                document.getElementById('timingTotal').textContent = formatMs(timings.total);
+                table.style.display = 'table';
+                noTimings.style.display = 'none';
+            }
+            
+            function formatMs(ms) {
+                return ms >= 100 ? Math.round(ms) + ' ms' : ms.toFixed(2) + ' ms';
+            }
+            
             function escapeHtmlJs(text) {
                 if (!text) return '';
                 return String(text)
@@ -1905,7 +3024,7 @@ export function generateRequestPanelHtml(
                     .replace(/"/g, '&quot;');
             }
 
-            function showError(error) {
+            function showError(error, cancelled) {
                 const responsePane = document.querySelector('.response-pane');
                 const divider = document.getElementById('splitDivider');
                 if (responsePane) responsePane.classList.add('visible');
@@ -1913,13 +3032,18 @@ export function generateRequestPanelHtml(
                 
                 // Store error as response body for copy functionality
                 currentResponseBody = error || '';
+                streamView = undefined;
                 
                 const statusEl = document.getElementById('responseStatus');
-                statusEl.textContent = 'Error';
-                statusEl.className = 'metric-value status-error';
+                statusEl.textContent = cancelled ? 'Cancelled' : 'Error';
+                statusEl.className = 'metric-value ' + (cancelled ? 'status-cancelled' : 'status-error');
                 
                 document.getElementById('responseTime').textContent = '-';
                 document.getElementById('responseSize').textContent = '-';
+                document.getElementById('responseDecodedMetric').style.display = 'none';
+                document.getElementById('rawViewControls').style.display = 'none';
+                document.getElementById('responseProxyMetric').style.display = 'none';
+                document.getElementById('responseProtocolMetric').style.display = 'none';
                 document.getElementById('responseBody').textContent = error;
                 document.getElementById('responseRaw').textContent = error;
                 document.getElementById('headersCount').textContent = '0';
@@ -1930,7 +3054,15 @@ export function generateRequestPanelHtml(
                 document.getElementById('responseCookiesBody').innerHTML = '';
                 document.getElementById('noCookies').style.display = 'block';
                 document.getElementById('responseCookiesTable').style.display = 'none';
+                showTestResults([]);
+                showTimings(undefined);
             }
+            // "48.1 KB (br, 74% smaller)" - the compression ratio of an encoded response
+            function describeDecodedSize(response) {
+                const saved = response.decodedSize > 0 ? Math.round((1 - response.size / response.decodedSize) * 100) : 0;
+                return formatBytes(response.decodedSize) + ' (' + response.encoding + ', ' + (saved >= 0 ? saved + '% smaller' : -saved + '% larger') + ')';
+            }
+
             function formatBytes(bytes) {
                 if (bytes === 0) return '0 B';
                 const k = 1024;
@@ -2016,6 +3148,48 @@ function renderFormDataRows(content: string): string {
     }
 }
 
+function renderMultipartRows(content: string): string {
+    if (!content) {
+        return '';
+    }
+
+    return parseMultipartFields(content).map((field: MultipartField) => {
+        const isFile = field.type === 'file';
+        return `
+        <tr class="key-value-row multipart-row ${isFile ? 'file-field' : ''}">
+            <td class="checkbox-cell">
+                <vscode-checkbox ${field.enabled ? 'checked' : ''}></vscode-checkbox>
+            </td>
+            <td>
+                <vscode-textfield data-field="key" placeholder="Key" value="${escapeHtml(field.key)}"></vscode-textfield>
+            </td>
+            <td class="type-cell">
+                <vscode-single-select data-field="type">
+                    <vscode-option value="text" ${isFile ? '' : 'selected'}>Text</vscode-option>
+                    <vscode-option value="file" ${isFile ? 'selected' : ''}>File</vscode-option>
+                </vscode-single-select>
+            </td>
+            <td>
+                <vscode-textfield data-field="value" placeholder="${isFile ? 'File path' : 'Value'}" value="${escapeHtml(field.value)}"></vscode-textfield>
+            </td>
+            <td>
+                <vscode-textfield data-field="contentType" placeholder="Auto" value="${escapeHtml(field.contentType || '')}"></vscode-textfield>
+            </td>
+            <td class="browse-cell">
+                <button class="browse-file-btn" data-action="browseFile" title="Choose File">
+                    <span class="codicon codicon-folder-opened"></span>
+                </button>
+            </td>
+            <td class="delete-cell">
+                <button class="delete-btn" data-action="deleteRow">
+                    <span class="codicon codicon-trash"></span>
+                </button>
+            </td>
+        </tr>
+    `;
+    }).join('');
+}
+
 function renderInheritedHeaderRows(headers: { key: string; value: string }[], state: Record<string, boolean>): string {
     if (!headers || headers.length === 0) {
         return '';
@@ -2042,6 +3216,74 @@ function renderInheritedHeaderRows(headers: { key: string; value: string }[], st
     }).join('');
 }
 
+const ASSERTION_SOURCE_LABELS: Record<AssertionSource, string> = {
+    status: 'Status',
+    header: 'Header',
+    jsonPath: 'JSON Path',
+    body: 'Body',
+    responseTime: 'Response Time (ms)',
+};
+
+const ASSERTION_OPERATOR_LABELS: Record<string, string> = {
+    equals: 'equals',
+    notEquals: 'not equals',
+    inRange: 'in range',
+    exists: 'exists',
+    notExists: 'not exists',
+    contains: 'contains',
+    notContains: 'not contains',
+    matches: 'matches regex',
+    isType: 'is type',
+    lessThan: 'less than',
+};
+
+function renderAssertionRows(assertions: Assertion[]): string {
+    if (!assertions || assertions.length === 0) {
+        return '';
+    }
+
+    const renderOptions = (values: string[], labels: Record<string, string>, selected: string) =>
+        values.map(v => `<vscode-option value="${v}" ${v === selected ? 'selected' : ''}>${escapeHtml(labels[v] || v)}</vscode-option>`).join('');
+
+    return assertions.map(assertion => {
+        const operators = ASSERTION_OPERATORS[assertion.source] || [];
+        const usesProperty = assertion.source === 'header' || assertion.source === 'jsonPath';
+        const usesExpected = assertion.operator !== 'exists' && assertion.operator !== 'notExists';
+        return `
+        <tr class="key-value-row assertion-row" data-assertion-id="${escapeHtml(assertion.id)}">
+            <td class="checkbox-cell">
+                <vscode-checkbox ${assertion.enabled ? 'checked' : ''}></vscode-checkbox>
+            </td>
+            <td>
+                <vscode-single-select data-field="source">${renderOptions(Object.keys(ASSERTION_OPERATORS), ASSERTION_SOURCE_LABELS, assertion.source)}</vscode-single-select>
+            </td>
+            <td>
+                <vscode-textfield data-field="property" value="${escapeHtml(assertion.property || '')}" ${usesProperty ? '' : 'disabled'}></vscode-textfield>
+            </td>
+            <td>
+                <vscode-single-select data-field="operator">${renderOptions(operators, ASSERTION_OPERATOR_LABELS, assertion.operator)}</vscode-single-select>
+            </td>
+            <td>
+                <vscode-textfield data-field="expected" value="${escapeHtml(assertion.expected || '')}" ${usesExpected ? '' : 'disabled'}></vscode-textfield>
+            </td>
+            <td class="delete-cell">
+                <button class="delete-btn" data-action="deleteRow">
+                    <span class="codicon codicon-trash"></span>
+                </button>
+            </td>
+        </tr>
+    `;
+    }).join('');
+}
+
+function renderProtocolOptions(protocol: HttpProtocol | undefined, inherited: HttpProtocol | undefined): string {
+    const inheritedLabel = HTTP_PROTOCOLS.find(p => p.value === (inherited || 'http1'))!.label;
+    return [
+        `<vscode-option value="" ${protocol ? '' : 'selected'}>Collection default (${escapeHtml(inheritedLabel)})</vscode-option>`,
+        ...HTTP_PROTOCOLS.map(p => `<vscode-option value="${p.value}" ${p.value === protocol ? 'selected' : ''}>${escapeHtml(p.label)}</vscode-option>`),
+    ].join('');
+}
+
 function renderAvailableRequestOptions(requests: { id: string; name: string }[], selectedId?: string): string {
     if (!requests || requests.length === 0) {
         return '<vscode-option value="" disabled>No other requests in this collection</vscode-option>';
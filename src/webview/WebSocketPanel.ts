@@ -0,0 +1,657 @@
+import * as vscode from 'vscode';
+import { getNonce, getVscodeElementsUri, getCodiconsUri, getSharedCssUri, getWebSocketCssUri } from './webviewUtils';
+import { Collection, Request, WebSocketMessage } from '../models/Collection';
+import { HttpClient, RequestCancelledError } from '../http/HttpClient';
+import { createHttpClient, createOAuth2TokenProvider } from '../http/HttpClientFactory';
+import { OAuth2TokenProvider } from '../http/OAuth2';
+import { buildRequest } from '../http/RequestBuilder';
+import { WebSocketConnection } from '../http/WebSocket';
+import { formatHexDump } from '../http/ContentEncoding';
+import { StorageService } from '../storage/StorageService';
+import { VariableService } from '../storage/VariableService';
+import { getLogger } from '../logger';
+
+/** Bytes of a binary message shown in the transcript */
+const BINARY_PREVIEW_BYTES = 256;
+
+/**
+ * URL, headers and message templates as edited in the webview
+ */
+interface WebSocketEdits {
+    url: string;
+    headers: { key: string; value: string; enabled: boolean }[];
+    messages: WebSocketMessage[];
+}
+
+/**
+ * Webview panel for a WebSocket request: connects with the collection's headers and auth,
+ * sends text/JSON messages (typed or from saved templates) and shows a timestamped
+ * transcript of everything sent and received.
+ */
+export class WebSocketPanel {
+    private static panels: Map<string, WebSocketPanel> = new Map();
+    private static _storageService: StorageService | undefined;
+    private static _variableService: VariableService | undefined;
+    private static _httpClient: HttpClient | undefined;
+    private static _oauth2: OAuth2TokenProvider | undefined;
+
+    private readonly _panel: vscode.WebviewPanel;
+    private readonly _extensionUri: vscode.Uri;
+    private readonly _collectionId: string | undefined;
+    private _request: Request;
+    private _connection: WebSocketConnection | undefined;
+    /** Aborts the handshake in flight (Cancel button, panel closed) */
+    private _connectController: AbortController | undefined;
+    private _disposables: vscode.Disposable[] = [];
+
+    public static initialize(
+        storageService: StorageService,
+        variableService: VariableService
+    ): void {
+        WebSocketPanel._storageService = storageService;
+        WebSocketPanel._variableService = variableService;
+        WebSocketPanel._httpClient = createHttpClient(storageService);
+        WebSocketPanel._oauth2 = createOAuth2TokenProvider(WebSocketPanel._httpClient, storageService);
+    }
+
+    private constructor(
+        panel: vscode.WebviewPanel,
+        extensionUri: vscode.Uri,
+        request: Request,
+        collection: Collection | undefined
+    ) {
+        this._panel = panel;
+        this._extensionUri = extensionUri;
+        this._request = request;
+        this._collectionId = collection?.id;
+
+        this._panel.webview.html = this._getHtml(collection);
+
+        this._panel.onDidDispose(() => this.dispose(), null, this._disposables);
+
+        this._panel.webview.onDidReceiveMessage(
+            message => this._handleMessage(message),
+            null,
+            this._disposables
+        );
+    }
+
+    public static async openRequest(extensionUri: vscode.Uri, request: Request, collectionId?: string): Promise<WebSocketPanel> {
+        const column = vscode.window.activeTextEditor?.viewColumn;
+
+        const existingPanel = WebSocketPanel.panels.get(request.id);
+        if (existingPanel) {
+            existingPanel._panel.reveal(column);
+            return existingPanel;
+        }
+
+        const collection = collectionId ? await WebSocketPanel._storageService?.getCollectionAsync(collectionId) : undefined;
+
+        const panel = vscode.window.createWebviewPanel(
+            'endpointWebSocket',
+            request.name,
+            column || vscode.ViewColumn.One,
+            {
+                enableScripts: true,
+                retainContextWhenHidden: true,
+                localResourceRoots: [
+                    vscode.Uri.joinPath(extensionUri, 'dist')
+                ]
+            }
+        );
+
+        panel.iconPath = new vscode.ThemeIcon('plug');
+
+        const webSocketPanel = new WebSocketPanel(panel, extensionUri, { ...request, headers: [...request.headers] }, collection);
+        WebSocketPanel.panels.set(request.id, webSocketPanel);
+        return webSocketPanel;
+    }
+
+    /**
+     * Connect with the saved URL and headers, unless already connected
+     */
+    public connect(): void {
+        this._connect();
+    }
+
+    private _handleMessage(message: any): void {
+        switch (message.type) {
+            case 'connect':
+                this._applyEdits(message.data);
+                this._connect();
+                break;
+            case 'cancelConnect':
+                this._connectController?.abort();
+                break;
+            case 'disconnect':
+                this._connection?.close();
+                break;
+            case 'send':
+                this._send(message.data);
+                break;
+            case 'save':
+                this._applyEdits(message.data);
+                this._save();
+                break;
+        }
+    }
+
+    private _applyEdits(edits: WebSocketEdits): void {
+        this._request = {
+            ...this._request,
+            url: edits.url,
+            headers: edits.headers.map(h => ({ name: h.key, value: h.value, enabled: h.enabled })),
+            messages: edits.messages,
+        };
+    }
+
+    private async _connect(): Promise<void> {
+        if (this._connection?.isOpen || this._connectController) {
+            return;
+        }
+        if (!WebSocketPanel._httpClient || !WebSocketPanel._variableService || !WebSocketPanel._storageService) {
+            vscode.window.showErrorMessage(vscode.l10n.t('Storage not initialized. Please reload the extension.'));
+            return;
+        }
+
+        const logger = getLogger();
+        const variableService = WebSocketPanel._variableService;
+        const controller = new AbortController();
+        this._connectController = controller;
+        this._post({ type: 'connecting', data: { time: Date.now() } });
+
+        try {
+            // Pick up collection header and auth changes made since the panel opened
+            const collection = this._collectionId ? await WebSocketPanel._storageService.getCollectionAsync(this._collectionId) : undefined;
+            const request = await buildRequest(
+                this._request,
+                collection,
+                text => variableService.resolveText(text, this._collectionId),
+                WebSocketPanel._oauth2
+            );
+            const connection = await WebSocketPanel._httpClient.connectWebSocket(request, {
+                onMessage: (data, binary) => this._post({ type: 'entry', data: describeMessage('received', data, binary) }),
+                onClose: (code, reason) => {
+                    if (this._connection === connection) {
+                        this._connection = undefined;
+                    }
+                    logger.info('WebSocket closed', { code, reason });
+                    this._post({ type: 'disconnected', data: { time: Date.now(), code, reason } });
+                },
+                onError: error => {
+                    logger.warn('WebSocket error', { error: error.message });
+                    this._post({ type: 'error', data: { time: Date.now(), message: error.message } });
+                },
+            }, controller.signal);
+            if (connection.isOpen) {
+                this._connection = connection;
+                this._post({ type: 'connected', data: { time: Date.now(), url: request.url, protocol: connection.protocol } });
+            }
+        } catch (error) {
+            const errorMessage = error instanceof RequestCancelledError
+                ? vscode.l10n.t('Connection cancelled')
+                : error instanceof Error ? error.message : 'Unknown error';
+            this._post({ type: 'connectFailed', data: { time: Date.now(), message: errorMessage } });
+        } finally {
+            this._connectController = undefined;
+        }
+    }
+
+    /**
+     * Resolve variables in a message and send it. JSON messages must parse once resolved.
+     */
+    private async _send(message: Pick<WebSocketMessage, 'type' | 'content'>): Promise<void> {
+        const connection = this._connection;
+        if (!connection?.isOpen || !WebSocketPanel._variableService) {
+            this._post({ type: 'error', data: { time: Date.now(), message: vscode.l10n.t('Not connected') } });
+            return;
+        }
+
+        const text = await WebSocketPanel._variableService.resolveText(message.content, this._collectionId);
+        if (message.type === 'json') {
+            try {
+                JSON.parse(text);
+            } catch (error) {
+                const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+                this._post({ type: 'error', data: { time: Date.now(), message: vscode.l10n.t('Invalid JSON: {0}', errorMessage) } });
+                return;
+            }
+        }
+
+        try {
+            connection.send(text);
+            this._post({ type: 'entry', data: describeMessage('sent', Buffer.from(text, 'utf8'), false) });
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+            this._post({ type: 'error', data: { time: Date.now(), message: errorMessage } });
+        }
+    }
+
+    private async _save(): Promise<void> {
+        if (!WebSocketPanel._storageService) {
+            vscode.window.showErrorMessage(vscode.l10n.t('Storage not initialized. Please reload the extension.'));
+            return;
+        }
+
+        const collection = this._collectionId ? await WebSocketPanel._storageService.getCollectionAsync(this._collectionId) : undefined;
+        const requestIndex = collection ? collection.requests.findIndex(r => r.id === this._request.id) : -1;
+        if (!collection || requestIndex === -1) {
+            vscode.window.showErrorMessage(vscode.l10n.t('Request not found in its collection'));
+            return;
+        }
+
+        this._request.updatedAt = Date.now();
+        collection.requests[requestIndex] = {
+            ...collection.requests[requestIndex],
+            url: this._request.url,
+            headers: this._request.headers,
+            messages: this._request.messages,
+            updatedAt: this._request.updatedAt
+        };
+        collection.updatedAt = Date.now();
+        await WebSocketPanel._storageService.saveCollection(collection);
+
+        vscode.window.showInformationMessage(vscode.l10n.t('Request saved to "{0}".', collection.name));
+        vscode.commands.executeCommand('endpoint.refreshCollections');
+    }
+
+    private _post(message: { type: string; data?: unknown }): void {
+        this._panel.webview.postMessage(message);
+    }
+
+    private _getHtml(collection: Collection | undefined): string {
+        const nonce = getNonce();
+        const { bundleUri } = getVscodeElementsUri(this._panel.webview, this._extensionUri);
+        const codiconsUri = getCodiconsUri(this._panel.webview, this._extensionUri);
+        const sharedCssUri = getSharedCssUri(this._panel.webview, this._extensionUri);
+        const webSocketCssUri = getWebSocketCssUri(this._panel.webview, this._extensionUri);
+
+        const inheritsHeaders = (collection?.defaultHeaders || []).some(h => h.enabled && h.name);
+        const inheritsAuth = !!collection?.defaultAuth && collection.defaultAuth.type !== 'none' && this._request.useInheritedAuth !== false;
+        const state = {
+            url: this._request.url,
+            headers: this._request.headers.map(h => ({ key: h.name, value: h.value, enabled: h.enabled })),
+            messages: this._request.messages || [],
+        };
+
+        return /* html */ `<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src ${this._panel.webview.cspSource}; font-src ${this._panel.webview.cspSource}; script-src ${this._panel.webview.cspSource} 'nonce-${nonce}';">
+    <link href="${codiconsUri}" rel="stylesheet" />
+    <link href="${sharedCssUri}" rel="stylesheet" />
+    <link href="${webSocketCssUri}" rel="stylesheet" />
+    <title>WebSocket</title>
+</head>
+<body>
+    <div class="ws-url-bar">
+        <span class="ws-badge">WS</span>
+        <vscode-textfield id="url" placeholder="wss://example.com/socket" value="${escapeHtml(this._request.url)}"></vscode-textfield>
+        <vscode-button id="connectBtn">
+            <span class="codicon codicon-plug"></span>
+            Connect
+        </vscode-button>
+        <vscode-button id="disconnectBtn" appearance="secondary" style="display: none;">
+            <span class="codicon codicon-debug-disconnect"></span>
+            Disconnect
+        </vscode-button>
+        <vscode-button id="saveBtn" appearance="secondary">
+            <span class="codicon codicon-save"></span>
+            Save
+        </vscode-button>
+    </div>
+
+    <div class="ws-status" id="status">
+        <span class="ws-status-dot"></span>
+        <span id="statusText">Disconnected</span>
+    </div>
+
+    <details class="ws-section">
+        <summary>Headers <span class="ws-count" id="headerCount"></span></summary>
+        ${inheritsHeaders || inheritsAuth ? `<div class="ws-inherited"><span class="codicon codicon-info"></span> ${escapeHtml(inheritsAuth ? 'Collection headers and auth are added when connecting' : 'Collection headers are added when connecting')}</div>` : ''}
+        <table class="key-value-table">
+            <thead>
+                <tr>
+                    <th class="checkbox-cell"></th>
+                    <th>Key</th>
+                    <th>Value</th>
+                    <th class="delete-cell"></th>
+                </tr>
+            </thead>
+            <tbody id="headersBody"></tbody>
+        </table>
+        <vscode-button id="addHeaderBtn" class="add-row-btn" appearance="secondary">
+            <span class="codicon codicon-add"></span>
+            Add Header
+        </vscode-button>
+    </details>
+
+    <div class="ws-composer">
+        <div class="ws-composer-bar">
+            <vscode-single-select id="messageType">
+                <vscode-option value="text" selected>Text</vscode-option>
+                <vscode-option value="json">JSON</vscode-option>
+            </vscode-single-select>
+            <vscode-button id="sendBtn" disabled>
+                <span class="codicon codicon-send"></span>
+                Send
+            </vscode-button>
+            <vscode-textfield id="templateName" placeholder="Template name"></vscode-textfield>
+            <vscode-button id="saveTemplateBtn" appearance="secondary">
+                <span class="codicon codicon-bookmark"></span>
+                Save as Template
+            </vscode-button>
+        </div>
+        <vscode-textarea id="messageContent" rows="5" placeholder="Message - {{variables}} are resolved when sending" resize="vertical"></vscode-textarea>
+    </div>
+
+    <details class="ws-section" open>
+        <summary>Templates <span class="ws-count" id="templateCount"></span></summary>
+        <div id="templateList" class="ws-templates"></div>
+    </details>
+
+    <div class="ws-transcript-header">
+        <span>Transcript <span class="ws-count" id="entryCount"></span></span>
+        <vscode-button id="clearBtn" appearance="secondary">
+            <span class="codicon codicon-clear-all"></span>
+            Clear
+        </vscode-button>
+    </div>
+    <div id="transcript" class="ws-transcript"></div>
+
+    <script type="module" nonce="${nonce}" src="${bundleUri}"></script>
+    <script nonce="${nonce}">
+        (function() {
+            const vscode = acquireVsCodeApi();
+            /** Oldest entries are dropped beyond this, so long sessions don't slow the panel down */
+            const MAX_ENTRIES = 1000;
+
+            const state = ${JSON.stringify(state).replace(/</g, '\\u003c')};
+            let connectionState = 'disconnected';
+
+            const urlInput = document.getElementById('url');
+            const connectBtn = document.getElementById('connectBtn');
+            const disconnectBtn = document.getElementById('disconnectBtn');
+            const sendBtn = document.getElementById('sendBtn');
+            const messageType = document.getElementById('messageType');
+            const messageContent = document.getElementById('messageContent');
+            const templateName = document.getElementById('templateName');
+            const headersBody = document.getElementById('headersBody');
+            const templateList = document.getElementById('templateList');
+            const transcript = document.getElementById('transcript');
+
+            renderHeaders();
+            renderTemplates();
+            updateEntryCount();
+
+            connectBtn.addEventListener('click', () => {
+                if (connectionState === 'connecting') {
+                    vscode.postMessage({ type: 'cancelConnect' });
+                    return;
+                }
+                vscode.postMessage({ type: 'connect', data: collectEdits() });
+            });
+            disconnectBtn.addEventListener('click', () => vscode.postMessage({ type: 'disconnect' }));
+            document.getElementById('saveBtn').addEventListener('click', () => vscode.postMessage({ type: 'save', data: collectEdits() }));
+            document.getElementById('addHeaderBtn').addEventListener('click', () => {
+                state.headers = collectHeaders();
+                state.headers.push({ key: '', value: '', enabled: true });
+                renderHeaders();
+            });
+            document.getElementById('clearBtn').addEventListener('click', () => {
+                transcript.innerHTML = '';
+                updateEntryCount();
+            });
+            sendBtn.addEventListener('click', () => {
+                vscode.postMessage({ type: 'send', data: { type: messageType.value, content: messageContent.value } });
+            });
+            document.getElementById('saveTemplateBtn').addEventListener('click', () => {
+                const name = templateName.value.trim() || 'Message ' + (state.messages.length + 1);
+                const existing = state.messages.findIndex(m => m.name === name);
+                const message = { name, type: messageType.value, content: messageContent.value };
+                if (existing >= 0) {
+                    state.messages[existing] = message;
+                } else {
+                    state.messages.push(message);
+                }
+                templateName.value = '';
+                renderTemplates();
+            });
+
+            headersBody.addEventListener('click', (e) => {
+                const button = e.target.closest('.delete-btn');
+                if (button) {
+                    state.headers = collectHeaders();
+                    state.headers.splice(Number(button.dataset.index), 1);
+                    renderHeaders();
+                }
+            });
+            headersBody.addEventListener('input', () => updateHeaderCount());
+            headersBody.addEventListener('change', () => updateHeaderCount());
+
+            templateList.addEventListener('click', (e) => {
+                const button = e.target.closest('[data-action]');
+                if (!button) return;
+                const index = Number(button.dataset.index);
+                const template = state.messages[index];
+                switch (button.dataset.action) {
+                    case 'send':
+                        vscode.postMessage({ type: 'send', data: { type: template.type, content: template.content } });
+                        break;
+                    case 'load':
+                        messageType.value = template.type;
+                        messageContent.value = template.content;
+                        templateName.value = template.name;
+                        break;
+                    case 'delete':
+                        state.messages.splice(index, 1);
+                        renderTemplates();
+                        break;
+                }
+            });
+
+            window.addEventListener('message', event => {
+                const message = event.data;
+                switch (message.type) {
+                    case 'connecting':
+                        setConnectionState('connecting', 'Connecting...');
+                        break;
+                    case 'connected':
+                        setConnectionState('connected', 'Connected to ' + message.data.url + (message.data.protocol ? ' (' + message.data.protocol + ')' : ''));
+                        addSystemEntry(message.data.time, 'Connected to ' + message.data.url);
+                        break;
+                    case 'connectFailed':
+                        setConnectionState('disconnected', 'Connection failed');
+                        addSystemEntry(message.data.time, message.data.message, true);
+                        break;
+                    case 'disconnected': {
+                        const reason = message.data.reason ? ' - ' + message.data.reason : '';
+                        setConnectionState('disconnected', 'Disconnected (' + message.data.code + reason + ')');
+                        addSystemEntry(message.data.time, 'Disconnected with code ' + message.data.code + reason, message.data.code !== 1000);
+                        break;
+                    }
+                    case 'entry':
+                        addEntry(message.data);
+                        break;
+                    case 'error':
+                        addSystemEntry(message.data.time, message.data.message, true);
+                        break;
+                }
+            });
+
+            function collectEdits() {
+                state.url = urlInput.value;
+                state.headers = collectHeaders();
+                return state;
+            }
+
+            function collectHeaders() {
+                return Array.from(headersBody.querySelectorAll('tr')).map(row => ({
+                    key: row.querySelector('vscode-textfield[data-field="key"]').value || '',
+                    value: row.querySelector('vscode-textfield[data-field="value"]').value || '',
+                    enabled: row.querySelector('vscode-checkbox').checked
+                }));
+            }
+
+            function renderHeaders() {
+                headersBody.innerHTML = state.headers.map((h, index) =>
+                    '<tr class="key-value-row">' +
+                        '<td class="checkbox-cell"><vscode-checkbox ' + (h.enabled ? 'checked' : '') + '></vscode-checkbox></td>' +
+                        '<td><vscode-textfield data-field="key" placeholder="Key" value="' + escapeHtmlJs(h.key) + '"></vscode-textfield></td>' +
+                        '<td><vscode-textfield data-field="value" placeholder="Value" value="' + escapeHtmlJs(h.value) + '"></vscode-textfield></td>' +
+                        '<td class="delete-cell"><button class="delete-btn" data-index="' + index + '"><span class="codicon codicon-trash"></span></button></td>' +
+                    '</tr>'
+                ).join('');
+                updateHeaderCount();
+            }
+
+            function updateHeaderCount() {
+                const count = collectHeaders().filter(h => h.enabled && h.key).length;
+                document.getElementById('headerCount').textContent = count ? '(' + count + ')' : '';
+            }
+
+            function renderTemplates() {
+                document.getElementById('templateCount').textContent = state.messages.length ? '(' + state.messages.length + ')' : '';
+                if (state.messages.length === 0) {
+                    templateList.innerHTML = '<div class="ws-empty">No templates yet - write a message and save it as a template</div>';
+                    return;
+                }
+                templateList.innerHTML = state.messages.map((m, index) =>
+                    '<div class="ws-template">' +
+                        '<span class="ws-type">' + (m.type === 'json' ? 'JSON' : 'Text') + '</span>' +
+                        '<a class="ws-template-name" data-action="load" data-index="' + index + '" title="Load into the composer">' + escapeHtmlJs(m.name) + '</a>' +
+                        '<span class="ws-template-preview">' + escapeHtmlJs(truncate(m.content, 80)) + '</span>' +
+                        '<button class="ws-icon-btn" data-action="send" data-index="' + index + '" title="Send"' + (connectionState === 'connected' ? '' : ' disabled') + '><span class="codicon codicon-send"></span></button>' +
+                        '<button class="delete-btn" data-action="delete" data-index="' + index + '" title="Delete"><span class="codicon codicon-trash"></span></button>' +
+                    '</div>'
+                ).join('');
+            }
+
+            function setConnectionState(newState, text) {
+                connectionState = newState;
+                document.getElementById('status').className = 'ws-status ws-' + newState;
+                document.getElementById('statusText').textContent = text;
+                connectBtn.style.display = newState === 'connected' ? 'none' : '';
+                connectBtn.innerHTML = newState === 'connecting'
+                    ? '<span class="codicon codicon-close"></span> Cancel'
+                    : '<span class="codicon codicon-plug"></span> Connect';
+                disconnectBtn.style.display = newState === 'connected' ? '' : 'none';
+                sendBtn.disabled = newState !== 'connected';
+                urlInput.disabled = newState !== 'disconnected';
+                renderTemplates();
+            }
+
+            function addEntry(entry) {
+                const element = document.createElement('div');
+                element.className = 'ws-entry ws-' + entry.direction;
+                const icon = entry.direction === 'sent' ? 'arrow-up' : 'arrow-down';
+                const size = entry.binary ? 'Binary, ' + formatBytes(entry.size) : formatBytes(entry.size);
+                element.innerHTML =
+                    '<div class="ws-entry-meta">' +
+                        '<span class="codicon codicon-' + icon + '"></span>' +
+                        '<span class="ws-time">' + formatTime(entry.time) + '</span>' +
+                        '<span class="ws-size">' + size + '</span>' +
+                    '</div>' +
+                    '<pre class="ws-entry-content">' + escapeHtmlJs(entry.text) + '</pre>';
+                appendToTranscript(element);
+            }
+
+            function addSystemEntry(time, text, isError) {
+                const element = document.createElement('div');
+                element.className = 'ws-entry ws-system' + (isError ? ' ws-error' : '');
+                element.innerHTML =
+                    '<div class="ws-entry-meta">' +
+                        '<span class="codicon codicon-' + (isError ? 'error' : 'info') + '"></span>' +
+                        '<span class="ws-time">' + formatTime(time) + '</span>' +
+                        '<span>' + escapeHtmlJs(text) + '</span>' +
+                    '</div>';
+                appendToTranscript(element);
+            }
+
+            function appendToTranscript(element) {
+                const atBottom = transcript.scrollHeight - transcript.scrollTop - transcript.clientHeight < 20;
+                transcript.appendChild(element);
+                while (transcript.childElementCount > MAX_ENTRIES) {
+                    transcript.firstElementChild.remove();
+                }
+                if (atBottom) {
+                    transcript.scrollTop = transcript.scrollHeight;
+                }
+                updateEntryCount();
+            }
+
+            function updateEntryCount() {
+                const count = transcript.querySelectorAll('.ws-sent, .ws-received').length;
+                document.getElementById('entryCount').textContent = count ? '(' + count + ' messages)' : '';
+            }
+
+            function formatTime(time) {
+                const date = new Date(time);
+                return date.toTimeString().split(' ')[0] + '.' + String(date.getMilliseconds()).padStart(3, '0');
+            }
+
+            function truncate(text, maxLength) {
+                text = String(text).replace(/\\s+/g, ' ');
+                return text.length > maxLength ? text.substring(0, maxLength) + '...' : text;
+            }
+
+            function escapeHtmlJs(text) {
+                if (!text) return '';
+                return String(text)
+                    .replace(/&/g, '&amp;')
+                    .replace(/</g, '&lt;')
+                    .replace(/>/g, '&gt;')
+                    .replace(/"/g, '&quot;');
+            }
+
+            function formatBytes(bytes) {
+                if (bytes === 0) return '0 B';
+                const k = 1024;
+                const sizes = ['B', 'KB', 'MB', 'GB'];
+                const i = Math.floor(Math.log(bytes) / Math.log(k));
+                return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + ' ' + sizes[i];
+            }
+        })();
+    </script>
+</body>
+</html>`;
+    }
+
+    public dispose(): void {
+        // Nobody is left to show the conversation
+        this._connectController?.abort();
+        this._connection?.close(1001, 'Panel closed');
+        WebSocketPanel.panels.delete(this._request.id);
+        this._panel.dispose();
+        while (this._disposables.length) {
+            const d = this._disposables.pop();
+            if (d) {
+                d.dispose();
+            }
+        }
+    }
+}
+
+/**
+ * Transcript entry for a message. Binary messages are shown as a hex dump of their first bytes.
+ */
+function describeMessage(direction: 'sent' | 'received', data: Buffer, binary: boolean) {
+    return {
+        direction,
+        time: Date.now(),
+        size: data.length,
+        binary,
+        text: binary ? formatHexDump(data, BINARY_PREVIEW_BYTES) : data.toString('utf8'),
+    };
+}
+
+function escapeHtml(text: string): string {
+    return text
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/'/g, '&#039;');
+}
@@ -114,3 +114,48 @@ export function getHistoryViewCssUri(
         'historyView.css'
     ]);
 }
+
+/**
+ * Get the URI for collection runner CSS
+ * Assets are copied to dist/webview during build
+ */
+export function getCollectionRunnerCssUri(
+    webview: vscode.Webview,
+    extensionUri: vscode.Uri
+): vscode.Uri {
+    return getWebviewUri(webview, extensionUri, [
+        'dist',
+        'webview',
+        'collectionRunner.css'
+    ]);
+}
+
+/**
+ * Get the URI for the WebSocket panel CSS
+ * Assets are copied to dist/webview during build
+ */
+export function getWebSocketCssUri(
+    webview: vscode.Webview,
+    extensionUri: vscode.Uri
+): vscode.Uri {
+    return getWebviewUri(webview, extensionUri, [
+        'dist',
+        'webview',
+        'webSocket.css'
+    ]);
+}
+
+/**
+ * Get the URI for the gRPC panel CSS
+ * Assets are copied to dist/webview during build
+ */
+export function getGrpcCssUri(
+    webview: vscode.Webview,
+    extensionUri: vscode.Uri
+): vscode.Uri {
+    return getWebviewUri(webview, extensionUri, [
+        'dist',
+        'webview',
+        'grpc.css'
+    ]);
+}